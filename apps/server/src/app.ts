@@ -4,13 +4,45 @@
  * Dependencies can be injected for testability.
  */
 
+import { STATUS_CODES } from "node:http";
+
 import { Hono } from "hono";
 import { cors } from "hono/cors";
+import { HTTPException } from "hono/http-exception";
 import { logger } from "hono/logger";
 
+import {
+  type DomainError,
+  forbiddenError,
+  notFoundError,
+  unauthorizedError,
+  unexpectedError,
+  validationError,
+} from "./domain/errors";
+
+import { type Authenticator, authenticate } from "./middleware/authentication";
+import type { SessionTokenService } from "./middleware/session-token";
+import type { CommentRepository } from "./repositories/interfaces/comment-repository";
+import type { CredentialRepository } from "./repositories/interfaces/credential-repository";
+import type { EmailVerificationTokenRepository } from "./repositories/interfaces/email-verification-token-repository";
+import type { FollowRepository } from "./repositories/interfaces/follow-repository";
+import type { IdempotencyKeyRepository } from "./repositories/interfaces/idempotency-key-repository";
+import type { JobRepository } from "./repositories/interfaces/job-repository";
+import type { PersonalAccessTokenRepository } from "./repositories/interfaces/personal-access-token-repository";
 import type { PostRepository } from "./repositories/interfaces/post-repository";
+import type { PostRevisionRepository } from "./repositories/interfaces/post-revision-repository";
+import type { PostSearch } from "./repositories/interfaces/post-search";
+import type { ReactionRepository } from "./repositories/interfaces/reaction-repository";
+import type { TagRepository } from "./repositories/interfaces/tag-repository";
+import type { UnitOfWork } from "./repositories/interfaces/unit-of-work";
 import type { UserRepository } from "./repositories/interfaces/user-repository";
+import type { UserStatisticsQuery } from "./repositories/interfaces/user-statistics-query";
 import { createRoutes } from "./routes";
+import type { HttpTransportError } from "./types/http-error";
+import { sendHttpError } from "./utils/http-error";
+import type { Mailer } from "./utils/mailer";
+import type { PasswordHasher } from "./utils/password-hasher";
+import { payloadTooLargeError } from "./utils/request-body";
 
 /**
  * Application dependencies.
@@ -19,8 +51,70 @@ import { createRoutes } from "./routes";
 export interface AppDependencies {
   readonly userRepository?: UserRepository;
   readonly postRepository?: PostRepository;
+  readonly credentialRepository?: CredentialRepository;
+  readonly passwordHasher?: PasswordHasher;
+  readonly sessionTokenService?: SessionTokenService;
+  readonly emailVerificationTokenRepository?: EmailVerificationTokenRepository;
+  readonly mailer?: Mailer;
+  readonly personalAccessTokenRepository?: PersonalAccessTokenRepository;
+  readonly postSearch?: PostSearch;
+  /** Makes multi-step usecases atomic when provided */
+  readonly unitOfWork?: UnitOfWork;
+  /** Enables Idempotency-Key replays on POST /users and POST /posts */
+  readonly idempotencyKeyRepository?: IdempotencyKeyRepository;
+  /** How long idempotency keys are remembered (default 24 hours) */
+  readonly idempotencyTtlSeconds?: number;
+  /** Enables scheduled publishing (POST/DELETE /posts/:id/schedule) */
+  readonly jobRepository?: JobRepository;
+  /** Records post edit history and enables GET /posts/:id/revisions */
+  readonly postRevisionRepository?: PostRevisionRepository;
+  /** Enables GET /tags */
+  readonly tagRepository?: TagRepository;
+  /** Enables comment threads on posts */
+  readonly commentRepository?: CommentRepository;
+  /** Enables post reactions and adds their counts to post responses */
+  readonly reactionRepository?: ReactionRepository;
+  /** Enables following users and GET /feed */
+  readonly followRepository?: FollowRepository;
+  /** Enables GET /users/:id/stats and GET /stats/users */
+  readonly userStatisticsQuery?: UserStatisticsQuery;
+  /** Resolves the request principal; anonymous when omitted */
+  readonly authenticator?: Authenticator;
 }
 
+/**
+ * Map an error thrown by a handler or middleware to a domain error.
+ * HTTPExceptions keep their client-error status; anything else is a 500.
+ */
+const thrownToError = (error: Error): DomainError | HttpTransportError => {
+  if (!(error instanceof HTTPException)) {
+    return unexpectedError("Unhandled error", error);
+  }
+
+  switch (error.status) {
+    case 400:
+      return validationError(error.message || "Bad request");
+    case 401:
+      return unauthorizedError(error.message || undefined);
+    case 403:
+      return forbiddenError(error.message || "Forbidden");
+    case 404:
+      return notFoundError("Resource");
+    case 413:
+      return payloadTooLargeError();
+  }
+
+  if (error.status >= 400 && error.status < 500) {
+    return {
+      type: "HttpClientError",
+      message: error.message || (STATUS_CODES[error.status] ?? "Client error"),
+      status: error.status,
+    };
+  }
+
+  return unexpectedError(error.message, error);
+};
+
 /**
  * Create the Hono application with optional dependency injection.
  * Use this in tests to inject fakes/mocks.
@@ -30,17 +124,56 @@ export const createApp = (deps?: Partial<AppDependencies>) => {
 
   // Middleware
   app.use("*", logger());
-  app.use("*", cors());
+  // Let browser clients read ETags (for If-Match / If-None-Match) and
+  // whether a response was an idempotent replay
+  app.use(
+    "*",
+    cors({ origin: "*", exposeHeaders: ["ETag", "Idempotent-Replayed"] }),
+  );
+
+  if (deps?.authenticator) {
+    app.use("*", authenticate(deps.authenticator));
+  }
 
   // Mount routes with dependencies
   const routes = createRoutes({
     userRepository: deps?.userRepository,
     postRepository: deps?.postRepository,
+    credentialRepository: deps?.credentialRepository,
+    passwordHasher: deps?.passwordHasher,
+    sessionTokenService: deps?.sessionTokenService,
+    emailVerificationTokenRepository: deps?.emailVerificationTokenRepository,
+    mailer: deps?.mailer,
+    personalAccessTokenRepository: deps?.personalAccessTokenRepository,
+    postSearch: deps?.postSearch,
+    unitOfWork: deps?.unitOfWork,
+    idempotencyKeyRepository: deps?.idempotencyKeyRepository,
+    idempotencyTtlSeconds: deps?.idempotencyTtlSeconds,
+    jobRepository: deps?.jobRepository,
+    postRevisionRepository: deps?.postRevisionRepository,
+    tagRepository: deps?.tagRepository,
+    commentRepository: deps?.commentRepository,
+    reactionRepository: deps?.reactionRepository,
+    followRepository: deps?.followRepository,
+    userStatisticsQuery: deps?.userStatisticsQuery,
   });
   app.route("/", routes);
 
+  // Every error response is RFC 7807 Problem Details, including unmatched
+  // routes and exceptions that escape a handler
+  app.notFound((c) =>
+    sendHttpError(c, notFoundError(`Route ${c.req.method} ${c.req.path}`)),
+  );
+
+  app.onError((error, c) => {
+    const mapped = thrownToError(error);
+
+    if (mapped.type === "UnexpectedError") {
+      console.error(`Unhandled error on ${c.req.method} ${c.req.path}`, error);
+    }
+
+    return sendHttpError(c, mapped);
+  });
+
   return app;
 };
-
-// Default app instance for production (no deps - routes requiring deps won't be mounted)
-export const app = createApp();
@@ -0,0 +1,431 @@
+/**
+ * Composition root.
+ * Builds concrete infrastructure (repositories, connection pools) for the
+ * selected backend and exposes them as AppDependencies.
+ */
+
+import { createMigrator } from "@bun-hono-ddd-template/db/migrator";
+
+import type { AppDependencies } from "./app";
+import {
+  type JobWorker,
+  type RetentionScheduler,
+  createJobWorker,
+  createPublishScheduledPostHandler,
+  createPurgeDeletedRecordsHandler,
+  createRetentionScheduler,
+} from "./jobs";
+import { combineAuthenticators } from "./middleware/authentication";
+import { createPersonalAccessTokenAuthenticator } from "./middleware/personal-access-token";
+import {
+  createSessionTokenAuthenticator,
+  createSessionTokenService,
+} from "./middleware/session-token";
+import type { CommentRepository } from "./repositories/interfaces/comment-repository";
+import type { CredentialRepository } from "./repositories/interfaces/credential-repository";
+import type { EmailVerificationTokenRepository } from "./repositories/interfaces/email-verification-token-repository";
+import type { FollowRepository } from "./repositories/interfaces/follow-repository";
+import type { IdempotencyKeyRepository } from "./repositories/interfaces/idempotency-key-repository";
+import type { JobRepository } from "./repositories/interfaces/job-repository";
+import type { PersonalAccessTokenRepository } from "./repositories/interfaces/personal-access-token-repository";
+import type { PostRepository } from "./repositories/interfaces/post-repository";
+import type { PostRevisionRepository } from "./repositories/interfaces/post-revision-repository";
+import type { PostSearch } from "./repositories/interfaces/post-search";
+import type { ReactionRepository } from "./repositories/interfaces/reaction-repository";
+import type { TagRepository } from "./repositories/interfaces/tag-repository";
+import type { UnitOfWork } from "./repositories/interfaces/unit-of-work";
+import type { UserRepository } from "./repositories/interfaces/user-repository";
+import type { UserStatisticsQuery } from "./repositories/interfaces/user-statistics-query";
+import {
+  createInMemoryCascade,
+  createInMemoryCommentRepository,
+  createInMemoryCredentialRepository,
+  createInMemoryEmailVerificationTokenRepository,
+  createInMemoryFollowRepository,
+  createInMemoryIdempotencyKeyRepository,
+  createInMemoryJobRepository,
+  createInMemoryPersonalAccessTokenRepository,
+  createInMemoryPostRepository,
+  createInMemoryPostRevisionRepository,
+  createInMemoryPostSearch,
+  createInMemoryReactionRepository,
+  createInMemoryTagRepository,
+  createInMemoryUnitOfWork,
+  createInMemoryUserRepository,
+  createInMemoryUserStatisticsQuery,
+} from "./repositories/memory";
+import {
+  createDb,
+  createPool,
+  createPostgresCommentRepository,
+  createPostgresCredentialRepository,
+  createPostgresEmailVerificationTokenRepository,
+  createPostgresFollowRepository,
+  createPostgresIdempotencyKeyRepository,
+  createPostgresJobRepository,
+  createPostgresPersonalAccessTokenRepository,
+  createPostgresPostRepository,
+  createPostgresPostRevisionRepository,
+  createPostgresPostSearch,
+  createPostgresReactionRepository,
+  createPostgresTagRepository,
+  createPostgresUnitOfWork,
+  createPostgresUserRepository,
+  createPostgresUserStatisticsQuery,
+} from "./repositories/postgres";
+import {
+  IN_MEMORY_SQLITE_PATH,
+  createSqliteCommentRepository,
+  createSqliteCredentialRepository,
+  createSqliteDb,
+  createSqliteEmailVerificationTokenRepository,
+  createSqliteFollowRepository,
+  createSqliteIdempotencyKeyRepository,
+  createSqliteJobRepository,
+  createSqlitePersonalAccessTokenRepository,
+  createSqlitePostRepository,
+  createSqlitePostRevisionRepository,
+  createSqlitePostSearch,
+  createSqliteReactionRepository,
+  createSqliteTagRepository,
+  createSqliteUnitOfWork,
+  createSqliteUserRepository,
+  createSqliteUserStatisticsQuery,
+} from "./repositories/sqlite";
+import { PUBLISH_SCHEDULED_POST_JOB } from "./usecases/publish-scheduled-post";
+import { PURGE_DELETED_RECORDS_JOB } from "./usecases/purge-deleted-records";
+import { createConsoleMailer, createHttpMailer } from "./utils/mailer";
+import { createPasswordHasher } from "./utils/password-hasher";
+
+/**
+ * Supported persistence backends.
+ */
+export type RepositoryBackend = "memory" | "postgres" | "sqlite";
+
+/**
+ * Options for creating the container.
+ */
+export interface CreateContainerOptions {
+  readonly backend: RepositoryBackend;
+  /** Database connection URL (postgres backend only) */
+  readonly databaseUrl?: string;
+  /** SQLite file path or ":memory:" (sqlite backend only) */
+  readonly sqlitePath?: string;
+  /**
+   * HMAC secret for session tokens.
+   * When omitted a random per-process secret is used, so sessions do not
+   * survive a restart or span multiple instances; the server only allows
+   * that outside production.
+   */
+  readonly sessionSecret?: string;
+  /**
+   * Endpoint that delivers outgoing email.
+   * When omitted messages, verification tokens included, are logged to the
+   * console, which is only fit for local runs and tests.
+   */
+  readonly mailWebhookUrl?: string;
+  /** Bearer token for the mail endpoint */
+  readonly mailWebhookToken?: string;
+  /** How long Idempotency-Key responses are replayed (default 24 hours) */
+  readonly idempotencyTtlSeconds?: number;
+  /** How often the job worker polls for due jobs (default 1 second) */
+  readonly jobPollIntervalMs?: number;
+  /** How long soft-deleted users and posts are kept (default 30 days) */
+  readonly retentionDays?: number;
+  /** How often soft-deleted records are purged (default 1 hour) */
+  readonly retentionPurgeIntervalMs?: number;
+}
+
+/**
+ * Whether the database schema matches the code.
+ */
+export interface SchemaCheck {
+  readonly upToDate: boolean;
+  /** Tags of migrations not yet applied */
+  readonly pending: readonly string[];
+}
+
+/**
+ * Wired application dependencies plus a hook to release resources.
+ */
+export interface Container {
+  readonly backend: RepositoryBackend;
+  readonly deps: AppDependencies;
+  /**
+   * Runs scheduled jobs. Not started by the container; the server starts
+   * it once the schema check passes and stops it before close.
+   */
+  readonly jobWorker: JobWorker;
+  /**
+   * Enqueues retention purges for the job worker. Started and stopped by
+   * the server alongside the worker.
+   */
+  readonly retentionScheduler: RetentionScheduler;
+  /**
+   * Compare the database schema with the committed migrations.
+   * The server refuses to start while migrations are pending.
+   */
+  checkSchema(): Promise<SchemaCheck>;
+  /**
+   * Release held resources (e.g. close the connection pool).
+   * Safe to call more than once.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Repositories provided by a backend, plus its cleanup hook.
+ */
+interface BackendRepositories {
+  readonly userRepository: UserRepository;
+  readonly postRepository: PostRepository;
+  readonly postRevisionRepository: PostRevisionRepository;
+  readonly credentialRepository: CredentialRepository;
+  readonly emailVerificationTokenRepository: EmailVerificationTokenRepository;
+  readonly personalAccessTokenRepository: PersonalAccessTokenRepository;
+  readonly idempotencyKeyRepository: IdempotencyKeyRepository;
+  readonly jobRepository: JobRepository;
+  readonly tagRepository: TagRepository;
+  readonly commentRepository: CommentRepository;
+  readonly reactionRepository: ReactionRepository;
+  readonly followRepository: FollowRepository;
+  readonly userStatisticsQuery: UserStatisticsQuery;
+  /** Not every backend supports search or transactions */
+  readonly postSearch?: PostSearch;
+  readonly unitOfWork?: UnitOfWork;
+  checkSchema(): Promise<SchemaCheck>;
+  close(): Promise<void>;
+}
+
+/**
+ * Create memory-backed repositories.
+ * Data lives for the lifetime of the process only.
+ */
+const createMemoryRepositories = (): BackendRepositories => {
+  // Purges cascade like the databases' foreign keys
+  const cascade = createInMemoryCascade();
+  const repositories = {
+    userRepository: createInMemoryUserRepository(cascade),
+    postRepository: createInMemoryPostRepository(cascade),
+    postRevisionRepository: createInMemoryPostRevisionRepository(cascade),
+    credentialRepository: createInMemoryCredentialRepository(cascade),
+    emailVerificationTokenRepository:
+      createInMemoryEmailVerificationTokenRepository(cascade),
+    personalAccessTokenRepository:
+      createInMemoryPersonalAccessTokenRepository(cascade),
+    jobRepository: createInMemoryJobRepository(),
+  };
+
+  return {
+    ...repositories,
+    idempotencyKeyRepository: createInMemoryIdempotencyKeyRepository(cascade),
+    commentRepository: createInMemoryCommentRepository(cascade),
+    reactionRepository: createInMemoryReactionRepository(cascade),
+    followRepository: createInMemoryFollowRepository({
+      users: repositories.userRepository,
+      posts: repositories.postRepository,
+      cascade,
+    }),
+    userStatisticsQuery: createInMemoryUserStatisticsQuery({
+      users: repositories.userRepository,
+      posts: repositories.postRepository,
+    }),
+    tagRepository: createInMemoryTagRepository(repositories.postRepository),
+    postSearch: createInMemoryPostSearch(repositories.postRepository),
+    unitOfWork: createInMemoryUnitOfWork(repositories),
+    async checkSchema() {
+      // No schema to migrate
+      return { upToDate: true, pending: [] };
+    },
+    async close() {
+      // Nothing to release
+    },
+  };
+};
+
+/**
+ * Create Postgres-backed repositories.
+ * A single pool is shared by all repositories and ended on close.
+ */
+const createPostgresRepositories = (
+  databaseUrl?: string,
+): BackendRepositories => {
+  const pool = createPool({ databaseUrl });
+  const db = createDb({ pool });
+  let closed = false;
+
+  return {
+    userRepository: createPostgresUserRepository(db),
+    postRepository: createPostgresPostRepository(db),
+    postRevisionRepository: createPostgresPostRevisionRepository(db),
+    credentialRepository: createPostgresCredentialRepository(db),
+    emailVerificationTokenRepository:
+      createPostgresEmailVerificationTokenRepository(db),
+    personalAccessTokenRepository:
+      createPostgresPersonalAccessTokenRepository(db),
+    idempotencyKeyRepository: createPostgresIdempotencyKeyRepository(db),
+    jobRepository: createPostgresJobRepository(db),
+    tagRepository: createPostgresTagRepository(db),
+    commentRepository: createPostgresCommentRepository(db),
+    reactionRepository: createPostgresReactionRepository(db),
+    followRepository: createPostgresFollowRepository(db),
+    userStatisticsQuery: createPostgresUserStatisticsQuery(db),
+    postSearch: createPostgresPostSearch(db),
+    unitOfWork: createPostgresUnitOfWork(db),
+    async checkSchema() {
+      const status = await createMigrator({ pool }).status();
+
+      return {
+        upToDate: status.upToDate,
+        pending: status.pending.map((migration) => migration.tag),
+      };
+    },
+    async close() {
+      if (closed) return;
+      closed = true;
+      await pool.end();
+    },
+  };
+};
+
+/**
+ * Create SQLite-backed repositories on a single embedded connection.
+ * The schema is migrated when the file is opened.
+ */
+const createSqliteRepositories = (
+  path = IN_MEMORY_SQLITE_PATH,
+): BackendRepositories => {
+  const connection = createSqliteDb({ path });
+  const { db, client } = connection;
+  let closed = false;
+
+  return {
+    userRepository: createSqliteUserRepository(db),
+    postRepository: createSqlitePostRepository(db),
+    postRevisionRepository: createSqlitePostRevisionRepository(db),
+    credentialRepository: createSqliteCredentialRepository(db),
+    emailVerificationTokenRepository:
+      createSqliteEmailVerificationTokenRepository(db),
+    personalAccessTokenRepository:
+      createSqlitePersonalAccessTokenRepository(db),
+    idempotencyKeyRepository: createSqliteIdempotencyKeyRepository(db),
+    jobRepository: createSqliteJobRepository(db),
+    tagRepository: createSqliteTagRepository(db),
+    commentRepository: createSqliteCommentRepository(db),
+    reactionRepository: createSqliteReactionRepository(db),
+    followRepository: createSqliteFollowRepository(db),
+    userStatisticsQuery: createSqliteUserStatisticsQuery(db),
+    postSearch: createSqlitePostSearch(db),
+    unitOfWork: createSqliteUnitOfWork(connection),
+    async checkSchema() {
+      // Migrated on open
+      return { upToDate: true, pending: [] };
+    },
+    async close() {
+      if (closed) return;
+      closed = true;
+      client.close();
+    },
+  };
+};
+
+/**
+ * Create the repositories of the selected backend.
+ */
+const createBackendRepositories = (
+  options: CreateContainerOptions,
+): BackendRepositories => {
+  switch (options.backend) {
+    case "memory":
+      return createMemoryRepositories();
+    case "postgres":
+      return createPostgresRepositories(options.databaseUrl);
+    case "sqlite":
+      return createSqliteRepositories(options.sqlitePath);
+  }
+};
+
+/**
+ * Create the container for the given backend.
+ *
+ * @param options - Backend selection and connection settings
+ * @returns Container with wired dependencies
+ */
+export const createContainer = (options: CreateContainerOptions): Container => {
+  const { checkSchema, close, ...repositories } =
+    createBackendRepositories(options);
+
+  const sessionTokenService = createSessionTokenService({
+    secret: options.sessionSecret ?? crypto.randomUUID() + crypto.randomUUID(),
+  });
+
+  // Sessions are only valid while their version matches the credential
+  const sessionAuthenticator = createSessionTokenAuthenticator(
+    sessionTokenService,
+    {
+      async isSessionActive(claims) {
+        const result = await repositories.credentialRepository.findByUserId(
+          claims.userId,
+        );
+
+        return (
+          result.isOk() &&
+          result.value !== null &&
+          result.value.sessionVersion === claims.sessionVersion
+        );
+      },
+    },
+  );
+
+  // Personal access tokens are recognised by prefix; other bearer tokens
+  // fall through to session verification
+  const authenticator = combineAuthenticators(
+    createPersonalAccessTokenAuthenticator(
+      repositories.personalAccessTokenRepository,
+    ),
+    sessionAuthenticator,
+  );
+
+  const jobWorker = createJobWorker({
+    jobRepository: repositories.jobRepository,
+    handlers: {
+      [PUBLISH_SCHEDULED_POST_JOB]: createPublishScheduledPostHandler({
+        postRepository: repositories.postRepository,
+      }),
+      [PURGE_DELETED_RECORDS_JOB]: createPurgeDeletedRecordsHandler({
+        userRepository: repositories.userRepository,
+        postRepository: repositories.postRepository,
+        jobRepository: repositories.jobRepository,
+      }),
+    },
+    pollIntervalMs: options.jobPollIntervalMs,
+  });
+
+  const retentionScheduler = createRetentionScheduler({
+    jobRepository: repositories.jobRepository,
+    retentionDays: options.retentionDays,
+    intervalMs: options.retentionPurgeIntervalMs,
+  });
+
+  return {
+    backend: options.backend,
+    deps: {
+      ...repositories,
+      passwordHasher: createPasswordHasher(),
+      sessionTokenService,
+      authenticator,
+      idempotencyTtlSeconds: options.idempotencyTtlSeconds,
+      mailer:
+        options.mailWebhookUrl ?
+          createHttpMailer({
+            url: options.mailWebhookUrl,
+            token: options.mailWebhookToken,
+          })
+        : createConsoleMailer(),
+    },
+    jobWorker,
+    retentionScheduler,
+    checkSchema,
+    close,
+  };
+};
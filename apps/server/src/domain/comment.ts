@@ -0,0 +1,49 @@
+/**
+ * Post comments.
+ * Comments form threads one level deep: a top-level comment and its
+ * replies. Deleted comments keep their place in the thread but lose their
+ * author and content.
+ */
+
+/**
+ * Content shown in place of a deleted comment.
+ */
+export const DELETED_COMMENT_PLACEHOLDER = "[deleted]";
+
+/**
+ * Longest comment, in characters.
+ */
+export const MAX_COMMENT_LENGTH = 10_000;
+
+/**
+ * Fields of a comment that a deletion hides.
+ */
+interface RedactableComment {
+  readonly authorId: string | null;
+  readonly content: string;
+  readonly deletedAt: Date | null;
+}
+
+/**
+ * A comment as shown to readers; deleted comments have no author.
+ */
+export type RedactedComment<T extends RedactableComment> = Omit<
+  T,
+  "authorId"
+> & {
+  readonly authorId: string | null;
+};
+
+/**
+ * Replace a deleted comment's author and content with the placeholder.
+ * Comments that are not deleted are returned unchanged.
+ *
+ * @param comment - Comment as stored
+ * @returns Comment safe to show to readers
+ */
+export const redactDeletedComment = <T extends RedactableComment>(
+  comment: T,
+): RedactedComment<T> =>
+  comment.deletedAt === null ?
+    comment
+  : { ...comment, authorId: null, content: DELETED_COMMENT_PLACEHOLDER };
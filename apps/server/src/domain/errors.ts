@@ -45,6 +45,16 @@ export interface ConflictError extends BaseError {
   readonly conflictReason?: string;
 }
 
+/**
+ * PreconditionFailed error - the client's copy of a resource is stale
+ * (its expected version no longer matches the stored one).
+ */
+export interface PreconditionFailedError extends BaseError {
+  readonly type: "PreconditionFailedError";
+  readonly resource: string;
+  readonly id?: string;
+}
+
 /**
  * Unauthorized error - authentication required or failed.
  */
@@ -76,6 +86,7 @@ export type DomainError =
   | ValidationError
   | NotFoundError
   | ConflictError
+  | PreconditionFailedError
   | UnauthorizedError
   | ForbiddenError
   | UnexpectedError;
@@ -112,6 +123,16 @@ export const conflictError = (
   conflictReason: options?.conflictReason,
 });
 
+export const preconditionFailedError = (
+  resource: string,
+  id?: string,
+): PreconditionFailedError => ({
+  type: "PreconditionFailedError",
+  message: `${resource}${id ? ` with id '${id}'` : ""} has been modified since it was last read`,
+  resource,
+  id,
+});
+
 export const unauthorizedError = (
   message = "Authentication required",
 ): UnauthorizedError => ({
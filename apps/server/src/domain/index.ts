@@ -1,2 +1,7 @@
+export * from "./comment";
 export * from "./errors";
+export * from "./permissions";
+export * from "./post-status";
+export * from "./reaction";
 export * from "./services";
+export * from "./tag";
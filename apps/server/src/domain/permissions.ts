@@ -0,0 +1,101 @@
+/**
+ * Roles and the permission matrix.
+ * Authorization services consult this matrix instead of hard-coding rules.
+ */
+
+/**
+ * Roles a user can hold, from least to most privileged.
+ */
+export const ROLES = ["user", "moderator", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * Role assigned to users unless stated otherwise.
+ */
+export const DEFAULT_ROLE: Role = "user";
+
+/**
+ * Permissions granted by roles.
+ * `:own` applies to resources the actor owns, `:any` to all resources.
+ */
+export const PERMISSIONS = [
+  "posts:update:own",
+  "posts:update:any",
+  "posts:delete:own",
+  "posts:delete:any",
+  "posts:restore",
+  "comments:update:own",
+  "comments:update:any",
+  "comments:delete:own",
+  "comments:delete:any",
+  "users:update:own",
+  "users:update:any",
+  "users:delete:own",
+  "users:delete:any",
+  "users:manage",
+  "users:restore",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permission matrix.
+ * Moderators can remove any post or comment; admins can do everything,
+ * including restoring soft-deleted posts and users.
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<Role, readonly Permission[]>> = {
+  user: [
+    "posts:update:own",
+    "posts:delete:own",
+    "comments:update:own",
+    "comments:delete:own",
+    "users:update:own",
+    "users:delete:own",
+  ],
+  moderator: [
+    "posts:update:own",
+    "posts:delete:own",
+    "posts:delete:any",
+    "comments:update:own",
+    "comments:delete:own",
+    "comments:delete:any",
+    "users:update:own",
+    "users:delete:own",
+  ],
+  admin: PERMISSIONS,
+};
+
+/**
+ * Check whether a role grants a permission.
+ */
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Outcome of an authorization check.
+ * When denied, `requiredPermission` names the permission that was missing.
+ */
+export interface AuthorizationResult {
+  readonly isAuthorized: boolean;
+  readonly reason?: string;
+  readonly requiredPermission?: Permission;
+}
+
+/**
+ * Scopes a personal access token can be limited to.
+ * Session principals are not scope-limited.
+ */
+export const TOKEN_SCOPES = [
+  "posts:read",
+  "posts:write",
+  "users:read",
+  "users:write",
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+/**
+ * Prefix that distinguishes personal access tokens from session tokens.
+ */
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "pat_";
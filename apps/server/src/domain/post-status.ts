@@ -0,0 +1,69 @@
+/**
+ * Post lifecycle.
+ * Posts start as drafts visible only to their author, become public when
+ * published and can later be archived (still readable, no longer listed).
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { type ConflictError, conflictError } from "./errors";
+
+/**
+ * Statuses a post can be in.
+ */
+export const POST_STATUSES = ["draft", "published", "archived"] as const;
+
+export type PostStatus = (typeof POST_STATUSES)[number];
+
+/**
+ * Status assigned to posts unless stated otherwise.
+ */
+export const DEFAULT_POST_STATUS: PostStatus = "draft";
+
+/**
+ * Actions that move a post between statuses.
+ */
+export type PostTransition = "publish" | "archive";
+
+/**
+ * Allowed transitions, keyed by action and then by current status.
+ * Archived posts can be published again.
+ */
+const TRANSITIONS: Readonly<
+  Record<PostTransition, Partial<Record<PostStatus, PostStatus>>>
+> = {
+  publish: { draft: "published", archived: "published" },
+  archive: { published: "archived" },
+};
+
+/**
+ * Why a transition is refused, keyed by action and then by current status.
+ */
+const REFUSALS: Readonly<
+  Record<PostTransition, Partial<Record<PostStatus, string>>>
+> = {
+  publish: { published: "post_already_published" },
+  archive: { draft: "post_not_published", archived: "post_already_archived" },
+};
+
+/**
+ * Resolve the status a post moves to when an action is applied.
+ * Returns ConflictError with a `conflictReason` for invalid transitions.
+ */
+export const transitionPostStatus = (
+  current: PostStatus,
+  action: PostTransition,
+): Result<PostStatus, ConflictError> => {
+  const next = TRANSITIONS[action][current];
+
+  if (!next) {
+    return err(
+      conflictError(`Cannot ${action} a post that is ${current}`, {
+        resource: "Post",
+        conflictReason: REFUSALS[action][current] ?? "invalid_post_transition",
+      }),
+    );
+  }
+
+  return ok(next);
+};
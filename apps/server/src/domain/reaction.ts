@@ -0,0 +1,35 @@
+/**
+ * Post reactions.
+ * Readers react to posts with a small fixed set of kinds; each user holds
+ * at most one reaction of each kind per post.
+ */
+
+/**
+ * Kinds of reaction a post can receive.
+ */
+export const REACTION_KINDS = ["like", "celebrate", "insightful"] as const;
+
+export type ReactionKind = (typeof REACTION_KINDS)[number];
+
+/**
+ * Number of reactions of each kind.
+ */
+export type ReactionCounts = Readonly<Record<ReactionKind, number>>;
+
+/**
+ * Aggregated reactions on a post as seen by one viewer.
+ */
+export interface PostReactions {
+  readonly counts: ReactionCounts;
+  /** Kinds the viewer has reacted with (empty for anonymous viewers) */
+  readonly mine: readonly ReactionKind[];
+}
+
+/**
+ * Counts of a post nobody has reacted to, ready to be tallied.
+ */
+export const emptyReactionCounts = (): Record<ReactionKind, number> => ({
+  like: 0,
+  celebrate: 0,
+  insightful: 0,
+});
@@ -0,0 +1,218 @@
+/**
+ * Comment Authorization Domain Service.
+ *
+ * Determines whether a user may change or remove a comment by consulting
+ * the role permission matrix. Comments share their post's visibility, so
+ * comments on posts the user cannot view are reported as missing.
+ */
+
+import type { Result } from "neverthrow";
+import { err, ok } from "neverthrow";
+
+import type { NotFoundError, UnauthorizedError } from "../errors";
+import {
+  type AuthorizationResult,
+  type Permission,
+  type Role,
+  hasPermission,
+} from "../permissions";
+import type { PostAuthorizationService } from "./post-authorization-service";
+
+type RepoError = {
+  readonly message: string;
+};
+
+type User = {
+  readonly id: string;
+  readonly role: Role;
+  readonly deletedAt: Date | null;
+};
+
+type Comment = {
+  readonly id: string;
+  readonly postId: string;
+  readonly authorId: string | null;
+  readonly deletedAt: Date | null;
+};
+
+type UserReader = {
+  findById(id: string): Promise<Result<User | null, RepoError>>;
+};
+
+type CommentReader = {
+  findById(id: string): Promise<Result<Comment | null, RepoError>>;
+};
+
+/**
+ * Error types for comment authorization service.
+ */
+export type CommentAuthorizationServiceError =
+  | NotFoundError
+  | UnauthorizedError;
+
+/**
+ * Comment Authorization Service interface.
+ */
+export interface CommentAuthorizationService {
+  /**
+   * Check if user can edit a comment.
+   * Authors need `comments:update:own`; everyone else needs
+   * `comments:update:any`.
+   */
+  canEditComment(
+    userId: string,
+    commentId: string,
+  ): Promise<Result<AuthorizationResult, CommentAuthorizationServiceError>>;
+
+  /**
+   * Check if user can delete a comment.
+   * Authors need `comments:delete:own`; everyone else needs
+   * `comments:delete:any` (granted to moderators).
+   */
+  canDeleteComment(
+    userId: string,
+    commentId: string,
+  ): Promise<Result<AuthorizationResult, CommentAuthorizationServiceError>>;
+}
+
+/**
+ * Dependencies for creating CommentAuthorizationService.
+ */
+export interface CreateCommentAuthorizationServiceDeps {
+  readonly commentRepository: CommentReader;
+  readonly userRepository: UserReader;
+  readonly postAuthorizationService: Pick<
+    PostAuthorizationService,
+    "canViewPost"
+  >;
+}
+
+/**
+ * Create CommentAuthorizationService instance.
+ */
+export function createCommentAuthorizationService(
+  deps: CreateCommentAuthorizationServiceDeps,
+): CommentAuthorizationService {
+  const { commentRepository, userRepository, postAuthorizationService } = deps;
+
+  /**
+   * Helper to verify user exists and is not deleted.
+   */
+  async function verifyUserExists(
+    userId: string,
+  ): Promise<Result<User, CommentAuthorizationServiceError>> {
+    const userResult = await userRepository.findById(userId);
+    if (userResult.isErr()) {
+      return err({
+        type: "UnauthorizedError",
+        message: `Failed to verify user: ${userResult.error.message}`,
+      });
+    }
+
+    const user = userResult.value;
+    if (!user || user.deletedAt !== null) {
+      return err({
+        type: "UnauthorizedError",
+        message: "User not found or deleted",
+      });
+    }
+
+    return ok(user);
+  }
+
+  /**
+   * Helper to verify comment exists, is not deleted and is visible.
+   */
+  async function verifyCommentExists(
+    commentId: string,
+    viewerId: string,
+  ): Promise<Result<Comment, CommentAuthorizationServiceError>> {
+    const commentResult = await commentRepository.findById(commentId);
+    if (commentResult.isErr()) {
+      return err({
+        type: "NotFoundError",
+        message: `Failed to find comment: ${commentResult.error.message}`,
+        resource: "Comment",
+        id: commentId,
+      });
+    }
+
+    const missing: NotFoundError = {
+      type: "NotFoundError",
+      message: "Comment not found or deleted",
+      resource: "Comment",
+      id: commentId,
+    };
+
+    const comment = commentResult.value;
+    if (!comment || comment.deletedAt !== null) {
+      return err(missing);
+    }
+
+    // Comments on hidden drafts must not leak their existence
+    const viewResult = await postAuthorizationService.canViewPost(
+      comment.postId,
+      viewerId,
+    );
+    if (viewResult.isErr() || !viewResult.value.isAuthorized) {
+      return err(missing);
+    }
+
+    return ok(comment);
+  }
+
+  /**
+   * Helper to check the own/any permission pair for an action on a comment.
+   */
+  async function authorizeCommentAction(
+    userId: string,
+    commentId: string,
+    action: "update" | "delete",
+    deniedReason: string,
+  ): Promise<Result<AuthorizationResult, CommentAuthorizationServiceError>> {
+    const userResult = await verifyUserExists(userId);
+    if (userResult.isErr()) {
+      return err(userResult.error);
+    }
+
+    const commentResult = await verifyCommentExists(commentId, userId);
+    if (commentResult.isErr()) {
+      return err(commentResult.error);
+    }
+
+    const requiredPermission: Permission =
+      commentResult.value.authorId === userId ?
+        `comments:${action}:own`
+      : `comments:${action}:any`;
+
+    if (!hasPermission(userResult.value.role, requiredPermission)) {
+      return ok({
+        isAuthorized: false,
+        reason: deniedReason,
+        requiredPermission,
+      });
+    }
+
+    return ok({ isAuthorized: true });
+  }
+
+  return {
+    canEditComment(userId, commentId) {
+      return authorizeCommentAction(
+        userId,
+        commentId,
+        "update",
+        "You are not allowed to edit this comment",
+      );
+    },
+
+    canDeleteComment(userId, commentId) {
+      return authorizeCommentAction(
+        userId,
+        commentId,
+        "delete",
+        "You are not allowed to delete this comment",
+      );
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Email Verification Domain Service.
+ *
+ * Issues single-use verification tokens for a user's email address and
+ * redeems them. Only a hash of each token is persisted; the plaintext is
+ * delivered to the user through the mailer and never stored.
+ */
+
+import type { Result } from "neverthrow";
+import { err, ok } from "neverthrow";
+
+import type { Mailer } from "../../utils/mailer";
+import { generateOpaqueToken, hashOpaqueToken } from "../../utils/opaque-token";
+import { type UnexpectedError, unexpectedError } from "../errors";
+
+type RepoError = {
+  readonly message: string;
+};
+
+type User = {
+  readonly id: string;
+  readonly email: string;
+};
+
+type StoredToken = {
+  readonly userId: string;
+  readonly email: string;
+};
+
+type TokenStore = {
+  create(input: {
+    userId: string;
+    email: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<Result<StoredToken, RepoError>>;
+  consume(
+    tokenHash: string,
+    now: Date,
+  ): Promise<Result<StoredToken | null, RepoError>>;
+};
+
+/**
+ * Default token lifetime (24 hours).
+ */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A redeemed token: the user and the address it was issued for.
+ */
+export interface VerifiedEmail {
+  readonly userId: string;
+  readonly email: string;
+}
+
+/**
+ * Error types for email verification service.
+ */
+export type EmailVerificationServiceError = UnexpectedError;
+
+/**
+ * Email Verification Service interface.
+ */
+export interface EmailVerificationService {
+  /**
+   * Create a token for the user's current email and mail it to them.
+   */
+  issue(user: User): Promise<Result<void, EmailVerificationServiceError>>;
+
+  /**
+   * Redeem a token.
+   * Returns null if the token is unknown, expired or already used.
+   */
+  consume(
+    token: string,
+  ): Promise<Result<VerifiedEmail | null, EmailVerificationServiceError>>;
+
+  /**
+   * The same service storing tokens in another repository, e.g. one
+   * scoped to a unit of work.
+   */
+  withTokenRepository(tokenRepository: TokenStore): EmailVerificationService;
+}
+
+/**
+ * Dependencies for creating EmailVerificationService.
+ */
+export interface CreateEmailVerificationServiceDeps {
+  readonly tokenRepository: TokenStore;
+  readonly mailer: Mailer;
+  /** Token lifetime in milliseconds */
+  readonly ttlMs?: number;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+}
+
+/**
+ * Create EmailVerificationService instance.
+ */
+export function createEmailVerificationService(
+  deps: CreateEmailVerificationServiceDeps,
+): EmailVerificationService {
+  const { tokenRepository, mailer } = deps;
+  const ttlMs = deps.ttlMs ?? DEFAULT_TTL_MS;
+  const now = deps.now ?? (() => new Date());
+
+  return {
+    async issue(user) {
+      const token = generateOpaqueToken();
+
+      const createResult = await tokenRepository.create({
+        userId: user.id,
+        email: user.email,
+        tokenHash: await hashOpaqueToken(token),
+        expiresAt: new Date(now().getTime() + ttlMs),
+      });
+
+      if (createResult.isErr()) {
+        return err(
+          unexpectedError(
+            `Failed to store verification token: ${createResult.error.message}`,
+          ),
+        );
+      }
+
+      try {
+        await mailer.send({
+          to: user.email,
+          subject: "Verify your email address",
+          text: `Submit this token to POST /auth/verify-email to verify your email address:\n\n${token}`,
+        });
+      } catch (error) {
+        return err(unexpectedError("Failed to send verification email", error));
+      }
+
+      return ok(undefined);
+    },
+
+    async consume(token) {
+      const consumeResult = await tokenRepository.consume(
+        await hashOpaqueToken(token),
+        now(),
+      );
+
+      if (consumeResult.isErr()) {
+        return err(
+          unexpectedError(
+            `Failed to consume verification token: ${consumeResult.error.message}`,
+          ),
+        );
+      }
+
+      const stored = consumeResult.value;
+
+      return ok(stored ? { userId: stored.userId, email: stored.email } : null);
+    },
+
+    withTokenRepository(tokenRepository) {
+      return createEmailVerificationService({ ...deps, tokenRepository });
+    },
+  };
+}
@@ -6,4 +6,7 @@
 
 export * from "./user-authentication-service";
 export * from "./post-authorization-service";
+export * from "./comment-authorization-service";
 export * from "./user-statistics-service";
+export * from "./email-verification-service";
+export * from "./user-authorization-service";
@@ -2,13 +2,21 @@
  * Post Authorization Domain Service.
  *
  * Handles business logic related to post authorization and access control.
- * Determines whether a user has permission to perform actions on posts.
+ * Determines whether a user has permission to perform actions on posts
+ * by consulting the role permission matrix.
  */
 
 import type { Result } from "neverthrow";
 import { err, ok } from "neverthrow";
 
 import type { NotFoundError, UnauthorizedError } from "../errors";
+import {
+  type AuthorizationResult,
+  type Permission,
+  type Role,
+  hasPermission,
+} from "../permissions";
+import type { PostStatus } from "../post-status";
 
 type RepoError = {
   readonly message: string;
@@ -16,12 +24,14 @@ type RepoError = {
 
 type User = {
   readonly id: string;
+  readonly role: Role;
   readonly deletedAt: Date | null;
 };
 
 type Post = {
   readonly id: string;
   readonly authorId: string;
+  readonly status: PostStatus;
   readonly deletedAt: Date | null;
 };
 
@@ -33,14 +43,6 @@ type PostReader = {
   findById(id: string): Promise<Result<Post | null, RepoError>>;
 };
 
-/**
- * Authorization check result.
- */
-export interface AuthorizationResult {
-  readonly isAuthorized: boolean;
-  readonly reason?: string;
-}
-
 /**
  * Error types for authorization service.
  */
@@ -53,7 +55,7 @@ export type AuthorizationServiceError = NotFoundError | UnauthorizedError;
 export interface PostAuthorizationService {
   /**
    * Check if user can edit a post.
-   * Only the author can edit their own posts.
+   * Authors need `posts:update:own`; everyone else needs `posts:update:any`.
    */
   canEditPost(
     userId: string,
@@ -62,7 +64,8 @@ export interface PostAuthorizationService {
 
   /**
    * Check if user can delete a post.
-   * Only the author can delete their own posts.
+   * Authors need `posts:delete:own`; everyone else needs `posts:delete:any`
+   * (granted to moderators so they can remove abusive posts).
    */
   canDeletePost(
     userId: string,
@@ -70,11 +73,22 @@ export interface PostAuthorizationService {
   ): Promise<Result<AuthorizationResult, AuthorizationServiceError>>;
 
   /**
-   * Check if user can view a post.
-   * All users can view non-deleted posts.
+   * Check if a viewer (anonymous when omitted) can view a post.
+   * Published and archived posts are public; drafts are visible to their
+   * author and to holders of `posts:update:any`.
    */
   canViewPost(
     postId: string,
+    viewerId?: string,
+  ): Promise<Result<AuthorizationResult, AuthorizationServiceError>>;
+
+  /**
+   * Check if user can restore soft-deleted posts (`posts:restore`).
+   * Deleted posts cannot be loaded through the reader, so this does not
+   * look at the post itself.
+   */
+  canRestorePosts(
+    userId: string,
   ): Promise<Result<AuthorizationResult, AuthorizationServiceError>>;
 }
 
@@ -148,6 +162,25 @@ export function createPostAuthorizationService(
     return ok(post);
   }
 
+  /**
+   * Helper to check the own/any permission pair for an action on a post.
+   */
+  function authorizePostAction(
+    user: User,
+    post: Post,
+    action: "update" | "delete",
+    deniedReason: string,
+  ): AuthorizationResult {
+    const requiredPermission: Permission =
+      post.authorId === user.id ? `posts:${action}:own` : `posts:${action}:any`;
+
+    if (!hasPermission(user.role, requiredPermission)) {
+      return { isAuthorized: false, reason: deniedReason, requiredPermission };
+    }
+
+    return { isAuthorized: true };
+  }
+
   return {
     async canEditPost(userId, postId) {
       // Verify user exists
@@ -162,17 +195,14 @@ export function createPostAuthorizationService(
         return err(postResult.error);
       }
 
-      const post = postResult.value;
-
-      // Check if user is the author
-      if (post.authorId !== userId) {
-        return ok({
-          isAuthorized: false,
-          reason: "Only the author can edit this post",
-        });
-      }
-
-      return ok({ isAuthorized: true });
+      return ok(
+        authorizePostAction(
+          userResult.value,
+          postResult.value,
+          "update",
+          "You are not allowed to edit this post",
+        ),
+      );
     },
 
     async canDeletePost(userId, postId) {
@@ -188,27 +218,65 @@ export function createPostAuthorizationService(
         return err(postResult.error);
       }
 
+      return ok(
+        authorizePostAction(
+          userResult.value,
+          postResult.value,
+          "delete",
+          "You are not allowed to delete this post",
+        ),
+      );
+    },
+
+    async canViewPost(postId, viewerId) {
+      // Verify post exists
+      const postResult = await verifyPostExists(postId);
+      if (postResult.isErr()) {
+        return err(postResult.error);
+      }
+
       const post = postResult.value;
+      if (post.status !== "draft" || post.authorId === viewerId) {
+        return ok({ isAuthorized: true });
+      }
 
-      // Check if user is the author
-      if (post.authorId !== userId) {
-        return ok({
-          isAuthorized: false,
-          reason: "Only the author can delete this post",
-        });
+      const denied: AuthorizationResult = {
+        isAuthorized: false,
+        reason: "This post is a draft",
+        requiredPermission: "posts:update:any",
+      };
+
+      if (viewerId === undefined) {
+        return ok(denied);
+      }
+
+      // A viewer that no longer exists is treated as anonymous
+      const userResult = await verifyUserExists(viewerId);
+      if (
+        userResult.isErr() ||
+        !hasPermission(userResult.value.role, "posts:update:any")
+      ) {
+        return ok(denied);
       }
 
       return ok({ isAuthorized: true });
     },
 
-    async canViewPost(postId) {
-      // Verify post exists
-      const postResult = await verifyPostExists(postId);
-      if (postResult.isErr()) {
-        return err(postResult.error);
+    async canRestorePosts(userId) {
+      // Verify user exists
+      const userResult = await verifyUserExists(userId);
+      if (userResult.isErr()) {
+        return err(userResult.error);
+      }
+
+      if (!hasPermission(userResult.value.role, "posts:restore")) {
+        return ok({
+          isAuthorized: false,
+          reason: "You are not allowed to restore posts",
+          requiredPermission: "posts:restore",
+        });
       }
 
-      // All users can view non-deleted posts
       return ok({ isAuthorized: true });
     },
   };
@@ -3,7 +3,8 @@
  *
  * Handles business logic related to user authentication and validation.
  * This service coordinates multiple repositories and enforces domain rules
- * that don't naturally belong to a single entity.
+ * that don't naturally belong to a single entity. It checks no secrets:
+ * signing in with a password goes through `executeLoginUser`.
  */
 
 import type { Result } from "neverthrow";
@@ -18,7 +19,6 @@ type RepoError = {
 type User = {
   readonly id: string;
   readonly email: string;
-  readonly emailVerified: Date | null;
   readonly deletedAt: Date | null;
 };
 
@@ -26,21 +26,6 @@ type UserByEmailReader = {
   findByEmail(email: string): Promise<Result<User | null, RepoError>>;
 };
 
-/**
- * Input for authenticating a user by email.
- */
-export interface AuthenticateUserByEmailInput {
-  readonly email: string;
-}
-
-/**
- * Result of user authentication.
- */
-export interface AuthenticationResult {
-  readonly user: User;
-  readonly isEmailVerified: boolean;
-}
-
 /**
  * Error types for authentication service.
  */
@@ -51,14 +36,6 @@ export type AuthenticationServiceError = ValidationError | ConflictError;
  * Encapsulates authentication-related business logic.
  */
 export interface UserAuthenticationService {
-  /**
-   * Authenticate user by email.
-   * Returns user if found and validates email format.
-   */
-  authenticateByEmail(
-    input: AuthenticateUserByEmailInput,
-  ): Promise<Result<AuthenticationResult | null, AuthenticationServiceError>>;
-
   /**
    * Check if email is available for registration.
    * Returns true if email is not taken.
@@ -94,40 +71,6 @@ export function createUserAuthenticationService(
   const { userRepository } = deps;
 
   return {
-    async authenticateByEmail(input) {
-      const { email } = input;
-
-      // Validate email format first
-      const validationResult = this.validateEmailFormat(email);
-      if (validationResult.isErr()) {
-        return err(validationResult.error);
-      }
-
-      // Find user by email
-      const userResult = await userRepository.findByEmail(email);
-      if (userResult.isErr()) {
-        return err({
-          type: "ValidationError",
-          message: `Failed to find user: ${userResult.error.message}`,
-        });
-      }
-
-      const user = userResult.value;
-      if (!user) {
-        return ok(null);
-      }
-
-      // Check if user is soft-deleted
-      if (user.deletedAt !== null) {
-        return ok(null);
-      }
-
-      return ok({
-        user,
-        isEmailVerified: user.emailVerified !== null,
-      });
-    },
-
     async isEmailAvailable(email) {
       // Validate email format first
       const validationResult = this.validateEmailFormat(email);
@@ -0,0 +1,159 @@
+/**
+ * User Authorization Domain Service.
+ *
+ * Determines whether an actor may manage user accounts by consulting the
+ * role permission matrix. Users may manage their own account; managing
+ * other accounts, creating users and assigning roles is reserved for admins.
+ */
+
+import type { Result } from "neverthrow";
+import { err, ok } from "neverthrow";
+
+import type { UnauthorizedError } from "../errors";
+import {
+  type AuthorizationResult,
+  type Permission,
+  type Role,
+  hasPermission,
+} from "../permissions";
+
+type RepoError = {
+  readonly message: string;
+};
+
+type User = {
+  readonly id: string;
+  readonly role: Role;
+  readonly deletedAt: Date | null;
+};
+
+type UserReader = {
+  findById(id: string): Promise<Result<User | null, RepoError>>;
+};
+
+/**
+ * Error types for user authorization service.
+ */
+export type UserAuthorizationServiceError = UnauthorizedError;
+
+/**
+ * User Authorization Service interface.
+ */
+export interface UserAuthorizationService {
+  /**
+   * Check if actor can update a user.
+   * Updating oneself needs `users:update:own`; others need `users:update:any`.
+   */
+  canUpdateUser(
+    actorId: string,
+    targetUserId: string,
+  ): Promise<Result<AuthorizationResult, UserAuthorizationServiceError>>;
+
+  /**
+   * Check if actor can delete a user.
+   * Deleting oneself needs `users:delete:own`; others need `users:delete:any`.
+   */
+  canDeleteUser(
+    actorId: string,
+    targetUserId: string,
+  ): Promise<Result<AuthorizationResult, UserAuthorizationServiceError>>;
+
+  /**
+   * Check if actor can create users and assign roles (`users:manage`).
+   */
+  canManageUsers(
+    actorId: string,
+  ): Promise<Result<AuthorizationResult, UserAuthorizationServiceError>>;
+
+  /**
+   * Check if actor can restore soft-deleted users (`users:restore`).
+   */
+  canRestoreUsers(
+    actorId: string,
+  ): Promise<Result<AuthorizationResult, UserAuthorizationServiceError>>;
+}
+
+/**
+ * Dependencies for creating UserAuthorizationService.
+ */
+export interface CreateUserAuthorizationServiceDeps {
+  readonly userRepository: UserReader;
+}
+
+/**
+ * Create UserAuthorizationService instance.
+ */
+export function createUserAuthorizationService(
+  deps: CreateUserAuthorizationServiceDeps,
+): UserAuthorizationService {
+  const { userRepository } = deps;
+
+  /**
+   * Helper to load the acting user and check a single permission.
+   */
+  async function authorize(
+    actorId: string,
+    requiredPermission: Permission,
+    deniedReason: string,
+  ): Promise<Result<AuthorizationResult, UserAuthorizationServiceError>> {
+    const actorResult = await userRepository.findById(actorId);
+    if (actorResult.isErr()) {
+      return err({
+        type: "UnauthorizedError",
+        message: `Failed to verify user: ${actorResult.error.message}`,
+      });
+    }
+
+    const actor = actorResult.value;
+    if (!actor || actor.deletedAt !== null) {
+      return err({
+        type: "UnauthorizedError",
+        message: "User not found or deleted",
+      });
+    }
+
+    if (!hasPermission(actor.role, requiredPermission)) {
+      return ok({
+        isAuthorized: false,
+        reason: deniedReason,
+        requiredPermission,
+      });
+    }
+
+    return ok({ isAuthorized: true });
+  }
+
+  return {
+    canUpdateUser(actorId, targetUserId) {
+      return authorize(
+        actorId,
+        actorId === targetUserId ? "users:update:own" : "users:update:any",
+        "You are not allowed to update this user",
+      );
+    },
+
+    canDeleteUser(actorId, targetUserId) {
+      return authorize(
+        actorId,
+        actorId === targetUserId ? "users:delete:own" : "users:delete:any",
+        "You are not allowed to delete this user",
+      );
+    },
+
+    canManageUsers(actorId) {
+      return authorize(
+        actorId,
+        "users:manage",
+        "You are not allowed to manage users",
+      );
+    },
+
+    canRestoreUsers(actorId) {
+      return authorize(
+        actorId,
+        "users:restore",
+        "You are not allowed to restore users",
+      );
+    },
+  };
+}
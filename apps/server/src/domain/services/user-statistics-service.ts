@@ -9,6 +9,7 @@ import type { Result } from "neverthrow";
 import { err, ok } from "neverthrow";
 
 import type { NotFoundError, UnexpectedError } from "../errors";
+import { type Role, hasPermission } from "../permissions";
 
 type RepoError = {
   readonly message: string;
@@ -16,36 +17,41 @@ type RepoError = {
 
 type User = {
   readonly id: string;
-  readonly deletedAt: Date | null;
-};
-
-type Post = {
-  readonly content: string;
-  readonly createdAt: Date;
+  readonly role: Role;
   readonly deletedAt: Date | null;
 };
 
 type UserReader = {
   findById(id: string): Promise<Result<User | null, RepoError>>;
-  findAll(options: {
-    readonly limit: number;
-    readonly offset: number;
-  }): Promise<
+};
+
+type StatisticsReader = {
+  aggregateAuthorPosts(
+    authorId: string,
+    options?: { readonly publishedOnly?: boolean },
+  ): Promise<
     Result<
-      { readonly users: readonly User[]; readonly total: number },
+      {
+        readonly totalPosts: number;
+        readonly activePosts: number;
+        readonly deletedPosts: number;
+        readonly averagePostLength: number;
+        readonly firstPostDate: Date | null;
+        readonly lastPostDate: Date | null;
+      },
       RepoError
     >
   >;
-};
-
-type PostLister = {
-  findAll(options: {
-    readonly limit: number;
-    readonly offset: number;
-    readonly authorId?: string;
-  }): Promise<
+  aggregateSite(): Promise<
     Result<
-      { readonly posts: readonly Post[]; readonly total: number },
+      {
+        readonly totalUsers: number;
+        readonly activeUsers: number;
+        readonly deletedUsers: number;
+        readonly totalPosts: number;
+        readonly activePosts: number;
+        readonly deletedPosts: number;
+      },
       RepoError
     >
   >;
@@ -72,6 +78,9 @@ export interface UsersStatisticsSummary {
   readonly activeUsers: number;
   readonly deletedUsers: number;
   readonly totalPosts: number;
+  readonly activePosts: number;
+  readonly deletedPosts: number;
+  /** Active posts per active user */
   readonly averagePostsPerUser: number;
 }
 
@@ -87,9 +96,12 @@ export type StatisticsServiceError = NotFoundError | UnexpectedError;
 export interface UserStatisticsService {
   /**
    * Get detailed statistics for a specific user.
+   * Drafts and archived posts only count when the viewer is the user or a
+   * moderator; everyone else sees aggregates over published posts.
    */
   getUserStatistics(
     userId: string,
+    viewerId?: string,
   ): Promise<Result<UserStatistics, StatisticsServiceError>>;
 
   /**
@@ -105,7 +117,8 @@ export interface UserStatisticsService {
  */
 export interface CreateUserStatisticsServiceDeps {
   readonly userRepository: UserReader;
-  readonly postRepository: PostLister;
+  /** Aggregates in the data store, soft-deleted rows included */
+  readonly userStatisticsQuery: StatisticsReader;
 }
 
 /**
@@ -114,10 +127,36 @@ export interface CreateUserStatisticsServiceDeps {
 export function createUserStatisticsService(
   deps: CreateUserStatisticsServiceDeps,
 ): UserStatisticsService {
-  const { userRepository, postRepository } = deps;
+  const { userRepository, userStatisticsQuery } = deps;
+
+  /**
+   * Whether the viewer may see an author's drafts and archived posts counted.
+   * A viewer that no longer exists is treated as anonymous.
+   */
+  const canSeeUnpublishedPosts = async (
+    authorId: string,
+    viewerId: string | undefined,
+  ): Promise<Result<boolean, UnexpectedError>> => {
+    if (viewerId === undefined) return ok(false);
+    if (viewerId === authorId) return ok(true);
+
+    const viewerResult = await userRepository.findById(viewerId);
+    if (viewerResult.isErr()) {
+      return err({
+        type: "UnexpectedError",
+        message: `Failed to find viewer: ${viewerResult.error.message}`,
+      });
+    }
+
+    const viewer = viewerResult.value;
+
+    return ok(
+      viewer !== null && hasPermission(viewer.role, "posts:delete:any"),
+    );
+  };
 
   return {
-    async getUserStatistics(userId) {
+    async getUserStatistics(userId, viewerId) {
       // Find user
       const userResult = await userRepository.findById(userId);
       if (userResult.isErr()) {
@@ -137,103 +176,58 @@ export function createUserStatisticsService(
         });
       }
 
-      // Get all posts by user (including deleted ones for statistics)
-      const postsResult = await postRepository.findAll({
-        authorId: userId,
-        limit: 1000, // Reasonable limit for statistics
-        offset: 0,
-      });
+      const canSeeUnpublished = await canSeeUnpublishedPosts(user.id, viewerId);
+      if (canSeeUnpublished.isErr()) {
+        return err(canSeeUnpublished.error);
+      }
+
+      // Aggregate all posts by user (including deleted ones)
+      const postsResult = await userStatisticsQuery.aggregateAuthorPosts(
+        user.id,
+        { publishedOnly: !canSeeUnpublished.value },
+      );
 
       if (postsResult.isErr()) {
         return err({
           type: "UnexpectedError",
-          message: `Failed to fetch user posts: ${postsResult.error.message}`,
+          message: `Failed to aggregate user posts: ${postsResult.error.message}`,
         });
       }
 
-      const { posts } = postsResult.value;
-
-      // Calculate statistics
-      const activePosts = posts.filter((p) => p.deletedAt === null);
-      const deletedPosts = posts.filter((p) => p.deletedAt !== null);
-
-      const totalPosts = posts.length;
-      const activePostsCount = activePosts.length;
-      const deletedPostsCount = deletedPosts.length;
-
-      // Calculate average post length (only active posts)
-      const averagePostLength =
-        activePostsCount > 0 ?
-          activePosts.reduce((sum, post) => sum + post.content.length, 0) /
-          activePostsCount
-        : 0;
-
-      // Find first and last post dates
-      const sortedPosts = [...posts].sort(
-        (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
-      );
-      const firstPostDate =
-        sortedPosts.length > 0 ? sortedPosts[0].createdAt : null;
-      const lastPostDate =
-        sortedPosts.length > 0 ?
-          sortedPosts[sortedPosts.length - 1].createdAt
-        : null;
+      const aggregates = postsResult.value;
 
       return ok({
         user,
-        totalPosts,
-        activePosts: activePostsCount,
-        deletedPosts: deletedPostsCount,
-        averagePostLength: Math.round(averagePostLength),
-        firstPostDate,
-        lastPostDate,
+        totalPosts: aggregates.totalPosts,
+        activePosts: aggregates.activePosts,
+        deletedPosts: aggregates.deletedPosts,
+        // Average length is taken over active posts only
+        averagePostLength: Math.round(aggregates.averagePostLength),
+        firstPostDate: aggregates.firstPostDate,
+        lastPostDate: aggregates.lastPostDate,
       });
     },
 
     async getUsersSummary() {
-      // Get all users
-      const usersResult = await userRepository.findAll({
-        limit: 10000, // Reasonable limit
-        offset: 0,
-      });
+      const siteResult = await userStatisticsQuery.aggregateSite();
 
-      if (usersResult.isErr()) {
+      if (siteResult.isErr()) {
         return err({
           type: "UnexpectedError",
-          message: `Failed to fetch users: ${usersResult.error.message}`,
+          message: `Failed to aggregate statistics: ${siteResult.error.message}`,
         });
       }
 
-      const { users, total: totalUsers } = usersResult.value;
-
-      // Count active and deleted users
-      const activeUsers = users.filter((u) => u.deletedAt === null).length;
-      const deletedUsers = users.filter((u) => u.deletedAt !== null).length;
-
-      // Get all posts
-      const postsResult = await postRepository.findAll({
-        limit: 100000, // Large limit for summary
-        offset: 0,
-      });
-
-      if (postsResult.isErr()) {
-        return err({
-          type: "UnexpectedError",
-          message: `Failed to fetch posts: ${postsResult.error.message}`,
-        });
-      }
-
-      const { total: totalPosts } = postsResult.value;
+      const aggregates = siteResult.value;
 
       // Calculate average posts per user
       const averagePostsPerUser =
-        activeUsers > 0 ? totalPosts / activeUsers : 0;
+        aggregates.activeUsers > 0 ?
+          aggregates.activePosts / aggregates.activeUsers
+        : 0;
 
       return ok({
-        totalUsers,
-        activeUsers,
-        deletedUsers,
-        totalPosts,
+        ...aggregates,
         averagePostsPerUser: Math.round(averagePostsPerUser * 100) / 100, // Round to 2 decimal places
       });
     },
@@ -0,0 +1,41 @@
+/**
+ * Post tags.
+ * Tags are free-form labels stored as slugs, so "Type Script" and
+ * "type-script" name the same tag.
+ */
+
+/**
+ * Most tags a single post can carry.
+ */
+export const MAX_TAGS_PER_POST = 10;
+
+/**
+ * Longest tag name, after normalization.
+ */
+export const MAX_TAG_LENGTH = 32;
+
+/**
+ * Normalize a tag name to its slug: accents stripped, lowercase, runs of
+ * anything but ASCII letters and digits collapsed to a single dash.
+ * Returns an empty string when nothing usable is left.
+ *
+ * @param name - Tag as entered
+ * @returns Normalized tag name
+ */
+export const normalizeTag = (name: string): string =>
+  name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Normalize a list of tags: duplicates (after normalization) are merged
+ * and the result is sorted by name.
+ *
+ * @param names - Tags as entered
+ * @returns Distinct normalized tag names, empty ones dropped
+ */
+export const normalizeTags = (names: readonly string[]): string[] =>
+  [...new Set(names.map(normalizeTag))].filter((name) => name !== "").sort();
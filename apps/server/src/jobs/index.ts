@@ -0,0 +1,24 @@
+/**
+ * Deferred job processing: the polling worker and the job handlers.
+ */
+
+export { computeRetryDelay, createJobWorker } from "./worker";
+export type {
+  BackoffOptions,
+  JobFailure,
+  JobHandler,
+  JobWorker,
+  JobWorkerOptions,
+} from "./worker";
+
+export { createPublishScheduledPostHandler } from "./publish-scheduled-post";
+export type { PublishScheduledPostHandlerDeps } from "./publish-scheduled-post";
+
+export { createPurgeDeletedRecordsHandler } from "./purge-deleted-records";
+export type { PurgeDeletedRecordsHandlerDeps } from "./purge-deleted-records";
+
+export { createRetentionScheduler } from "./retention-scheduler";
+export type {
+  RetentionScheduler,
+  RetentionSchedulerOptions,
+} from "./retention-scheduler";
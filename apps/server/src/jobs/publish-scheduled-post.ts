@@ -0,0 +1,50 @@
+/**
+ * Scheduled publishing job handler.
+ * Adapts `posts.publish` jobs to the publish-scheduled-post usecase.
+ */
+
+import { err, ok } from "neverthrow";
+
+import type { PostRepository } from "../repositories/interfaces/post-repository";
+import {
+  executePublishScheduledPost,
+  parsePublishScheduledPostInput,
+} from "../usecases/publish-scheduled-post";
+import type { JobHandler } from "./worker";
+
+/**
+ * Dependencies of the scheduled publishing handler.
+ */
+export interface PublishScheduledPostHandlerDeps {
+  readonly postRepository: PostRepository;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+}
+
+/**
+ * Create the handler for scheduled publishing jobs.
+ * A malformed payload fails the job for good; repository errors
+ * (including a concurrent edit) are retried.
+ *
+ * @param deps - Injected dependencies
+ * @returns JobHandler for PUBLISH_SCHEDULED_POST_JOB
+ */
+export const createPublishScheduledPostHandler = (
+  deps: PublishScheduledPostHandlerDeps,
+): JobHandler => {
+  return async (job) => {
+    const inputResult = parsePublishScheduledPostInput(job.payload);
+
+    if (inputResult.isErr()) {
+      return err({ message: inputResult.error.message, permanent: true });
+    }
+
+    const result = await executePublishScheduledPost(deps, inputResult.value);
+
+    if (result.isErr()) {
+      return err({ message: result.error.message });
+    }
+
+    return ok(undefined);
+  };
+};
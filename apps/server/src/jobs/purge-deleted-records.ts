@@ -0,0 +1,54 @@
+/**
+ * Retention job handler.
+ * Adapts `retention.purge` jobs to the purge-deleted-records usecase.
+ */
+
+import { err, ok } from "neverthrow";
+
+import type { JobRepository } from "../repositories/interfaces/job-repository";
+import type { PostRepository } from "../repositories/interfaces/post-repository";
+import type { UserRepository } from "../repositories/interfaces/user-repository";
+import {
+  executePurgeDeletedRecords,
+  parsePurgeDeletedRecordsInput,
+} from "../usecases/purge-deleted-records";
+import type { JobHandler } from "./worker";
+
+/**
+ * Dependencies of the retention handler.
+ */
+export interface PurgeDeletedRecordsHandlerDeps {
+  readonly userRepository: UserRepository;
+  readonly postRepository: PostRepository;
+  readonly jobRepository: JobRepository;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+}
+
+/**
+ * Create the handler for retention jobs.
+ * A malformed payload fails the job for good; repository errors are
+ * retried, which is safe because purging twice removes nothing more.
+ *
+ * @param deps - Injected dependencies
+ * @returns JobHandler for PURGE_DELETED_RECORDS_JOB
+ */
+export const createPurgeDeletedRecordsHandler = (
+  deps: PurgeDeletedRecordsHandlerDeps,
+): JobHandler => {
+  return async (job) => {
+    const inputResult = parsePurgeDeletedRecordsInput(job.payload);
+
+    if (inputResult.isErr()) {
+      return err({ message: inputResult.error.message, permanent: true });
+    }
+
+    const result = await executePurgeDeletedRecords(deps, inputResult.value);
+
+    if (result.isErr()) {
+      return err({ message: result.error.message });
+    }
+
+    return ok(undefined);
+  };
+};
@@ -0,0 +1,93 @@
+/**
+ * Retention scheduler.
+ * Enqueues a `retention.purge` job when started and then on every
+ * interval; the job worker runs them. Each server instance enqueues its
+ * own jobs, which is harmless because purging is idempotent.
+ */
+
+import type { JobRepository } from "../repositories/interfaces/job-repository";
+import { PURGE_DELETED_RECORDS_JOB } from "../usecases/purge-deleted-records";
+
+/**
+ * Options for creating a retention scheduler.
+ */
+export interface RetentionSchedulerOptions {
+  readonly jobRepository: JobRepository;
+  /** Soft-deleted rows older than this many days are purged (default 30) */
+  readonly retentionDays?: number;
+  /** Wait between purges (default 1 hour) */
+  readonly intervalMs?: number;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+  /** Receives failures; defaults to console.error */
+  readonly onError?: (message: string) => void;
+}
+
+/**
+ * Retention scheduler interface.
+ */
+export interface RetentionScheduler {
+  /**
+   * Enqueue one purge job now.
+   */
+  schedulePurge(): Promise<void>;
+
+  /**
+   * Enqueue a purge job now and on every interval.
+   * Calling it again while running has no effect.
+   */
+  start(): void;
+
+  /**
+   * Stop enqueueing purge jobs.
+   */
+  stop(): void;
+}
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Create a retention scheduler.
+ *
+ * @param options - Queue, retention period and interval
+ * @returns RetentionScheduler instance
+ */
+export const createRetentionScheduler = (
+  options: RetentionSchedulerOptions,
+): RetentionScheduler => {
+  const { jobRepository } = options;
+  const retentionDays = options.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const now = options.now ?? (() => new Date());
+  const onError = options.onError ?? ((message) => console.error(message));
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const schedulePurge = async (): Promise<void> => {
+    const result = await jobRepository.enqueue({
+      type: PURGE_DELETED_RECORDS_JOB,
+      payload: { retentionDays },
+      runAt: now(),
+    });
+
+    if (result.isErr()) {
+      onError(`Failed to schedule purge: ${result.error.message}`);
+    }
+  };
+
+  return {
+    schedulePurge,
+
+    start() {
+      if (timer) return;
+      void schedulePurge();
+      timer = setInterval(() => void schedulePurge(), intervalMs);
+    },
+
+    stop() {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+};
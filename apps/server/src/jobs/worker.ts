@@ -0,0 +1,227 @@
+/**
+ * Job worker.
+ * Polls the job queue in-process, runs due jobs through the handler
+ * registered for their type and retries failures with exponential backoff.
+ * Several workers (e.g. one per server instance) can share a queue: the
+ * repository hands each due job to exactly one of them.
+ */
+
+import { type Result, err } from "neverthrow";
+
+import type {
+  Job,
+  JobRepository,
+} from "../repositories/interfaces/job-repository";
+
+/**
+ * Why a job run failed.
+ */
+export interface JobFailure {
+  readonly message: string;
+  /** Retrying cannot help (e.g. a malformed payload); fail right away */
+  readonly permanent?: boolean;
+}
+
+/**
+ * Runs one job. Jobs may run more than once (a worker can die after the
+ * work but before recording it), so handlers must be idempotent.
+ */
+export type JobHandler = (job: Job) => Promise<Result<void, JobFailure>>;
+
+/**
+ * Retry delay settings: `baseMs * 2^(attempt - 1)`, capped at `maxMs`.
+ */
+export interface BackoffOptions {
+  /** Delay before the first retry (default 1 second) */
+  readonly baseMs?: number;
+  /** Longest delay between attempts (default 15 minutes) */
+  readonly maxMs?: number;
+}
+
+/**
+ * Options for creating a job worker.
+ */
+export interface JobWorkerOptions {
+  readonly jobRepository: JobRepository;
+  /** Handlers keyed by job type */
+  readonly handlers: Readonly<Record<string, JobHandler>>;
+  /** Wait between polls while the queue is drained (default 1 second) */
+  readonly pollIntervalMs?: number;
+  /** Jobs claimed per poll (default 10) */
+  readonly batchSize?: number;
+  /** How long a claimed job is reserved for this worker (default 5 minutes) */
+  readonly leaseMs?: number;
+  readonly backoff?: BackoffOptions;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+  /** Receives failures; defaults to console.error */
+  readonly onError?: (message: string, job?: Job) => void;
+}
+
+/**
+ * Job worker interface.
+ */
+export interface JobWorker {
+  /**
+   * Claim and run the currently due jobs once.
+   * Resolves to the number of jobs run.
+   */
+  runDueJobs(): Promise<number>;
+
+  /**
+   * Start polling. Calling it again while running has no effect.
+   */
+  start(): void;
+
+  /**
+   * Stop polling and wait for the jobs in flight.
+   */
+  stop(): Promise<void>;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const DEFAULT_BACKOFF_BASE_MS = 1000;
+const DEFAULT_BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+/**
+ * Delay before retrying a job whose given attempt failed.
+ *
+ * @param attempt - The attempt that failed (1 for the first run)
+ * @param options - Backoff settings
+ * @returns Delay in milliseconds
+ */
+export const computeRetryDelay = (
+  attempt: number,
+  options: BackoffOptions = {},
+): number => {
+  const baseMs = options.baseMs ?? DEFAULT_BACKOFF_BASE_MS;
+  const maxMs = options.maxMs ?? DEFAULT_BACKOFF_MAX_MS;
+
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+};
+
+/**
+ * Create a job worker.
+ *
+ * @param options - Queue, handlers and polling settings
+ * @returns JobWorker instance
+ */
+export const createJobWorker = (options: JobWorkerOptions): JobWorker => {
+  const { jobRepository, handlers } = options;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+  const now = options.now ?? (() => new Date());
+  const onError =
+    options.onError ??
+    ((message: string, job?: Job) =>
+      console.error(job ? `Job ${job.id} (${job.type}): ${message}` : message));
+
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Invoke the handler, treating a thrown error as a retryable failure.
+   */
+  const invoke = async (job: Job): Promise<Result<void, JobFailure>> => {
+    const handler = handlers[job.type];
+
+    if (!handler) {
+      return err({
+        message: `No handler for job type '${job.type}'`,
+        permanent: true,
+      });
+    }
+
+    try {
+      return await handler(job);
+    } catch (error) {
+      return err({
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  /**
+   * Run a claimed job and record the outcome.
+   */
+  const run = async (job: Job): Promise<void> => {
+    const result = await invoke(job);
+
+    if (result.isOk()) {
+      const completeResult = await jobRepository.complete(job.id);
+      if (completeResult.isErr()) onError(completeResult.error.message, job);
+      return;
+    }
+
+    const failure = result.error;
+    onError(failure.message, job);
+
+    const settleResult =
+      failure.permanent || job.attempts >= job.maxAttempts ?
+        await jobRepository.fail(job.id, failure.message)
+      : await jobRepository.retry(
+          job.id,
+          new Date(
+            now().getTime() + computeRetryDelay(job.attempts, options.backoff),
+          ),
+          failure.message,
+        );
+
+    if (settleResult.isErr()) onError(settleResult.error.message, job);
+  };
+
+  const runDueJobs = async (): Promise<number> => {
+    const claimedAt = now();
+    const claimResult = await jobRepository.claim({
+      now: claimedAt,
+      limit: batchSize,
+      lockedUntil: new Date(claimedAt.getTime() + leaseMs),
+    });
+
+    if (claimResult.isErr()) {
+      onError(claimResult.error.message);
+      return 0;
+    }
+
+    await Promise.all(claimResult.value.map(run));
+
+    return claimResult.value.length;
+  };
+
+  /**
+   * Poll once, then schedule the next poll; a full batch polls again at once.
+   */
+  const poll = (): void => {
+    inFlight = runDueJobs()
+      .catch((error: unknown) => {
+        // Keep polling; the next poll may succeed
+        onError(error instanceof Error ? error.message : String(error));
+        return 0;
+      })
+      .then((ran) => {
+        if (running) {
+          timer = setTimeout(poll, ran === batchSize ? 0 : pollIntervalMs);
+        }
+      });
+  };
+
+  return {
+    runDueJobs,
+
+    start() {
+      if (running) return;
+      running = true;
+      poll();
+    },
+
+    async stop() {
+      running = false;
+      clearTimeout(timer);
+      await inFlight;
+    },
+  };
+};
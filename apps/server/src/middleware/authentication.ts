@@ -0,0 +1,189 @@
+/**
+ * Authentication middleware.
+ * Resolves the caller's identity through a pluggable Authenticator and
+ * exposes it to route handlers as the `principal` context variable.
+ */
+
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { type Result, ok } from "neverthrow";
+
+import {
+  type UnauthorizedError,
+  forbiddenError,
+  unauthorizedError,
+} from "../domain/errors";
+import type { TokenScope } from "../domain/permissions";
+import { sendHttpError } from "../utils/http-error";
+
+/**
+ * Verified identity of the caller.
+ */
+export interface Principal {
+  readonly userId: string;
+  /**
+   * Scopes the credential is limited to (personal access tokens).
+   * Undefined for interactive sessions, which are not scope-limited.
+   */
+  readonly scopes?: readonly TokenScope[];
+}
+
+/**
+ * Authenticator port.
+ * Implementations inspect the request for their own credential format.
+ */
+export interface Authenticator {
+  /**
+   * Authenticate the request.
+   * Returns null when the request carries no credentials this authenticator
+   * understands, and UnauthorizedError when credentials are present but invalid.
+   */
+  authenticate(
+    request: Request,
+  ): Promise<Result<Principal | null, UnauthorizedError>>;
+}
+
+/**
+ * Combine authenticators for different credential formats.
+ * The first authenticator that recognises the credentials decides the outcome.
+ */
+export const combineAuthenticators = (
+  ...authenticators: readonly Authenticator[]
+): Authenticator => ({
+  async authenticate(request) {
+    for (const authenticator of authenticators) {
+      const result = await authenticator.authenticate(request);
+
+      if (result.isErr() || result.value !== null) {
+        return result;
+      }
+    }
+
+    return ok(null);
+  },
+});
+
+/**
+ * Hono environment for routes that read the principal.
+ */
+export interface AuthEnv {
+  Variables: {
+    principal: Principal | null;
+  };
+}
+
+/**
+ * Resolve the principal for every request.
+ * Anonymous requests pass through with `principal` set to null;
+ * requests with invalid credentials are rejected with 401.
+ */
+export const authenticate = (authenticator: Authenticator) =>
+  createMiddleware<AuthEnv>(async (c, next) => {
+    const result = await authenticator.authenticate(c.req.raw);
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    c.set("principal", result.value);
+    await next();
+  });
+
+/**
+ * Reject anonymous requests with 401.
+ * Mount after `authenticate`.
+ */
+export const requireAuthentication = () =>
+  createMiddleware<AuthEnv>(async (c, next) => {
+    if (!c.get("principal")) {
+      return sendHttpError(c, unauthorizedError());
+    }
+
+    await next();
+  });
+
+/**
+ * Reject anonymous requests with 401 and scope-limited credentials
+ * that lack the given scope with 403.
+ * Mount after `authenticate`.
+ */
+export const requireScope = (scope: TokenScope) =>
+  createMiddleware<AuthEnv>(async (c, next) => {
+    const principal = c.get("principal");
+
+    if (!principal) {
+      return sendHttpError(c, unauthorizedError());
+    }
+
+    if (!hasScope(principal, scope)) {
+      return sendHttpError(
+        c,
+        forbiddenError(`Token is missing the '${scope}' scope`, scope),
+      );
+    }
+
+    await next();
+  });
+
+/**
+ * Reject scope-limited credentials that lack the given scope with 403.
+ * Anonymous requests pass, so public reads stay public while a token
+ * without the scope cannot widen them with its user's access.
+ * Mount after `authenticate`.
+ */
+export const requireScopeWhenAuthenticated = (scope: TokenScope) =>
+  createMiddleware<AuthEnv>(async (c, next) => {
+    const principal = c.get("principal");
+
+    if (principal && !hasScope(principal, scope)) {
+      return sendHttpError(
+        c,
+        forbiddenError(`Token is missing the '${scope}' scope`, scope),
+      );
+    }
+
+    await next();
+  });
+
+/**
+ * Check whether a principal may act within a scope.
+ */
+export const hasScope = (principal: Principal, scope: TokenScope): boolean =>
+  principal.scopes === undefined || principal.scopes.includes(scope);
+
+/**
+ * Read the authenticated principal inside a handler guarded by
+ * `requireAuthentication`.
+ */
+export const getPrincipal = (c: Context<AuthEnv>): Principal => {
+  const principal = c.get("principal");
+
+  if (!principal) {
+    throw new Error("getPrincipal called on an unauthenticated request");
+  }
+
+  return principal;
+};
+
+/**
+ * Extract the credential from an `Authorization: <scheme> <credential>` header.
+ * Returns null when the header is absent or uses a different scheme.
+ */
+export const readAuthorizationHeader = (
+  request: Request,
+  scheme: string,
+): string | null => {
+  const header = request.headers.get("Authorization");
+
+  if (!header) {
+    return null;
+  }
+
+  const [actualScheme, credential] = header.split(" ", 2);
+
+  if (actualScheme?.toLowerCase() !== scheme.toLowerCase() || !credential) {
+    return null;
+  }
+
+  return credential;
+};
@@ -0,0 +1,206 @@
+/**
+ * Idempotency middleware.
+ * Lets clients safely retry a write by sending an `Idempotency-Key` header:
+ * the first response is stored and replayed for later requests with the
+ * same key, so a retry after a timeout does not repeat the side effects.
+ */
+
+import type { Context, MiddlewareHandler } from "hono";
+import { createMiddleware } from "hono/factory";
+
+import { conflictError, validationError } from "../domain/errors";
+import type {
+  IdempotencyKeyRepository,
+  StoredResponse,
+} from "../repositories/interfaces/idempotency-key-repository";
+import type { IdempotencyKeyReusedError } from "../types/http-error";
+import { sendHttpError } from "../utils/http-error";
+import type { AuthEnv } from "./authentication";
+
+/**
+ * Request header carrying the client-chosen key.
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Response header marking a replayed response.
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/**
+ * Default time a key is remembered (24 hours).
+ */
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Response headers worth replaying; the rest are per-response details.
+ */
+const REPLAYED_HEADERS = ["Content-Type", "ETag", "Location"] as const;
+
+/**
+ * Accepted keys: 1-255 printable ASCII characters (e.g. a UUID).
+ */
+const KEY_PATTERN = /^[\x20-\x7e]{1,255}$/;
+
+/**
+ * Options for the idempotency middleware.
+ */
+export interface IdempotencyOptions {
+  readonly repository: IdempotencyKeyRepository;
+  /** How long a key is remembered; defaults to 24 hours */
+  readonly ttlSeconds?: number;
+}
+
+/**
+ * Build an IdempotencyKeyReusedError.
+ */
+const idempotencyKeyReusedError = (): IdempotencyKeyReusedError => ({
+  type: "IdempotencyKeyReusedError",
+  message: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`,
+});
+
+/**
+ * Hash the parts of a request that must match for a replay.
+ */
+const fingerprintRequest = async (c: Context): Promise<string> => {
+  const body = await c.req.text();
+
+  return new Bun.CryptoHasher("sha256")
+    .update(`${c.req.method} ${c.req.path}\n${body}`)
+    .digest("hex");
+};
+
+/**
+ * Capture the replayable parts of a response.
+ */
+const storeResponse = async (response: Response): Promise<StoredResponse> => {
+  const headers: Record<string, string> = {};
+
+  for (const name of REPLAYED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+
+  return {
+    status: response.status,
+    body: await response.clone().text(),
+    headers,
+  };
+};
+
+/**
+ * Replay requests that carry a known `Idempotency-Key`.
+ * Keys are scoped to the authenticated user; requests without the header
+ * or without a principal pass through untouched.
+ * - Same key, same request: the stored response is replayed
+ * - Same key, different request: 422
+ * - Same key while the first request is still running: 409
+ * Server errors are not stored, so the client may retry them.
+ * Mount after `authenticate` (and any scope checks).
+ */
+export const idempotency = (
+  options: IdempotencyOptions,
+): MiddlewareHandler<AuthEnv> =>
+  createMiddleware<AuthEnv>(async (c, next) => {
+    const key = c.req.header(IDEMPOTENCY_KEY_HEADER);
+    const principal = c.get("principal");
+
+    if (key === undefined || !principal) {
+      await next();
+      return;
+    }
+
+    if (!KEY_PATTERN.test(key) || key.trim() === "") {
+      return sendHttpError(
+        c,
+        validationError(
+          `${IDEMPOTENCY_KEY_HEADER} must be 1-255 printable ASCII characters`,
+          { field: IDEMPOTENCY_KEY_HEADER },
+        ),
+      );
+    }
+
+    const { repository } = options;
+    const ttlSeconds = options.ttlSeconds ?? DEFAULT_IDEMPOTENCY_TTL_SECONDS;
+    const fingerprint = await fingerprintRequest(c);
+    const now = new Date();
+
+    const reserveResult = await repository.reserve(
+      {
+        userId: principal.userId,
+        key,
+        fingerprint,
+        expiresAt: new Date(now.getTime() + ttlSeconds * 1000),
+      },
+      now,
+    );
+
+    if (reserveResult.isErr()) {
+      return sendHttpError(c, reserveResult.error);
+    }
+
+    const existing = reserveResult.value;
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return sendHttpError(c, idempotencyKeyReusedError());
+      }
+
+      if (!existing.response) {
+        return sendHttpError(
+          c,
+          conflictError(
+            `A request with this ${IDEMPOTENCY_KEY_HEADER} is still in progress`,
+            { conflictReason: "idempotency_key_in_progress" },
+          ),
+        );
+      }
+
+      return new Response(existing.response.body, {
+        status: existing.response.status,
+        headers: {
+          ...existing.response.headers,
+          [IDEMPOTENT_REPLAYED_HEADER]: "true",
+        },
+      });
+    }
+
+    await next();
+
+    // Let the client retry server errors instead of replaying them
+    if (c.error || c.res.status >= 500) {
+      await repository.release(principal.userId, key);
+      return;
+    }
+
+    const completeResult = await repository.complete(
+      principal.userId,
+      key,
+      await storeResponse(c.res),
+    );
+
+    if (completeResult.isErr()) {
+      // Unrecorded: free the key rather than leave it in progress until expiry
+      await repository.release(principal.userId, key);
+    }
+  });
+
+/**
+ * Build the idempotency middleware from optional route dependencies.
+ * Passes every request through when no key storage is configured.
+ */
+export const createIdempotencyMiddleware = (deps: {
+  readonly idempotencyKeyRepository?: IdempotencyKeyRepository;
+  readonly idempotencyTtlSeconds?: number;
+}): MiddlewareHandler<AuthEnv> => {
+  if (!deps.idempotencyKeyRepository) {
+    return async (_c, next) => {
+      await next();
+    };
+  }
+
+  return idempotency({
+    repository: deps.idempotencyKeyRepository,
+    ttlSeconds: deps.idempotencyTtlSeconds,
+  });
+};
@@ -0,0 +1,38 @@
+/**
+ * Middleware index.
+ */
+
+export {
+  authenticate,
+  combineAuthenticators,
+  getPrincipal,
+  hasScope,
+  readAuthorizationHeader,
+  requireAuthentication,
+  requireScope,
+  requireScopeWhenAuthenticated,
+} from "./authentication";
+export type { AuthEnv, Authenticator, Principal } from "./authentication";
+
+export {
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+  createIdempotencyMiddleware,
+  idempotency,
+} from "./idempotency";
+export type { IdempotencyOptions } from "./idempotency";
+
+export { createPersonalAccessTokenAuthenticator } from "./personal-access-token";
+export type { PersonalAccessTokenAuthenticatorOptions } from "./personal-access-token";
+
+export {
+  createSessionTokenAuthenticator,
+  createSessionTokenService,
+} from "./session-token";
+export type {
+  SessionClaims,
+  SessionTokenAuthenticatorOptions,
+  SessionTokenService,
+  SessionTokenServiceOptions,
+} from "./session-token";
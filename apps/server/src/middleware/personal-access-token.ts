@@ -0,0 +1,69 @@
+/**
+ * Personal access token Authenticator.
+ * Tokens are sent as `Authorization: Bearer pat_<token>` and looked up by hash.
+ */
+
+import { err, ok } from "neverthrow";
+
+import { unauthorizedError } from "../domain/errors";
+import { PERSONAL_ACCESS_TOKEN_PREFIX } from "../domain/permissions";
+import type { PersonalAccessTokenRepository } from "../repositories/interfaces/personal-access-token-repository";
+import { hashOpaqueToken } from "../utils/opaque-token";
+import { type Authenticator, readAuthorizationHeader } from "./authentication";
+
+/**
+ * Options for the personal access token authenticator.
+ */
+export interface PersonalAccessTokenAuthenticatorOptions {
+  /** Clock override for tests */
+  readonly now?: () => Date;
+}
+
+/**
+ * Create an Authenticator that accepts personal access tokens
+ * from the `Authorization: Bearer` header.
+ * Bearer credentials without the token prefix are left to other authenticators.
+ */
+export const createPersonalAccessTokenAuthenticator = (
+  tokenRepository: PersonalAccessTokenRepository,
+  options?: PersonalAccessTokenAuthenticatorOptions,
+): Authenticator => {
+  const now = options?.now ?? (() => new Date());
+
+  return {
+    async authenticate(request) {
+      const token = readAuthorizationHeader(request, "Bearer");
+
+      if (!token?.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+        return ok(null);
+      }
+
+      const tokenResult = await tokenRepository.findByTokenHash(
+        await hashOpaqueToken(token),
+      );
+
+      if (tokenResult.isErr()) {
+        return err(unauthorizedError("Failed to verify access token"));
+      }
+
+      const stored = tokenResult.value;
+      const currentTime = now();
+
+      if (
+        !stored ||
+        stored.revokedAt !== null ||
+        (stored.expiresAt !== null &&
+          stored.expiresAt.getTime() <= currentTime.getTime())
+      ) {
+        return err(
+          unauthorizedError("Invalid, expired or revoked access token"),
+        );
+      }
+
+      // Best effort: a failed bookkeeping write must not reject the request
+      await tokenRepository.touchLastUsed(stored.id, currentTime);
+
+      return ok({ userId: stored.userId, scopes: stored.scopes });
+    },
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * Signed session tokens (HS256 JWT) and the matching Authenticator.
+ * Tokens are sent as `Authorization: Bearer <token>`.
+ */
+
+import { sign, verify } from "hono/jwt";
+import { type Result, err, ok } from "neverthrow";
+
+import { type UnauthorizedError, unauthorizedError } from "../domain/errors";
+import {
+  type Authenticator,
+  type Principal,
+  readAuthorizationHeader,
+} from "./authentication";
+
+/**
+ * Default session lifetime (24 hours).
+ */
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24;
+
+/**
+ * Claims carried by a session token.
+ */
+export interface SessionClaims extends Principal {
+  /** Credential session version at issue time; bumped on logout */
+  readonly sessionVersion: number;
+}
+
+/**
+ * Options for creating the session token service.
+ */
+export interface SessionTokenServiceOptions {
+  /** HMAC secret used to sign and verify tokens */
+  readonly secret: string;
+  /** Token lifetime in seconds */
+  readonly ttlSeconds?: number;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+}
+
+/**
+ * Issues and verifies session tokens.
+ */
+export interface SessionTokenService {
+  /**
+   * Issue a signed token for the given claims.
+   */
+  issue(claims: SessionClaims): Promise<string>;
+
+  /**
+   * Verify signature and expiry and return the encoded claims.
+   */
+  verify(token: string): Promise<Result<SessionClaims, UnauthorizedError>>;
+}
+
+/**
+ * Create a SessionTokenService backed by HS256 JWTs.
+ */
+export const createSessionTokenService = (
+  options: SessionTokenServiceOptions,
+): SessionTokenService => {
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  const now = options.now ?? (() => new Date());
+
+  return {
+    async issue(claims) {
+      const issuedAt = Math.floor(now().getTime() / 1000);
+
+      return sign(
+        {
+          sub: claims.userId,
+          ver: claims.sessionVersion,
+          iat: issuedAt,
+          exp: issuedAt + ttlSeconds,
+        },
+        options.secret,
+        "HS256",
+      );
+    },
+
+    async verify(token) {
+      try {
+        const payload = await verify(token, options.secret, "HS256");
+
+        if (
+          typeof payload.sub !== "string" ||
+          payload.sub === "" ||
+          typeof payload.ver !== "number"
+        ) {
+          return err(unauthorizedError("Invalid session token"));
+        }
+
+        return ok({ userId: payload.sub, sessionVersion: payload.ver });
+      } catch {
+        return err(unauthorizedError("Invalid or expired session token"));
+      }
+    },
+  };
+};
+
+/**
+ * Options for the session token authenticator.
+ */
+export interface SessionTokenAuthenticatorOptions {
+  /**
+   * Check that the session has not been revoked since it was issued
+   * (e.g. by comparing the stored session version).
+   * All signed, unexpired tokens are accepted when omitted.
+   */
+  readonly isSessionActive?: (claims: SessionClaims) => Promise<boolean>;
+}
+
+/**
+ * Create an Authenticator that accepts session tokens
+ * from the `Authorization: Bearer` header.
+ */
+export const createSessionTokenAuthenticator = (
+  sessionTokenService: SessionTokenService,
+  options?: SessionTokenAuthenticatorOptions,
+): Authenticator => ({
+  async authenticate(request) {
+    const token = readAuthorizationHeader(request, "Bearer");
+
+    if (!token) {
+      return ok(null);
+    }
+
+    const claimsResult = await sessionTokenService.verify(token);
+
+    if (claimsResult.isErr()) {
+      return err(claimsResult.error);
+    }
+
+    const claims = claimsResult.value;
+
+    if (options?.isSessionActive && !(await options.isSessionActive(claims))) {
+      return err(unauthorizedError("Session has been revoked"));
+    }
+
+    return ok({ userId: claims.userId });
+  },
+});
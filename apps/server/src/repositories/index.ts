@@ -6,3 +6,4 @@
 export * as interfaces from "./interfaces";
 export * as postgres from "./postgres";
 export * as memory from "./memory";
+export * as sqlite from "./sqlite";
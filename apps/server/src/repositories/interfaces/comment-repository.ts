@@ -0,0 +1,119 @@
+/**
+ * Comment Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines the contract for comment persistence operations.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { NotFoundError, UnexpectedError } from "../../domain/errors";
+
+/**
+ * Comment entity shape (for repository operations).
+ */
+export interface Comment {
+  readonly id: string;
+  readonly postId: string;
+  /** The top-level comment replied to; null for top-level comments */
+  readonly parentId: string | null;
+  /** Null once the author has been purged */
+  readonly authorId: string | null;
+  readonly content: string;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+  readonly deletedAt: Date | null;
+}
+
+/**
+ * A top-level comment with its replies, oldest first.
+ */
+export interface CommentThread {
+  readonly comment: Comment;
+  readonly replies: readonly Comment[];
+}
+
+/**
+ * Input for creating a comment.
+ */
+export interface CreateCommentInput {
+  readonly postId: string;
+  /** Must name a top-level comment on the same post */
+  readonly parentId?: string | null;
+  readonly authorId: string;
+  readonly content: string;
+}
+
+/**
+ * Input for editing a comment.
+ */
+export interface UpdateCommentInput {
+  readonly content: string;
+}
+
+/**
+ * Options for listing a post's threads.
+ * Threads are ordered by their top-level comment, oldest first; comments
+ * created in the same millisecond keep the order they were created in.
+ */
+export interface FindCommentThreadsOptions {
+  readonly limit: number;
+  readonly offset: number;
+}
+
+/**
+ * A page of threads.
+ */
+export interface FindCommentThreadsResult {
+  readonly threads: readonly CommentThread[];
+  /** Top-level comments on the post */
+  readonly total: number;
+}
+
+/**
+ * Repository error types.
+ */
+export type CommentRepositoryError = NotFoundError | UnexpectedError;
+
+/**
+ * Comment Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface CommentRepository {
+  /**
+   * Find comment by ID.
+   * Returns null if not found or soft-deleted (not an error).
+   */
+  findById(id: string): Promise<Result<Comment | null, CommentRepositoryError>>;
+
+  /**
+   * List a page of a post's threads.
+   * Soft-deleted comments are included so threads keep their shape;
+   * callers redact them before showing them.
+   */
+  findThreadsByPostId(
+    postId: string,
+    options: FindCommentThreadsOptions,
+  ): Promise<Result<FindCommentThreadsResult, CommentRepositoryError>>;
+
+  /**
+   * Create a new comment.
+   */
+  create(
+    input: CreateCommentInput,
+  ): Promise<Result<Comment, CommentRepositoryError>>;
+
+  /**
+   * Update a comment's content.
+   * Returns NotFoundError if the comment is missing or soft-deleted.
+   */
+  update(
+    id: string,
+    input: UpdateCommentInput,
+  ): Promise<Result<Comment, CommentRepositoryError>>;
+
+  /**
+   * Soft delete a comment.
+   * Returns NotFoundError if the comment is missing or already deleted.
+   */
+  delete(id: string): Promise<Result<void, CommentRepositoryError>>;
+}
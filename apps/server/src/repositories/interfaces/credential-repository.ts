@@ -0,0 +1,72 @@
+/**
+ * Credential Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines the contract for password credential persistence.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type {
+  ConflictError,
+  NotFoundError,
+  UnexpectedError,
+} from "../../domain/errors";
+
+/**
+ * Credential entity shape (for repository operations).
+ * One credential per user; never exposed over HTTP.
+ */
+export interface Credential {
+  readonly userId: string;
+  readonly passwordHash: string;
+  /** Incremented on logout to invalidate previously issued sessions */
+  readonly sessionVersion: number;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Input for creating a credential.
+ */
+export interface CreateCredentialInput {
+  readonly userId: string;
+  readonly passwordHash: string;
+}
+
+/**
+ * Repository error types.
+ */
+export type CredentialRepositoryError =
+  | NotFoundError
+  | ConflictError
+  | UnexpectedError;
+
+/**
+ * Credential Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface CredentialRepository {
+  /**
+   * Find the credential for a user.
+   * Returns null if the user has no password set (not an error).
+   */
+  findByUserId(
+    userId: string,
+  ): Promise<Result<Credential | null, CredentialRepositoryError>>;
+
+  /**
+   * Create a credential.
+   * Returns ConflictError if the user already has one.
+   */
+  create(
+    input: CreateCredentialInput,
+  ): Promise<Result<Credential, CredentialRepositoryError>>;
+
+  /**
+   * Increment the session version, invalidating all existing sessions.
+   * Returns NotFoundError if the user has no credential.
+   */
+  incrementSessionVersion(
+    userId: string,
+  ): Promise<Result<Credential, CredentialRepositoryError>>;
+}
@@ -0,0 +1,65 @@
+/**
+ * Email Verification Token Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines the contract for verification token persistence.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+
+/**
+ * Email verification token shape (for repository operations).
+ * Only the hash of the token is stored.
+ */
+export interface EmailVerificationToken {
+  readonly id: string;
+  readonly userId: string;
+  /** Address the token was issued for */
+  readonly email: string;
+  readonly tokenHash: string;
+  readonly expiresAt: Date;
+  readonly consumedAt: Date | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Input for creating a verification token.
+ */
+export interface CreateEmailVerificationTokenInput {
+  readonly userId: string;
+  readonly email: string;
+  readonly tokenHash: string;
+  readonly expiresAt: Date;
+}
+
+/**
+ * Repository error types.
+ */
+export type EmailVerificationTokenRepositoryError = UnexpectedError;
+
+/**
+ * Email Verification Token Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface EmailVerificationTokenRepository {
+  /**
+   * Store a new token.
+   */
+  create(
+    input: CreateEmailVerificationTokenInput,
+  ): Promise<
+    Result<EmailVerificationToken, EmailVerificationTokenRepositoryError>
+  >;
+
+  /**
+   * Atomically mark an unconsumed, unexpired token as consumed.
+   * Returns null if no such token exists (unknown, expired or already used).
+   */
+  consume(
+    tokenHash: string,
+    now: Date,
+  ): Promise<
+    Result<EmailVerificationToken | null, EmailVerificationTokenRepositoryError>
+  >;
+}
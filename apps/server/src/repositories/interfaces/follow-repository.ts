@@ -0,0 +1,119 @@
+/**
+ * Follow Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines data access for the follow graph and the home feed built on it.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+import type { PageCursor, SortKey } from "./pagination";
+import type { Post } from "./post-repository";
+import type { User } from "./user-repository";
+
+/**
+ * A user on a follower or following list.
+ */
+export interface FollowEntry {
+  readonly user: User;
+  /** When the follow started */
+  readonly followedAt: Date;
+}
+
+/**
+ * Options for listing followers or followed users.
+ */
+export interface FindFollowsOptions {
+  readonly limit: number;
+  readonly offset: number;
+}
+
+/**
+ * A page of a follower or following list.
+ */
+export interface FindFollowsResult {
+  readonly entries: readonly FollowEntry[];
+  /** Active users on the whole list */
+  readonly total: number;
+}
+
+/**
+ * Feed order: most recently published first, ties by id descending, so a
+ * draft published late lands at the top rather than where it was written.
+ * Cursors carry the `-publishedAt` sort signature.
+ */
+export const FEED_SORT: readonly SortKey<"publishedAt">[] = [
+  { field: "publishedAt", direction: "desc" },
+];
+
+/**
+ * Page selection for the feed; it is cursor-only, so reading deep into it
+ * seeks instead of skipping rows.
+ */
+export interface FindFeedOptions {
+  readonly limit: number;
+  readonly cursor?: PageCursor;
+}
+
+/**
+ * A page of the feed.
+ */
+export interface FindFeedResult {
+  readonly posts: readonly Post[];
+  /** Whether more posts exist beyond this page in the direction of travel */
+  readonly hasMore: boolean;
+}
+
+/**
+ * Repository error types.
+ */
+export type FollowRepositoryError = UnexpectedError;
+
+/**
+ * Follow Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface FollowRepository {
+  /**
+   * Make a user follow another. Following again changes nothing.
+   */
+  follow(
+    followerId: string,
+    followeeId: string,
+  ): Promise<Result<void, FollowRepositoryError>>;
+
+  /**
+   * Stop following a user. Unfollowing a user not followed changes nothing.
+   */
+  unfollow(
+    followerId: string,
+    followeeId: string,
+  ): Promise<Result<void, FollowRepositoryError>>;
+
+  /**
+   * List a user's followers, most recent follow first (ties by user id).
+   * Deleted users are left out.
+   */
+  findFollowers(
+    userId: string,
+    options: FindFollowsOptions,
+  ): Promise<Result<FindFollowsResult, FollowRepositoryError>>;
+
+  /**
+   * List the users a user follows, most recent follow first (ties by
+   * user id). Deleted users are left out.
+   */
+  findFollowing(
+    userId: string,
+    options: FindFollowsOptions,
+  ): Promise<Result<FindFollowsResult, FollowRepositoryError>>;
+
+  /**
+   * Published, non-deleted posts by the users a user follows, in
+   * {@link FEED_SORT} order.
+   */
+  findFeed(
+    followerId: string,
+    options: FindFeedOptions,
+  ): Promise<Result<FindFeedResult, FollowRepositoryError>>;
+}
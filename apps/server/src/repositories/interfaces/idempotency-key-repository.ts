@@ -0,0 +1,84 @@
+/**
+ * Idempotency Key Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines the contract for remembering the outcome of requests sent with an
+ * Idempotency-Key, so retries replay the first response instead of
+ * repeating its side effects.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+
+/**
+ * Response recorded for a completed request.
+ */
+export interface StoredResponse {
+  readonly status: number;
+  readonly body: string;
+  /** Replayable headers such as Content-Type and ETag */
+  readonly headers: Readonly<Record<string, string>>;
+}
+
+/**
+ * Idempotency key shape (for repository operations).
+ */
+export interface IdempotencyRecord {
+  readonly userId: string;
+  readonly key: string;
+  /** Hash of the original request, to detect a key reused for another payload */
+  readonly fingerprint: string;
+  /** Null while the original request is still being processed */
+  readonly response: StoredResponse | null;
+  readonly createdAt: Date;
+  readonly expiresAt: Date;
+}
+
+/**
+ * Input for claiming a key.
+ */
+export interface ReserveIdempotencyKeyInput {
+  readonly userId: string;
+  readonly key: string;
+  readonly fingerprint: string;
+  readonly expiresAt: Date;
+}
+
+/**
+ * Repository error types.
+ */
+export type IdempotencyKeyRepositoryError = UnexpectedError;
+
+/**
+ * Idempotency Key Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface IdempotencyKeyRepository {
+  /**
+   * Atomically claim a key for a new request.
+   * Returns null when the key was claimed, or the live record already
+   * holding it. An expired record is replaced as if it did not exist.
+   */
+  reserve(
+    input: ReserveIdempotencyKeyInput,
+    now: Date,
+  ): Promise<Result<IdempotencyRecord | null, IdempotencyKeyRepositoryError>>;
+
+  /**
+   * Record the response of a claimed key.
+   */
+  complete(
+    userId: string,
+    key: string,
+    response: StoredResponse,
+  ): Promise<Result<void, IdempotencyKeyRepositoryError>>;
+
+  /**
+   * Give up a claimed key that has no response yet, so the request can be
+   * retried (e.g. after a server error).
+   */
+  release(
+    userId: string,
+    key: string,
+  ): Promise<Result<void, IdempotencyKeyRepositoryError>>;
+}
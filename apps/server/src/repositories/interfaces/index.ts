@@ -2,6 +2,80 @@
  * Repository interfaces index.
  */
 
+export type {
+  Comment,
+  CommentRepository,
+  CommentRepositoryError,
+  CommentThread,
+  CreateCommentInput,
+  FindCommentThreadsOptions,
+  FindCommentThreadsResult,
+  UpdateCommentInput,
+} from "./comment-repository";
+export type {
+  CreateCredentialInput,
+  Credential,
+  CredentialRepository,
+  CredentialRepositoryError,
+} from "./credential-repository";
+export type {
+  CreateEmailVerificationTokenInput,
+  EmailVerificationToken,
+  EmailVerificationTokenRepository,
+  EmailVerificationTokenRepositoryError,
+} from "./email-verification-token-repository";
+export type {
+  FindFeedOptions,
+  FindFeedResult,
+  FindFollowsOptions,
+  FindFollowsResult,
+  FollowEntry,
+  FollowRepository,
+  FollowRepositoryError,
+} from "./follow-repository";
+export type {
+  CreatePersonalAccessTokenInput,
+  PersonalAccessToken,
+  PersonalAccessTokenRepository,
+  PersonalAccessTokenRepositoryError,
+} from "./personal-access-token-repository";
+export type {
+  IdempotencyKeyRepository,
+  IdempotencyKeyRepositoryError,
+  IdempotencyRecord,
+  ReserveIdempotencyKeyInput,
+  StoredResponse,
+} from "./idempotency-key-repository";
+export type {
+  ClaimJobsOptions,
+  EnqueueJobInput,
+  Job,
+  JobPayload,
+  JobRepository,
+  JobRepositoryError,
+  JobStatus,
+} from "./job-repository";
+export type {
+  CursorDirection,
+  PageCursor,
+  PageOptions,
+  PageResult,
+  SortDirection,
+  SortKey,
+} from "./pagination";
+export type {
+  PostSearch,
+  PostSearchError,
+  PostSearchHit,
+  SearchPostsOptions,
+  SearchPostsResult,
+} from "./post-search";
+export type {
+  CreatePostRevisionInput,
+  PostRevision,
+  PostRevisionRepository,
+  PostRevisionRepositoryError,
+} from "./post-revision-repository";
 export type {
   CreatePostInput,
   FindAllPostsOptions,
@@ -9,8 +83,20 @@ export type {
   Post,
   PostRepository,
   PostRepositoryError,
+  PostSortField,
   UpdatePostInput,
 } from "./post-repository";
+export type {
+  ReactionInput,
+  ReactionRepository,
+  ReactionRepositoryError,
+} from "./reaction-repository";
+export type {
+  FindTagUsageOptions,
+  TagRepository,
+  TagRepositoryError,
+  TagUsage,
+} from "./tag-repository";
 export type {
   CreateUserInput,
   FindAllUsersOptions,
@@ -19,4 +105,17 @@ export type {
   User,
   UserRepository,
   UserRepositoryError,
+  UserSortField,
 } from "./user-repository";
+export type {
+  AggregateAuthorPostsOptions,
+  AuthorPostAggregates,
+  SiteAggregates,
+  UserStatisticsQuery,
+  UserStatisticsQueryError,
+} from "./user-statistics-query";
+export type {
+  TransactionalRepositories,
+  UnitOfWork,
+  UnitOfWorkError,
+} from "./unit-of-work";
@@ -0,0 +1,122 @@
+/**
+ * Job Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines the contract for the deferred job queue behind the scheduler.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+
+/**
+ * Lifecycle of a job.
+ * pending -> running -> completed, or back to pending for a retry, or
+ * failed once its attempts are used up.
+ */
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+
+/**
+ * Handler-specific job data; must be JSON-serializable.
+ */
+export type JobPayload = Readonly<Record<string, unknown>>;
+
+/**
+ * Job entity shape (for repository operations).
+ */
+export interface Job {
+  readonly id: string;
+  /** Selects the handler that runs the job */
+  readonly type: string;
+  readonly payload: JobPayload;
+  readonly status: JobStatus;
+  /** Earliest time the job may run */
+  readonly runAt: Date;
+  /** Runs started so far, including the current one */
+  readonly attempts: number;
+  readonly maxAttempts: number;
+  readonly lastError: string | null;
+  /** While running: when the claim lapses and the job may be reclaimed */
+  readonly lockedUntil: Date | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Input for enqueueing a job.
+ */
+export interface EnqueueJobInput {
+  readonly type: string;
+  readonly payload: JobPayload;
+  readonly runAt: Date;
+  /** Defaults to 5 */
+  readonly maxAttempts?: number;
+}
+
+/**
+ * Options for claiming due jobs.
+ */
+export interface ClaimJobsOptions {
+  readonly now: Date;
+  readonly limit: number;
+  /** Lease end for the claimed jobs */
+  readonly lockedUntil: Date;
+}
+
+/**
+ * Repository error types.
+ */
+export type JobRepositoryError = UnexpectedError;
+
+/**
+ * Job Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface JobRepository {
+  /**
+   * Find job by ID.
+   * Returns null if not found (not an error).
+   */
+  findById(id: string): Promise<Result<Job | null, JobRepositoryError>>;
+
+  /**
+   * Add a pending job.
+   */
+  enqueue(input: EnqueueJobInput): Promise<Result<Job, JobRepositoryError>>;
+
+  /**
+   * Claim up to `limit` due jobs, earliest runAt first, and mark them
+   * running with one more attempt.
+   * Due jobs are pending ones whose runAt has passed and running ones whose
+   * lease has lapsed. Concurrent workers never claim the same job.
+   */
+  claim(
+    options: ClaimJobsOptions,
+  ): Promise<Result<readonly Job[], JobRepositoryError>>;
+
+  /**
+   * Mark a running job completed.
+   */
+  complete(id: string): Promise<Result<void, JobRepositoryError>>;
+
+  /**
+   * Return a running job to pending so it runs again at `runAt`.
+   */
+  retry(
+    id: string,
+    runAt: Date,
+    error: string,
+  ): Promise<Result<void, JobRepositoryError>>;
+
+  /**
+   * Mark a running job failed for good.
+   */
+  fail(id: string, error: string): Promise<Result<void, JobRepositoryError>>;
+
+  /**
+   * Delete completed and failed jobs settled before the cutoff.
+   * Resolves to the number of jobs removed.
+   */
+  purgeSettled(
+    settledBefore: Date,
+  ): Promise<Result<number, JobRepositoryError>>;
+}
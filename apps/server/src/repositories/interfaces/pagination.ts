@@ -0,0 +1,67 @@
+/**
+ * Pagination and sorting contract shared by list operations.
+ * Lists are ordered by an allow-listed sort followed by `id` as a tiebreaker,
+ * so pages are deterministic and keyset (cursor) pagination can seek instead
+ * of scanning an offset. Without an explicit sort, lists are ordered by
+ * (createdAt, id) ascending.
+ */
+
+/**
+ * Sort direction of a single key.
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * One key of a sort order.
+ */
+export interface SortKey<F extends string = string> {
+  readonly field: F;
+  readonly direction: SortDirection;
+}
+
+/**
+ * Sort applied when the caller does not specify one.
+ */
+export const DEFAULT_SORT: readonly SortKey<"createdAt">[] = [
+  { field: "createdAt", direction: "asc" },
+];
+
+/**
+ * Direction of travel from a cursor.
+ * - next: rows strictly after the cursor position
+ * - prev: rows strictly before the cursor position
+ */
+export type CursorDirection = "next" | "prev";
+
+/**
+ * Position in the sort order plus the direction to read.
+ * `values` holds the row's sort key values in sort order (timestamps as ISO
+ * strings); `id` breaks ties.
+ */
+export interface PageCursor {
+  readonly values: readonly string[];
+  readonly id: string;
+  readonly direction: CursorDirection;
+}
+
+/**
+ * Page selection for list operations.
+ * When `cursor` is set, `offset` is ignored. The cursor must have been
+ * issued for the same sort.
+ */
+export interface PageOptions<F extends string = string> {
+  readonly limit: number;
+  readonly offset?: number;
+  readonly cursor?: PageCursor;
+  readonly sort?: readonly SortKey<F>[];
+}
+
+/**
+ * Page metadata returned alongside the rows.
+ */
+export interface PageResult {
+  /** Total rows matching the filters, independent of the page */
+  readonly total: number;
+  /** Whether more rows exist beyond this page in the direction of travel */
+  readonly hasMore: boolean;
+}
@@ -0,0 +1,92 @@
+/**
+ * Personal Access Token Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines the contract for personal access token persistence.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { NotFoundError, UnexpectedError } from "../../domain/errors";
+import type { TokenScope } from "../../domain/permissions";
+
+/**
+ * Personal access token shape (for repository operations).
+ * The token hash is write-only and never returned.
+ */
+export interface PersonalAccessToken {
+  readonly id: string;
+  readonly userId: string;
+  readonly name: string;
+  readonly scopes: readonly TokenScope[];
+  readonly expiresAt: Date | null;
+  readonly lastUsedAt: Date | null;
+  readonly revokedAt: Date | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Input for creating a personal access token.
+ */
+export interface CreatePersonalAccessTokenInput {
+  readonly userId: string;
+  readonly name: string;
+  readonly tokenHash: string;
+  readonly scopes: readonly TokenScope[];
+  readonly expiresAt: Date | null;
+}
+
+/**
+ * Repository error types.
+ */
+export type PersonalAccessTokenRepositoryError =
+  | NotFoundError
+  | UnexpectedError;
+
+/**
+ * Personal Access Token Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface PersonalAccessTokenRepository {
+  /**
+   * Store a new token.
+   */
+  create(
+    input: CreatePersonalAccessTokenInput,
+  ): Promise<Result<PersonalAccessToken, PersonalAccessTokenRepositoryError>>;
+
+  /**
+   * Find token by hash, including revoked and expired tokens.
+   * Returns null if not found (not an error).
+   */
+  findByTokenHash(
+    tokenHash: string,
+  ): Promise<
+    Result<PersonalAccessToken | null, PersonalAccessTokenRepositoryError>
+  >;
+
+  /**
+   * List a user's tokens that have not been revoked, newest first.
+   */
+  findAllByUserId(
+    userId: string,
+  ): Promise<
+    Result<readonly PersonalAccessToken[], PersonalAccessTokenRepositoryError>
+  >;
+
+  /**
+   * Revoke a token owned by the given user.
+   * Returns NotFoundError if it does not exist or is already revoked.
+   */
+  revoke(
+    id: string,
+    userId: string,
+  ): Promise<Result<PersonalAccessToken, PersonalAccessTokenRepositoryError>>;
+
+  /**
+   * Record that a token was used.
+   */
+  touchLastUsed(
+    id: string,
+    usedAt: Date,
+  ): Promise<Result<void, PersonalAccessTokenRepositoryError>>;
+}
@@ -6,7 +6,13 @@
 
 import type { Result } from "neverthrow";
 
-import type { NotFoundError, UnexpectedError } from "../../domain/errors";
+import type {
+  NotFoundError,
+  PreconditionFailedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { PostStatus } from "../../domain/post-status";
+import type { PageOptions, PageResult } from "./pagination";
 
 /**
  * Post entity shape (for repository operations).
@@ -19,6 +25,15 @@ export interface Post {
   readonly createdAt: Date;
   readonly updatedAt: Date;
   readonly deletedAt: Date | null;
+  readonly status: PostStatus;
+  /** When the post was first published; null while it is a draft */
+  readonly publishedAt: Date | null;
+  /** When the post is scheduled to be published, if it is */
+  readonly publishAt: Date | null;
+  /** Normalized tag names, sorted */
+  readonly tags: readonly string[];
+  /** Starts at 1 and increases with every update */
+  readonly version: number;
 }
 
 /**
@@ -28,6 +43,10 @@ export interface CreatePostInput {
   readonly title: string;
   readonly content: string;
   readonly authorId: string;
+  /** Defaults to draft; publishing sets publishedAt */
+  readonly status?: Extract<PostStatus, "draft" | "published">;
+  /** Normalized tag names; stored together with the post */
+  readonly tags?: readonly string[];
 }
 
 /**
@@ -37,23 +56,49 @@ export interface CreatePostInput {
 export interface UpdatePostInput {
   readonly title?: string;
   readonly content?: string;
+  readonly status?: PostStatus;
+  readonly publishedAt?: Date;
+  /** Schedule (or with null, unschedule) publication */
+  readonly publishAt?: Date | null;
+  /** Replace the post's tags (normalized names) in the same write */
+  readonly tags?: readonly string[];
+  /** Apply the update only if the stored version still equals this one */
+  readonly expectedVersion?: number;
 }
 
+/**
+ * Fields posts can be sorted by.
+ */
+export type PostSortField = "createdAt" | "updatedAt" | "title";
+
 /**
  * Options for listing posts.
+ * All filters are optional and combined with AND.
  */
-export interface FindAllPostsOptions {
-  readonly limit: number;
-  readonly offset: number;
+export interface FindAllPostsOptions extends PageOptions<PostSortField> {
   readonly authorId?: string;
+  /** Only posts created strictly after this instant */
+  readonly createdAfter?: Date;
+  /** Only posts created strictly before this instant */
+  readonly createdBefore?: Date;
+  /** Case-insensitive substring match on the title */
+  readonly titleContains?: string;
+  readonly status?: PostStatus;
+  /** Only posts carrying this normalized tag */
+  readonly tag?: string;
+  /**
+   * The user listing posts.
+   * Non-published posts are only included when they were written by the
+   * viewer; without a viewer only published posts are listed.
+   */
+  readonly viewerId?: string;
 }
 
 /**
  * Result of listing posts with pagination info.
  */
-export interface FindAllPostsResult {
+export interface FindAllPostsResult extends PageResult {
   readonly posts: readonly Post[];
-  readonly total: number;
 }
 
 /**
@@ -73,9 +118,19 @@ export interface PostRepository {
   findById(id: string): Promise<Result<Post | null, PostRepositoryError>>;
 
   /**
-   * Find all posts with pagination.
-   * Excludes soft-deleted posts.
-   * Optionally filter by authorId.
+   * Find post by ID, soft-deleted or not.
+   * Returns null if not found (not an error).
+   */
+  findByIdIncludingDeleted(
+    id: string,
+  ): Promise<Result<Post | null, PostRepositoryError>>;
+
+  /**
+   * Find all posts with offset or cursor pagination.
+   * Ordered by the requested sort, then id; (createdAt, id) by default.
+   * Excludes soft-deleted posts, and drafts and archived posts of anyone
+   * but the viewer.
+   * Optionally filter by author, status, tag, creation time and title.
    */
   findAll(
     options: FindAllPostsOptions,
@@ -87,17 +142,32 @@ export interface PostRepository {
   create(input: CreatePostInput): Promise<Result<Post, PostRepositoryError>>;
 
   /**
-   * Update an existing post.
+   * Update an existing post and increment its version.
    * Returns NotFoundError if post does not exist.
+   * Returns PreconditionFailedError if expectedVersion is stale; the check
+   * and the write happen in a single atomic step.
    */
   update(
     id: string,
     input: UpdatePostInput,
-  ): Promise<Result<Post, PostRepositoryError>>;
+  ): Promise<Result<Post, PostRepositoryError | PreconditionFailedError>>;
 
   /**
    * Soft delete a post by setting deletedAt.
    * Returns NotFoundError if post does not exist.
    */
   delete(id: string): Promise<Result<void, PostRepositoryError>>;
+
+  /**
+   * Undo a soft delete by clearing deletedAt and increment the version.
+   * Returns NotFoundError if no soft-deleted post has this id.
+   */
+  restore(id: string): Promise<Result<Post, PostRepositoryError>>;
+
+  /**
+   * Hard delete posts soft-deleted before the cutoff, together with the
+   * rows that belong to them (revisions, tags, comments, reactions).
+   * Resolves to the number of posts removed.
+   */
+  purge(deletedBefore: Date): Promise<Result<number, PostRepositoryError>>;
 }
@@ -0,0 +1,72 @@
+/**
+ * Post Revision Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines the contract for the append-only edit history of posts.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+
+/**
+ * Post revision shape (for repository operations).
+ * A revision preserves a post's title and content as they were before an
+ * edit replaced them. Revisions are never changed once stored.
+ */
+export interface PostRevision {
+  readonly id: string;
+  readonly postId: string;
+  /** The post version whose title and content this revision preserves */
+  readonly revision: number;
+  readonly title: string;
+  readonly content: string;
+  /** Who made the edit; null once their account is removed */
+  readonly editorId: string | null;
+  /** When the edit was made */
+  readonly createdAt: Date;
+}
+
+/**
+ * Input for storing a revision.
+ */
+export interface CreatePostRevisionInput {
+  readonly postId: string;
+  readonly revision: number;
+  readonly title: string;
+  readonly content: string;
+  readonly editorId: string;
+}
+
+/**
+ * Repository error types.
+ */
+export type PostRevisionRepositoryError = UnexpectedError;
+
+/**
+ * Post Revision Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface PostRevisionRepository {
+  /**
+   * Store a revision.
+   */
+  create(
+    input: CreatePostRevisionInput,
+  ): Promise<Result<PostRevision, PostRevisionRepositoryError>>;
+
+  /**
+   * List a post's revisions, newest first.
+   */
+  findAllByPostId(
+    postId: string,
+  ): Promise<Result<readonly PostRevision[], PostRevisionRepositoryError>>;
+
+  /**
+   * Find a post's revision by number.
+   * Returns null if not found (not an error).
+   */
+  findByRevision(
+    postId: string,
+    revision: number,
+  ): Promise<Result<PostRevision | null, PostRevisionRepositoryError>>;
+}
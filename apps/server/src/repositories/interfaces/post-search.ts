@@ -0,0 +1,65 @@
+/**
+ * Post Search interface (Domain Port-like contract kept in repositories layer).
+ * Defines the contract for ranked full-text search over posts.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+import type { Post } from "./post-repository";
+
+/**
+ * Marker wrapped around matched terms in snippets.
+ * Snippet text is HTML-escaped, so the markers are the only markup.
+ */
+export const SNIPPET_HIGHLIGHT = { start: "<mark>", stop: "</mark>" } as const;
+
+/**
+ * Options for searching posts.
+ * Results are ranked, so pages are selected by offset.
+ */
+export interface SearchPostsOptions {
+  /** Free-text query; all terms must match */
+  readonly query: string;
+  readonly limit: number;
+  readonly offset: number;
+}
+
+/**
+ * A matching post with its relevance and a highlighted excerpt.
+ */
+export interface PostSearchHit {
+  readonly post: Post;
+  /** Relevance score; higher is better. Only comparable within one backend */
+  readonly rank: number;
+  /** HTML-escaped excerpt with matched terms wrapped in SNIPPET_HIGHLIGHT */
+  readonly snippet: string;
+}
+
+/**
+ * Result of a search with pagination info.
+ */
+export interface SearchPostsResult {
+  readonly hits: readonly PostSearchHit[];
+  readonly total: number;
+}
+
+/**
+ * Search error types.
+ */
+export type PostSearchError = UnexpectedError;
+
+/**
+ * Post Search interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface PostSearch {
+  /**
+   * Find posts matching the query, best match first (ties by id).
+   * Only published posts are searched; soft-deleted ones are excluded.
+   */
+  search(
+    options: SearchPostsOptions,
+  ): Promise<Result<SearchPostsResult, PostSearchError>>;
+}
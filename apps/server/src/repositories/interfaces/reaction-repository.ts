@@ -0,0 +1,54 @@
+/**
+ * Reaction Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines data access for post reactions.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+import type { PostReactions, ReactionKind } from "../../domain/reaction";
+
+/**
+ * A user's reaction of one kind to a post.
+ */
+export interface ReactionInput {
+  readonly postId: string;
+  readonly userId: string;
+  readonly kind: ReactionKind;
+}
+
+/**
+ * Repository error types.
+ */
+export type ReactionRepositoryError = UnexpectedError;
+
+/**
+ * Reaction Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface ReactionRepository {
+  /**
+   * Add a reaction. Adding one the user already holds changes nothing.
+   */
+  add(input: ReactionInput): Promise<Result<void, ReactionRepositoryError>>;
+
+  /**
+   * Remove a reaction. Removing one the user does not hold changes nothing.
+   */
+  remove(input: ReactionInput): Promise<Result<void, ReactionRepositoryError>>;
+
+  /**
+   * Aggregate the reactions on several posts.
+   * Every requested post is in the map, with zero counts if unreacted.
+   *
+   * @param postIds - Posts to aggregate
+   * @param viewerId - Whose own reactions to report, if anyone's
+   */
+  summarize(
+    postIds: readonly string[],
+    viewerId?: string,
+  ): Promise<
+    Result<ReadonlyMap<string, PostReactions>, ReactionRepositoryError>
+  >;
+}
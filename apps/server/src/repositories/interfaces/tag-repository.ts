@@ -0,0 +1,44 @@
+/**
+ * Tag Repository interface (Domain Port-like contract kept in repositories layer).
+ * Defines the read side of post tags; tags are assigned through PostRepository.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+
+/**
+ * A tag with the number of posts using it.
+ */
+export interface TagUsage {
+  readonly name: string;
+  /** Published, non-deleted posts carrying the tag */
+  readonly count: number;
+}
+
+/**
+ * Options for listing tag usage.
+ */
+export interface FindTagUsageOptions {
+  readonly limit: number;
+}
+
+/**
+ * Repository error types.
+ */
+export type TagRepositoryError = UnexpectedError;
+
+/**
+ * Tag Repository interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface TagRepository {
+  /**
+   * List tags by usage, most used first (ties by name).
+   * Tags without published posts are left out.
+   */
+  findUsage(
+    options: FindTagUsageOptions,
+  ): Promise<Result<readonly TagUsage[], TagRepositoryError>>;
+}
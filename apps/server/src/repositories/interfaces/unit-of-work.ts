@@ -0,0 +1,48 @@
+/**
+ * Unit of Work port.
+ * Runs several repository calls as one atomic operation.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+import type { CredentialRepository } from "./credential-repository";
+import type { EmailVerificationTokenRepository } from "./email-verification-token-repository";
+import type { JobRepository } from "./job-repository";
+import type { PersonalAccessTokenRepository } from "./personal-access-token-repository";
+import type { PostRepository } from "./post-repository";
+import type { PostRevisionRepository } from "./post-revision-repository";
+import type { UserRepository } from "./user-repository";
+
+/**
+ * Repositories scoped to a single unit of work.
+ * Writes made through them are committed or rolled back together.
+ */
+export interface TransactionalRepositories {
+  readonly userRepository: UserRepository;
+  readonly postRepository: PostRepository;
+  readonly postRevisionRepository: PostRevisionRepository;
+  readonly credentialRepository: CredentialRepository;
+  readonly emailVerificationTokenRepository: EmailVerificationTokenRepository;
+  readonly personalAccessTokenRepository: PersonalAccessTokenRepository;
+  readonly jobRepository: JobRepository;
+}
+
+/**
+ * Unit of work errors (the transaction itself failed).
+ */
+export type UnitOfWorkError = UnexpectedError;
+
+/**
+ * Unit of Work interface.
+ */
+export interface UnitOfWork {
+  /**
+   * Run work atomically against transaction-scoped repositories.
+   * Commits when the work returns Ok; rolls back when it returns Err or
+   * throws. A thrown error is reported as an UnexpectedError.
+   */
+  run<T, E>(
+    work: (repositories: TransactionalRepositories) => Promise<Result<T, E>>,
+  ): Promise<Result<T, E | UnitOfWorkError>>;
+}
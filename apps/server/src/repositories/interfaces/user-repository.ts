@@ -9,8 +9,11 @@ import type { Result } from "neverthrow";
 import type {
   ConflictError,
   NotFoundError,
+  PreconditionFailedError,
   UnexpectedError,
 } from "../../domain/errors";
+import type { Role } from "../../domain/permissions";
+import type { PageOptions, PageResult } from "./pagination";
 
 /**
  * User entity shape (for repository operations).
@@ -20,10 +23,13 @@ export interface User {
   readonly name: string;
   readonly email: string;
   readonly emailVerified: Date | null;
+  readonly role: Role;
   readonly image: string | null;
   readonly createdAt: Date;
   readonly updatedAt: Date;
   readonly deletedAt: Date | null;
+  /** Starts at 1 and increases with every update */
+  readonly version: number;
 }
 
 /**
@@ -33,6 +39,8 @@ export interface CreateUserInput {
   readonly name: string;
   readonly email: string;
   readonly image?: string | null;
+  /** Defaults to "user" */
+  readonly role?: Role;
 }
 
 /**
@@ -43,22 +51,38 @@ export interface UpdateUserInput {
   readonly name?: string;
   readonly email?: string;
   readonly image?: string | null;
+  readonly role?: Role;
+  /** Set when the address is verified; reset to null when it changes */
+  readonly emailVerified?: Date | null;
+  /** Apply the update only if the stored version still equals this one */
+  readonly expectedVersion?: number;
 }
 
+/**
+ * Fields users can be sorted by.
+ */
+export type UserSortField = "createdAt" | "updatedAt" | "name";
+
 /**
  * Options for listing users.
+ * All filters are optional and combined with AND.
  */
-export interface FindAllUsersOptions {
-  readonly limit: number;
-  readonly offset: number;
+export interface FindAllUsersOptions extends PageOptions<UserSortField> {
+  /** Only users created strictly after this instant */
+  readonly createdAfter?: Date;
+  /** Only users created strictly before this instant */
+  readonly createdBefore?: Date;
+  /** Case-insensitive substring match on the name */
+  readonly nameContains?: string;
+  /** Exact email match */
+  readonly email?: string;
 }
 
 /**
  * Result of listing users with pagination info.
  */
-export interface FindAllUsersResult {
+export interface FindAllUsersResult extends PageResult {
   readonly users: readonly User[];
-  readonly total: number;
 }
 
 /**
@@ -80,6 +104,14 @@ export interface UserRepository {
    */
   findById(id: string): Promise<Result<User | null, UserRepositoryError>>;
 
+  /**
+   * Find user by ID, soft-deleted or not.
+   * Returns null if not found (not an error).
+   */
+  findByIdIncludingDeleted(
+    id: string,
+  ): Promise<Result<User | null, UserRepositoryError>>;
+
   /**
    * Find user by email.
    * Returns null if not found (not an error).
@@ -87,8 +119,10 @@ export interface UserRepository {
   findByEmail(email: string): Promise<Result<User | null, UserRepositoryError>>;
 
   /**
-   * Find all users with pagination.
+   * Find all users with offset or cursor pagination.
+   * Ordered by the requested sort, then id; (createdAt, id) by default.
    * Excludes soft-deleted users.
+   * Optionally filter by creation time, name and email.
    */
   findAll(
     options: FindAllUsersOptions,
@@ -101,18 +135,35 @@ export interface UserRepository {
   create(input: CreateUserInput): Promise<Result<User, UserRepositoryError>>;
 
   /**
-   * Update an existing user.
+   * Update an existing user and increment its version.
    * Returns NotFoundError if user does not exist.
    * Returns ConflictError if email already exists.
+   * Returns PreconditionFailedError if expectedVersion is stale; the check
+   * and the write happen in a single atomic step.
    */
   update(
     id: string,
     input: UpdateUserInput,
-  ): Promise<Result<User, UserRepositoryError>>;
+  ): Promise<Result<User, UserRepositoryError | PreconditionFailedError>>;
 
   /**
    * Soft delete a user by setting deletedAt.
    * Returns NotFoundError if user does not exist.
    */
   delete(id: string): Promise<Result<void, UserRepositoryError>>;
+
+  /**
+   * Undo a soft delete by clearing deletedAt and increment the version.
+   * Returns NotFoundError if no soft-deleted user has this id.
+   * Returns ConflictError if an active user has taken the email since.
+   */
+  restore(id: string): Promise<Result<User, UserRepositoryError>>;
+
+  /**
+   * Hard delete users soft-deleted before the cutoff, together with the
+   * rows that belong to them (posts, credentials, tokens, follows).
+   * Their comments are redacted instead, so other users' replies stay.
+   * Resolves to the number of users removed.
+   */
+  purge(deletedBefore: Date): Promise<Result<number, UserRepositoryError>>;
 }
@@ -0,0 +1,69 @@
+/**
+ * User Statistics Query interface (Domain Port-like contract kept in repositories layer).
+ * Defines read-only aggregates over users and posts, computed where the
+ * data lives instead of by loading rows.
+ * Implementations are in repositories/postgres, repositories/memory, etc.
+ */
+
+import type { Result } from "neverthrow";
+
+import type { UnexpectedError } from "../../domain/errors";
+
+/**
+ * Aggregates over one author's posts, soft-deleted ones included.
+ */
+export interface AuthorPostAggregates {
+  readonly totalPosts: number;
+  readonly activePosts: number;
+  readonly deletedPosts: number;
+  /** Mean content length in characters of active posts; 0 without any */
+  readonly averagePostLength: number;
+  /** Earliest createdAt of any post, deleted or not */
+  readonly firstPostDate: Date | null;
+  /** Latest createdAt of any post, deleted or not */
+  readonly lastPostDate: Date | null;
+}
+
+/**
+ * Options for aggregating an author's posts.
+ */
+export interface AggregateAuthorPostsOptions {
+  /** Only aggregate published posts, soft-deleted ones still included */
+  readonly publishedOnly?: boolean;
+}
+
+/**
+ * Site-wide counts, soft-deleted rows included.
+ */
+export interface SiteAggregates {
+  readonly totalUsers: number;
+  readonly activeUsers: number;
+  readonly deletedUsers: number;
+  readonly totalPosts: number;
+  readonly activePosts: number;
+  readonly deletedPosts: number;
+}
+
+/**
+ * Query error types.
+ */
+export type UserStatisticsQueryError = UnexpectedError;
+
+/**
+ * User Statistics Query interface.
+ * All methods return Result for consistent error handling.
+ */
+export interface UserStatisticsQuery {
+  /**
+   * Aggregate every post by an author. Unknown authors get all zeros.
+   */
+  aggregateAuthorPosts(
+    authorId: string,
+    options?: AggregateAuthorPostsOptions,
+  ): Promise<Result<AuthorPostAggregates, UserStatisticsQueryError>>;
+
+  /**
+   * Count users and posts across the site.
+   */
+  aggregateSite(): Promise<Result<SiteAggregates, UserStatisticsQueryError>>;
+}
@@ -0,0 +1,80 @@
+/**
+ * Cascading purges for in-memory stores.
+ * Stands in for ON DELETE CASCADE: stores holding rows that belong to users
+ * or posts drop them when those users or posts are purged.
+ */
+
+/**
+ * Ids of hard-deleted users and posts.
+ */
+export interface PurgedOwners {
+  readonly userIds: ReadonlySet<string>;
+  readonly postIds: ReadonlySet<string>;
+}
+
+/**
+ * Drops a store's rows that belong to purged owners.
+ */
+export type CascadeListener = (purged: PurgedOwners) => void;
+
+/**
+ * Connects the stores that purge users and posts with the stores holding
+ * their rows. Share one cascade between the repositories of a backend.
+ */
+export interface InMemoryCascade {
+  /** Register a store's listener */
+  onPurge(listener: CascadeListener): void;
+  /** Tell every registered store that owners were purged */
+  purge(purged: Partial<PurgedOwners>): void;
+}
+
+/**
+ * Create a cascade.
+ *
+ * @returns InMemoryCascade with no listeners
+ */
+export const createInMemoryCascade = (): InMemoryCascade => {
+  const listeners: CascadeListener[] = [];
+
+  return {
+    onPurge(listener) {
+      listeners.push(listener);
+    },
+
+    purge(purged) {
+      const owners: PurgedOwners = {
+        userIds: purged.userIds ?? new Set(),
+        postIds: purged.postIds ?? new Set(),
+      };
+
+      if (owners.userIds.size === 0 && owners.postIds.size === 0) return;
+
+      for (const listener of listeners) {
+        listener(owners);
+      }
+    },
+  };
+};
+
+/**
+ * Delete a Map's entries whose value matches.
+ *
+ * @param map - Map backing a repository
+ * @param matches - Selects the entries to delete
+ * @returns The deleted values
+ */
+export const deleteWhere = <K, V>(
+  map: Map<K, V>,
+  matches: (value: V) => boolean,
+): V[] => {
+  const deleted: V[] = [];
+
+  for (const [key, value] of map) {
+    if (matches(value)) {
+      map.delete(key);
+      deleted.push(value);
+    }
+  }
+
+  return deleted;
+};
@@ -0,0 +1,37 @@
+/**
+ * Checkpoint support for in-memory stores.
+ * Lets the in-memory unit of work roll repositories back on failure.
+ */
+
+/**
+ * Restores a store to the state captured by its checkpoint.
+ */
+export type Rollback = () => void;
+
+/**
+ * In-memory store whose state can be captured and restored.
+ */
+export interface Checkpointable {
+  /** Capture current state; the returned function restores it */
+  checkpoint(): Rollback;
+}
+
+/**
+ * Capture a Map's entries.
+ * Stored entities are replaced rather than mutated, so a shallow copy is
+ * enough to restore them.
+ *
+ * @param map - Map backing a repository
+ * @returns Function restoring the captured entries
+ */
+export const checkpointMap = <K, V>(map: Map<K, V>): Rollback => {
+  const saved = new Map(map);
+
+  return () => {
+    map.clear();
+
+    for (const [key, value] of saved) {
+      map.set(key, value);
+    }
+  };
+};
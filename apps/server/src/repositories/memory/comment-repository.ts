@@ -0,0 +1,149 @@
+/**
+ * In-Memory Comment Repository implementation.
+ * Used for testing without database dependencies.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { notFoundError } from "../../domain/errors";
+import type {
+  Comment,
+  CommentRepository,
+  CommentRepositoryError,
+  CreateCommentInput,
+  FindCommentThreadsOptions,
+  FindCommentThreadsResult,
+  UpdateCommentInput,
+} from "../interfaces/comment-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+
+/**
+ * Oldest first. The sort is stable and the Map keeps insertion order, so
+ * ties fall in insertion order like the SQL adapters' sequence tiebreak.
+ */
+const byCreatedAt = (a: Comment, b: Comment): number =>
+  a.createdAt.getTime() - b.createdAt.getTime();
+
+/**
+ * Create an in-memory Comment Repository.
+ * Data is stored in a Map and cleared when the repository is recreated.
+ *
+ * @param cascade - Drops rows that belong to purged users and posts
+ * @returns CommentRepository implementation
+ */
+export const createInMemoryCommentRepository = (
+  cascade?: InMemoryCascade,
+): CommentRepository & {
+  clear: () => void;
+} => {
+  const comments = new Map<string, Comment>();
+
+  cascade?.onPurge(({ userIds, postIds }) => {
+    // Replies are on the same post, so they go with it
+    deleteWhere(comments, (comment) => postIds.has(comment.postId));
+
+    // Purged authors' comments stay in their threads, redacted
+    const now = new Date();
+    for (const comment of comments.values()) {
+      if (comment.authorId !== null && userIds.has(comment.authorId)) {
+        comments.set(comment.id, {
+          ...comment,
+          authorId: null,
+          content: "",
+          deletedAt: comment.deletedAt ?? now,
+        });
+      }
+    }
+  });
+
+  return {
+    async findById(
+      id: string,
+    ): Promise<Result<Comment | null, CommentRepositoryError>> {
+      const comment = comments.get(id);
+
+      return ok(comment && !comment.deletedAt ? comment : null);
+    },
+
+    async findThreadsByPostId(
+      postId: string,
+      options: FindCommentThreadsOptions,
+    ): Promise<Result<FindCommentThreadsResult, CommentRepositoryError>> {
+      const onPost = Array.from(comments.values())
+        .filter((comment) => comment.postId === postId)
+        .sort(byCreatedAt);
+      const topLevel = onPost.filter((comment) => comment.parentId === null);
+
+      return ok({
+        threads: topLevel
+          .slice(options.offset, options.offset + options.limit)
+          .map((comment) => ({
+            comment,
+            replies: onPost.filter((reply) => reply.parentId === comment.id),
+          })),
+        total: topLevel.length,
+      });
+    },
+
+    async create(
+      input: CreateCommentInput,
+    ): Promise<Result<Comment, CommentRepositoryError>> {
+      const now = new Date();
+      const comment: Comment = {
+        id: crypto.randomUUID(),
+        postId: input.postId,
+        parentId: input.parentId ?? null,
+        authorId: input.authorId,
+        content: input.content,
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+      };
+
+      comments.set(comment.id, comment);
+
+      return ok(comment);
+    },
+
+    async update(
+      id: string,
+      input: UpdateCommentInput,
+    ): Promise<Result<Comment, CommentRepositoryError>> {
+      const existing = comments.get(id);
+
+      if (!existing || existing.deletedAt) {
+        return err(notFoundError("Comment", id));
+      }
+
+      const updated: Comment = {
+        ...existing,
+        content: input.content,
+        updatedAt: new Date(),
+      };
+
+      comments.set(id, updated);
+
+      return ok(updated);
+    },
+
+    async delete(id: string): Promise<Result<void, CommentRepositoryError>> {
+      const existing = comments.get(id);
+
+      if (!existing || existing.deletedAt) {
+        return err(notFoundError("Comment", id));
+      }
+
+      comments.set(id, { ...existing, deletedAt: new Date() });
+
+      return ok(undefined);
+    },
+
+    /**
+     * Clear all comments from the repository.
+     * Useful for test cleanup.
+     */
+    clear(): void {
+      comments.clear();
+    },
+  };
+};
@@ -0,0 +1,105 @@
+/**
+ * In-Memory Credential Repository implementation.
+ * Used for testing without database dependencies.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { conflictError, notFoundError } from "../../domain/errors";
+import type {
+  CreateCredentialInput,
+  Credential,
+  CredentialRepository,
+  CredentialRepositoryError,
+} from "../interfaces/credential-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+import { type Rollback, checkpointMap } from "./checkpoint";
+
+/**
+ * Create an in-memory Credential Repository.
+ * Data is stored in a Map keyed by userId and cleared when the repository is recreated.
+ *
+ * @param cascade - Drops rows that belong to purged users
+ * @returns CredentialRepository implementation
+ */
+export const createInMemoryCredentialRepository = (
+  cascade?: InMemoryCascade,
+): CredentialRepository & {
+  clear: () => void;
+  checkpoint: () => Rollback;
+} => {
+  const credentials = new Map<string, Credential>();
+
+  cascade?.onPurge(({ userIds }) => {
+    deleteWhere(credentials, (credential) => userIds.has(credential.userId));
+  });
+
+  return {
+    async findByUserId(
+      userId: string,
+    ): Promise<Result<Credential | null, CredentialRepositoryError>> {
+      return ok(credentials.get(userId) ?? null);
+    },
+
+    async create(
+      input: CreateCredentialInput,
+    ): Promise<Result<Credential, CredentialRepositoryError>> {
+      if (credentials.has(input.userId)) {
+        return err(
+          conflictError(
+            `Credential for user '${input.userId}' already exists`,
+            { resource: "Credential", conflictReason: "duplicate_credential" },
+          ),
+        );
+      }
+
+      const now = new Date();
+      const credential: Credential = {
+        userId: input.userId,
+        passwordHash: input.passwordHash,
+        sessionVersion: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      credentials.set(input.userId, credential);
+
+      return ok(credential);
+    },
+
+    async incrementSessionVersion(
+      userId: string,
+    ): Promise<Result<Credential, CredentialRepositoryError>> {
+      const existing = credentials.get(userId);
+
+      if (!existing) {
+        return err(notFoundError("Credential", userId));
+      }
+
+      const updated: Credential = {
+        ...existing,
+        sessionVersion: existing.sessionVersion + 1,
+        updatedAt: new Date(),
+      };
+
+      credentials.set(userId, updated);
+
+      return ok(updated);
+    },
+
+    /**
+     * Clear all credentials from the repository.
+     * Useful for test cleanup.
+     */
+    clear(): void {
+      credentials.clear();
+    },
+
+    /**
+     * Capture current state so a unit of work can roll it back.
+     */
+    checkpoint(): Rollback {
+      return checkpointMap(credentials);
+    },
+  };
+};
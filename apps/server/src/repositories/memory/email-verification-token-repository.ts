@@ -0,0 +1,101 @@
+/**
+ * In-Memory Email Verification Token Repository implementation.
+ * Used for testing without database dependencies.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import type {
+  CreateEmailVerificationTokenInput,
+  EmailVerificationToken,
+  EmailVerificationTokenRepository,
+  EmailVerificationTokenRepositoryError,
+} from "../interfaces/email-verification-token-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+import { type Rollback, checkpointMap } from "./checkpoint";
+
+/**
+ * Create an in-memory Email Verification Token Repository.
+ * Data is stored in a Map keyed by token hash and cleared when the repository is recreated.
+ *
+ * @param cascade - Drops rows that belong to purged users
+ * @returns EmailVerificationTokenRepository implementation
+ */
+export const createInMemoryEmailVerificationTokenRepository = (
+  cascade?: InMemoryCascade,
+): EmailVerificationTokenRepository & {
+  clear: () => void;
+  checkpoint: () => Rollback;
+} => {
+  const tokens = new Map<string, EmailVerificationToken>();
+
+  cascade?.onPurge(({ userIds }) => {
+    deleteWhere(tokens, (token) => userIds.has(token.userId));
+  });
+
+  return {
+    async create(
+      input: CreateEmailVerificationTokenInput,
+    ): Promise<
+      Result<EmailVerificationToken, EmailVerificationTokenRepositoryError>
+    > {
+      const token: EmailVerificationToken = {
+        id: crypto.randomUUID(),
+        userId: input.userId,
+        email: input.email,
+        tokenHash: input.tokenHash,
+        expiresAt: input.expiresAt,
+        consumedAt: null,
+        createdAt: new Date(),
+      };
+
+      tokens.set(input.tokenHash, token);
+
+      return ok(token);
+    },
+
+    async consume(
+      tokenHash: string,
+      now: Date,
+    ): Promise<
+      Result<
+        EmailVerificationToken | null,
+        EmailVerificationTokenRepositoryError
+      >
+    > {
+      const existing = tokens.get(tokenHash);
+
+      if (
+        !existing ||
+        existing.consumedAt !== null ||
+        existing.expiresAt.getTime() <= now.getTime()
+      ) {
+        return ok(null);
+      }
+
+      const consumed: EmailVerificationToken = {
+        ...existing,
+        consumedAt: now,
+      };
+
+      tokens.set(tokenHash, consumed);
+
+      return ok(consumed);
+    },
+
+    /**
+     * Clear all tokens from the repository.
+     * Useful for test cleanup.
+     */
+    clear(): void {
+      tokens.clear();
+    },
+
+    /**
+     * Capture current state so a unit of work can roll it back.
+     */
+    checkpoint(): Rollback {
+      return checkpointMap(tokens);
+    },
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * In-Memory Follow Repository implementation.
+ * Joins follows with the users and posts of other in-memory adapters,
+ * ordering rows exactly like the SQL adapters.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import type {
+  FindFeedOptions,
+  FindFeedResult,
+  FindFollowsOptions,
+  FindFollowsResult,
+  FollowRepository,
+  FollowRepositoryError,
+} from "../interfaces/follow-repository";
+import type { Post } from "../interfaces/post-repository";
+import type { User } from "../interfaces/user-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+
+/**
+ * A follow edge.
+ */
+interface Follow {
+  readonly followerId: string;
+  readonly followeeId: string;
+  readonly createdAt: Date;
+}
+
+/**
+ * Compare ids by code unit (like COLLATE "C").
+ */
+const compareIds = (a: string, b: string): number =>
+  a < b ? -1
+  : a > b ? 1
+  : 0;
+
+/**
+ * Feed order: most recently published first, ties by id descending.
+ * Feed posts are published, so publishedAt is set.
+ */
+const newestFirst = (
+  a: Pick<Post, "id" | "publishedAt">,
+  b: Pick<Post, "id" | "publishedAt">,
+): number =>
+  (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0) ||
+  compareIds(b.id, a.id);
+
+/**
+ * Create an in-memory Follow Repository over user and post sources.
+ *
+ * @param sources - Provide the current users and posts (e.g. the in-memory repositories)
+ * @returns FollowRepository implementation
+ */
+export const createInMemoryFollowRepository = (sources: {
+  users: { snapshot: () => readonly User[] };
+  posts: { snapshot: () => readonly Post[] };
+  /** Drops follows of purged users */
+  cascade?: InMemoryCascade;
+}): FollowRepository & { clear: () => void } => {
+  const follows = new Map<string, Follow>();
+
+  sources.cascade?.onPurge(({ userIds }) => {
+    deleteWhere(
+      follows,
+      (follow) =>
+        userIds.has(follow.followerId) || userIds.has(follow.followeeId),
+    );
+  });
+
+  const followKey = (followerId: string, followeeId: string): string =>
+    JSON.stringify([followerId, followeeId]);
+
+  /**
+   * Page through the active users on one side of the given follows.
+   */
+  const listUsers = (
+    edges: readonly Follow[],
+    userIdOf: (follow: Follow) => string,
+    options: FindFollowsOptions,
+  ): FindFollowsResult => {
+    const activeUsers = new Map(
+      sources.users
+        .snapshot()
+        .filter((user) => !user.deletedAt)
+        .map((user) => [user.id, user]),
+    );
+
+    const entries = edges
+      .flatMap((follow) => {
+        const user = activeUsers.get(userIdOf(follow));
+        return user ? [{ user, followedAt: follow.createdAt }] : [];
+      })
+      .sort(
+        (a, b) =>
+          b.followedAt.getTime() - a.followedAt.getTime() ||
+          compareIds(a.user.id, b.user.id),
+      );
+
+    return {
+      entries: entries.slice(options.offset, options.offset + options.limit),
+      total: entries.length,
+    };
+  };
+
+  return {
+    async follow(
+      followerId: string,
+      followeeId: string,
+    ): Promise<Result<void, FollowRepositoryError>> {
+      const key = followKey(followerId, followeeId);
+
+      if (!follows.has(key)) {
+        follows.set(key, { followerId, followeeId, createdAt: new Date() });
+      }
+
+      return ok(undefined);
+    },
+
+    async unfollow(
+      followerId: string,
+      followeeId: string,
+    ): Promise<Result<void, FollowRepositoryError>> {
+      follows.delete(followKey(followerId, followeeId));
+
+      return ok(undefined);
+    },
+
+    async findFollowers(
+      userId: string,
+      options: FindFollowsOptions,
+    ): Promise<Result<FindFollowsResult, FollowRepositoryError>> {
+      const edges = Array.from(follows.values()).filter(
+        (follow) => follow.followeeId === userId,
+      );
+
+      return ok(listUsers(edges, (follow) => follow.followerId, options));
+    },
+
+    async findFollowing(
+      userId: string,
+      options: FindFollowsOptions,
+    ): Promise<Result<FindFollowsResult, FollowRepositoryError>> {
+      const edges = Array.from(follows.values()).filter(
+        (follow) => follow.followerId === userId,
+      );
+
+      return ok(listUsers(edges, (follow) => follow.followeeId, options));
+    },
+
+    async findFeed(
+      followerId: string,
+      options: FindFeedOptions,
+    ): Promise<Result<FindFeedResult, FollowRepositoryError>> {
+      const followed = new Set(
+        Array.from(follows.values())
+          .filter((follow) => follow.followerId === followerId)
+          .map((follow) => follow.followeeId),
+      );
+
+      const feed = sources.posts
+        .snapshot()
+        .filter(
+          (post) =>
+            followed.has(post.authorId) &&
+            post.status === "published" &&
+            !post.deletedAt,
+        )
+        .sort(newestFirst);
+
+      const { cursor, limit } = options;
+
+      if (!cursor) {
+        return ok({
+          posts: feed.slice(0, limit),
+          hasMore: feed.length > limit,
+        });
+      }
+
+      const position = {
+        id: cursor.id,
+        publishedAt: new Date(cursor.values[0] ?? ""),
+      };
+
+      if (cursor.direction === "next") {
+        const after = feed.filter((post) => newestFirst(post, position) > 0);
+
+        return ok({
+          posts: after.slice(0, limit),
+          hasMore: after.length > limit,
+        });
+      }
+
+      const before = feed.filter((post) => newestFirst(post, position) < 0);
+
+      return ok({
+        posts: before.slice(Math.max(0, before.length - limit)),
+        hasMore: before.length > limit,
+      });
+    },
+
+    clear() {
+      follows.clear();
+    },
+  };
+};
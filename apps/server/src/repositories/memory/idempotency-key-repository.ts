@@ -0,0 +1,101 @@
+/**
+ * In-Memory Idempotency Key Repository implementation.
+ * Used for testing without database dependencies.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import type {
+  IdempotencyKeyRepository,
+  IdempotencyKeyRepositoryError,
+  IdempotencyRecord,
+  ReserveIdempotencyKeyInput,
+  StoredResponse,
+} from "../interfaces/idempotency-key-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+
+/**
+ * Map key for a (userId, key) pair.
+ */
+const recordKey = (userId: string, key: string): string =>
+  JSON.stringify([userId, key]);
+
+/**
+ * Create an in-memory Idempotency Key Repository.
+ * Data is stored in a Map and cleared when the repository is recreated.
+ *
+ * @param cascade - Drops rows that belong to purged users
+ * @returns IdempotencyKeyRepository implementation
+ */
+export const createInMemoryIdempotencyKeyRepository = (
+  cascade?: InMemoryCascade,
+): IdempotencyKeyRepository & { clear: () => void } => {
+  const records = new Map<string, IdempotencyRecord>();
+
+  cascade?.onPurge(({ userIds }) => {
+    deleteWhere(records, (record) => userIds.has(record.userId));
+  });
+
+  return {
+    async reserve(
+      input: ReserveIdempotencyKeyInput,
+      now: Date,
+    ): Promise<
+      Result<IdempotencyRecord | null, IdempotencyKeyRepositoryError>
+    > {
+      const id = recordKey(input.userId, input.key);
+      const existing = records.get(id);
+
+      if (existing && existing.expiresAt.getTime() > now.getTime()) {
+        return ok(existing);
+      }
+
+      records.set(id, {
+        userId: input.userId,
+        key: input.key,
+        fingerprint: input.fingerprint,
+        response: null,
+        createdAt: now,
+        expiresAt: input.expiresAt,
+      });
+
+      return ok(null);
+    },
+
+    async complete(
+      userId: string,
+      key: string,
+      response: StoredResponse,
+    ): Promise<Result<void, IdempotencyKeyRepositoryError>> {
+      const id = recordKey(userId, key);
+      const existing = records.get(id);
+
+      if (existing) {
+        records.set(id, { ...existing, response });
+      }
+
+      return ok(undefined);
+    },
+
+    async release(
+      userId: string,
+      key: string,
+    ): Promise<Result<void, IdempotencyKeyRepositoryError>> {
+      const id = recordKey(userId, key);
+
+      if (records.get(id)?.response === null) {
+        records.delete(id);
+      }
+
+      return ok(undefined);
+    },
+
+    /**
+     * Clear all keys from the repository.
+     * Useful for test cleanup.
+     */
+    clear(): void {
+      records.clear();
+    },
+  };
+};
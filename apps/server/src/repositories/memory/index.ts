@@ -5,3 +5,18 @@
 
 export { createInMemoryUserRepository } from "./user-repository";
 export { createInMemoryPostRepository } from "./post-repository";
+export { createInMemoryPostRevisionRepository } from "./post-revision-repository";
+export { createInMemoryCommentRepository } from "./comment-repository";
+export { createInMemoryFollowRepository } from "./follow-repository";
+export { createInMemoryReactionRepository } from "./reaction-repository";
+export { createInMemoryCredentialRepository } from "./credential-repository";
+export { createInMemoryEmailVerificationTokenRepository } from "./email-verification-token-repository";
+export { createInMemoryPersonalAccessTokenRepository } from "./personal-access-token-repository";
+export { createInMemoryIdempotencyKeyRepository } from "./idempotency-key-repository";
+export { createInMemoryJobRepository } from "./job-repository";
+export { createInMemoryPostSearch } from "./post-search";
+export { createInMemoryTagRepository } from "./tag-repository";
+export { createInMemoryUnitOfWork } from "./unit-of-work";
+export { createInMemoryCascade } from "./cascade";
+export type { InMemoryCascade } from "./cascade";
+export { createInMemoryUserStatisticsQuery } from "./user-statistics-query";
@@ -0,0 +1,168 @@
+/**
+ * In-Memory Job Repository implementation.
+ * Used for testing and the memory backend's in-process scheduler.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import type {
+  ClaimJobsOptions,
+  EnqueueJobInput,
+  Job,
+  JobRepository,
+  JobRepositoryError,
+} from "../interfaces/job-repository";
+import { deleteWhere } from "./cascade";
+import { type Rollback, checkpointMap } from "./checkpoint";
+
+/**
+ * Attempts allowed unless the job says otherwise.
+ */
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Create an in-memory Job Repository.
+ * Data is stored in a Map and cleared when the repository is recreated.
+ * Claims are synchronous, so concurrent workers never share a job.
+ *
+ * @returns JobRepository implementation
+ */
+export const createInMemoryJobRepository = (): JobRepository & {
+  clear: () => void;
+  checkpoint: () => Rollback;
+} => {
+  const jobs = new Map<string, Job>();
+
+  /**
+   * Replace a running job with the given changes.
+   */
+  const settle = (id: string, changes: Partial<Job>): void => {
+    const existing = jobs.get(id);
+
+    if (existing?.status === "running") {
+      jobs.set(id, { ...existing, ...changes, updatedAt: new Date() });
+    }
+  };
+
+  return {
+    async findById(
+      id: string,
+    ): Promise<Result<Job | null, JobRepositoryError>> {
+      return ok(jobs.get(id) ?? null);
+    },
+
+    async enqueue(
+      input: EnqueueJobInput,
+    ): Promise<Result<Job, JobRepositoryError>> {
+      const now = new Date();
+      const job: Job = {
+        id: crypto.randomUUID(),
+        type: input.type,
+        payload: input.payload,
+        status: "pending",
+        runAt: input.runAt,
+        attempts: 0,
+        maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        lastError: null,
+        lockedUntil: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      jobs.set(job.id, job);
+
+      return ok(job);
+    },
+
+    async claim(
+      options: ClaimJobsOptions,
+    ): Promise<Result<readonly Job[], JobRepositoryError>> {
+      const now = options.now.getTime();
+
+      const due = Array.from(jobs.values())
+        .filter(
+          (job) =>
+            (job.status === "pending" && job.runAt.getTime() <= now) ||
+            (job.status === "running" &&
+              job.lockedUntil !== null &&
+              job.lockedUntil.getTime() <= now),
+        )
+        .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+        .slice(0, options.limit);
+
+      const claimed = due.map((job) => {
+        const running: Job = {
+          ...job,
+          status: "running",
+          attempts: job.attempts + 1,
+          lockedUntil: options.lockedUntil,
+          updatedAt: options.now,
+        };
+
+        jobs.set(job.id, running);
+
+        return running;
+      });
+
+      return ok(claimed);
+    },
+
+    async complete(id: string): Promise<Result<void, JobRepositoryError>> {
+      settle(id, { status: "completed", lockedUntil: null });
+
+      return ok(undefined);
+    },
+
+    async retry(
+      id: string,
+      runAt: Date,
+      error: string,
+    ): Promise<Result<void, JobRepositoryError>> {
+      settle(id, {
+        status: "pending",
+        runAt,
+        lastError: error,
+        lockedUntil: null,
+      });
+
+      return ok(undefined);
+    },
+
+    async fail(
+      id: string,
+      error: string,
+    ): Promise<Result<void, JobRepositoryError>> {
+      settle(id, { status: "failed", lastError: error, lockedUntil: null });
+
+      return ok(undefined);
+    },
+
+    async purgeSettled(
+      settledBefore: Date,
+    ): Promise<Result<number, JobRepositoryError>> {
+      const purged = deleteWhere(
+        jobs,
+        (job) =>
+          (job.status === "completed" || job.status === "failed") &&
+          job.updatedAt < settledBefore,
+      );
+
+      return ok(purged.length);
+    },
+
+    /**
+     * Clear all jobs from the repository.
+     * Useful for test cleanup.
+     */
+    clear(): void {
+      jobs.clear();
+    },
+
+    /**
+     * Capture current state so a unit of work can roll it back.
+     */
+    checkpoint(): Rollback {
+      return checkpointMap(jobs);
+    },
+  };
+};
@@ -0,0 +1,128 @@
+/**
+ * Sorting and keyset pagination over in-memory rows.
+ * Mirrors the Postgres ordering so both backends return identical pages:
+ * timestamps compare by instant, strings by code unit (like COLLATE "C"),
+ * and `id` breaks ties ascending.
+ */
+
+import {
+  DEFAULT_SORT,
+  type PageCursor,
+  type PageOptions,
+  type PageResult,
+  type SortKey,
+} from "../interfaces/pagination";
+
+/**
+ * Value of a sortable field.
+ */
+type SortValue = string | Date;
+
+/**
+ * Minimal row shape: an id plus the sortable fields.
+ */
+type SortableRow<F extends string> = { readonly id: string } & {
+  readonly [K in F]: SortValue;
+};
+
+/**
+ * Compare two sort values of the same field.
+ */
+const compareValues = (a: SortValue, b: SortValue): number => {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+
+  const left = String(a);
+  const right = String(b);
+
+  return (
+    left < right ? -1
+    : left > right ? 1
+    : 0
+  );
+};
+
+/**
+ * Compare two rows by the sort keys, then by id ascending.
+ */
+const compareRows = <F extends string>(
+  a: SortableRow<F>,
+  b: SortableRow<F>,
+  sort: readonly SortKey<F>[],
+): number => {
+  for (const key of sort) {
+    const order = compareValues(a[key.field], b[key.field]);
+
+    if (order !== 0) return key.direction === "asc" ? order : -order;
+  }
+
+  return compareValues(a.id, b.id);
+};
+
+/**
+ * Compare a row with a cursor position.
+ * Cursor values are strings; timestamps are revived to match the row.
+ */
+const compareToCursor = <F extends string>(
+  row: SortableRow<F>,
+  cursor: PageCursor,
+  sort: readonly SortKey<F>[],
+): number => {
+  const position = { id: cursor.id } as Record<string, SortValue>;
+
+  sort.forEach((key, index) => {
+    const value = cursor.values[index] ?? "";
+    position[key.field] =
+      row[key.field] instanceof Date ? new Date(value) : value;
+  });
+
+  return compareRows(row, position as SortableRow<F>, sort);
+};
+
+/**
+ * Sort rows that already passed the list filters and select one page.
+ *
+ * @param rows - Filtered rows in any order
+ * @param options - Sort plus offset or cursor page selection
+ * @returns Page rows in sort order plus page metadata
+ */
+export const paginate = <F extends string, T extends SortableRow<F>>(
+  rows: readonly T[],
+  options: PageOptions<F>,
+): PageResult & { readonly items: readonly T[] } => {
+  const sort = options.sort ?? (DEFAULT_SORT as readonly SortKey<F>[]);
+  const sorted = [...rows].sort((a, b) => compareRows(a, b, sort));
+  const total = sorted.length;
+  const { cursor, limit } = options;
+
+  if (!cursor) {
+    const offset = options.offset ?? 0;
+
+    return {
+      items: sorted.slice(offset, offset + limit),
+      total,
+      hasMore: offset + limit < total,
+    };
+  }
+
+  if (cursor.direction === "next") {
+    const after = sorted.filter(
+      (row) => compareToCursor(row, cursor, sort) > 0,
+    );
+
+    return {
+      items: after.slice(0, limit),
+      total,
+      hasMore: after.length > limit,
+    };
+  }
+
+  const before = sorted.filter((row) => compareToCursor(row, cursor, sort) < 0);
+
+  return {
+    items: before.slice(Math.max(0, before.length - limit)),
+    total,
+    hasMore: before.length > limit,
+  };
+};
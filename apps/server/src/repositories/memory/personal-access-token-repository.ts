@@ -0,0 +1,151 @@
+/**
+ * In-Memory Personal Access Token Repository implementation.
+ * Used for testing without database dependencies.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { notFoundError } from "../../domain/errors";
+import type {
+  CreatePersonalAccessTokenInput,
+  PersonalAccessToken,
+  PersonalAccessTokenRepository,
+  PersonalAccessTokenRepositoryError,
+} from "../interfaces/personal-access-token-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+import { type Rollback, checkpointMap } from "./checkpoint";
+
+/**
+ * Stored record: the public token shape plus its hash.
+ */
+interface StoredToken extends PersonalAccessToken {
+  readonly tokenHash: string;
+}
+
+/**
+ * Strip the hash from a stored record.
+ */
+const toPersonalAccessToken = ({
+  tokenHash: _tokenHash,
+  ...token
+}: StoredToken): PersonalAccessToken => token;
+
+/**
+ * Create an in-memory Personal Access Token Repository.
+ * Data is stored in a Map and cleared when the repository is recreated.
+ *
+ * @param cascade - Drops rows that belong to purged users
+ * @returns PersonalAccessTokenRepository implementation
+ */
+export const createInMemoryPersonalAccessTokenRepository = (
+  cascade?: InMemoryCascade,
+): PersonalAccessTokenRepository & {
+  clear: () => void;
+  checkpoint: () => Rollback;
+} => {
+  const tokens = new Map<string, StoredToken>();
+
+  cascade?.onPurge(({ userIds }) => {
+    deleteWhere(tokens, (token) => userIds.has(token.userId));
+  });
+
+  return {
+    async create(
+      input: CreatePersonalAccessTokenInput,
+    ): Promise<
+      Result<PersonalAccessToken, PersonalAccessTokenRepositoryError>
+    > {
+      const token: StoredToken = {
+        id: crypto.randomUUID(),
+        userId: input.userId,
+        name: input.name,
+        tokenHash: input.tokenHash,
+        scopes: [...input.scopes],
+        expiresAt: input.expiresAt,
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: new Date(),
+      };
+
+      tokens.set(token.id, token);
+
+      return ok(toPersonalAccessToken(token));
+    },
+
+    async findByTokenHash(
+      tokenHash: string,
+    ): Promise<
+      Result<PersonalAccessToken | null, PersonalAccessTokenRepositoryError>
+    > {
+      for (const token of tokens.values()) {
+        if (token.tokenHash === tokenHash) {
+          return ok(toPersonalAccessToken(token));
+        }
+      }
+
+      return ok(null);
+    },
+
+    async findAllByUserId(
+      userId: string,
+    ): Promise<
+      Result<readonly PersonalAccessToken[], PersonalAccessTokenRepositoryError>
+    > {
+      const owned = Array.from(tokens.values())
+        .filter((token) => token.userId === userId && !token.revokedAt)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(toPersonalAccessToken);
+
+      return ok(owned);
+    },
+
+    async revoke(
+      id: string,
+      userId: string,
+    ): Promise<
+      Result<PersonalAccessToken, PersonalAccessTokenRepositoryError>
+    > {
+      const existing = tokens.get(id);
+
+      if (!existing || existing.userId !== userId || existing.revokedAt) {
+        return err(notFoundError("PersonalAccessToken", id));
+      }
+
+      const revoked: StoredToken = { ...existing, revokedAt: new Date() };
+
+      tokens.set(id, revoked);
+
+      return ok(toPersonalAccessToken(revoked));
+    },
+
+    async touchLastUsed(
+      id: string,
+      usedAt: Date,
+    ): Promise<Result<void, PersonalAccessTokenRepositoryError>> {
+      const existing = tokens.get(id);
+
+      if (!existing) {
+        return err(notFoundError("PersonalAccessToken", id));
+      }
+
+      tokens.set(id, { ...existing, lastUsedAt: usedAt });
+
+      return ok(undefined);
+    },
+
+    /**
+     * Clear all tokens from the repository.
+     * Useful for test cleanup.
+     */
+    clear(): void {
+      tokens.clear();
+    },
+
+    /**
+     * Capture current state so a unit of work can roll it back.
+     */
+    checkpoint(): Rollback {
+      return checkpointMap(tokens);
+    },
+  };
+};
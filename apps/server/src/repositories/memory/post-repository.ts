@@ -5,7 +5,9 @@
 
 import { type Result, err, ok } from "neverthrow";
 
-import { notFoundError } from "../../domain/errors";
+import { notFoundError, preconditionFailedError } from "../../domain/errors";
+import type { PreconditionFailedError } from "../../domain/errors";
+import { DEFAULT_POST_STATUS } from "../../domain/post-status";
 import type {
   CreatePostInput,
   FindAllPostsOptions,
@@ -15,18 +17,44 @@ import type {
   PostRepositoryError,
   UpdatePostInput,
 } from "../interfaces/post-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+import { type Rollback, checkpointMap } from "./checkpoint";
+import { paginate } from "./pagination";
 
 /**
  * Create an in-memory Post Repository.
  * Data is stored in a Map and cleared when the repository is recreated.
+ * `snapshot` exposes every stored post (including soft-deleted ones) to
+ * other in-memory adapters such as search.
+ * With a cascade, purged posts take other adapters' rows with them, and
+ * purged users take their posts.
  *
+ * @param cascade - Shared with the adapters holding rows that belong to posts
  * @returns PostRepository implementation
  */
-export const createInMemoryPostRepository = (): PostRepository & {
+export const createInMemoryPostRepository = (
+  cascade?: InMemoryCascade,
+): PostRepository & {
   clear: () => void;
+  checkpoint: () => Rollback;
+  snapshot: () => readonly Post[];
 } => {
   const posts = new Map<string, Post>();
 
+  /**
+   * Delete matching posts and cascade to the rows that belong to them.
+   */
+  const purgeWhere = (matches: (post: Post) => boolean): number => {
+    const purged = deleteWhere(posts, matches);
+    cascade?.purge({ postIds: new Set(purged.map((post) => post.id)) });
+
+    return purged.length;
+  };
+
+  cascade?.onPurge(({ userIds }) => {
+    purgeWhere((post) => userIds.has(post.authorId));
+  });
+
   return {
     async findById(
       id: string,
@@ -40,33 +68,41 @@ export const createInMemoryPostRepository = (): PostRepository & {
       return ok(post ?? null);
     },
 
+    async findByIdIncludingDeleted(
+      id: string,
+    ): Promise<Result<Post | null, PostRepositoryError>> {
+      return ok(posts.get(id) ?? null);
+    },
+
     async findAll(
       options: FindAllPostsOptions,
     ): Promise<Result<FindAllPostsResult, PostRepositoryError>> {
-      let activePosts = Array.from(posts.values()).filter(
-        (post) => !post.deletedAt,
+      const titleContains = options.titleContains?.toLowerCase();
+
+      const activePosts = Array.from(posts.values()).filter(
+        (post) =>
+          !post.deletedAt &&
+          (post.status === "published" ||
+            (options.viewerId !== undefined &&
+              post.authorId === options.viewerId)) &&
+          (!options.status || post.status === options.status) &&
+          (!options.authorId || post.authorId === options.authorId) &&
+          (!options.tag || post.tags.includes(options.tag)) &&
+          (!options.createdAfter || post.createdAt > options.createdAfter) &&
+          (!options.createdBefore || post.createdAt < options.createdBefore) &&
+          (!titleContains || post.title.toLowerCase().includes(titleContains)),
       );
 
-      // Filter by authorId if provided
-      if (options.authorId) {
-        activePosts = activePosts.filter(
-          (post) => post.authorId === options.authorId,
-        );
-      }
-
-      const total = activePosts.length;
-      const sliced = activePosts.slice(
-        options.offset,
-        options.offset + options.limit,
-      );
+      const { items, total, hasMore } = paginate(activePosts, options);
 
-      return ok({ posts: sliced, total });
+      return ok({ posts: items, total, hasMore });
     },
 
     async create(
       input: CreatePostInput,
     ): Promise<Result<Post, PostRepositoryError>> {
       const now = new Date();
+      const status = input.status ?? DEFAULT_POST_STATUS;
       const newPost: Post = {
         id: crypto.randomUUID(),
         title: input.title,
@@ -75,6 +111,11 @@ export const createInMemoryPostRepository = (): PostRepository & {
         createdAt: now,
         updatedAt: now,
         deletedAt: null,
+        status,
+        publishedAt: status === "published" ? now : null,
+        publishAt: null,
+        tags: [...(input.tags ?? [])].sort(),
+        version: 1,
       };
 
       posts.set(newPost.id, newPost);
@@ -85,18 +126,31 @@ export const createInMemoryPostRepository = (): PostRepository & {
     async update(
       id: string,
       input: UpdatePostInput,
-    ): Promise<Result<Post, PostRepositoryError>> {
+    ): Promise<Result<Post, PostRepositoryError | PreconditionFailedError>> {
       const existing = posts.get(id);
 
       if (!existing || existing.deletedAt) {
         return err(notFoundError("Post", id));
       }
 
+      if (
+        input.expectedVersion !== undefined &&
+        input.expectedVersion !== existing.version
+      ) {
+        return err(preconditionFailedError("Post", id));
+      }
+
       const updatedPost: Post = {
         ...existing,
         title: input.title ?? existing.title,
         content: input.content ?? existing.content,
+        status: input.status ?? existing.status,
+        publishedAt: input.publishedAt ?? existing.publishedAt,
+        publishAt:
+          input.publishAt === undefined ? existing.publishAt : input.publishAt,
+        tags: input.tags ? [...input.tags].sort() : existing.tags,
         updatedAt: new Date(),
+        version: existing.version + 1,
       };
 
       posts.set(id, updatedPost);
@@ -121,6 +175,35 @@ export const createInMemoryPostRepository = (): PostRepository & {
       return ok(undefined);
     },
 
+    async restore(id: string): Promise<Result<Post, PostRepositoryError>> {
+      const existing = posts.get(id);
+
+      if (!existing?.deletedAt) {
+        return err(notFoundError("Post", id));
+      }
+
+      const restoredPost: Post = {
+        ...existing,
+        deletedAt: null,
+        updatedAt: new Date(),
+        version: existing.version + 1,
+      };
+
+      posts.set(id, restoredPost);
+
+      return ok(restoredPost);
+    },
+
+    async purge(
+      deletedBefore: Date,
+    ): Promise<Result<number, PostRepositoryError>> {
+      return ok(
+        purgeWhere(
+          (post) => post.deletedAt !== null && post.deletedAt < deletedBefore,
+        ),
+      );
+    },
+
     /**
      * Clear all posts from the repository.
      * Useful for test cleanup.
@@ -128,5 +211,16 @@ export const createInMemoryPostRepository = (): PostRepository & {
     clear(): void {
       posts.clear();
     },
+
+    /**
+     * Capture current state so a unit of work can roll it back.
+     */
+    checkpoint(): Rollback {
+      return checkpointMap(posts);
+    },
+
+    snapshot(): readonly Post[] {
+      return Array.from(posts.values());
+    },
   };
 };
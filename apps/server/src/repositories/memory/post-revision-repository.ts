@@ -0,0 +1,100 @@
+/**
+ * In-Memory Post Revision Repository implementation.
+ * Used for testing without database dependencies.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import type {
+  CreatePostRevisionInput,
+  PostRevision,
+  PostRevisionRepository,
+  PostRevisionRepositoryError,
+} from "../interfaces/post-revision-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+import { type Rollback, checkpointMap } from "./checkpoint";
+
+/**
+ * Create an in-memory Post Revision Repository.
+ * Data is stored in a Map and cleared when the repository is recreated.
+ *
+ * @param cascade - Drops revisions of purged posts and clears purged editors
+ * @returns PostRevisionRepository implementation
+ */
+export const createInMemoryPostRevisionRepository = (
+  cascade?: InMemoryCascade,
+): PostRevisionRepository & {
+  clear: () => void;
+  checkpoint: () => Rollback;
+} => {
+  const revisions = new Map<string, PostRevision>();
+
+  cascade?.onPurge(({ userIds, postIds }) => {
+    deleteWhere(revisions, (revision) => postIds.has(revision.postId));
+
+    // Revisions outlive their editor's account
+    for (const [id, revision] of revisions) {
+      if (revision.editorId !== null && userIds.has(revision.editorId)) {
+        revisions.set(id, { ...revision, editorId: null });
+      }
+    }
+  });
+
+  return {
+    async create(
+      input: CreatePostRevisionInput,
+    ): Promise<Result<PostRevision, PostRevisionRepositoryError>> {
+      const revision: PostRevision = {
+        id: crypto.randomUUID(),
+        postId: input.postId,
+        revision: input.revision,
+        title: input.title,
+        content: input.content,
+        editorId: input.editorId,
+        createdAt: new Date(),
+      };
+
+      revisions.set(revision.id, revision);
+
+      return ok(revision);
+    },
+
+    async findAllByPostId(
+      postId: string,
+    ): Promise<Result<readonly PostRevision[], PostRevisionRepositoryError>> {
+      const history = Array.from(revisions.values())
+        .filter((revision) => revision.postId === postId)
+        .sort((a, b) => b.revision - a.revision);
+
+      return ok(history);
+    },
+
+    async findByRevision(
+      postId: string,
+      revision: number,
+    ): Promise<Result<PostRevision | null, PostRevisionRepositoryError>> {
+      for (const stored of revisions.values()) {
+        if (stored.postId === postId && stored.revision === revision) {
+          return ok(stored);
+        }
+      }
+
+      return ok(null);
+    },
+
+    /**
+     * Clear all revisions from the repository.
+     * Useful for test cleanup.
+     */
+    clear(): void {
+      revisions.clear();
+    },
+
+    /**
+     * Capture current state so a unit of work can roll it back.
+     */
+    checkpoint(): Rollback {
+      return checkpointMap(revisions);
+    },
+  };
+};
@@ -0,0 +1,170 @@
+/**
+ * In-Memory Post Search implementation.
+ * A simple tokenized scorer standing in for Postgres full-text search:
+ * every query term must appear as a whole word, title matches weigh more
+ * than content matches, and there is no stemming.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import type { Post } from "../interfaces/post-repository";
+import {
+  type PostSearch,
+  type PostSearchError,
+  type PostSearchHit,
+  SNIPPET_HIGHLIGHT,
+  type SearchPostsOptions,
+  type SearchPostsResult,
+} from "../interfaces/post-search";
+
+/**
+ * Relative weight of a title match versus a content match.
+ */
+const TITLE_WEIGHT = 1;
+const CONTENT_WEIGHT = 0.4;
+
+/**
+ * Characters of context kept on each side of the first match in a snippet.
+ */
+const SNIPPET_CONTEXT = 60;
+
+/**
+ * Word pattern shared by tokenizer and highlighter.
+ */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split text into lowercase word tokens.
+ */
+const tokenize = (text: string): string[] =>
+  Array.from(text.toLowerCase().matchAll(WORD_PATTERN), (match) => match[0]);
+
+/**
+ * Escape text for safe embedding in HTML.
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Score a post against query terms, or null if any term is missing.
+ * Term frequency is damped by document length like ts_rank's normalization.
+ */
+const score = (post: Post, terms: readonly string[]): number | null => {
+  const titleTokens = tokenize(post.title);
+  const contentTokens = tokenize(post.content);
+  let total = 0;
+
+  for (const term of terms) {
+    const inTitle = titleTokens.filter((token) => token === term).length;
+    const inContent = contentTokens.filter((token) => token === term).length;
+
+    if (inTitle + inContent === 0) return null;
+
+    total += inTitle * TITLE_WEIGHT + inContent * CONTENT_WEIGHT;
+  }
+
+  return total / Math.log2(2 + titleTokens.length + contentTokens.length);
+};
+
+/**
+ * Build an HTML-escaped excerpt around the first match, with every matched
+ * word wrapped in highlight markers. Falls back to the title when only the
+ * title matches.
+ */
+const snippet = (post: Post, terms: ReadonlySet<string>): string => {
+  const source =
+    tokenize(post.content).some((token) => terms.has(token)) ?
+      post.content
+    : post.title;
+
+  const words = Array.from(source.matchAll(WORD_PATTERN));
+  const firstMatch = words.find((word) => terms.has(word[0].toLowerCase()));
+  const matchIndex = firstMatch?.index ?? 0;
+
+  // Keep whole words within the context window around the first match
+  const window = words.filter(
+    (word) =>
+      word.index >= matchIndex - SNIPPET_CONTEXT &&
+      word.index + word[0].length <= matchIndex + SNIPPET_CONTEXT,
+  );
+  const firstWord = window[0];
+  const lastWord = window.at(-1);
+
+  // Keep leading/trailing punctuation when the window reaches either end
+  const start = firstWord && firstWord !== words[0] ? firstWord.index : 0;
+  const end =
+    lastWord && lastWord !== words.at(-1) ?
+      lastWord.index + lastWord[0].length
+    : source.length;
+
+  let result = "";
+  let position = start;
+
+  for (const word of window) {
+    result += escapeHtml(source.slice(position, word.index));
+    result +=
+      terms.has(word[0].toLowerCase()) ?
+        `${SNIPPET_HIGHLIGHT.start}${escapeHtml(word[0])}${SNIPPET_HIGHLIGHT.stop}`
+      : escapeHtml(word[0]);
+    position = word.index + word[0].length;
+  }
+
+  result += escapeHtml(source.slice(position, end));
+
+  const prefix = start > 0 ? "… " : "";
+  const suffix = end < source.length ? " …" : "";
+
+  return `${prefix}${result}${suffix}`;
+};
+
+/**
+ * Create an in-memory Post Search over a post source.
+ *
+ * @param source - Provides the current posts (e.g. the in-memory repository)
+ * @returns PostSearch implementation
+ */
+export const createInMemoryPostSearch = (source: {
+  snapshot: () => readonly Post[];
+}): PostSearch => ({
+  async search(
+    options: SearchPostsOptions,
+  ): Promise<Result<SearchPostsResult, PostSearchError>> {
+    const terms = [...new Set(tokenize(options.query))];
+
+    if (terms.length === 0) {
+      return ok({ hits: [], total: 0 });
+    }
+
+    const termSet = new Set(terms);
+    const ranked: PostSearchHit[] = [];
+
+    for (const post of source.snapshot()) {
+      if (post.deletedAt || post.status !== "published") continue;
+
+      const rank = score(post, terms);
+
+      if (rank !== null) {
+        ranked.push({ post, rank, snippet: "" });
+      }
+    }
+
+    ranked.sort(
+      (a, b) =>
+        b.rank - a.rank ||
+        (a.post.id < b.post.id ? -1
+        : a.post.id > b.post.id ? 1
+        : 0),
+    );
+
+    // Build snippets for the returned page only
+    const hits = ranked
+      .slice(options.offset, options.offset + options.limit)
+      .map((hit) => ({ ...hit, snippet: snippet(hit.post, termSet) }));
+
+    return ok({ hits, total: ranked.length });
+  },
+});
@@ -0,0 +1,102 @@
+/**
+ * In-Memory Reaction Repository implementation.
+ * Used for testing without database dependencies.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import {
+  emptyReactionCounts,
+  type PostReactions,
+  type ReactionKind,
+  REACTION_KINDS,
+} from "../../domain/reaction";
+import type {
+  ReactionInput,
+  ReactionRepository,
+  ReactionRepositoryError,
+} from "../interfaces/reaction-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+
+/**
+ * Key identifying one user's reaction of one kind to a post.
+ */
+const reactionKey = (input: ReactionInput): string =>
+  JSON.stringify([input.postId, input.userId, input.kind]);
+
+/**
+ * Create an in-memory Reaction Repository.
+ * Data is stored in a Map and cleared when the repository is recreated.
+ *
+ * @param cascade - Drops rows that belong to purged users and posts
+ * @returns ReactionRepository implementation
+ */
+export const createInMemoryReactionRepository = (
+  cascade?: InMemoryCascade,
+): ReactionRepository & {
+  clear: () => void;
+} => {
+  const reactions = new Map<string, ReactionInput>();
+
+  cascade?.onPurge(({ userIds, postIds }) => {
+    deleteWhere(
+      reactions,
+      (reaction) =>
+        userIds.has(reaction.userId) || postIds.has(reaction.postId),
+    );
+  });
+
+  return {
+    async add(
+      input: ReactionInput,
+    ): Promise<Result<void, ReactionRepositoryError>> {
+      reactions.set(reactionKey(input), {
+        postId: input.postId,
+        userId: input.userId,
+        kind: input.kind,
+      });
+
+      return ok(undefined);
+    },
+
+    async remove(
+      input: ReactionInput,
+    ): Promise<Result<void, ReactionRepositoryError>> {
+      reactions.delete(reactionKey(input));
+
+      return ok(undefined);
+    },
+
+    async summarize(
+      postIds: readonly string[],
+      viewerId?: string,
+    ): Promise<
+      Result<ReadonlyMap<string, PostReactions>, ReactionRepositoryError>
+    > {
+      const summaries = new Map<string, PostReactions>();
+
+      for (const postId of postIds) {
+        const counts = emptyReactionCounts();
+        const mine = new Set<ReactionKind>();
+
+        for (const reaction of reactions.values()) {
+          if (reaction.postId !== postId) continue;
+
+          counts[reaction.kind] += 1;
+          if (reaction.userId === viewerId) mine.add(reaction.kind);
+        }
+
+        summaries.set(postId, {
+          counts,
+          mine: REACTION_KINDS.filter((kind) => mine.has(kind)),
+        });
+      }
+
+      return ok(summaries);
+    },
+
+    clear() {
+      reactions.clear();
+    },
+  };
+};
@@ -0,0 +1,50 @@
+/**
+ * In-Memory Tag Repository implementation.
+ * Counts tags over the posts of a post source.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import type { Post } from "../interfaces/post-repository";
+import type {
+  FindTagUsageOptions,
+  TagRepository,
+  TagRepositoryError,
+  TagUsage,
+} from "../interfaces/tag-repository";
+
+/**
+ * Create an in-memory Tag Repository over a post source.
+ *
+ * @param source - Provides the current posts (e.g. the in-memory repository)
+ * @returns TagRepository implementation
+ */
+export const createInMemoryTagRepository = (source: {
+  snapshot: () => readonly Post[];
+}): TagRepository => ({
+  async findUsage(
+    options: FindTagUsageOptions,
+  ): Promise<Result<readonly TagUsage[], TagRepositoryError>> {
+    const counts = new Map<string, number>();
+
+    for (const post of source.snapshot()) {
+      if (post.deletedAt || post.status !== "published") continue;
+
+      for (const name of post.tags) {
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+      }
+    }
+
+    const usage = Array.from(counts, ([name, count]) => ({ name, count }));
+
+    usage.sort(
+      (a, b) =>
+        b.count - a.count ||
+        (a.name < b.name ? -1
+        : a.name > b.name ? 1
+        : 0),
+    );
+
+    return ok(usage.slice(0, options.limit));
+  },
+});
@@ -0,0 +1,65 @@
+/**
+ * In-Memory Unit of Work implementation.
+ * Used for testing without database dependencies.
+ */
+
+import { err } from "neverthrow";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  TransactionalRepositories,
+  UnitOfWork,
+} from "../interfaces/unit-of-work";
+import type { Checkpointable } from "./checkpoint";
+
+/**
+ * In-memory repositories that can be checkpointed.
+ */
+export type CheckpointableRepositories = {
+  readonly [K in keyof TransactionalRepositories]: TransactionalRepositories[K] &
+    Checkpointable;
+};
+
+/**
+ * Create an in-memory Unit of Work.
+ * Checkpoints every repository before the work runs and restores them if it
+ * fails. Units run one at a time (so they must not be nested) and a
+ * rollback cannot discard another unit's writes; writes made outside a
+ * unit are not isolated.
+ *
+ * @param repositories - The repositories the work operates on
+ * @returns UnitOfWork implementation
+ */
+export const createInMemoryUnitOfWork = (
+  repositories: CheckpointableRepositories,
+): UnitOfWork => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    run(work) {
+      const result = queue.then(async () => {
+        const rollbacks = Object.values(repositories).map((repository) =>
+          repository.checkpoint(),
+        );
+        const rollback = () => {
+          for (const restore of rollbacks) restore();
+        };
+
+        try {
+          const outcome = await work(repositories);
+
+          if (outcome.isErr()) rollback();
+
+          return outcome;
+        } catch (error) {
+          rollback();
+          return err(unexpectedError("Unit of work failed", error));
+        }
+      });
+
+      queue = result.catch(() => undefined);
+
+      return result;
+    },
+  };
+};
@@ -5,7 +5,13 @@
 
 import { type Result, err, ok } from "neverthrow";
 
-import { conflictError, notFoundError } from "../../domain/errors";
+import {
+  conflictError,
+  notFoundError,
+  preconditionFailedError,
+} from "../../domain/errors";
+import { DEFAULT_ROLE } from "../../domain/permissions";
+import type { PreconditionFailedError } from "../../domain/errors";
 import type {
   CreateUserInput,
   FindAllUsersOptions,
@@ -15,15 +21,26 @@ import type {
   UserRepository,
   UserRepositoryError,
 } from "../interfaces/user-repository";
+import { type InMemoryCascade, deleteWhere } from "./cascade";
+import { type Rollback, checkpointMap } from "./checkpoint";
+import { paginate } from "./pagination";
 
 /**
  * Create an in-memory User Repository.
  * Data is stored in a Map and cleared when the repository is recreated.
+ * `snapshot` exposes every stored user (including soft-deleted ones) to
+ * other in-memory adapters such as follows.
+ * With a cascade, purged users take other adapters' rows with them.
  *
+ * @param cascade - Shared with the adapters holding rows that belong to users
  * @returns UserRepository implementation
  */
-export const createInMemoryUserRepository = (): UserRepository & {
+export const createInMemoryUserRepository = (
+  cascade?: InMemoryCascade,
+): UserRepository & {
   clear: () => void;
+  checkpoint: () => Rollback;
+  snapshot: () => readonly User[];
 } => {
   const users = new Map<string, User>();
 
@@ -40,6 +57,12 @@ export const createInMemoryUserRepository = (): UserRepository & {
       return ok(user ?? null);
     },
 
+    async findByIdIncludingDeleted(
+      id: string,
+    ): Promise<Result<User | null, UserRepositoryError>> {
+      return ok(users.get(id) ?? null);
+    },
+
     async findByEmail(
       email: string,
     ): Promise<Result<User | null, UserRepositoryError>> {
@@ -55,16 +78,20 @@ export const createInMemoryUserRepository = (): UserRepository & {
     async findAll(
       options: FindAllUsersOptions,
     ): Promise<Result<FindAllUsersResult, UserRepositoryError>> {
+      const nameContains = options.nameContains?.toLowerCase();
+
       const activeUsers = Array.from(users.values()).filter(
-        (user) => !user.deletedAt,
-      );
-      const total = activeUsers.length;
-      const sliced = activeUsers.slice(
-        options.offset,
-        options.offset + options.limit,
+        (user) =>
+          !user.deletedAt &&
+          (!options.createdAfter || user.createdAt > options.createdAfter) &&
+          (!options.createdBefore || user.createdAt < options.createdBefore) &&
+          (!nameContains || user.name.toLowerCase().includes(nameContains)) &&
+          (!options.email || user.email === options.email),
       );
 
-      return ok({ users: sliced, total });
+      const { items, total, hasMore } = paginate(activeUsers, options);
+
+      return ok({ users: items, total, hasMore });
     },
 
     async create(
@@ -88,10 +115,12 @@ export const createInMemoryUserRepository = (): UserRepository & {
         name: input.name,
         email: input.email,
         emailVerified: null,
+        role: input.role ?? DEFAULT_ROLE,
         image: input.image ?? null,
         createdAt: now,
         updatedAt: now,
         deletedAt: null,
+        version: 1,
       };
 
       users.set(newUser.id, newUser);
@@ -102,13 +131,20 @@ export const createInMemoryUserRepository = (): UserRepository & {
     async update(
       id: string,
       input: UpdateUserInput,
-    ): Promise<Result<User, UserRepositoryError>> {
+    ): Promise<Result<User, UserRepositoryError | PreconditionFailedError>> {
       const existing = users.get(id);
 
       if (!existing || existing.deletedAt) {
         return err(notFoundError("User", id));
       }
 
+      if (
+        input.expectedVersion !== undefined &&
+        input.expectedVersion !== existing.version
+      ) {
+        return err(preconditionFailedError("User", id));
+      }
+
       // Check for email conflict if email is being updated
       if (input.email && input.email !== existing.email) {
         for (const user of users.values()) {
@@ -128,7 +164,13 @@ export const createInMemoryUserRepository = (): UserRepository & {
         name: input.name ?? existing.name,
         email: input.email ?? existing.email,
         image: input.image !== undefined ? input.image : existing.image,
+        role: input.role ?? existing.role,
+        emailVerified:
+          input.emailVerified !== undefined ?
+            input.emailVerified
+          : existing.emailVerified,
         updatedAt: new Date(),
+        version: existing.version + 1,
       };
 
       users.set(id, updatedUser);
@@ -153,6 +195,49 @@ export const createInMemoryUserRepository = (): UserRepository & {
       return ok(undefined);
     },
 
+    async restore(id: string): Promise<Result<User, UserRepositoryError>> {
+      const existing = users.get(id);
+
+      if (!existing?.deletedAt) {
+        return err(notFoundError("User", id));
+      }
+
+      // Another active user took the email while this one was deleted
+      for (const user of users.values()) {
+        if (user.email === existing.email && !user.deletedAt) {
+          return err(
+            conflictError("The user's email has been taken since deletion", {
+              resource: "User",
+              conflictReason: "duplicate_email",
+            }),
+          );
+        }
+      }
+
+      const restoredUser: User = {
+        ...existing,
+        deletedAt: null,
+        updatedAt: new Date(),
+        version: existing.version + 1,
+      };
+
+      users.set(id, restoredUser);
+
+      return ok(restoredUser);
+    },
+
+    async purge(
+      deletedBefore: Date,
+    ): Promise<Result<number, UserRepositoryError>> {
+      const purged = deleteWhere(
+        users,
+        (user) => user.deletedAt !== null && user.deletedAt < deletedBefore,
+      );
+      cascade?.purge({ userIds: new Set(purged.map((user) => user.id)) });
+
+      return ok(purged.length);
+    },
+
     /**
      * Clear all users from the repository.
      * Useful for test cleanup.
@@ -160,5 +245,16 @@ export const createInMemoryUserRepository = (): UserRepository & {
     clear(): void {
       users.clear();
     },
+
+    /**
+     * Capture current state so a unit of work can roll it back.
+     */
+    checkpoint(): Rollback {
+      return checkpointMap(users);
+    },
+
+    snapshot(): readonly User[] {
+      return Array.from(users.values());
+    },
   };
 };
@@ -0,0 +1,77 @@
+/**
+ * In-Memory User Statistics Query implementation.
+ * Aggregates the rows of other in-memory adapters, counting characters
+ * by code point like Postgres char_length.
+ */
+
+import { type Result, ok } from "neverthrow";
+
+import type { Post } from "../interfaces/post-repository";
+import type { User } from "../interfaces/user-repository";
+import type {
+  AggregateAuthorPostsOptions,
+  AuthorPostAggregates,
+  SiteAggregates,
+  UserStatisticsQuery,
+  UserStatisticsQueryError,
+} from "../interfaces/user-statistics-query";
+
+/**
+ * Create an in-memory User Statistics Query over user and post sources.
+ *
+ * @param sources - Provide the current users and posts (e.g. the in-memory repositories)
+ * @returns UserStatisticsQuery implementation
+ */
+export const createInMemoryUserStatisticsQuery = (sources: {
+  users: { snapshot: () => readonly User[] };
+  posts: { snapshot: () => readonly Post[] };
+}): UserStatisticsQuery => ({
+  async aggregateAuthorPosts(
+    authorId: string,
+    options: AggregateAuthorPostsOptions = {},
+  ): Promise<Result<AuthorPostAggregates, UserStatisticsQueryError>> {
+    const posts = sources.posts
+      .snapshot()
+      .filter(
+        (post) =>
+          post.authorId === authorId &&
+          (!options.publishedOnly || post.status === "published"),
+      );
+    const active = posts.filter((post) => !post.deletedAt);
+    const createdAts = posts.map((post) => post.createdAt.getTime());
+
+    const totalLength = active.reduce(
+      (sum, post) => sum + Array.from(post.content).length,
+      0,
+    );
+
+    return ok({
+      totalPosts: posts.length,
+      activePosts: active.length,
+      deletedPosts: posts.length - active.length,
+      averagePostLength: active.length > 0 ? totalLength / active.length : 0,
+      firstPostDate:
+        createdAts.length > 0 ? new Date(Math.min(...createdAts)) : null,
+      lastPostDate:
+        createdAts.length > 0 ? new Date(Math.max(...createdAts)) : null,
+    });
+  },
+
+  async aggregateSite(): Promise<
+    Result<SiteAggregates, UserStatisticsQueryError>
+  > {
+    const users = sources.users.snapshot();
+    const posts = sources.posts.snapshot();
+    const activeUsers = users.filter((user) => !user.deletedAt).length;
+    const activePosts = posts.filter((post) => !post.deletedAt).length;
+
+    return ok({
+      totalUsers: users.length,
+      activeUsers,
+      deletedUsers: users.length - activeUsers,
+      totalPosts: posts.length,
+      activePosts,
+      deletedPosts: posts.length - activePosts,
+    });
+  },
+});
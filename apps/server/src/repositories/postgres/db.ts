@@ -3,7 +3,12 @@
  * Allows injecting custom pool/URL for testing.
  */
 
-import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import {
+  drizzle,
+  type NodePgDatabase,
+  type NodePgQueryResultHKT,
+} from "drizzle-orm/node-postgres";
+import type { PgDatabase } from "drizzle-orm/pg-core";
 import { Pool, type PoolConfig } from "pg";
 
 import * as schema from "@bun-hono-ddd-template/db";
@@ -14,6 +19,12 @@ import { env } from "../../env";
  */
 export type Database = NodePgDatabase<typeof schema>;
 
+/**
+ * Anything repositories can run queries on: the database itself or a
+ * transaction opened on it.
+ */
+export type DatabaseExecutor = PgDatabase<NodePgQueryResultHKT, typeof schema>;
+
 /**
  * Options for creating a database connection.
  * Arguments take priority over environment variables.
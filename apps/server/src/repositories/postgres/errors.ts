@@ -0,0 +1,24 @@
+/**
+ * Postgres driver error inspection.
+ */
+
+/**
+ * Postgres SQLSTATE for unique constraint violations.
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Check if error is a Postgres unique violation (code 23505).
+ * Drizzle wraps driver errors in DrizzleQueryError, so the cause chain is
+ * searched as well.
+ */
+export const isUniqueViolation = (error: unknown): boolean => {
+  let current: unknown = error;
+
+  while (typeof current === "object" && current !== null) {
+    if ("code" in current && current.code === UNIQUE_VIOLATION) return true;
+    current = "cause" in current ? current.cause : undefined;
+  }
+
+  return false;
+};
@@ -0,0 +1,155 @@
+/**
+ * Postgres Idempotency Key Repository implementation using Drizzle ORM.
+ */
+
+import { and, eq, isNull, lte } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { idempotencyKeys } from "@bun-hono-ddd-template/db";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  IdempotencyKeyRepository,
+  IdempotencyKeyRepositoryError,
+  IdempotencyRecord,
+  ReserveIdempotencyKeyInput,
+  StoredResponse,
+} from "../interfaces/idempotency-key-repository";
+import type { DatabaseExecutor } from "./db";
+
+/**
+ * Attempts to claim a key whose holder disappears between the insert and
+ * the read (released concurrently) before giving up.
+ */
+const MAX_RESERVE_ATTEMPTS = 3;
+
+/**
+ * Map database row to IdempotencyRecord entity.
+ */
+const toIdempotencyRecord = (
+  row: typeof idempotencyKeys.$inferSelect,
+): IdempotencyRecord => ({
+  userId: row.userId,
+  key: row.key,
+  fingerprint: row.fingerprint,
+  response:
+    row.responseStatus === null ?
+      null
+    : {
+        status: row.responseStatus,
+        body: row.responseBody ?? "",
+        headers: row.responseHeaders ?? {},
+      },
+  createdAt: row.createdAt,
+  expiresAt: row.expiresAt,
+});
+
+/**
+ * Create a Postgres Idempotency Key Repository.
+ *
+ * @param db - Drizzle database instance or transaction
+ * @returns IdempotencyKeyRepository implementation
+ */
+export const createPostgresIdempotencyKeyRepository = (
+  db: DatabaseExecutor,
+): IdempotencyKeyRepository => ({
+  async reserve(
+    input: ReserveIdempotencyKeyInput,
+    now: Date,
+  ): Promise<Result<IdempotencyRecord | null, IdempotencyKeyRepositoryError>> {
+    try {
+      for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+        // Insert, or take over an expired row; a live row is left untouched
+        const claimed = await db
+          .insert(idempotencyKeys)
+          .values({
+            userId: input.userId,
+            key: input.key,
+            fingerprint: input.fingerprint,
+            createdAt: now,
+            expiresAt: input.expiresAt,
+          })
+          .onConflictDoUpdate({
+            target: [idempotencyKeys.userId, idempotencyKeys.key],
+            set: {
+              fingerprint: input.fingerprint,
+              responseStatus: null,
+              responseBody: null,
+              responseHeaders: null,
+              createdAt: now,
+              expiresAt: input.expiresAt,
+            },
+            setWhere: lte(idempotencyKeys.expiresAt, now),
+          })
+          .returning({ key: idempotencyKeys.key });
+
+        if (claimed.length > 0) {
+          return ok(null);
+        }
+
+        const existing = await db
+          .select()
+          .from(idempotencyKeys)
+          .where(
+            and(
+              eq(idempotencyKeys.userId, input.userId),
+              eq(idempotencyKeys.key, input.key),
+            ),
+          )
+          .limit(1);
+
+        if (existing[0]) {
+          return ok(toIdempotencyRecord(existing[0]));
+        }
+      }
+
+      return err(unexpectedError("Idempotency key reservation kept racing"));
+    } catch (error) {
+      return err(unexpectedError("Failed to reserve idempotency key", error));
+    }
+  },
+
+  async complete(
+    userId: string,
+    key: string,
+    response: StoredResponse,
+  ): Promise<Result<void, IdempotencyKeyRepositoryError>> {
+    try {
+      await db
+        .update(idempotencyKeys)
+        .set({
+          responseStatus: response.status,
+          responseBody: response.body,
+          responseHeaders: { ...response.headers },
+        })
+        .where(
+          and(eq(idempotencyKeys.userId, userId), eq(idempotencyKeys.key, key)),
+        );
+
+      return ok(undefined);
+    } catch (error) {
+      return err(unexpectedError("Failed to complete idempotency key", error));
+    }
+  },
+
+  async release(
+    userId: string,
+    key: string,
+  ): Promise<Result<void, IdempotencyKeyRepositoryError>> {
+    try {
+      await db
+        .delete(idempotencyKeys)
+        .where(
+          and(
+            eq(idempotencyKeys.userId, userId),
+            eq(idempotencyKeys.key, key),
+            isNull(idempotencyKeys.responseStatus),
+          ),
+        );
+
+      return ok(undefined);
+    } catch (error) {
+      return err(unexpectedError("Failed to release idempotency key", error));
+    }
+  },
+});
@@ -3,7 +3,20 @@
  */
 
 export { createDb, createPool } from "./db";
-export type { CreateDbOptions, Database } from "./db";
+export type { CreateDbOptions, Database, DatabaseExecutor } from "./db";
 
 export { createPostgresUserRepository } from "./user-repository";
 export { createPostgresPostRepository } from "./post-repository";
+export { createPostgresPostRevisionRepository } from "./post-revision-repository";
+export { createPostgresCommentRepository } from "./comment-repository";
+export { createPostgresFollowRepository } from "./follow-repository";
+export { createPostgresReactionRepository } from "./reaction-repository";
+export { createPostgresCredentialRepository } from "./credential-repository";
+export { createPostgresEmailVerificationTokenRepository } from "./email-verification-token-repository";
+export { createPostgresPersonalAccessTokenRepository } from "./personal-access-token-repository";
+export { createPostgresIdempotencyKeyRepository } from "./idempotency-key-repository";
+export { createPostgresJobRepository } from "./job-repository";
+export { createPostgresPostSearch } from "./post-search";
+export { createPostgresTagRepository } from "./tag-repository";
+export { createPostgresUnitOfWork } from "./unit-of-work";
+export { createPostgresUserStatisticsQuery } from "./user-statistics-query";
@@ -0,0 +1,177 @@
+/**
+ * Sorting and keyset pagination helpers for Drizzle queries.
+ * Rows are ordered by the requested sort keys followed by `id`. Text keys
+ * use COLLATE "C" so ordering matches the memory backend byte for byte.
+ * Cursors seek with a row-value comparison when every key shares a
+ * direction (so a composite index such as (createdAt, id) can serve each
+ * page) and fall back to an expanded OR chain for mixed directions.
+ */
+
+import { type SQL, and, asc, desc, or, sql } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+
+import {
+  DEFAULT_SORT,
+  type PageOptions,
+  type SortDirection,
+  type SortKey,
+} from "../interfaces/pagination";
+
+/**
+ * Columns of a table that take part in sorting.
+ */
+export interface KeysetColumns<F extends string> {
+  readonly id: PgColumn;
+  readonly sortable: Readonly<Record<F, PgColumn>>;
+}
+
+/**
+ * Resolved sort key: the SQL expression to order by and its direction.
+ */
+interface OrderKey {
+  readonly column: PgColumn;
+  readonly expression: SQL | PgColumn;
+  readonly direction: SortDirection;
+}
+
+/**
+ * Resolve the sort keys of a page, always ending with `id` ascending.
+ */
+const orderKeys = <F extends string>(
+  columns: KeysetColumns<F>,
+  options: PageOptions<F>,
+): OrderKey[] => {
+  const sort = options.sort ?? (DEFAULT_SORT as readonly SortKey<F>[]);
+
+  return [
+    ...sort.map((key) => {
+      const column = columns.sortable[key.field];
+
+      return {
+        column,
+        expression:
+          column.dataType === "string" ? sql`${column} collate "C"` : column,
+        direction: key.direction,
+      };
+    }),
+    { column: columns.id, expression: columns.id, direction: "asc" as const },
+  ];
+};
+
+/**
+ * Build the seek condition for a cursor, or undefined in offset mode.
+ */
+export const keysetCondition = <F extends string>(
+  columns: KeysetColumns<F>,
+  options: PageOptions<F>,
+): SQL | undefined => {
+  const { cursor } = options;
+
+  if (!cursor) return undefined;
+
+  const keys = orderKeys(columns, options);
+  const values = [...cursor.values, cursor.id];
+
+  // Encode through the column so timestamps are sent as UTC
+  const params = keys.map((key, index) => {
+    const value = values[index] ?? "";
+
+    return sql.param(
+      key.column.dataType === "date" ? new Date(value) : value,
+      key.column,
+    );
+  });
+
+  const operator = (direction: SortDirection) =>
+    sql.raw(
+      (direction === "asc") === (cursor.direction === "next") ? ">" : "<",
+    );
+
+  const [first] = keys;
+
+  if (first && keys.every((key) => key.direction === first.direction)) {
+    return sql`(${sql.join(
+      keys.map((key) => key.expression),
+      sql`, `,
+    )}) ${operator(first.direction)} (${sql.join(params, sql`, `)})`;
+  }
+
+  // (a, b, id) after (x, y, z) with mixed directions:
+  // a ≻ x OR (a = x AND b ≻ y) OR (a = x AND b = y AND id ≻ z)
+  return or(
+    ...keys.map((key, index) =>
+      and(
+        ...keys
+          .slice(0, index)
+          .map(
+            (prior, priorIndex) =>
+              sql`${prior.expression} = ${params[priorIndex]}`,
+          ),
+        sql`${key.expression} ${operator(key.direction)} ${params[index]}`,
+      ),
+    ),
+  );
+};
+
+/**
+ * ORDER BY clauses for a page.
+ * Reading backwards flips every key; callers restore the requested order
+ * with {@link toPage}.
+ */
+export const keysetOrderBy = <F extends string>(
+  columns: KeysetColumns<F>,
+  options: PageOptions<F>,
+): SQL[] => {
+  const backwards = options.cursor?.direction === "prev";
+
+  return orderKeys(columns, options).map((key) =>
+    (key.direction === "asc") !== backwards ?
+      asc(key.expression)
+    : desc(key.expression),
+  );
+};
+
+/**
+ * Number of rows to fetch: one extra in cursor mode to detect more rows.
+ */
+export const keysetLimit = (options: PageOptions): number =>
+  options.cursor ? options.limit + 1 : options.limit;
+
+/**
+ * Offset to apply; cursor mode never skips rows.
+ */
+export const keysetOffset = (options: PageOptions): number =>
+  options.cursor ? 0 : (options.offset ?? 0);
+
+/**
+ * Trim the probe row, restore the requested order and compute hasMore.
+ *
+ * @param rows - Rows fetched with keysetLimit/keysetOrderBy
+ * @param options - Page selection used for the query
+ * @param total - Total rows matching the filters
+ */
+export const toPage = <T>(
+  rows: readonly T[],
+  options: PageOptions,
+  total: number,
+): { readonly items: T[]; readonly hasMore: boolean } => {
+  if (!options.cursor) {
+    return {
+      items: [...rows],
+      hasMore: (options.offset ?? 0) + rows.length < total,
+    };
+  }
+
+  const items = rows.slice(0, options.limit);
+
+  return {
+    items: options.cursor.direction === "prev" ? items.reverse() : items,
+    hasMore: rows.length > options.limit,
+  };
+};
+
+/**
+ * Case-insensitive substring match with LIKE wildcards in the needle escaped.
+ */
+export const containsIgnoreCase = (column: PgColumn, needle: string): SQL =>
+  sql`${column} ilike ${`%${needle.replace(/[\\%_]/g, "\\$&")}%`}`;
@@ -0,0 +1,158 @@
+/**
+ * Postgres Personal Access Token Repository implementation using Drizzle ORM.
+ */
+
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { personalAccessTokens } from "@bun-hono-ddd-template/db";
+
+import { notFoundError, unexpectedError } from "../../domain/errors";
+import type { TokenScope } from "../../domain/permissions";
+import type {
+  CreatePersonalAccessTokenInput,
+  PersonalAccessToken,
+  PersonalAccessTokenRepository,
+  PersonalAccessTokenRepositoryError,
+} from "../interfaces/personal-access-token-repository";
+import type { DatabaseExecutor } from "./db";
+
+/**
+ * Map database row to PersonalAccessToken entity.
+ */
+const toPersonalAccessToken = (
+  row: typeof personalAccessTokens.$inferSelect,
+): PersonalAccessToken => ({
+  id: row.id,
+  userId: row.userId,
+  name: row.name,
+  // Scopes are validated on write
+  scopes: row.scopes as TokenScope[],
+  expiresAt: row.expiresAt,
+  lastUsedAt: row.lastUsedAt,
+  revokedAt: row.revokedAt,
+  createdAt: row.createdAt,
+});
+
+/**
+ * Create a Postgres Personal Access Token Repository.
+ *
+ * @param db - Drizzle database instance or transaction
+ * @returns PersonalAccessTokenRepository implementation
+ */
+export const createPostgresPersonalAccessTokenRepository = (
+  db: DatabaseExecutor,
+): PersonalAccessTokenRepository => ({
+  async create(
+    input: CreatePersonalAccessTokenInput,
+  ): Promise<Result<PersonalAccessToken, PersonalAccessTokenRepositoryError>> {
+    try {
+      const result = await db
+        .insert(personalAccessTokens)
+        .values({
+          userId: input.userId,
+          name: input.name,
+          tokenHash: input.tokenHash,
+          scopes: [...input.scopes],
+          expiresAt: input.expiresAt,
+        })
+        .returning();
+
+      const created = result[0];
+
+      if (!created) {
+        return err(unexpectedError("Token creation returned no result"));
+      }
+
+      return ok(toPersonalAccessToken(created));
+    } catch (error) {
+      return err(unexpectedError("Failed to create access token", error));
+    }
+  },
+
+  async findByTokenHash(
+    tokenHash: string,
+  ): Promise<
+    Result<PersonalAccessToken | null, PersonalAccessTokenRepositoryError>
+  > {
+    try {
+      const result = await db
+        .select()
+        .from(personalAccessTokens)
+        .where(eq(personalAccessTokens.tokenHash, tokenHash))
+        .limit(1);
+
+      return ok(result[0] ? toPersonalAccessToken(result[0]) : null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find access token", error));
+    }
+  },
+
+  async findAllByUserId(
+    userId: string,
+  ): Promise<
+    Result<readonly PersonalAccessToken[], PersonalAccessTokenRepositoryError>
+  > {
+    try {
+      const result = await db
+        .select()
+        .from(personalAccessTokens)
+        .where(
+          and(
+            eq(personalAccessTokens.userId, userId),
+            isNull(personalAccessTokens.revokedAt),
+          ),
+        )
+        .orderBy(desc(personalAccessTokens.createdAt));
+
+      return ok(result.map(toPersonalAccessToken));
+    } catch (error) {
+      return err(unexpectedError("Failed to list access tokens", error));
+    }
+  },
+
+  async revoke(
+    id: string,
+    userId: string,
+  ): Promise<Result<PersonalAccessToken, PersonalAccessTokenRepositoryError>> {
+    try {
+      const result = await db
+        .update(personalAccessTokens)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(personalAccessTokens.id, id),
+            eq(personalAccessTokens.userId, userId),
+            isNull(personalAccessTokens.revokedAt),
+          ),
+        )
+        .returning();
+
+      const revoked = result[0];
+
+      if (!revoked) {
+        return err(notFoundError("PersonalAccessToken", id));
+      }
+
+      return ok(toPersonalAccessToken(revoked));
+    } catch (error) {
+      return err(unexpectedError("Failed to revoke access token", error));
+    }
+  },
+
+  async touchLastUsed(
+    id: string,
+    usedAt: Date,
+  ): Promise<Result<void, PersonalAccessTokenRepositoryError>> {
+    try {
+      await db
+        .update(personalAccessTokens)
+        .set({ lastUsedAt: usedAt })
+        .where(eq(personalAccessTokens.id, id));
+
+      return ok(undefined);
+    } catch (error) {
+      return err(unexpectedError("Failed to record token use", error));
+    }
+  },
+});
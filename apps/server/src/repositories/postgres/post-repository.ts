@@ -2,12 +2,29 @@
  * Postgres Post Repository implementation using Drizzle ORM.
  */
 
-import { and, count, eq, isNull } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  or,
+  sql,
+} from "drizzle-orm";
 import { type Result, err, ok } from "neverthrow";
 
-import { posts } from "@bun-hono-ddd-template/db";
+import { postTags, posts, tags } from "@bun-hono-ddd-template/db";
 
-import { notFoundError, unexpectedError } from "../../domain/errors";
+import {
+  notFoundError,
+  preconditionFailedError,
+  unexpectedError,
+} from "../../domain/errors";
+import type { PreconditionFailedError } from "../../domain/errors";
 import type {
   CreatePostInput,
   FindAllPostsOptions,
@@ -15,14 +32,45 @@ import type {
   Post,
   PostRepository,
   PostRepositoryError,
+  PostSortField,
   UpdatePostInput,
 } from "../interfaces/post-repository";
-import type { Database } from "./db";
+import type { DatabaseExecutor } from "./db";
+import {
+  type KeysetColumns,
+  containsIgnoreCase,
+  keysetCondition,
+  keysetLimit,
+  keysetOffset,
+  keysetOrderBy,
+  toPage,
+} from "./pagination";
 
 /**
- * Map database row to Post entity.
+ * Columns selected for Post entities.
+ * Leaves out the generated search document, which only search queries need.
  */
-const toPost = (row: typeof posts.$inferSelect): Post => ({
+export const postColumns = {
+  id: posts.id,
+  title: posts.title,
+  content: posts.content,
+  authorId: posts.authorId,
+  createdAt: posts.createdAt,
+  updatedAt: posts.updatedAt,
+  deletedAt: posts.deletedAt,
+  status: posts.status,
+  publishedAt: posts.publishedAt,
+  publishAt: posts.publishAt,
+  version: posts.version,
+};
+
+/**
+ * Map database row and its tag names to Post entity.
+ */
+export const toPost = (
+  row: Omit<typeof posts.$inferSelect, "searchVector">,
+  tagNames: readonly string[],
+): Post => ({
   id: row.id,
   title: row.title,
   content: row.content,
@@ -30,26 +78,140 @@ const toPost = (row: typeof posts.$inferSelect): Post => ({
   createdAt: row.createdAt,
   updatedAt: row.updatedAt,
   deletedAt: row.deletedAt,
+  status: row.status,
+  publishedAt: row.publishedAt,
+  publishAt: row.publishAt,
+  tags: tagNames,
+  version: row.version,
 });
 
+/**
+ * Load the tag names of the given posts, sorted by name.
+ *
+ * @param db - Drizzle database instance or transaction
+ * @param postIds - Posts to load tags for
+ * @returns Tag names keyed by post id (posts without tags are absent)
+ */
+export const findPostTags = async (
+  db: DatabaseExecutor,
+  postIds: readonly string[],
+): Promise<Map<string, string[]>> => {
+  const tagsByPost = new Map<string, string[]>();
+
+  if (postIds.length === 0) return tagsByPost;
+
+  const rows = await db
+    .select({ postId: postTags.postId, name: tags.name })
+    .from(postTags)
+    .innerJoin(tags, eq(tags.id, postTags.tagId))
+    .where(inArray(postTags.postId, [...postIds]))
+    .orderBy(asc(tags.name));
+
+  for (const row of rows) {
+    tagsByPost.set(row.postId, [
+      ...(tagsByPost.get(row.postId) ?? []),
+      row.name,
+    ]);
+  }
+
+  return tagsByPost;
+};
+
+/**
+ * Map database rows to Post entities, loading their tags in one query.
+ */
+const toPostsWithTags = async (
+  db: DatabaseExecutor,
+  rows: readonly Omit<typeof posts.$inferSelect, "searchVector">[],
+): Promise<Post[]> => {
+  const tagsByPost = await findPostTags(
+    db,
+    rows.map((row) => row.id),
+  );
+
+  return rows.map((row) => toPost(row, tagsByPost.get(row.id) ?? []));
+};
+
+/**
+ * Replace a post's tags, creating tags that do not exist yet.
+ * Tags left without posts are kept; usage counts skip them.
+ */
+const replacePostTags = async (
+  db: DatabaseExecutor,
+  postId: string,
+  tagNames: readonly string[],
+): Promise<void> => {
+  await db.delete(postTags).where(eq(postTags.postId, postId));
+
+  if (tagNames.length === 0) return;
+
+  await db
+    .insert(tags)
+    .values(tagNames.map((name) => ({ name })))
+    .onConflictDoNothing({ target: tags.name });
+
+  const tagRows = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(inArray(tags.name, [...tagNames]));
+
+  await db
+    .insert(postTags)
+    .values(tagRows.map((tag) => ({ postId, tagId: tag.id })));
+};
+
+/**
+ * Sortable post columns (allow-list for PostSortField).
+ */
+const postKeyset: KeysetColumns<PostSortField> = {
+  id: posts.id,
+  sortable: {
+    createdAt: posts.createdAt,
+    updatedAt: posts.updatedAt,
+    title: posts.title,
+  },
+};
+
 /**
  * Create a Postgres Post Repository.
  *
- * @param db - Drizzle database instance
+ * @param db - Drizzle database instance or transaction
  * @returns PostRepository implementation
  */
-export const createPostgresPostRepository = (db: Database): PostRepository => ({
+export const createPostgresPostRepository = (
+  db: DatabaseExecutor,
+): PostRepository => ({
   async findById(
     id: string,
   ): Promise<Result<Post | null, PostRepositoryError>> {
     try {
       const result = await db
-        .select()
+        .select(postColumns)
         .from(posts)
         .where(and(eq(posts.id, id), isNull(posts.deletedAt)))
         .limit(1);
 
-      return ok(result[0] ? toPost(result[0]) : null);
+      const [post] = await toPostsWithTags(db, result);
+
+      return ok(post ?? null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find post by id", error));
+    }
+  },
+
+  async findByIdIncludingDeleted(
+    id: string,
+  ): Promise<Result<Post | null, PostRepositoryError>> {
+    try {
+      const result = await db
+        .select(postColumns)
+        .from(posts)
+        .where(eq(posts.id, id))
+        .limit(1);
+
+      const [post] = await toPostsWithTags(db, result);
+
+      return ok(post ?? null);
     } catch (error) {
       return err(unexpectedError("Failed to find post by id", error));
     }
@@ -60,27 +222,69 @@ export const createPostgresPostRepository = (db: Database): PostRepository => ({
   ): Promise<Result<FindAllPostsResult, PostRepositoryError>> {
     try {
       // Build where conditions
-      const conditions = [isNull(posts.deletedAt)];
+      const conditions = [
+        isNull(posts.deletedAt),
+        options.viewerId === undefined ?
+          eq(posts.status, "published")
+        : or(
+            eq(posts.status, "published"),
+            eq(posts.authorId, options.viewerId),
+          ),
+      ];
+
+      if (options.status) {
+        conditions.push(eq(posts.status, options.status));
+      }
 
       if (options.authorId) {
         conditions.push(eq(posts.authorId, options.authorId));
       }
 
+      if (options.tag) {
+        conditions.push(
+          inArray(
+            posts.id,
+            db
+              .select({ postId: postTags.postId })
+              .from(postTags)
+              .innerJoin(tags, eq(tags.id, postTags.tagId))
+              .where(eq(tags.name, options.tag)),
+          ),
+        );
+      }
+
+      if (options.createdAfter) {
+        conditions.push(gt(posts.createdAt, options.createdAfter));
+      }
+
+      if (options.createdBefore) {
+        conditions.push(lt(posts.createdAt, options.createdBefore));
+      }
+
+      if (options.titleContains) {
+        conditions.push(containsIgnoreCase(posts.title, options.titleContains));
+      }
+
       const whereClause = and(...conditions);
 
       const [postsResult, countResult] = await Promise.all([
         db
-          .select()
+          .select(postColumns)
           .from(posts)
-          .where(whereClause)
-          .limit(options.limit)
-          .offset(options.offset),
+          .where(and(whereClause, keysetCondition(postKeyset, options)))
+          .orderBy(...keysetOrderBy(postKeyset, options))
+          .limit(keysetLimit(options))
+          .offset(keysetOffset(options)),
         db.select({ count: count() }).from(posts).where(whereClause),
       ]);
 
+      const total = countResult[0]?.count ?? 0;
+      const { items, hasMore } = toPage(postsResult, options, total);
+
       return ok({
-        posts: postsResult.map(toPost),
-        total: countResult[0]?.count ?? 0,
+        posts: await toPostsWithTags(db, items),
+        total,
+        hasMore,
       });
     } catch (error) {
       return err(unexpectedError("Failed to find all posts", error));
@@ -91,22 +295,36 @@ export const createPostgresPostRepository = (db: Database): PostRepository => ({
     input: CreatePostInput,
   ): Promise<Result<Post, PostRepositoryError>> {
     try {
-      const result = await db
-        .insert(posts)
-        .values({
-          title: input.title,
-          content: input.content,
-          authorId: input.authorId,
-        })
-        .returning();
+      const tagNames = [...(input.tags ?? [])].sort();
 
-      const created = result[0];
+      const insert = async (executor: DatabaseExecutor) => {
+        const result = await executor
+          .insert(posts)
+          .values({
+            title: input.title,
+            content: input.content,
+            authorId: input.authorId,
+            status: input.status,
+            publishedAt: input.status === "published" ? new Date() : null,
+          })
+          .returning(postColumns);
+
+        const created = result[0];
+
+        if (created) await replacePostTags(executor, created.id, tagNames);
+
+        return created;
+      };
+
+      // Tags are written in the same transaction as the post
+      const created =
+        tagNames.length > 0 ? await db.transaction(insert) : await insert(db);
 
       if (!created) {
         return err(unexpectedError("Post creation returned no result"));
       }
 
-      return ok(toPost(created));
+      return ok(toPost(created, tagNames));
     } catch (error) {
       return err(unexpectedError("Failed to create post", error));
     }
@@ -115,7 +333,7 @@ export const createPostgresPostRepository = (db: Database): PostRepository => ({
   async update(
     id: string,
     input: UpdatePostInput,
-  ): Promise<Result<Post, PostRepositoryError>> {
+  ): Promise<Result<Post, PostRepositoryError | PreconditionFailedError>> {
     try {
       // Build update object with only provided fields
       const updateData: Partial<typeof posts.$inferInsert> = {
@@ -124,20 +342,64 @@ export const createPostgresPostRepository = (db: Database): PostRepository => ({
 
       if (input.title !== undefined) updateData.title = input.title;
       if (input.content !== undefined) updateData.content = input.content;
+      if (input.status !== undefined) updateData.status = input.status;
+      if (input.publishedAt !== undefined) {
+        updateData.publishedAt = input.publishedAt;
+      }
+      if (input.publishAt !== undefined) updateData.publishAt = input.publishAt;
 
-      const result = await db
-        .update(posts)
-        .set(updateData)
-        .where(and(eq(posts.id, id), isNull(posts.deletedAt)))
-        .returning();
+      const write = async (executor: DatabaseExecutor) => {
+        const result = await executor
+          .update(posts)
+          .set({ ...updateData, version: sql`${posts.version} + 1` })
+          .where(
+            and(
+              eq(posts.id, id),
+              isNull(posts.deletedAt),
+              input.expectedVersion === undefined ?
+                undefined
+              : eq(posts.version, input.expectedVersion),
+            ),
+          )
+          .returning(postColumns);
+
+        const written = result[0];
 
-      const updated = result[0];
+        if (written && input.tags !== undefined) {
+          await replacePostTags(executor, id, input.tags);
+        }
+
+        return written;
+      };
+
+      // Tags are written in the same transaction as the post
+      const updated =
+        input.tags === undefined ?
+          await write(db)
+        : await db.transaction(write);
 
       if (!updated) {
-        return err(notFoundError("Post", id));
+        if (input.expectedVersion === undefined) {
+          return err(notFoundError("Post", id));
+        }
+
+        // The version guard may be what filtered the row out
+        const current = await db
+          .select({ id: posts.id })
+          .from(posts)
+          .where(and(eq(posts.id, id), isNull(posts.deletedAt)))
+          .limit(1);
+
+        return err(
+          current.length > 0 ?
+            preconditionFailedError("Post", id)
+          : notFoundError("Post", id),
+        );
       }
 
-      return ok(toPost(updated));
+      const tagsByPost = await findPostTags(db, [id]);
+
+      return ok(toPost(updated, tagsByPost.get(id) ?? []));
     } catch (error) {
       return err(unexpectedError("Failed to update post", error));
     }
@@ -160,4 +422,44 @@ export const createPostgresPostRepository = (db: Database): PostRepository => ({
       return err(unexpectedError("Failed to delete post", error));
     }
   },
+
+  async restore(id: string): Promise<Result<Post, PostRepositoryError>> {
+    try {
+      const result = await db
+        .update(posts)
+        .set({
+          deletedAt: null,
+          updatedAt: new Date(),
+          version: sql`${posts.version} + 1`,
+        })
+        .where(and(eq(posts.id, id), isNotNull(posts.deletedAt)))
+        .returning(postColumns);
+
+      const [restored] = await toPostsWithTags(db, result);
+
+      if (!restored) {
+        return err(notFoundError("Post", id));
+      }
+
+      return ok(restored);
+    } catch (error) {
+      return err(unexpectedError("Failed to restore post", error));
+    }
+  },
+
+  async purge(
+    deletedBefore: Date,
+  ): Promise<Result<number, PostRepositoryError>> {
+    try {
+      // Dependent rows go with the post through ON DELETE CASCADE
+      const result = await db
+        .delete(posts)
+        .where(lt(posts.deletedAt, deletedBefore))
+        .returning({ id: posts.id });
+
+      return ok(result.length);
+    } catch (error) {
+      return err(unexpectedError("Failed to purge posts", error));
+    }
+  },
 });
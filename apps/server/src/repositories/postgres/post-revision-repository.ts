@@ -0,0 +1,107 @@
+/**
+ * Postgres Post Revision Repository implementation using Drizzle ORM.
+ */
+
+import { and, desc, eq } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { postRevisions } from "@bun-hono-ddd-template/db";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  CreatePostRevisionInput,
+  PostRevision,
+  PostRevisionRepository,
+  PostRevisionRepositoryError,
+} from "../interfaces/post-revision-repository";
+import type { DatabaseExecutor } from "./db";
+
+/**
+ * Map database row to PostRevision entity.
+ */
+const toPostRevision = (
+  row: typeof postRevisions.$inferSelect,
+): PostRevision => ({
+  id: row.id,
+  postId: row.postId,
+  revision: row.revision,
+  title: row.title,
+  content: row.content,
+  editorId: row.editorId,
+  createdAt: row.createdAt,
+});
+
+/**
+ * Create a Postgres Post Revision Repository.
+ *
+ * @param db - Drizzle database instance or transaction
+ * @returns PostRevisionRepository implementation
+ */
+export const createPostgresPostRevisionRepository = (
+  db: DatabaseExecutor,
+): PostRevisionRepository => ({
+  async create(
+    input: CreatePostRevisionInput,
+  ): Promise<Result<PostRevision, PostRevisionRepositoryError>> {
+    try {
+      const result = await db
+        .insert(postRevisions)
+        .values({
+          postId: input.postId,
+          revision: input.revision,
+          title: input.title,
+          content: input.content,
+          editorId: input.editorId,
+        })
+        .returning();
+
+      const created = result[0];
+
+      if (!created) {
+        return err(unexpectedError("Revision creation returned no result"));
+      }
+
+      return ok(toPostRevision(created));
+    } catch (error) {
+      return err(unexpectedError("Failed to create post revision", error));
+    }
+  },
+
+  async findAllByPostId(
+    postId: string,
+  ): Promise<Result<readonly PostRevision[], PostRevisionRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(postRevisions)
+        .where(eq(postRevisions.postId, postId))
+        .orderBy(desc(postRevisions.revision));
+
+      return ok(result.map(toPostRevision));
+    } catch (error) {
+      return err(unexpectedError("Failed to list post revisions", error));
+    }
+  },
+
+  async findByRevision(
+    postId: string,
+    revision: number,
+  ): Promise<Result<PostRevision | null, PostRevisionRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(postRevisions)
+        .where(
+          and(
+            eq(postRevisions.postId, postId),
+            eq(postRevisions.revision, revision),
+          ),
+        )
+        .limit(1);
+
+      return ok(result[0] ? toPostRevision(result[0]) : null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find post revision", error));
+    }
+  },
+});
@@ -0,0 +1,98 @@
+/**
+ * Postgres Post Search implementation using full-text search.
+ * Matches against the generated `searchVector` column (GIN-indexed), ranks
+ * with ts_rank and highlights with ts_headline.
+ */
+
+import {
+  type SQL,
+  type SQLWrapper,
+  and,
+  count,
+  desc,
+  eq,
+  isNull,
+  sql,
+} from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { posts } from "@bun-hono-ddd-template/db";
+
+import { unexpectedError } from "../../domain/errors";
+import {
+  type PostSearch,
+  type PostSearchError,
+  SNIPPET_HIGHLIGHT,
+  type SearchPostsOptions,
+  type SearchPostsResult,
+} from "../interfaces/post-search";
+import type { Database } from "./db";
+import { findPostTags, postColumns, toPost } from "./post-repository";
+
+/**
+ * ts_headline options: one fragment of roughly 15-35 words.
+ */
+const HEADLINE_OPTIONS = `StartSel=${SNIPPET_HIGHLIGHT.start}, StopSel=${SNIPPET_HIGHLIGHT.stop}, MinWords=15, MaxWords=35, MaxFragments=1`;
+
+/**
+ * Escape text for safe embedding in HTML before highlighting.
+ */
+const escapeHtml = (text: SQLWrapper): SQL =>
+  sql`replace(replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;')`;
+
+/**
+ * Create a Postgres Post Search.
+ *
+ * @param db - Drizzle database instance
+ * @returns PostSearch implementation
+ */
+export const createPostgresPostSearch = (db: Database): PostSearch => ({
+  async search(
+    options: SearchPostsOptions,
+  ): Promise<Result<SearchPostsResult, PostSearchError>> {
+    try {
+      // Must use the same configuration as the generated searchVector column
+      const query = sql`websearch_to_tsquery('english', ${options.query})`;
+      const rank = sql<number>`ts_rank(${posts.searchVector}, ${query})`;
+      const whereClause = and(
+        isNull(posts.deletedAt),
+        eq(posts.status, "published"),
+        sql`${posts.searchVector} @@ ${query}`,
+      );
+
+      // Excerpt the content when it matches, otherwise the title
+      const snippet = sql<string>`case
+        when to_tsvector('english', ${posts.content}) @@ ${query}
+          then ts_headline('english', ${escapeHtml(posts.content)}, ${query}, ${HEADLINE_OPTIONS})
+        else ts_headline('english', ${escapeHtml(posts.title)}, ${query}, ${HEADLINE_OPTIONS})
+      end`;
+
+      const [rows, countResult] = await Promise.all([
+        db
+          .select({ ...postColumns, rank, snippet })
+          .from(posts)
+          .where(whereClause)
+          .orderBy(desc(rank), posts.id)
+          .limit(options.limit)
+          .offset(options.offset),
+        db.select({ count: count() }).from(posts).where(whereClause),
+      ]);
+
+      const tagsByPost = await findPostTags(
+        db,
+        rows.map((row) => row.id),
+      );
+
+      return ok({
+        hits: rows.map(({ rank: score, snippet: excerpt, ...row }) => ({
+          post: toPost(row, tagsByPost.get(row.id) ?? []),
+          rank: Number(score),
+          snippet: excerpt,
+        })),
+        total: countResult[0]?.count ?? 0,
+      });
+    } catch (error) {
+      return err(unexpectedError("Failed to search posts", error));
+    }
+  },
+});
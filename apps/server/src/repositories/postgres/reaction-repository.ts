@@ -0,0 +1,135 @@
+/**
+ * Postgres Reaction Repository implementation using Drizzle ORM.
+ * Counts are aggregated from the reaction rows rather than kept in a
+ * counter, and the primary key makes adding a reaction idempotent, so
+ * concurrent toggles cannot leave counts out of step.
+ */
+
+import { and, count, eq, inArray } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { postReactions } from "@bun-hono-ddd-template/db";
+
+import { unexpectedError } from "../../domain/errors";
+import {
+  emptyReactionCounts,
+  type PostReactions,
+  type ReactionKind,
+  REACTION_KINDS,
+} from "../../domain/reaction";
+import type {
+  ReactionInput,
+  ReactionRepository,
+  ReactionRepositoryError,
+} from "../interfaces/reaction-repository";
+import type { DatabaseExecutor } from "./db";
+
+/**
+ * Match one user's reaction of one kind to a post.
+ */
+const matchesReaction = (input: ReactionInput) =>
+  and(
+    eq(postReactions.postId, input.postId),
+    eq(postReactions.userId, input.userId),
+    eq(postReactions.kind, input.kind),
+  );
+
+/**
+ * Create a Postgres Reaction Repository.
+ *
+ * @param db - Drizzle database instance or transaction
+ * @returns ReactionRepository implementation
+ */
+export const createPostgresReactionRepository = (
+  db: DatabaseExecutor,
+): ReactionRepository => ({
+  async add(
+    input: ReactionInput,
+  ): Promise<Result<void, ReactionRepositoryError>> {
+    try {
+      await db
+        .insert(postReactions)
+        .values({
+          postId: input.postId,
+          userId: input.userId,
+          kind: input.kind,
+        })
+        .onConflictDoNothing();
+
+      return ok(undefined);
+    } catch (error) {
+      return err(unexpectedError("Failed to add reaction", error));
+    }
+  },
+
+  async remove(
+    input: ReactionInput,
+  ): Promise<Result<void, ReactionRepositoryError>> {
+    try {
+      await db.delete(postReactions).where(matchesReaction(input));
+
+      return ok(undefined);
+    } catch (error) {
+      return err(unexpectedError("Failed to remove reaction", error));
+    }
+  },
+
+  async summarize(
+    postIds: readonly string[],
+    viewerId?: string,
+  ): Promise<
+    Result<ReadonlyMap<string, PostReactions>, ReactionRepositoryError>
+  > {
+    if (postIds.length === 0) {
+      return ok(new Map());
+    }
+
+    try {
+      const onPosts = inArray(postReactions.postId, [...postIds]);
+
+      const [counts, own] = await Promise.all([
+        db
+          .select({
+            postId: postReactions.postId,
+            kind: postReactions.kind,
+            count: count(),
+          })
+          .from(postReactions)
+          .where(onPosts)
+          .groupBy(postReactions.postId, postReactions.kind),
+        viewerId === undefined ?
+          []
+        : db
+            .select({ postId: postReactions.postId, kind: postReactions.kind })
+            .from(postReactions)
+            .where(and(onPosts, eq(postReactions.userId, viewerId))),
+      ]);
+
+      return ok(
+        new Map(
+          postIds.map((postId) => {
+            const tally = emptyReactionCounts();
+            const mine = new Set<ReactionKind>();
+
+            for (const row of counts) {
+              if (row.postId === postId) tally[row.kind] = row.count;
+            }
+            for (const row of own) {
+              if (row.postId === postId) mine.add(row.kind);
+            }
+
+            return [
+              postId,
+              {
+                counts: tally,
+                mine: REACTION_KINDS.filter((kind) => mine.has(kind)),
+              },
+            ];
+          }),
+        ),
+      );
+    } catch (error) {
+      return err(unexpectedError("Failed to summarize reactions", error));
+    }
+  },
+});
@@ -0,0 +1,49 @@
+/**
+ * Postgres Tag Repository implementation using Drizzle ORM.
+ */
+
+import { and, asc, count, desc, eq, isNull } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { postTags, posts, tags } from "@bun-hono-ddd-template/db";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  FindTagUsageOptions,
+  TagRepository,
+  TagRepositoryError,
+  TagUsage,
+} from "../interfaces/tag-repository";
+import type { DatabaseExecutor } from "./db";
+
+/**
+ * Create a Postgres Tag Repository.
+ *
+ * @param db - Drizzle database instance or transaction
+ * @returns TagRepository implementation
+ */
+export const createPostgresTagRepository = (
+  db: DatabaseExecutor,
+): TagRepository => ({
+  async findUsage(
+    options: FindTagUsageOptions,
+  ): Promise<Result<readonly TagUsage[], TagRepositoryError>> {
+    try {
+      const usage = count(postTags.postId);
+
+      const rows = await db
+        .select({ name: tags.name, count: usage })
+        .from(tags)
+        .innerJoin(postTags, eq(postTags.tagId, tags.id))
+        .innerJoin(posts, eq(posts.id, postTags.postId))
+        .where(and(eq(posts.status, "published"), isNull(posts.deletedAt)))
+        .groupBy(tags.id, tags.name)
+        .orderBy(desc(usage), asc(tags.name))
+        .limit(options.limit);
+
+      return ok(rows);
+    } catch (error) {
+      return err(unexpectedError("Failed to find tag usage", error));
+    }
+  },
+});
@@ -0,0 +1,70 @@
+/**
+ * Postgres Unit of Work implementation using Drizzle transactions.
+ */
+
+import { type Result, err } from "neverthrow";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  TransactionalRepositories,
+  UnitOfWork,
+  UnitOfWorkError,
+} from "../interfaces/unit-of-work";
+import { createPostgresCredentialRepository } from "./credential-repository";
+import type { Database, DatabaseExecutor } from "./db";
+import { createPostgresEmailVerificationTokenRepository } from "./email-verification-token-repository";
+import { createPostgresJobRepository } from "./job-repository";
+import { createPostgresPersonalAccessTokenRepository } from "./personal-access-token-repository";
+import { createPostgresPostRepository } from "./post-repository";
+import { createPostgresPostRevisionRepository } from "./post-revision-repository";
+import { createPostgresUserRepository } from "./user-repository";
+
+/**
+ * Build repositories that run their queries on the given executor.
+ */
+const createRepositories = (
+  executor: DatabaseExecutor,
+): TransactionalRepositories => ({
+  userRepository: createPostgresUserRepository(executor),
+  postRepository: createPostgresPostRepository(executor),
+  postRevisionRepository: createPostgresPostRevisionRepository(executor),
+  credentialRepository: createPostgresCredentialRepository(executor),
+  emailVerificationTokenRepository:
+    createPostgresEmailVerificationTokenRepository(executor),
+  personalAccessTokenRepository:
+    createPostgresPersonalAccessTokenRepository(executor),
+  jobRepository: createPostgresJobRepository(executor),
+});
+
+/**
+ * Create a Postgres Unit of Work.
+ * Each run opens a transaction and hands the work repositories bound to it.
+ *
+ * @param db - Drizzle database instance
+ * @returns UnitOfWork implementation
+ */
+export const createPostgresUnitOfWork = (db: Database): UnitOfWork => ({
+  async run<T, E>(
+    work: (repositories: TransactionalRepositories) => Promise<Result<T, E>>,
+  ): Promise<Result<T, E | UnitOfWorkError>> {
+    // Set when the work fails, so the rollback can report its error
+    let failure: Result<T, E> | undefined;
+
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await work(createRepositories(tx));
+
+        if (result.isErr()) {
+          failure = result;
+          tx.rollback();
+        }
+
+        return result;
+      });
+    } catch (error) {
+      if (failure) return failure;
+
+      return err(unexpectedError("Transaction failed", error));
+    }
+  },
+});
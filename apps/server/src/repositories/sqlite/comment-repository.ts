@@ -0,0 +1,177 @@
+/**
+ * SQLite Comment Repository implementation using Drizzle ORM.
+ */
+
+import { and, asc, count, eq, inArray, isNull, sql } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { comments } from "@bun-hono-ddd-template/db/sqlite";
+
+import { notFoundError, unexpectedError } from "../../domain/errors";
+import type {
+  Comment,
+  CommentRepository,
+  CommentRepositoryError,
+  CreateCommentInput,
+  FindCommentThreadsOptions,
+  FindCommentThreadsResult,
+  UpdateCommentInput,
+} from "../interfaces/comment-repository";
+import type { SqliteDatabase } from "./db";
+
+/**
+ * Map database row to Comment entity.
+ */
+const toComment = (row: typeof comments.$inferSelect): Comment => ({
+  id: row.id,
+  postId: row.postId,
+  parentId: row.parentId,
+  authorId: row.authorId,
+  content: row.content,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  deletedAt: row.deletedAt,
+});
+
+/**
+ * Create a SQLite Comment Repository.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns CommentRepository implementation
+ */
+export const createSqliteCommentRepository = (
+  db: SqliteDatabase,
+): CommentRepository => ({
+  async findById(
+    id: string,
+  ): Promise<Result<Comment | null, CommentRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(comments)
+        .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+        .limit(1);
+
+      return ok(result[0] ? toComment(result[0]) : null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find comment by id", error));
+    }
+  },
+
+  async findThreadsByPostId(
+    postId: string,
+    options: FindCommentThreadsOptions,
+  ): Promise<Result<FindCommentThreadsResult, CommentRepositoryError>> {
+    try {
+      const topLevel = and(
+        eq(comments.postId, postId),
+        isNull(comments.parentId),
+      );
+
+      const [parents, countResult] = await Promise.all([
+        db
+          .select()
+          .from(comments)
+          .where(topLevel)
+          // The rowid grows with each insert, like the Postgres sequence
+          .orderBy(asc(comments.createdAt), sql`rowid`)
+          .limit(options.limit)
+          .offset(options.offset),
+        db.select({ count: count() }).from(comments).where(topLevel),
+      ]);
+
+      const replies =
+        parents.length === 0 ?
+          []
+        : await db
+            .select()
+            .from(comments)
+            .where(
+              inArray(
+                comments.parentId,
+                parents.map((parent) => parent.id),
+              ),
+            )
+            .orderBy(asc(comments.createdAt), sql`rowid`);
+
+      return ok({
+        threads: parents.map((parent) => ({
+          comment: toComment(parent),
+          replies: replies
+            .filter((reply) => reply.parentId === parent.id)
+            .map(toComment),
+        })),
+        total: countResult[0]?.count ?? 0,
+      });
+    } catch (error) {
+      return err(unexpectedError("Failed to find comment threads", error));
+    }
+  },
+
+  async create(
+    input: CreateCommentInput,
+  ): Promise<Result<Comment, CommentRepositoryError>> {
+    try {
+      const result = await db
+        .insert(comments)
+        .values({
+          postId: input.postId,
+          parentId: input.parentId ?? null,
+          authorId: input.authorId,
+          content: input.content,
+        })
+        .returning();
+
+      const created = result[0];
+
+      if (!created) {
+        return err(unexpectedError("Comment creation returned no result"));
+      }
+
+      return ok(toComment(created));
+    } catch (error) {
+      return err(unexpectedError("Failed to create comment", error));
+    }
+  },
+
+  async update(
+    id: string,
+    input: UpdateCommentInput,
+  ): Promise<Result<Comment, CommentRepositoryError>> {
+    try {
+      const result = await db
+        .update(comments)
+        .set({ content: input.content, updatedAt: new Date() })
+        .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+        .returning();
+
+      const updated = result[0];
+
+      if (!updated) {
+        return err(notFoundError("Comment", id));
+      }
+
+      return ok(toComment(updated));
+    } catch (error) {
+      return err(unexpectedError("Failed to update comment", error));
+    }
+  },
+
+  async delete(id: string): Promise<Result<void, CommentRepositoryError>> {
+    try {
+      const result = await db
+        .update(comments)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+        .returning({ id: comments.id });
+
+      if (result.length === 0) {
+        return err(notFoundError("Comment", id));
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(unexpectedError("Failed to delete comment", error));
+    }
+  },
+});
@@ -0,0 +1,117 @@
+/**
+ * SQLite Credential Repository implementation using Drizzle ORM.
+ */
+
+import { eq, sql } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { credentials } from "@bun-hono-ddd-template/db/sqlite";
+
+import {
+  conflictError,
+  notFoundError,
+  unexpectedError,
+} from "../../domain/errors";
+import type {
+  CreateCredentialInput,
+  Credential,
+  CredentialRepository,
+  CredentialRepositoryError,
+} from "../interfaces/credential-repository";
+import type { SqliteDatabase } from "./db";
+import { isUniqueViolation } from "./errors";
+
+/**
+ * Map database row to Credential entity.
+ */
+const toCredential = (row: typeof credentials.$inferSelect): Credential => ({
+  userId: row.userId,
+  passwordHash: row.passwordHash,
+  sessionVersion: row.sessionVersion,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+/**
+ * Create a SQLite Credential Repository.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns CredentialRepository implementation
+ */
+export const createSqliteCredentialRepository = (
+  db: SqliteDatabase,
+): CredentialRepository => ({
+  async findByUserId(
+    userId: string,
+  ): Promise<Result<Credential | null, CredentialRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(credentials)
+        .where(eq(credentials.userId, userId))
+        .limit(1);
+
+      return ok(result[0] ? toCredential(result[0]) : null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find credential", error));
+    }
+  },
+
+  async create(
+    input: CreateCredentialInput,
+  ): Promise<Result<Credential, CredentialRepositoryError>> {
+    try {
+      const result = await db
+        .insert(credentials)
+        .values({
+          userId: input.userId,
+          passwordHash: input.passwordHash,
+        })
+        .returning();
+
+      const created = result[0];
+
+      if (!created) {
+        return err(unexpectedError("Credential creation returned no result"));
+      }
+
+      return ok(toCredential(created));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return err(
+          conflictError(
+            `Credential for user '${input.userId}' already exists`,
+            { resource: "Credential", conflictReason: "duplicate_credential" },
+          ),
+        );
+      }
+
+      return err(unexpectedError("Failed to create credential", error));
+    }
+  },
+
+  async incrementSessionVersion(
+    userId: string,
+  ): Promise<Result<Credential, CredentialRepositoryError>> {
+    try {
+      const result = await db
+        .update(credentials)
+        .set({
+          sessionVersion: sql`${credentials.sessionVersion} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(credentials.userId, userId))
+        .returning();
+
+      const updated = result[0];
+
+      if (!updated) {
+        return err(notFoundError("Credential", userId));
+      }
+
+      return ok(toCredential(updated));
+    } catch (error) {
+      return err(unexpectedError("Failed to revoke sessions", error));
+    }
+  },
+});
@@ -0,0 +1,65 @@
+/**
+ * SQLite database factory for the embedded backend (bun:sqlite).
+ */
+
+import { Database as SQLiteClient } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+import { drizzle, type BunSQLiteDatabase } from "drizzle-orm/bun-sqlite";
+import { migrate } from "drizzle-orm/bun-sqlite/migrator";
+
+import * as schema from "@bun-hono-ddd-template/db/sqlite";
+
+/**
+ * Database type with schema inference.
+ */
+export type SqliteDatabase = BunSQLiteDatabase<typeof schema>;
+
+/**
+ * Path that keeps the database in memory only.
+ */
+export const IN_MEMORY_SQLITE_PATH = ":memory:";
+
+/**
+ * Options for opening a SQLite database.
+ */
+export interface CreateSqliteDbOptions {
+  /** Database file path, or ":memory:" */
+  readonly path: string;
+}
+
+/**
+ * Open database plus its underlying connection.
+ */
+export interface SqliteConnection {
+  readonly db: SqliteDatabase;
+  readonly client: SQLiteClient;
+}
+
+/**
+ * Open a SQLite database and bring its schema up to date.
+ * The embedded backend migrates on open: there is no separate server whose
+ * schema could drift from the code.
+ *
+ * @param options - File location
+ * @returns Drizzle database and the raw connection (close it on shutdown)
+ */
+export const createSqliteDb = (
+  options: CreateSqliteDbOptions,
+): SqliteConnection => {
+  if (options.path !== IN_MEMORY_SQLITE_PATH) {
+    mkdirSync(dirname(options.path), { recursive: true });
+  }
+
+  const client = new SQLiteClient(options.path, { create: true });
+
+  // WAL lets readers proceed during writes; FKs are off by default in SQLite
+  client.run("PRAGMA journal_mode = WAL");
+  client.run("PRAGMA foreign_keys = ON");
+
+  const db = drizzle(client, { schema });
+  migrate(db, { migrationsFolder: schema.SQLITE_MIGRATIONS_FOLDER });
+
+  return { db, client };
+};
@@ -0,0 +1,100 @@
+/**
+ * SQLite Email Verification Token Repository implementation using Drizzle ORM.
+ */
+
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { emailVerificationTokens } from "@bun-hono-ddd-template/db/sqlite";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  CreateEmailVerificationTokenInput,
+  EmailVerificationToken,
+  EmailVerificationTokenRepository,
+  EmailVerificationTokenRepositoryError,
+} from "../interfaces/email-verification-token-repository";
+import type { SqliteDatabase } from "./db";
+
+/**
+ * Map database row to EmailVerificationToken entity.
+ */
+const toEmailVerificationToken = (
+  row: typeof emailVerificationTokens.$inferSelect,
+): EmailVerificationToken => ({
+  id: row.id,
+  userId: row.userId,
+  email: row.email,
+  tokenHash: row.tokenHash,
+  expiresAt: row.expiresAt,
+  consumedAt: row.consumedAt,
+  createdAt: row.createdAt,
+});
+
+/**
+ * Create a SQLite Email Verification Token Repository.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns EmailVerificationTokenRepository implementation
+ */
+export const createSqliteEmailVerificationTokenRepository = (
+  db: SqliteDatabase,
+): EmailVerificationTokenRepository => ({
+  async create(
+    input: CreateEmailVerificationTokenInput,
+  ): Promise<
+    Result<EmailVerificationToken, EmailVerificationTokenRepositoryError>
+  > {
+    try {
+      const result = await db
+        .insert(emailVerificationTokens)
+        .values({
+          userId: input.userId,
+          email: input.email,
+          tokenHash: input.tokenHash,
+          expiresAt: input.expiresAt,
+        })
+        .returning();
+
+      const created = result[0];
+
+      if (!created) {
+        return err(
+          unexpectedError("Verification token creation returned no result"),
+        );
+      }
+
+      return ok(toEmailVerificationToken(created));
+    } catch (error) {
+      return err(unexpectedError("Failed to create verification token", error));
+    }
+  },
+
+  async consume(
+    tokenHash: string,
+    now: Date,
+  ): Promise<
+    Result<EmailVerificationToken | null, EmailVerificationTokenRepositoryError>
+  > {
+    try {
+      // Single conditional UPDATE so concurrent requests cannot both consume
+      const result = await db
+        .update(emailVerificationTokens)
+        .set({ consumedAt: now })
+        .where(
+          and(
+            eq(emailVerificationTokens.tokenHash, tokenHash),
+            isNull(emailVerificationTokens.consumedAt),
+            gt(emailVerificationTokens.expiresAt, now),
+          ),
+        )
+        .returning();
+
+      return ok(result[0] ? toEmailVerificationToken(result[0]) : null);
+    } catch (error) {
+      return err(
+        unexpectedError("Failed to consume verification token", error),
+      );
+    }
+  },
+});
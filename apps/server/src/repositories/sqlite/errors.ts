@@ -0,0 +1,33 @@
+/**
+ * SQLite driver error inspection.
+ */
+
+/**
+ * Result codes for UNIQUE and PRIMARY KEY constraint failures.
+ */
+const UNIQUE_VIOLATIONS = new Set([
+  "SQLITE_CONSTRAINT_UNIQUE",
+  "SQLITE_CONSTRAINT_PRIMARYKEY",
+]);
+
+/**
+ * Check if error is a SQLite unique or primary key violation.
+ * Searches the cause chain in case the driver error was wrapped.
+ */
+export const isUniqueViolation = (error: unknown): boolean => {
+  let current: unknown = error;
+
+  while (typeof current === "object" && current !== null) {
+    if (
+      "code" in current &&
+      typeof current.code === "string" &&
+      UNIQUE_VIOLATIONS.has(current.code)
+    ) {
+      return true;
+    }
+
+    current = "cause" in current ? current.cause : undefined;
+  }
+
+  return false;
+};
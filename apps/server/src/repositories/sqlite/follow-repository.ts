@@ -0,0 +1,180 @@
+/**
+ * SQLite Follow Repository implementation using Drizzle ORM.
+ * The feed join and its (publishedAt, id) seek mirror the Postgres adapter.
+ */
+
+import { and, asc, count, desc, eq, isNull, sql } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { follows, posts, users } from "@bun-hono-ddd-template/db/sqlite";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  FindFeedOptions,
+  FindFeedResult,
+  FindFollowsOptions,
+  FindFollowsResult,
+  FollowRepository,
+  FollowRepositoryError,
+} from "../interfaces/follow-repository";
+import type { SqliteDatabase } from "./db";
+import { findPostTags, toPost } from "./post-repository";
+import { toUser } from "./user-repository";
+
+/**
+ * Create a SQLite Follow Repository.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns FollowRepository implementation
+ */
+export const createSqliteFollowRepository = (
+  db: SqliteDatabase,
+): FollowRepository => {
+  /**
+   * Page through the active users on one side of a user's follows.
+   */
+  const listFollows = async (
+    userId: string,
+    side: "followers" | "following",
+    options: FindFollowsOptions,
+  ): Promise<FindFollowsResult> => {
+    const [own, other] =
+      side === "followers" ?
+        [follows.followeeId, follows.followerId]
+      : [follows.followerId, follows.followeeId];
+
+    const whereClause = and(eq(own, userId), isNull(users.deletedAt));
+
+    const [rows, countResult] = await Promise.all([
+      db
+        .select({ user: users, followedAt: follows.createdAt })
+        .from(follows)
+        .innerJoin(users, eq(users.id, other))
+        .where(whereClause)
+        .orderBy(desc(follows.createdAt), asc(users.id))
+        .limit(options.limit)
+        .offset(options.offset),
+      db
+        .select({ count: count() })
+        .from(follows)
+        .innerJoin(users, eq(users.id, other))
+        .where(whereClause),
+    ]);
+
+    return {
+      entries: rows.map((row) => ({
+        user: toUser(row.user),
+        followedAt: row.followedAt,
+      })),
+      total: countResult[0]?.count ?? 0,
+    };
+  };
+
+  return {
+    async follow(
+      followerId: string,
+      followeeId: string,
+    ): Promise<Result<void, FollowRepositoryError>> {
+      try {
+        await db
+          .insert(follows)
+          .values({ followerId, followeeId })
+          .onConflictDoNothing();
+
+        return ok(undefined);
+      } catch (error) {
+        return err(unexpectedError("Failed to follow user", error));
+      }
+    },
+
+    async unfollow(
+      followerId: string,
+      followeeId: string,
+    ): Promise<Result<void, FollowRepositoryError>> {
+      try {
+        await db
+          .delete(follows)
+          .where(
+            and(
+              eq(follows.followerId, followerId),
+              eq(follows.followeeId, followeeId),
+            ),
+          );
+
+        return ok(undefined);
+      } catch (error) {
+        return err(unexpectedError("Failed to unfollow user", error));
+      }
+    },
+
+    async findFollowers(
+      userId: string,
+      options: FindFollowsOptions,
+    ): Promise<Result<FindFollowsResult, FollowRepositoryError>> {
+      try {
+        return ok(await listFollows(userId, "followers", options));
+      } catch (error) {
+        return err(unexpectedError("Failed to find followers", error));
+      }
+    },
+
+    async findFollowing(
+      userId: string,
+      options: FindFollowsOptions,
+    ): Promise<Result<FindFollowsResult, FollowRepositoryError>> {
+      try {
+        return ok(await listFollows(userId, "following", options));
+      } catch (error) {
+        return err(unexpectedError("Failed to find followed users", error));
+      }
+    },
+
+    async findFeed(
+      followerId: string,
+      options: FindFeedOptions,
+    ): Promise<Result<FindFeedResult, FollowRepositoryError>> {
+      try {
+        const { cursor, limit } = options;
+        const backwards = cursor?.direction === "prev";
+
+        // Newest first: "next" reads older posts, "prev" newer ones
+        const position =
+          cursor ?
+            sql`(${posts.publishedAt}, ${posts.id}) ${sql.raw(backwards ? ">" : "<")} (${sql.param(new Date(cursor.values[0] ?? ""), posts.publishedAt)}, ${cursor.id})`
+          : undefined;
+        const order = backwards ? asc : desc;
+
+        const rows = await db
+          .select({ post: posts })
+          .from(follows)
+          .innerJoin(posts, eq(posts.authorId, follows.followeeId))
+          .where(
+            and(
+              eq(follows.followerId, followerId),
+              // Inlined so the planner can match the partial index predicate
+              sql`${posts.status} = 'published'`,
+              isNull(posts.deletedAt),
+              position,
+            ),
+          )
+          .orderBy(order(posts.publishedAt), order(posts.id))
+          .limit(limit + 1);
+
+        const page = rows.slice(0, limit).map((row) => row.post);
+        if (backwards) page.reverse();
+
+        const tagsByPost = await findPostTags(
+          db,
+          page.map((row) => row.id),
+        );
+
+        return ok({
+          posts: page.map((row) => toPost(row, tagsByPost.get(row.id) ?? [])),
+          hasMore: rows.length > limit,
+        });
+      } catch (error) {
+        return err(unexpectedError("Failed to find feed", error));
+      }
+    },
+  };
+};
@@ -0,0 +1,26 @@
+/**
+ * SQLite repository implementations index (embedded bun:sqlite backend).
+ */
+
+export { createSqliteDb, IN_MEMORY_SQLITE_PATH } from "./db";
+export type {
+  CreateSqliteDbOptions,
+  SqliteConnection,
+  SqliteDatabase,
+} from "./db";
+
+export { createSqliteUserRepository } from "./user-repository";
+export { createSqlitePostRepository } from "./post-repository";
+export { createSqlitePostRevisionRepository } from "./post-revision-repository";
+export { createSqliteCommentRepository } from "./comment-repository";
+export { createSqliteFollowRepository } from "./follow-repository";
+export { createSqliteReactionRepository } from "./reaction-repository";
+export { createSqliteCredentialRepository } from "./credential-repository";
+export { createSqliteEmailVerificationTokenRepository } from "./email-verification-token-repository";
+export { createSqlitePersonalAccessTokenRepository } from "./personal-access-token-repository";
+export { createSqliteIdempotencyKeyRepository } from "./idempotency-key-repository";
+export { createSqliteJobRepository } from "./job-repository";
+export { createSqliteTagRepository } from "./tag-repository";
+export { createSqliteUserStatisticsQuery } from "./user-statistics-query";
+export { createSqlitePostSearch } from "./post-search";
+export { createSqliteUnitOfWork } from "./unit-of-work";
@@ -0,0 +1,209 @@
+/**
+ * SQLite Job Repository implementation using Drizzle ORM.
+ */
+
+import { and, asc, eq, inArray, lt, lte, or, sql } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { jobs } from "@bun-hono-ddd-template/db/sqlite";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  ClaimJobsOptions,
+  EnqueueJobInput,
+  Job,
+  JobRepository,
+  JobRepositoryError,
+} from "../interfaces/job-repository";
+import type { SqliteDatabase } from "./db";
+
+/**
+ * Map database row to Job entity.
+ */
+const toJob = (row: typeof jobs.$inferSelect): Job => ({
+  id: row.id,
+  type: row.type,
+  payload: row.payload,
+  status: row.status,
+  runAt: row.runAt,
+  attempts: row.attempts,
+  maxAttempts: row.maxAttempts,
+  lastError: row.lastError,
+  lockedUntil: row.lockedUntil,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+/**
+ * Create a SQLite Job Repository.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns JobRepository implementation
+ */
+export const createSqliteJobRepository = (
+  db: SqliteDatabase,
+): JobRepository => {
+  /**
+   * Apply changes to a job that is still running.
+   */
+  const settle = async (
+    id: string,
+    changes: Partial<typeof jobs.$inferInsert>,
+  ): Promise<void> => {
+    await db
+      .update(jobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running")));
+  };
+
+  return {
+    async findById(
+      id: string,
+    ): Promise<Result<Job | null, JobRepositoryError>> {
+      try {
+        const result = await db
+          .select()
+          .from(jobs)
+          .where(eq(jobs.id, id))
+          .limit(1);
+
+        return ok(result[0] ? toJob(result[0]) : null);
+      } catch (error) {
+        return err(unexpectedError("Failed to find job by id", error));
+      }
+    },
+
+    async enqueue(
+      input: EnqueueJobInput,
+    ): Promise<Result<Job, JobRepositoryError>> {
+      try {
+        const result = await db
+          .insert(jobs)
+          .values({
+            type: input.type,
+            payload: { ...input.payload },
+            runAt: input.runAt,
+            maxAttempts: input.maxAttempts,
+          })
+          .returning();
+
+        const created = result[0];
+
+        if (!created) {
+          return err(unexpectedError("Job creation returned no result"));
+        }
+
+        return ok(toJob(created));
+      } catch (error) {
+        return err(unexpectedError("Failed to enqueue job", error));
+      }
+    },
+
+    async claim(
+      options: ClaimJobsOptions,
+    ): Promise<Result<readonly Job[], JobRepositoryError>> {
+      try {
+        // SQLite serializes writers, so the update claims the rows atomically
+        const due = db
+          .select({ id: jobs.id })
+          .from(jobs)
+          .where(
+            or(
+              and(eq(jobs.status, "pending"), lte(jobs.runAt, options.now)),
+              and(
+                eq(jobs.status, "running"),
+                lte(jobs.lockedUntil, options.now),
+              ),
+            ),
+          )
+          .orderBy(asc(jobs.runAt))
+          .limit(options.limit);
+
+        const claimed = await db
+          .update(jobs)
+          .set({
+            status: "running",
+            attempts: sql`${jobs.attempts} + 1`,
+            lockedUntil: options.lockedUntil,
+            updatedAt: options.now,
+          })
+          .where(inArray(jobs.id, due))
+          .returning();
+
+        return ok(
+          claimed
+            .map(toJob)
+            .sort((a, b) => a.runAt.getTime() - b.runAt.getTime()),
+        );
+      } catch (error) {
+        return err(unexpectedError("Failed to claim jobs", error));
+      }
+    },
+
+    async complete(id: string): Promise<Result<void, JobRepositoryError>> {
+      try {
+        await settle(id, { status: "completed", lockedUntil: null });
+
+        return ok(undefined);
+      } catch (error) {
+        return err(unexpectedError("Failed to complete job", error));
+      }
+    },
+
+    async retry(
+      id: string,
+      runAt: Date,
+      error: string,
+    ): Promise<Result<void, JobRepositoryError>> {
+      try {
+        await settle(id, {
+          status: "pending",
+          runAt,
+          lastError: error,
+          lockedUntil: null,
+        });
+
+        return ok(undefined);
+      } catch (cause) {
+        return err(unexpectedError("Failed to reschedule job", cause));
+      }
+    },
+
+    async fail(
+      id: string,
+      error: string,
+    ): Promise<Result<void, JobRepositoryError>> {
+      try {
+        await settle(id, {
+          status: "failed",
+          lastError: error,
+          lockedUntil: null,
+        });
+
+        return ok(undefined);
+      } catch (cause) {
+        return err(unexpectedError("Failed to mark job failed", cause));
+      }
+    },
+
+    async purgeSettled(
+      settledBefore: Date,
+    ): Promise<Result<number, JobRepositoryError>> {
+      try {
+        const result = await db
+          .delete(jobs)
+          .where(
+            and(
+              inArray(jobs.status, ["completed", "failed"]),
+              lt(jobs.updatedAt, settledBefore),
+            ),
+          )
+          .returning({ id: jobs.id });
+
+        return ok(result.length);
+      } catch (cause) {
+        return err(unexpectedError("Failed to purge settled jobs", cause));
+      }
+    },
+  };
+};
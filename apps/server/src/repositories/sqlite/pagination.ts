@@ -0,0 +1,131 @@
+/**
+ * Sorting and keyset pagination helpers for Drizzle SQLite queries.
+ * Mirrors the Postgres helpers: rows are ordered by the requested sort keys
+ * followed by `id`, and cursors seek with a row-value comparison when every
+ * key shares a direction. SQLite's default BINARY collation already orders
+ * text byte for byte, so no COLLATE clause is needed.
+ */
+
+import { type SQL, and, asc, desc, or, sql } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+
+import {
+  DEFAULT_SORT,
+  type PageOptions,
+  type SortDirection,
+  type SortKey,
+} from "../interfaces/pagination";
+
+// Offset, limit and page trimming do not depend on the dialect
+export { keysetLimit, keysetOffset, toPage } from "../postgres/pagination";
+
+/**
+ * Columns of a table that take part in sorting.
+ */
+export interface KeysetColumns<F extends string> {
+  readonly id: SQLiteColumn;
+  readonly sortable: Readonly<Record<F, SQLiteColumn>>;
+}
+
+/**
+ * Resolved sort key: the column to order by and its direction.
+ */
+interface OrderKey {
+  readonly column: SQLiteColumn;
+  readonly direction: SortDirection;
+}
+
+/**
+ * Resolve the sort keys of a page, always ending with `id` ascending.
+ */
+const orderKeys = <F extends string>(
+  columns: KeysetColumns<F>,
+  options: PageOptions<F>,
+): OrderKey[] => {
+  const sort = options.sort ?? (DEFAULT_SORT as readonly SortKey<F>[]);
+
+  return [
+    ...sort.map((key) => ({
+      column: columns.sortable[key.field],
+      direction: key.direction,
+    })),
+    { column: columns.id, direction: "asc" as const },
+  ];
+};
+
+/**
+ * Build the seek condition for a cursor, or undefined in offset mode.
+ */
+export const keysetCondition = <F extends string>(
+  columns: KeysetColumns<F>,
+  options: PageOptions<F>,
+): SQL | undefined => {
+  const { cursor } = options;
+
+  if (!cursor) return undefined;
+
+  const keys = orderKeys(columns, options);
+  const values = [...cursor.values, cursor.id];
+
+  // Encode through the column so timestamps become epoch milliseconds
+  const params = keys.map((key, index) => {
+    const value = values[index] ?? "";
+
+    return sql.param(
+      key.column.dataType === "date" ? new Date(value) : value,
+      key.column,
+    );
+  });
+
+  const operator = (direction: SortDirection) =>
+    sql.raw(
+      (direction === "asc") === (cursor.direction === "next") ? ">" : "<",
+    );
+
+  const [first] = keys;
+
+  if (first && keys.every((key) => key.direction === first.direction)) {
+    return sql`(${sql.join(
+      keys.map((key) => key.column),
+      sql`, `,
+    )}) ${operator(first.direction)} (${sql.join(params, sql`, `)})`;
+  }
+
+  return or(
+    ...keys.map((key, index) =>
+      and(
+        ...keys
+          .slice(0, index)
+          .map(
+            (prior, priorIndex) => sql`${prior.column} = ${params[priorIndex]}`,
+          ),
+        sql`${key.column} ${operator(key.direction)} ${params[index]}`,
+      ),
+    ),
+  );
+};
+
+/**
+ * ORDER BY clauses for a page.
+ * Reading backwards flips every key; callers restore the requested order
+ * with toPage.
+ */
+export const keysetOrderBy = <F extends string>(
+  columns: KeysetColumns<F>,
+  options: PageOptions<F>,
+): SQL[] => {
+  const backwards = options.cursor?.direction === "prev";
+
+  return orderKeys(columns, options).map((key) =>
+    (key.direction === "asc") !== backwards ?
+      asc(key.column)
+    : desc(key.column),
+  );
+};
+
+/**
+ * Case-insensitive substring match with LIKE wildcards in the needle escaped.
+ * SQLite's LIKE ignores case for ASCII letters only.
+ */
+export const containsIgnoreCase = (column: SQLiteColumn, needle: string): SQL =>
+  sql`${column} like ${`%${needle.replace(/[\\%_]/g, "\\$&")}%`} escape '\\'`;
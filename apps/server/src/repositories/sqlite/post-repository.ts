@@ -0,0 +1,444 @@
+/**
+ * SQLite Post Repository implementation using Drizzle ORM.
+ */
+
+import {
+  and,
+  asc,
+  count,
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  or,
+  sql,
+} from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { postTags, posts, tags } from "@bun-hono-ddd-template/db/sqlite";
+
+import {
+  notFoundError,
+  preconditionFailedError,
+  unexpectedError,
+} from "../../domain/errors";
+import type { PreconditionFailedError } from "../../domain/errors";
+import type {
+  CreatePostInput,
+  FindAllPostsOptions,
+  FindAllPostsResult,
+  Post,
+  PostRepository,
+  PostRepositoryError,
+  PostSortField,
+  UpdatePostInput,
+} from "../interfaces/post-repository";
+import type { SqliteDatabase } from "./db";
+import {
+  type KeysetColumns,
+  containsIgnoreCase,
+  keysetCondition,
+  keysetLimit,
+  keysetOffset,
+  keysetOrderBy,
+  toPage,
+} from "./pagination";
+
+/**
+ * Synchronous transaction handle of the bun:sqlite driver.
+ */
+type SqliteTransaction = Parameters<
+  Parameters<SqliteDatabase["transaction"]>[0]
+>[0];
+
+/**
+ * Map database row and its tag names to Post entity.
+ */
+export const toPost = (
+  row: typeof posts.$inferSelect,
+  tagNames: readonly string[],
+): Post => ({
+  id: row.id,
+  title: row.title,
+  content: row.content,
+  authorId: row.authorId,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  deletedAt: row.deletedAt,
+  status: row.status,
+  publishedAt: row.publishedAt,
+  publishAt: row.publishAt,
+  tags: tagNames,
+  version: row.version,
+});
+
+/**
+ * Load the tag names of the given posts, sorted by name.
+ *
+ * @param db - Drizzle SQLite database
+ * @param postIds - Posts to load tags for
+ * @returns Tag names keyed by post id (posts without tags are absent)
+ */
+export const findPostTags = async (
+  db: SqliteDatabase,
+  postIds: readonly string[],
+): Promise<Map<string, string[]>> => {
+  const tagsByPost = new Map<string, string[]>();
+
+  if (postIds.length === 0) return tagsByPost;
+
+  const rows = await db
+    .select({ postId: postTags.postId, name: tags.name })
+    .from(postTags)
+    .innerJoin(tags, eq(tags.id, postTags.tagId))
+    .where(inArray(postTags.postId, [...postIds]))
+    .orderBy(asc(tags.name));
+
+  for (const row of rows) {
+    tagsByPost.set(row.postId, [
+      ...(tagsByPost.get(row.postId) ?? []),
+      row.name,
+    ]);
+  }
+
+  return tagsByPost;
+};
+
+/**
+ * Map database rows to Post entities, loading their tags in one query.
+ */
+const toPostsWithTags = async (
+  db: SqliteDatabase,
+  rows: readonly (typeof posts.$inferSelect)[],
+): Promise<Post[]> => {
+  const tagsByPost = await findPostTags(
+    db,
+    rows.map((row) => row.id),
+  );
+
+  return rows.map((row) => toPost(row, tagsByPost.get(row.id) ?? []));
+};
+
+/**
+ * Replace a post's tags inside a transaction, creating missing tags.
+ * Tags left without posts are kept; usage counts skip them.
+ */
+const replacePostTags = (
+  tx: SqliteTransaction,
+  postId: string,
+  tagNames: readonly string[],
+): void => {
+  tx.delete(postTags).where(eq(postTags.postId, postId)).run();
+
+  if (tagNames.length === 0) return;
+
+  tx.insert(tags)
+    .values(tagNames.map((name) => ({ name })))
+    .onConflictDoNothing({ target: tags.name })
+    .run();
+
+  const tagRows = tx
+    .select({ id: tags.id })
+    .from(tags)
+    .where(inArray(tags.name, [...tagNames]))
+    .all();
+
+  tx.insert(postTags)
+    .values(tagRows.map((tag) => ({ postId, tagId: tag.id })))
+    .run();
+};
+
+/**
+ * Sortable post columns (allow-list for PostSortField).
+ */
+const postKeyset: KeysetColumns<PostSortField> = {
+  id: posts.id,
+  sortable: {
+    createdAt: posts.createdAt,
+    updatedAt: posts.updatedAt,
+    title: posts.title,
+  },
+};
+
+/**
+ * Create a SQLite Post Repository.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns PostRepository implementation
+ */
+export const createSqlitePostRepository = (
+  db: SqliteDatabase,
+): PostRepository => ({
+  async findById(
+    id: string,
+  ): Promise<Result<Post | null, PostRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(posts)
+        .where(and(eq(posts.id, id), isNull(posts.deletedAt)))
+        .limit(1);
+
+      const [post] = await toPostsWithTags(db, result);
+
+      return ok(post ?? null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find post by id", error));
+    }
+  },
+
+  async findByIdIncludingDeleted(
+    id: string,
+  ): Promise<Result<Post | null, PostRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(posts)
+        .where(eq(posts.id, id))
+        .limit(1);
+
+      const [post] = await toPostsWithTags(db, result);
+
+      return ok(post ?? null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find post by id", error));
+    }
+  },
+
+  async findAll(
+    options: FindAllPostsOptions,
+  ): Promise<Result<FindAllPostsResult, PostRepositoryError>> {
+    try {
+      const conditions = [
+        isNull(posts.deletedAt),
+        options.viewerId === undefined ?
+          eq(posts.status, "published")
+        : or(
+            eq(posts.status, "published"),
+            eq(posts.authorId, options.viewerId),
+          ),
+      ];
+
+      if (options.status) {
+        conditions.push(eq(posts.status, options.status));
+      }
+
+      if (options.authorId) {
+        conditions.push(eq(posts.authorId, options.authorId));
+      }
+
+      if (options.tag) {
+        conditions.push(
+          inArray(
+            posts.id,
+            db
+              .select({ postId: postTags.postId })
+              .from(postTags)
+              .innerJoin(tags, eq(tags.id, postTags.tagId))
+              .where(eq(tags.name, options.tag)),
+          ),
+        );
+      }
+
+      if (options.createdAfter) {
+        conditions.push(gt(posts.createdAt, options.createdAfter));
+      }
+
+      if (options.createdBefore) {
+        conditions.push(lt(posts.createdAt, options.createdBefore));
+      }
+
+      if (options.titleContains) {
+        conditions.push(containsIgnoreCase(posts.title, options.titleContains));
+      }
+
+      const whereClause = and(...conditions);
+
+      const [postsResult, countResult] = await Promise.all([
+        db
+          .select()
+          .from(posts)
+          .where(and(whereClause, keysetCondition(postKeyset, options)))
+          .orderBy(...keysetOrderBy(postKeyset, options))
+          .limit(keysetLimit(options))
+          .offset(keysetOffset(options)),
+        db.select({ count: count() }).from(posts).where(whereClause),
+      ]);
+
+      const total = countResult[0]?.count ?? 0;
+      const { items, hasMore } = toPage(postsResult, options, total);
+
+      return ok({
+        posts: await toPostsWithTags(db, items),
+        total,
+        hasMore,
+      });
+    } catch (error) {
+      return err(unexpectedError("Failed to find all posts", error));
+    }
+  },
+
+  async create(
+    input: CreatePostInput,
+  ): Promise<Result<Post, PostRepositoryError>> {
+    try {
+      const tagNames = [...(input.tags ?? [])].sort();
+
+      // Tags are written in the same transaction as the post
+      const created = db.transaction((tx) => {
+        const row = tx
+          .insert(posts)
+          .values({
+            title: input.title,
+            content: input.content,
+            authorId: input.authorId,
+            status: input.status,
+            publishedAt: input.status === "published" ? new Date() : null,
+          })
+          .returning()
+          .get();
+
+        if (row) replacePostTags(tx, row.id, tagNames);
+
+        return row;
+      });
+
+      if (!created) {
+        return err(unexpectedError("Post creation returned no result"));
+      }
+
+      return ok(toPost(created, tagNames));
+    } catch (error) {
+      return err(unexpectedError("Failed to create post", error));
+    }
+  },
+
+  async update(
+    id: string,
+    input: UpdatePostInput,
+  ): Promise<Result<Post, PostRepositoryError | PreconditionFailedError>> {
+    try {
+      // Build update object with only provided fields
+      const updateData: Partial<typeof posts.$inferInsert> = {
+        updatedAt: new Date(),
+      };
+
+      if (input.title !== undefined) updateData.title = input.title;
+      if (input.content !== undefined) updateData.content = input.content;
+      if (input.status !== undefined) updateData.status = input.status;
+      if (input.publishedAt !== undefined) {
+        updateData.publishedAt = input.publishedAt;
+      }
+      if (input.publishAt !== undefined) updateData.publishAt = input.publishAt;
+
+      // Tags are written in the same transaction as the post
+      const updated = db.transaction((tx) => {
+        const row = tx
+          .update(posts)
+          .set({ ...updateData, version: sql`${posts.version} + 1` })
+          .where(
+            and(
+              eq(posts.id, id),
+              isNull(posts.deletedAt),
+              input.expectedVersion === undefined ?
+                undefined
+              : eq(posts.version, input.expectedVersion),
+            ),
+          )
+          .returning()
+          .get();
+
+        if (row && input.tags !== undefined) {
+          replacePostTags(tx, id, input.tags);
+        }
+
+        return row;
+      });
+
+      if (!updated) {
+        if (input.expectedVersion === undefined) {
+          return err(notFoundError("Post", id));
+        }
+
+        // The version guard may be what filtered the row out
+        const current = await db
+          .select({ id: posts.id })
+          .from(posts)
+          .where(and(eq(posts.id, id), isNull(posts.deletedAt)))
+          .limit(1);
+
+        return err(
+          current.length > 0 ?
+            preconditionFailedError("Post", id)
+          : notFoundError("Post", id),
+        );
+      }
+
+      const tagsByPost = await findPostTags(db, [id]);
+
+      return ok(toPost(updated, tagsByPost.get(id) ?? []));
+    } catch (error) {
+      return err(unexpectedError("Failed to update post", error));
+    }
+  },
+
+  async delete(id: string): Promise<Result<void, PostRepositoryError>> {
+    try {
+      const result = await db
+        .update(posts)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(posts.id, id), isNull(posts.deletedAt)))
+        .returning({ id: posts.id });
+
+      if (result.length === 0) {
+        return err(notFoundError("Post", id));
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(unexpectedError("Failed to delete post", error));
+    }
+  },
+
+  async restore(id: string): Promise<Result<Post, PostRepositoryError>> {
+    try {
+      const result = await db
+        .update(posts)
+        .set({
+          deletedAt: null,
+          updatedAt: new Date(),
+          version: sql`${posts.version} + 1`,
+        })
+        .where(and(eq(posts.id, id), isNotNull(posts.deletedAt)))
+        .returning();
+
+      const [restored] = await toPostsWithTags(db, result);
+
+      if (!restored) {
+        return err(notFoundError("Post", id));
+      }
+
+      return ok(restored);
+    } catch (error) {
+      return err(unexpectedError("Failed to restore post", error));
+    }
+  },
+
+  async purge(
+    deletedBefore: Date,
+  ): Promise<Result<number, PostRepositoryError>> {
+    try {
+      // Dependent rows go with the post through ON DELETE CASCADE
+      const result = await db
+        .delete(posts)
+        .where(lt(posts.deletedAt, deletedBefore))
+        .returning({ id: posts.id });
+
+      return ok(result.length);
+    } catch (error) {
+      return err(unexpectedError("Failed to purge posts", error));
+    }
+  },
+});
@@ -0,0 +1,121 @@
+/**
+ * SQLite Post Search implementation using FTS5.
+ * Matches against the `post_fts` index (kept in sync by triggers), ranks
+ * with bm25 and highlights with snippet. Like the in-memory search, every
+ * query term must match; the porter tokenizer adds English stemming.
+ */
+
+import { and, asc, count, eq, getTableColumns, isNull, sql } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { posts } from "@bun-hono-ddd-template/db/sqlite";
+
+import { unexpectedError } from "../../domain/errors";
+import {
+  type PostSearch,
+  type PostSearchError,
+  SNIPPET_HIGHLIGHT,
+  type SearchPostsOptions,
+  type SearchPostsResult,
+} from "../interfaces/post-search";
+import type { SqliteDatabase } from "./db";
+import { findPostTags, toPost } from "./post-repository";
+
+/**
+ * Word pattern for query terms; FTS5 syntax in the query is not supported.
+ */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Control characters marking matches in raw snippets, replaced by
+ * SNIPPET_HIGHLIGHT once the text is escaped.
+ */
+const MATCH_START = "\u0002";
+const MATCH_STOP = "\u0003";
+
+/**
+ * Words of context in a snippet.
+ */
+const SNIPPET_TOKENS = 32;
+
+/**
+ * Build an FTS5 query requiring every word, each quoted as a literal term.
+ */
+const toMatchQuery = (query: string): string =>
+  Array.from(query.matchAll(WORD_PATTERN), (match) => `"${match[0]}"`).join(
+    " ",
+  );
+
+/**
+ * Escape a raw snippet for HTML and turn its match markers into highlights.
+ */
+const toSnippet = (raw: string): string =>
+  raw
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replaceAll(MATCH_START, SNIPPET_HIGHLIGHT.start)
+    .replaceAll(MATCH_STOP, SNIPPET_HIGHLIGHT.stop);
+
+/**
+ * Create a SQLite Post Search.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns PostSearch implementation
+ */
+export const createSqlitePostSearch = (db: SqliteDatabase): PostSearch => ({
+  async search(
+    options: SearchPostsOptions,
+  ): Promise<Result<SearchPostsResult, PostSearchError>> {
+    const matchQuery = toMatchQuery(options.query);
+
+    if (matchQuery === "") {
+      return ok({ hits: [], total: 0 });
+    }
+
+    try {
+      // bm25 is lower for better matches; titles weigh more than content
+      const bm25 = sql<number>`bm25(post_fts, 1.0, 0.4)`;
+      const snippet = sql<string>`snippet(post_fts, -1, ${MATCH_START}, ${MATCH_STOP}, '…', ${SNIPPET_TOKENS})`;
+      const whereClause = and(
+        isNull(posts.deletedAt),
+        eq(posts.status, "published"),
+        sql`post_fts match ${matchQuery}`,
+      );
+      const joinOn = sql`post_fts.rowid = ${posts}.rowid`;
+
+      const [rows, countResult] = await Promise.all([
+        db
+          .select({ ...getTableColumns(posts), bm25, snippet })
+          .from(posts)
+          .innerJoin(sql`post_fts`, joinOn)
+          .where(whereClause)
+          .orderBy(asc(bm25), asc(posts.id))
+          .limit(options.limit)
+          .offset(options.offset),
+        db
+          .select({ count: count() })
+          .from(posts)
+          .innerJoin(sql`post_fts`, joinOn)
+          .where(whereClause),
+      ]);
+
+      const tagsByPost = await findPostTags(
+        db,
+        rows.map((row) => row.id),
+      );
+
+      return ok({
+        hits: rows.map(({ bm25: score, snippet: excerpt, ...row }) => ({
+          post: toPost(row, tagsByPost.get(row.id) ?? []),
+          rank: -score,
+          snippet: toSnippet(excerpt),
+        })),
+        total: countResult[0]?.count ?? 0,
+      });
+    } catch (error) {
+      return err(unexpectedError("Failed to search posts", error));
+    }
+  },
+});
@@ -0,0 +1,90 @@
+/**
+ * SQLite Unit of Work implementation.
+ * bun:sqlite transactions are synchronous, so async work is wrapped in
+ * explicit BEGIN/COMMIT/ROLLBACK statements on the single connection.
+ */
+
+import { sql } from "drizzle-orm";
+import { type Result, err } from "neverthrow";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  TransactionalRepositories,
+  UnitOfWork,
+  UnitOfWorkError,
+} from "../interfaces/unit-of-work";
+import { createSqliteCredentialRepository } from "./credential-repository";
+import type { SqliteConnection } from "./db";
+import { createSqliteEmailVerificationTokenRepository } from "./email-verification-token-repository";
+import { createSqliteJobRepository } from "./job-repository";
+import { createSqlitePersonalAccessTokenRepository } from "./personal-access-token-repository";
+import { createSqlitePostRepository } from "./post-repository";
+import { createSqlitePostRevisionRepository } from "./post-revision-repository";
+import { createSqliteUserRepository } from "./user-repository";
+
+/**
+ * Create a SQLite Unit of Work.
+ * Units run one at a time (so they must not be nested). Repository calls
+ * that open their own transaction inside a unit become savepoints. The
+ * connection is shared, so writes made outside a unit while it awaits are
+ * not isolated and are committed or rolled back with it.
+ *
+ * @param connection - Open database and its underlying connection
+ * @returns UnitOfWork implementation
+ */
+export const createSqliteUnitOfWork = (
+  connection: SqliteConnection,
+): UnitOfWork => {
+  const { db, client } = connection;
+  const repositories: TransactionalRepositories = {
+    userRepository: createSqliteUserRepository(db),
+    postRepository: createSqlitePostRepository(db),
+    postRevisionRepository: createSqlitePostRevisionRepository(db),
+    credentialRepository: createSqliteCredentialRepository(db),
+    emailVerificationTokenRepository:
+      createSqliteEmailVerificationTokenRepository(db),
+    personalAccessTokenRepository:
+      createSqlitePersonalAccessTokenRepository(db),
+    jobRepository: createSqliteJobRepository(db),
+  };
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // A failed COMMIT may already have ended the transaction
+  const rollback = () => {
+    if (client.inTransaction) db.run(sql`rollback`);
+  };
+
+  return {
+    run<T, E>(
+      work: (repositories: TransactionalRepositories) => Promise<Result<T, E>>,
+    ): Promise<Result<T, E | UnitOfWorkError>> {
+      const result = queue.then(async () => {
+        try {
+          // Take the write lock up front so the unit cannot fail midway on SQLITE_BUSY
+          db.run(sql`begin immediate`);
+        } catch (error) {
+          return err(unexpectedError("Transaction failed", error));
+        }
+
+        try {
+          const outcome = await work(repositories);
+
+          if (outcome.isOk()) {
+            db.run(sql`commit`);
+          } else {
+            rollback();
+          }
+
+          return outcome;
+        } catch (error) {
+          rollback();
+          return err(unexpectedError("Transaction failed", error));
+        }
+      });
+
+      queue = result.catch(() => undefined);
+
+      return result;
+    },
+  };
+};
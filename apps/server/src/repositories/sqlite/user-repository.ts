@@ -0,0 +1,366 @@
+/**
+ * SQLite User Repository implementation using Drizzle ORM.
+ */
+
+import {
+  and,
+  count,
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  sql,
+} from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { comments, users } from "@bun-hono-ddd-template/db/sqlite";
+
+import {
+  conflictError,
+  notFoundError,
+  preconditionFailedError,
+  unexpectedError,
+} from "../../domain/errors";
+import type { PreconditionFailedError } from "../../domain/errors";
+import type {
+  CreateUserInput,
+  FindAllUsersOptions,
+  FindAllUsersResult,
+  UpdateUserInput,
+  User,
+  UserRepository,
+  UserRepositoryError,
+  UserSortField,
+} from "../interfaces/user-repository";
+import type { SqliteDatabase } from "./db";
+import { isUniqueViolation } from "./errors";
+import {
+  type KeysetColumns,
+  containsIgnoreCase,
+  keysetCondition,
+  keysetLimit,
+  keysetOffset,
+  keysetOrderBy,
+  toPage,
+} from "./pagination";
+
+/**
+ * Map database row to User entity.
+ */
+export const toUser = (row: typeof users.$inferSelect): User => ({
+  id: row.id,
+  name: row.name,
+  email: row.email,
+  emailVerified: row.emailVerified,
+  role: row.role,
+  image: row.image,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  deletedAt: row.deletedAt,
+  version: row.version,
+});
+
+/**
+ * Sortable user columns (allow-list for UserSortField).
+ */
+const userKeyset: KeysetColumns<UserSortField> = {
+  id: users.id,
+  sortable: {
+    createdAt: users.createdAt,
+    updatedAt: users.updatedAt,
+    name: users.name,
+  },
+};
+
+/**
+ * Create a SQLite User Repository.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns UserRepository implementation
+ */
+export const createSqliteUserRepository = (
+  db: SqliteDatabase,
+): UserRepository => ({
+  async findById(
+    id: string,
+  ): Promise<Result<User | null, UserRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(users)
+        .where(and(eq(users.id, id), isNull(users.deletedAt)))
+        .limit(1);
+
+      return ok(result[0] ? toUser(result[0]) : null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find user by id", error));
+    }
+  },
+
+  async findByIdIncludingDeleted(
+    id: string,
+  ): Promise<Result<User | null, UserRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(users)
+        .where(eq(users.id, id))
+        .limit(1);
+
+      return ok(result[0] ? toUser(result[0]) : null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find user by id", error));
+    }
+  },
+
+  async findByEmail(
+    email: string,
+  ): Promise<Result<User | null, UserRepositoryError>> {
+    try {
+      const result = await db
+        .select()
+        .from(users)
+        .where(and(eq(users.email, email), isNull(users.deletedAt)))
+        .limit(1);
+
+      return ok(result[0] ? toUser(result[0]) : null);
+    } catch (error) {
+      return err(unexpectedError("Failed to find user by email", error));
+    }
+  },
+
+  async findAll(
+    options: FindAllUsersOptions,
+  ): Promise<Result<FindAllUsersResult, UserRepositoryError>> {
+    try {
+      const conditions = [isNull(users.deletedAt)];
+
+      if (options.createdAfter) {
+        conditions.push(gt(users.createdAt, options.createdAfter));
+      }
+
+      if (options.createdBefore) {
+        conditions.push(lt(users.createdAt, options.createdBefore));
+      }
+
+      if (options.nameContains) {
+        conditions.push(containsIgnoreCase(users.name, options.nameContains));
+      }
+
+      if (options.email) {
+        conditions.push(eq(users.email, options.email));
+      }
+
+      const whereClause = and(...conditions);
+
+      const [usersResult, countResult] = await Promise.all([
+        db
+          .select()
+          .from(users)
+          .where(and(whereClause, keysetCondition(userKeyset, options)))
+          .orderBy(...keysetOrderBy(userKeyset, options))
+          .limit(keysetLimit(options))
+          .offset(keysetOffset(options)),
+        db.select({ count: count() }).from(users).where(whereClause),
+      ]);
+
+      const total = countResult[0]?.count ?? 0;
+      const { items, hasMore } = toPage(usersResult, options, total);
+
+      return ok({ users: items.map(toUser), total, hasMore });
+    } catch (error) {
+      return err(unexpectedError("Failed to find all users", error));
+    }
+  },
+
+  async create(
+    input: CreateUserInput,
+  ): Promise<Result<User, UserRepositoryError>> {
+    try {
+      const result = await db
+        .insert(users)
+        .values({
+          name: input.name,
+          email: input.email,
+          image: input.image ?? null,
+          role: input.role,
+        })
+        .returning();
+
+      const created = result[0];
+
+      if (!created) {
+        return err(unexpectedError("User creation returned no result"));
+      }
+
+      return ok(toUser(created));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return err(
+          conflictError(`User with email '${input.email}' already exists`, {
+            resource: "User",
+            conflictReason: "duplicate_email",
+          }),
+        );
+      }
+
+      return err(unexpectedError("Failed to create user", error));
+    }
+  },
+
+  async update(
+    id: string,
+    input: UpdateUserInput,
+  ): Promise<Result<User, UserRepositoryError | PreconditionFailedError>> {
+    try {
+      // Build update object with only provided fields
+      const updateData: Partial<typeof users.$inferInsert> = {
+        updatedAt: new Date(),
+      };
+
+      if (input.name !== undefined) updateData.name = input.name;
+      if (input.email !== undefined) updateData.email = input.email;
+      if (input.image !== undefined) updateData.image = input.image;
+      if (input.role !== undefined) updateData.role = input.role;
+      if (input.emailVerified !== undefined)
+        updateData.emailVerified = input.emailVerified;
+
+      const result = await db
+        .update(users)
+        .set({ ...updateData, version: sql`${users.version} + 1` })
+        .where(
+          and(
+            eq(users.id, id),
+            isNull(users.deletedAt),
+            input.expectedVersion === undefined ?
+              undefined
+            : eq(users.version, input.expectedVersion),
+          ),
+        )
+        .returning();
+
+      const updated = result[0];
+
+      if (!updated) {
+        if (input.expectedVersion === undefined) {
+          return err(notFoundError("User", id));
+        }
+
+        // The version guard may be what filtered the row out
+        const current = await db
+          .select({ id: users.id })
+          .from(users)
+          .where(and(eq(users.id, id), isNull(users.deletedAt)))
+          .limit(1);
+
+        return err(
+          current.length > 0 ?
+            preconditionFailedError("User", id)
+          : notFoundError("User", id),
+        );
+      }
+
+      return ok(toUser(updated));
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return err(
+          conflictError(`User with email '${input.email}' already exists`, {
+            resource: "User",
+            conflictReason: "duplicate_email",
+          }),
+        );
+      }
+
+      return err(unexpectedError("Failed to update user", error));
+    }
+  },
+
+  async delete(id: string): Promise<Result<void, UserRepositoryError>> {
+    try {
+      const result = await db
+        .update(users)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(users.id, id), isNull(users.deletedAt)))
+        .returning({ id: users.id });
+
+      if (result.length === 0) {
+        return err(notFoundError("User", id));
+      }
+
+      return ok(undefined);
+    } catch (error) {
+      return err(unexpectedError("Failed to delete user", error));
+    }
+  },
+
+  async restore(id: string): Promise<Result<User, UserRepositoryError>> {
+    try {
+      const result = await db
+        .update(users)
+        .set({
+          deletedAt: null,
+          updatedAt: new Date(),
+          version: sql`${users.version} + 1`,
+        })
+        .where(and(eq(users.id, id), isNotNull(users.deletedAt)))
+        .returning();
+
+      const restored = result[0];
+
+      if (!restored) {
+        return err(notFoundError("User", id));
+      }
+
+      return ok(toUser(restored));
+    } catch (error) {
+      // Another active user took the email while this one was deleted
+      if (isUniqueViolation(error)) {
+        return err(
+          conflictError("The user's email has been taken since deletion", {
+            resource: "User",
+            conflictReason: "duplicate_email",
+          }),
+        );
+      }
+
+      return err(unexpectedError("Failed to restore user", error));
+    }
+  },
+
+  async purge(
+    deletedBefore: Date,
+  ): Promise<Result<number, UserRepositoryError>> {
+    try {
+      const expired = lt(users.deletedAt, deletedBefore);
+
+      const result = db.transaction((tx) => {
+        // Their comments are redacted so the replies under them keep their place
+        tx.update(comments)
+          .set({
+            content: "",
+            deletedAt: sql`coalesce(${comments.deletedAt}, ${Date.now()})`,
+          })
+          .where(
+            inArray(
+              comments.authorId,
+              tx.select({ id: users.id }).from(users).where(expired),
+            ),
+          )
+          .run();
+
+        // Other dependent rows go with the user through ON DELETE CASCADE
+        return tx
+          .delete(users)
+          .where(expired)
+          .returning({ id: users.id })
+          .all();
+      });
+
+      return ok(result.length);
+    } catch (error) {
+      return err(unexpectedError("Failed to purge users", error));
+    }
+  },
+});
@@ -0,0 +1,104 @@
+/**
+ * SQLite User Statistics Query implementation using Drizzle ORM.
+ * Aggregates with COUNT/AVG/MIN/MAX in the database, so no rows are
+ * loaded and soft-deleted rows are counted rather than filtered away.
+ */
+
+import { and, count, eq, max, min, sql } from "drizzle-orm";
+import { type Result, err, ok } from "neverthrow";
+
+import { posts, users } from "@bun-hono-ddd-template/db/sqlite";
+
+import { unexpectedError } from "../../domain/errors";
+import type {
+  AggregateAuthorPostsOptions,
+  AuthorPostAggregates,
+  SiteAggregates,
+  UserStatisticsQuery,
+  UserStatisticsQueryError,
+} from "../interfaces/user-statistics-query";
+import type { SqliteDatabase } from "./db";
+
+/**
+ * Count the rows that have not been soft-deleted.
+ */
+const countActive = (table: typeof posts | typeof users) =>
+  sql<number>`count(*) filter (where ${table.deletedAt} is null)`.mapWith(
+    Number,
+  );
+
+/**
+ * Create a SQLite User Statistics Query.
+ *
+ * @param db - Drizzle SQLite database
+ * @returns UserStatisticsQuery implementation
+ */
+export const createSqliteUserStatisticsQuery = (
+  db: SqliteDatabase,
+): UserStatisticsQuery => ({
+  async aggregateAuthorPosts(
+    authorId: string,
+    options: AggregateAuthorPostsOptions = {},
+  ): Promise<Result<AuthorPostAggregates, UserStatisticsQueryError>> {
+    try {
+      // Served by post_authorId_createdAt_idx
+      const [row] = await db
+        .select({
+          totalPosts: count(),
+          activePosts: countActive(posts),
+          averagePostLength:
+            sql<number>`coalesce(avg(length(${posts.content})) filter (where ${posts.deletedAt} is null), 0)`.mapWith(
+              Number,
+            ),
+          firstPostDate: min(posts.createdAt),
+          lastPostDate: max(posts.createdAt),
+        })
+        .from(posts)
+        .where(
+          and(
+            eq(posts.authorId, authorId),
+            options.publishedOnly ? eq(posts.status, "published") : undefined,
+          ),
+        );
+
+      if (!row) {
+        return err(unexpectedError("Aggregate query returned no row"));
+      }
+
+      return ok({
+        ...row,
+        deletedPosts: row.totalPosts - row.activePosts,
+      });
+    } catch (error) {
+      return err(unexpectedError("Failed to aggregate author posts", error));
+    }
+  },
+
+  async aggregateSite(): Promise<
+    Result<SiteAggregates, UserStatisticsQueryError>
+  > {
+    try {
+      const [userRow] = await db
+        .select({ total: count(), active: countActive(users) })
+        .from(users);
+      const [postRow] = await db
+        .select({ total: count(), active: countActive(posts) })
+        .from(posts);
+
+      if (!userRow || !postRow) {
+        return err(unexpectedError("Aggregate query returned no row"));
+      }
+
+      return ok({
+        totalUsers: userRow.total,
+        activeUsers: userRow.active,
+        deletedUsers: userRow.total - userRow.active,
+        totalPosts: postRow.total,
+        activePosts: postRow.active,
+        deletedPosts: postRow.total - postRow.active,
+      });
+    } catch (error) {
+      return err(unexpectedError("Failed to aggregate site statistics", error));
+    }
+  },
+});
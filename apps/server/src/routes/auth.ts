@@ -0,0 +1,241 @@
+/**
+ * Auth routes - HTTP endpoints for password registration and sessions.
+ */
+
+import { Hono } from "hono";
+
+import type { EmailVerificationService } from "../domain/services/email-verification-service";
+import type { UserAuthenticationService } from "../domain/services/user-authentication-service";
+import {
+  type AuthEnv,
+  getPrincipal,
+  requireAuthentication,
+  requireScope,
+} from "../middleware/authentication";
+import type { SessionTokenService } from "../middleware/session-token";
+import type { CredentialRepository } from "../repositories/interfaces/credential-repository";
+import type { UnitOfWork } from "../repositories/interfaces/unit-of-work";
+import type { UserRepository } from "../repositories/interfaces/user-repository";
+import { executeLoginUser, parseLoginUserInput } from "../usecases/login-user";
+import {
+  executeLogoutUser,
+  parseLogoutUserInput,
+} from "../usecases/logout-user";
+import {
+  executeRegisterUser,
+  parseRegisterUserInput,
+} from "../usecases/register-user";
+import {
+  executeResendEmailVerification,
+  parseResendEmailVerificationInput,
+} from "../usecases/resend-email-verification";
+import {
+  executeVerifyEmail,
+  parseVerifyEmailInput,
+} from "../usecases/verify-email";
+import { sendHttpError } from "../utils/http-error";
+import { readJsonBody } from "../utils/request-body";
+import type { PasswordHasher } from "../utils/password-hasher";
+
+/**
+ * Dependencies for auth routes.
+ */
+export interface AuthRoutesDeps {
+  readonly userRepository: UserRepository;
+  readonly credentialRepository: CredentialRepository;
+  readonly userAuthenticationService: UserAuthenticationService;
+  readonly passwordHasher: PasswordHasher;
+  readonly sessionTokenService: SessionTokenService;
+  /** Enables the verify-email endpoints when provided */
+  readonly emailVerificationService?: EmailVerificationService;
+  /** Makes registration atomic when provided */
+  readonly unitOfWork?: UnitOfWork;
+}
+
+/**
+ * Create auth routes with injected dependencies.
+ * DI allows testing without mock.module().
+ */
+export const createAuthRoutes = (deps: AuthRoutesDeps) => {
+  const auth = new Hono<AuthEnv>();
+
+  /**
+   * POST /auth/register
+   * Create a user with a password and start a session.
+   */
+  auth.post("/register", async (c) => {
+    const bodyResult = await readJsonBody(c);
+
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const body = bodyResult.value;
+
+    const inputResult = parseRegisterUserInput(body);
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeRegisterUser(
+      {
+        userRepository: deps.userRepository,
+        credentialRepository: deps.credentialRepository,
+        userAuthenticationService: deps.userAuthenticationService,
+        passwordHasher: deps.passwordHasher,
+        emailVerificationService: deps.emailVerificationService,
+        unitOfWork: deps.unitOfWork,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    const { user, sessionVersion } = result.value;
+    const token = await deps.sessionTokenService.issue({
+      userId: user.id,
+      sessionVersion,
+    });
+
+    return c.json({ data: { user, token } }, 201);
+  });
+
+  /**
+   * POST /auth/login
+   * Exchange email + password for a session token.
+   */
+  auth.post("/login", async (c) => {
+    const bodyResult = await readJsonBody(c);
+
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const body = bodyResult.value;
+
+    const inputResult = parseLoginUserInput(body);
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeLoginUser(
+      {
+        userRepository: deps.userRepository,
+        credentialRepository: deps.credentialRepository,
+        passwordHasher: deps.passwordHasher,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    const { user, sessionVersion } = result.value;
+    const token = await deps.sessionTokenService.issue({
+      userId: user.id,
+      sessionVersion,
+    });
+
+    return c.json({ data: { user, token } });
+  });
+
+  /**
+   * POST /auth/logout
+   * Revoke all sessions of the authenticated user.
+   * Personal access tokens need the `users:write` scope, and stay valid
+   * until revoked under /users/:id/tokens.
+   */
+  auth.post("/logout", requireScope("users:write"), async (c) => {
+    const inputResult = parseLogoutUserInput({
+      userId: getPrincipal(c).userId,
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeLogoutUser(
+      { credentialRepository: deps.credentialRepository },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    return c.body(null, 204);
+  });
+
+  const { emailVerificationService } = deps;
+
+  if (emailVerificationService) {
+    /**
+     * POST /auth/verify-email
+     * Redeem a verification token and mark the email as verified.
+     */
+    auth.post("/verify-email", async (c) => {
+      const bodyResult = await readJsonBody(c);
+
+      if (bodyResult.isErr()) {
+        return sendHttpError(c, bodyResult.error);
+      }
+
+      const body = bodyResult.value;
+
+      const inputResult = parseVerifyEmailInput(body);
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeVerifyEmail(
+        {
+          userRepository: deps.userRepository,
+          emailVerificationService,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.json({ data: result.value.user });
+    });
+
+    /**
+     * POST /auth/verify-email/resend
+     * Send a new verification token to the authenticated user.
+     */
+    auth.post("/verify-email/resend", requireAuthentication(), async (c) => {
+      const inputResult = parseResendEmailVerificationInput({
+        userId: getPrincipal(c).userId,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeResendEmailVerification(
+        {
+          userRepository: deps.userRepository,
+          emailVerificationService,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.body(null, 202);
+    });
+  }
+
+  return auth;
+};
@@ -0,0 +1,203 @@
+/**
+ * Comment routes - HTTP endpoints for comment operations.
+ * Mounted at the root: threads live under /posts/:id/comments and single
+ * comments under /comments/:id.
+ */
+
+import { Hono } from "hono";
+
+import type {
+  CommentAuthorizationService,
+  PostAuthorizationService,
+} from "../domain/services";
+import {
+  type AuthEnv,
+  getPrincipal,
+  requireScope,
+  requireScopeWhenAuthenticated,
+} from "../middleware/authentication";
+import type { CommentRepository } from "../repositories/interfaces/comment-repository";
+import type { UserRepository } from "../repositories/interfaces/user-repository";
+import {
+  executeCreateComment,
+  parseCreateCommentInput,
+} from "../usecases/create-comment";
+import {
+  executeDeleteComment,
+  parseDeleteCommentInput,
+} from "../usecases/delete-comment";
+import {
+  executeListComments,
+  parseListCommentsInput,
+} from "../usecases/list-comments";
+import {
+  executeUpdateComment,
+  parseUpdateCommentInput,
+} from "../usecases/update-comment";
+import { sendHttpError } from "../utils/http-error";
+import { readJsonBody } from "../utils/request-body";
+
+/**
+ * Dependencies for comment routes.
+ */
+export interface CommentRoutesDeps {
+  readonly commentRepository: CommentRepository;
+  readonly userRepository: UserRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+  readonly commentAuthorizationService: CommentAuthorizationService;
+}
+
+/**
+ * Create comment routes with injected dependencies.
+ * Writing comments needs the `posts:write` token scope.
+ */
+export const createCommentRoutes = (deps: CommentRoutesDeps) => {
+  const comments = new Hono<AuthEnv>();
+
+  /**
+   * GET /posts/:id/comments
+   * List a post's threads: top-level comments, oldest first, each with its
+   * replies. Deleted comments read "[deleted]" and have no author.
+   * Query params: limit, offset
+   */
+  comments.get(
+    "/posts/:id/comments",
+    requireScopeWhenAuthenticated("posts:read"),
+    async (c) => {
+      const inputResult = parseListCommentsInput({
+        ...c.req.query(),
+        postId: c.req.param("id"),
+        viewerId: c.get("principal")?.userId,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeListComments(
+        {
+          commentRepository: deps.commentRepository,
+          postAuthorizationService: deps.postAuthorizationService,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.json({
+        data: result.value.threads,
+        pagination: result.value.pagination,
+      });
+    },
+  );
+
+  /**
+   * POST /posts/:id/comments
+   * Comment on a post, or reply to a comment with `parentId`.
+   */
+  comments.post(
+    "/posts/:id/comments",
+    requireScope("posts:write"),
+    async (c) => {
+      const bodyResult = await readJsonBody(c);
+
+      if (bodyResult.isErr()) {
+        return sendHttpError(c, bodyResult.error);
+      }
+
+      const inputResult = parseCreateCommentInput({
+        ...bodyResult.value,
+        postId: c.req.param("id"),
+        authorId: getPrincipal(c).userId,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeCreateComment(
+        {
+          commentRepository: deps.commentRepository,
+          userRepository: deps.userRepository,
+          postAuthorizationService: deps.postAuthorizationService,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.json({ data: result.value.comment }, 201);
+    },
+  );
+
+  /**
+   * PATCH /comments/:id
+   * Edit a comment's content.
+   */
+  comments.patch("/comments/:id", requireScope("posts:write"), async (c) => {
+    const bodyResult = await readJsonBody(c);
+
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const inputResult = parseUpdateCommentInput({
+      id: c.req.param("id"),
+      userId: getPrincipal(c).userId,
+      data: bodyResult.value,
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeUpdateComment(
+      {
+        commentRepository: deps.commentRepository,
+        commentAuthorizationService: deps.commentAuthorizationService,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    return c.json({ data: result.value.comment });
+  });
+
+  /**
+   * DELETE /comments/:id
+   * Soft delete a comment; it stays in its thread as "[deleted]".
+   */
+  comments.delete("/comments/:id", requireScope("posts:write"), async (c) => {
+    const inputResult = parseDeleteCommentInput({
+      id: c.req.param("id"),
+      userId: getPrincipal(c).userId,
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeDeleteComment(
+      {
+        commentRepository: deps.commentRepository,
+        commentAuthorizationService: deps.commentAuthorizationService,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    return c.body(null, 204);
+  });
+
+  return comments;
+};
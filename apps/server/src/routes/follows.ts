@@ -0,0 +1,192 @@
+/**
+ * Follow routes - HTTP endpoints for the follow graph and the home feed.
+ * Mounted at the root: follows live under /users/:id and the feed at /feed.
+ */
+
+import { Hono } from "hono";
+
+import {
+  type AuthEnv,
+  getPrincipal,
+  requireScope,
+} from "../middleware/authentication";
+import type { FollowRepository } from "../repositories/interfaces/follow-repository";
+import type { ReactionRepository } from "../repositories/interfaces/reaction-repository";
+import type { UserRepository } from "../repositories/interfaces/user-repository";
+import {
+  executeFollowUser,
+  parseFollowUserInput,
+} from "../usecases/follow-user";
+import { executeGetFeed, parseGetFeedInput } from "../usecases/get-feed";
+import {
+  executeListFollows,
+  parseListFollowsInput,
+} from "../usecases/list-follows";
+import {
+  executeUnfollowUser,
+  parseUnfollowUserInput,
+} from "../usecases/unfollow-user";
+import { sendHttpError } from "../utils/http-error";
+
+/**
+ * Dependencies for follow routes.
+ */
+export interface FollowRoutesDeps {
+  readonly followRepository: FollowRepository;
+  readonly userRepository: UserRepository;
+  /** Adds reactions to feed posts when provided */
+  readonly reactionRepository?: ReactionRepository;
+}
+
+/**
+ * Create follow routes with injected dependencies.
+ * Following needs the `users:write` token scope and reading the feed
+ * `posts:read`.
+ */
+export const createFollowRoutes = (deps: FollowRoutesDeps) => {
+  const follows = new Hono<AuthEnv>();
+
+  /**
+   * PUT /users/:id/followers/me
+   * Follow a user. Following again changes nothing.
+   */
+  follows.put(
+    "/users/:id/followers/me",
+    requireScope("users:write"),
+    async (c) => {
+      const inputResult = parseFollowUserInput({
+        followeeId: c.req.param("id"),
+        followerId: getPrincipal(c).userId,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeFollowUser(
+        {
+          followRepository: deps.followRepository,
+          userRepository: deps.userRepository,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.body(null, 204);
+    },
+  );
+
+  /**
+   * DELETE /users/:id/followers/me
+   * Unfollow a user. Unfollowing a user not followed changes nothing.
+   */
+  follows.delete(
+    "/users/:id/followers/me",
+    requireScope("users:write"),
+    async (c) => {
+      const inputResult = parseUnfollowUserInput({
+        followeeId: c.req.param("id"),
+        followerId: getPrincipal(c).userId,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeUnfollowUser(
+        { followRepository: deps.followRepository },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.body(null, 204);
+    },
+  );
+
+  /**
+   * GET /users/:id/followers and GET /users/:id/following
+   * List who follows a user, or whom they follow, most recent follow
+   * first. Each user carries `followedAt`.
+   * Query params: limit, offset
+   */
+  for (const relation of ["followers", "following"] as const) {
+    follows.get(`/users/:id/${relation}`, async (c) => {
+      const inputResult = parseListFollowsInput({
+        ...c.req.query(),
+        userId: c.req.param("id"),
+        relation,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeListFollows(
+        {
+          followRepository: deps.followRepository,
+          userRepository: deps.userRepository,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.json({
+        data: result.value.entries.map(({ user, followedAt }) => ({
+          ...user,
+          followedAt,
+        })),
+        pagination: result.value.pagination,
+      });
+    });
+  }
+
+  /**
+   * GET /feed
+   * The caller's home feed: published posts by the users they follow,
+   * newest first. Pages by cursor only.
+   * Query params: limit, cursor
+   */
+  follows.get("/feed", requireScope("posts:read"), async (c) => {
+    const inputResult = parseGetFeedInput({
+      ...c.req.query(),
+      viewerId: getPrincipal(c).userId,
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeGetFeed(
+      {
+        followRepository: deps.followRepository,
+        reactionRepository: deps.reactionRepository,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    const { posts, reactions } = result.value;
+
+    return c.json({
+      data: posts.map((post) => ({
+        ...post,
+        reactions: reactions?.get(post.id),
+      })),
+      pagination: result.value.pagination,
+    });
+  });
+
+  return follows;
+};
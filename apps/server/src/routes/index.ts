@@ -4,12 +4,38 @@
 
 import { Hono } from "hono";
 
+import { createCommentAuthorizationService } from "../domain/services/comment-authorization-service";
+import { createEmailVerificationService } from "../domain/services/email-verification-service";
 import { createPostAuthorizationService } from "../domain/services/post-authorization-service";
 import { createUserAuthenticationService } from "../domain/services/user-authentication-service";
+import { createUserAuthorizationService } from "../domain/services/user-authorization-service";
+import { createUserStatisticsService } from "../domain/services/user-statistics-service";
+import type { SessionTokenService } from "../middleware/session-token";
+import type { CommentRepository } from "../repositories/interfaces/comment-repository";
+import type { CredentialRepository } from "../repositories/interfaces/credential-repository";
+import type { EmailVerificationTokenRepository } from "../repositories/interfaces/email-verification-token-repository";
+import type { FollowRepository } from "../repositories/interfaces/follow-repository";
+import type { IdempotencyKeyRepository } from "../repositories/interfaces/idempotency-key-repository";
+import type { JobRepository } from "../repositories/interfaces/job-repository";
+import type { PersonalAccessTokenRepository } from "../repositories/interfaces/personal-access-token-repository";
 import type { PostRepository } from "../repositories/interfaces/post-repository";
+import type { PostRevisionRepository } from "../repositories/interfaces/post-revision-repository";
+import type { PostSearch } from "../repositories/interfaces/post-search";
+import type { ReactionRepository } from "../repositories/interfaces/reaction-repository";
+import type { TagRepository } from "../repositories/interfaces/tag-repository";
+import type { UnitOfWork } from "../repositories/interfaces/unit-of-work";
 import type { UserRepository } from "../repositories/interfaces/user-repository";
+import type { UserStatisticsQuery } from "../repositories/interfaces/user-statistics-query";
+import type { Mailer } from "../utils/mailer";
+import type { PasswordHasher } from "../utils/password-hasher";
+import { createAuthRoutes } from "./auth";
+import { createCommentRoutes } from "./comments";
+import { createFollowRoutes } from "./follows";
 import { health } from "./health";
+import { createPersonalAccessTokenRoutes } from "./personal-access-tokens";
 import { createPostRoutes } from "./posts";
+import { createStatisticsRoutes } from "./statistics";
+import { createTagRoutes } from "./tags";
 import { createUserRoutes } from "./users";
 
 /**
@@ -19,6 +45,23 @@ import { createUserRoutes } from "./users";
 export interface RoutesDeps {
   readonly userRepository: UserRepository;
   readonly postRepository: PostRepository;
+  readonly credentialRepository: CredentialRepository;
+  readonly passwordHasher: PasswordHasher;
+  readonly sessionTokenService: SessionTokenService;
+  readonly emailVerificationTokenRepository: EmailVerificationTokenRepository;
+  readonly mailer: Mailer;
+  readonly personalAccessTokenRepository: PersonalAccessTokenRepository;
+  readonly postSearch: PostSearch;
+  readonly unitOfWork: UnitOfWork;
+  readonly idempotencyKeyRepository: IdempotencyKeyRepository;
+  readonly idempotencyTtlSeconds: number;
+  readonly jobRepository: JobRepository;
+  readonly postRevisionRepository: PostRevisionRepository;
+  readonly tagRepository: TagRepository;
+  readonly commentRepository: CommentRepository;
+  readonly reactionRepository: ReactionRepository;
+  readonly followRepository: FollowRepository;
+  readonly userStatisticsQuery: UserStatisticsQuery;
 }
 
 /**
@@ -29,6 +72,15 @@ export const createRoutes = (deps?: Partial<RoutesDeps>) => {
 
   routes.route("/health", health);
 
+  // Email verification is enabled when token storage and a mailer are provided
+  const emailVerificationService =
+    deps?.emailVerificationTokenRepository && deps?.mailer ?
+      createEmailVerificationService({
+        tokenRepository: deps.emailVerificationTokenRepository,
+        mailer: deps.mailer,
+      })
+    : undefined;
+
   // Mount user routes if repository is provided
   if (deps?.userRepository) {
     // Instantiate domain services
@@ -36,11 +88,64 @@ export const createRoutes = (deps?: Partial<RoutesDeps>) => {
       userRepository: deps.userRepository,
     });
 
+    const userAuthorizationService = createUserAuthorizationService({
+      userRepository: deps.userRepository,
+    });
+
     const userRoutes = createUserRoutes({
       userRepository: deps.userRepository,
       userAuthenticationService,
+      userAuthorizationService,
+      emailVerificationService,
+      idempotencyKeyRepository: deps.idempotencyKeyRepository,
+      idempotencyTtlSeconds: deps.idempotencyTtlSeconds,
     });
     routes.route("/users", userRoutes);
+
+    // Mount token management under /users/:id/tokens if storage is provided
+    if (deps.personalAccessTokenRepository) {
+      const tokenRoutes = createPersonalAccessTokenRoutes({
+        personalAccessTokenRepository: deps.personalAccessTokenRepository,
+        userAuthorizationService,
+      });
+      routes.route("/users", tokenRoutes);
+    }
+
+    // Mount statistics routes if the statistics query is provided
+    if (deps.userStatisticsQuery) {
+      const userStatisticsService = createUserStatisticsService({
+        userRepository: deps.userRepository,
+        userStatisticsQuery: deps.userStatisticsQuery,
+      });
+
+      const statisticsRoutes = createStatisticsRoutes({
+        userStatisticsService,
+      });
+      routes.route("/", statisticsRoutes);
+    }
+  }
+
+  // Mount auth routes if credential storage and session issuing are provided
+  if (
+    deps?.userRepository &&
+    deps?.credentialRepository &&
+    deps?.passwordHasher &&
+    deps?.sessionTokenService
+  ) {
+    const userAuthenticationService = createUserAuthenticationService({
+      userRepository: deps.userRepository,
+    });
+
+    const authRoutes = createAuthRoutes({
+      userRepository: deps.userRepository,
+      credentialRepository: deps.credentialRepository,
+      userAuthenticationService,
+      passwordHasher: deps.passwordHasher,
+      sessionTokenService: deps.sessionTokenService,
+      emailVerificationService,
+      unitOfWork: deps.unitOfWork,
+    });
+    routes.route("/auth", authRoutes);
   }
 
   // Mount post routes if both repositories are provided
@@ -55,11 +160,61 @@ export const createRoutes = (deps?: Partial<RoutesDeps>) => {
       postRepository: deps.postRepository,
       userRepository: deps.userRepository,
       postAuthorizationService,
+      postSearch: deps.postSearch,
+      unitOfWork: deps.unitOfWork,
+      idempotencyKeyRepository: deps.idempotencyKeyRepository,
+      idempotencyTtlSeconds: deps.idempotencyTtlSeconds,
+      jobRepository: deps.jobRepository,
+      postRevisionRepository: deps.postRevisionRepository,
+      reactionRepository: deps.reactionRepository,
     });
     routes.route("/posts", postRoutes);
+
+    // Mount comment routes if comment storage is provided
+    if (deps.commentRepository) {
+      const commentAuthorizationService = createCommentAuthorizationService({
+        commentRepository: deps.commentRepository,
+        userRepository: deps.userRepository,
+        postAuthorizationService,
+      });
+
+      const commentRoutes = createCommentRoutes({
+        commentRepository: deps.commentRepository,
+        userRepository: deps.userRepository,
+        postAuthorizationService,
+        commentAuthorizationService,
+      });
+      routes.route("/", commentRoutes);
+    }
+
+    // Mount follow and feed routes if follow storage is provided
+    if (deps.followRepository) {
+      const followRoutes = createFollowRoutes({
+        followRepository: deps.followRepository,
+        userRepository: deps.userRepository,
+        reactionRepository: deps.reactionRepository,
+      });
+      routes.route("/", followRoutes);
+    }
+  }
+
+  // Mount tag routes if tag storage is provided
+  if (deps?.tagRepository) {
+    const tagRoutes = createTagRoutes({ tagRepository: deps.tagRepository });
+    routes.route("/tags", tagRoutes);
   }
 
   return routes;
 };
 
-export { createPostRoutes, createUserRoutes, health };
+export {
+  createAuthRoutes,
+  createCommentRoutes,
+  createFollowRoutes,
+  createPersonalAccessTokenRoutes,
+  createPostRoutes,
+  createStatisticsRoutes,
+  createTagRoutes,
+  createUserRoutes,
+  health,
+};
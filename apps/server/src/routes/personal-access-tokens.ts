@@ -0,0 +1,154 @@
+/**
+ * Personal access token routes - HTTP endpoints under /users/:id/tokens.
+ */
+
+import { Hono } from "hono";
+
+import type { UserAuthorizationService } from "../domain/services/user-authorization-service";
+import {
+  type AuthEnv,
+  getPrincipal,
+  requireScope,
+} from "../middleware/authentication";
+import type { PersonalAccessTokenRepository } from "../repositories/interfaces/personal-access-token-repository";
+import {
+  executeCreatePersonalAccessToken,
+  parseCreatePersonalAccessTokenInput,
+} from "../usecases/create-personal-access-token";
+import {
+  executeListPersonalAccessTokens,
+  parseListPersonalAccessTokensInput,
+} from "../usecases/list-personal-access-tokens";
+import {
+  executeRevokePersonalAccessToken,
+  parseRevokePersonalAccessTokenInput,
+} from "../usecases/revoke-personal-access-token";
+import { sendHttpError } from "../utils/http-error";
+import { readJsonBody } from "../utils/request-body";
+
+/**
+ * Dependencies for personal access token routes.
+ */
+export interface PersonalAccessTokenRoutesDeps {
+  readonly personalAccessTokenRepository: PersonalAccessTokenRepository;
+  readonly userAuthorizationService: UserAuthorizationService;
+}
+
+/**
+ * Create personal access token routes with injected dependencies.
+ * Mounted under /users alongside the user routes.
+ */
+export const createPersonalAccessTokenRoutes = (
+  deps: PersonalAccessTokenRoutesDeps,
+) => {
+  const tokens = new Hono<AuthEnv>();
+
+  /**
+   * GET /users/:id/tokens
+   * List the user's active tokens (owner or admin).
+   */
+  tokens.get("/:id/tokens", requireScope("users:read"), async (c) => {
+    const inputResult = parseListPersonalAccessTokensInput({
+      actorId: getPrincipal(c).userId,
+      userId: c.req.param("id"),
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeListPersonalAccessTokens(
+      {
+        personalAccessTokenRepository: deps.personalAccessTokenRepository,
+        userAuthorizationService: deps.userAuthorizationService,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    return c.json({ data: result.value.tokens });
+  });
+
+  /**
+   * POST /users/:id/tokens
+   * Create a token for the caller's own account.
+   * The plaintext token is only returned in this response.
+   */
+  tokens.post("/:id/tokens", requireScope("users:write"), async (c) => {
+    const bodyResult = await readJsonBody(c);
+
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const body = bodyResult.value;
+    const principal = getPrincipal(c);
+
+    const inputResult = parseCreatePersonalAccessTokenInput({
+      ...body,
+      actorId: principal.userId,
+      actorScopes: principal.scopes,
+      userId: c.req.param("id"),
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeCreatePersonalAccessToken(
+      {
+        personalAccessTokenRepository: deps.personalAccessTokenRepository,
+        userAuthorizationService: deps.userAuthorizationService,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    return c.json(
+      { data: { ...result.value.token, token: result.value.plaintext } },
+      201,
+    );
+  });
+
+  /**
+   * DELETE /users/:id/tokens/:tokenId
+   * Revoke a token (owner or admin).
+   */
+  tokens.delete(
+    "/:id/tokens/:tokenId",
+    requireScope("users:write"),
+    async (c) => {
+      const inputResult = parseRevokePersonalAccessTokenInput({
+        actorId: getPrincipal(c).userId,
+        userId: c.req.param("id"),
+        tokenId: c.req.param("tokenId"),
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeRevokePersonalAccessToken(
+        {
+          personalAccessTokenRepository: deps.personalAccessTokenRepository,
+          userAuthorizationService: deps.userAuthorizationService,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.body(null, 204);
+    },
+  );
+
+  return tokens;
+};
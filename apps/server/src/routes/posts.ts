@@ -5,8 +5,29 @@
 import { Hono } from "hono";
 
 import type { PostAuthorizationService } from "../domain/services";
+import {
+  type AuthEnv,
+  getPrincipal,
+  requireScope,
+  requireScopeWhenAuthenticated,
+} from "../middleware/authentication";
+import { createIdempotencyMiddleware } from "../middleware/idempotency";
+import type { IdempotencyKeyRepository } from "../repositories/interfaces/idempotency-key-repository";
+import type { JobRepository } from "../repositories/interfaces/job-repository";
 import type { PostRepository } from "../repositories/interfaces/post-repository";
+import type { PostRevisionRepository } from "../repositories/interfaces/post-revision-repository";
+import type { PostSearch } from "../repositories/interfaces/post-search";
+import type { ReactionRepository } from "../repositories/interfaces/reaction-repository";
+import type { UnitOfWork } from "../repositories/interfaces/unit-of-work";
 import type { UserRepository } from "../repositories/interfaces/user-repository";
+import {
+  executeAddReaction,
+  parseAddReactionInput,
+} from "../usecases/add-reaction";
+import {
+  executeArchivePost,
+  parseArchivePostInput,
+} from "../usecases/archive-post";
 import {
   executeCreatePost,
   parseCreatePostInput,
@@ -16,14 +37,57 @@ import {
   parseDeletePostInput,
 } from "../usecases/delete-post";
 import { executeGetPost, parseGetPostInput } from "../usecases/get-post";
+import {
+  executeGetPostRevision,
+  parseGetPostRevisionInput,
+} from "../usecases/get-post-revision";
+import {
+  executeListPostRevisions,
+  parseListPostRevisionsInput,
+} from "../usecases/list-post-revisions";
 import { executeListPosts, parseListPostsInput } from "../usecases/list-posts";
+import {
+  executePublishPost,
+  parsePublishPostInput,
+} from "../usecases/publish-post";
+import {
+  executeRemoveReaction,
+  parseRemoveReactionInput,
+} from "../usecases/remove-reaction";
+import {
+  executeRestorePostRevision,
+  parseRestorePostRevisionInput,
+} from "../usecases/restore-post-revision";
+import {
+  executeRestorePost,
+  parseRestorePostInput,
+} from "../usecases/restore-post";
+import {
+  executeSchedulePost,
+  parseSchedulePostInput,
+} from "../usecases/schedule-post";
+import {
+  executeSearchPosts,
+  parseSearchPostsInput,
+} from "../usecases/search-posts";
+import {
+  executeUnschedulePost,
+  parseUnschedulePostInput,
+} from "../usecases/unschedule-post";
 import {
   executePatchPost,
   executePutPost,
   parsePatchPostInput,
   parsePutPostInput,
 } from "../usecases/update-post";
+import {
+  formatEtag,
+  formatReactionsEtag,
+  isNotModified,
+  parseIfMatch,
+} from "../utils/etag";
 import { sendHttpError } from "../utils/http-error";
+import { readJsonBody } from "../utils/request-body";
 
 /**
  * Dependencies for post routes.
@@ -32,6 +96,20 @@ export interface PostRoutesDeps {
   readonly postRepository: PostRepository;
   readonly userRepository: UserRepository;
   readonly postAuthorizationService: PostAuthorizationService;
+  /** Enables GET /posts/search when provided */
+  readonly postSearch?: PostSearch;
+  /** Makes post creation atomic when provided */
+  readonly unitOfWork?: UnitOfWork;
+  /** Enables Idempotency-Key replays on POST /posts when provided */
+  readonly idempotencyKeyRepository?: IdempotencyKeyRepository;
+  /** How long idempotency keys are remembered */
+  readonly idempotencyTtlSeconds?: number;
+  /** Enables scheduled publishing when provided */
+  readonly jobRepository?: JobRepository;
+  /** Records edit history and enables the revision endpoints when provided */
+  readonly postRevisionRepository?: PostRevisionRepository;
+  /** Adds reactions to post responses and enables the reaction endpoints */
+  readonly reactionRepository?: ReactionRepository;
 }
 
 /**
@@ -39,24 +117,35 @@ export interface PostRoutesDeps {
  * DI allows testing without mock.module().
  */
 export const createPostRoutes = (deps: PostRoutesDeps) => {
-  const posts = new Hono();
+  const posts = new Hono<AuthEnv>();
+
+  const idempotent = createIdempotencyMiddleware(deps);
 
   /**
    * GET /posts
-   * List all posts with pagination.
-   * Optional query param: authorId
+   * List published posts, plus the caller's own drafts and archived posts.
+   * Query params: limit, either offset or cursor, sort (createdAt,
+   * updatedAt, title; `-` for descending), authorId, status, tag,
+   * createdAfter, createdBefore, title[contains]
+   * Each post carries its reaction counts and the caller's own reactions.
    */
-  posts.get("/", async (c) => {
+  posts.get("/", requireScopeWhenAuthenticated("posts:read"), async (c) => {
     const query = c.req.query();
 
-    const inputResult = parseListPostsInput(query);
+    const inputResult = parseListPostsInput({
+      ...query,
+      viewerId: c.get("principal")?.userId,
+    });
 
     if (inputResult.isErr()) {
       return sendHttpError(c, inputResult.error);
     }
 
     const result = await executeListPosts(
-      { postRepository: deps.postRepository },
+      {
+        postRepository: deps.postRepository,
+        reactionRepository: deps.reactionRepository,
+      },
       inputResult.value,
     );
 
@@ -64,25 +153,75 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
+    const { posts: page, reactions } = result.value;
+
     return c.json({
-      data: result.value.posts,
+      data: page.map((post) => ({
+        ...post,
+        reactions: reactions?.get(post.id),
+      })),
       pagination: result.value.pagination,
     });
   });
 
+  const { postSearch } = deps;
+
+  if (postSearch) {
+    /**
+     * GET /posts/search
+     * Full-text search over title and content, best match first.
+     * Query params: q, limit, offset or cursor
+     */
+    posts.get("/search", async (c) => {
+      const inputResult = parseSearchPostsInput(c.req.query());
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeSearchPosts(
+        { postSearch },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.json({
+        data: result.value.hits.map(({ post, rank, snippet }) => ({
+          ...post,
+          rank,
+          snippet,
+        })),
+        pagination: result.value.pagination,
+      });
+    });
+  }
+
   /**
    * GET /posts/:id
-   * Get a single post by ID.
+   * Get a single post by ID; drafts are 404 to everyone but their author.
+   * Replies 304 when If-None-Match names the current ETag. Responses that
+   * include reactions carry them in the ETag and vary by the caller, whose
+   * own reactions are part of the body.
    */
-  posts.get("/:id", async (c) => {
-    const inputResult = parseGetPostInput({ id: c.req.param("id") });
+  posts.get("/:id", requireScopeWhenAuthenticated("posts:read"), async (c) => {
+    const inputResult = parseGetPostInput({
+      id: c.req.param("id"),
+      viewerId: c.get("principal")?.userId,
+    });
 
     if (inputResult.isErr()) {
       return sendHttpError(c, inputResult.error);
     }
 
     const result = await executeGetPost(
-      { postRepository: deps.postRepository },
+      {
+        postRepository: deps.postRepository,
+        postAuthorizationService: deps.postAuthorizationService,
+        reactionRepository: deps.reactionRepository,
+      },
       inputResult.value,
     );
 
@@ -90,17 +229,43 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
-    return c.json({ data: result.value.post });
+    const { post, reactions } = result.value;
+    const etag =
+      reactions === undefined ?
+        formatEtag(post.version)
+      : formatReactionsEtag(post.version, reactions);
+
+    c.header("ETag", etag);
+
+    if (reactions !== undefined) {
+      c.header("Vary", "Authorization");
+    }
+
+    if (isNotModified(c.req.header("If-None-Match"), etag)) {
+      return c.body(null, 304);
+    }
+
+    return c.json({ data: { ...post, reactions } });
   });
 
   /**
    * POST /posts
-   * Create a new post.
+   * Create a new post authored by the authenticated user.
+   * Retries with the same Idempotency-Key replay the first response.
    */
-  posts.post("/", async (c) => {
-    const body = await c.req.json();
+  posts.post("/", requireScope("posts:write"), idempotent, async (c) => {
+    const bodyResult = await readJsonBody(c);
 
-    const inputResult = parseCreatePostInput(body);
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const body = bodyResult.value;
+
+    const inputResult = parseCreatePostInput({
+      ...body,
+      authorId: getPrincipal(c).userId,
+    });
 
     if (inputResult.isErr()) {
       return sendHttpError(c, inputResult.error);
@@ -110,6 +275,7 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
       {
         postRepository: deps.postRepository,
         userRepository: deps.userRepository,
+        unitOfWork: deps.unitOfWork,
       },
       inputResult.value,
     );
@@ -118,20 +284,35 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
+    c.header("ETag", formatEtag(result.value.post.version));
+
     return c.json({ data: result.value.post }, 201);
   });
 
   /**
    * PUT /posts/:id
-   * Full update of a post.
-   * TODO: Get userId from authentication middleware instead of request body
+   * Full update of a post by the authenticated user.
+   * A stale If-Match ETag is rejected with 412.
    */
-  posts.put("/:id", async (c) => {
-    const body = await c.req.json();
+  posts.put("/:id", requireScope("posts:write"), async (c) => {
+    const bodyResult = await readJsonBody(c);
+
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+    if (ifMatchResult.isErr()) {
+      return sendHttpError(c, ifMatchResult.error);
+    }
+
+    const body = bodyResult.value;
 
     const inputResult = parsePutPostInput({
       id: c.req.param("id"),
-      userId: body.userId, // TODO: Get from auth middleware
+      userId: getPrincipal(c).userId,
+      expectedVersion: ifMatchResult.value,
       data: body,
     });
 
@@ -143,6 +324,8 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
       {
         postRepository: deps.postRepository,
         postAuthorizationService: deps.postAuthorizationService,
+        postRevisionRepository: deps.postRevisionRepository,
+        unitOfWork: deps.unitOfWork,
       },
       inputResult.value,
     );
@@ -151,20 +334,35 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
+    c.header("ETag", formatEtag(result.value.post.version));
+
     return c.json({ data: result.value.post });
   });
 
   /**
    * PATCH /posts/:id
-   * Partial update of a post.
-   * TODO: Get userId from authentication middleware instead of request body
+   * Partial update of a post by the authenticated user.
+   * A stale If-Match ETag is rejected with 412.
    */
-  posts.patch("/:id", async (c) => {
-    const body = await c.req.json();
+  posts.patch("/:id", requireScope("posts:write"), async (c) => {
+    const bodyResult = await readJsonBody(c);
+
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+    if (ifMatchResult.isErr()) {
+      return sendHttpError(c, ifMatchResult.error);
+    }
+
+    const body = bodyResult.value;
 
     const inputResult = parsePatchPostInput({
       id: c.req.param("id"),
-      userId: body.userId, // TODO: Get from auth middleware
+      userId: getPrincipal(c).userId,
+      expectedVersion: ifMatchResult.value,
       data: body,
     });
 
@@ -176,6 +374,8 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
       {
         postRepository: deps.postRepository,
         postAuthorizationService: deps.postAuthorizationService,
+        postRevisionRepository: deps.postRevisionRepository,
+        unitOfWork: deps.unitOfWork,
       },
       inputResult.value,
     );
@@ -184,21 +384,384 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
+    c.header("ETag", formatEtag(result.value.post.version));
+
     return c.json({ data: result.value.post });
   });
 
   /**
-   * DELETE /posts/:id
-   * Soft delete a post.
-   * TODO: Get userId from authentication middleware instead of request header
+   * POST /posts/:id/publish
+   * Publish a draft or archived post; 409 if it is already published.
+   * A stale If-Match ETag is rejected with 412.
    */
-  posts.delete("/:id", async (c) => {
-    // TODO: Get userId from auth middleware
-    const userId = c.req.header("X-User-Id") || "";
+  posts.post("/:id/publish", requireScope("posts:write"), async (c) => {
+    const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+    if (ifMatchResult.isErr()) {
+      return sendHttpError(c, ifMatchResult.error);
+    }
+
+    const inputResult = parsePublishPostInput({
+      id: c.req.param("id"),
+      userId: getPrincipal(c).userId,
+      expectedVersion: ifMatchResult.value,
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executePublishPost(
+      {
+        postRepository: deps.postRepository,
+        postAuthorizationService: deps.postAuthorizationService,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    c.header("ETag", formatEtag(result.value.post.version));
 
+    return c.json({ data: result.value.post });
+  });
+
+  /**
+   * POST /posts/:id/archive
+   * Archive a published post; 409 for drafts and archived posts.
+   * A stale If-Match ETag is rejected with 412.
+   */
+  posts.post("/:id/archive", requireScope("posts:write"), async (c) => {
+    const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+    if (ifMatchResult.isErr()) {
+      return sendHttpError(c, ifMatchResult.error);
+    }
+
+    const inputResult = parseArchivePostInput({
+      id: c.req.param("id"),
+      userId: getPrincipal(c).userId,
+      expectedVersion: ifMatchResult.value,
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeArchivePost(
+      {
+        postRepository: deps.postRepository,
+        postAuthorizationService: deps.postAuthorizationService,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    c.header("ETag", formatEtag(result.value.post.version));
+
+    return c.json({ data: result.value.post });
+  });
+
+  const { jobRepository } = deps;
+
+  if (jobRepository) {
+    /**
+     * POST /posts/:id/schedule
+     * Publish a draft or archived post automatically at `publishAt`.
+     * Scheduling again replaces the previous schedule.
+     * A stale If-Match ETag is rejected with 412.
+     */
+    posts.post("/:id/schedule", requireScope("posts:write"), async (c) => {
+      const bodyResult = await readJsonBody(c);
+
+      if (bodyResult.isErr()) {
+        return sendHttpError(c, bodyResult.error);
+      }
+
+      const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+      if (ifMatchResult.isErr()) {
+        return sendHttpError(c, ifMatchResult.error);
+      }
+
+      const inputResult = parseSchedulePostInput({
+        id: c.req.param("id"),
+        userId: getPrincipal(c).userId,
+        expectedVersion: ifMatchResult.value,
+        data: bodyResult.value,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeSchedulePost(
+        {
+          postRepository: deps.postRepository,
+          jobRepository,
+          postAuthorizationService: deps.postAuthorizationService,
+          unitOfWork: deps.unitOfWork,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      c.header("ETag", formatEtag(result.value.post.version));
+
+      return c.json({ data: result.value.post });
+    });
+
+    /**
+     * DELETE /posts/:id/schedule
+     * Cancel a scheduled publish; 409 if none is scheduled.
+     * A stale If-Match ETag is rejected with 412.
+     */
+    posts.delete("/:id/schedule", requireScope("posts:write"), async (c) => {
+      const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+      if (ifMatchResult.isErr()) {
+        return sendHttpError(c, ifMatchResult.error);
+      }
+
+      const inputResult = parseUnschedulePostInput({
+        id: c.req.param("id"),
+        userId: getPrincipal(c).userId,
+        expectedVersion: ifMatchResult.value,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeUnschedulePost(
+        {
+          postRepository: deps.postRepository,
+          postAuthorizationService: deps.postAuthorizationService,
+        },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      c.header("ETag", formatEtag(result.value.post.version));
+
+      return c.json({ data: result.value.post });
+    });
+  }
+
+  const { postRevisionRepository } = deps;
+
+  if (postRevisionRepository) {
+    /**
+     * GET /posts/:id/revisions
+     * List the post's revisions, newest first. Each revision holds the
+     * title and content an edit replaced; `revision` is the replaced version.
+     */
+    posts.get(
+      "/:id/revisions",
+      requireScopeWhenAuthenticated("posts:read"),
+      async (c) => {
+        const inputResult = parseListPostRevisionsInput({
+          id: c.req.param("id"),
+          viewerId: c.get("principal")?.userId,
+        });
+
+        if (inputResult.isErr()) {
+          return sendHttpError(c, inputResult.error);
+        }
+
+        const result = await executeListPostRevisions(
+          {
+            postRevisionRepository,
+            postAuthorizationService: deps.postAuthorizationService,
+          },
+          inputResult.value,
+        );
+
+        if (result.isErr()) {
+          return sendHttpError(c, result.error);
+        }
+
+        return c.json({ data: result.value.revisions });
+      },
+    );
+
+    /**
+     * GET /posts/:id/revisions/:rev
+     * Get a revision with a line diff from it to the current content.
+     */
+    posts.get(
+      "/:id/revisions/:rev",
+      requireScopeWhenAuthenticated("posts:read"),
+      async (c) => {
+        const inputResult = parseGetPostRevisionInput({
+          id: c.req.param("id"),
+          rev: c.req.param("rev"),
+          viewerId: c.get("principal")?.userId,
+        });
+
+        if (inputResult.isErr()) {
+          return sendHttpError(c, inputResult.error);
+        }
+
+        const result = await executeGetPostRevision(
+          {
+            postRepository: deps.postRepository,
+            postRevisionRepository,
+            postAuthorizationService: deps.postAuthorizationService,
+          },
+          inputResult.value,
+        );
+
+        if (result.isErr()) {
+          return sendHttpError(c, result.error);
+        }
+
+        return c.json({
+          data: { ...result.value.revision, diff: result.value.diff },
+        });
+      },
+    );
+
+    /**
+     * POST /posts/:id/revisions/:rev/restore
+     * Restore a revision's title and content as a new edit.
+     * A stale If-Match ETag is rejected with 412.
+     */
+    posts.post(
+      "/:id/revisions/:rev/restore",
+      requireScope("posts:write"),
+      async (c) => {
+        const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+        if (ifMatchResult.isErr()) {
+          return sendHttpError(c, ifMatchResult.error);
+        }
+
+        const inputResult = parseRestorePostRevisionInput({
+          id: c.req.param("id"),
+          rev: c.req.param("rev"),
+          userId: getPrincipal(c).userId,
+          expectedVersion: ifMatchResult.value,
+        });
+
+        if (inputResult.isErr()) {
+          return sendHttpError(c, inputResult.error);
+        }
+
+        const result = await executeRestorePostRevision(
+          {
+            postRepository: deps.postRepository,
+            postRevisionRepository,
+            postAuthorizationService: deps.postAuthorizationService,
+            unitOfWork: deps.unitOfWork,
+          },
+          inputResult.value,
+        );
+
+        if (result.isErr()) {
+          return sendHttpError(c, result.error);
+        }
+
+        c.header("ETag", formatEtag(result.value.post.version));
+
+        return c.json({ data: result.value.post });
+      },
+    );
+  }
+
+  const { reactionRepository } = deps;
+
+  if (reactionRepository) {
+    /**
+     * PUT /posts/:id/reactions/:kind
+     * React to a post (like, celebrate, insightful). Repeating it is a no-op.
+     * Responds with the post's reactions after the change.
+     */
+    posts.put(
+      "/:id/reactions/:kind",
+      requireScope("posts:write"),
+      async (c) => {
+        const inputResult = parseAddReactionInput({
+          postId: c.req.param("id"),
+          userId: getPrincipal(c).userId,
+          kind: c.req.param("kind"),
+        });
+
+        if (inputResult.isErr()) {
+          return sendHttpError(c, inputResult.error);
+        }
+
+        const result = await executeAddReaction(
+          {
+            reactionRepository,
+            postAuthorizationService: deps.postAuthorizationService,
+          },
+          inputResult.value,
+        );
+
+        if (result.isErr()) {
+          return sendHttpError(c, result.error);
+        }
+
+        return c.json({ data: result.value.reactions });
+      },
+    );
+
+    /**
+     * DELETE /posts/:id/reactions/:kind
+     * Take back a reaction. Repeating it is a no-op.
+     * Responds with the post's reactions after the change.
+     */
+    posts.delete(
+      "/:id/reactions/:kind",
+      requireScope("posts:write"),
+      async (c) => {
+        const inputResult = parseRemoveReactionInput({
+          postId: c.req.param("id"),
+          userId: getPrincipal(c).userId,
+          kind: c.req.param("kind"),
+        });
+
+        if (inputResult.isErr()) {
+          return sendHttpError(c, inputResult.error);
+        }
+
+        const result = await executeRemoveReaction(
+          {
+            reactionRepository,
+            postAuthorizationService: deps.postAuthorizationService,
+          },
+          inputResult.value,
+        );
+
+        if (result.isErr()) {
+          return sendHttpError(c, result.error);
+        }
+
+        return c.json({ data: result.value.reactions });
+      },
+    );
+  }
+
+  /**
+   * DELETE /posts/:id
+   * Soft delete a post by the authenticated user.
+   */
+  posts.delete("/:id", requireScope("posts:write"), async (c) => {
     const inputResult = parseDeletePostInput({
       id: c.req.param("id"),
-      userId,
+      userId: getPrincipal(c).userId,
     });
 
     if (inputResult.isErr()) {
@@ -220,5 +783,36 @@ export const createPostRoutes = (deps: PostRoutesDeps) => {
     return c.body(null, 204);
   });
 
+  /**
+   * POST /posts/:id/restore
+   * Undo a soft delete (admin only).
+   */
+  posts.post("/:id/restore", requireScope("posts:write"), async (c) => {
+    const inputResult = parseRestorePostInput({
+      id: c.req.param("id"),
+      userId: getPrincipal(c).userId,
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeRestorePost(
+      {
+        postRepository: deps.postRepository,
+        postAuthorizationService: deps.postAuthorizationService,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    c.header("ETag", formatEtag(result.value.post.version));
+
+    return c.json({ data: result.value.post });
+  });
+
   return posts;
 };
@@ -0,0 +1,93 @@
+/**
+ * Statistics routes - HTTP endpoints for user statistics.
+ * Mounted at the root: per-user statistics live under /users/:id/stats and
+ * the site-wide summary at /stats/users.
+ */
+
+import { Hono } from "hono";
+
+import type { UserStatisticsService } from "../domain/services";
+import {
+  type AuthEnv,
+  requireScopeWhenAuthenticated,
+} from "../middleware/authentication";
+import {
+  executeGetUserStatistics,
+  parseGetUserStatisticsInput,
+} from "../usecases/get-user-statistics";
+import {
+  executeGetUsersSummary,
+  parseGetUsersSummaryInput,
+} from "../usecases/get-users-summary";
+import { sendHttpError } from "../utils/http-error";
+
+/**
+ * Dependencies for statistics routes.
+ */
+export interface StatisticsRoutesDeps {
+  readonly userStatisticsService: UserStatisticsService;
+}
+
+/**
+ * Create statistics routes with injected dependencies.
+ * Counts include soft-deleted rows.
+ */
+export const createStatisticsRoutes = (deps: StatisticsRoutesDeps) => {
+  const statistics = new Hono<AuthEnv>();
+
+  /**
+   * GET /users/:id/stats
+   * A user's post counts, average post length and first/last post dates.
+   * Drafts and archived posts only count for the user and moderators.
+   */
+  statistics.get(
+    "/users/:id/stats",
+    requireScopeWhenAuthenticated("users:read"),
+    async (c) => {
+      const inputResult = parseGetUserStatisticsInput({
+        id: c.req.param("id"),
+        viewerId: c.get("principal")?.userId,
+      });
+
+      if (inputResult.isErr()) {
+        return sendHttpError(c, inputResult.error);
+      }
+
+      const result = await executeGetUserStatistics(
+        { userStatisticsService: deps.userStatisticsService },
+        inputResult.value,
+      );
+
+      if (result.isErr()) {
+        return sendHttpError(c, result.error);
+      }
+
+      return c.json({ data: result.value.statistics });
+    },
+  );
+
+  /**
+   * GET /stats/users
+   * Site-wide user and post counts.
+   */
+  statistics.get("/stats/users", async (c) => {
+    const inputResult = parseGetUsersSummaryInput({});
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeGetUsersSummary(
+      { userStatisticsService: deps.userStatisticsService },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    return c.json({ data: result.value.summary });
+  });
+
+  return statistics;
+};
@@ -0,0 +1,50 @@
+/**
+ * Tag routes - HTTP endpoints for tag operations.
+ */
+
+import { Hono } from "hono";
+
+import type { AuthEnv } from "../middleware/authentication";
+import type { TagRepository } from "../repositories/interfaces/tag-repository";
+import { executeListTags, parseListTagsInput } from "../usecases/list-tags";
+import { sendHttpError } from "../utils/http-error";
+
+/**
+ * Dependencies for tag routes.
+ */
+export interface TagRoutesDeps {
+  readonly tagRepository: TagRepository;
+}
+
+/**
+ * Create tag routes with injected dependencies.
+ */
+export const createTagRoutes = (deps: TagRoutesDeps) => {
+  const tags = new Hono<AuthEnv>();
+
+  /**
+   * GET /tags
+   * List tags used by published posts, most used first.
+   * Query params: limit
+   */
+  tags.get("/", async (c) => {
+    const inputResult = parseListTagsInput(c.req.query());
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeListTags(
+      { tagRepository: deps.tagRepository },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    return c.json({ data: result.value.tags });
+  });
+
+  return tags;
+};
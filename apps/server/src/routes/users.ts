@@ -4,7 +4,17 @@
 
 import { Hono } from "hono";
 
+import type { EmailVerificationService } from "../domain/services/email-verification-service";
 import type { UserAuthenticationService } from "../domain/services/user-authentication-service";
+import type { UserAuthorizationService } from "../domain/services/user-authorization-service";
+import {
+  type AuthEnv,
+  getPrincipal,
+  requireScope,
+  requireScopeWhenAuthenticated,
+} from "../middleware/authentication";
+import { createIdempotencyMiddleware } from "../middleware/idempotency";
+import type { IdempotencyKeyRepository } from "../repositories/interfaces/idempotency-key-repository";
 import type { UserRepository } from "../repositories/interfaces/user-repository";
 import {
   executeCreateUser,
@@ -16,13 +26,19 @@ import {
 } from "../usecases/delete-user";
 import { executeGetUser, parseGetUserInput } from "../usecases/get-user";
 import { executeListUsers, parseListUsersInput } from "../usecases/list-users";
+import {
+  executeRestoreUser,
+  parseRestoreUserInput,
+} from "../usecases/restore-user";
 import {
   executePatchUser,
   executePutUser,
   parsePatchUserInput,
   parsePutUserInput,
 } from "../usecases/update-user";
+import { formatEtag, isNotModified, parseIfMatch } from "../utils/etag";
 import { sendHttpError } from "../utils/http-error";
+import { readJsonBody } from "../utils/request-body";
 
 /**
  * Dependencies for user routes.
@@ -30,6 +46,12 @@ import { sendHttpError } from "../utils/http-error";
 export interface UserRoutesDeps {
   readonly userRepository: UserRepository;
   readonly userAuthenticationService: UserAuthenticationService;
+  readonly userAuthorizationService: UserAuthorizationService;
+  readonly emailVerificationService?: EmailVerificationService;
+  /** Enables Idempotency-Key replays on POST /users when provided */
+  readonly idempotencyKeyRepository?: IdempotencyKeyRepository;
+  /** How long idempotency keys are remembered */
+  readonly idempotencyTtlSeconds?: number;
 }
 
 /**
@@ -37,23 +59,34 @@ export interface UserRoutesDeps {
  * DI allows testing without mock.module().
  */
 export const createUserRoutes = (deps: UserRoutesDeps) => {
-  const users = new Hono();
+  const users = new Hono<AuthEnv>();
+
+  const idempotent = createIdempotencyMiddleware(deps);
 
   /**
    * GET /users
    * List all users with pagination.
+   * Query params: limit, either offset or cursor, sort (createdAt,
+   * updatedAt, name; `-` for descending), createdAfter, createdBefore,
+   * name[contains], and email[eq] (requires users:manage)
    */
-  users.get("/", async (c) => {
+  users.get("/", requireScopeWhenAuthenticated("users:read"), async (c) => {
     const query = c.req.query();
 
-    const inputResult = parseListUsersInput(query);
+    const inputResult = parseListUsersInput({
+      ...query,
+      actorId: c.get("principal")?.userId,
+    });
 
     if (inputResult.isErr()) {
       return sendHttpError(c, inputResult.error);
     }
 
     const result = await executeListUsers(
-      { userRepository: deps.userRepository },
+      {
+        userRepository: deps.userRepository,
+        userAuthorizationService: deps.userAuthorizationService,
+      },
       inputResult.value,
     );
 
@@ -70,6 +103,7 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
   /**
    * GET /users/:id
    * Get a single user by ID.
+   * Replies 304 when If-None-Match names the current ETag.
    */
   users.get("/:id", async (c) => {
     const inputResult = parseGetUserInput({ id: c.req.param("id") });
@@ -87,17 +121,36 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
-    return c.json({ data: result.value.user });
+    const { user } = result.value;
+    const etag = formatEtag(user.version);
+
+    if (isNotModified(c.req.header("If-None-Match"), etag)) {
+      return c.body(null, 304, { ETag: etag });
+    }
+
+    c.header("ETag", etag);
+
+    return c.json({ data: user });
   });
 
   /**
    * POST /users
-   * Create a new user.
+   * Create a new user (admins only).
+   * Retries with the same Idempotency-Key replay the first response.
    */
-  users.post("/", async (c) => {
-    const body = await c.req.json();
+  users.post("/", requireScope("users:write"), idempotent, async (c) => {
+    const bodyResult = await readJsonBody(c);
 
-    const inputResult = parseCreateUserInput(body);
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const body = bodyResult.value;
+
+    const inputResult = parseCreateUserInput({
+      ...body,
+      actorId: getPrincipal(c).userId,
+    });
 
     if (inputResult.isErr()) {
       return sendHttpError(c, inputResult.error);
@@ -107,6 +160,7 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
       {
         userRepository: deps.userRepository,
         userAuthenticationService: deps.userAuthenticationService,
+        userAuthorizationService: deps.userAuthorizationService,
       },
       inputResult.value,
     );
@@ -115,18 +169,35 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
+    c.header("ETag", formatEtag(result.value.user.version));
+
     return c.json({ data: result.value.user }, 201);
   });
 
   /**
    * PUT /users/:id
-   * Full update of a user.
+   * Full update of a user (the user themselves or an admin).
+   * A stale If-Match ETag is rejected with 412.
    */
-  users.put("/:id", async (c) => {
-    const body = await c.req.json();
+  users.put("/:id", requireScope("users:write"), async (c) => {
+    const bodyResult = await readJsonBody(c);
+
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+    if (ifMatchResult.isErr()) {
+      return sendHttpError(c, ifMatchResult.error);
+    }
+
+    const body = bodyResult.value;
 
     const inputResult = parsePutUserInput({
       id: c.req.param("id"),
+      actorId: getPrincipal(c).userId,
+      expectedVersion: ifMatchResult.value,
       data: body,
     });
 
@@ -135,7 +206,11 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
     }
 
     const result = await executePutUser(
-      { userRepository: deps.userRepository },
+      {
+        userRepository: deps.userRepository,
+        userAuthorizationService: deps.userAuthorizationService,
+        emailVerificationService: deps.emailVerificationService,
+      },
       inputResult.value,
     );
 
@@ -143,18 +218,35 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
+    c.header("ETag", formatEtag(result.value.user.version));
+
     return c.json({ data: result.value.user });
   });
 
   /**
    * PATCH /users/:id
-   * Partial update of a user.
+   * Partial update of a user (the user themselves or an admin).
+   * A stale If-Match ETag is rejected with 412.
    */
-  users.patch("/:id", async (c) => {
-    const body = await c.req.json();
+  users.patch("/:id", requireScope("users:write"), async (c) => {
+    const bodyResult = await readJsonBody(c);
+
+    if (bodyResult.isErr()) {
+      return sendHttpError(c, bodyResult.error);
+    }
+
+    const ifMatchResult = parseIfMatch(c.req.header("If-Match"));
+
+    if (ifMatchResult.isErr()) {
+      return sendHttpError(c, ifMatchResult.error);
+    }
+
+    const body = bodyResult.value;
 
     const inputResult = parsePatchUserInput({
       id: c.req.param("id"),
+      actorId: getPrincipal(c).userId,
+      expectedVersion: ifMatchResult.value,
       data: body,
     });
 
@@ -163,7 +255,11 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
     }
 
     const result = await executePatchUser(
-      { userRepository: deps.userRepository },
+      {
+        userRepository: deps.userRepository,
+        userAuthorizationService: deps.userAuthorizationService,
+        emailVerificationService: deps.emailVerificationService,
+      },
       inputResult.value,
     );
 
@@ -171,22 +267,30 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
       return sendHttpError(c, result.error);
     }
 
+    c.header("ETag", formatEtag(result.value.user.version));
+
     return c.json({ data: result.value.user });
   });
 
   /**
    * DELETE /users/:id
-   * Soft delete a user.
+   * Soft delete a user (the user themselves or an admin).
    */
-  users.delete("/:id", async (c) => {
-    const inputResult = parseDeleteUserInput({ id: c.req.param("id") });
+  users.delete("/:id", requireScope("users:write"), async (c) => {
+    const inputResult = parseDeleteUserInput({
+      id: c.req.param("id"),
+      actorId: getPrincipal(c).userId,
+    });
 
     if (inputResult.isErr()) {
       return sendHttpError(c, inputResult.error);
     }
 
     const result = await executeDeleteUser(
-      { userRepository: deps.userRepository },
+      {
+        userRepository: deps.userRepository,
+        userAuthorizationService: deps.userAuthorizationService,
+      },
       inputResult.value,
     );
 
@@ -197,5 +301,37 @@ export const createUserRoutes = (deps: UserRoutesDeps) => {
     return c.body(null, 204);
   });
 
+  /**
+   * POST /users/:id/restore
+   * Undo a soft delete (admin only).
+   * Replies 409 when the user's email has been taken since.
+   */
+  users.post("/:id/restore", requireScope("users:write"), async (c) => {
+    const inputResult = parseRestoreUserInput({
+      id: c.req.param("id"),
+      actorId: getPrincipal(c).userId,
+    });
+
+    if (inputResult.isErr()) {
+      return sendHttpError(c, inputResult.error);
+    }
+
+    const result = await executeRestoreUser(
+      {
+        userRepository: deps.userRepository,
+        userAuthorizationService: deps.userAuthorizationService,
+      },
+      inputResult.value,
+    );
+
+    if (result.isErr()) {
+      return sendHttpError(c, result.error);
+    }
+
+    c.header("ETag", formatEtag(result.value.user.version));
+
+    return c.json({ data: result.value.user });
+  });
+
   return users;
 };
@@ -1,14 +1,75 @@
 /**
  * Bun server entry point.
- * This file is the runtime entry - starts the server.
+ * This file is the runtime entry - wires dependencies and starts the server.
  */
 
-import { app } from "./app";
+import { createApp } from "./app";
+import { createContainer } from "./container";
 import { env } from "./env";
 
-console.log(`Server starting on port ${env.PORT}...`);
+const container = createContainer({
+  backend: env.REPOSITORY_BACKEND,
+  databaseUrl: env.DATABASE_URL,
+  sqlitePath: env.SQLITE_PATH,
+  sessionSecret: env.SESSION_SECRET,
+  mailWebhookUrl: env.MAIL_WEBHOOK_URL,
+  mailWebhookToken: env.MAIL_WEBHOOK_TOKEN,
+  idempotencyTtlSeconds: env.IDEMPOTENCY_KEY_TTL_SECONDS,
+  jobPollIntervalMs: env.JOB_POLL_INTERVAL_MS,
+  retentionDays: env.RETENTION_DAYS,
+  retentionPurgeIntervalMs: env.RETENTION_PURGE_INTERVAL_MS,
+});
 
-export default {
+if (!env.MAIL_WEBHOOK_URL) {
+  console.warn(
+    "MAIL_WEBHOOK_URL is not set; outgoing email, verification tokens included, is logged to the console.",
+  );
+}
+
+if (!env.SESSION_SECRET) {
+  console.warn(
+    "SESSION_SECRET is not set; using an ephemeral secret (sessions reset on restart). Production requires it.",
+  );
+}
+
+// Serving against an outdated schema fails in confusing ways at request time
+const schema = await container.checkSchema();
+
+if (!schema.upToDate) {
+  console.error(
+    `Database schema is behind (pending: ${schema.pending.join(", ")}). Run \`bun run db:migrate up\` first.`,
+  );
+  await container.close();
+  process.exit(1);
+}
+
+const app = createApp(container.deps);
+
+// Scheduled posts are published and retention purges run by this worker
+container.jobWorker.start();
+container.retentionScheduler.start();
+
+console.log(
+  `Server starting on port ${env.PORT} (${container.backend} backend)...`,
+);
+
+const server = Bun.serve({
   port: env.PORT,
   fetch: app.fetch,
+});
+
+/**
+ * Stop accepting connections, wait for in-flight requests and jobs,
+ * then release the container's resources.
+ */
+const shutdown = async (signal: string) => {
+  console.log(`Received ${signal}, shutting down...`);
+  await server.stop();
+  container.retentionScheduler.stop();
+  await container.jobWorker.stop();
+  await container.close();
+  process.exit(0);
 };
+
+process.once("SIGINT", () => void shutdown("SIGINT"));
+process.once("SIGTERM", () => void shutdown("SIGTERM"));
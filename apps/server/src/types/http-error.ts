@@ -22,10 +22,53 @@ export interface ProblemDetails {
   readonly instance?: string;
   /** Validation error details (for 400 responses) */
   readonly errors?: readonly ValidationDetail[];
+  /** Permission the caller lacks (for 403 responses) */
+  readonly requiredPermission?: string;
+  /** Machine-readable cause of a conflict (for 409 responses) */
+  readonly conflictReason?: string;
   /** Additional metadata (debug info, suppress in production) */
   readonly meta?: Record<string, unknown>;
 }
 
+/**
+ * Payload too large - request body exceeds the accepted size.
+ * A transport-level error raised before any domain logic runs.
+ */
+export interface PayloadTooLargeError {
+  readonly type: "PayloadTooLargeError";
+  readonly message: string;
+  /** Accepted size in bytes, when known */
+  readonly limitBytes?: number;
+}
+
+/**
+ * Idempotency key reused - the key was first sent with a different request.
+ * A transport-level error raised before any domain logic runs.
+ */
+export interface IdempotencyKeyReusedError {
+  readonly type: "IdempotencyKeyReusedError";
+  readonly message: string;
+}
+
+/**
+ * Client error - a thrown HTTPException with a 4xx status that no other
+ * error type covers (e.g. 405, 415, 429). Keeps the thrown status.
+ */
+export interface HttpClientError {
+  readonly type: "HttpClientError";
+  readonly message: string;
+  /** 4xx status of the HTTPException */
+  readonly status: number;
+}
+
+/**
+ * Union of transport-level errors produced by the HTTP layer itself.
+ */
+export type HttpTransportError =
+  | PayloadTooLargeError
+  | IdempotencyKeyReusedError
+  | HttpClientError;
+
 /**
  * HTTP error response structure returned by toHttpError.
  */
@@ -42,35 +85,47 @@ export const ERROR_TYPE_URNS = {
   ValidationError: "urn:app:error:validation",
   NotFoundError: "urn:app:error:not-found",
   ConflictError: "urn:app:error:conflict",
+  PreconditionFailedError: "urn:app:error:precondition-failed",
   UnauthorizedError: "urn:app:error:unauthorized",
   ForbiddenError: "urn:app:error:forbidden",
   UnexpectedError: "urn:app:error:unexpected",
+  PayloadTooLargeError: "urn:app:error:payload-too-large",
+  IdempotencyKeyReusedError: "urn:app:error:idempotency-key-reused",
+  HttpClientError: "urn:app:error:client",
   ZodError: "urn:app:error:validation",
 } as const;
 
 /**
  * HTTP status codes for each error type.
+ * HttpClientError carries its own status.
  */
 export const ERROR_STATUS_CODES: Record<string, number> = {
   ValidationError: 400,
   NotFoundError: 404,
   ConflictError: 409,
+  PreconditionFailedError: 412,
   UnauthorizedError: 401,
   ForbiddenError: 403,
   UnexpectedError: 500,
+  PayloadTooLargeError: 413,
+  IdempotencyKeyReusedError: 422,
   ZodError: 400,
 };
 
 /**
  * Human-readable titles for each error type.
+ * HttpClientError is titled by its status.
  */
 export const ERROR_TITLES: Record<string, string> = {
   ValidationError: "Validation Error",
   NotFoundError: "Not Found",
   ConflictError: "Conflict",
+  PreconditionFailedError: "Precondition Failed",
   UnauthorizedError: "Unauthorized",
   ForbiddenError: "Forbidden",
   UnexpectedError: "Internal Server Error",
+  PayloadTooLargeError: "Payload Too Large",
+  IdempotencyKeyReusedError: "Unprocessable Content",
   ZodError: "Validation Error",
 };
 
@@ -0,0 +1,18 @@
+/**
+ * Public API for add-reaction usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  AddReactionInputSchema,
+  ReactionKindSchema,
+  parseAddReactionInput,
+} from "./input";
+export type { AddReactionInput } from "./input";
+
+export { executeAddReaction } from "./usecase";
+export type {
+  AddReactionDeps,
+  AddReactionError,
+  AddReactionOutput,
+} from "./usecase";
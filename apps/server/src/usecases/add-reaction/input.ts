@@ -0,0 +1,54 @@
+/**
+ * Input schema and validation for add-reaction usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+import { REACTION_KINDS } from "../../domain/reaction";
+
+/**
+ * One of the supported reaction kinds.
+ */
+export const ReactionKindSchema = z.enum(REACTION_KINDS);
+
+/**
+ * Input schema for reacting to a post.
+ */
+export const AddReactionInputSchema = z.object({
+  postId: z.string().min(1, "postId is required"),
+  userId: z.string().min(1, "userId is required"),
+  kind: ReactionKindSchema,
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type AddReactionInput = z.infer<typeof AddReactionInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseAddReactionInput = (
+  data: unknown,
+): Result<AddReactionInput, ValidationError> => {
+  const result = AddReactionInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid add-reaction input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,94 @@
+/**
+ * Add Reaction usecase.
+ * Reacts to a post the user can see; reacting twice with the same kind
+ * changes nothing.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import {
+  type NotFoundError,
+  notFoundError,
+  type UnauthorizedError,
+  type UnexpectedError,
+  unexpectedError,
+} from "../../domain/errors";
+import type { PostReactions } from "../../domain/reaction";
+import type { PostAuthorizationService } from "../../domain/services";
+import type { ReactionRepository } from "../../repositories/interfaces/reaction-repository";
+import type { AddReactionInput } from "./input";
+
+/**
+ * Output of the add-reaction usecase.
+ */
+export interface AddReactionOutput {
+  /** The post's reactions after the change, as seen by the user */
+  readonly reactions: PostReactions;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface AddReactionDeps {
+  readonly reactionRepository: ReactionRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type AddReactionError =
+  | NotFoundError
+  | UnauthorizedError
+  | UnexpectedError;
+
+/**
+ * Execute the add-reaction usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeAddReaction = async (
+  deps: AddReactionDeps,
+  input: AddReactionInput,
+): Promise<Result<AddReactionOutput, AddReactionError>> => {
+  const { reactionRepository, postAuthorizationService } = deps;
+
+  const authResult = await postAuthorizationService.canViewPost(
+    input.postId,
+    input.userId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  // Hidden drafts are reported as missing so their existence does not leak
+  if (!authResult.value.isAuthorized) {
+    return err(notFoundError("Post", input.postId));
+  }
+
+  const addResult = await reactionRepository.add(input);
+
+  if (addResult.isErr()) {
+    return err(addResult.error);
+  }
+
+  const summaryResult = await reactionRepository.summarize(
+    [input.postId],
+    input.userId,
+  );
+
+  if (summaryResult.isErr()) {
+    return err(summaryResult.error);
+  }
+
+  const reactions = summaryResult.value.get(input.postId);
+
+  if (!reactions) {
+    return err(unexpectedError("Reaction summary is missing the post"));
+  }
+
+  return ok({ reactions });
+};
@@ -0,0 +1,14 @@
+/**
+ * Public API for archive-post usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { ArchivePostInputSchema, parseArchivePostInput } from "./input";
+export type { ArchivePostInput } from "./input";
+
+export { executeArchivePost } from "./usecase";
+export type {
+  ArchivePostDeps,
+  ArchivePostError,
+  ArchivePostOutput,
+} from "./usecase";
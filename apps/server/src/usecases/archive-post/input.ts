@@ -0,0 +1,49 @@
+/**
+ * Input schema and validation for archive-post usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for archiving a post.
+ */
+export const ArchivePostInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  userId: z.string().min(1, "userId is required"),
+  /** Version from an If-Match precondition; the archive fails if stale */
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type ArchivePostInput = z.infer<typeof ArchivePostInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseArchivePostInput = (
+  data: unknown,
+): Result<ArchivePostInput, ValidationError> => {
+  const result = ArchivePostInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid archive-post input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,130 @@
+/**
+ * Archive Post usecase.
+ * Retires a published post: it stays readable but is no longer listed.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import {
+  conflictError,
+  forbiddenError,
+  notFoundError,
+} from "../../domain/errors";
+import type {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PreconditionFailedError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import { transitionPostStatus } from "../../domain/post-status";
+import type { PostAuthorizationService } from "../../domain/services";
+import type {
+  Post,
+  PostRepository,
+} from "../../repositories/interfaces/post-repository";
+import type { ArchivePostInput } from "./input";
+
+/**
+ * Output of the archive-post usecase.
+ */
+export interface ArchivePostOutput {
+  readonly post: Post;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface ArchivePostDeps {
+  readonly postRepository: PostRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type ArchivePostError =
+  | NotFoundError
+  | ConflictError
+  | PreconditionFailedError
+  | UnauthorizedError
+  | ForbiddenError
+  | UnexpectedError;
+
+/**
+ * Execute the archive-post usecase.
+ * Archiving requires the same permission as editing.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeArchivePost = async (
+  deps: ArchivePostDeps,
+  input: ArchivePostInput,
+): Promise<Result<ArchivePostOutput, ArchivePostError>> => {
+  const { postRepository, postAuthorizationService } = deps;
+
+  // Check authorization using domain service
+  const authResult = await postAuthorizationService.canEditPost(
+    input.userId,
+    input.id,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to edit this post",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const findResult = await postRepository.findById(input.id);
+
+  if (findResult.isErr()) {
+    return err(findResult.error);
+  }
+
+  const post = findResult.value;
+
+  if (!post) {
+    return err(notFoundError("Post", input.id));
+  }
+
+  const transitionResult = transitionPostStatus(post.status, "archive");
+
+  if (transitionResult.isErr()) {
+    return err(transitionResult.error);
+  }
+
+  // Guard on the version read above so a concurrent transition cannot be
+  // overwritten
+  const result = await postRepository.update(input.id, {
+    status: transitionResult.value,
+    expectedVersion: input.expectedVersion ?? post.version,
+  });
+
+  if (result.isErr()) {
+    if (
+      result.error.type === "PreconditionFailedError" &&
+      input.expectedVersion === undefined
+    ) {
+      return err(
+        conflictError("Post was modified while it was being archived", {
+          resource: "Post",
+          conflictReason: "post_modified_concurrently",
+        }),
+      );
+    }
+
+    return err(result.error);
+  }
+
+  return ok({ post: result.value });
+};
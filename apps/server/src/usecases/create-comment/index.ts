@@ -0,0 +1,18 @@
+/**
+ * Public API for create-comment usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  CommentContentSchema,
+  CreateCommentInputSchema,
+  parseCreateCommentInput,
+} from "./input";
+export type { CreateCommentInput } from "./input";
+
+export { executeCreateComment } from "./usecase";
+export type {
+  CreateCommentDeps,
+  CreateCommentError,
+  CreateCommentOutput,
+} from "./usecase";
@@ -0,0 +1,63 @@
+/**
+ * Input schema and validation for create-comment usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { MAX_COMMENT_LENGTH } from "../../domain/comment";
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Comment text, shared with the update-comment schema.
+ */
+export const CommentContentSchema = z
+  .string()
+  .trim()
+  .min(1, "content is required")
+  .max(
+    MAX_COMMENT_LENGTH,
+    `content must be at most ${MAX_COMMENT_LENGTH} characters`,
+  );
+
+/**
+ * Input schema for commenting on a post.
+ */
+export const CreateCommentInputSchema = z.object({
+  postId: z.string().min(1, "postId is required"),
+  authorId: z.string().min(1, "authorId is required"),
+  /** Comment to reply to; replies to a reply join its thread */
+  parentId: z.string().min(1, "parentId cannot be empty").optional(),
+  content: CommentContentSchema,
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type CreateCommentInput = z.infer<typeof CreateCommentInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseCreateCommentInput = (
+  data: unknown,
+): Result<CreateCommentInput, ValidationError> => {
+  const result = CreateCommentInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid create-comment input", { details }));
+  }
+
+  return ok(result.data);
+};
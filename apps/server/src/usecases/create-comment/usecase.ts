@@ -0,0 +1,117 @@
+/**
+ * Create Comment usecase.
+ * Adds a comment or a reply to a post the author can view.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { notFoundError } from "../../domain/errors";
+import type {
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { PostAuthorizationService } from "../../domain/services";
+import type {
+  Comment,
+  CommentRepository,
+} from "../../repositories/interfaces/comment-repository";
+import type { UserRepository } from "../../repositories/interfaces/user-repository";
+import type { CreateCommentInput } from "./input";
+
+/**
+ * Output of the create-comment usecase.
+ */
+export interface CreateCommentOutput {
+  readonly comment: Comment;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface CreateCommentDeps {
+  readonly commentRepository: CommentRepository;
+  readonly userRepository: UserRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type CreateCommentError =
+  | NotFoundError
+  | ConflictError
+  | UnauthorizedError
+  | UnexpectedError;
+
+/**
+ * Execute the create-comment usecase.
+ * Replies nest one level: a reply to a reply joins the thread of the
+ * top-level comment it belongs to.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeCreateComment = async (
+  deps: CreateCommentDeps,
+  input: CreateCommentInput,
+): Promise<Result<CreateCommentOutput, CreateCommentError>> => {
+  const { commentRepository, userRepository, postAuthorizationService } = deps;
+
+  const authorResult = await userRepository.findById(input.authorId);
+
+  if (authorResult.isErr()) {
+    return err(authorResult.error);
+  }
+
+  if (!authorResult.value) {
+    return err(notFoundError("User", input.authorId));
+  }
+
+  const authResult = await postAuthorizationService.canViewPost(
+    input.postId,
+    input.authorId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  // Hidden drafts are reported as missing so their existence does not leak
+  if (!authResult.value.isAuthorized) {
+    return err(notFoundError("Post", input.postId));
+  }
+
+  let parentId: string | null = null;
+
+  if (input.parentId !== undefined) {
+    const parentResult = await commentRepository.findById(input.parentId);
+
+    if (parentResult.isErr()) {
+      return err(parentResult.error);
+    }
+
+    const parent = parentResult.value;
+
+    if (!parent || parent.postId !== input.postId) {
+      return err(notFoundError("Comment", input.parentId));
+    }
+
+    parentId = parent.parentId ?? parent.id;
+  }
+
+  const result = await commentRepository.create({
+    postId: input.postId,
+    parentId,
+    authorId: input.authorId,
+    content: input.content,
+  });
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ comment: result.value });
+};
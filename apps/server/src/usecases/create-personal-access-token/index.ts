@@ -0,0 +1,17 @@
+/**
+ * Public API for create-personal-access-token usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  CreatePersonalAccessTokenInputSchema,
+  parseCreatePersonalAccessTokenInput,
+} from "./input";
+export type { CreatePersonalAccessTokenInput } from "./input";
+
+export { executeCreatePersonalAccessToken } from "./usecase";
+export type {
+  CreatePersonalAccessTokenDeps,
+  CreatePersonalAccessTokenError,
+  CreatePersonalAccessTokenOutput,
+} from "./usecase";
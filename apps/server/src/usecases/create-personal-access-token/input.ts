@@ -0,0 +1,78 @@
+/**
+ * Input schema and validation for create-personal-access-token usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+import { TOKEN_SCOPES } from "../../domain/permissions";
+
+/**
+ * Longest lifetime a token can be issued with.
+ */
+const MAX_EXPIRES_IN_DAYS = 365;
+
+/**
+ * Input schema for creating a personal access token.
+ */
+export const CreatePersonalAccessTokenInputSchema = z.object({
+  actorId: z.string().min(1, "actorId is required"),
+  /** Scopes of the credential making the request (undefined for sessions) */
+  actorScopes: z.array(z.enum(TOKEN_SCOPES)).optional(),
+  userId: z.string().min(1, "userId is required"),
+  name: z
+    .string()
+    .min(1, "name is required")
+    .max(255, "name must be at most 255 characters"),
+  scopes: z
+    .array(z.enum(TOKEN_SCOPES))
+    .min(1, "at least one scope is required")
+    .transform((scopes) => [...new Set(scopes)]),
+  expiresInDays: z.coerce
+    .number()
+    .int("expiresInDays must be an integer")
+    .min(1, "expiresInDays must be at least 1")
+    .max(
+      MAX_EXPIRES_IN_DAYS,
+      `expiresInDays must be at most ${MAX_EXPIRES_IN_DAYS}`,
+    )
+    .default(30),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type CreatePersonalAccessTokenInput = z.infer<
+  typeof CreatePersonalAccessTokenInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseCreatePersonalAccessTokenInput = (
+  data: unknown,
+): Result<CreatePersonalAccessTokenInput, ValidationError> => {
+  const result = CreatePersonalAccessTokenInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid create-personal-access-token input", {
+        details,
+      }),
+    );
+  }
+
+  return ok(result.data);
+};
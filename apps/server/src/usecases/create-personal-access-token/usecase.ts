@@ -0,0 +1,124 @@
+/**
+ * Create Personal Access Token usecase.
+ * Issues a scoped, expiring token for the caller's own account.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { forbiddenError } from "../../domain/errors";
+import type {
+  ForbiddenError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import { PERSONAL_ACCESS_TOKEN_PREFIX } from "../../domain/permissions";
+import type { UserAuthorizationService } from "../../domain/services";
+import type {
+  PersonalAccessToken,
+  PersonalAccessTokenRepository,
+  PersonalAccessTokenRepositoryError,
+} from "../../repositories/interfaces/personal-access-token-repository";
+import { generateOpaqueToken, hashOpaqueToken } from "../../utils/opaque-token";
+import type { CreatePersonalAccessTokenInput } from "./input";
+
+/**
+ * Milliseconds per day.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Output of the create-personal-access-token usecase.
+ */
+export interface CreatePersonalAccessTokenOutput {
+  readonly token: PersonalAccessToken;
+  /** Plaintext token; only available at creation time */
+  readonly plaintext: string;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface CreatePersonalAccessTokenDeps {
+  readonly personalAccessTokenRepository: PersonalAccessTokenRepository;
+  readonly userAuthorizationService: UserAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type CreatePersonalAccessTokenError =
+  | ForbiddenError
+  | UnauthorizedError
+  | UnexpectedError
+  | PersonalAccessTokenRepositoryError;
+
+/**
+ * Execute the create-personal-access-token usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeCreatePersonalAccessToken = async (
+  deps: CreatePersonalAccessTokenDeps,
+  input: CreatePersonalAccessTokenInput,
+): Promise<
+  Result<CreatePersonalAccessTokenOutput, CreatePersonalAccessTokenError>
+> => {
+  const { personalAccessTokenRepository, userAuthorizationService } = deps;
+
+  // Tokens act as their owner, so nobody (not even an admin) mints them for others
+  if (input.actorId !== input.userId) {
+    return err(
+      forbiddenError("Access tokens can only be created for your own account"),
+    );
+  }
+
+  const authResult = await userAuthorizationService.canUpdateUser(
+    input.actorId,
+    input.userId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to create tokens",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  // A scope-limited caller cannot mint a token with broader access
+  const missingScope =
+    input.actorScopes &&
+    input.scopes.find((scope) => !input.actorScopes?.includes(scope));
+
+  if (missingScope) {
+    return err(
+      forbiddenError(
+        `Cannot grant the '${missingScope}' scope without holding it`,
+        missingScope,
+      ),
+    );
+  }
+
+  const plaintext = generateOpaqueToken(PERSONAL_ACCESS_TOKEN_PREFIX);
+
+  const createResult = await personalAccessTokenRepository.create({
+    userId: input.userId,
+    name: input.name,
+    tokenHash: await hashOpaqueToken(plaintext),
+    scopes: input.scopes,
+    expiresAt: new Date(Date.now() + input.expiresInDays * DAY_MS),
+  });
+
+  if (createResult.isErr()) {
+    return err(createResult.error);
+  }
+
+  return ok({ token: createResult.value, plaintext });
+};
@@ -7,6 +7,38 @@ import { type Result, err, ok } from "neverthrow";
 import { z } from "zod";
 
 import { type ValidationError, validationError } from "../../domain/errors";
+import {
+  MAX_TAGS_PER_POST,
+  MAX_TAG_LENGTH,
+  normalizeTag,
+  normalizeTags,
+} from "../../domain/tag";
+
+/**
+ * Tags as entered, normalized to distinct sorted slugs.
+ * Shared with the update-post schemas.
+ */
+export const TagsSchema = z
+  .array(
+    z
+      .string()
+      .transform(normalizeTag)
+      .pipe(
+        z
+          .string()
+          .min(1, "tag must contain a letter or digit")
+          .max(
+            MAX_TAG_LENGTH,
+            `tag must be at most ${MAX_TAG_LENGTH} characters`,
+          ),
+      ),
+  )
+  .transform(normalizeTags)
+  .pipe(
+    z
+      .array(z.string())
+      .max(MAX_TAGS_PER_POST, `at most ${MAX_TAGS_PER_POST} tags are allowed`),
+  );
 
 /**
  * Input schema for creating a post.
@@ -18,6 +50,9 @@ export const CreatePostInputSchema = z.object({
     .max(255, "title must be at most 255 characters"),
   content: z.string().min(1, "content is required"),
   authorId: z.string().min(1, "authorId is required"),
+  /** Create as a draft (default) or publish immediately */
+  status: z.enum(["draft", "published"]).optional(),
+  tags: TagsSchema.optional(),
 });
 
 /**
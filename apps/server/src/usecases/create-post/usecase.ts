@@ -15,6 +15,7 @@ import type {
   Post,
   PostRepository,
 } from "../../repositories/interfaces/post-repository";
+import type { UnitOfWork } from "../../repositories/interfaces/unit-of-work";
 import type { UserRepository } from "../../repositories/interfaces/user-repository";
 import type { CreatePostInput } from "./input";
 
@@ -32,6 +33,8 @@ export interface CreatePostOutput {
 export interface CreatePostDeps {
   readonly postRepository: PostRepository;
   readonly userRepository: UserRepository;
+  /** When provided, the author check and insert run in one transaction */
+  readonly unitOfWork?: UnitOfWork;
 }
 
 /**
@@ -40,17 +43,13 @@ export interface CreatePostDeps {
 export type CreatePostError = NotFoundError | ConflictError | UnexpectedError;
 
 /**
- * Execute the create-post usecase.
- *
- * @param deps - Injected dependencies (repositories, etc.)
- * @param input - Validated input data
- * @returns Result with output or error
+ * Check the author and insert the post using the given repositories.
  */
-export const executeCreatePost = async (
-  deps: CreatePostDeps,
+const createPost = async (
+  repositories: Pick<CreatePostDeps, "postRepository" | "userRepository">,
   input: CreatePostInput,
 ): Promise<Result<CreatePostOutput, CreatePostError>> => {
-  const { postRepository, userRepository } = deps;
+  const { postRepository, userRepository } = repositories;
 
   // Verify author exists
   const authorResult = await userRepository.findById(input.authorId);
@@ -68,6 +67,8 @@ export const executeCreatePost = async (
     title: input.title,
     content: input.content,
     authorId: input.authorId,
+    status: input.status,
+    tags: input.tags,
   });
 
   if (createResult.isErr()) {
@@ -76,3 +77,21 @@ export const executeCreatePost = async (
 
   return ok({ post: createResult.value });
 };
+
+/**
+ * Execute the create-post usecase.
+ *
+ * @param deps - Injected dependencies (repositories, etc.)
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeCreatePost = async (
+  deps: CreatePostDeps,
+  input: CreatePostInput,
+): Promise<Result<CreatePostOutput, CreatePostError>> => {
+  if (!deps.unitOfWork) {
+    return createPost(deps, input);
+  }
+
+  return deps.unitOfWork.run((repositories) => createPost(repositories, input));
+};
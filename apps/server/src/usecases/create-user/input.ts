@@ -7,17 +7,20 @@ import { type Result, err, ok } from "neverthrow";
 import { z } from "zod";
 
 import { type ValidationError, validationError } from "../../domain/errors";
+import { ROLES } from "../../domain/permissions";
 
 /**
  * Input schema for creating a user.
  */
 export const CreateUserInputSchema = z.object({
+  actorId: z.string().min(1, "actorId is required"),
   name: z
     .string()
     .min(1, "name is required")
     .max(255, "name must be at most 255 characters"),
   email: z.email("email must be a valid email address"),
   image: z.url("image must be a valid URL").max(255).optional().nullable(),
+  role: z.enum(ROLES).optional(),
 });
 
 /**
@@ -5,14 +5,19 @@
 
 import { type Result, err, ok } from "neverthrow";
 
-import { conflictError } from "../../domain/errors";
+import { conflictError, forbiddenError } from "../../domain/errors";
 import type {
   ConflictError,
+  ForbiddenError,
   NotFoundError,
+  UnauthorizedError,
   UnexpectedError,
   ValidationError,
 } from "../../domain/errors";
-import type { UserAuthenticationService } from "../../domain/services";
+import type {
+  UserAuthenticationService,
+  UserAuthorizationService,
+} from "../../domain/services";
 import type {
   User,
   UserRepository,
@@ -33,6 +38,7 @@ export interface CreateUserOutput {
 export interface CreateUserDeps {
   readonly userRepository: UserRepository;
   readonly userAuthenticationService: UserAuthenticationService;
+  readonly userAuthorizationService: UserAuthorizationService;
 }
 
 /**
@@ -40,7 +46,9 @@ export interface CreateUserDeps {
  */
 export type CreateUserError =
   | ConflictError
+  | ForbiddenError
   | NotFoundError
+  | UnauthorizedError
   | UnexpectedError
   | ValidationError;
 
@@ -55,7 +63,29 @@ export const executeCreateUser = async (
   deps: CreateUserDeps,
   input: CreateUserInput,
 ): Promise<Result<CreateUserOutput, CreateUserError>> => {
-  const { userRepository, userAuthenticationService } = deps;
+  const {
+    userRepository,
+    userAuthenticationService,
+    userAuthorizationService,
+  } = deps;
+
+  // Only user managers (admins) can create accounts directly
+  const authResult = await userAuthorizationService.canManageUsers(
+    input.actorId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to create users",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
 
   // Check if email is available using domain service
   const availabilityResult = await userAuthenticationService.isEmailAvailable(
@@ -80,6 +110,7 @@ export const executeCreateUser = async (
     name: input.name,
     email: input.email,
     image: input.image,
+    role: input.role,
   });
 
   if (createResult.isErr()) {
@@ -0,0 +1,14 @@
+/**
+ * Public API for delete-comment usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { DeleteCommentInputSchema, parseDeleteCommentInput } from "./input";
+export type { DeleteCommentInput } from "./input";
+
+export { executeDeleteComment } from "./usecase";
+export type {
+  DeleteCommentDeps,
+  DeleteCommentError,
+  DeleteCommentOutput,
+} from "./usecase";
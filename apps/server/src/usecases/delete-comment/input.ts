@@ -0,0 +1,47 @@
+/**
+ * Input schema and validation for delete-comment usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for deleting a comment.
+ */
+export const DeleteCommentInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  userId: z.string().min(1, "userId is required"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type DeleteCommentInput = z.infer<typeof DeleteCommentInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseDeleteCommentInput = (
+  data: unknown,
+): Result<DeleteCommentInput, ValidationError> => {
+  const result = DeleteCommentInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid delete-comment input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,84 @@
+/**
+ * Delete Comment usecase.
+ * Orchestrates domain services and repository calls to soft delete a
+ * comment. Its replies stay, under a "[deleted]" placeholder.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { forbiddenError } from "../../domain/errors";
+import type {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { CommentAuthorizationService } from "../../domain/services";
+import type { CommentRepository } from "../../repositories/interfaces/comment-repository";
+import type { DeleteCommentInput } from "./input";
+
+/**
+ * Output of the delete-comment usecase.
+ */
+export interface DeleteCommentOutput {
+  readonly success: true;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface DeleteCommentDeps {
+  readonly commentRepository: CommentRepository;
+  readonly commentAuthorizationService: CommentAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type DeleteCommentError =
+  | NotFoundError
+  | UnauthorizedError
+  | ForbiddenError
+  | UnexpectedError;
+
+/**
+ * Execute the delete-comment usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeDeleteComment = async (
+  deps: DeleteCommentDeps,
+  input: DeleteCommentInput,
+): Promise<Result<DeleteCommentOutput, DeleteCommentError>> => {
+  const { commentRepository, commentAuthorizationService } = deps;
+
+  // Check authorization using domain service
+  const authResult = await commentAuthorizationService.canDeleteComment(
+    input.userId,
+    input.id,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ??
+          "You are not authorized to delete this comment",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const result = await commentRepository.delete(input.id);
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ success: true });
+};
@@ -5,8 +5,9 @@
 
 import { type Result, err, ok } from "neverthrow";
 
-import { unauthorizedError } from "../../domain/errors";
+import { forbiddenError } from "../../domain/errors";
 import type {
+  ForbiddenError,
   NotFoundError,
   UnauthorizedError,
   UnexpectedError,
@@ -36,6 +37,7 @@ export interface DeletePostDeps {
 export type DeletePostError =
   | NotFoundError
   | UnauthorizedError
+  | ForbiddenError
   | UnexpectedError;
 
 /**
@@ -63,8 +65,9 @@ export const executeDeletePost = async (
 
   if (!authResult.value.isAuthorized) {
     return err(
-      unauthorizedError(
+      forbiddenError(
         authResult.value.reason ?? "You are not authorized to delete this post",
+        authResult.value.requiredPermission,
       ),
     );
   }
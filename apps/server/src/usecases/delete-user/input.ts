@@ -13,6 +13,7 @@ import { type ValidationError, validationError } from "../../domain/errors";
  */
 export const DeleteUserInputSchema = z.object({
   id: z.string().min(1, "id is required"),
+  actorId: z.string().min(1, "actorId is required"),
 });
 
 /**
@@ -5,6 +5,9 @@
 
 import { type Result, err, ok } from "neverthrow";
 
+import { forbiddenError } from "../../domain/errors";
+import type { ForbiddenError, UnauthorizedError } from "../../domain/errors";
+import type { UserAuthorizationService } from "../../domain/services";
 import type {
   UserRepository,
   UserRepositoryError,
@@ -23,12 +26,16 @@ export interface DeleteUserOutput {
  */
 export interface DeleteUserDeps {
   readonly userRepository: UserRepository;
+  readonly userAuthorizationService: UserAuthorizationService;
 }
 
 /**
  * Usecase error.
  */
-export type DeleteUserError = UserRepositoryError;
+export type DeleteUserError =
+  | UserRepositoryError
+  | UnauthorizedError
+  | ForbiddenError;
 
 /**
  * Execute the delete-user usecase.
@@ -41,7 +48,26 @@ export const executeDeleteUser = async (
   deps: DeleteUserDeps,
   input: DeleteUserInput,
 ): Promise<Result<DeleteUserOutput, DeleteUserError>> => {
-  const { userRepository } = deps;
+  const { userRepository, userAuthorizationService } = deps;
+
+  // Check authorization using domain service
+  const authResult = await userAuthorizationService.canDeleteUser(
+    input.actorId,
+    input.id,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to delete this user",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
 
   const result = await userRepository.delete(input.id);
 
@@ -0,0 +1,14 @@
+/**
+ * Public API for follow-user usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { FollowUserInputSchema, parseFollowUserInput } from "./input";
+export type { FollowUserInput } from "./input";
+
+export { executeFollowUser } from "./usecase";
+export type {
+  FollowUserDeps,
+  FollowUserError,
+  FollowUserOutput,
+} from "./usecase";
@@ -0,0 +1,53 @@
+/**
+ * Input schema and validation for follow-user usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for following a user.
+ */
+export const FollowUserInputSchema = z
+  .object({
+    /** User to follow */
+    followeeId: z.string().min(1, "followeeId is required"),
+    followerId: z.string().min(1, "followerId is required"),
+  })
+  .refine((input) => input.followeeId !== input.followerId, {
+    message: "Users cannot follow themselves",
+    path: ["followeeId"],
+  });
+
+/**
+ * Input type derived from schema.
+ */
+export type FollowUserInput = z.infer<typeof FollowUserInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseFollowUserInput = (
+  data: unknown,
+): Result<FollowUserInput, ValidationError> => {
+  const result = FollowUserInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid follow-user input", { details }));
+  }
+
+  return ok(result.data);
+};
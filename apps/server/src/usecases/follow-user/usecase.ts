@@ -0,0 +1,75 @@
+/**
+ * Follow User usecase.
+ * Makes the caller follow another user; following twice changes nothing.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { type NotFoundError, notFoundError } from "../../domain/errors";
+import type {
+  FollowRepository,
+  FollowRepositoryError,
+} from "../../repositories/interfaces/follow-repository";
+import type {
+  UserRepository,
+  UserRepositoryError,
+} from "../../repositories/interfaces/user-repository";
+import type { FollowUserInput } from "./input";
+
+/**
+ * Output of the follow-user usecase.
+ */
+export interface FollowUserOutput {
+  readonly success: true;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface FollowUserDeps {
+  readonly followRepository: FollowRepository;
+  readonly userRepository: UserRepository;
+}
+
+/**
+ * Usecase error.
+ */
+export type FollowUserError =
+  | NotFoundError
+  | FollowRepositoryError
+  | UserRepositoryError;
+
+/**
+ * Execute the follow-user usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeFollowUser = async (
+  deps: FollowUserDeps,
+  input: FollowUserInput,
+): Promise<Result<FollowUserOutput, FollowUserError>> => {
+  const { followRepository, userRepository } = deps;
+
+  const followeeResult = await userRepository.findById(input.followeeId);
+
+  if (followeeResult.isErr()) {
+    return err(followeeResult.error);
+  }
+
+  if (!followeeResult.value) {
+    return err(notFoundError("User", input.followeeId));
+  }
+
+  const followResult = await followRepository.follow(
+    input.followerId,
+    input.followeeId,
+  );
+
+  if (followResult.isErr()) {
+    return err(followResult.error);
+  }
+
+  return ok({ success: true });
+};
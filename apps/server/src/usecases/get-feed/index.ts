@@ -0,0 +1,15 @@
+/**
+ * Public API for get-feed usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { GetFeedInputSchema, parseGetFeedInput } from "./input";
+export type { GetFeedInput } from "./input";
+
+export { executeGetFeed } from "./usecase";
+export type {
+  GetFeedDeps,
+  GetFeedError,
+  GetFeedOutput,
+  PaginationInfo,
+} from "./usecase";
@@ -0,0 +1,59 @@
+/**
+ * Input schema and validation for get-feed usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+import { FEED_SORT } from "../../repositories/interfaces/follow-repository";
+import { CursorParamSchema, cursorMatchesSort } from "../../utils/cursor";
+
+/**
+ * Input schema for reading the home feed.
+ */
+export const GetFeedInputSchema = z
+  .object({
+    viewerId: z.string().min(1, "viewerId is required"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    /** Opaque cursor from a previous page's nextCursor/prevCursor */
+    cursor: CursorParamSchema.optional(),
+  })
+  .refine(
+    (input) => !input.cursor || cursorMatchesSort(input.cursor, FEED_SORT),
+    {
+      message: "Cursor was not issued for the feed",
+      path: ["cursor"],
+    },
+  );
+
+/**
+ * Input type derived from schema.
+ */
+export type GetFeedInput = z.infer<typeof GetFeedInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseGetFeedInput = (
+  data: unknown,
+): Result<GetFeedInput, ValidationError> => {
+  const result = GetFeedInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid get-feed input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,105 @@
+/**
+ * Get Feed usecase.
+ * Reads a page of the caller's home feed: published posts by the users
+ * they follow, newest first.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import type { PostReactions } from "../../domain/reaction";
+import {
+  FEED_SORT,
+  type FollowRepository,
+  type FollowRepositoryError,
+} from "../../repositories/interfaces/follow-repository";
+import type { Post } from "../../repositories/interfaces/post-repository";
+import type {
+  ReactionRepository,
+  ReactionRepositoryError,
+} from "../../repositories/interfaces/reaction-repository";
+import { type PageCursors, buildPageCursors } from "../../utils/cursor";
+import type { GetFeedInput } from "./input";
+
+/**
+ * Pagination info in response.
+ * The feed pages by cursor only and has no total.
+ */
+export interface PaginationInfo extends PageCursors {
+  readonly limit: number;
+}
+
+/**
+ * Output of the get-feed usecase.
+ */
+export interface GetFeedOutput {
+  readonly posts: readonly Post[];
+  readonly pagination: PaginationInfo;
+  /** Reactions by post id; present when reactions are enabled */
+  readonly reactions?: ReadonlyMap<string, PostReactions>;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface GetFeedDeps {
+  readonly followRepository: FollowRepository;
+  /** Adds each post's reactions to the output when provided */
+  readonly reactionRepository?: ReactionRepository;
+}
+
+/**
+ * Usecase error.
+ */
+export type GetFeedError = FollowRepositoryError | ReactionRepositoryError;
+
+/**
+ * Execute the get-feed usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeGetFeed = async (
+  deps: GetFeedDeps,
+  input: GetFeedInput,
+): Promise<Result<GetFeedOutput, GetFeedError>> => {
+  const { followRepository, reactionRepository } = deps;
+
+  const result = await followRepository.findFeed(input.viewerId, {
+    limit: input.limit,
+    cursor: input.cursor,
+  });
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  const { posts, hasMore } = result.value;
+  const pagination = {
+    limit: input.limit,
+    ...buildPageCursors(
+      // Feed posts are published, so publishedAt is always set
+      posts.map((post) => ({
+        id: post.id,
+        publishedAt: post.publishedAt ?? post.createdAt,
+      })),
+      { limit: input.limit, cursor: input.cursor, sort: FEED_SORT },
+      hasMore,
+    ),
+  };
+
+  if (!reactionRepository) {
+    return ok({ posts, pagination });
+  }
+
+  const reactionsResult = await reactionRepository.summarize(
+    posts.map((post) => post.id),
+    input.viewerId,
+  );
+
+  if (reactionsResult.isErr()) {
+    return err(reactionsResult.error);
+  }
+
+  return ok({ posts, pagination, reactions: reactionsResult.value });
+};
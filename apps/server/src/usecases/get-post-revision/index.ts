@@ -0,0 +1,14 @@
+/**
+ * Public API for get-post-revision usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { GetPostRevisionInputSchema, parseGetPostRevisionInput } from "./input";
+export type { GetPostRevisionInput } from "./input";
+
+export { executeGetPostRevision } from "./usecase";
+export type {
+  GetPostRevisionDeps,
+  GetPostRevisionError,
+  GetPostRevisionOutput,
+} from "./usecase";
@@ -0,0 +1,53 @@
+/**
+ * Input schema and validation for get-post-revision usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for getting a post revision.
+ */
+export const GetPostRevisionInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  /** Revision number from the path */
+  rev: z.coerce
+    .number()
+    .int("rev must be an integer")
+    .positive("rev must be positive"),
+  /** Authenticated caller, if any (drafts are only shown to their author) */
+  viewerId: z.string().optional(),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type GetPostRevisionInput = z.infer<typeof GetPostRevisionInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseGetPostRevisionInput = (
+  data: unknown,
+): Result<GetPostRevisionInput, ValidationError> => {
+  const result = GetPostRevisionInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid get-post-revision input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,106 @@
+/**
+ * Get Post Revision usecase.
+ * Returns one revision with a line diff against the post's current content.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { notFoundError } from "../../domain/errors";
+import type {
+  NotFoundError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { PostAuthorizationService } from "../../domain/services";
+import type { PostRepository } from "../../repositories/interfaces/post-repository";
+import type {
+  PostRevision,
+  PostRevisionRepository,
+} from "../../repositories/interfaces/post-revision-repository";
+import { type DiffLine, diffLines } from "../../utils/line-diff";
+import type { GetPostRevisionInput } from "./input";
+
+/**
+ * Output of the get-post-revision usecase.
+ */
+export interface GetPostRevisionOutput {
+  readonly revision: PostRevision;
+  /** From the revision's content to the post's current content */
+  readonly diff: readonly DiffLine[];
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface GetPostRevisionDeps {
+  readonly postRepository: PostRepository;
+  readonly postRevisionRepository: PostRevisionRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type GetPostRevisionError =
+  | NotFoundError
+  | UnauthorizedError
+  | UnexpectedError;
+
+/**
+ * Execute the get-post-revision usecase.
+ * The revision is visible to whoever can view the post.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeGetPostRevision = async (
+  deps: GetPostRevisionDeps,
+  input: GetPostRevisionInput,
+): Promise<Result<GetPostRevisionOutput, GetPostRevisionError>> => {
+  const { postRepository, postRevisionRepository, postAuthorizationService } =
+    deps;
+
+  const authResult = await postAuthorizationService.canViewPost(
+    input.id,
+    input.viewerId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  // Hidden drafts are reported as missing so their existence does not leak
+  if (!authResult.value.isAuthorized) {
+    return err(notFoundError("Post", input.id));
+  }
+
+  const postResult = await postRepository.findById(input.id);
+
+  if (postResult.isErr()) {
+    return err(postResult.error);
+  }
+
+  const post = postResult.value;
+
+  if (!post) {
+    return err(notFoundError("Post", input.id));
+  }
+
+  const revisionResult = await postRevisionRepository.findByRevision(
+    input.id,
+    input.rev,
+  );
+
+  if (revisionResult.isErr()) {
+    return err(revisionResult.error);
+  }
+
+  const revision = revisionResult.value;
+
+  if (!revision) {
+    return err(notFoundError("PostRevision", `${input.id}/${input.rev}`));
+  }
+
+  return ok({ revision, diff: diffLines(revision.content, post.content) });
+};
@@ -13,6 +13,8 @@ import { type ValidationError, validationError } from "../../domain/errors";
  */
 export const GetPostInputSchema = z.object({
   id: z.string().min(1, "id is required"),
+  /** Authenticated caller, if any (drafts are only shown to their author) */
+  viewerId: z.string().optional(),
 });
 
 /**
@@ -1,6 +1,6 @@
 /**
  * Get Post usecase.
- * Retrieves a single post by ID.
+ * Retrieves a single post by ID if the viewer may see it.
  */
 
 import { type Result, err, ok } from "neverthrow";
@@ -8,12 +8,16 @@ import { type Result, err, ok } from "neverthrow";
 import {
   type NotFoundError,
   notFoundError,
+  type UnauthorizedError,
   type UnexpectedError,
 } from "../../domain/errors";
+import type { PostReactions } from "../../domain/reaction";
+import type { PostAuthorizationService } from "../../domain/services";
 import type {
   Post,
   PostRepository,
 } from "../../repositories/interfaces/post-repository";
+import type { ReactionRepository } from "../../repositories/interfaces/reaction-repository";
 import type { GetPostInput } from "./input";
 
 /**
@@ -21,6 +25,8 @@ import type { GetPostInput } from "./input";
  */
 export interface GetPostOutput {
   readonly post: Post;
+  /** Present when reactions are enabled */
+  readonly reactions?: PostReactions;
 }
 
 /**
@@ -28,12 +34,15 @@ export interface GetPostOutput {
  */
 export interface GetPostDeps {
   readonly postRepository: PostRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+  /** Adds the post's reactions to the output when provided */
+  readonly reactionRepository?: ReactionRepository;
 }
 
 /**
  * Usecase error.
  */
-export type GetPostError = NotFoundError | UnexpectedError;
+export type GetPostError = NotFoundError | UnauthorizedError | UnexpectedError;
 
 /**
  * Execute the get-post usecase.
@@ -46,7 +55,21 @@ export const executeGetPost = async (
   deps: GetPostDeps,
   input: GetPostInput,
 ): Promise<Result<GetPostOutput, GetPostError>> => {
-  const { postRepository } = deps;
+  const { postRepository, postAuthorizationService, reactionRepository } = deps;
+
+  const authResult = await postAuthorizationService.canViewPost(
+    input.id,
+    input.viewerId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  // Hidden drafts are reported as missing so their existence does not leak
+  if (!authResult.value.isAuthorized) {
+    return err(notFoundError("Post", input.id));
+  }
 
   const result = await postRepository.findById(input.id);
 
@@ -58,5 +81,20 @@ export const executeGetPost = async (
     return err(notFoundError("Post", input.id));
   }
 
-  return ok({ post: result.value });
+  const post = result.value;
+
+  if (!reactionRepository) {
+    return ok({ post });
+  }
+
+  const reactionsResult = await reactionRepository.summarize(
+    [post.id],
+    input.viewerId,
+  );
+
+  if (reactionsResult.isErr()) {
+    return err(reactionsResult.error);
+  }
+
+  return ok({ post, reactions: reactionsResult.value.get(post.id) });
 };
@@ -0,0 +1,17 @@
+/**
+ * Public API for get-user-statistics usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  GetUserStatisticsInputSchema,
+  parseGetUserStatisticsInput,
+} from "./input";
+export type { GetUserStatisticsInput } from "./input";
+
+export { executeGetUserStatistics } from "./usecase";
+export type {
+  GetUserStatisticsDeps,
+  GetUserStatisticsError,
+  GetUserStatisticsOutput,
+} from "./usecase";
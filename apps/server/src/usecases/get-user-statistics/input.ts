@@ -0,0 +1,52 @@
+/**
+ * Input schema and validation for get-user-statistics usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for getting a user's statistics.
+ */
+export const GetUserStatisticsInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  /** Authenticated caller, if any (unpublished posts only count for the user and moderators) */
+  viewerId: z.string().optional(),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type GetUserStatisticsInput = z.infer<
+  typeof GetUserStatisticsInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseGetUserStatisticsInput = (
+  data: unknown,
+): Result<GetUserStatisticsInput, ValidationError> => {
+  const result = GetUserStatisticsInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid get-user-statistics input", { details }),
+    );
+  }
+
+  return ok(result.data);
+};
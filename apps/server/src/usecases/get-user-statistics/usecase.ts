@@ -0,0 +1,56 @@
+/**
+ * Get User Statistics usecase.
+ * Reports a user's post counts, including soft-deleted posts.
+ * Viewers other than the user and moderators only see published posts counted.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import type {
+  StatisticsServiceError,
+  UserStatistics,
+  UserStatisticsService,
+} from "../../domain/services";
+import type { GetUserStatisticsInput } from "./input";
+
+/**
+ * Output of the get-user-statistics usecase.
+ */
+export interface GetUserStatisticsOutput {
+  readonly statistics: UserStatistics;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface GetUserStatisticsDeps {
+  readonly userStatisticsService: UserStatisticsService;
+}
+
+/**
+ * Usecase error.
+ */
+export type GetUserStatisticsError = StatisticsServiceError;
+
+/**
+ * Execute the get-user-statistics usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeGetUserStatistics = async (
+  deps: GetUserStatisticsDeps,
+  input: GetUserStatisticsInput,
+): Promise<Result<GetUserStatisticsOutput, GetUserStatisticsError>> => {
+  const result = await deps.userStatisticsService.getUserStatistics(
+    input.id,
+    input.viewerId,
+  );
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ statistics: result.value });
+};
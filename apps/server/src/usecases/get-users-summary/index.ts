@@ -0,0 +1,14 @@
+/**
+ * Public API for get-users-summary usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { GetUsersSummaryInputSchema, parseGetUsersSummaryInput } from "./input";
+export type { GetUsersSummaryInput } from "./input";
+
+export { executeGetUsersSummary } from "./usecase";
+export type {
+  GetUsersSummaryDeps,
+  GetUsersSummaryError,
+  GetUsersSummaryOutput,
+} from "./usecase";
@@ -0,0 +1,45 @@
+/**
+ * Input schema and validation for get-users-summary usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for getting the site-wide user summary.
+ * It takes no parameters; the schema keeps the usecase shape uniform.
+ */
+export const GetUsersSummaryInputSchema = z.object({});
+
+/**
+ * Input type derived from schema.
+ */
+export type GetUsersSummaryInput = z.infer<typeof GetUsersSummaryInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseGetUsersSummaryInput = (
+  data: unknown,
+): Result<GetUsersSummaryInput, ValidationError> => {
+  const result = GetUsersSummaryInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid get-users-summary input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,52 @@
+/**
+ * Get Users Summary usecase.
+ * Reports site-wide user and post counts, including soft-deleted rows.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import type {
+  StatisticsServiceError,
+  UserStatisticsService,
+  UsersStatisticsSummary,
+} from "../../domain/services";
+import type { GetUsersSummaryInput } from "./input";
+
+/**
+ * Output of the get-users-summary usecase.
+ */
+export interface GetUsersSummaryOutput {
+  readonly summary: UsersStatisticsSummary;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface GetUsersSummaryDeps {
+  readonly userStatisticsService: UserStatisticsService;
+}
+
+/**
+ * Usecase error.
+ */
+export type GetUsersSummaryError = StatisticsServiceError;
+
+/**
+ * Execute the get-users-summary usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param _input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeGetUsersSummary = async (
+  deps: GetUsersSummaryDeps,
+  _input: GetUsersSummaryInput,
+): Promise<Result<GetUsersSummaryOutput, GetUsersSummaryError>> => {
+  const result = await deps.userStatisticsService.getUsersSummary();
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ summary: result.value });
+};
@@ -8,10 +8,57 @@ export * as listUsers from "./list-users";
 export * as getUser from "./get-user";
 export * as updateUser from "./update-user";
 export * as deleteUser from "./delete-user";
+export * as restoreUser from "./restore-user";
+export * as getUserStatistics from "./get-user-statistics";
+export * as getUsersSummary from "./get-users-summary";
+
+// Authentication usecases
+export * as registerUser from "./register-user";
+export * as loginUser from "./login-user";
+export * as logoutUser from "./logout-user";
+export * as verifyEmail from "./verify-email";
+export * as resendEmailVerification from "./resend-email-verification";
+
+// Personal access token usecases
+export * as createPersonalAccessToken from "./create-personal-access-token";
+export * as listPersonalAccessTokens from "./list-personal-access-tokens";
+export * as revokePersonalAccessToken from "./revoke-personal-access-token";
 
 // Post usecases
 export * as createPost from "./create-post";
 export * as listPosts from "./list-posts";
+export * as searchPosts from "./search-posts";
 export * as getPost from "./get-post";
 export * as updatePost from "./update-post";
 export * as deletePost from "./delete-post";
+export * as restorePost from "./restore-post";
+export * as publishPost from "./publish-post";
+export * as archivePost from "./archive-post";
+export * as schedulePost from "./schedule-post";
+export * as unschedulePost from "./unschedule-post";
+export * as publishScheduledPost from "./publish-scheduled-post";
+export * as listPostRevisions from "./list-post-revisions";
+export * as getPostRevision from "./get-post-revision";
+export * as restorePostRevision from "./restore-post-revision";
+
+// Reaction usecases
+export * as addReaction from "./add-reaction";
+export * as removeReaction from "./remove-reaction";
+
+// Comment usecases
+export * as listComments from "./list-comments";
+export * as createComment from "./create-comment";
+export * as updateComment from "./update-comment";
+export * as deleteComment from "./delete-comment";
+
+// Tag usecases
+export * as listTags from "./list-tags";
+
+// Follow usecases
+export * as followUser from "./follow-user";
+export * as unfollowUser from "./unfollow-user";
+export * as listFollows from "./list-follows";
+export * as getFeed from "./get-feed";
+
+// Retention usecases
+export * as purgeDeletedRecords from "./purge-deleted-records";
@@ -0,0 +1,17 @@
+/**
+ * Public API for list-comments usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { ListCommentsInputSchema, parseListCommentsInput } from "./input";
+export type { ListCommentsInput } from "./input";
+
+export { executeListComments } from "./usecase";
+export type {
+  CommentThreadView,
+  CommentView,
+  ListCommentsDeps,
+  ListCommentsError,
+  ListCommentsOutput,
+  PaginationInfo,
+} from "./usecase";
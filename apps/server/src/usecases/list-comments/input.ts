@@ -0,0 +1,50 @@
+/**
+ * Input schema and validation for list-comments usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for listing a post's comment threads.
+ */
+export const ListCommentsInputSchema = z.object({
+  postId: z.string().min(1, "postId is required"),
+  /** Authenticated caller, if any (drafts are only shown to their author) */
+  viewerId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type ListCommentsInput = z.infer<typeof ListCommentsInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseListCommentsInput = (
+  data: unknown,
+): Result<ListCommentsInput, ValidationError> => {
+  const result = ListCommentsInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid list-comments input", { details }));
+  }
+
+  return ok(result.data);
+};
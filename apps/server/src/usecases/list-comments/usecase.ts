@@ -0,0 +1,123 @@
+/**
+ * List Comments usecase.
+ * Lists a page of a post's comment threads, oldest first.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import {
+  type RedactedComment,
+  redactDeletedComment,
+} from "../../domain/comment";
+import { notFoundError } from "../../domain/errors";
+import type {
+  NotFoundError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { PostAuthorizationService } from "../../domain/services";
+import type {
+  Comment,
+  CommentRepository,
+} from "../../repositories/interfaces/comment-repository";
+import type { PageCursors } from "../../utils/cursor";
+import type { ListCommentsInput } from "./input";
+
+/**
+ * A comment as shown to readers; deleted ones read "[deleted]".
+ */
+export type CommentView = RedactedComment<Comment>;
+
+/**
+ * A top-level comment with its replies.
+ */
+export type CommentThreadView = CommentView & {
+  readonly replies: readonly CommentView[];
+};
+
+/**
+ * Pagination info in response.
+ * Same envelope as list-posts; threads page by offset only, so the cursors
+ * are always null.
+ */
+export interface PaginationInfo extends PageCursors {
+  readonly total: number;
+  readonly limit: number;
+  readonly offset: number;
+}
+
+/**
+ * Output of the list-comments usecase.
+ */
+export interface ListCommentsOutput {
+  readonly threads: readonly CommentThreadView[];
+  readonly pagination: PaginationInfo;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface ListCommentsDeps {
+  readonly commentRepository: CommentRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type ListCommentsError =
+  | NotFoundError
+  | UnauthorizedError
+  | UnexpectedError;
+
+/**
+ * Execute the list-comments usecase.
+ * Comments are visible to whoever can view the post.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeListComments = async (
+  deps: ListCommentsDeps,
+  input: ListCommentsInput,
+): Promise<Result<ListCommentsOutput, ListCommentsError>> => {
+  const { commentRepository, postAuthorizationService } = deps;
+
+  const authResult = await postAuthorizationService.canViewPost(
+    input.postId,
+    input.viewerId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  // Hidden drafts are reported as missing so their existence does not leak
+  if (!authResult.value.isAuthorized) {
+    return err(notFoundError("Post", input.postId));
+  }
+
+  const result = await commentRepository.findThreadsByPostId(input.postId, {
+    limit: input.limit,
+    offset: input.offset,
+  });
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({
+    threads: result.value.threads.map(({ comment, replies }) => ({
+      ...redactDeletedComment(comment),
+      replies: replies.map(redactDeletedComment),
+    })),
+    pagination: {
+      total: result.value.total,
+      limit: input.limit,
+      offset: input.offset,
+      nextCursor: null,
+      prevCursor: null,
+    },
+  });
+};
@@ -0,0 +1,15 @@
+/**
+ * Public API for list-follows usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { ListFollowsInputSchema, parseListFollowsInput } from "./input";
+export type { ListFollowsInput } from "./input";
+
+export { executeListFollows } from "./usecase";
+export type {
+  ListFollowsDeps,
+  ListFollowsError,
+  ListFollowsOutput,
+  PaginationInfo,
+} from "./usecase";
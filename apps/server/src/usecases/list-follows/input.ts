@@ -0,0 +1,50 @@
+/**
+ * Input schema and validation for list-follows usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for listing a user's followers or followed users.
+ */
+export const ListFollowsInputSchema = z.object({
+  userId: z.string().min(1, "userId is required"),
+  /** `followers` lists who follows the user, `following` whom they follow */
+  relation: z.enum(["followers", "following"]),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type ListFollowsInput = z.infer<typeof ListFollowsInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseListFollowsInput = (
+  data: unknown,
+): Result<ListFollowsInput, ValidationError> => {
+  const result = ListFollowsInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid list-follows input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,95 @@
+/**
+ * List Follows usecase.
+ * Lists a page of a user's followers or of the users they follow, most
+ * recent follow first.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { type NotFoundError, notFoundError } from "../../domain/errors";
+import type {
+  FollowEntry,
+  FollowRepository,
+  FollowRepositoryError,
+} from "../../repositories/interfaces/follow-repository";
+import type {
+  UserRepository,
+  UserRepositoryError,
+} from "../../repositories/interfaces/user-repository";
+import type { ListFollowsInput } from "./input";
+
+/**
+ * Pagination info in response.
+ */
+export interface PaginationInfo {
+  readonly total: number;
+  readonly limit: number;
+  readonly offset: number;
+}
+
+/**
+ * Output of the list-follows usecase.
+ */
+export interface ListFollowsOutput {
+  readonly entries: readonly FollowEntry[];
+  readonly pagination: PaginationInfo;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface ListFollowsDeps {
+  readonly followRepository: FollowRepository;
+  readonly userRepository: UserRepository;
+}
+
+/**
+ * Usecase error.
+ */
+export type ListFollowsError =
+  | NotFoundError
+  | FollowRepositoryError
+  | UserRepositoryError;
+
+/**
+ * Execute the list-follows usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeListFollows = async (
+  deps: ListFollowsDeps,
+  input: ListFollowsInput,
+): Promise<Result<ListFollowsOutput, ListFollowsError>> => {
+  const { followRepository, userRepository } = deps;
+
+  const userResult = await userRepository.findById(input.userId);
+
+  if (userResult.isErr()) {
+    return err(userResult.error);
+  }
+
+  if (!userResult.value) {
+    return err(notFoundError("User", input.userId));
+  }
+
+  const options = { limit: input.limit, offset: input.offset };
+  const result =
+    input.relation === "followers" ?
+      await followRepository.findFollowers(input.userId, options)
+    : await followRepository.findFollowing(input.userId, options);
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({
+    entries: result.value.entries,
+    pagination: {
+      total: result.value.total,
+      limit: input.limit,
+      offset: input.offset,
+    },
+  });
+};
@@ -0,0 +1,17 @@
+/**
+ * Public API for list-personal-access-tokens usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  ListPersonalAccessTokensInputSchema,
+  parseListPersonalAccessTokensInput,
+} from "./input";
+export type { ListPersonalAccessTokensInput } from "./input";
+
+export { executeListPersonalAccessTokens } from "./usecase";
+export type {
+  ListPersonalAccessTokensDeps,
+  ListPersonalAccessTokensError,
+  ListPersonalAccessTokensOutput,
+} from "./usecase";
@@ -0,0 +1,53 @@
+/**
+ * Input schema and validation for list-personal-access-tokens usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for listing a user's personal access tokens.
+ */
+export const ListPersonalAccessTokensInputSchema = z.object({
+  actorId: z.string().min(1, "actorId is required"),
+  userId: z.string().min(1, "userId is required"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type ListPersonalAccessTokensInput = z.infer<
+  typeof ListPersonalAccessTokensInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseListPersonalAccessTokensInput = (
+  data: unknown,
+): Result<ListPersonalAccessTokensInput, ValidationError> => {
+  const result = ListPersonalAccessTokensInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid list-personal-access-tokens input", {
+        details,
+      }),
+    );
+  }
+
+  return ok(result.data);
+};
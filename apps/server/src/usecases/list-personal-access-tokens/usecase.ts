@@ -0,0 +1,89 @@
+/**
+ * List Personal Access Tokens usecase.
+ * Lists a user's active (unrevoked) tokens without their secrets.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { forbiddenError } from "../../domain/errors";
+import type {
+  ForbiddenError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { UserAuthorizationService } from "../../domain/services";
+import type {
+  PersonalAccessToken,
+  PersonalAccessTokenRepository,
+  PersonalAccessTokenRepositoryError,
+} from "../../repositories/interfaces/personal-access-token-repository";
+import type { ListPersonalAccessTokensInput } from "./input";
+
+/**
+ * Output of the list-personal-access-tokens usecase.
+ */
+export interface ListPersonalAccessTokensOutput {
+  readonly tokens: readonly PersonalAccessToken[];
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface ListPersonalAccessTokensDeps {
+  readonly personalAccessTokenRepository: PersonalAccessTokenRepository;
+  readonly userAuthorizationService: UserAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type ListPersonalAccessTokensError =
+  | ForbiddenError
+  | UnauthorizedError
+  | UnexpectedError
+  | PersonalAccessTokenRepositoryError;
+
+/**
+ * Execute the list-personal-access-tokens usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeListPersonalAccessTokens = async (
+  deps: ListPersonalAccessTokensDeps,
+  input: ListPersonalAccessTokensInput,
+): Promise<
+  Result<ListPersonalAccessTokensOutput, ListPersonalAccessTokensError>
+> => {
+  const { personalAccessTokenRepository, userAuthorizationService } = deps;
+
+  // Token management is account management: the owner or an admin
+  const authResult = await userAuthorizationService.canUpdateUser(
+    input.actorId,
+    input.userId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to list tokens",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const result = await personalAccessTokenRepository.findAllByUserId(
+    input.userId,
+  );
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ tokens: result.value });
+};
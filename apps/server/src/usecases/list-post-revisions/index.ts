@@ -0,0 +1,17 @@
+/**
+ * Public API for list-post-revisions usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  ListPostRevisionsInputSchema,
+  parseListPostRevisionsInput,
+} from "./input";
+export type { ListPostRevisionsInput } from "./input";
+
+export { executeListPostRevisions } from "./usecase";
+export type {
+  ListPostRevisionsDeps,
+  ListPostRevisionsError,
+  ListPostRevisionsOutput,
+} from "./usecase";
@@ -0,0 +1,52 @@
+/**
+ * Input schema and validation for list-post-revisions usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for listing a post's revisions.
+ */
+export const ListPostRevisionsInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  /** Authenticated caller, if any (drafts are only shown to their author) */
+  viewerId: z.string().optional(),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type ListPostRevisionsInput = z.infer<
+  typeof ListPostRevisionsInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseListPostRevisionsInput = (
+  data: unknown,
+): Result<ListPostRevisionsInput, ValidationError> => {
+  const result = ListPostRevisionsInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid list-post-revisions input", { details }),
+    );
+  }
+
+  return ok(result.data);
+};
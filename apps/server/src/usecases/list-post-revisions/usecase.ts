@@ -0,0 +1,79 @@
+/**
+ * List Post Revisions usecase.
+ * Lists the edit history of a post, newest first.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { notFoundError } from "../../domain/errors";
+import type {
+  NotFoundError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { PostAuthorizationService } from "../../domain/services";
+import type {
+  PostRevision,
+  PostRevisionRepository,
+} from "../../repositories/interfaces/post-revision-repository";
+import type { ListPostRevisionsInput } from "./input";
+
+/**
+ * Output of the list-post-revisions usecase.
+ */
+export interface ListPostRevisionsOutput {
+  readonly revisions: readonly PostRevision[];
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface ListPostRevisionsDeps {
+  readonly postRevisionRepository: PostRevisionRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type ListPostRevisionsError =
+  | NotFoundError
+  | UnauthorizedError
+  | UnexpectedError;
+
+/**
+ * Execute the list-post-revisions usecase.
+ * The history is visible to whoever can view the post.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeListPostRevisions = async (
+  deps: ListPostRevisionsDeps,
+  input: ListPostRevisionsInput,
+): Promise<Result<ListPostRevisionsOutput, ListPostRevisionsError>> => {
+  const { postRevisionRepository, postAuthorizationService } = deps;
+
+  const authResult = await postAuthorizationService.canViewPost(
+    input.id,
+    input.viewerId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  // Hidden drafts are reported as missing so their existence does not leak
+  if (!authResult.value.isAuthorized) {
+    return err(notFoundError("Post", input.id));
+  }
+
+  const result = await postRevisionRepository.findAllByPostId(input.id);
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ revisions: result.value });
+};
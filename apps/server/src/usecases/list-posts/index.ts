@@ -3,7 +3,12 @@
  * Re-exports schema, types, and usecase function.
  */
 
-export { ListPostsInputSchema, parseListPostsInput } from "./input";
+export {
+  ListPostsInputSchema,
+  POST_FILTER_PARAMS,
+  POST_SORT_FIELDS,
+  parseListPostsInput,
+} from "./input";
 export type { ListPostsInput } from "./input";
 
 export { executeListPosts } from "./usecase";
@@ -7,15 +7,71 @@ import { type Result, err, ok } from "neverthrow";
 import { z } from "zod";
 
 import { type ValidationError, validationError } from "../../domain/errors";
+import { POST_STATUSES } from "../../domain/post-status";
+import { MAX_TAG_LENGTH, normalizeTag } from "../../domain/tag";
+import type { PostSortField } from "../../repositories/interfaces/post-repository";
+import { CursorParamSchema, cursorMatchesSort } from "../../utils/cursor";
+import {
+  TimestampParamSchema,
+  createSortParamSchema,
+  findUnsupportedFilters,
+} from "../../utils/list-query";
+
+/**
+ * Fields posts can be sorted by.
+ */
+export const POST_SORT_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "title",
+] as const satisfies readonly PostSortField[];
+
+/**
+ * Supported `field[operator]` filter parameters.
+ */
+export const POST_FILTER_PARAMS = ["title[contains]"] as const;
 
 /**
  * Input schema for listing posts.
  */
-export const ListPostsInputSchema = z.object({
-  limit: z.coerce.number().int().min(1).max(100).default(20),
-  offset: z.coerce.number().int().min(0).default(0),
-  authorId: z.string().optional(),
-});
+export const ListPostsInputSchema = z
+  .object({
+    /** Authenticated caller, if any (sees their own drafts and archive) */
+    viewerId: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    /** Offset pagination (defaults to 0 when no cursor is given) */
+    offset: z.coerce.number().int().min(0).optional(),
+    /** Opaque cursor from a previous page's nextCursor/prevCursor */
+    cursor: CursorParamSchema.optional(),
+    /** e.g. `-createdAt,title`; defaults to `createdAt` */
+    sort: createSortParamSchema(POST_SORT_FIELDS).optional(),
+    authorId: z.string().optional(),
+    status: z.enum(POST_STATUSES).optional(),
+    /** Only posts carrying this tag (normalized like stored tags) */
+    tag: z
+      .string()
+      .transform(normalizeTag)
+      .pipe(z.string().min(1).max(MAX_TAG_LENGTH))
+      .optional(),
+    createdAfter: TimestampParamSchema.optional(),
+    createdBefore: TimestampParamSchema.optional(),
+    "title[contains]": z.string().min(1).max(255).optional(),
+  })
+  .refine((input) => !(input.cursor && input.offset !== undefined), {
+    message: "Use either cursor or offset, not both",
+    path: ["cursor"],
+  })
+  .refine(
+    (input) => !input.cursor || cursorMatchesSort(input.cursor, input.sort),
+    {
+      message: "Cursor was issued for a different sort",
+      path: ["cursor"],
+    },
+  )
+  .transform(({ "title[contains]": titleContains, ...input }) => ({
+    ...input,
+    titleContains,
+  }));
 
 /**
  * Input type derived from schema.
@@ -32,6 +88,14 @@ export type ListPostsInput = z.infer<typeof ListPostsInputSchema>;
 export const parseListPostsInput = (
   data: unknown,
 ): Result<ListPostsInput, ValidationError> => {
+  const unsupported = findUnsupportedFilters(data, POST_FILTER_PARAMS);
+
+  if (unsupported.length > 0) {
+    return err(
+      validationError("Invalid list-posts input", { details: unsupported }),
+    );
+  }
+
   const result = ListPostsInputSchema.safeParse(data);
 
   if (!result.success) {
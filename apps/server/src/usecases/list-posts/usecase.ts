@@ -1,24 +1,32 @@
 /**
  * List Posts usecase.
- * Retrieves paginated list of posts.
+ * Retrieves a sorted, filtered page of posts by offset or by cursor.
  */
 
 import { type Result, err, ok } from "neverthrow";
 
+import type { PostReactions } from "../../domain/reaction";
 import type {
+  FindAllPostsOptions,
   Post,
   PostRepository,
   PostRepositoryError,
 } from "../../repositories/interfaces/post-repository";
+import type {
+  ReactionRepository,
+  ReactionRepositoryError,
+} from "../../repositories/interfaces/reaction-repository";
+import { type PageCursors, buildPageCursors } from "../../utils/cursor";
 import type { ListPostsInput } from "./input";
 
 /**
  * Pagination info in response.
  */
-export interface PaginationInfo {
+export interface PaginationInfo extends PageCursors {
   readonly total: number;
   readonly limit: number;
-  readonly offset: number;
+  /** Present in offset mode only */
+  readonly offset?: number;
 }
 
 /**
@@ -27,6 +35,8 @@ export interface PaginationInfo {
 export interface ListPostsOutput {
   readonly posts: readonly Post[];
   readonly pagination: PaginationInfo;
+  /** Reactions by post id; present when reactions are enabled */
+  readonly reactions?: ReadonlyMap<string, PostReactions>;
 }
 
 /**
@@ -34,12 +44,14 @@ export interface ListPostsOutput {
  */
 export interface ListPostsDeps {
   readonly postRepository: PostRepository;
+  /** Adds each post's reactions to the output when provided */
+  readonly reactionRepository?: ReactionRepository;
 }
 
 /**
  * Usecase error.
  */
-export type ListPostsError = PostRepositoryError;
+export type ListPostsError = PostRepositoryError | ReactionRepositoryError;
 
 /**
  * Execute the list-posts usecase.
@@ -52,24 +64,48 @@ export const executeListPosts = async (
   deps: ListPostsDeps,
   input: ListPostsInput,
 ): Promise<Result<ListPostsOutput, ListPostsError>> => {
-  const { postRepository } = deps;
+  const { postRepository, reactionRepository } = deps;
 
-  const result = await postRepository.findAll({
+  const options: FindAllPostsOptions = {
     limit: input.limit,
     offset: input.offset,
+    cursor: input.cursor,
+    sort: input.sort,
     authorId: input.authorId,
-  });
+    status: input.status,
+    tag: input.tag,
+    viewerId: input.viewerId,
+    createdAfter: input.createdAfter,
+    createdBefore: input.createdBefore,
+    titleContains: input.titleContains,
+  };
+
+  const result = await postRepository.findAll(options);
 
   if (result.isErr()) {
     return err(result.error);
   }
 
-  return ok({
-    posts: result.value.posts,
-    pagination: {
-      total: result.value.total,
-      limit: input.limit,
-      offset: input.offset,
-    },
-  });
+  const { posts, total, hasMore } = result.value;
+  const pagination = {
+    total,
+    limit: input.limit,
+    ...(input.cursor ? {} : { offset: input.offset ?? 0 }),
+    ...buildPageCursors(posts, options, hasMore),
+  };
+
+  if (!reactionRepository) {
+    return ok({ posts, pagination });
+  }
+
+  const reactionsResult = await reactionRepository.summarize(
+    posts.map((post) => post.id),
+    input.viewerId,
+  );
+
+  if (reactionsResult.isErr()) {
+    return err(reactionsResult.error);
+  }
+
+  return ok({ posts, pagination, reactions: reactionsResult.value });
 };
@@ -0,0 +1,10 @@
+/**
+ * Public API for list-tags usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { ListTagsInputSchema, parseListTagsInput } from "./input";
+export type { ListTagsInput } from "./input";
+
+export { executeListTags } from "./usecase";
+export type { ListTagsDeps, ListTagsError, ListTagsOutput } from "./usecase";
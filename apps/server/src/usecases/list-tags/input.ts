@@ -0,0 +1,46 @@
+/**
+ * Input schema and validation for list-tags usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for listing tags.
+ */
+export const ListTagsInputSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type ListTagsInput = z.infer<typeof ListTagsInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseListTagsInput = (
+  data: unknown,
+): Result<ListTagsInput, ValidationError> => {
+  const result = ListTagsInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid list-tags input", { details }));
+  }
+
+  return ok(result.data);
+};
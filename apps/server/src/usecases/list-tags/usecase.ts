@@ -0,0 +1,52 @@
+/**
+ * List Tags usecase.
+ * Retrieves the most used tags with their post counts (a tag cloud).
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import type {
+  TagRepository,
+  TagRepositoryError,
+  TagUsage,
+} from "../../repositories/interfaces/tag-repository";
+import type { ListTagsInput } from "./input";
+
+/**
+ * Output of the list-tags usecase.
+ */
+export interface ListTagsOutput {
+  readonly tags: readonly TagUsage[];
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface ListTagsDeps {
+  readonly tagRepository: TagRepository;
+}
+
+/**
+ * Usecase error.
+ */
+export type ListTagsError = TagRepositoryError;
+
+/**
+ * Execute the list-tags usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeListTags = async (
+  deps: ListTagsDeps,
+  input: ListTagsInput,
+): Promise<Result<ListTagsOutput, ListTagsError>> => {
+  const result = await deps.tagRepository.findUsage({ limit: input.limit });
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ tags: result.value });
+};
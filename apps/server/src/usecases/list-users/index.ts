@@ -3,7 +3,12 @@
  * Re-exports schema, types, and usecase function.
  */
 
-export { ListUsersInputSchema, parseListUsersInput } from "./input";
+export {
+  ListUsersInputSchema,
+  USER_FILTER_PARAMS,
+  USER_SORT_FIELDS,
+  parseListUsersInput,
+} from "./input";
 export type { ListUsersInput } from "./input";
 
 export { executeListUsers } from "./usecase";
@@ -7,14 +7,63 @@ import { type Result, err, ok } from "neverthrow";
 import { z } from "zod";
 
 import { type ValidationError, validationError } from "../../domain/errors";
+import type { UserSortField } from "../../repositories/interfaces/user-repository";
+import { CursorParamSchema, cursorMatchesSort } from "../../utils/cursor";
+import {
+  TimestampParamSchema,
+  createSortParamSchema,
+  findUnsupportedFilters,
+} from "../../utils/list-query";
+
+/**
+ * Fields users can be sorted by.
+ */
+export const USER_SORT_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "name",
+] as const satisfies readonly UserSortField[];
+
+/**
+ * Supported `field[operator]` filter parameters.
+ * `email[eq]` is restricted to actors with `users:manage`.
+ */
+export const USER_FILTER_PARAMS = ["name[contains]", "email[eq]"] as const;
 
 /**
  * Input schema for listing users.
  */
-export const ListUsersInputSchema = z.object({
-  limit: z.coerce.number().int().min(1).max(100).default(20),
-  offset: z.coerce.number().int().min(0).default(0),
-});
+export const ListUsersInputSchema = z
+  .object({
+    /** Authenticated caller, if any (required for admin-only filters) */
+    actorId: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    /** Offset pagination (defaults to 0 when no cursor is given) */
+    offset: z.coerce.number().int().min(0).optional(),
+    /** Opaque cursor from a previous page's nextCursor/prevCursor */
+    cursor: CursorParamSchema.optional(),
+    /** e.g. `-createdAt,name`; defaults to `createdAt` */
+    sort: createSortParamSchema(USER_SORT_FIELDS).optional(),
+    createdAfter: TimestampParamSchema.optional(),
+    createdBefore: TimestampParamSchema.optional(),
+    "name[contains]": z.string().min(1).max(255).optional(),
+    "email[eq]": z.email().optional(),
+  })
+  .refine((input) => !(input.cursor && input.offset !== undefined), {
+    message: "Use either cursor or offset, not both",
+    path: ["cursor"],
+  })
+  .refine(
+    (input) => !input.cursor || cursorMatchesSort(input.cursor, input.sort),
+    { message: "Cursor was issued for a different sort", path: ["cursor"] },
+  )
+  .transform(
+    ({ "name[contains]": nameContains, "email[eq]": email, ...input }) => ({
+      ...input,
+      nameContains,
+      email,
+    }),
+  );
 
 /**
  * Input type derived from schema.
@@ -31,6 +80,14 @@ export type ListUsersInput = z.infer<typeof ListUsersInputSchema>;
 export const parseListUsersInput = (
   data: unknown,
 ): Result<ListUsersInput, ValidationError> => {
+  const unsupported = findUnsupportedFilters(data, USER_FILTER_PARAMS);
+
+  if (unsupported.length > 0) {
+    return err(
+      validationError("Invalid list-users input", { details: unsupported }),
+    );
+  }
+
   const result = ListUsersInputSchema.safeParse(data);
 
   if (!result.success) {
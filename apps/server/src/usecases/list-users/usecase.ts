@@ -1,24 +1,35 @@
 /**
  * List Users usecase.
- * Retrieves paginated list of users.
+ * Retrieves a sorted, filtered page of users by offset or by cursor.
+ * Filtering by email requires `users:manage`.
  */
 
 import { type Result, err, ok } from "neverthrow";
 
+import {
+  type ForbiddenError,
+  type UnauthorizedError,
+  forbiddenError,
+  unauthorizedError,
+} from "../../domain/errors";
+import type { UserAuthorizationService } from "../../domain/services";
 import type {
+  FindAllUsersOptions,
   User,
   UserRepository,
   UserRepositoryError,
 } from "../../repositories/interfaces/user-repository";
+import { type PageCursors, buildPageCursors } from "../../utils/cursor";
 import type { ListUsersInput } from "./input";
 
 /**
  * Pagination info in response.
  */
-export interface PaginationInfo {
+export interface PaginationInfo extends PageCursors {
   readonly total: number;
   readonly limit: number;
-  readonly offset: number;
+  /** Present in offset mode only */
+  readonly offset?: number;
 }
 
 /**
@@ -34,12 +45,16 @@ export interface ListUsersOutput {
  */
 export interface ListUsersDeps {
   readonly userRepository: UserRepository;
+  readonly userAuthorizationService: UserAuthorizationService;
 }
 
 /**
  * Usecase error.
  */
-export type ListUsersError = UserRepositoryError;
+export type ListUsersError =
+  | UserRepositoryError
+  | UnauthorizedError
+  | ForbiddenError;
 
 /**
  * Execute the list-users usecase.
@@ -52,23 +67,60 @@ export const executeListUsers = async (
   deps: ListUsersDeps,
   input: ListUsersInput,
 ): Promise<Result<ListUsersOutput, ListUsersError>> => {
-  const { userRepository } = deps;
+  const { userRepository, userAuthorizationService } = deps;
 
-  const result = await userRepository.findAll({
+  // Looking users up by email is an admin capability
+  if (input.email !== undefined) {
+    if (!input.actorId) {
+      return err(
+        unauthorizedError("Authentication required to filter by email"),
+      );
+    }
+
+    const authResult = await userAuthorizationService.canManageUsers(
+      input.actorId,
+    );
+
+    if (authResult.isErr()) {
+      return err(authResult.error);
+    }
+
+    if (!authResult.value.isAuthorized) {
+      return err(
+        forbiddenError(
+          "You are not allowed to filter users by email",
+          authResult.value.requiredPermission,
+        ),
+      );
+    }
+  }
+
+  const options: FindAllUsersOptions = {
     limit: input.limit,
     offset: input.offset,
-  });
+    cursor: input.cursor,
+    sort: input.sort,
+    createdAfter: input.createdAfter,
+    createdBefore: input.createdBefore,
+    nameContains: input.nameContains,
+    email: input.email,
+  };
+
+  const result = await userRepository.findAll(options);
 
   if (result.isErr()) {
     return err(result.error);
   }
 
+  const { users, total, hasMore } = result.value;
+
   return ok({
-    users: result.value.users,
+    users,
     pagination: {
-      total: result.value.total,
+      total,
       limit: input.limit,
-      offset: input.offset,
+      ...(input.cursor ? {} : { offset: input.offset ?? 0 }),
+      ...buildPageCursors(users, options, hasMore),
     },
   });
 };
@@ -0,0 +1,10 @@
+/**
+ * Public API for login-user usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { LoginUserInputSchema, parseLoginUserInput } from "./input";
+export type { LoginUserInput } from "./input";
+
+export { executeLoginUser } from "./usecase";
+export type { LoginUserDeps, LoginUserError, LoginUserOutput } from "./usecase";
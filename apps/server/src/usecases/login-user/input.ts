@@ -0,0 +1,52 @@
+/**
+ * Input schema and validation for login-user usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for logging in with email and password.
+ * Password rules are not re-checked here so that policy changes
+ * never lock out existing users.
+ */
+export const LoginUserInputSchema = z.object({
+  email: z.string().min(1, "email is required"),
+  password: z
+    .string()
+    .min(1, "password is required")
+    .max(128, "password must be at most 128 characters"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type LoginUserInput = z.infer<typeof LoginUserInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseLoginUserInput = (
+  data: unknown,
+): Result<LoginUserInput, ValidationError> => {
+  const result = LoginUserInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid login-user input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,101 @@
+/**
+ * Login User usecase.
+ * Verifies an email + password pair against the stored credential.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { unauthorizedError } from "../../domain/errors";
+import type { UnauthorizedError } from "../../domain/errors";
+import type {
+  CredentialRepository,
+  CredentialRepositoryError,
+} from "../../repositories/interfaces/credential-repository";
+import type {
+  User,
+  UserRepository,
+  UserRepositoryError,
+} from "../../repositories/interfaces/user-repository";
+import type { PasswordHasher } from "../../utils/password-hasher";
+import type { LoginUserInput } from "./input";
+
+/**
+ * Output of the login-user usecase.
+ */
+export interface LoginUserOutput {
+  readonly user: User;
+  /** Current session version (for issuing a session) */
+  readonly sessionVersion: number;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface LoginUserDeps {
+  readonly userRepository: UserRepository;
+  readonly credentialRepository: CredentialRepository;
+  readonly passwordHasher: PasswordHasher;
+}
+
+/**
+ * Usecase error.
+ */
+export type LoginUserError =
+  | UnauthorizedError
+  | UserRepositoryError
+  | CredentialRepositoryError;
+
+/**
+ * Single message for every credential failure so responses do not reveal
+ * whether the email is registered.
+ */
+const INVALID_CREDENTIALS_MESSAGE = "Invalid email or password";
+
+/**
+ * Execute the login-user usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeLoginUser = async (
+  deps: LoginUserDeps,
+  input: LoginUserInput,
+): Promise<Result<LoginUserOutput, LoginUserError>> => {
+  const { userRepository, credentialRepository, passwordHasher } = deps;
+
+  // Soft-deleted users are excluded by the repository
+  const userResult = await userRepository.findByEmail(input.email);
+
+  if (userResult.isErr()) {
+    return err(userResult.error);
+  }
+
+  const user = userResult.value;
+
+  const credentialResult =
+    user ? await credentialRepository.findByUserId(user.id) : ok(null);
+
+  if (credentialResult.isErr()) {
+    return err(credentialResult.error);
+  }
+
+  const credential = credentialResult.value;
+
+  if (!user || !credential) {
+    // Spend comparable time on unknown users to avoid an enumeration oracle
+    await passwordHasher.hash(input.password);
+    return err(unauthorizedError(INVALID_CREDENTIALS_MESSAGE));
+  }
+
+  const isValid = await passwordHasher.verify(
+    input.password,
+    credential.passwordHash,
+  );
+
+  if (!isValid) {
+    return err(unauthorizedError(INVALID_CREDENTIALS_MESSAGE));
+  }
+
+  return ok({ user, sessionVersion: credential.sessionVersion });
+};
@@ -0,0 +1,14 @@
+/**
+ * Public API for logout-user usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { LogoutUserInputSchema, parseLogoutUserInput } from "./input";
+export type { LogoutUserInput } from "./input";
+
+export { executeLogoutUser } from "./usecase";
+export type {
+  LogoutUserDeps,
+  LogoutUserError,
+  LogoutUserOutput,
+} from "./usecase";
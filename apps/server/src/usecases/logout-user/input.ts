@@ -0,0 +1,46 @@
+/**
+ * Input schema and validation for logout-user usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for logging out.
+ */
+export const LogoutUserInputSchema = z.object({
+  userId: z.string().min(1, "userId is required"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type LogoutUserInput = z.infer<typeof LogoutUserInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseLogoutUserInput = (
+  data: unknown,
+): Result<LogoutUserInput, ValidationError> => {
+  const result = LogoutUserInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid logout-user input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,62 @@
+/**
+ * Logout User usecase.
+ * Revokes every session of the user by bumping the credential session version.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { unauthorizedError } from "../../domain/errors";
+import type { UnauthorizedError } from "../../domain/errors";
+import type {
+  CredentialRepository,
+  CredentialRepositoryError,
+} from "../../repositories/interfaces/credential-repository";
+import type { LogoutUserInput } from "./input";
+
+/**
+ * Output of the logout-user usecase.
+ */
+export interface LogoutUserOutput {
+  readonly success: true;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface LogoutUserDeps {
+  readonly credentialRepository: CredentialRepository;
+}
+
+/**
+ * Usecase error.
+ */
+export type LogoutUserError = UnauthorizedError | CredentialRepositoryError;
+
+/**
+ * Execute the logout-user usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeLogoutUser = async (
+  deps: LogoutUserDeps,
+  input: LogoutUserInput,
+): Promise<Result<LogoutUserOutput, LogoutUserError>> => {
+  const { credentialRepository } = deps;
+
+  const result = await credentialRepository.incrementSessionVersion(
+    input.userId,
+  );
+
+  if (result.isErr()) {
+    // A principal without a credential has no password session to end
+    if (result.error.type === "NotFoundError") {
+      return err(unauthorizedError("No active session"));
+    }
+
+    return err(result.error);
+  }
+
+  return ok({ success: true });
+};
@@ -0,0 +1,14 @@
+/**
+ * Public API for publish-post usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { PublishPostInputSchema, parsePublishPostInput } from "./input";
+export type { PublishPostInput } from "./input";
+
+export { executePublishPost } from "./usecase";
+export type {
+  PublishPostDeps,
+  PublishPostError,
+  PublishPostOutput,
+} from "./usecase";
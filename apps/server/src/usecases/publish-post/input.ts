@@ -0,0 +1,49 @@
+/**
+ * Input schema and validation for publish-post usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for publishing a post.
+ */
+export const PublishPostInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  userId: z.string().min(1, "userId is required"),
+  /** Version from an If-Match precondition; the publish fails if stale */
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type PublishPostInput = z.infer<typeof PublishPostInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parsePublishPostInput = (
+  data: unknown,
+): Result<PublishPostInput, ValidationError> => {
+  const result = PublishPostInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid publish-post input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,18 @@
+/**
+ * Public API for publish-scheduled-post usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  PUBLISH_SCHEDULED_POST_JOB,
+  PublishScheduledPostInputSchema,
+  parsePublishScheduledPostInput,
+} from "./input";
+export type { PublishScheduledPostInput } from "./input";
+
+export { executePublishScheduledPost } from "./usecase";
+export type {
+  PublishScheduledPostDeps,
+  PublishScheduledPostError,
+  PublishScheduledPostOutput,
+} from "./usecase";
@@ -0,0 +1,59 @@
+/**
+ * Input schema and validation for publish-scheduled-post usecase.
+ * The input is the payload of a scheduled publishing job.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+import { TimestampParamSchema } from "../../utils/list-query";
+
+/**
+ * Job type of scheduled publishing jobs.
+ */
+export const PUBLISH_SCHEDULED_POST_JOB = "posts.publish";
+
+/**
+ * Input schema for publishing a scheduled post.
+ */
+export const PublishScheduledPostInputSchema = z.object({
+  postId: z.string().min(1, "postId is required"),
+  /** The schedule the job was created for, as an ISO 8601 timestamp */
+  publishAt: TimestampParamSchema,
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type PublishScheduledPostInput = z.infer<
+  typeof PublishScheduledPostInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parsePublishScheduledPostInput = (
+  data: unknown,
+): Result<PublishScheduledPostInput, ValidationError> => {
+  const result = PublishScheduledPostInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid publish-scheduled-post input", { details }),
+    );
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,93 @@
+/**
+ * Publish Scheduled Post usecase.
+ * Run by the job worker when a post's publishAt arrives. Authorization was
+ * checked when the post was scheduled, so none happens here.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import type {
+  NotFoundError,
+  PreconditionFailedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import { transitionPostStatus } from "../../domain/post-status";
+import type {
+  Post,
+  PostRepository,
+} from "../../repositories/interfaces/post-repository";
+import type { PublishScheduledPostInput } from "./input";
+
+/**
+ * Output of the publish-scheduled-post usecase.
+ * `post` is null when the schedule no longer applies (the post was
+ * deleted, published, or rescheduled since the job was created).
+ */
+export interface PublishScheduledPostOutput {
+  readonly post: Post | null;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface PublishScheduledPostDeps {
+  readonly postRepository: PostRepository;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+}
+
+/**
+ * Usecase error.
+ */
+export type PublishScheduledPostError =
+  | NotFoundError
+  | PreconditionFailedError
+  | UnexpectedError;
+
+/**
+ * Execute the publish-scheduled-post usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executePublishScheduledPost = async (
+  deps: PublishScheduledPostDeps,
+  input: PublishScheduledPostInput,
+): Promise<Result<PublishScheduledPostOutput, PublishScheduledPostError>> => {
+  const { postRepository } = deps;
+  const now = deps.now ?? (() => new Date());
+
+  const findResult = await postRepository.findById(input.postId);
+
+  if (findResult.isErr()) {
+    return err(findResult.error);
+  }
+
+  const post = findResult.value;
+
+  // Rescheduling and unscheduling leave the old job behind as a no-op
+  if (post?.publishAt?.getTime() !== input.publishAt.getTime()) {
+    return ok({ post: null });
+  }
+
+  const transitionResult = transitionPostStatus(post.status, "publish");
+
+  if (transitionResult.isErr()) {
+    return ok({ post: null });
+  }
+
+  // A concurrent edit fails the version guard; the job is retried
+  const result = await postRepository.update(post.id, {
+    status: transitionResult.value,
+    publishedAt: post.publishedAt ?? now(),
+    publishAt: null,
+    expectedVersion: post.version,
+  });
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ post: result.value });
+};
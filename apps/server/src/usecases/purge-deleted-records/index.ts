@@ -0,0 +1,18 @@
+/**
+ * Public API for purge-deleted-records usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  PURGE_DELETED_RECORDS_JOB,
+  PurgeDeletedRecordsInputSchema,
+  parsePurgeDeletedRecordsInput,
+} from "./input";
+export type { PurgeDeletedRecordsInput } from "./input";
+
+export { executePurgeDeletedRecords } from "./usecase";
+export type {
+  PurgeDeletedRecordsDeps,
+  PurgeDeletedRecordsError,
+  PurgeDeletedRecordsOutput,
+} from "./usecase";
@@ -0,0 +1,57 @@
+/**
+ * Input schema and validation for purge-deleted-records usecase.
+ * The input is the payload of a retention job.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Job type of retention jobs.
+ */
+export const PURGE_DELETED_RECORDS_JOB = "retention.purge";
+
+/**
+ * Input schema for purging soft-deleted records.
+ */
+export const PurgeDeletedRecordsInputSchema = z.object({
+  /** Soft-deleted rows older than this many days are removed for good */
+  retentionDays: z.number().int().positive(),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type PurgeDeletedRecordsInput = z.infer<
+  typeof PurgeDeletedRecordsInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parsePurgeDeletedRecordsInput = (
+  data: unknown,
+): Result<PurgeDeletedRecordsInput, ValidationError> => {
+  const result = PurgeDeletedRecordsInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid purge-deleted-records input", { details }),
+    );
+  }
+
+  return ok(result.data);
+};
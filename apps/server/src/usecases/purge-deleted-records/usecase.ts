@@ -0,0 +1,95 @@
+/**
+ * Purge Deleted Records usecase.
+ * Run by the job worker to hard delete posts and users that have been
+ * soft-deleted for longer than the retention period, along with the
+ * settled jobs older than it so the retention jobs themselves do not pile up.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import type {
+  JobRepository,
+  JobRepositoryError,
+} from "../../repositories/interfaces/job-repository";
+import type {
+  PostRepository,
+  PostRepositoryError,
+} from "../../repositories/interfaces/post-repository";
+import type {
+  UserRepository,
+  UserRepositoryError,
+} from "../../repositories/interfaces/user-repository";
+import type { PurgeDeletedRecordsInput } from "./input";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Output of the purge-deleted-records usecase.
+ */
+export interface PurgeDeletedRecordsOutput {
+  readonly purgedPosts: number;
+  readonly purgedUsers: number;
+  readonly purgedJobs: number;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface PurgeDeletedRecordsDeps {
+  readonly userRepository: UserRepository;
+  readonly postRepository: PostRepository;
+  readonly jobRepository: JobRepository;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+}
+
+/**
+ * Usecase error.
+ */
+export type PurgeDeletedRecordsError =
+  | PostRepositoryError
+  | UserRepositoryError
+  | JobRepositoryError;
+
+/**
+ * Execute the purge-deleted-records usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executePurgeDeletedRecords = async (
+  deps: PurgeDeletedRecordsDeps,
+  input: PurgeDeletedRecordsInput,
+): Promise<Result<PurgeDeletedRecordsOutput, PurgeDeletedRecordsError>> => {
+  const { userRepository, postRepository, jobRepository } = deps;
+  const now = deps.now ?? (() => new Date());
+  const deletedBefore = new Date(
+    now().getTime() - input.retentionDays * DAY_MS,
+  );
+
+  // Posts first: purging a user also removes the posts it still owns
+  const postsResult = await postRepository.purge(deletedBefore);
+
+  if (postsResult.isErr()) {
+    return err(postsResult.error);
+  }
+
+  const usersResult = await userRepository.purge(deletedBefore);
+
+  if (usersResult.isErr()) {
+    return err(usersResult.error);
+  }
+
+  const jobsResult = await jobRepository.purgeSettled(deletedBefore);
+
+  if (jobsResult.isErr()) {
+    return err(jobsResult.error);
+  }
+
+  return ok({
+    purgedPosts: postsResult.value,
+    purgedUsers: usersResult.value,
+    purgedJobs: jobsResult.value,
+  });
+};
@@ -0,0 +1,14 @@
+/**
+ * Public API for register-user usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { RegisterUserInputSchema, parseRegisterUserInput } from "./input";
+export type { RegisterUserInput } from "./input";
+
+export { executeRegisterUser } from "./usecase";
+export type {
+  RegisterUserDeps,
+  RegisterUserError,
+  RegisterUserOutput,
+} from "./usecase";
@@ -0,0 +1,54 @@
+/**
+ * Input schema and validation for register-user usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for registering a user with a password.
+ */
+export const RegisterUserInputSchema = z.object({
+  name: z
+    .string()
+    .min(1, "name is required")
+    .max(255, "name must be at most 255 characters"),
+  email: z.email("email must be a valid email address"),
+  password: z
+    .string()
+    .min(8, "password must be at least 8 characters")
+    .max(128, "password must be at most 128 characters"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type RegisterUserInput = z.infer<typeof RegisterUserInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseRegisterUserInput = (
+  data: unknown,
+): Result<RegisterUserInput, ValidationError> => {
+  const result = RegisterUserInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid register-user input", { details }));
+  }
+
+  return ok(result.data);
+};
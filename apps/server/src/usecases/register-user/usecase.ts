@@ -0,0 +1,164 @@
+/**
+ * Register User usecase.
+ * Creates a user together with a hashed password credential.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { conflictError } from "../../domain/errors";
+import type {
+  ConflictError,
+  NotFoundError,
+  UnexpectedError,
+  ValidationError,
+} from "../../domain/errors";
+import type {
+  EmailVerificationService,
+  UserAuthenticationService,
+} from "../../domain/services";
+import type { CredentialRepository } from "../../repositories/interfaces/credential-repository";
+import type { UnitOfWork } from "../../repositories/interfaces/unit-of-work";
+import type {
+  User,
+  UserRepository,
+} from "../../repositories/interfaces/user-repository";
+import type { PasswordHasher } from "../../utils/password-hasher";
+import type { RegisterUserInput } from "./input";
+
+/**
+ * Output of the register-user usecase.
+ */
+export interface RegisterUserOutput {
+  readonly user: User;
+  /** Session version of the new credential (for issuing a session) */
+  readonly sessionVersion: number;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface RegisterUserDeps {
+  readonly userRepository: UserRepository;
+  readonly credentialRepository: CredentialRepository;
+  readonly userAuthenticationService: UserAuthenticationService;
+  readonly passwordHasher: PasswordHasher;
+  /** When provided, a verification email is sent to the new address */
+  readonly emailVerificationService?: EmailVerificationService;
+  /**
+   * When provided, the user, credential and verification token are written
+   * in one transaction, so a failure cannot leave a user without a password
+   */
+  readonly unitOfWork?: UnitOfWork;
+}
+
+/**
+ * Usecase error.
+ */
+export type RegisterUserError =
+  | ConflictError
+  | NotFoundError
+  | UnexpectedError
+  | ValidationError;
+
+/**
+ * Write the user, its credential and its verification token using the
+ * given repositories.
+ */
+const createAccount = async (
+  repositories: Pick<
+    RegisterUserDeps,
+    "userRepository" | "credentialRepository" | "emailVerificationService"
+  >,
+  input: RegisterUserInput,
+  passwordHash: string,
+): Promise<Result<RegisterUserOutput, RegisterUserError>> => {
+  const { userRepository, credentialRepository, emailVerificationService } =
+    repositories;
+
+  const createResult = await userRepository.create({
+    name: input.name,
+    email: input.email,
+  });
+
+  if (createResult.isErr()) {
+    return err(createResult.error);
+  }
+
+  const user = createResult.value;
+
+  const credentialResult = await credentialRepository.create({
+    userId: user.id,
+    passwordHash,
+  });
+
+  if (credentialResult.isErr()) {
+    return err(credentialResult.error);
+  }
+
+  if (emailVerificationService) {
+    const issueResult = await emailVerificationService.issue(user);
+
+    if (issueResult.isErr()) {
+      return err(issueResult.error);
+    }
+  }
+
+  return ok({ user, sessionVersion: credentialResult.value.sessionVersion });
+};
+
+/**
+ * Execute the register-user usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeRegisterUser = async (
+  deps: RegisterUserDeps,
+  input: RegisterUserInput,
+): Promise<Result<RegisterUserOutput, RegisterUserError>> => {
+  const {
+    userAuthenticationService,
+    passwordHasher,
+    emailVerificationService,
+    unitOfWork,
+  } = deps;
+
+  // Check if email is available using domain service
+  const availabilityResult = await userAuthenticationService.isEmailAvailable(
+    input.email,
+  );
+
+  if (availabilityResult.isErr()) {
+    return err(availabilityResult.error);
+  }
+
+  if (!availabilityResult.value) {
+    return err(
+      conflictError(`User with email '${input.email}' already exists`, {
+        resource: "User",
+        conflictReason: "duplicate_email",
+      }),
+    );
+  }
+
+  const passwordHash = await passwordHasher.hash(input.password);
+
+  if (!unitOfWork) {
+    return createAccount(deps, input, passwordHash);
+  }
+
+  return unitOfWork.run((repositories) =>
+    createAccount(
+      {
+        userRepository: repositories.userRepository,
+        credentialRepository: repositories.credentialRepository,
+        emailVerificationService: emailVerificationService?.withTokenRepository(
+          repositories.emailVerificationTokenRepository,
+        ),
+      },
+      input,
+      passwordHash,
+    ),
+  );
+};
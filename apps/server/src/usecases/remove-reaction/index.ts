@@ -0,0 +1,14 @@
+/**
+ * Public API for remove-reaction usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { RemoveReactionInputSchema, parseRemoveReactionInput } from "./input";
+export type { RemoveReactionInput } from "./input";
+
+export { executeRemoveReaction } from "./usecase";
+export type {
+  RemoveReactionDeps,
+  RemoveReactionError,
+  RemoveReactionOutput,
+} from "./usecase";
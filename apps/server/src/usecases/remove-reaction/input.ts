@@ -0,0 +1,49 @@
+/**
+ * Input schema and validation for remove-reaction usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+import { ReactionKindSchema } from "../add-reaction/input";
+
+/**
+ * Input schema for taking back a reaction.
+ */
+export const RemoveReactionInputSchema = z.object({
+  postId: z.string().min(1, "postId is required"),
+  userId: z.string().min(1, "userId is required"),
+  kind: ReactionKindSchema,
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type RemoveReactionInput = z.infer<typeof RemoveReactionInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseRemoveReactionInput = (
+  data: unknown,
+): Result<RemoveReactionInput, ValidationError> => {
+  const result = RemoveReactionInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid remove-reaction input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,94 @@
+/**
+ * Remove Reaction usecase.
+ * Takes back a reaction to a post the user can see; removing a reaction
+ * the user does not hold changes nothing.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import {
+  type NotFoundError,
+  notFoundError,
+  type UnauthorizedError,
+  type UnexpectedError,
+  unexpectedError,
+} from "../../domain/errors";
+import type { PostReactions } from "../../domain/reaction";
+import type { PostAuthorizationService } from "../../domain/services";
+import type { ReactionRepository } from "../../repositories/interfaces/reaction-repository";
+import type { RemoveReactionInput } from "./input";
+
+/**
+ * Output of the remove-reaction usecase.
+ */
+export interface RemoveReactionOutput {
+  /** The post's reactions after the change, as seen by the user */
+  readonly reactions: PostReactions;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface RemoveReactionDeps {
+  readonly reactionRepository: ReactionRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type RemoveReactionError =
+  | NotFoundError
+  | UnauthorizedError
+  | UnexpectedError;
+
+/**
+ * Execute the remove-reaction usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeRemoveReaction = async (
+  deps: RemoveReactionDeps,
+  input: RemoveReactionInput,
+): Promise<Result<RemoveReactionOutput, RemoveReactionError>> => {
+  const { reactionRepository, postAuthorizationService } = deps;
+
+  const authResult = await postAuthorizationService.canViewPost(
+    input.postId,
+    input.userId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  // Hidden drafts are reported as missing so their existence does not leak
+  if (!authResult.value.isAuthorized) {
+    return err(notFoundError("Post", input.postId));
+  }
+
+  const removeResult = await reactionRepository.remove(input);
+
+  if (removeResult.isErr()) {
+    return err(removeResult.error);
+  }
+
+  const summaryResult = await reactionRepository.summarize(
+    [input.postId],
+    input.userId,
+  );
+
+  if (summaryResult.isErr()) {
+    return err(summaryResult.error);
+  }
+
+  const reactions = summaryResult.value.get(input.postId);
+
+  if (!reactions) {
+    return err(unexpectedError("Reaction summary is missing the post"));
+  }
+
+  return ok({ reactions });
+};
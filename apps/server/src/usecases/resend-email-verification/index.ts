@@ -0,0 +1,17 @@
+/**
+ * Public API for resend-email-verification usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  ResendEmailVerificationInputSchema,
+  parseResendEmailVerificationInput,
+} from "./input";
+export type { ResendEmailVerificationInput } from "./input";
+
+export { executeResendEmailVerification } from "./usecase";
+export type {
+  ResendEmailVerificationDeps,
+  ResendEmailVerificationError,
+  ResendEmailVerificationOutput,
+} from "./usecase";
@@ -0,0 +1,50 @@
+/**
+ * Input schema and validation for resend-email-verification usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for requesting a new verification email.
+ */
+export const ResendEmailVerificationInputSchema = z.object({
+  userId: z.string().min(1, "userId is required"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type ResendEmailVerificationInput = z.infer<
+  typeof ResendEmailVerificationInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseResendEmailVerificationInput = (
+  data: unknown,
+): Result<ResendEmailVerificationInput, ValidationError> => {
+  const result = ResendEmailVerificationInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid resend-email-verification input", { details }),
+    );
+  }
+
+  return ok(result.data);
+};
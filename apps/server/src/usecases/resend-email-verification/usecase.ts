@@ -0,0 +1,84 @@
+/**
+ * Resend Email Verification usecase.
+ * Issues a fresh verification token for a user whose email is unverified.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { conflictError, notFoundError } from "../../domain/errors";
+import type {
+  ConflictError,
+  NotFoundError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { EmailVerificationService } from "../../domain/services";
+import type { UserRepository } from "../../repositories/interfaces/user-repository";
+import type { ResendEmailVerificationInput } from "./input";
+
+/**
+ * Output of the resend-email-verification usecase.
+ */
+export interface ResendEmailVerificationOutput {
+  readonly sent: true;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface ResendEmailVerificationDeps {
+  readonly userRepository: UserRepository;
+  readonly emailVerificationService: EmailVerificationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type ResendEmailVerificationError =
+  | NotFoundError
+  | ConflictError
+  | UnexpectedError;
+
+/**
+ * Execute the resend-email-verification usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeResendEmailVerification = async (
+  deps: ResendEmailVerificationDeps,
+  input: ResendEmailVerificationInput,
+): Promise<
+  Result<ResendEmailVerificationOutput, ResendEmailVerificationError>
+> => {
+  const { userRepository, emailVerificationService } = deps;
+
+  const userResult = await userRepository.findById(input.userId);
+
+  if (userResult.isErr()) {
+    return err(userResult.error);
+  }
+
+  const user = userResult.value;
+
+  if (!user || user.deletedAt !== null) {
+    return err(notFoundError("User", input.userId));
+  }
+
+  if (user.emailVerified !== null) {
+    return err(
+      conflictError("Email address is already verified", {
+        resource: "User",
+        conflictReason: "email_already_verified",
+      }),
+    );
+  }
+
+  const issueResult = await emailVerificationService.issue(user);
+
+  if (issueResult.isErr()) {
+    return err(issueResult.error);
+  }
+
+  return ok({ sent: true });
+};
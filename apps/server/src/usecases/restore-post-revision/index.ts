@@ -0,0 +1,17 @@
+/**
+ * Public API for restore-post-revision usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  RestorePostRevisionInputSchema,
+  parseRestorePostRevisionInput,
+} from "./input";
+export type { RestorePostRevisionInput } from "./input";
+
+export { executeRestorePostRevision } from "./usecase";
+export type {
+  RestorePostRevisionDeps,
+  RestorePostRevisionError,
+  RestorePostRevisionOutput,
+} from "./usecase";
@@ -0,0 +1,58 @@
+/**
+ * Input schema and validation for restore-post-revision usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for restoring a post revision.
+ */
+export const RestorePostRevisionInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  /** Revision number from the path */
+  rev: z.coerce
+    .number()
+    .int("rev must be an integer")
+    .positive("rev must be positive"),
+  userId: z.string().min(1, "userId is required"),
+  /** Version from an If-Match precondition; the restore fails if stale */
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type RestorePostRevisionInput = z.infer<
+  typeof RestorePostRevisionInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseRestorePostRevisionInput = (
+  data: unknown,
+): Result<RestorePostRevisionInput, ValidationError> => {
+  const result = RestorePostRevisionInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid restore-post-revision input", { details }),
+    );
+  }
+
+  return ok(result.data);
+};
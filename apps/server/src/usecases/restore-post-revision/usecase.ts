@@ -0,0 +1,129 @@
+/**
+ * Restore Post Revision usecase.
+ * Puts a revision's title and content back as a new edit, so the restore
+ * itself is recorded in the history and can be undone.
+ */
+
+import { type Result, err } from "neverthrow";
+
+import { forbiddenError, notFoundError } from "../../domain/errors";
+import type {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PreconditionFailedError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { PostAuthorizationService } from "../../domain/services";
+import type {
+  Post,
+  PostRepository,
+} from "../../repositories/interfaces/post-repository";
+import type { PostRevisionRepository } from "../../repositories/interfaces/post-revision-repository";
+import type { UnitOfWork } from "../../repositories/interfaces/unit-of-work";
+import { editPostWithRevision } from "../update-post";
+import type { RestorePostRevisionInput } from "./input";
+
+/**
+ * Output of the restore-post-revision usecase.
+ */
+export interface RestorePostRevisionOutput {
+  readonly post: Post;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface RestorePostRevisionDeps {
+  readonly postRepository: PostRepository;
+  readonly postRevisionRepository: PostRevisionRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+  /** When provided, the restore and its revision are stored atomically */
+  readonly unitOfWork?: UnitOfWork;
+}
+
+/**
+ * Usecase error.
+ */
+export type RestorePostRevisionError =
+  | NotFoundError
+  | ConflictError
+  | PreconditionFailedError
+  | UnauthorizedError
+  | ForbiddenError
+  | UnexpectedError;
+
+/**
+ * Look up the revision and apply it as an edit.
+ */
+const restoreRevision = async (
+  repositories: Pick<
+    RestorePostRevisionDeps,
+    "postRepository" | "postRevisionRepository"
+  >,
+  input: RestorePostRevisionInput,
+): Promise<Result<RestorePostRevisionOutput, RestorePostRevisionError>> => {
+  const revisionResult =
+    await repositories.postRevisionRepository.findByRevision(
+      input.id,
+      input.rev,
+    );
+
+  if (revisionResult.isErr()) {
+    return err(revisionResult.error);
+  }
+
+  const revision = revisionResult.value;
+
+  if (!revision) {
+    return err(notFoundError("PostRevision", `${input.id}/${input.rev}`));
+  }
+
+  return editPostWithRevision(repositories, {
+    id: input.id,
+    userId: input.userId,
+    data: { title: revision.title, content: revision.content },
+    expectedVersion: input.expectedVersion,
+  });
+};
+
+/**
+ * Execute the restore-post-revision usecase.
+ * Restoring requires the same permission as editing.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeRestorePostRevision = async (
+  deps: RestorePostRevisionDeps,
+  input: RestorePostRevisionInput,
+): Promise<Result<RestorePostRevisionOutput, RestorePostRevisionError>> => {
+  // Check authorization using domain service
+  const authResult = await deps.postAuthorizationService.canEditPost(
+    input.userId,
+    input.id,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to edit this post",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  if (!deps.unitOfWork) {
+    return restoreRevision(deps, input);
+  }
+
+  return deps.unitOfWork.run((repositories) =>
+    restoreRevision(repositories, input),
+  );
+};
@@ -0,0 +1,14 @@
+/**
+ * Public API for restore-post usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { RestorePostInputSchema, parseRestorePostInput } from "./input";
+export type { RestorePostInput } from "./input";
+
+export { executeRestorePost } from "./usecase";
+export type {
+  RestorePostDeps,
+  RestorePostError,
+  RestorePostOutput,
+} from "./usecase";
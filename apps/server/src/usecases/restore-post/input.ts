@@ -0,0 +1,47 @@
+/**
+ * Input schema and validation for restore-post usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for restoring a soft-deleted post.
+ */
+export const RestorePostInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  userId: z.string().min(1, "userId is required"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type RestorePostInput = z.infer<typeof RestorePostInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseRestorePostInput = (
+  data: unknown,
+): Result<RestorePostInput, ValidationError> => {
+  const result = RestorePostInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid restore-post input", { details }));
+  }
+
+  return ok(result.data);
+};
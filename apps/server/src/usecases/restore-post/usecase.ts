@@ -0,0 +1,84 @@
+/**
+ * Restore Post usecase.
+ * Undoes a soft delete. Admin only.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { forbiddenError } from "../../domain/errors";
+import type {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { PostAuthorizationService } from "../../domain/services";
+import type {
+  Post,
+  PostRepository,
+} from "../../repositories/interfaces/post-repository";
+import type { RestorePostInput } from "./input";
+
+/**
+ * Output of the restore-post usecase.
+ */
+export interface RestorePostOutput {
+  readonly post: Post;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface RestorePostDeps {
+  readonly postRepository: PostRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type RestorePostError =
+  | NotFoundError
+  | UnauthorizedError
+  | ForbiddenError
+  | UnexpectedError;
+
+/**
+ * Execute the restore-post usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeRestorePost = async (
+  deps: RestorePostDeps,
+  input: RestorePostInput,
+): Promise<Result<RestorePostOutput, RestorePostError>> => {
+  const { postRepository, postAuthorizationService } = deps;
+
+  // Check authorization using domain service
+  const authResult = await postAuthorizationService.canRestorePosts(
+    input.userId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to restore posts",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const result = await postRepository.restore(input.id);
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ post: result.value });
+};
@@ -0,0 +1,14 @@
+/**
+ * Public API for restore-user usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { RestoreUserInputSchema, parseRestoreUserInput } from "./input";
+export type { RestoreUserInput } from "./input";
+
+export { executeRestoreUser } from "./usecase";
+export type {
+  RestoreUserDeps,
+  RestoreUserError,
+  RestoreUserOutput,
+} from "./usecase";
@@ -0,0 +1,47 @@
+/**
+ * Input schema and validation for restore-user usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for restoring a soft-deleted user.
+ */
+export const RestoreUserInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  actorId: z.string().min(1, "actorId is required"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type RestoreUserInput = z.infer<typeof RestoreUserInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseRestoreUserInput = (
+  data: unknown,
+): Result<RestoreUserInput, ValidationError> => {
+  const result = RestoreUserInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid restore-user input", { details }));
+  }
+
+  return ok(result.data);
+};
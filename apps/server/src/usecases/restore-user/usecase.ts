@@ -0,0 +1,80 @@
+/**
+ * Restore User usecase.
+ * Undoes a soft delete. Admin only.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { forbiddenError } from "../../domain/errors";
+import type { ForbiddenError, UnauthorizedError } from "../../domain/errors";
+import type { UserAuthorizationService } from "../../domain/services";
+import type {
+  User,
+  UserRepository,
+  UserRepositoryError,
+} from "../../repositories/interfaces/user-repository";
+import type { RestoreUserInput } from "./input";
+
+/**
+ * Output of the restore-user usecase.
+ */
+export interface RestoreUserOutput {
+  readonly user: User;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface RestoreUserDeps {
+  readonly userRepository: UserRepository;
+  readonly userAuthorizationService: UserAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ * ConflictError when the user's email was registered again meanwhile.
+ */
+export type RestoreUserError =
+  | UserRepositoryError
+  | UnauthorizedError
+  | ForbiddenError;
+
+/**
+ * Execute the restore-user usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeRestoreUser = async (
+  deps: RestoreUserDeps,
+  input: RestoreUserInput,
+): Promise<Result<RestoreUserOutput, RestoreUserError>> => {
+  const { userRepository, userAuthorizationService } = deps;
+
+  // Check authorization using domain service
+  const authResult = await userAuthorizationService.canRestoreUsers(
+    input.actorId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to restore users",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const result = await userRepository.restore(input.id);
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ user: result.value });
+};
@@ -0,0 +1,17 @@
+/**
+ * Public API for revoke-personal-access-token usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export {
+  RevokePersonalAccessTokenInputSchema,
+  parseRevokePersonalAccessTokenInput,
+} from "./input";
+export type { RevokePersonalAccessTokenInput } from "./input";
+
+export { executeRevokePersonalAccessToken } from "./usecase";
+export type {
+  RevokePersonalAccessTokenDeps,
+  RevokePersonalAccessTokenError,
+  RevokePersonalAccessTokenOutput,
+} from "./usecase";
@@ -0,0 +1,54 @@
+/**
+ * Input schema and validation for revoke-personal-access-token usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for revoking a personal access token.
+ */
+export const RevokePersonalAccessTokenInputSchema = z.object({
+  actorId: z.string().min(1, "actorId is required"),
+  userId: z.string().min(1, "userId is required"),
+  tokenId: z.string().min(1, "tokenId is required"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type RevokePersonalAccessTokenInput = z.infer<
+  typeof RevokePersonalAccessTokenInputSchema
+>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseRevokePersonalAccessTokenInput = (
+  data: unknown,
+): Result<RevokePersonalAccessTokenInput, ValidationError> => {
+  const result = RevokePersonalAccessTokenInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(
+      validationError("Invalid revoke-personal-access-token input", {
+        details,
+      }),
+    );
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,89 @@
+/**
+ * Revoke Personal Access Token usecase.
+ * Revokes one of a user's tokens so it can no longer authenticate.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { forbiddenError } from "../../domain/errors";
+import type {
+  ForbiddenError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { UserAuthorizationService } from "../../domain/services";
+import type {
+  PersonalAccessTokenRepository,
+  PersonalAccessTokenRepositoryError,
+} from "../../repositories/interfaces/personal-access-token-repository";
+import type { RevokePersonalAccessTokenInput } from "./input";
+
+/**
+ * Output of the revoke-personal-access-token usecase.
+ */
+export interface RevokePersonalAccessTokenOutput {
+  readonly success: true;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface RevokePersonalAccessTokenDeps {
+  readonly personalAccessTokenRepository: PersonalAccessTokenRepository;
+  readonly userAuthorizationService: UserAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type RevokePersonalAccessTokenError =
+  | ForbiddenError
+  | UnauthorizedError
+  | UnexpectedError
+  | PersonalAccessTokenRepositoryError;
+
+/**
+ * Execute the revoke-personal-access-token usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeRevokePersonalAccessToken = async (
+  deps: RevokePersonalAccessTokenDeps,
+  input: RevokePersonalAccessTokenInput,
+): Promise<
+  Result<RevokePersonalAccessTokenOutput, RevokePersonalAccessTokenError>
+> => {
+  const { personalAccessTokenRepository, userAuthorizationService } = deps;
+
+  // Token management is account management: the owner or an admin
+  const authResult = await userAuthorizationService.canUpdateUser(
+    input.actorId,
+    input.userId,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to revoke tokens",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const result = await personalAccessTokenRepository.revoke(
+    input.tokenId,
+    input.userId,
+  );
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ success: true });
+};
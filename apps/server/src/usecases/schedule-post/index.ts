@@ -0,0 +1,14 @@
+/**
+ * Public API for schedule-post usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { SchedulePostInputSchema, parseSchedulePostInput } from "./input";
+export type { SchedulePostInput } from "./input";
+
+export { executeSchedulePost } from "./usecase";
+export type {
+  SchedulePostDeps,
+  SchedulePostError,
+  SchedulePostOutput,
+} from "./usecase";
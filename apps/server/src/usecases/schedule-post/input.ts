@@ -0,0 +1,54 @@
+/**
+ * Input schema and validation for schedule-post usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+import { TimestampParamSchema } from "../../utils/list-query";
+
+/**
+ * Input schema for scheduling a post.
+ */
+export const SchedulePostInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  userId: z.string().min(1, "userId is required"),
+  /** Version from an If-Match precondition; scheduling fails if stale */
+  expectedVersion: z.number().int().positive().optional(),
+  data: z.object({
+    /** ISO 8601 timestamp with offset, e.g. `2030-01-01T09:00:00Z` */
+    publishAt: TimestampParamSchema,
+  }),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type SchedulePostInput = z.infer<typeof SchedulePostInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseSchedulePostInput = (
+  data: unknown,
+): Result<SchedulePostInput, ValidationError> => {
+  const result = SchedulePostInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid schedule-post input", { details }));
+  }
+
+  return ok(result.data);
+};
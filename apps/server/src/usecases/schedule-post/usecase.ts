@@ -0,0 +1,180 @@
+/**
+ * Schedule Post usecase.
+ * Sets a future publishAt on a post and queues the job that publishes it.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import {
+  conflictError,
+  forbiddenError,
+  notFoundError,
+  validationError,
+} from "../../domain/errors";
+import type {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PreconditionFailedError,
+  UnauthorizedError,
+  UnexpectedError,
+  ValidationError,
+} from "../../domain/errors";
+import { transitionPostStatus } from "../../domain/post-status";
+import type { PostAuthorizationService } from "../../domain/services";
+import type { JobRepository } from "../../repositories/interfaces/job-repository";
+import type {
+  Post,
+  PostRepository,
+} from "../../repositories/interfaces/post-repository";
+import type { UnitOfWork } from "../../repositories/interfaces/unit-of-work";
+import { PUBLISH_SCHEDULED_POST_JOB } from "../publish-scheduled-post";
+import type { SchedulePostInput } from "./input";
+
+/**
+ * Output of the schedule-post usecase.
+ */
+export interface SchedulePostOutput {
+  readonly post: Post;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface SchedulePostDeps {
+  readonly postRepository: PostRepository;
+  readonly jobRepository: JobRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+  /** When provided, the post update and the queued job commit together */
+  readonly unitOfWork?: UnitOfWork;
+  /** Clock override for tests */
+  readonly now?: () => Date;
+}
+
+/**
+ * Usecase error.
+ */
+export type SchedulePostError =
+  | ValidationError
+  | NotFoundError
+  | ConflictError
+  | PreconditionFailedError
+  | UnauthorizedError
+  | ForbiddenError
+  | UnexpectedError;
+
+/**
+ * Store the schedule and queue the job using the given repositories.
+ */
+const schedulePost = async (
+  repositories: Pick<SchedulePostDeps, "postRepository" | "jobRepository">,
+  post: Post,
+  input: SchedulePostInput,
+): Promise<Result<SchedulePostOutput, SchedulePostError>> => {
+  const { postRepository, jobRepository } = repositories;
+  const { publishAt } = input.data;
+
+  const result = await postRepository.update(post.id, {
+    publishAt,
+    expectedVersion: input.expectedVersion ?? post.version,
+  });
+
+  if (result.isErr()) {
+    if (
+      result.error.type === "PreconditionFailedError" &&
+      input.expectedVersion === undefined
+    ) {
+      return err(
+        conflictError("Post was modified while it was being scheduled", {
+          resource: "Post",
+          conflictReason: "post_modified_concurrently",
+        }),
+      );
+    }
+
+    return err(result.error);
+  }
+
+  // Jobs for earlier schedules stay queued and skip themselves when run
+  const enqueueResult = await jobRepository.enqueue({
+    type: PUBLISH_SCHEDULED_POST_JOB,
+    payload: { postId: post.id, publishAt: publishAt.toISOString() },
+    runAt: publishAt,
+  });
+
+  if (enqueueResult.isErr()) {
+    return err(enqueueResult.error);
+  }
+
+  return ok({ post: result.value });
+};
+
+/**
+ * Execute the schedule-post usecase.
+ * Scheduling requires the same permission as editing, and only posts that
+ * could be published now (drafts and archived posts) can be scheduled.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeSchedulePost = async (
+  deps: SchedulePostDeps,
+  input: SchedulePostInput,
+): Promise<Result<SchedulePostOutput, SchedulePostError>> => {
+  const { postRepository, postAuthorizationService } = deps;
+  const now = deps.now ?? (() => new Date());
+
+  if (input.data.publishAt.getTime() <= now().getTime()) {
+    return err(
+      validationError("publishAt must be in the future", {
+        field: "publishAt",
+      }),
+    );
+  }
+
+  // Check authorization using domain service
+  const authResult = await postAuthorizationService.canEditPost(
+    input.userId,
+    input.id,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to edit this post",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const findResult = await postRepository.findById(input.id);
+
+  if (findResult.isErr()) {
+    return err(findResult.error);
+  }
+
+  const post = findResult.value;
+
+  if (!post) {
+    return err(notFoundError("Post", input.id));
+  }
+
+  const transitionResult = transitionPostStatus(post.status, "publish");
+
+  if (transitionResult.isErr()) {
+    return err(transitionResult.error);
+  }
+
+  if (!deps.unitOfWork) {
+    return schedulePost(deps, post, input);
+  }
+
+  return deps.unitOfWork.run((repositories) =>
+    schedulePost(repositories, post, input),
+  );
+};
@@ -0,0 +1,15 @@
+/**
+ * Public API for search-posts usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { SearchPostsInputSchema, parseSearchPostsInput } from "./input";
+export type { SearchPostsInput } from "./input";
+
+export { executeSearchPosts } from "./usecase";
+export type {
+  PaginationInfo,
+  SearchPostsDeps,
+  SearchPostsError,
+  SearchPostsOutput,
+} from "./usecase";
@@ -0,0 +1,66 @@
+/**
+ * Input schema and validation for search-posts usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+import { CursorParamSchema, offsetFromCursor } from "../../utils/cursor";
+
+/**
+ * Input schema for searching posts.
+ * Ranked hits page by offset; cursors from a previous page carry one.
+ */
+export const SearchPostsInputSchema = z
+  .object({
+    q: z.string().trim().min(1, "q must not be empty").max(200),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    /** Offset pagination (defaults to 0 when no cursor is given) */
+    offset: z.coerce.number().int().min(0).optional(),
+    /** Opaque cursor from a previous page's nextCursor/prevCursor */
+    cursor: CursorParamSchema.optional(),
+  })
+  .refine((input) => !(input.cursor && input.offset !== undefined), {
+    message: "Use either cursor or offset, not both",
+    path: ["cursor"],
+  })
+  .refine((input) => !input.cursor || offsetFromCursor(input.cursor) !== null, {
+    message: "Cursor was not issued by a search",
+    path: ["cursor"],
+  })
+  .transform(({ cursor, ...input }) => ({
+    ...input,
+    offset: (cursor && offsetFromCursor(cursor)) ?? input.offset ?? 0,
+  }));
+
+/**
+ * Input type derived from schema.
+ */
+export type SearchPostsInput = z.infer<typeof SearchPostsInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseSearchPostsInput = (
+  data: unknown,
+): Result<SearchPostsInput, ValidationError> => {
+  const result = SearchPostsInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid search-posts input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,85 @@
+/**
+ * Search Posts usecase.
+ * Retrieves a page of posts ranked by full-text relevance.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import type {
+  PostSearch,
+  PostSearchError,
+  PostSearchHit,
+} from "../../repositories/interfaces/post-search";
+import { type PageCursors, buildOffsetPageCursors } from "../../utils/cursor";
+import type { SearchPostsInput } from "./input";
+
+/**
+ * Pagination info in response.
+ * Same envelope as list-posts; ranked results page by offset, so the
+ * cursors carry the offset of the neighbouring pages.
+ */
+export interface PaginationInfo extends PageCursors {
+  readonly total: number;
+  readonly limit: number;
+  readonly offset: number;
+}
+
+/**
+ * Output of the search-posts usecase.
+ */
+export interface SearchPostsOutput {
+  readonly hits: readonly PostSearchHit[];
+  readonly pagination: PaginationInfo;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface SearchPostsDeps {
+  readonly postSearch: PostSearch;
+}
+
+/**
+ * Usecase error.
+ */
+export type SearchPostsError = PostSearchError;
+
+/**
+ * Execute the search-posts usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeSearchPosts = async (
+  deps: SearchPostsDeps,
+  input: SearchPostsInput,
+): Promise<Result<SearchPostsOutput, SearchPostsError>> => {
+  const { postSearch } = deps;
+
+  const result = await postSearch.search({
+    query: input.q,
+    limit: input.limit,
+    offset: input.offset,
+  });
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  const { hits, total } = result.value;
+
+  return ok({
+    hits,
+    pagination: {
+      total,
+      limit: input.limit,
+      offset: input.offset,
+      ...buildOffsetPageCursors(
+        hits.map((hit) => hit.post),
+        input,
+        total,
+      ),
+    },
+  });
+};
@@ -0,0 +1,14 @@
+/**
+ * Public API for unfollow-user usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { UnfollowUserInputSchema, parseUnfollowUserInput } from "./input";
+export type { UnfollowUserInput } from "./input";
+
+export { executeUnfollowUser } from "./usecase";
+export type {
+  UnfollowUserDeps,
+  UnfollowUserError,
+  UnfollowUserOutput,
+} from "./usecase";
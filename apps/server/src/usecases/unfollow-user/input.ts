@@ -0,0 +1,48 @@
+/**
+ * Input schema and validation for unfollow-user usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for unfollowing a user.
+ */
+export const UnfollowUserInputSchema = z.object({
+  /** User to stop following */
+  followeeId: z.string().min(1, "followeeId is required"),
+  followerId: z.string().min(1, "followerId is required"),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type UnfollowUserInput = z.infer<typeof UnfollowUserInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseUnfollowUserInput = (
+  data: unknown,
+): Result<UnfollowUserInput, ValidationError> => {
+  const result = UnfollowUserInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid unfollow-user input", { details }));
+  }
+
+  return ok(result.data);
+};
@@ -0,0 +1,55 @@
+/**
+ * Unfollow User usecase.
+ * Makes the caller stop following a user; unfollowing a user not followed
+ * (or no longer existing) changes nothing.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import type {
+  FollowRepository,
+  FollowRepositoryError,
+} from "../../repositories/interfaces/follow-repository";
+import type { UnfollowUserInput } from "./input";
+
+/**
+ * Output of the unfollow-user usecase.
+ */
+export interface UnfollowUserOutput {
+  readonly success: true;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface UnfollowUserDeps {
+  readonly followRepository: FollowRepository;
+}
+
+/**
+ * Usecase error.
+ */
+export type UnfollowUserError = FollowRepositoryError;
+
+/**
+ * Execute the unfollow-user usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeUnfollowUser = async (
+  deps: UnfollowUserDeps,
+  input: UnfollowUserInput,
+): Promise<Result<UnfollowUserOutput, UnfollowUserError>> => {
+  const result = await deps.followRepository.unfollow(
+    input.followerId,
+    input.followeeId,
+  );
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ success: true });
+};
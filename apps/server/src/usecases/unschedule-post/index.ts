@@ -0,0 +1,14 @@
+/**
+ * Public API for unschedule-post usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { UnschedulePostInputSchema, parseUnschedulePostInput } from "./input";
+export type { UnschedulePostInput } from "./input";
+
+export { executeUnschedulePost } from "./usecase";
+export type {
+  UnschedulePostDeps,
+  UnschedulePostError,
+  UnschedulePostOutput,
+} from "./usecase";
@@ -0,0 +1,132 @@
+/**
+ * Unschedule Post usecase.
+ * Clears a post's publishAt; its queued job then skips itself when run.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import {
+  conflictError,
+  forbiddenError,
+  notFoundError,
+} from "../../domain/errors";
+import type {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  PreconditionFailedError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { PostAuthorizationService } from "../../domain/services";
+import type {
+  Post,
+  PostRepository,
+} from "../../repositories/interfaces/post-repository";
+import type { UnschedulePostInput } from "./input";
+
+/**
+ * Output of the unschedule-post usecase.
+ */
+export interface UnschedulePostOutput {
+  readonly post: Post;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface UnschedulePostDeps {
+  readonly postRepository: PostRepository;
+  readonly postAuthorizationService: PostAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type UnschedulePostError =
+  | NotFoundError
+  | ConflictError
+  | PreconditionFailedError
+  | UnauthorizedError
+  | ForbiddenError
+  | UnexpectedError;
+
+/**
+ * Execute the unschedule-post usecase.
+ * Unscheduling requires the same permission as editing.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeUnschedulePost = async (
+  deps: UnschedulePostDeps,
+  input: UnschedulePostInput,
+): Promise<Result<UnschedulePostOutput, UnschedulePostError>> => {
+  const { postRepository, postAuthorizationService } = deps;
+
+  // Check authorization using domain service
+  const authResult = await postAuthorizationService.canEditPost(
+    input.userId,
+    input.id,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ?? "You are not authorized to edit this post",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const findResult = await postRepository.findById(input.id);
+
+  if (findResult.isErr()) {
+    return err(findResult.error);
+  }
+
+  const post = findResult.value;
+
+  if (!post) {
+    return err(notFoundError("Post", input.id));
+  }
+
+  if (post.publishAt === null) {
+    return err(
+      conflictError("Post is not scheduled for publishing", {
+        resource: "Post",
+        conflictReason: "post_not_scheduled",
+      }),
+    );
+  }
+
+  // Guard on the version read above so a concurrent publish cannot be
+  // overwritten
+  const result = await postRepository.update(input.id, {
+    publishAt: null,
+    expectedVersion: input.expectedVersion ?? post.version,
+  });
+
+  if (result.isErr()) {
+    if (
+      result.error.type === "PreconditionFailedError" &&
+      input.expectedVersion === undefined
+    ) {
+      return err(
+        conflictError("Post was modified while it was being unscheduled", {
+          resource: "Post",
+          conflictReason: "post_modified_concurrently",
+        }),
+      );
+    }
+
+    return err(result.error);
+  }
+
+  return ok({ post: result.value });
+};
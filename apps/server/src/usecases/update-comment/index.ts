@@ -0,0 +1,14 @@
+/**
+ * Public API for update-comment usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { UpdateCommentInputSchema, parseUpdateCommentInput } from "./input";
+export type { UpdateCommentInput } from "./input";
+
+export { executeUpdateComment } from "./usecase";
+export type {
+  UpdateCommentDeps,
+  UpdateCommentError,
+  UpdateCommentOutput,
+} from "./usecase";
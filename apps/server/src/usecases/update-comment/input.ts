@@ -0,0 +1,49 @@
+/**
+ * Input schema and validation for update-comment usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+import { CommentContentSchema } from "../create-comment/input";
+
+/**
+ * Input schema for editing a comment.
+ */
+export const UpdateCommentInputSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  userId: z.string().min(1, "userId is required"),
+  data: z.object({ content: CommentContentSchema }),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type UpdateCommentInput = z.infer<typeof UpdateCommentInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseUpdateCommentInput = (
+  data: unknown,
+): Result<UpdateCommentInput, ValidationError> => {
+  const result = UpdateCommentInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid update-comment input", { details }));
+  }
+
+  return ok(result.data);
+};
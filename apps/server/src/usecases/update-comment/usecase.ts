@@ -0,0 +1,86 @@
+/**
+ * Update Comment usecase.
+ * Orchestrates domain services and repository calls to edit a comment.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { forbiddenError } from "../../domain/errors";
+import type {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  UnexpectedError,
+} from "../../domain/errors";
+import type { CommentAuthorizationService } from "../../domain/services";
+import type {
+  Comment,
+  CommentRepository,
+} from "../../repositories/interfaces/comment-repository";
+import type { UpdateCommentInput } from "./input";
+
+/**
+ * Output of the update-comment usecase.
+ */
+export interface UpdateCommentOutput {
+  readonly comment: Comment;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface UpdateCommentDeps {
+  readonly commentRepository: CommentRepository;
+  readonly commentAuthorizationService: CommentAuthorizationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type UpdateCommentError =
+  | NotFoundError
+  | UnauthorizedError
+  | ForbiddenError
+  | UnexpectedError;
+
+/**
+ * Execute the update-comment usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeUpdateComment = async (
+  deps: UpdateCommentDeps,
+  input: UpdateCommentInput,
+): Promise<Result<UpdateCommentOutput, UpdateCommentError>> => {
+  const { commentRepository, commentAuthorizationService } = deps;
+
+  // Check authorization using domain service
+  const authResult = await commentAuthorizationService.canEditComment(
+    input.userId,
+    input.id,
+  );
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  if (!authResult.value.isAuthorized) {
+    return err(
+      forbiddenError(
+        authResult.value.reason ??
+          "You are not authorized to edit this comment",
+        authResult.value.requiredPermission,
+      ),
+    );
+  }
+
+  const result = await commentRepository.update(input.id, input.data);
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  return ok({ comment: result.value });
+};
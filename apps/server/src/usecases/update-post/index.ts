@@ -11,8 +11,13 @@ export {
 } from "./input";
 export type { PatchPostInput, PutPostInput } from "./input";
 
-export { executePatchPost, executePutPost } from "./usecase";
+export {
+  editPostWithRevision,
+  executePatchPost,
+  executePutPost,
+} from "./usecase";
 export type {
+  PostEdit,
   UpdatePostDeps,
   UpdatePostError,
   UpdatePostOutput,
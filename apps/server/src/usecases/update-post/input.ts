@@ -7,6 +7,7 @@ import { type Result, err, ok } from "neverthrow";
 import { z } from "zod";
 
 import { type ValidationError, validationError } from "../../domain/errors";
+import { TagsSchema } from "../create-post/input";
 
 /**
  * Base schema for partial update (PATCH).
@@ -19,6 +20,8 @@ const UpdatePostFieldsSchema = z.object({
     .max(255, "title must be at most 255 characters")
     .optional(),
   content: z.string().min(1, "content cannot be empty").optional(),
+  /** Replaces the post's tags; an empty list removes them all */
+  tags: TagsSchema.optional(),
 });
 
 /**
@@ -28,6 +31,8 @@ const UpdatePostFieldsSchema = z.object({
 export const PatchPostInputSchema = z.object({
   id: z.string().min(1, "id is required"),
   userId: z.string().min(1, "userId is required"),
+  /** Version from an If-Match precondition; the update fails if stale */
+  expectedVersion: z.number().int().positive().optional(),
   data: UpdatePostFieldsSchema.refine((data) => Object.keys(data).length > 0, {
     message: "At least one field must be provided for update",
   }),
@@ -40,12 +45,16 @@ export const PatchPostInputSchema = z.object({
 export const PutPostInputSchema = z.object({
   id: z.string().min(1, "id is required"),
   userId: z.string().min(1, "userId is required"),
+  /** Version from an If-Match precondition; the update fails if stale */
+  expectedVersion: z.number().int().positive().optional(),
   data: z.object({
     title: z
       .string()
       .min(1, "title is required")
       .max(255, "title must be at most 255 characters"),
     content: z.string().min(1, "content is required"),
+    /** Tags are kept as they are when omitted */
+    tags: TagsSchema.optional(),
   }),
 });
 
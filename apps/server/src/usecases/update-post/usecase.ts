@@ -1,13 +1,21 @@
 /**
  * Update Post usecase.
- * Orchestrates domain services and repository calls.
+ * Orchestrates domain services and repository calls. When revision storage
+ * is provided, every edit also records the replaced title and content.
  */
 
 import { type Result, err, ok } from "neverthrow";
 
-import { unauthorizedError } from "../../domain/errors";
+import {
+  conflictError,
+  forbiddenError,
+  notFoundError,
+} from "../../domain/errors";
 import type {
+  ConflictError,
+  ForbiddenError,
   NotFoundError,
+  PreconditionFailedError,
   UnauthorizedError,
   UnexpectedError,
 } from "../../domain/errors";
@@ -16,6 +24,8 @@ import type {
   Post,
   PostRepository,
 } from "../../repositories/interfaces/post-repository";
+import type { PostRevisionRepository } from "../../repositories/interfaces/post-revision-repository";
+import type { UnitOfWork } from "../../repositories/interfaces/unit-of-work";
 import type { PatchPostInput, PutPostInput } from "./input";
 
 /**
@@ -31,6 +41,10 @@ export interface UpdatePostOutput {
 export interface UpdatePostDeps {
   readonly postRepository: PostRepository;
   readonly postAuthorizationService: PostAuthorizationService;
+  /** Records a revision for every edit when provided */
+  readonly postRevisionRepository?: PostRevisionRepository;
+  /** When provided, the edit and its revision are stored in one transaction */
+  readonly unitOfWork?: UnitOfWork;
 }
 
 /**
@@ -38,66 +52,113 @@ export interface UpdatePostDeps {
  */
 export type UpdatePostError =
   | NotFoundError
+  | ConflictError
+  | PreconditionFailedError
   | UnauthorizedError
+  | ForbiddenError
   | UnexpectedError;
 
 /**
- * Execute the update-post usecase for partial update (PATCH).
+ * An edit to a post's title, content and tags by a user.
+ */
+export interface PostEdit {
+  readonly id: string;
+  readonly userId: string;
+  readonly data: {
+    readonly title?: string;
+    readonly content?: string;
+    readonly tags?: readonly string[];
+  };
+  /** Version from an If-Match precondition */
+  readonly expectedVersion?: number;
+}
+
+/**
+ * Apply an edit and record the title and content it replaces as a
+ * revision numbered after the replaced version.
+ * The update is guarded on the version read here, so the revision always
+ * holds exactly what was overwritten; losing that race without an If-Match
+ * precondition is reported as a conflict. Tag-only edits store no revision.
  *
- * @param deps - Injected dependencies
- * @param input - Validated input data
- * @returns Result with output or error
+ * @param repositories - Post and revision repositories to write through
+ * @param edit - The edit to apply
+ * @returns Result with the updated post or error
  */
-export const executePatchPost = async (
-  deps: UpdatePostDeps,
-  input: PatchPostInput,
+export const editPostWithRevision = async (
+  repositories: {
+    readonly postRepository: PostRepository;
+    readonly postRevisionRepository: PostRevisionRepository;
+  },
+  edit: PostEdit,
 ): Promise<Result<UpdatePostOutput, UpdatePostError>> => {
-  const { postRepository, postAuthorizationService } = deps;
+  const { postRepository, postRevisionRepository } = repositories;
 
-  // Check authorization using domain service
-  const authResult = await postAuthorizationService.canEditPost(
-    input.userId,
-    input.id,
-  );
+  const findResult = await postRepository.findById(edit.id);
 
-  if (authResult.isErr()) {
-    return err(authResult.error);
+  if (findResult.isErr()) {
+    return err(findResult.error);
   }
 
-  if (!authResult.value.isAuthorized) {
-    return err(
-      unauthorizedError(
-        authResult.value.reason ?? "You are not authorized to edit this post",
-      ),
-    );
+  const previous = findResult.value;
+
+  if (!previous) {
+    return err(notFoundError("Post", edit.id));
   }
 
-  const result = await postRepository.update(input.id, input.data);
+  const result = await postRepository.update(edit.id, {
+    ...edit.data,
+    expectedVersion: edit.expectedVersion ?? previous.version,
+  });
 
   if (result.isErr()) {
+    if (
+      result.error.type === "PreconditionFailedError" &&
+      edit.expectedVersion === undefined
+    ) {
+      return err(
+        conflictError("Post was modified while it was being edited", {
+          resource: "Post",
+          conflictReason: "post_modified_concurrently",
+        }),
+      );
+    }
+
     return err(result.error);
   }
 
+  if (edit.data.title === undefined && edit.data.content === undefined) {
+    return ok({ post: result.value });
+  }
+
+  const revisionResult = await postRevisionRepository.create({
+    postId: previous.id,
+    revision: previous.version,
+    title: previous.title,
+    content: previous.content,
+    editorId: edit.userId,
+  });
+
+  if (revisionResult.isErr()) {
+    return err(revisionResult.error);
+  }
+
   return ok({ post: result.value });
 };
 
 /**
- * Execute the update-post usecase for full update (PUT).
- *
- * @param deps - Injected dependencies
- * @param input - Validated input data
- * @returns Result with output or error
+ * Check edit permission, then apply the edit.
  */
-export const executePutPost = async (
+const updatePost = async (
   deps: UpdatePostDeps,
-  input: PutPostInput,
+  edit: PostEdit,
 ): Promise<Result<UpdatePostOutput, UpdatePostError>> => {
-  const { postRepository, postAuthorizationService } = deps;
+  const { postRepository, postAuthorizationService, postRevisionRepository } =
+    deps;
 
   // Check authorization using domain service
   const authResult = await postAuthorizationService.canEditPost(
-    input.userId,
-    input.id,
+    edit.userId,
+    edit.id,
   );
 
   if (authResult.isErr()) {
@@ -106,13 +167,30 @@ export const executePutPost = async (
 
   if (!authResult.value.isAuthorized) {
     return err(
-      unauthorizedError(
+      forbiddenError(
         authResult.value.reason ?? "You are not authorized to edit this post",
+        authResult.value.requiredPermission,
       ),
     );
   }
 
-  const result = await postRepository.update(input.id, input.data);
+  if (postRevisionRepository) {
+    if (!deps.unitOfWork) {
+      return editPostWithRevision(
+        { postRepository, postRevisionRepository },
+        edit,
+      );
+    }
+
+    return deps.unitOfWork.run((repositories) =>
+      editPostWithRevision(repositories, edit),
+    );
+  }
+
+  const result = await postRepository.update(edit.id, {
+    ...edit.data,
+    expectedVersion: edit.expectedVersion,
+  });
 
   if (result.isErr()) {
     return err(result.error);
@@ -120,3 +198,29 @@ export const executePutPost = async (
 
   return ok({ post: result.value });
 };
+
+/**
+ * Execute the update-post usecase for partial update (PATCH).
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executePatchPost = async (
+  deps: UpdatePostDeps,
+  input: PatchPostInput,
+): Promise<Result<UpdatePostOutput, UpdatePostError>> =>
+  updatePost(deps, input);
+
+/**
+ * Execute the update-post usecase for full update (PUT).
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executePutPost = async (
+  deps: UpdatePostDeps,
+  input: PutPostInput,
+): Promise<Result<UpdatePostOutput, UpdatePostError>> =>
+  updatePost(deps, input);
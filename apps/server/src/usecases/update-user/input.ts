@@ -7,6 +7,7 @@ import { type Result, err, ok } from "neverthrow";
 import { z } from "zod";
 
 import { type ValidationError, validationError } from "../../domain/errors";
+import { ROLES } from "../../domain/permissions";
 
 /**
  * Base schema for partial update (PATCH).
@@ -20,6 +21,7 @@ const UpdateUserFieldsSchema = z.object({
     .optional(),
   email: z.email("email must be a valid email address").optional(),
   image: z.url("image must be a valid URL").max(255).optional().nullable(),
+  role: z.enum(ROLES).optional(),
 });
 
 /**
@@ -28,6 +30,9 @@ const UpdateUserFieldsSchema = z.object({
  */
 export const PatchUserInputSchema = z.object({
   id: z.string().min(1, "id is required"),
+  actorId: z.string().min(1, "actorId is required"),
+  /** Version from an If-Match precondition; the update fails if stale */
+  expectedVersion: z.number().int().positive().optional(),
   data: UpdateUserFieldsSchema.refine((data) => Object.keys(data).length > 0, {
     message: "At least one field must be provided for update",
   }),
@@ -39,6 +44,9 @@ export const PatchUserInputSchema = z.object({
  */
 export const PutUserInputSchema = z.object({
   id: z.string().min(1, "id is required"),
+  actorId: z.string().min(1, "actorId is required"),
+  /** Version from an If-Match precondition; the update fails if stale */
+  expectedVersion: z.number().int().positive().optional(),
   data: z.object({
     name: z
       .string()
@@ -46,6 +54,7 @@ export const PutUserInputSchema = z.object({
       .max(255, "name must be at most 255 characters"),
     email: z.email("email must be a valid email address"),
     image: z.url("image must be a valid URL").max(255).optional().nullable(),
+    role: z.enum(ROLES).optional(),
   }),
 });
 
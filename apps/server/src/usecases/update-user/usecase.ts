@@ -5,12 +5,21 @@
 
 import { type Result, err, ok } from "neverthrow";
 
+import { forbiddenError } from "../../domain/errors";
 import type {
   ConflictError,
+  ForbiddenError,
   NotFoundError,
+  PreconditionFailedError,
+  UnauthorizedError,
   UnexpectedError,
 } from "../../domain/errors";
 import type {
+  EmailVerificationService,
+  UserAuthorizationService,
+} from "../../domain/services";
+import type {
+  UpdateUserInput,
   User,
   UserRepository,
 } from "../../repositories/interfaces/user-repository";
@@ -28,12 +37,111 @@ export interface UpdateUserOutput {
  */
 export interface UpdateUserDeps {
   readonly userRepository: UserRepository;
+  readonly userAuthorizationService: UserAuthorizationService;
+  /** When provided, a verification email is sent when the address changes */
+  readonly emailVerificationService?: EmailVerificationService;
 }
 
 /**
  * Usecase error.
  */
-export type UpdateUserError = NotFoundError | ConflictError | UnexpectedError;
+export type UpdateUserError =
+  | NotFoundError
+  | ConflictError
+  | PreconditionFailedError
+  | UnauthorizedError
+  | ForbiddenError
+  | UnexpectedError;
+
+/**
+ * Check that the actor may update the user (and assign roles, if requested).
+ */
+const authorizeUpdate = async (
+  deps: UpdateUserDeps,
+  actorId: string,
+  id: string,
+  data: UpdateUserInput,
+): Promise<Result<void, UpdateUserError>> => {
+  const { userAuthorizationService } = deps;
+
+  const checks = [userAuthorizationService.canUpdateUser(actorId, id)];
+
+  // Changing a role is user management, even on one's own account
+  if (data.role !== undefined) {
+    checks.push(userAuthorizationService.canManageUsers(actorId));
+  }
+
+  for (const authResult of await Promise.all(checks)) {
+    if (authResult.isErr()) {
+      return err(authResult.error);
+    }
+
+    if (!authResult.value.isAuthorized) {
+      return err(
+        forbiddenError(
+          authResult.value.reason ??
+            "You are not authorized to update this user",
+          authResult.value.requiredPermission,
+        ),
+      );
+    }
+  }
+
+  return ok(undefined);
+};
+
+/**
+ * Apply an update, resetting verification when the email address changes.
+ */
+const applyUpdate = async (
+  deps: UpdateUserDeps,
+  actorId: string,
+  id: string,
+  data: UpdateUserInput,
+): Promise<Result<UpdateUserOutput, UpdateUserError>> => {
+  const { userRepository, emailVerificationService } = deps;
+
+  const authResult = await authorizeUpdate(deps, actorId, id, data);
+
+  if (authResult.isErr()) {
+    return err(authResult.error);
+  }
+
+  let emailChanged = false;
+
+  if (data.email !== undefined) {
+    const existingResult = await userRepository.findById(id);
+
+    if (existingResult.isErr()) {
+      return err(existingResult.error);
+    }
+
+    emailChanged =
+      existingResult.value !== null &&
+      existingResult.value.email !== data.email;
+  }
+
+  const result = await userRepository.update(
+    id,
+    emailChanged ? { ...data, emailVerified: null } : data,
+  );
+
+  if (result.isErr()) {
+    return err(result.error);
+  }
+
+  const user = result.value;
+
+  if (emailChanged && emailVerificationService) {
+    const issueResult = await emailVerificationService.issue(user);
+
+    if (issueResult.isErr()) {
+      return err(issueResult.error);
+    }
+  }
+
+  return ok({ user });
+};
 
 /**
  * Execute the update-user usecase for partial update (PATCH).
@@ -46,15 +154,10 @@ export const executePatchUser = async (
   deps: UpdateUserDeps,
   input: PatchUserInput,
 ): Promise<Result<UpdateUserOutput, UpdateUserError>> => {
-  const { userRepository } = deps;
-
-  const result = await userRepository.update(input.id, input.data);
-
-  if (result.isErr()) {
-    return err(result.error);
-  }
-
-  return ok({ user: result.value });
+  return applyUpdate(deps, input.actorId, input.id, {
+    ...input.data,
+    expectedVersion: input.expectedVersion,
+  });
 };
 
 /**
@@ -68,13 +171,8 @@ export const executePutUser = async (
   deps: UpdateUserDeps,
   input: PutUserInput,
 ): Promise<Result<UpdateUserOutput, UpdateUserError>> => {
-  const { userRepository } = deps;
-
-  const result = await userRepository.update(input.id, input.data);
-
-  if (result.isErr()) {
-    return err(result.error);
-  }
-
-  return ok({ user: result.value });
+  return applyUpdate(deps, input.actorId, input.id, {
+    ...input.data,
+    expectedVersion: input.expectedVersion,
+  });
 };
@@ -0,0 +1,14 @@
+/**
+ * Public API for verify-email usecase.
+ * Re-exports schema, types, and usecase function.
+ */
+
+export { VerifyEmailInputSchema, parseVerifyEmailInput } from "./input";
+export type { VerifyEmailInput } from "./input";
+
+export { executeVerifyEmail } from "./usecase";
+export type {
+  VerifyEmailDeps,
+  VerifyEmailError,
+  VerifyEmailOutput,
+} from "./usecase";
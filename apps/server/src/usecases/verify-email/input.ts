@@ -0,0 +1,46 @@
+/**
+ * Input schema and validation for verify-email usecase.
+ * Uses zod for schema definition, returns Result for validation.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+import { z } from "zod";
+
+import { type ValidationError, validationError } from "../../domain/errors";
+
+/**
+ * Input schema for verifying an email address.
+ */
+export const VerifyEmailInputSchema = z.object({
+  token: z.string().min(1, "Token is required").max(256),
+});
+
+/**
+ * Input type derived from schema.
+ */
+export type VerifyEmailInput = z.infer<typeof VerifyEmailInputSchema>;
+
+/**
+ * Parse and validate input data.
+ * Returns Result instead of throwing.
+ *
+ * @param data - Raw input data to validate
+ * @returns Result with validated input or ValidationError
+ */
+export const parseVerifyEmailInput = (
+  data: unknown,
+): Result<VerifyEmailInput, ValidationError> => {
+  const result = VerifyEmailInputSchema.safeParse(data);
+
+  if (!result.success) {
+    const details = result.error.issues.map((issue) => ({
+      field: issue.path.join("."),
+      message: issue.message,
+      code: issue.code,
+    }));
+
+    return err(validationError("Invalid verify-email input", { details }));
+  }
+
+  return ok(result.data);
+};
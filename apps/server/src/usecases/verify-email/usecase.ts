@@ -0,0 +1,100 @@
+/**
+ * Verify Email usecase.
+ * Redeems a verification token and marks the user's email as verified.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { validationError } from "../../domain/errors";
+import type {
+  ConflictError,
+  NotFoundError,
+  PreconditionFailedError,
+  UnexpectedError,
+  ValidationError,
+} from "../../domain/errors";
+import type { EmailVerificationService } from "../../domain/services";
+import type {
+  User,
+  UserRepository,
+} from "../../repositories/interfaces/user-repository";
+import type { VerifyEmailInput } from "./input";
+
+/**
+ * Output of the verify-email usecase.
+ */
+export interface VerifyEmailOutput {
+  readonly user: User;
+}
+
+/**
+ * Dependencies required by the usecase.
+ */
+export interface VerifyEmailDeps {
+  readonly userRepository: UserRepository;
+  readonly emailVerificationService: EmailVerificationService;
+}
+
+/**
+ * Usecase error.
+ */
+export type VerifyEmailError =
+  | ValidationError
+  | NotFoundError
+  | ConflictError
+  | PreconditionFailedError
+  | UnexpectedError;
+
+/**
+ * Single message for every rejected token so callers cannot probe tokens.
+ */
+const INVALID_TOKEN_MESSAGE = "Invalid or expired verification token";
+
+/**
+ * Execute the verify-email usecase.
+ *
+ * @param deps - Injected dependencies
+ * @param input - Validated input data
+ * @returns Result with output or error
+ */
+export const executeVerifyEmail = async (
+  deps: VerifyEmailDeps,
+  input: VerifyEmailInput,
+): Promise<Result<VerifyEmailOutput, VerifyEmailError>> => {
+  const { userRepository, emailVerificationService } = deps;
+
+  const consumeResult = await emailVerificationService.consume(input.token);
+
+  if (consumeResult.isErr()) {
+    return err(consumeResult.error);
+  }
+
+  const verified = consumeResult.value;
+
+  if (!verified) {
+    return err(validationError(INVALID_TOKEN_MESSAGE));
+  }
+
+  const userResult = await userRepository.findById(verified.userId);
+
+  if (userResult.isErr()) {
+    return err(userResult.error);
+  }
+
+  const user = userResult.value;
+
+  // A token only proves ownership of the address it was sent to
+  if (!user || user.deletedAt !== null || user.email !== verified.email) {
+    return err(validationError(INVALID_TOKEN_MESSAGE));
+  }
+
+  const updateResult = await userRepository.update(user.id, {
+    emailVerified: new Date(),
+  });
+
+  if (updateResult.isErr()) {
+    return err(updateResult.error);
+  }
+
+  return ok({ user: updateResult.value });
+};
@@ -0,0 +1,220 @@
+/**
+ * Opaque pagination cursors.
+ * A cursor encodes a position in the sort order, the sort it belongs to and
+ * a direction as base64url JSON; clients must treat it as an opaque string.
+ */
+
+import { z } from "zod";
+
+import {
+  DEFAULT_SORT,
+  type PageCursor,
+  type PageOptions,
+  type SortKey,
+} from "../repositories/interfaces/pagination";
+import { formatSort } from "./list-query";
+
+/**
+ * Wire format of a decoded cursor.
+ */
+const CursorPayloadSchema = z.object({
+  d: z.enum(["next", "prev"]),
+  s: z.string(),
+  v: z.array(z.string()),
+  i: z.string().min(1),
+});
+
+/**
+ * A decoded cursor plus the sort signature it was issued for.
+ */
+export interface DecodedCursor extends PageCursor {
+  readonly sort: string;
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string.
+ */
+export const encodeCursor = (cursor: DecodedCursor): string =>
+  Buffer.from(
+    JSON.stringify({
+      d: cursor.direction,
+      s: cursor.sort,
+      v: cursor.values,
+      i: cursor.id,
+    }),
+  ).toString("base64url");
+
+/**
+ * Decode an opaque cursor string.
+ * Returns null when the string is not a cursor this server issued.
+ */
+export const decodeCursor = (value: string): DecodedCursor | null => {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  const result = CursorPayloadSchema.safeParse(payload);
+
+  if (!result.success) return null;
+
+  return {
+    direction: result.data.d,
+    sort: result.data.s,
+    values: result.data.v,
+    id: result.data.i,
+  };
+};
+
+/**
+ * Query parameter schema that decodes a cursor string.
+ */
+export const CursorParamSchema = z.string().transform((value, ctx) => {
+  const cursor = decodeCursor(value);
+
+  if (!cursor) {
+    ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+    return z.NEVER;
+  }
+
+  return cursor;
+});
+
+/**
+ * Check that a cursor was issued for the given sort.
+ * Cursors from a different sort would seek to a meaningless position.
+ */
+export const cursorMatchesSort = (
+  cursor: DecodedCursor,
+  sort: readonly SortKey[] | undefined,
+): boolean => cursor.sort === formatSort(sort ?? DEFAULT_SORT);
+
+/**
+ * Cursors pointing at the neighbouring pages of a result page.
+ */
+export interface PageCursors {
+  readonly nextCursor: string | null;
+  readonly prevCursor: string | null;
+}
+
+/**
+ * Build next/prev cursors for a page of rows in sort order.
+ *
+ * @param items - Rows of the current page
+ * @param options - Sort and page selection used for the query
+ * @param hasMore - Whether rows exist beyond the page in the direction of travel
+ * @returns Cursors, null where no neighbouring page exists
+ */
+export const buildPageCursors = <
+  F extends string,
+  T extends { readonly id: string } & {
+    readonly [K in F]: string | Date;
+  },
+>(
+  items: readonly T[],
+  options: PageOptions<F>,
+  hasMore: boolean,
+): PageCursors => {
+  const first = items[0];
+  const last = items.at(-1);
+
+  if (!first || !last) {
+    return { nextCursor: null, prevCursor: null };
+  }
+
+  const sort = options.sort ?? (DEFAULT_SORT as readonly SortKey<F>[]);
+  const signature = formatSort(sort);
+
+  // Keep only the sort key values of a row, timestamps as ISO strings
+  const positionOf = (row: T) => ({
+    sort: signature,
+    values: sort.map((key) => {
+      const value: string | Date = row[key.field];
+      return value instanceof Date ? value.toISOString() : value;
+    }),
+    id: row.id,
+  });
+
+  const direction = options.cursor?.direction;
+
+  // A cursor page always has a neighbour on the side it was reached from
+  const hasNext = direction === "prev" || hasMore;
+  const hasPrev =
+    direction === "next" ||
+    (direction === "prev" ? hasMore : (options.offset ?? 0) > 0);
+
+  return {
+    nextCursor:
+      hasNext ? encodeCursor({ ...positionOf(last), direction: "next" }) : null,
+    prevCursor:
+      hasPrev ?
+        encodeCursor({ ...positionOf(first), direction: "prev" })
+      : null,
+  };
+};
+
+/**
+ * Sort signature of cursors that carry an offset. Used where rows have no
+ * stable key to seek on, such as search hits ranked by relevance.
+ */
+export const OFFSET_CURSOR_SORT = "offset";
+
+/**
+ * Build next/prev cursors for a page selected by offset.
+ * Each cursor carries the offset of the page it points at.
+ *
+ * @param items - Rows of the current page
+ * @param options - Limit and offset used for the query
+ * @param total - Rows across all pages
+ * @returns Cursors, null where no neighbouring page exists
+ */
+export const buildOffsetPageCursors = (
+  items: readonly { readonly id: string }[],
+  options: { readonly limit: number; readonly offset: number },
+  total: number,
+): PageCursors => {
+  const first = items[0];
+  const last = items.at(-1);
+
+  if (!first || !last) {
+    return { nextCursor: null, prevCursor: null };
+  }
+
+  const nextOffset = options.offset + items.length;
+
+  return {
+    nextCursor:
+      nextOffset < total ?
+        encodeCursor({
+          direction: "next",
+          sort: OFFSET_CURSOR_SORT,
+          values: [String(nextOffset)],
+          id: last.id,
+        })
+      : null,
+    prevCursor:
+      options.offset > 0 ?
+        encodeCursor({
+          direction: "prev",
+          sort: OFFSET_CURSOR_SORT,
+          values: [String(Math.max(0, options.offset - options.limit))],
+          id: first.id,
+        })
+      : null,
+  };
+};
+
+/**
+ * Read the offset an offset cursor points at.
+ * Returns null for cursors issued for a sort order.
+ */
+export const offsetFromCursor = (cursor: DecodedCursor): number | null => {
+  if (cursor.sort !== OFFSET_CURSOR_SORT) return null;
+
+  const offset = Number(cursor.values[0]);
+
+  return Number.isSafeInteger(offset) && offset >= 0 ? offset : null;
+};
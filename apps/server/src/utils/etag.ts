@@ -0,0 +1,99 @@
+/**
+ * Entity tags for optimistic concurrency.
+ * Users and posts expose their version as a strong ETag. Clients send it
+ * back in If-Match to guard updates and in If-None-Match to revalidate.
+ * Posts served with reactions append them to the tag, since reactions
+ * change the body without changing the version.
+ */
+
+import { type Result, err, ok } from "neverthrow";
+
+import { type ValidationError, validationError } from "../domain/errors";
+import { type PostReactions, REACTION_KINDS } from "../domain/reaction";
+
+/**
+ * Format a resource version as a strong entity tag.
+ */
+export const formatEtag = (version: number): string => `"${version}"`;
+
+/**
+ * Format the entity tag of a post served with reactions: the version, then
+ * each kind's count in REACTION_KINDS order, marked `m` when the viewer
+ * holds it (e.g. `"3-2m.0.1"`). If-Match still reads only the version.
+ */
+export const formatReactionsEtag = (
+  version: number,
+  reactions: PostReactions,
+): string => {
+  const tallies = REACTION_KINDS.map(
+    (kind) =>
+      `${reactions.counts[kind]}${reactions.mine.includes(kind) ? "m" : ""}`,
+  );
+
+  return `"${version}-${tallies.join(".")}"`;
+};
+
+/**
+ * Split an If-Match / If-None-Match list into its entity tags.
+ */
+const splitEtags = (header: string): string[] =>
+  header
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag !== "");
+
+/**
+ * Parse an If-Match header into the version an update must still match.
+ * - Absent or `*`: no version constraint (undefined)
+ * - A single strong tag issued by this API: its version (any reactions
+ *   suffix is ignored, as reactions are not part of an update)
+ * - Anything else (weak or foreign tags, lists): ValidationError (400)
+ *
+ * @param header - Raw If-Match header value
+ * @returns Result with the expected version, if any
+ */
+export const parseIfMatch = (
+  header: string | undefined,
+): Result<number | undefined, ValidationError> => {
+  if (header === undefined || header.trim() === "*") {
+    return ok(undefined);
+  }
+
+  const tags = splitEtags(header);
+  const match =
+    tags.length === 1 ? /^"([1-9]\d*)(?:-[\dm.]+)?"$/.exec(tags[0]!) : null;
+  const version = match ? Number(match[1]) : Number.NaN;
+
+  if (!Number.isSafeInteger(version)) {
+    return err(
+      validationError("If-Match must be a single ETag returned by this API", {
+        field: "If-Match",
+      }),
+    );
+  }
+
+  return ok(version);
+};
+
+/**
+ * Check an If-None-Match header against the current entity tag.
+ * Uses weak comparison, so `W/"3"` matches `"3"`.
+ *
+ * @param header - Raw If-None-Match header value
+ * @param etag - Current entity tag of the resource
+ * @returns true when the client's copy is current (respond 304)
+ */
+export const isNotModified = (
+  header: string | undefined,
+  etag: string,
+): boolean => {
+  if (header === undefined) {
+    return false;
+  }
+
+  if (header.trim() === "*") {
+    return true;
+  }
+
+  return splitEtags(header).some((tag) => tag.replace(/^W\//, "") === etag);
+};
@@ -2,7 +2,10 @@
  * HTTP Error Utilities - centralized conversion from domain/usecase errors to HTTP responses.
  */
 
+import { STATUS_CODES } from "node:http";
+
 import type { Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
 import type { ZodError } from "zod";
 
 import type { DomainError } from "../domain/errors";
@@ -11,6 +14,7 @@ import {
   ERROR_TITLES,
   ERROR_TYPE_URNS,
   type HttpErrorResponse,
+  type HttpTransportError,
   type ProblemDetails,
   zodErrorToDetails,
 } from "../types/http-error";
@@ -19,12 +23,12 @@ import {
  * Convert domain/usecase error to HTTP error response.
  * Pure function - no side effects, easy to test.
  *
- * @param error - Domain error, Usecase error, or ZodError
+ * @param error - Domain error, Usecase error, transport error, or ZodError
  * @param instance - Request path or identifier for the specific occurrence
  * @returns HTTP error response with status, body, and optional headers
  */
 export const toHttpError = (
-  error: DomainError | ZodError,
+  error: DomainError | HttpTransportError | ZodError,
   instance?: string,
 ): HttpErrorResponse => {
   // Handle ZodError (from DTO validation)
@@ -44,11 +48,17 @@ export const toHttpError = (
     };
   }
 
-  // Handle domain errors
-  const domainError = error as DomainError;
+  // Handle domain and transport errors
+  const domainError = error as DomainError | HttpTransportError;
   const errorType = domainError.type;
-  const status = ERROR_STATUS_CODES[errorType] ?? 500;
-  const title = ERROR_TITLES[errorType] ?? "Internal Server Error";
+  const status =
+    domainError.type === "HttpClientError" ?
+      domainError.status
+    : (ERROR_STATUS_CODES[errorType] ?? 500);
+  const title =
+    domainError.type === "HttpClientError" ?
+      (STATUS_CODES[status] ?? "Client Error")
+    : (ERROR_TITLES[errorType] ?? "Internal Server Error");
   const typeUrn =
     ERROR_TYPE_URNS[errorType as keyof typeof ERROR_TYPE_URNS] ??
     ERROR_TYPE_URNS.UnexpectedError;
@@ -71,6 +81,24 @@ export const toHttpError = (
     };
   }
 
+  // Name the missing permission if known
+  if (domainError.type === "ForbiddenError" && domainError.requiredPermission) {
+    return {
+      status,
+      body: { ...body, requiredPermission: domainError.requiredPermission },
+      headers: { "Content-Type": "application/problem+json" },
+    };
+  }
+
+  // Let clients tell conflicts apart without parsing the detail
+  if (domainError.type === "ConflictError" && domainError.conflictReason) {
+    return {
+      status,
+      body: { ...body, conflictReason: domainError.conflictReason },
+      headers: { "Content-Type": "application/problem+json" },
+    };
+  }
+
   return {
     status,
     body,
@@ -84,9 +112,9 @@ export const toHttpError = (
  */
 export const sendHttpError = (
   c: Context,
-  error: DomainError | ZodError,
+  error: DomainError | HttpTransportError | ZodError,
 ): Response => {
   const { status, body, headers } = toHttpError(error, c.req.path);
 
-  return c.json(body, status as 400 | 401 | 403 | 404 | 409 | 500, headers);
+  return c.json(body, status as ContentfulStatusCode, headers);
 };
@@ -0,0 +1,128 @@
+/**
+ * Line-level text diff.
+ * Compares two texts line by line using their longest common subsequence,
+ * the same shape of output as `diff` without context trimming.
+ */
+
+/**
+ * How a line differs between the two texts.
+ */
+export type DiffOperation = "unchanged" | "added" | "removed";
+
+/**
+ * One line of a diff.
+ */
+export interface DiffLine {
+  readonly op: DiffOperation;
+  readonly line: string;
+}
+
+/**
+ * Largest LCS table (lines before x lines after) computed exactly.
+ * Bigger changed regions are reported as removed then added, which keeps
+ * memory bounded for pathological inputs.
+ */
+const MAX_TABLE_CELLS = 4_000_000;
+
+const splitLines = (text: string): string[] =>
+  text === "" ? [] : text.split(/\r?\n/);
+
+/**
+ * Diff the lines between the common prefix and suffix.
+ */
+const diffMiddle = (before: string[], after: string[]): DiffLine[] => {
+  const rows = before.length;
+  const cols = after.length;
+
+  if (rows * cols > MAX_TABLE_CELLS) {
+    return [
+      ...before.map((line): DiffLine => ({ op: "removed", line })),
+      ...after.map((line): DiffLine => ({ op: "added", line })),
+    ];
+  }
+
+  // lcs[i * (cols + 1) + j]: LCS length of before[i..] and after[j..]
+  const width = cols + 1;
+  const lcs = new Uint32Array((rows + 1) * width);
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        before[i] === after[j] ?
+          (lcs[(i + 1) * width + j + 1] ?? 0) + 1
+        : Math.max(lcs[(i + 1) * width + j] ?? 0, lcs[i * width + j + 1] ?? 0);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < rows && j < cols) {
+    const removedLine = before[i] ?? "";
+    const addedLine = after[j] ?? "";
+
+    if (removedLine === addedLine) {
+      lines.push({ op: "unchanged", line: removedLine });
+      i++;
+      j++;
+    } else if (
+      (lcs[(i + 1) * width + j] ?? 0) >= (lcs[i * width + j + 1] ?? 0)
+    ) {
+      lines.push({ op: "removed", line: removedLine });
+      i++;
+    } else {
+      lines.push({ op: "added", line: addedLine });
+      j++;
+    }
+  }
+
+  for (; i < rows; i++) lines.push({ op: "removed", line: before[i] ?? "" });
+  for (; j < cols; j++) lines.push({ op: "added", line: after[j] ?? "" });
+
+  return lines;
+};
+
+/**
+ * Diff two texts line by line.
+ * Removed lines come before the lines that replace them.
+ *
+ * @param before - The original text
+ * @param after - The changed text
+ * @returns Every line of both texts, marked unchanged, removed or added
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+
+  // Trim the common ends so the table covers only the changed region
+  let start = 0;
+  while (
+    start < beforeLines.length &&
+    start < afterLines.length &&
+    beforeLines[start] === afterLines[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < beforeLines.length - start &&
+    end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] ===
+      afterLines[afterLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const unchanged = (line: string): DiffLine => ({ op: "unchanged", line });
+
+  return [
+    ...beforeLines.slice(0, start).map(unchanged),
+    ...diffMiddle(
+      beforeLines.slice(start, beforeLines.length - end),
+      afterLines.slice(start, afterLines.length - end),
+    ),
+    ...beforeLines.slice(beforeLines.length - end).map(unchanged),
+  ];
+};
@@ -0,0 +1,108 @@
+/**
+ * List query parameter parsing.
+ * - `sort`: comma-separated fields, each optionally prefixed with `-` for
+ *   descending order (e.g. `sort=-createdAt,title`)
+ * - filters: `field[operator]=value` (e.g. `title[contains]=hono`)
+ * Only allow-listed fields and filters are accepted so callers cannot sort
+ * or filter by arbitrary columns.
+ */
+
+import { z } from "zod";
+
+import type { ValidationDetail } from "../domain/errors";
+import type { SortKey } from "../repositories/interfaces/pagination";
+
+/**
+ * Maximum number of sort keys per request.
+ */
+export const MAX_SORT_KEYS = 3;
+
+/**
+ * Format sort keys back into the `sort` parameter syntax.
+ * Used as a stable signature to bind cursors to the sort they came from.
+ */
+export const formatSort = (sort: readonly SortKey[]): string =>
+  sort
+    .map((key) => `${key.direction === "desc" ? "-" : ""}${key.field}`)
+    .join(",");
+
+/**
+ * Create a query parameter schema that parses a sort expression into keys.
+ *
+ * @param fields - Allow-listed sortable fields
+ * @returns Schema producing SortKey[] or issues naming the offending field
+ */
+export const createSortParamSchema = <F extends string>(fields: readonly F[]) =>
+  z.string().transform((value, ctx): SortKey<F>[] => {
+    const segments = value.split(",").map((segment) => segment.trim());
+    const keys: SortKey<F>[] = [];
+
+    for (const segment of segments) {
+      const descending = segment.startsWith("-");
+      const field = descending ? segment.slice(1) : segment;
+
+      if (!fields.includes(field as F)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Cannot sort by '${field}'; allowed: ${fields.join(", ")}`,
+        });
+        return z.NEVER;
+      }
+
+      if (keys.some((key) => key.field === field)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Duplicate sort field '${field}'`,
+        });
+        return z.NEVER;
+      }
+
+      keys.push({ field: field as F, direction: descending ? "desc" : "asc" });
+    }
+
+    if (keys.length > MAX_SORT_KEYS) {
+      ctx.addIssue({
+        code: "custom",
+        message: `At most ${MAX_SORT_KEYS} sort fields are allowed`,
+      });
+      return z.NEVER;
+    }
+
+    return keys;
+  });
+
+/**
+ * Query parameter schema for an ISO 8601 timestamp with offset.
+ */
+export const TimestampParamSchema = z.iso
+  .datetime({ offset: true })
+  .transform((value) => new Date(value));
+
+/**
+ * Matches `field[operator]` filter parameter names.
+ */
+const FILTER_PARAM_PATTERN = /^[^[\]]+\[[^[\]]*\]$/;
+
+/**
+ * Find filter parameters that are not on the allow-list.
+ * Plain parameters are left to the schema; only `field[operator]` names are
+ * checked so unknown filters fail loudly instead of being ignored.
+ *
+ * @param data - Raw query parameters
+ * @param allowed - Allow-listed filter parameter names
+ * @returns Validation details, one per unsupported filter
+ */
+export const findUnsupportedFilters = (
+  data: unknown,
+  allowed: readonly string[],
+): ValidationDetail[] => {
+  if (typeof data !== "object" || data === null) return [];
+
+  return Object.keys(data)
+    .filter((key) => FILTER_PARAM_PATTERN.test(key) && !allowed.includes(key))
+    .map((key) => ({
+      field: key,
+      message: `Unsupported filter '${key}'; allowed: ${allowed.join(", ")}`,
+      code: "unsupported_filter",
+    }));
+};
@@ -0,0 +1,105 @@
+/**
+ * Mailer port and local implementations.
+ * Production deployments plug in a real transport behind the same interface.
+ */
+
+/**
+ * Outgoing email message.
+ */
+export interface MailMessage {
+  readonly to: string;
+  readonly subject: string;
+  readonly text: string;
+}
+
+/**
+ * Mailer port.
+ * Implementations should throw only for transport failures.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Options for the HTTP mailer.
+ */
+export interface HttpMailerOptions {
+  /** Endpoint that accepts a message as JSON and delivers it */
+  readonly url: string;
+  /** Sent as a bearer token when set */
+  readonly token?: string;
+  /** Fetch override for tests */
+  readonly fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+/**
+ * Create a Mailer that posts each message as JSON (`to`, `subject`,
+ * `text`) to a delivery endpoint, such as a mail provider's webhook.
+ *
+ * @param options - Endpoint and credentials
+ * @returns Mailer that throws when the endpoint does not accept a message
+ */
+export const createHttpMailer = (options: HttpMailerOptions): Mailer => {
+  const send = options.fetch ?? fetch;
+
+  return {
+    async send(message) {
+      const response = await send(options.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.token ?
+            { Authorization: `Bearer ${options.token}` }
+          : {}),
+        },
+        body: JSON.stringify({
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Mail endpoint responded with ${response.status}`);
+      }
+    },
+  };
+};
+
+/**
+ * Create a Mailer that writes messages to the console.
+ * Intended for local development and tests only: messages include
+ * verification tokens.
+ */
+export const createConsoleMailer = (): Mailer => ({
+  async send(message) {
+    console.log(
+      `[mail] to=${message.to} subject="${message.subject}"\n${message.text}`,
+    );
+  },
+});
+
+/**
+ * Create a Mailer that records messages in memory.
+ * Intended for tests.
+ */
+export const createInMemoryMailer = (): Mailer & {
+  readonly sent: readonly MailMessage[];
+  clear: () => void;
+} => {
+  const sent: MailMessage[] = [];
+
+  return {
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+
+    /**
+     * Forget all recorded messages.
+     */
+    clear() {
+      sent.length = 0;
+    },
+  };
+};
@@ -0,0 +1,41 @@
+/**
+ * Opaque token utilities.
+ * High-entropy random tokens that are only ever stored as SHA-256 hashes.
+ */
+
+/**
+ * Number of random bytes in a generated token (256 bits).
+ */
+const TOKEN_BYTES = 32;
+
+/**
+ * Encode bytes as unpadded base64url.
+ */
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/**
+ * Generate a random URL-safe token, optionally prefixed (e.g. "pat_").
+ */
+export const generateOpaqueToken = (prefix = ""): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+  return `${prefix}${toBase64Url(bytes)}`;
+};
+
+/**
+ * Hash a token for storage and lookup (hex-encoded SHA-256).
+ * A fast hash is sufficient because tokens are high-entropy, unlike passwords.
+ */
+export const hashOpaqueToken = async (token: string): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token),
+  );
+
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+};
@@ -0,0 +1,54 @@
+/**
+ * Password hashing - argon2id via Bun.password.
+ */
+
+/**
+ * Password hasher port.
+ * Injected into usecases so tests can lower the work factor.
+ */
+export interface PasswordHasher {
+  /**
+   * Hash a plaintext password. The result embeds algorithm and parameters.
+   */
+  hash(password: string): Promise<string>;
+
+  /**
+   * Check a plaintext password against a stored hash.
+   */
+  verify(password: string, hash: string): Promise<boolean>;
+}
+
+/**
+ * Argon2id cost parameters.
+ * Defaults follow Bun's recommended values.
+ */
+export interface PasswordHasherOptions {
+  /** Memory cost in KiB */
+  readonly memoryCost?: number;
+  /** Number of iterations */
+  readonly timeCost?: number;
+}
+
+/**
+ * Create a PasswordHasher backed by Bun.password (argon2id).
+ */
+export const createPasswordHasher = (
+  options?: PasswordHasherOptions,
+): PasswordHasher => ({
+  hash(password) {
+    return Bun.password.hash(password, {
+      algorithm: "argon2id",
+      memoryCost: options?.memoryCost,
+      timeCost: options?.timeCost,
+    });
+  },
+
+  async verify(password, hash) {
+    try {
+      return await Bun.password.verify(password, hash);
+    } catch {
+      // Malformed hashes are treated as a mismatch
+      return false;
+    }
+  },
+});
@@ -0,0 +1,126 @@
+/**
+ * Request body parsing.
+ * Reads JSON bodies defensively so malformed input becomes a Problem
+ * Details response instead of an unhandled exception.
+ */
+
+import type { Context } from "hono";
+import { type Result, err, ok } from "neverthrow";
+
+import { type ValidationError, validationError } from "../domain/errors";
+import type { PayloadTooLargeError } from "../types/http-error";
+
+/**
+ * Default maximum accepted body size (1 MiB).
+ */
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Options for reading a JSON body.
+ */
+export interface ReadJsonBodyOptions {
+  /** Maximum accepted body size in bytes */
+  readonly maxBytes?: number;
+}
+
+/**
+ * Errors produced while reading a JSON body.
+ */
+export type ReadJsonBodyError = ValidationError | PayloadTooLargeError;
+
+/**
+ * Build a PayloadTooLargeError, naming the limit when known.
+ */
+export const payloadTooLargeError = (
+  limitBytes?: number,
+): PayloadTooLargeError => ({
+  type: "PayloadTooLargeError",
+  message:
+    limitBytes === undefined ?
+      "Request body is too large"
+    : `Request body exceeds the limit of ${limitBytes} bytes`,
+  limitBytes,
+});
+
+/**
+ * Check for `application/json` or a `+json` structured syntax suffix.
+ */
+const isJsonContentType = (contentType: string | undefined): boolean => {
+  const mediaType = contentType?.split(";", 1)[0]?.trim().toLowerCase();
+
+  return (
+    mediaType === "application/json" ||
+    (mediaType?.startsWith("application/") === true &&
+      mediaType.endsWith("+json"))
+  );
+};
+
+/**
+ * Read and parse the request body as a JSON object.
+ * - Non-JSON content types, malformed JSON and non-object payloads yield
+ *   ValidationError (400)
+ * - Bodies over the size limit yield PayloadTooLargeError (413)
+ *
+ * @param c - Hono context
+ * @param options - Size limit override
+ * @returns Result with the parsed (still unvalidated) body
+ */
+export const readJsonBody = async (
+  c: Context,
+  options?: ReadJsonBodyOptions,
+): Promise<Result<Record<string, unknown>, ReadJsonBodyError>> => {
+  const maxBytes = options?.maxBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  if (!isJsonContentType(c.req.header("Content-Type"))) {
+    return err(
+      validationError("Content-Type must be application/json", {
+        field: "Content-Type",
+      }),
+    );
+  }
+
+  // Reject early when the declared length is already too large
+  const declaredLength = Number(c.req.header("Content-Length"));
+
+  if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+    return err(payloadTooLargeError(maxBytes));
+  }
+
+  const text = await c.req.text();
+
+  // The declared length may be absent (chunked) or wrong
+  if (new TextEncoder().encode(text).byteLength > maxBytes) {
+    return err(payloadTooLargeError(maxBytes));
+  }
+
+  if (text.trim() === "") {
+    return err(validationError("Request body is required", { field: "body" }));
+  }
+
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return err(
+      validationError("Malformed JSON in request body", {
+        field: "body",
+        details: [
+          {
+            field: "body",
+            message: error instanceof Error ? error.message : "Invalid JSON",
+            code: "invalid_json",
+          },
+        ],
+      }),
+    );
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return err(
+      validationError("Request body must be a JSON object", { field: "body" }),
+    );
+  }
+
+  return ok(parsed as Record<string, unknown>);
+};
@@ -0,0 +1,53 @@
+/**
+ * Backend harness for repository contract suites.
+ * Each persistence adapter provides one and runs the shared suites with it.
+ */
+
+import type { CommentRepository } from "../../src/repositories/interfaces/comment-repository";
+import type { FollowRepository } from "../../src/repositories/interfaces/follow-repository";
+import type { IdempotencyKeyRepository } from "../../src/repositories/interfaces/idempotency-key-repository";
+import type { JobRepository } from "../../src/repositories/interfaces/job-repository";
+import type { PostRepository } from "../../src/repositories/interfaces/post-repository";
+import type { PostRevisionRepository } from "../../src/repositories/interfaces/post-revision-repository";
+import type { PostSearch } from "../../src/repositories/interfaces/post-search";
+import type { ReactionRepository } from "../../src/repositories/interfaces/reaction-repository";
+import type { TagRepository } from "../../src/repositories/interfaces/tag-repository";
+import type { UserRepository } from "../../src/repositories/interfaces/user-repository";
+import type { UserStatisticsQuery } from "../../src/repositories/interfaces/user-statistics-query";
+
+/**
+ * Repositories under test.
+ */
+export interface ContractRepositories {
+  readonly userRepository: UserRepository;
+  readonly postRepository: PostRepository;
+  readonly postRevisionRepository: PostRevisionRepository;
+  readonly idempotencyKeyRepository: IdempotencyKeyRepository;
+  readonly jobRepository: JobRepository;
+  readonly tagRepository: TagRepository;
+  readonly commentRepository: CommentRepository;
+  readonly reactionRepository: ReactionRepository;
+  readonly followRepository: FollowRepository;
+  readonly userStatisticsQuery: UserStatisticsQuery;
+  readonly postSearch: PostSearch;
+}
+
+/**
+ * A persistence backend the contract suites can run against.
+ */
+export interface ContractBackend {
+  /** Shown in the suite name, e.g. "memory" */
+  readonly name: string;
+  /** Build the repositories; called once before the suites */
+  setup(): Promise<ContractRepositories>;
+  /** Remove every row; called before each test */
+  reset(): Promise<void>;
+  /** Release resources; called once after the suites */
+  teardown(): Promise<void>;
+}
+
+/**
+ * Wait long enough for the next row to get a later createdAt.
+ * Timestamps have millisecond precision.
+ */
+export const nextTick = (): Promise<void> => Bun.sleep(2);
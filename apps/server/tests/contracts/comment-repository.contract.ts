@@ -0,0 +1,210 @@
+/**
+ * CommentRepository contract.
+ * Behaviour every comment repository adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type { CommentRepository } from "../../src/repositories/interfaces/comment-repository";
+import type { ContractBackend, ContractRepositories } from "./backend";
+
+/**
+ * Register the CommentRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describeCommentRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("CommentRepository", () => {
+    let repo: CommentRepository;
+    let authorId: string;
+    let postId: string;
+
+    const createComment = async (content: string, parentId?: string) => {
+      const comment = (
+        await repo.create({ postId, authorId, parentId, content })
+      )._unsafeUnwrap();
+
+      return comment;
+    };
+
+    beforeAll(() => {
+      repo = repositories().commentRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      authorId = (
+        await repositories().userRepository.create({
+          name: "Author",
+          email: "author@example.com",
+        })
+      )._unsafeUnwrap().id;
+      postId = (
+        await repositories().postRepository.create({
+          title: "Post",
+          content: "Content",
+          authorId,
+          status: "published",
+        })
+      )._unsafeUnwrap().id;
+    });
+
+    describe("create", () => {
+      it("should store the comment and be readable by id", async () => {
+        const created = await createComment("First");
+
+        expect(created.postId).toBe(postId);
+        expect(created.parentId).toBeNull();
+        expect(created.authorId).toBe(authorId);
+        expect(created.content).toBe("First");
+        expect(created.deletedAt).toBeNull();
+
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          created,
+        );
+      });
+
+      it("should store a reply under its parent", async () => {
+        const parent = await createComment("Parent");
+        const reply = await createComment("Reply", parent.id);
+
+        expect(reply.parentId).toBe(parent.id);
+      });
+
+      it("should return null for an unknown id", async () => {
+        expect(
+          (await repo.findById(crypto.randomUUID()))._unsafeUnwrap(),
+        ).toBeNull();
+      });
+    });
+
+    describe("update", () => {
+      it("should change the content", async () => {
+        const created = await createComment("First");
+
+        const updated = (
+          await repo.update(created.id, { content: "Edited" })
+        )._unsafeUnwrap();
+
+        expect(updated.content).toBe("Edited");
+        expect(updated.createdAt).toEqual(created.createdAt);
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          updated,
+        );
+      });
+
+      it("should return NotFoundError for an unknown comment", async () => {
+        const result = await repo.update(crypto.randomUUID(), {
+          content: "Nothing",
+        });
+
+        expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+      });
+    });
+
+    describe("soft delete", () => {
+      it("should hide the comment from reads and writes", async () => {
+        const created = await createComment("First");
+
+        (await repo.delete(created.id))._unsafeUnwrap();
+
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toBeNull();
+        expect((await repo.delete(created.id))._unsafeUnwrapErr().type).toBe(
+          "NotFoundError",
+        );
+        expect(
+          (
+            await repo.update(created.id, { content: "Ghost" })
+          )._unsafeUnwrapErr().type,
+        ).toBe("NotFoundError");
+      });
+    });
+
+    describe("findThreadsByPostId", () => {
+      it("should group replies under their top-level comment, oldest first", async () => {
+        const first = await createComment("First");
+        const second = await createComment("Second");
+        const firstReply = await createComment("First reply", first.id);
+        const secondReply = await createComment("Second reply", first.id);
+
+        const page = (
+          await repo.findThreadsByPostId(postId, { limit: 10, offset: 0 })
+        )._unsafeUnwrap();
+
+        expect(page.total).toBe(2);
+        expect(
+          page.threads.map((thread) => ({
+            id: thread.comment.id,
+            replies: thread.replies.map((reply) => reply.id),
+          })),
+        ).toEqual([
+          { id: first.id, replies: [firstReply.id, secondReply.id] },
+          { id: second.id, replies: [] },
+        ]);
+      });
+
+      it("should keep comments created in the same millisecond in creation order", async () => {
+        const created = [];
+        for (let i = 0; i < 20; i++) {
+          created.push(await createComment(`Comment ${i}`));
+        }
+
+        const page = (
+          await repo.findThreadsByPostId(postId, { limit: 20, offset: 0 })
+        )._unsafeUnwrap();
+
+        expect(page.threads.map((thread) => thread.comment.id)).toEqual(
+          created.map((comment) => comment.id),
+        );
+      });
+
+      it("should page by top-level comment", async () => {
+        const first = await createComment("First");
+        await createComment("Reply", first.id);
+        const second = await createComment("Second");
+
+        const page = (
+          await repo.findThreadsByPostId(postId, { limit: 1, offset: 1 })
+        )._unsafeUnwrap();
+
+        expect(page.threads.map((thread) => thread.comment.id)).toEqual([
+          second.id,
+        ]);
+        expect(page.total).toBe(2);
+      });
+
+      it("should keep deleted comments in their thread", async () => {
+        const parent = await createComment("Parent");
+        const reply = await createComment("Reply", parent.id);
+        (await repo.delete(parent.id))._unsafeUnwrap();
+
+        const page = (
+          await repo.findThreadsByPostId(postId, { limit: 10, offset: 0 })
+        )._unsafeUnwrap();
+
+        expect(page.threads[0]?.comment.deletedAt).toBeInstanceOf(Date);
+        expect(page.threads[0]?.replies.map((r) => r.id)).toEqual([reply.id]);
+      });
+
+      it("should only list the given post's comments", async () => {
+        await createComment("Mine");
+
+        const page = (
+          await repo.findThreadsByPostId(crypto.randomUUID(), {
+            limit: 10,
+            offset: 0,
+          })
+        )._unsafeUnwrap();
+
+        expect(page.threads).toEqual([]);
+        expect(page.total).toBe(0);
+      });
+    });
+  });
+};
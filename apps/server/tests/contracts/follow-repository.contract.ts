@@ -0,0 +1,277 @@
+/**
+ * FollowRepository contract.
+ * Behaviour every follow repository adapter must share, including the
+ * order and paging of the feed.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type { FollowRepository } from "../../src/repositories/interfaces/follow-repository";
+import type { PageCursor } from "../../src/repositories/interfaces/pagination";
+import type { Post } from "../../src/repositories/interfaces/post-repository";
+import type { User } from "../../src/repositories/interfaces/user-repository";
+import {
+  type ContractBackend,
+  type ContractRepositories,
+  nextTick,
+} from "./backend";
+
+/**
+ * Register the FollowRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describeFollowRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("FollowRepository", () => {
+    let repo: FollowRepository;
+    let reader: User;
+    let ada: User;
+    let brian: User;
+
+    const createUser = async (name: string) =>
+      (
+        await repositories().userRepository.create({
+          name,
+          email: `${name.toLowerCase()}@example.com`,
+        })
+      )._unsafeUnwrap();
+
+    const createPost = async (
+      title: string,
+      authorId: string,
+      status: "draft" | "published" = "published",
+    ) => {
+      const post = (
+        await repositories().postRepository.create({
+          title,
+          content: "Content",
+          authorId,
+          status,
+        })
+      )._unsafeUnwrap();
+      await nextTick();
+
+      return post;
+    };
+
+    const follow = async (followerId: string, followeeId: string) => {
+      (await repo.follow(followerId, followeeId))._unsafeUnwrap();
+      await nextTick();
+    };
+
+    const cursorAt = (
+      post: Post,
+      direction: PageCursor["direction"],
+    ): PageCursor => ({
+      values: [post.publishedAt!.toISOString()],
+      id: post.id,
+      direction,
+    });
+
+    const titles = (posts: readonly Post[]) => posts.map((post) => post.title);
+
+    beforeAll(() => {
+      repo = repositories().followRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      reader = await createUser("Reader");
+      ada = await createUser("Ada");
+      brian = await createUser("Brian");
+    });
+
+    describe("follow lists", () => {
+      it("should list followers and followed users, most recent first", async () => {
+        await follow(reader.id, ada.id);
+        await follow(brian.id, ada.id);
+        await follow(reader.id, brian.id);
+
+        const followers = (
+          await repo.findFollowers(ada.id, { limit: 10, offset: 0 })
+        )._unsafeUnwrap();
+        const following = (
+          await repo.findFollowing(reader.id, { limit: 10, offset: 0 })
+        )._unsafeUnwrap();
+
+        expect(followers.total).toBe(2);
+        expect(followers.entries.map((entry) => entry.user.id)).toEqual([
+          brian.id,
+          reader.id,
+        ]);
+        expect(followers.entries[0]?.followedAt).toBeInstanceOf(Date);
+        expect(following.entries.map((entry) => entry.user.id)).toEqual([
+          brian.id,
+          ada.id,
+        ]);
+      });
+
+      it("should page with limit and offset", async () => {
+        await follow(reader.id, ada.id);
+        await follow(reader.id, brian.id);
+
+        const page = (
+          await repo.findFollowing(reader.id, { limit: 1, offset: 1 })
+        )._unsafeUnwrap();
+
+        expect(page.entries.map((entry) => entry.user.id)).toEqual([ada.id]);
+        expect(page.total).toBe(2);
+      });
+
+      it("should make follow and unfollow idempotent", async () => {
+        await follow(reader.id, ada.id);
+        await follow(reader.id, ada.id);
+
+        expect(
+          (
+            await repo.findFollowers(ada.id, { limit: 10, offset: 0 })
+          )._unsafeUnwrap().total,
+        ).toBe(1);
+
+        (await repo.unfollow(reader.id, ada.id))._unsafeUnwrap();
+        (await repo.unfollow(reader.id, ada.id))._unsafeUnwrap();
+
+        expect(
+          (
+            await repo.findFollowers(ada.id, { limit: 10, offset: 0 })
+          )._unsafeUnwrap().total,
+        ).toBe(0);
+      });
+
+      it("should leave deleted users out", async () => {
+        await follow(reader.id, ada.id);
+        await follow(brian.id, ada.id);
+        (await repositories().userRepository.delete(brian.id))._unsafeUnwrap();
+
+        const followers = (
+          await repo.findFollowers(ada.id, { limit: 10, offset: 0 })
+        )._unsafeUnwrap();
+
+        expect(followers.entries.map((entry) => entry.user.id)).toEqual([
+          reader.id,
+        ]);
+        expect(followers.total).toBe(1);
+      });
+    });
+
+    describe("findFeed", () => {
+      it("should list published posts by followed authors, latest first", async () => {
+        await follow(reader.id, ada.id);
+        await createPost("Ada old", ada.id);
+        await createPost("Brian", brian.id);
+        await createPost("Ada draft", ada.id, "draft");
+        await createPost("Own", reader.id);
+        const deleted = await createPost("Ada deleted", ada.id);
+        await createPost("Ada new", ada.id);
+        (
+          await repositories().postRepository.delete(deleted.id)
+        )._unsafeUnwrap();
+
+        const feed = (
+          await repo.findFeed(reader.id, { limit: 10 })
+        )._unsafeUnwrap();
+
+        expect(titles(feed.posts)).toEqual(["Ada new", "Ada old"]);
+        expect(feed.hasMore).toBe(false);
+      });
+
+      it("should order by when posts were published, not written", async () => {
+        await follow(reader.id, ada.id);
+        const late = await createPost("Written first", ada.id, "draft");
+        await createPost("Published first", ada.id);
+        (
+          await repositories().postRepository.update(late.id, {
+            status: "published",
+            publishedAt: new Date(),
+          })
+        )._unsafeUnwrap();
+
+        const feed = (
+          await repo.findFeed(reader.id, { limit: 1 })
+        )._unsafeUnwrap();
+        const rest = (
+          await repo.findFeed(reader.id, {
+            limit: 1,
+            cursor: cursorAt(feed.posts[0]!, "next"),
+          })
+        )._unsafeUnwrap();
+
+        expect(titles(feed.posts)).toEqual(["Written first"]);
+        expect(titles(rest.posts)).toEqual(["Published first"]);
+      });
+
+      it("should be empty without follows", async () => {
+        await createPost("Ada", ada.id);
+
+        const feed = (
+          await repo.findFeed(reader.id, { limit: 10 })
+        )._unsafeUnwrap();
+
+        expect(feed.posts).toEqual([]);
+      });
+
+      it("should page forwards and backwards with cursors", async () => {
+        await follow(reader.id, ada.id);
+        await follow(reader.id, brian.id);
+        for (const title of ["1", "2", "3", "4", "5"]) {
+          await createPost(title, title === "3" ? brian.id : ada.id);
+        }
+
+        const first = (
+          await repo.findFeed(reader.id, { limit: 2 })
+        )._unsafeUnwrap();
+        const second = (
+          await repo.findFeed(reader.id, {
+            limit: 2,
+            cursor: cursorAt(first.posts.at(-1)!, "next"),
+          })
+        )._unsafeUnwrap();
+        const last = (
+          await repo.findFeed(reader.id, {
+            limit: 2,
+            cursor: cursorAt(second.posts.at(-1)!, "next"),
+          })
+        )._unsafeUnwrap();
+        const back = (
+          await repo.findFeed(reader.id, {
+            limit: 2,
+            cursor: cursorAt(last.posts[0]!, "prev"),
+          })
+        )._unsafeUnwrap();
+
+        expect(titles(first.posts)).toEqual(["5", "4"]);
+        expect(first.hasMore).toBe(true);
+        expect(titles(second.posts)).toEqual(["3", "2"]);
+        expect(titles(last.posts)).toEqual(["1"]);
+        expect(last.hasMore).toBe(false);
+        expect(titles(back.posts)).toEqual(["3", "2"]);
+        expect(back.hasMore).toBe(true);
+      });
+
+      it("should carry post tags", async () => {
+        await follow(reader.id, ada.id);
+        (
+          await repositories().postRepository.create({
+            title: "Tagged",
+            content: "Content",
+            authorId: ada.id,
+            status: "published",
+            tags: ["bun", "hono"],
+          })
+        )._unsafeUnwrap();
+
+        const feed = (
+          await repo.findFeed(reader.id, { limit: 10 })
+        )._unsafeUnwrap();
+
+        expect(feed.posts[0]?.tags).toEqual(["bun", "hono"]);
+      });
+    });
+  });
+};
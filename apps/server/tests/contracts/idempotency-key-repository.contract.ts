@@ -0,0 +1,157 @@
+/**
+ * IdempotencyKeyRepository contract.
+ * Behaviour every idempotency key repository adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type {
+  IdempotencyKeyRepository,
+  ReserveIdempotencyKeyInput,
+  StoredResponse,
+} from "../../src/repositories/interfaces/idempotency-key-repository";
+import type { ContractBackend, ContractRepositories } from "./backend";
+
+const NOW = new Date("2030-01-01T00:00:00.000Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+const RESPONSE: StoredResponse = {
+  status: 201,
+  body: '{"data":{"id":"post-1"}}',
+  headers: { "Content-Type": "application/json", ETag: '"1"' },
+};
+
+/**
+ * Register the IdempotencyKeyRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describeIdempotencyKeyRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("IdempotencyKeyRepository", () => {
+    let repo: IdempotencyKeyRepository;
+    let userId: string;
+
+    const input = (
+      overrides: Partial<ReserveIdempotencyKeyInput> = {},
+    ): ReserveIdempotencyKeyInput => ({
+      userId,
+      key: "key-1",
+      fingerprint: "fingerprint-1",
+      expiresAt: new Date(NOW.getTime() + HOUR_MS),
+      ...overrides,
+    });
+
+    beforeAll(() => {
+      repo = repositories().idempotencyKeyRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      userId = (
+        await repositories().userRepository.create({
+          name: "Client",
+          email: "client@example.com",
+        })
+      )._unsafeUnwrap().id;
+    });
+
+    describe("reserve", () => {
+      it("should claim an unknown key", async () => {
+        expect((await repo.reserve(input(), NOW))._unsafeUnwrap()).toBeNull();
+      });
+
+      it("should return the in-progress record for a claimed key", async () => {
+        await repo.reserve(input(), NOW);
+
+        const existing = (
+          await repo.reserve(input({ fingerprint: "other" }), NOW)
+        )._unsafeUnwrap();
+
+        expect(existing?.fingerprint).toBe("fingerprint-1");
+        expect(existing?.response).toBeNull();
+      });
+
+      it("should scope keys to the user", async () => {
+        const otherId = (
+          await repositories().userRepository.create({
+            name: "Other",
+            email: "other@example.com",
+          })
+        )._unsafeUnwrap().id;
+
+        await repo.reserve(input(), NOW);
+
+        expect(
+          (await repo.reserve(input({ userId: otherId }), NOW))._unsafeUnwrap(),
+        ).toBeNull();
+      });
+
+      it("should replace an expired record", async () => {
+        await repo.reserve(input(), NOW);
+        await repo.complete(userId, "key-1", RESPONSE);
+
+        const later = new Date(NOW.getTime() + 2 * HOUR_MS);
+        const claimed = await repo.reserve(
+          input({
+            fingerprint: "fingerprint-2",
+            expiresAt: new Date(later.getTime() + HOUR_MS),
+          }),
+          later,
+        );
+
+        expect(claimed._unsafeUnwrap()).toBeNull();
+
+        const existing = (await repo.reserve(input(), later))._unsafeUnwrap();
+        expect(existing?.fingerprint).toBe("fingerprint-2");
+        expect(existing?.response).toBeNull();
+      });
+
+      it("should let exactly one of several racing requests claim a key", async () => {
+        const results = await Promise.all(
+          Array.from({ length: 5 }, () => repo.reserve(input(), NOW)),
+        );
+
+        const claimed = results.filter(
+          (result) => result._unsafeUnwrap() === null,
+        );
+        expect(claimed).toHaveLength(1);
+      });
+    });
+
+    describe("complete", () => {
+      it("should store the response for replays", async () => {
+        await repo.reserve(input(), NOW);
+        (await repo.complete(userId, "key-1", RESPONSE))._unsafeUnwrap();
+
+        const existing = (await repo.reserve(input(), NOW))._unsafeUnwrap();
+
+        expect(existing?.response).toEqual(RESPONSE);
+        expect(existing?.expiresAt).toEqual(input().expiresAt);
+      });
+    });
+
+    describe("release", () => {
+      it("should free an in-progress key", async () => {
+        await repo.reserve(input(), NOW);
+        (await repo.release(userId, "key-1"))._unsafeUnwrap();
+
+        expect((await repo.reserve(input(), NOW))._unsafeUnwrap()).toBeNull();
+      });
+
+      it("should keep a completed key", async () => {
+        await repo.reserve(input(), NOW);
+        await repo.complete(userId, "key-1", RESPONSE);
+        (await repo.release(userId, "key-1"))._unsafeUnwrap();
+
+        const existing = (await repo.reserve(input(), NOW))._unsafeUnwrap();
+        expect(existing?.response).toEqual(RESPONSE);
+      });
+    });
+  });
+};
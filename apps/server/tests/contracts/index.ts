@@ -0,0 +1,60 @@
+/**
+ * Repository contract suites.
+ * Run them against a backend to check it behaves like every other adapter.
+ */
+
+import { afterAll, beforeAll, describe } from "bun:test";
+
+import type { ContractBackend, ContractRepositories } from "./backend";
+import { describeCommentRepositoryContract } from "./comment-repository.contract";
+import { describeFollowRepositoryContract } from "./follow-repository.contract";
+import { describeIdempotencyKeyRepositoryContract } from "./idempotency-key-repository.contract";
+import { describeJobRepositoryContract } from "./job-repository.contract";
+import { describePostRepositoryContract } from "./post-repository.contract";
+import { describePostRevisionRepositoryContract } from "./post-revision-repository.contract";
+import { describePostSearchContract } from "./post-search.contract";
+import { describeReactionRepositoryContract } from "./reaction-repository.contract";
+import { describeTagRepositoryContract } from "./tag-repository.contract";
+import { describeUserRepositoryContract } from "./user-repository.contract";
+import { describeUserStatisticsQueryContract } from "./user-statistics-query.contract";
+
+export type { ContractBackend, ContractRepositories } from "./backend";
+
+/**
+ * Register every repository contract suite for a backend.
+ *
+ * @param backend - Backend under test
+ */
+export const describeRepositoryContracts = (backend: ContractBackend) => {
+  describe(`repository contracts (${backend.name})`, () => {
+    let repositories: ContractRepositories | undefined;
+
+    const getRepositories = (): ContractRepositories => {
+      if (!repositories) {
+        throw new Error(`${backend.name} backend was not set up`);
+      }
+
+      return repositories;
+    };
+
+    beforeAll(async () => {
+      repositories = await backend.setup();
+    });
+
+    afterAll(async () => {
+      await backend.teardown();
+    });
+
+    describeUserRepositoryContract(backend, getRepositories);
+    describePostRepositoryContract(backend, getRepositories);
+    describePostRevisionRepositoryContract(backend, getRepositories);
+    describeIdempotencyKeyRepositoryContract(backend, getRepositories);
+    describeJobRepositoryContract(backend, getRepositories);
+    describeTagRepositoryContract(backend, getRepositories);
+    describeCommentRepositoryContract(backend, getRepositories);
+    describeReactionRepositoryContract(backend, getRepositories);
+    describeFollowRepositoryContract(backend, getRepositories);
+    describeUserStatisticsQueryContract(backend, getRepositories);
+    describePostSearchContract(backend, getRepositories);
+  });
+};
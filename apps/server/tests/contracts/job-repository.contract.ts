@@ -0,0 +1,267 @@
+/**
+ * JobRepository contract.
+ * Behaviour every job queue adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type {
+  ClaimJobsOptions,
+  EnqueueJobInput,
+  JobRepository,
+} from "../../src/repositories/interfaces/job-repository";
+import type { ContractBackend, ContractRepositories } from "./backend";
+
+const NOW = new Date("2030-01-01T00:00:00.000Z");
+const MINUTE_MS = 60 * 1000;
+
+const at = (offsetMs: number): Date => new Date(NOW.getTime() + offsetMs);
+
+/**
+ * Register the JobRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describeJobRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("JobRepository", () => {
+    let repo: JobRepository;
+
+    const input = (overrides: Partial<EnqueueJobInput> = {}) => ({
+      type: "test.job",
+      payload: { value: 1 },
+      runAt: NOW,
+      ...overrides,
+    });
+
+    const claimOptions = (
+      overrides: Partial<ClaimJobsOptions> = {},
+    ): ClaimJobsOptions => ({
+      now: NOW,
+      limit: 10,
+      lockedUntil: at(5 * MINUTE_MS),
+      ...overrides,
+    });
+
+    beforeAll(() => {
+      repo = repositories().jobRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+    });
+
+    describe("enqueue", () => {
+      it("should add a pending job", async () => {
+        const job = (
+          await repo.enqueue(input({ payload: { postId: "post-1" } }))
+        )._unsafeUnwrap();
+
+        expect(job.type).toBe("test.job");
+        expect(job.payload).toEqual({ postId: "post-1" });
+        expect(job.status).toBe("pending");
+        expect(job.runAt).toEqual(NOW);
+        expect(job.attempts).toBe(0);
+        expect(job.maxAttempts).toBe(5);
+        expect(job.lastError).toBeNull();
+        expect(job.lockedUntil).toBeNull();
+
+        const found = (await repo.findById(job.id))._unsafeUnwrap();
+        expect(found).toEqual(job);
+      });
+
+      it("should honour maxAttempts", async () => {
+        const job = (
+          await repo.enqueue(input({ maxAttempts: 2 }))
+        )._unsafeUnwrap();
+
+        expect(job.maxAttempts).toBe(2);
+      });
+    });
+
+    describe("findById", () => {
+      it("should return null for an unknown job", async () => {
+        expect(
+          (await repo.findById(crypto.randomUUID()))._unsafeUnwrap(),
+        ).toBeNull();
+      });
+    });
+
+    describe("claim", () => {
+      it("should claim only due jobs", async () => {
+        const due = (await repo.enqueue(input()))._unsafeUnwrap();
+        await repo.enqueue(input({ runAt: at(MINUTE_MS) }));
+
+        const claimed = (await repo.claim(claimOptions()))._unsafeUnwrap();
+
+        expect(claimed.map((job) => job.id)).toEqual([due.id]);
+        expect(claimed[0]?.status).toBe("running");
+        expect(claimed[0]?.attempts).toBe(1);
+        expect(claimed[0]?.lockedUntil).toEqual(at(5 * MINUTE_MS));
+      });
+
+      it("should claim the earliest jobs first, up to the limit", async () => {
+        const second = (
+          await repo.enqueue(input({ runAt: at(-MINUTE_MS) }))
+        )._unsafeUnwrap();
+        await repo.enqueue(input());
+        const first = (
+          await repo.enqueue(input({ runAt: at(-2 * MINUTE_MS) }))
+        )._unsafeUnwrap();
+
+        const claimed = (
+          await repo.claim(claimOptions({ limit: 2 }))
+        )._unsafeUnwrap();
+
+        expect(claimed.map((job) => job.id)).toEqual([first.id, second.id]);
+      });
+
+      it("should not claim a job twice while its lease holds", async () => {
+        await repo.enqueue(input());
+        await repo.claim(claimOptions());
+
+        const again = (
+          await repo.claim(claimOptions({ now: at(MINUTE_MS) }))
+        )._unsafeUnwrap();
+
+        expect(again).toHaveLength(0);
+      });
+
+      it("should reclaim a job whose lease lapsed", async () => {
+        const job = (await repo.enqueue(input()))._unsafeUnwrap();
+        await repo.claim(claimOptions());
+
+        const reclaimed = (
+          await repo.claim(
+            claimOptions({
+              now: at(6 * MINUTE_MS),
+              lockedUntil: at(11 * MINUTE_MS),
+            }),
+          )
+        )._unsafeUnwrap();
+
+        expect(reclaimed.map((claimedJob) => claimedJob.id)).toEqual([job.id]);
+        expect(reclaimed[0]?.attempts).toBe(2);
+      });
+
+      it("should hand each job to exactly one of several racing workers", async () => {
+        for (let i = 0; i < 5; i++) {
+          await repo.enqueue(input({ payload: { value: i } }));
+        }
+
+        const results = await Promise.all(
+          Array.from({ length: 3 }, () =>
+            repo.claim(claimOptions({ limit: 2 })),
+          ),
+        );
+
+        const ids = results.flatMap((result) =>
+          result._unsafeUnwrap().map((job) => job.id),
+        );
+        expect(ids).toHaveLength(5);
+        expect(new Set(ids).size).toBe(5);
+      });
+    });
+
+    describe("settle", () => {
+      it("should complete a running job", async () => {
+        const job = (await repo.enqueue(input()))._unsafeUnwrap();
+        await repo.claim(claimOptions());
+
+        (await repo.complete(job.id))._unsafeUnwrap();
+
+        const found = (await repo.findById(job.id))._unsafeUnwrap();
+        expect(found?.status).toBe("completed");
+        expect(found?.lockedUntil).toBeNull();
+      });
+
+      it("should return a retried job to pending at the new time", async () => {
+        const job = (await repo.enqueue(input()))._unsafeUnwrap();
+        await repo.claim(claimOptions());
+
+        (await repo.retry(job.id, at(MINUTE_MS), "boom"))._unsafeUnwrap();
+
+        const found = (await repo.findById(job.id))._unsafeUnwrap();
+        expect(found?.status).toBe("pending");
+        expect(found?.runAt).toEqual(at(MINUTE_MS));
+        expect(found?.lastError).toBe("boom");
+        expect(found?.lockedUntil).toBeNull();
+
+        expect((await repo.claim(claimOptions()))._unsafeUnwrap()).toHaveLength(
+          0,
+        );
+        expect(
+          (
+            await repo.claim(claimOptions({ now: at(MINUTE_MS) }))
+          )._unsafeUnwrap(),
+        ).toHaveLength(1);
+      });
+
+      it("should fail a job for good", async () => {
+        const job = (await repo.enqueue(input()))._unsafeUnwrap();
+        await repo.claim(claimOptions());
+
+        (await repo.fail(job.id, "bad payload"))._unsafeUnwrap();
+
+        const found = (await repo.findById(job.id))._unsafeUnwrap();
+        expect(found?.status).toBe("failed");
+        expect(found?.lastError).toBe("bad payload");
+        expect(
+          (
+            await repo.claim(claimOptions({ now: at(60 * MINUTE_MS) }))
+          )._unsafeUnwrap(),
+        ).toHaveLength(0);
+      });
+
+      it("should leave jobs that are not running alone", async () => {
+        const job = (await repo.enqueue(input()))._unsafeUnwrap();
+
+        (await repo.complete(job.id))._unsafeUnwrap();
+
+        const found = (await repo.findById(job.id))._unsafeUnwrap();
+        expect(found?.status).toBe("pending");
+      });
+    });
+
+    describe("purgeSettled", () => {
+      it("should delete completed and failed jobs settled before the cutoff", async () => {
+        const completed = (await repo.enqueue(input()))._unsafeUnwrap();
+        const failed = (await repo.enqueue(input()))._unsafeUnwrap();
+        const pending = (
+          await repo.enqueue(input({ runAt: at(MINUTE_MS) }))
+        )._unsafeUnwrap();
+        await repo.claim(claimOptions());
+        await repo.complete(completed.id);
+        await repo.fail(failed.id, "bad payload");
+
+        const purged = (
+          await repo.purgeSettled(new Date(Date.now() + MINUTE_MS))
+        )._unsafeUnwrap();
+
+        expect(purged).toBe(2);
+        expect((await repo.findById(completed.id))._unsafeUnwrap()).toBeNull();
+        expect((await repo.findById(failed.id))._unsafeUnwrap()).toBeNull();
+        expect(
+          (await repo.findById(pending.id))._unsafeUnwrap(),
+        ).not.toBeNull();
+      });
+
+      it("should keep jobs settled after the cutoff", async () => {
+        const job = (await repo.enqueue(input()))._unsafeUnwrap();
+        await repo.claim(claimOptions());
+        await repo.complete(job.id);
+
+        const purged = (
+          await repo.purgeSettled(new Date(Date.now() - MINUTE_MS))
+        )._unsafeUnwrap();
+
+        expect(purged).toBe(0);
+        expect((await repo.findById(job.id))._unsafeUnwrap()).not.toBeNull();
+      });
+    });
+  });
+};
@@ -0,0 +1,603 @@
+/**
+ * PostRepository contract.
+ * Behaviour every post repository adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type {
+  Post,
+  PostRepository,
+} from "../../src/repositories/interfaces/post-repository";
+import type { User } from "../../src/repositories/interfaces/user-repository";
+import {
+  type ContractBackend,
+  type ContractRepositories,
+  nextTick,
+} from "./backend";
+
+/**
+ * Register the PostRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describePostRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("PostRepository", () => {
+    let repo: PostRepository;
+    let author: User;
+
+    const createPost = async (
+      title: string,
+      authorId = author.id,
+      status: "draft" | "published" = "published",
+    ) => {
+      const result = await repo.create({
+        title,
+        content: `Content of ${title}`,
+        authorId,
+        status,
+      });
+
+      return result._unsafeUnwrap();
+    };
+
+    beforeAll(() => {
+      repo = repositories().postRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      author = (
+        await repositories().userRepository.create({
+          name: "Author",
+          email: "author@example.com",
+        })
+      )._unsafeUnwrap();
+    });
+
+    describe("create", () => {
+      it("should store the post and be readable by id", async () => {
+        const created = await createPost("First");
+
+        expect(created.title).toBe("First");
+        expect(created.content).toBe("Content of First");
+        expect(created.authorId).toBe(author.id);
+        expect(created.deletedAt).toBeNull();
+        expect(created.version).toBe(1);
+
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          created,
+        );
+      });
+
+      it("should create drafts unless asked to publish", async () => {
+        const draft = (
+          await repo.create({
+            title: "Draft",
+            content: "...",
+            authorId: author.id,
+          })
+        )._unsafeUnwrap();
+        const published = await createPost("Published");
+
+        expect(draft.status).toBe("draft");
+        expect(draft.publishedAt).toBeNull();
+        expect(published.status).toBe("published");
+        expect(published.publishedAt).toBeInstanceOf(Date);
+      });
+
+      it("should return null for an unknown id", async () => {
+        expect((await repo.findById("missing"))._unsafeUnwrap()).toBeNull();
+      });
+
+      it("should store tags sorted by name", async () => {
+        const created = (
+          await repo.create({
+            title: "Tagged",
+            content: "...",
+            authorId: author.id,
+            tags: ["hono", "bun"],
+          })
+        )._unsafeUnwrap();
+
+        expect(created.tags).toEqual(["bun", "hono"]);
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          created,
+        );
+        expect((await createPost("Untagged")).tags).toEqual([]);
+      });
+    });
+
+    describe("update", () => {
+      it("should change only the provided fields", async () => {
+        const created = await createPost("First");
+
+        const updated = (
+          await repo.update(created.id, { title: "Renamed" })
+        )._unsafeUnwrap();
+
+        expect(updated.title).toBe("Renamed");
+        expect(updated.content).toBe(created.content);
+        expect(updated.authorId).toBe(created.authorId);
+        expect(updated.createdAt).toEqual(created.createdAt);
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          updated,
+        );
+      });
+
+      it("should store status changes", async () => {
+        const created = await createPost("First", author.id, "draft");
+        const publishedAt = new Date("2030-01-01T00:00:00.000Z");
+
+        const updated = (
+          await repo.update(created.id, { status: "published", publishedAt })
+        )._unsafeUnwrap();
+
+        expect(updated.status).toBe("published");
+        expect(updated.publishedAt).toEqual(publishedAt);
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          updated,
+        );
+      });
+
+      it("should set and clear the publishing schedule", async () => {
+        const created = await createPost("First", author.id, "draft");
+        const publishAt = new Date("2030-01-01T00:00:00.000Z");
+
+        expect(created.publishAt).toBeNull();
+
+        const scheduled = (
+          await repo.update(created.id, { publishAt })
+        )._unsafeUnwrap();
+        expect(scheduled.publishAt).toEqual(publishAt);
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          scheduled,
+        );
+
+        const renamed = (
+          await repo.update(created.id, { title: "Renamed" })
+        )._unsafeUnwrap();
+        expect(renamed.publishAt).toEqual(publishAt);
+
+        const unscheduled = (
+          await repo.update(created.id, { publishAt: null })
+        )._unsafeUnwrap();
+        expect(unscheduled.publishAt).toBeNull();
+      });
+
+      it("should replace tags only when given", async () => {
+        const created = (
+          await repo.create({
+            title: "Tagged",
+            content: "...",
+            authorId: author.id,
+            tags: ["bun", "hono"],
+          })
+        )._unsafeUnwrap();
+
+        const renamed = (
+          await repo.update(created.id, { title: "Renamed" })
+        )._unsafeUnwrap();
+        expect(renamed.tags).toEqual(["bun", "hono"]);
+
+        const retagged = (
+          await repo.update(created.id, { tags: ["hono", "ddd"] })
+        )._unsafeUnwrap();
+        expect(retagged.tags).toEqual(["ddd", "hono"]);
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          retagged,
+        );
+
+        const untagged = (
+          await repo.update(created.id, { tags: [] })
+        )._unsafeUnwrap();
+        expect(untagged.tags).toEqual([]);
+      });
+
+      it("should leave tags alone when a stale update is rejected", async () => {
+        const created = (
+          await repo.create({
+            title: "Tagged",
+            content: "...",
+            authorId: author.id,
+            tags: ["bun"],
+          })
+        )._unsafeUnwrap();
+        await repo.update(created.id, { title: "Theirs" });
+
+        const result = await repo.update(created.id, {
+          tags: ["hono"],
+          expectedVersion: created.version,
+        });
+
+        expect(result._unsafeUnwrapErr().type).toBe("PreconditionFailedError");
+        expect((await repo.findById(created.id))._unsafeUnwrap()?.tags).toEqual(
+          ["bun"],
+        );
+      });
+
+      it("should return NotFoundError for an unknown post", async () => {
+        const result = await repo.update("missing", { title: "Nothing" });
+
+        expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+      });
+
+      it("should increment the version on every update", async () => {
+        const created = await createPost("First");
+
+        await repo.update(created.id, { title: "Renamed" });
+        const updated = (
+          await repo.update(created.id, { content: "Rewritten" })
+        )._unsafeUnwrap();
+
+        expect(updated.version).toBe(3);
+      });
+
+      it("should apply an update whose expected version is current", async () => {
+        const created = await createPost("First");
+
+        const updated = (
+          await repo.update(created.id, {
+            title: "Renamed",
+            expectedVersion: created.version,
+          })
+        )._unsafeUnwrap();
+
+        expect(updated.title).toBe("Renamed");
+        expect(updated.version).toBe(created.version + 1);
+      });
+
+      it("should reject a stale expected version without writing", async () => {
+        const created = await createPost("First");
+        await repo.update(created.id, { title: "Theirs" });
+
+        const result = await repo.update(created.id, {
+          title: "Mine",
+          expectedVersion: created.version,
+        });
+
+        expect(result._unsafeUnwrapErr().type).toBe("PreconditionFailedError");
+        expect((await repo.findById(created.id))._unsafeUnwrap()?.title).toBe(
+          "Theirs",
+        );
+      });
+
+      it("should let only one of two racing updates win", async () => {
+        const created = await createPost("First");
+
+        const results = await Promise.all(
+          ["Mine", "Theirs"].map((title) =>
+            repo.update(created.id, {
+              title,
+              expectedVersion: created.version,
+            }),
+          ),
+        );
+
+        expect(results.filter((result) => result.isOk())).toHaveLength(1);
+        expect(
+          results.find((result) => result.isErr())?._unsafeUnwrapErr().type,
+        ).toBe("PreconditionFailedError");
+      });
+
+      it("should prefer NotFoundError over a version mismatch", async () => {
+        const created = await createPost("First");
+        (await repo.delete(created.id))._unsafeUnwrap();
+
+        const result = await repo.update(created.id, {
+          title: "Renamed",
+          expectedVersion: created.version + 1,
+        });
+
+        expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+      });
+    });
+
+    describe("soft delete", () => {
+      it("should hide the post from reads and totals", async () => {
+        const first = await createPost("First");
+        await createPost("Second");
+
+        (await repo.delete(first.id))._unsafeUnwrap();
+
+        expect((await repo.findById(first.id))._unsafeUnwrap()).toBeNull();
+
+        const page = (await repo.findAll({ limit: 10 }))._unsafeUnwrap();
+        expect(page.posts.map((post) => post.title)).toEqual(["Second"]);
+        expect(page.total).toBe(1);
+      });
+
+      it("should treat a deleted post as missing for writes", async () => {
+        const post = await createPost("First");
+        (await repo.delete(post.id))._unsafeUnwrap();
+
+        expect((await repo.delete(post.id))._unsafeUnwrapErr().type).toBe(
+          "NotFoundError",
+        );
+        expect(
+          (await repo.update(post.id, { title: "Ghost" }))._unsafeUnwrapErr()
+            .type,
+        ).toBe("NotFoundError");
+      });
+
+      it("should still be found including deleted", async () => {
+        const post = await createPost("First");
+        (await repo.delete(post.id))._unsafeUnwrap();
+
+        const found = (
+          await repo.findByIdIncludingDeleted(post.id)
+        )._unsafeUnwrap();
+
+        expect(found?.id).toBe(post.id);
+        expect(found?.deletedAt).toBeInstanceOf(Date);
+      });
+    });
+
+    describe("restore", () => {
+      it("should make a deleted post visible again with a new version", async () => {
+        const post = (
+          await repo.create({
+            title: "First",
+            content: "Content",
+            authorId: author.id,
+            status: "published",
+            tags: ["bun"],
+          })
+        )._unsafeUnwrap();
+        (await repo.delete(post.id))._unsafeUnwrap();
+
+        const restored = (await repo.restore(post.id))._unsafeUnwrap();
+
+        expect(restored.deletedAt).toBeNull();
+        expect(restored.version).toBe(post.version + 1);
+        expect(restored.tags).toEqual(["bun"]);
+        expect((await repo.findById(post.id))._unsafeUnwrap()).toEqual(
+          restored,
+        );
+      });
+
+      it("should return NotFoundError unless the post is deleted", async () => {
+        const post = await createPost("First");
+
+        expect((await repo.restore(post.id))._unsafeUnwrapErr().type).toBe(
+          "NotFoundError",
+        );
+        expect(
+          (await repo.restore(crypto.randomUUID()))._unsafeUnwrapErr().type,
+        ).toBe("NotFoundError");
+      });
+    });
+
+    describe("purge", () => {
+      it("should hard delete posts deleted before the cutoff only", async () => {
+        const old = await createPost("Old");
+        const kept = await createPost("Kept");
+        const comment = (
+          await repositories().commentRepository.create({
+            postId: old.id,
+            authorId: author.id,
+            content: "Gone with the post",
+          })
+        )._unsafeUnwrap();
+        (await repo.delete(old.id))._unsafeUnwrap();
+
+        expect(
+          (await repo.purge(new Date(Date.now() - 60_000)))._unsafeUnwrap(),
+        ).toBe(0);
+        expect(
+          (await repo.purge(new Date(Date.now() + 60_000)))._unsafeUnwrap(),
+        ).toBe(1);
+
+        expect(
+          (await repo.findByIdIncludingDeleted(old.id))._unsafeUnwrap(),
+        ).toBeNull();
+        expect((await repo.findById(kept.id))._unsafeUnwrap()?.id).toBe(
+          kept.id,
+        );
+        expect(
+          (
+            await repositories().commentRepository.findById(comment.id)
+          )._unsafeUnwrap(),
+        ).toBeNull();
+      });
+    });
+
+    describe("findAll", () => {
+      const createInOrder = async (titles: string[]): Promise<Post[]> => {
+        const created: Post[] = [];
+
+        for (const title of titles) {
+          created.push(await createPost(title));
+          await nextTick();
+        }
+
+        return created;
+      };
+
+      it("should order by createdAt ascending by default", async () => {
+        await createInOrder(["Charlie", "Alpha", "Bravo"]);
+
+        const page = (await repo.findAll({ limit: 10 }))._unsafeUnwrap();
+
+        expect(page.posts.map((post) => post.title)).toEqual([
+          "Charlie",
+          "Alpha",
+          "Bravo",
+        ]);
+      });
+
+      it("should report the total independently of the page", async () => {
+        await createInOrder(["One", "Two", "Three"]);
+
+        const first = (await repo.findAll({ limit: 2 }))._unsafeUnwrap();
+        expect(first.posts).toHaveLength(2);
+        expect(first.total).toBe(3);
+        expect(first.hasMore).toBe(true);
+
+        const last = (
+          await repo.findAll({ limit: 2, offset: 2 })
+        )._unsafeUnwrap();
+        expect(last.posts.map((post) => post.title)).toEqual(["Three"]);
+        expect(last.total).toBe(3);
+        expect(last.hasMore).toBe(false);
+      });
+
+      it("should read backwards from a cursor", async () => {
+        const created = await createInOrder(["One", "Two", "Three"]);
+        const anchor = created[2]!;
+
+        const page = (
+          await repo.findAll({
+            limit: 1,
+            cursor: {
+              values: [anchor.createdAt.toISOString()],
+              id: anchor.id,
+              direction: "prev",
+            },
+          })
+        )._unsafeUnwrap();
+
+        expect(page.posts.map((post) => post.title)).toEqual(["Two"]);
+        expect(page.hasMore).toBe(true);
+      });
+
+      it("should page by updatedAt through cursors without repeats", async () => {
+        await createInOrder(["One", "Two", "Three"]);
+
+        const sort = [{ field: "updatedAt", direction: "asc" } as const];
+        const seen: string[] = [];
+        let page = (await repo.findAll({ limit: 1, sort }))._unsafeUnwrap();
+        seen.push(...page.posts.map((post) => post.title));
+
+        while (page.hasMore) {
+          const last = page.posts.at(-1)!;
+          page = (
+            await repo.findAll({
+              limit: 1,
+              sort,
+              cursor: {
+                values: [last.updatedAt.toISOString()],
+                id: last.id,
+                direction: "next",
+              },
+            })
+          )._unsafeUnwrap();
+          seen.push(...page.posts.map((post) => post.title));
+        }
+
+        expect(seen).toEqual(["One", "Two", "Three"]);
+      });
+
+      it("should filter by author and count only matching posts", async () => {
+        const other = (
+          await repositories().userRepository.create({
+            name: "Other",
+            email: "other@example.com",
+          })
+        )._unsafeUnwrap();
+
+        await createPost("Mine");
+        await createPost("Theirs", other.id);
+
+        const page = (
+          await repo.findAll({ limit: 10, authorId: other.id })
+        )._unsafeUnwrap();
+
+        expect(page.posts.map((post) => post.title)).toEqual(["Theirs"]);
+        expect(page.total).toBe(1);
+      });
+
+      it("should filter by tag and count only matching posts", async () => {
+        const tagged = async (title: string, tags: string[]) =>
+          (
+            await repo.create({
+              title,
+              content: "...",
+              authorId: author.id,
+              status: "published",
+              tags,
+            })
+          )._unsafeUnwrap();
+
+        await tagged("Both", ["bun", "hono"]);
+        await tagged("Bun only", ["bun"]);
+        await createPost("Untagged");
+
+        const page = (
+          await repo.findAll({ limit: 10, tag: "hono" })
+        )._unsafeUnwrap();
+
+        expect(page.posts.map((post) => post.title)).toEqual(["Both"]);
+        expect(page.posts[0]?.tags).toEqual(["bun", "hono"]);
+        expect(page.total).toBe(1);
+      });
+
+      it("should list drafts and archived posts only to their author", async () => {
+        const other = (
+          await repositories().userRepository.create({
+            name: "Other",
+            email: "other@example.com",
+          })
+        )._unsafeUnwrap();
+
+        await createPost("Published");
+        await createPost("Draft", author.id, "draft");
+        const archived = await createPost("Archived");
+        await repo.update(archived.id, { status: "archived" });
+
+        const titles = async (viewerId?: string) =>
+          (await repo.findAll({ limit: 10, viewerId }))
+            ._unsafeUnwrap()
+            .posts.map((post) => post.title)
+            .sort();
+
+        expect(await titles()).toEqual(["Published"]);
+        expect(await titles(other.id)).toEqual(["Published"]);
+        expect(await titles(author.id)).toEqual([
+          "Archived",
+          "Draft",
+          "Published",
+        ]);
+      });
+
+      it("should filter by status", async () => {
+        await createPost("Published");
+        await createPost("Draft", author.id, "draft");
+
+        const page = (
+          await repo.findAll({
+            limit: 10,
+            viewerId: author.id,
+            status: "draft",
+          })
+        )._unsafeUnwrap();
+
+        expect(page.posts.map((post) => post.title)).toEqual(["Draft"]);
+        expect(page.total).toBe(1);
+      });
+
+      it("should sort by title when asked", async () => {
+        await createInOrder(["Charlie", "Alpha", "Bravo"]);
+
+        const page = (
+          await repo.findAll({
+            limit: 10,
+            sort: [{ field: "title", direction: "desc" }],
+          })
+        )._unsafeUnwrap();
+
+        expect(page.posts.map((post) => post.title)).toEqual([
+          "Charlie",
+          "Bravo",
+          "Alpha",
+        ]);
+      });
+    });
+  });
+};
@@ -0,0 +1,116 @@
+/**
+ * PostRevisionRepository contract.
+ * Behaviour every post revision repository adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type { PostRevisionRepository } from "../../src/repositories/interfaces/post-revision-repository";
+import type { ContractBackend, ContractRepositories } from "./backend";
+
+/**
+ * Register the PostRevisionRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describePostRevisionRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("PostRevisionRepository", () => {
+    let repo: PostRevisionRepository;
+    let editorId: string;
+    let postId: string;
+
+    const createRevision = async (revision: number, id = postId) =>
+      (
+        await repo.create({
+          postId: id,
+          revision,
+          title: `Title ${revision}`,
+          content: `Content ${revision}`,
+          editorId,
+        })
+      )._unsafeUnwrap();
+
+    beforeAll(() => {
+      repo = repositories().postRevisionRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      editorId = (
+        await repositories().userRepository.create({
+          name: "Editor",
+          email: "editor@example.com",
+        })
+      )._unsafeUnwrap().id;
+      postId = (
+        await repositories().postRepository.create({
+          title: "Post",
+          content: "Content",
+          authorId: editorId,
+        })
+      )._unsafeUnwrap().id;
+    });
+
+    describe("create", () => {
+      it("should store the revision and be readable by number", async () => {
+        const created = await createRevision(1);
+
+        expect(created.postId).toBe(postId);
+        expect(created.revision).toBe(1);
+        expect(created.title).toBe("Title 1");
+        expect(created.content).toBe("Content 1");
+        expect(created.editorId).toBe(editorId);
+        expect(created.createdAt).toBeInstanceOf(Date);
+
+        expect((await repo.findByRevision(postId, 1))._unsafeUnwrap()).toEqual(
+          created,
+        );
+      });
+    });
+
+    describe("findByRevision", () => {
+      it("should return null for an unknown revision", async () => {
+        await createRevision(1);
+
+        expect(
+          (await repo.findByRevision(postId, 2))._unsafeUnwrap(),
+        ).toBeNull();
+      });
+    });
+
+    describe("findAllByPostId", () => {
+      it("should list the post's revisions newest first", async () => {
+        const otherPostId = (
+          await repositories().postRepository.create({
+            title: "Other",
+            content: "Content",
+            authorId: editorId,
+          })
+        )._unsafeUnwrap().id;
+
+        await createRevision(1);
+        await createRevision(3);
+        await createRevision(2);
+        await createRevision(1, otherPostId);
+
+        const revisions = (await repo.findAllByPostId(postId))._unsafeUnwrap();
+
+        expect(revisions.map((revision) => revision.revision)).toEqual([
+          3, 2, 1,
+        ]);
+      });
+
+      it("should return an empty list for a post without revisions", async () => {
+        expect((await repo.findAllByPostId(postId))._unsafeUnwrap()).toEqual(
+          [],
+        );
+      });
+    });
+  });
+};
@@ -0,0 +1,132 @@
+/**
+ * PostSearch contract.
+ * Behaviour every search adapter must share. Ranks and snippet boundaries
+ * differ between backends, so only their order and markup are compared.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type { PostSearch } from "../../src/repositories/interfaces/post-search";
+import type { ContractBackend, ContractRepositories } from "./backend";
+
+/**
+ * Register the PostSearch contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describePostSearchContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("PostSearch", () => {
+    let postSearch: PostSearch;
+    let authorId: string;
+
+    const createPost = async (
+      title: string,
+      content: string,
+      status: "draft" | "published" = "published",
+    ) =>
+      (
+        await repositories().postRepository.create({
+          title,
+          content,
+          authorId,
+          status,
+        })
+      )._unsafeUnwrap();
+
+    const search = async (query: string, limit = 10, offset = 0) =>
+      (await postSearch.search({ query, limit, offset }))._unsafeUnwrap();
+
+    beforeAll(() => {
+      postSearch = repositories().postSearch;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      authorId = (
+        await repositories().userRepository.create({
+          name: "Author",
+          email: "author@example.com",
+        })
+      )._unsafeUnwrap().id;
+    });
+
+    it("should rank title matches above content matches", async () => {
+      await createPost("Cooking notes", "A short guide to Hono middleware.");
+      await createPost("Hono in production", "Deploying a web framework.");
+      await createPost("Gardening", "Nothing relevant here.");
+
+      const result = await search("hono");
+
+      expect(result.total).toBe(2);
+      expect(result.hits.map((hit) => hit.post.title)).toEqual([
+        "Hono in production",
+        "Cooking notes",
+      ]);
+      expect(result.hits[0]!.rank).toBeGreaterThan(result.hits[1]!.rank);
+    });
+
+    it("should require every term to match", async () => {
+      await createPost("Bun and Hono", "Fast servers.");
+      await createPost("Bun only", "Fast scripts.");
+
+      const result = await search("hono bun");
+
+      expect(result.hits.map((hit) => hit.post.title)).toEqual([
+        "Bun and Hono",
+      ]);
+    });
+
+    it("should highlight matches in an HTML-escaped snippet", async () => {
+      await createPost(
+        "Markup",
+        "Render <b>bold</b> text with Hono & friends.",
+      );
+
+      const [hit] = (await search("hono")).hits;
+
+      expect(hit!.snippet).toContain("<mark>Hono</mark>");
+      expect(hit!.snippet).toContain("&lt;b&gt;bold&lt;/b&gt;");
+      expect(hit!.snippet).toContain("&amp; friends");
+    });
+
+    it("should only search published posts that are not deleted", async () => {
+      await createPost("Hono draft", "Unpublished.", "draft");
+      const deleted = await createPost("Hono deleted", "Gone.");
+      (await repositories().postRepository.delete(deleted.id))._unsafeUnwrap();
+
+      const result = await search("hono");
+
+      expect(result).toEqual({ hits: [], total: 0 });
+    });
+
+    it("should find a post by its updated content", async () => {
+      const post = await createPost("Notes", "Nothing yet.");
+      (
+        await repositories().postRepository.update(post.id, {
+          content: "Now about Hono.",
+        })
+      )._unsafeUnwrap();
+
+      const result = await search("hono");
+
+      expect(result.hits.map((hit) => hit.post.id)).toEqual([post.id]);
+    });
+
+    it("should page with limit and offset", async () => {
+      for (let i = 0; i < 3; i++) {
+        await createPost(`Hono ${i}`, "Content");
+      }
+
+      const result = await search("hono", 2, 2);
+
+      expect(result.hits).toHaveLength(1);
+      expect(result.total).toBe(3);
+    });
+  });
+};
@@ -0,0 +1,150 @@
+/**
+ * ReactionRepository contract.
+ * Behaviour every reaction repository adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type { ReactionRepository } from "../../src/repositories/interfaces/reaction-repository";
+import type { ContractBackend, ContractRepositories } from "./backend";
+
+/**
+ * Register the ReactionRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describeReactionRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("ReactionRepository", () => {
+    let repo: ReactionRepository;
+    let userIds: string[];
+    let postId: string;
+
+    const summarize = async (viewerId?: string, id = postId) =>
+      (await repo.summarize([id], viewerId))._unsafeUnwrap().get(id);
+
+    beforeAll(() => {
+      repo = repositories().reactionRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      userIds = [];
+      for (const name of ["Ada", "Brian", "Cleo"]) {
+        const user = await repositories().userRepository.create({
+          name,
+          email: `${name.toLowerCase()}@example.com`,
+        });
+        userIds.push(user._unsafeUnwrap().id);
+      }
+
+      postId = (
+        await repositories().postRepository.create({
+          title: "Post",
+          content: "Content",
+          authorId: userIds[0]!,
+          status: "published",
+        })
+      )._unsafeUnwrap().id;
+    });
+
+    it("should report zero counts for a post without reactions", async () => {
+      expect(await summarize(userIds[0])).toEqual({
+        counts: { like: 0, celebrate: 0, insightful: 0 },
+        mine: [],
+      });
+    });
+
+    it("should count reactions per kind and list the viewer's own", async () => {
+      const [ada, brian] = userIds as [string, string];
+
+      (await repo.add({ postId, userId: ada, kind: "like" }))._unsafeUnwrap();
+      (
+        await repo.add({ postId, userId: ada, kind: "insightful" })
+      )._unsafeUnwrap();
+      (await repo.add({ postId, userId: brian, kind: "like" }))._unsafeUnwrap();
+
+      expect(await summarize(ada)).toEqual({
+        counts: { like: 2, celebrate: 0, insightful: 1 },
+        mine: ["like", "insightful"],
+      });
+      expect((await summarize(brian))?.mine).toEqual(["like"]);
+      expect((await summarize())?.mine).toEqual([]);
+    });
+
+    it("should hold at most one reaction of each kind per user", async () => {
+      const reaction = { postId, userId: userIds[0]!, kind: "like" as const };
+
+      (await repo.add(reaction))._unsafeUnwrap();
+      (await repo.add(reaction))._unsafeUnwrap();
+
+      expect((await summarize())?.counts.like).toBe(1);
+    });
+
+    it("should remove a reaction and ignore removing a missing one", async () => {
+      const reaction = { postId, userId: userIds[0]!, kind: "like" as const };
+      (await repo.add(reaction))._unsafeUnwrap();
+
+      (await repo.remove(reaction))._unsafeUnwrap();
+      (await repo.remove(reaction))._unsafeUnwrap();
+
+      expect((await summarize(reaction.userId))?.counts.like).toBe(0);
+      expect((await summarize(reaction.userId))?.mine).toEqual([]);
+    });
+
+    it("should keep counts exact under concurrent toggling", async () => {
+      // Every user adds "like" several times at once, and the first user
+      // also removes "celebrate" it never had
+      await Promise.all(
+        userIds.flatMap((userId) => [
+          repo.add({ postId, userId, kind: "like" }),
+          repo.add({ postId, userId, kind: "like" }),
+          repo.add({ postId, userId, kind: "like" }),
+          repo.remove({ postId, userId, kind: "celebrate" }),
+        ]),
+      );
+
+      expect((await summarize())?.counts).toEqual({
+        like: userIds.length,
+        celebrate: 0,
+        insightful: 0,
+      });
+    });
+
+    it("should summarize several posts at once", async () => {
+      const otherId = (
+        await repositories().postRepository.create({
+          title: "Other",
+          content: "Content",
+          authorId: userIds[0]!,
+          status: "published",
+        })
+      )._unsafeUnwrap().id;
+      (
+        await repo.add({
+          postId: otherId,
+          userId: userIds[1]!,
+          kind: "celebrate",
+        })
+      )._unsafeUnwrap();
+
+      const summaries = (
+        await repo.summarize([postId, otherId], userIds[1])
+      )._unsafeUnwrap();
+
+      expect(summaries.get(postId)?.counts.celebrate).toBe(0);
+      expect(summaries.get(otherId)).toEqual({
+        counts: { like: 0, celebrate: 1, insightful: 0 },
+        mine: ["celebrate"],
+      });
+      expect((await repo.summarize([], userIds[1]))._unsafeUnwrap().size).toBe(
+        0,
+      );
+    });
+  });
+};
@@ -0,0 +1,105 @@
+/**
+ * TagRepository contract.
+ * Behaviour every tag repository adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type { TagRepository } from "../../src/repositories/interfaces/tag-repository";
+import type { ContractBackend, ContractRepositories } from "./backend";
+
+/**
+ * Register the TagRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describeTagRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("TagRepository", () => {
+    let repo: TagRepository;
+    let authorId: string;
+
+    const createPost = async (
+      tags: string[],
+      status: "draft" | "published" = "published",
+    ) =>
+      (
+        await repositories().postRepository.create({
+          title: "Post",
+          content: "Content",
+          authorId,
+          status,
+          tags,
+        })
+      )._unsafeUnwrap();
+
+    beforeAll(() => {
+      repo = repositories().tagRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      authorId = (
+        await repositories().userRepository.create({
+          name: "Author",
+          email: "author@example.com",
+        })
+      )._unsafeUnwrap().id;
+    });
+
+    describe("findUsage", () => {
+      it("should count posts per tag, most used first", async () => {
+        await createPost(["bun", "hono"]);
+        await createPost(["hono"]);
+        await createPost(["ddd", "hono"]);
+
+        expect((await repo.findUsage({ limit: 10 }))._unsafeUnwrap()).toEqual([
+          { name: "hono", count: 3 },
+          { name: "bun", count: 1 },
+          { name: "ddd", count: 1 },
+        ]);
+      });
+
+      it("should honour the limit", async () => {
+        await createPost(["bun", "hono"]);
+        await createPost(["hono"]);
+
+        expect((await repo.findUsage({ limit: 1 }))._unsafeUnwrap()).toEqual([
+          { name: "hono", count: 2 },
+        ]);
+      });
+
+      it("should count only published, non-deleted posts", async () => {
+        await createPost(["bun"]);
+        await createPost(["draft-only"], "draft");
+        const deleted = await createPost(["bun", "gone"]);
+        (
+          await repositories().postRepository.delete(deleted.id)
+        )._unsafeUnwrap();
+
+        expect((await repo.findUsage({ limit: 10 }))._unsafeUnwrap()).toEqual([
+          { name: "bun", count: 1 },
+        ]);
+      });
+
+      it("should drop tags removed from their posts", async () => {
+        const post = await createPost(["bun", "hono"]);
+
+        (
+          await repositories().postRepository.update(post.id, {
+            tags: ["hono"],
+          })
+        )._unsafeUnwrap();
+
+        expect((await repo.findUsage({ limit: 10 }))._unsafeUnwrap()).toEqual([
+          { name: "hono", count: 1 },
+        ]);
+      });
+    });
+  });
+};
@@ -0,0 +1,518 @@
+/**
+ * UserRepository contract.
+ * Behaviour every user repository adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type {
+  User,
+  UserRepository,
+} from "../../src/repositories/interfaces/user-repository";
+import {
+  type ContractBackend,
+  type ContractRepositories,
+  nextTick,
+} from "./backend";
+
+/**
+ * Register the UserRepository contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describeUserRepositoryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("UserRepository", () => {
+    let repo: UserRepository;
+
+    const createUser = async (name: string): Promise<User> => {
+      const result = await repo.create({
+        name,
+        email: `${name.toLowerCase().replaceAll(" ", "-")}@example.com`,
+      });
+
+      return result._unsafeUnwrap();
+    };
+
+    beforeAll(() => {
+      repo = repositories().userRepository;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+    });
+
+    describe("create", () => {
+      it("should apply defaults and be readable by id and email", async () => {
+        const created = await createUser("Alice");
+
+        expect(created.role).toBe("user");
+        expect(created.image).toBeNull();
+        expect(created.emailVerified).toBeNull();
+        expect(created.deletedAt).toBeNull();
+        expect(created.createdAt).toBeInstanceOf(Date);
+        expect(created.version).toBe(1);
+
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          created,
+        );
+        expect(
+          (await repo.findByEmail("alice@example.com"))._unsafeUnwrap(),
+        ).toEqual(created);
+      });
+
+      it("should return null for unknown ids and emails", async () => {
+        expect((await repo.findById("missing"))._unsafeUnwrap()).toBeNull();
+        expect(
+          (await repo.findByEmail("missing@example.com"))._unsafeUnwrap(),
+        ).toBeNull();
+      });
+
+      it("should reject a duplicate email with ConflictError", async () => {
+        await createUser("Alice");
+
+        const result = await repo.create({
+          name: "Other Alice",
+          email: "alice@example.com",
+        });
+
+        const error = result._unsafeUnwrapErr();
+        expect(error.type).toBe("ConflictError");
+        expect(error.type === "ConflictError" && error.conflictReason).toBe(
+          "duplicate_email",
+        );
+      });
+    });
+
+    describe("update", () => {
+      it("should change only the provided fields", async () => {
+        const created = await createUser("Alice");
+
+        const updated = (
+          await repo.update(created.id, { name: "Alice Smith" })
+        )._unsafeUnwrap();
+
+        expect(updated.name).toBe("Alice Smith");
+        expect(updated.email).toBe(created.email);
+        expect(updated.role).toBe(created.role);
+        expect(updated.createdAt).toEqual(created.createdAt);
+        expect(updated.updatedAt.getTime()).toBeGreaterThanOrEqual(
+          created.updatedAt.getTime(),
+        );
+        expect((await repo.findById(created.id))._unsafeUnwrap()).toEqual(
+          updated,
+        );
+      });
+
+      it("should clear nullable fields set to null", async () => {
+        const created = (
+          await repo.create({
+            name: "Alice",
+            email: "alice@example.com",
+            image: "https://example.com/alice.png",
+          })
+        )._unsafeUnwrap();
+
+        const updated = (
+          await repo.update(created.id, { image: null })
+        )._unsafeUnwrap();
+
+        expect(updated.image).toBeNull();
+      });
+
+      it("should increment the version when the expected one is current", async () => {
+        const created = await createUser("Alice");
+
+        const updated = (
+          await repo.update(created.id, {
+            name: "Alice Smith",
+            expectedVersion: created.version,
+          })
+        )._unsafeUnwrap();
+
+        expect(updated.version).toBe(created.version + 1);
+      });
+
+      it("should reject a stale expected version without writing", async () => {
+        const created = await createUser("Alice");
+        await repo.update(created.id, { name: "Theirs" });
+
+        const result = await repo.update(created.id, {
+          name: "Mine",
+          expectedVersion: created.version,
+        });
+
+        expect(result._unsafeUnwrapErr().type).toBe("PreconditionFailedError");
+        expect((await repo.findById(created.id))._unsafeUnwrap()?.name).toBe(
+          "Theirs",
+        );
+      });
+
+      it("should reject an email taken by another user", async () => {
+        await createUser("Alice");
+        const bob = await createUser("Bob");
+
+        const result = await repo.update(bob.id, {
+          email: "alice@example.com",
+        });
+
+        expect(result._unsafeUnwrapErr().type).toBe("ConflictError");
+      });
+
+      it("should return NotFoundError for an unknown user", async () => {
+        const result = await repo.update("missing", { name: "Nobody" });
+
+        expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+      });
+    });
+
+    describe("soft delete", () => {
+      it("should hide the user from every read", async () => {
+        const alice = await createUser("Alice");
+        await createUser("Bob");
+
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        expect((await repo.findById(alice.id))._unsafeUnwrap()).toBeNull();
+        expect(
+          (await repo.findByEmail(alice.email))._unsafeUnwrap(),
+        ).toBeNull();
+
+        const page = (await repo.findAll({ limit: 10 }))._unsafeUnwrap();
+        expect(page.users.map((user) => user.name)).toEqual(["Bob"]);
+        expect(page.total).toBe(1);
+      });
+
+      it("should treat a deleted user as missing for writes", async () => {
+        const alice = await createUser("Alice");
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        expect((await repo.delete(alice.id))._unsafeUnwrapErr().type).toBe(
+          "NotFoundError",
+        );
+        expect(
+          (await repo.update(alice.id, { name: "Ghost" }))._unsafeUnwrapErr()
+            .type,
+        ).toBe("NotFoundError");
+      });
+
+      it("should release the email for a new user", async () => {
+        const alice = await createUser("Alice");
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        const result = await repo.create({
+          name: "New Alice",
+          email: alice.email,
+        });
+
+        expect(result._unsafeUnwrap().id).not.toBe(alice.id);
+      });
+
+      it("should still be found including deleted", async () => {
+        const alice = await createUser("Alice");
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        const found = (
+          await repo.findByIdIncludingDeleted(alice.id)
+        )._unsafeUnwrap();
+
+        expect(found?.id).toBe(alice.id);
+        expect(found?.deletedAt).toBeInstanceOf(Date);
+        expect(
+          (await repo.findByIdIncludingDeleted("missing"))._unsafeUnwrap(),
+        ).toBeNull();
+      });
+    });
+
+    describe("restore", () => {
+      it("should make a deleted user active again with a new version", async () => {
+        const alice = await createUser("Alice");
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        const restored = (await repo.restore(alice.id))._unsafeUnwrap();
+
+        expect(restored.deletedAt).toBeNull();
+        expect(restored.version).toBe(alice.version + 1);
+        expect((await repo.findById(alice.id))._unsafeUnwrap()).toEqual(
+          restored,
+        );
+      });
+
+      it("should return NotFoundError unless the user is deleted", async () => {
+        const alice = await createUser("Alice");
+
+        expect((await repo.restore(alice.id))._unsafeUnwrapErr().type).toBe(
+          "NotFoundError",
+        );
+        expect((await repo.restore("missing"))._unsafeUnwrapErr().type).toBe(
+          "NotFoundError",
+        );
+      });
+
+      it("should return ConflictError when the email was taken since", async () => {
+        const alice = await createUser("Alice");
+        (await repo.delete(alice.id))._unsafeUnwrap();
+        (
+          await repo.create({ name: "New Alice", email: alice.email })
+        )._unsafeUnwrap();
+
+        const result = await repo.restore(alice.id);
+
+        expect(result._unsafeUnwrapErr().type).toBe("ConflictError");
+        expect(
+          (await repo.findByIdIncludingDeleted(alice.id))._unsafeUnwrap()
+            ?.deletedAt,
+        ).toBeInstanceOf(Date);
+      });
+    });
+
+    describe("purge", () => {
+      it("should hard delete users deleted before the cutoff", async () => {
+        const alice = await createUser("Alice");
+        const bob = await createUser("Bob");
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        const purged = (
+          await repo.purge(new Date(Date.now() + 60_000))
+        )._unsafeUnwrap();
+
+        expect(purged).toBe(1);
+        expect(
+          (await repo.findByIdIncludingDeleted(alice.id))._unsafeUnwrap(),
+        ).toBeNull();
+        expect((await repo.findById(bob.id))._unsafeUnwrap()?.id).toBe(bob.id);
+      });
+
+      it("should take the purged user's posts and reactions and hide their comments", async () => {
+        const alice = await createUser("Alice");
+        const bob = await createUser("Bob");
+        const { postRepository, commentRepository, reactionRepository } =
+          repositories();
+        const own = (
+          await postRepository.create({
+            title: "Mine",
+            content: "Content",
+            authorId: alice.id,
+            status: "published",
+          })
+        )._unsafeUnwrap();
+        const other = (
+          await postRepository.create({
+            title: "Theirs",
+            content: "Content",
+            authorId: bob.id,
+            status: "published",
+          })
+        )._unsafeUnwrap();
+        const comment = (
+          await commentRepository.create({
+            postId: other.id,
+            authorId: alice.id,
+            content: "Nice",
+          })
+        )._unsafeUnwrap();
+        (
+          await reactionRepository.add({
+            postId: other.id,
+            userId: alice.id,
+            kind: "like",
+          })
+        )._unsafeUnwrap();
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        (await repo.purge(new Date(Date.now() + 60_000)))._unsafeUnwrap();
+
+        expect(
+          (
+            await postRepository.findByIdIncludingDeleted(own.id)
+          )._unsafeUnwrap(),
+        ).toBeNull();
+        expect(
+          (await postRepository.findAll({ limit: 10 }))
+            ._unsafeUnwrap()
+            .posts.map((post) => post.id),
+        ).toEqual([other.id]);
+        expect(
+          (await commentRepository.findById(comment.id))._unsafeUnwrap(),
+        ).toBeNull();
+        expect(
+          (await reactionRepository.summarize([other.id]))
+            ._unsafeUnwrap()
+            .get(other.id)?.counts.like,
+        ).toBe(0);
+      });
+
+      it("should keep other users' replies under the purged user's comments", async () => {
+        const alice = await createUser("Alice");
+        const bob = await createUser("Bob");
+        const { postRepository, commentRepository } = repositories();
+        const post = (
+          await postRepository.create({
+            title: "Thread",
+            content: "Content",
+            authorId: bob.id,
+            status: "published",
+          })
+        )._unsafeUnwrap();
+        const parent = (
+          await commentRepository.create({
+            postId: post.id,
+            authorId: alice.id,
+            content: "First",
+          })
+        )._unsafeUnwrap();
+        const reply = (
+          await commentRepository.create({
+            postId: post.id,
+            parentId: parent.id,
+            authorId: bob.id,
+            content: "Reply",
+          })
+        )._unsafeUnwrap();
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        (await repo.purge(new Date(Date.now() + 60_000)))._unsafeUnwrap();
+
+        const { threads } = (
+          await commentRepository.findThreadsByPostId(post.id, {
+            limit: 10,
+            offset: 0,
+          })
+        )._unsafeUnwrap();
+        expect(threads).toHaveLength(1);
+        expect(threads[0]?.comment).toMatchObject({
+          id: parent.id,
+          authorId: null,
+          content: "",
+        });
+        expect(threads[0]?.comment.deletedAt).not.toBeNull();
+        expect(threads[0]?.replies).toEqual([reply]);
+      });
+
+      it("should keep users deleted after the cutoff", async () => {
+        const alice = await createUser("Alice");
+        (await repo.delete(alice.id))._unsafeUnwrap();
+
+        const purged = (
+          await repo.purge(new Date(Date.now() - 60_000))
+        )._unsafeUnwrap();
+
+        expect(purged).toBe(0);
+        expect(
+          (await repo.findByIdIncludingDeleted(alice.id))._unsafeUnwrap(),
+        ).not.toBeNull();
+      });
+    });
+
+    describe("findAll", () => {
+      it("should order by createdAt ascending by default", async () => {
+        for (const name of ["Carol", "Alice", "Bob"]) {
+          await createUser(name);
+          await nextTick();
+        }
+
+        const page = (await repo.findAll({ limit: 10 }))._unsafeUnwrap();
+
+        expect(page.users.map((user) => user.name)).toEqual([
+          "Carol",
+          "Alice",
+          "Bob",
+        ]);
+      });
+
+      it("should report the total independently of the page", async () => {
+        for (const name of ["Alice", "Bob", "Carol"]) {
+          await createUser(name);
+          await nextTick();
+        }
+
+        const first = (await repo.findAll({ limit: 2 }))._unsafeUnwrap();
+        expect(first.users).toHaveLength(2);
+        expect(first.total).toBe(3);
+        expect(first.hasMore).toBe(true);
+
+        const last = (
+          await repo.findAll({ limit: 2, offset: 2 })
+        )._unsafeUnwrap();
+        expect(last.users.map((user) => user.name)).toEqual(["Carol"]);
+        expect(last.total).toBe(3);
+        expect(last.hasMore).toBe(false);
+      });
+
+      it("should continue after a cursor without overlap", async () => {
+        const created: User[] = [];
+
+        for (const name of ["Alice", "Bob", "Carol"]) {
+          created.push(await createUser(name));
+          await nextTick();
+        }
+
+        const anchor = created[0]!;
+        const page = (
+          await repo.findAll({
+            limit: 10,
+            cursor: {
+              values: [anchor.createdAt.toISOString()],
+              id: anchor.id,
+              direction: "next",
+            },
+          })
+        )._unsafeUnwrap();
+
+        expect(page.users.map((user) => user.name)).toEqual(["Bob", "Carol"]);
+        expect(page.total).toBe(3);
+        expect(page.hasMore).toBe(false);
+      });
+
+      it("should page by updatedAt through cursors without repeats", async () => {
+        for (const name of ["Alice", "Bob", "Carol"]) {
+          await createUser(name);
+          await nextTick();
+        }
+
+        const sort = [{ field: "updatedAt", direction: "asc" } as const];
+        const seen: string[] = [];
+        let page = (await repo.findAll({ limit: 1, sort }))._unsafeUnwrap();
+        seen.push(...page.users.map((user) => user.name));
+
+        while (page.hasMore) {
+          const last = page.users.at(-1)!;
+          page = (
+            await repo.findAll({
+              limit: 1,
+              sort,
+              cursor: {
+                values: [last.updatedAt.toISOString()],
+                id: last.id,
+                direction: "next",
+              },
+            })
+          )._unsafeUnwrap();
+          seen.push(...page.users.map((user) => user.name));
+        }
+
+        expect(seen).toEqual(["Alice", "Bob", "Carol"]);
+      });
+
+      it("should filter by name substring and exact email", async () => {
+        await createUser("Alice Smith");
+        await createUser("Bob Smithson");
+        await createUser("Carol");
+
+        const byName = (
+          await repo.findAll({ limit: 10, nameContains: "SMITH" })
+        )._unsafeUnwrap();
+        expect(byName.total).toBe(2);
+
+        const byEmail = (
+          await repo.findAll({ limit: 10, email: "carol@example.com" })
+        )._unsafeUnwrap();
+        expect(byEmail.users.map((user) => user.name)).toEqual(["Carol"]);
+      });
+    });
+  });
+};
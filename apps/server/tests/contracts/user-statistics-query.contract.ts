@@ -0,0 +1,161 @@
+/**
+ * UserStatisticsQuery contract.
+ * Behaviour every user statistics query adapter must share.
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+
+import type { UserStatisticsQuery } from "../../src/repositories/interfaces/user-statistics-query";
+import {
+  type ContractBackend,
+  type ContractRepositories,
+  nextTick,
+} from "./backend";
+
+/**
+ * Register the UserStatisticsQuery contract for a backend.
+ * Must be called inside a describe block that runs the backend's setup.
+ *
+ * @param backend - Backend under test
+ * @param repositories - Resolves the repositories built by setup
+ */
+export const describeUserStatisticsQueryContract = (
+  backend: ContractBackend,
+  repositories: () => ContractRepositories,
+) => {
+  describe("UserStatisticsQuery", () => {
+    let query: UserStatisticsQuery;
+    let authorId: string;
+
+    const createUser = async (name: string) =>
+      (
+        await repositories().userRepository.create({
+          name,
+          email: `${name.toLowerCase()}@example.com`,
+        })
+      )._unsafeUnwrap();
+
+    const createPost = async (
+      content: string,
+      author = authorId,
+      status: "draft" | "published" = "draft",
+    ) => {
+      const post = (
+        await repositories().postRepository.create({
+          title: "Post",
+          content,
+          authorId: author,
+          status,
+        })
+      )._unsafeUnwrap();
+      await nextTick();
+
+      return post;
+    };
+
+    beforeAll(() => {
+      query = repositories().userStatisticsQuery;
+    });
+
+    beforeEach(async () => {
+      await backend.reset();
+
+      authorId = (await createUser("Author")).id;
+    });
+
+    describe("aggregateAuthorPosts", () => {
+      it("should count soft-deleted posts and average active ones", async () => {
+        const first = await createPost("12345");
+        await createPost("1234567890");
+        const last = await createPost("deleted, and not averaged");
+        (await repositories().postRepository.delete(last.id))._unsafeUnwrap();
+
+        const aggregates = (
+          await query.aggregateAuthorPosts(authorId)
+        )._unsafeUnwrap();
+
+        expect(aggregates).toEqual({
+          totalPosts: 3,
+          activePosts: 2,
+          deletedPosts: 1,
+          averagePostLength: 7.5,
+          firstPostDate: first.createdAt,
+          lastPostDate: last.createdAt,
+        });
+      });
+
+      it("should measure length in characters", async () => {
+        await createPost("ab👍");
+
+        const aggregates = (
+          await query.aggregateAuthorPosts(authorId)
+        )._unsafeUnwrap();
+
+        expect(aggregates.averagePostLength).toBe(3);
+      });
+
+      it("should only aggregate the given author's posts", async () => {
+        const other = await createUser("Other");
+        await createPost("Theirs", other.id);
+
+        const aggregates = (
+          await query.aggregateAuthorPosts(authorId)
+        )._unsafeUnwrap();
+
+        expect(aggregates).toEqual({
+          totalPosts: 0,
+          activePosts: 0,
+          deletedPosts: 0,
+          averagePostLength: 0,
+          firstPostDate: null,
+          lastPostDate: null,
+        });
+      });
+
+      it("should only aggregate published posts when asked", async () => {
+        const published = await createPost("12345", authorId, "published");
+        const deleted = await createPost("1234567890", authorId, "published");
+        (
+          await repositories().postRepository.delete(deleted.id)
+        )._unsafeUnwrap();
+        await createPost("a much longer draft");
+
+        const aggregates = (
+          await query.aggregateAuthorPosts(authorId, { publishedOnly: true })
+        )._unsafeUnwrap();
+
+        expect(aggregates).toEqual({
+          totalPosts: 2,
+          activePosts: 1,
+          deletedPosts: 1,
+          averagePostLength: 5,
+          firstPostDate: published.createdAt,
+          lastPostDate: deleted.createdAt,
+        });
+      });
+    });
+
+    describe("aggregateSite", () => {
+      it("should count users and posts, soft-deleted ones included", async () => {
+        const other = await createUser("Other");
+        await createPost("Kept");
+        const deleted = await createPost("Gone", other.id);
+        (
+          await repositories().postRepository.delete(deleted.id)
+        )._unsafeUnwrap();
+        (await repositories().userRepository.delete(other.id))._unsafeUnwrap();
+
+        const aggregates = (await query.aggregateSite())._unsafeUnwrap();
+
+        expect(aggregates).toEqual({
+          totalUsers: 2,
+          activeUsers: 1,
+          deletedUsers: 1,
+          totalPosts: 2,
+          activePosts: 1,
+          deletedPosts: 1,
+        });
+      });
+    });
+  });
+};
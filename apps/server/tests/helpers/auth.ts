@@ -0,0 +1,32 @@
+/**
+ * Authentication test helpers.
+ * Provides a fake Authenticator so route tests can act as any user
+ * without issuing real session tokens.
+ */
+
+import { ok } from "neverthrow";
+
+import {
+  type Authenticator,
+  readAuthorizationHeader,
+} from "../../src/middleware/authentication";
+
+/**
+ * Create a test-only Authenticator.
+ * Trusts `Authorization: Fake <userId>` verbatim - never use outside tests.
+ */
+export const createFakeAuthenticator = (): Authenticator => ({
+  async authenticate(request) {
+    const userId = readAuthorizationHeader(request, "Fake");
+
+    return ok(userId ? { userId } : null);
+  },
+});
+
+/**
+ * Build request headers that authenticate as the given user
+ * through the fake authenticator.
+ */
+export const authHeaders = (userId: string): Record<string, string> => ({
+  Authorization: `Fake ${userId}`,
+});
@@ -5,14 +5,65 @@
 
 import { createPostAuthorizationService } from "../../src/domain/services/post-authorization-service";
 import { createUserAuthenticationService } from "../../src/domain/services/user-authentication-service";
+import {
+  createUserAuthorizationService,
+  type UserAuthorizationService,
+} from "../../src/domain/services/user-authorization-service";
+import type { Role } from "../../src/domain/permissions";
 import type { PostAuthorizationService } from "../../src/domain/services/post-authorization-service";
 import type { UserAuthenticationService } from "../../src/domain/services/user-authentication-service";
+import type { Authenticator } from "../../src/middleware/authentication";
+import {
+  createSessionTokenService,
+  type SessionTokenService,
+} from "../../src/middleware/session-token";
+import type { CommentRepository } from "../../src/repositories/interfaces/comment-repository";
+import type { CredentialRepository } from "../../src/repositories/interfaces/credential-repository";
+import type { EmailVerificationTokenRepository } from "../../src/repositories/interfaces/email-verification-token-repository";
+import type { FollowRepository } from "../../src/repositories/interfaces/follow-repository";
 import {
+  createInMemoryCascade,
+  createInMemoryCommentRepository,
+  createInMemoryCredentialRepository,
+  createInMemoryEmailVerificationTokenRepository,
+  createInMemoryFollowRepository,
+  createInMemoryIdempotencyKeyRepository,
+  createInMemoryJobRepository,
+  createInMemoryPersonalAccessTokenRepository,
   createInMemoryPostRepository,
+  createInMemoryPostRevisionRepository,
+  createInMemoryPostSearch,
+  createInMemoryReactionRepository,
+  createInMemoryTagRepository,
+  createInMemoryUnitOfWork,
   createInMemoryUserRepository,
+  createInMemoryUserStatisticsQuery,
 } from "../../src/repositories/memory";
+import type { IdempotencyKeyRepository } from "../../src/repositories/interfaces/idempotency-key-repository";
+import type { JobRepository } from "../../src/repositories/interfaces/job-repository";
+import type { PersonalAccessTokenRepository } from "../../src/repositories/interfaces/personal-access-token-repository";
 import type { PostRepository } from "../../src/repositories/interfaces/post-repository";
-import type { UserRepository } from "../../src/repositories/interfaces/user-repository";
+import type { PostRevisionRepository } from "../../src/repositories/interfaces/post-revision-repository";
+import type { PostSearch } from "../../src/repositories/interfaces/post-search";
+import type { ReactionRepository } from "../../src/repositories/interfaces/reaction-repository";
+import type { TagRepository } from "../../src/repositories/interfaces/tag-repository";
+import type { UnitOfWork } from "../../src/repositories/interfaces/unit-of-work";
+import type {
+  User,
+  UserRepository,
+} from "../../src/repositories/interfaces/user-repository";
+import type { UserStatisticsQuery } from "../../src/repositories/interfaces/user-statistics-query";
+import { createInMemoryMailer, type MailMessage } from "../../src/utils/mailer";
+import {
+  createPasswordHasher,
+  type PasswordHasher,
+} from "../../src/utils/password-hasher";
+import { createFakeAuthenticator } from "./auth";
+
+/**
+ * Session secret used by in-memory test contexts.
+ */
+export const TEST_SESSION_SECRET = "test-session-secret-at-least-32-chars";
 
 /**
  * Context for in-memory database tests.
@@ -20,8 +71,34 @@ import type { UserRepository } from "../../src/repositories/interfaces/user-repo
 export interface InMemoryTestContext {
   readonly userRepository: UserRepository & { clear: () => void };
   readonly postRepository: PostRepository & { clear: () => void };
+  readonly postRevisionRepository: PostRevisionRepository & {
+    clear: () => void;
+  };
+  readonly postSearch: PostSearch;
+  readonly tagRepository: TagRepository;
+  readonly commentRepository: CommentRepository & { clear: () => void };
+  readonly reactionRepository: ReactionRepository & { clear: () => void };
+  readonly followRepository: FollowRepository & { clear: () => void };
+  readonly userStatisticsQuery: UserStatisticsQuery;
+  readonly unitOfWork: UnitOfWork;
+  readonly credentialRepository: CredentialRepository & { clear: () => void };
+  readonly emailVerificationTokenRepository: EmailVerificationTokenRepository & {
+    clear: () => void;
+  };
+  readonly mailer: ReturnType<typeof createInMemoryMailer>;
+  readonly personalAccessTokenRepository: PersonalAccessTokenRepository & {
+    clear: () => void;
+  };
+  readonly idempotencyKeyRepository: IdempotencyKeyRepository & {
+    clear: () => void;
+  };
+  readonly jobRepository: JobRepository & { clear: () => void };
   readonly userAuthenticationService: UserAuthenticationService;
   readonly postAuthorizationService: PostAuthorizationService;
+  readonly userAuthorizationService: UserAuthorizationService;
+  readonly authenticator: Authenticator;
+  readonly passwordHasher: PasswordHasher;
+  readonly sessionTokenService: SessionTokenService;
 }
 
 /**
@@ -31,8 +108,16 @@ export interface InMemoryTestContext {
  * @returns InMemoryTestContext with fresh repositories
  */
 export const createInMemoryTestContext = (): InMemoryTestContext => {
-  const userRepository = createInMemoryUserRepository();
-  const postRepository = createInMemoryPostRepository();
+  const cascade = createInMemoryCascade();
+  const userRepository = createInMemoryUserRepository(cascade);
+  const postRepository = createInMemoryPostRepository(cascade);
+  const postRevisionRepository = createInMemoryPostRevisionRepository(cascade);
+  const credentialRepository = createInMemoryCredentialRepository(cascade);
+  const emailVerificationTokenRepository =
+    createInMemoryEmailVerificationTokenRepository(cascade);
+  const personalAccessTokenRepository =
+    createInMemoryPersonalAccessTokenRepository(cascade);
+  const jobRepository = createInMemoryJobRepository();
 
   // Create domain services
   const userAuthenticationService = createUserAuthenticationService({
@@ -42,12 +127,51 @@ export const createInMemoryTestContext = (): InMemoryTestContext => {
     userRepository,
     postRepository,
   });
+  const userAuthorizationService = createUserAuthorizationService({
+    userRepository,
+  });
 
   return {
     userRepository,
     postRepository,
+    postRevisionRepository,
+    postSearch: createInMemoryPostSearch(postRepository),
+    tagRepository: createInMemoryTagRepository(postRepository),
+    commentRepository: createInMemoryCommentRepository(cascade),
+    reactionRepository: createInMemoryReactionRepository(cascade),
+    followRepository: createInMemoryFollowRepository({
+      users: userRepository,
+      posts: postRepository,
+      cascade,
+    }),
+    userStatisticsQuery: createInMemoryUserStatisticsQuery({
+      users: userRepository,
+      posts: postRepository,
+    }),
+    unitOfWork: createInMemoryUnitOfWork({
+      userRepository,
+      postRepository,
+      postRevisionRepository,
+      credentialRepository,
+      emailVerificationTokenRepository,
+      personalAccessTokenRepository,
+      jobRepository,
+    }),
+    credentialRepository,
+    emailVerificationTokenRepository,
+    mailer: createInMemoryMailer(),
+    personalAccessTokenRepository,
+    idempotencyKeyRepository: createInMemoryIdempotencyKeyRepository(cascade),
+    jobRepository,
     userAuthenticationService,
     postAuthorizationService,
+    userAuthorizationService,
+    authenticator: createFakeAuthenticator(),
+    // Minimal argon2id cost keeps tests fast
+    passwordHasher: createPasswordHasher({ memoryCost: 1024, timeCost: 1 }),
+    sessionTokenService: createSessionTokenService({
+      secret: TEST_SESSION_SECRET,
+    }),
   };
 };
 
@@ -60,4 +184,52 @@ export const createInMemoryTestContext = (): InMemoryTestContext => {
 export const clearTestContext = (ctx: InMemoryTestContext): void => {
   ctx.userRepository.clear();
   ctx.postRepository.clear();
+  ctx.postRevisionRepository.clear();
+  ctx.commentRepository.clear();
+  ctx.reactionRepository.clear();
+  ctx.followRepository.clear();
+  ctx.credentialRepository.clear();
+  ctx.emailVerificationTokenRepository.clear();
+  ctx.mailer.clear();
+  ctx.personalAccessTokenRepository.clear();
+  ctx.idempotencyKeyRepository.clear();
+  ctx.jobRepository.clear();
+};
+
+/**
+ * Extract the verification token from the last email sent to an address.
+ *
+ * @param ctx - The test context whose mailer recorded the message
+ * @param to - Recipient address
+ * @returns The token, or undefined if no message was sent
+ */
+export const lastVerificationToken = (
+  ctx: InMemoryTestContext,
+  to: string,
+): string | undefined => {
+  const message: MailMessage | undefined = ctx.mailer.sent
+    .filter((sent) => sent.to === to)
+    .at(-1);
+
+  return message?.text.trim().split("\n").at(-1);
+};
+
+/**
+ * Create a user holding the given role directly in the repository.
+ *
+ * @param ctx - The test context to create the user in
+ * @param role - Role to assign
+ * @returns The created user
+ */
+export const createUserWithRole = async (
+  ctx: InMemoryTestContext,
+  role: Role,
+): Promise<User> => {
+  const result = await ctx.userRepository.create({
+    name: `${role} user`,
+    email: `${role}-${crypto.randomUUID()}@example.com`,
+    role,
+  });
+
+  return result._unsafeUnwrap();
 };
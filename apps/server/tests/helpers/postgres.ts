@@ -10,8 +10,21 @@ import {
   createPool,
   type Database,
 } from "../../src/repositories/postgres/db";
+import { createPostgresCommentRepository } from "../../src/repositories/postgres/comment-repository";
+import { createPostgresCredentialRepository } from "../../src/repositories/postgres/credential-repository";
+import { createPostgresEmailVerificationTokenRepository } from "../../src/repositories/postgres/email-verification-token-repository";
+import { createPostgresFollowRepository } from "../../src/repositories/postgres/follow-repository";
+import { createPostgresIdempotencyKeyRepository } from "../../src/repositories/postgres/idempotency-key-repository";
+import { createPostgresJobRepository } from "../../src/repositories/postgres/job-repository";
+import { createPostgresPersonalAccessTokenRepository } from "../../src/repositories/postgres/personal-access-token-repository";
 import { createPostgresPostRepository } from "../../src/repositories/postgres/post-repository";
+import { createPostgresPostRevisionRepository } from "../../src/repositories/postgres/post-revision-repository";
+import { createPostgresPostSearch } from "../../src/repositories/postgres/post-search";
+import { createPostgresReactionRepository } from "../../src/repositories/postgres/reaction-repository";
+import { createPostgresTagRepository } from "../../src/repositories/postgres/tag-repository";
+import { createPostgresUnitOfWork } from "../../src/repositories/postgres/unit-of-work";
 import { createPostgresUserRepository } from "../../src/repositories/postgres/user-repository";
+import { createPostgresUserStatisticsQuery } from "../../src/repositories/postgres/user-statistics-query";
 
 /**
  * Test database context with all repositories.
@@ -21,6 +34,35 @@ export interface TestDbContext {
   readonly pool: Pool;
   readonly userRepository: ReturnType<typeof createPostgresUserRepository>;
   readonly postRepository: ReturnType<typeof createPostgresPostRepository>;
+  readonly postRevisionRepository: ReturnType<
+    typeof createPostgresPostRevisionRepository
+  >;
+  readonly credentialRepository: ReturnType<
+    typeof createPostgresCredentialRepository
+  >;
+  readonly emailVerificationTokenRepository: ReturnType<
+    typeof createPostgresEmailVerificationTokenRepository
+  >;
+  readonly personalAccessTokenRepository: ReturnType<
+    typeof createPostgresPersonalAccessTokenRepository
+  >;
+  readonly idempotencyKeyRepository: ReturnType<
+    typeof createPostgresIdempotencyKeyRepository
+  >;
+  readonly jobRepository: ReturnType<typeof createPostgresJobRepository>;
+  readonly tagRepository: ReturnType<typeof createPostgresTagRepository>;
+  readonly commentRepository: ReturnType<
+    typeof createPostgresCommentRepository
+  >;
+  readonly reactionRepository: ReturnType<
+    typeof createPostgresReactionRepository
+  >;
+  readonly followRepository: ReturnType<typeof createPostgresFollowRepository>;
+  readonly userStatisticsQuery: ReturnType<
+    typeof createPostgresUserStatisticsQuery
+  >;
+  readonly postSearch: ReturnType<typeof createPostgresPostSearch>;
+  readonly unitOfWork: ReturnType<typeof createPostgresUnitOfWork>;
 }
 
 /**
@@ -32,8 +74,31 @@ export const createTestDbContext = (): TestDbContext => {
   const db = createDb({ pool });
   const userRepository = createPostgresUserRepository(db);
   const postRepository = createPostgresPostRepository(db);
+  const credentialRepository = createPostgresCredentialRepository(db);
+  const emailVerificationTokenRepository =
+    createPostgresEmailVerificationTokenRepository(db);
+  const personalAccessTokenRepository =
+    createPostgresPersonalAccessTokenRepository(db);
 
-  return { db, pool, userRepository, postRepository };
+  return {
+    db,
+    pool,
+    userRepository,
+    postRepository,
+    postRevisionRepository: createPostgresPostRevisionRepository(db),
+    credentialRepository,
+    emailVerificationTokenRepository,
+    personalAccessTokenRepository,
+    idempotencyKeyRepository: createPostgresIdempotencyKeyRepository(db),
+    jobRepository: createPostgresJobRepository(db),
+    tagRepository: createPostgresTagRepository(db),
+    commentRepository: createPostgresCommentRepository(db),
+    reactionRepository: createPostgresReactionRepository(db),
+    followRepository: createPostgresFollowRepository(db),
+    userStatisticsQuery: createPostgresUserStatisticsQuery(db),
+    postSearch: createPostgresPostSearch(db),
+    unitOfWork: createPostgresUnitOfWork(db),
+  };
 };
 
 /**
@@ -41,7 +106,9 @@ export const createTestDbContext = (): TestDbContext => {
  * Uses CASCADE to handle foreign key constraints.
  */
 export const truncateTables = async (pool: Pool): Promise<void> => {
-  await pool.query('TRUNCATE TABLE "post", "user" RESTART IDENTITY CASCADE');
+  await pool.query(
+    'TRUNCATE TABLE "job", "follow", "post_reaction", "comment", "post_tags", "tag", "post_revision", "idempotency_key", "personal_access_token", "email_verification_token", "credential", "post", "user" RESTART IDENTITY CASCADE',
+  );
 };
 
 /**
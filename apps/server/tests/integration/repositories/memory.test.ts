@@ -0,0 +1,73 @@
+/**
+ * Repository contracts against the in-memory adapters.
+ */
+
+import {
+  createInMemoryCascade,
+  createInMemoryCommentRepository,
+  createInMemoryFollowRepository,
+  createInMemoryIdempotencyKeyRepository,
+  createInMemoryJobRepository,
+  createInMemoryPostRepository,
+  createInMemoryPostRevisionRepository,
+  createInMemoryPostSearch,
+  createInMemoryReactionRepository,
+  createInMemoryTagRepository,
+  createInMemoryUserRepository,
+  createInMemoryUserStatisticsQuery,
+} from "../../../src/repositories/memory";
+import { describeRepositoryContracts } from "../../contracts";
+
+const cascade = createInMemoryCascade();
+const userRepository = createInMemoryUserRepository(cascade);
+const postRepository = createInMemoryPostRepository(cascade);
+const postRevisionRepository = createInMemoryPostRevisionRepository(cascade);
+const idempotencyKeyRepository =
+  createInMemoryIdempotencyKeyRepository(cascade);
+const jobRepository = createInMemoryJobRepository();
+const tagRepository = createInMemoryTagRepository(postRepository);
+const commentRepository = createInMemoryCommentRepository(cascade);
+const reactionRepository = createInMemoryReactionRepository(cascade);
+const followRepository = createInMemoryFollowRepository({
+  users: userRepository,
+  posts: postRepository,
+  cascade,
+});
+const userStatisticsQuery = createInMemoryUserStatisticsQuery({
+  users: userRepository,
+  posts: postRepository,
+});
+
+const postSearch = createInMemoryPostSearch(postRepository);
+
+describeRepositoryContracts({
+  name: "memory",
+  async setup() {
+    return {
+      userRepository,
+      postRepository,
+      postRevisionRepository,
+      idempotencyKeyRepository,
+      jobRepository,
+      tagRepository,
+      commentRepository,
+      reactionRepository,
+      followRepository,
+      userStatisticsQuery,
+      postSearch,
+    };
+  },
+  async reset() {
+    userRepository.clear();
+    postRepository.clear();
+    postRevisionRepository.clear();
+    idempotencyKeyRepository.clear();
+    jobRepository.clear();
+    commentRepository.clear();
+    reactionRepository.clear();
+    followRepository.clear();
+  },
+  async teardown() {
+    // Nothing to release
+  },
+});
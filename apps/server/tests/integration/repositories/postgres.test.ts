@@ -0,0 +1,49 @@
+/**
+ * Repository contracts against the Postgres adapters.
+ * Runs only when DATABASE_URL points at a disposable database: the schema
+ * is migrated up and every table is truncated between tests.
+ */
+
+import { describe } from "bun:test";
+
+import { createMigrator } from "@bun-hono-ddd-template/db/migrator";
+
+import { describeRepositoryContracts } from "../../contracts";
+import {
+  type TestDbContext,
+  closePool,
+  createTestDbContext,
+  truncateTables,
+} from "../../helpers/postgres";
+
+let ctx: TestDbContext | undefined;
+
+describe.skipIf(!process.env.DATABASE_URL)("postgres", () => {
+  describeRepositoryContracts({
+    name: "postgres",
+    async setup() {
+      ctx = createTestDbContext();
+      await createMigrator({ pool: ctx.pool }).up();
+
+      return {
+        userRepository: ctx.userRepository,
+        postRepository: ctx.postRepository,
+        postRevisionRepository: ctx.postRevisionRepository,
+        idempotencyKeyRepository: ctx.idempotencyKeyRepository,
+        jobRepository: ctx.jobRepository,
+        tagRepository: ctx.tagRepository,
+        commentRepository: ctx.commentRepository,
+        reactionRepository: ctx.reactionRepository,
+        followRepository: ctx.followRepository,
+        userStatisticsQuery: ctx.userStatisticsQuery,
+        postSearch: ctx.postSearch,
+      };
+    },
+    async reset() {
+      if (ctx) await truncateTables(ctx.pool);
+    },
+    async teardown() {
+      if (ctx) await closePool(ctx.pool);
+    },
+  });
+});
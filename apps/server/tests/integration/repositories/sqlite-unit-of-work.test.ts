@@ -0,0 +1,124 @@
+/**
+ * SQLite Unit of Work tests.
+ * Uses an in-memory bun:sqlite database, so it always runs.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { err, ok } from "neverthrow";
+
+import { notFoundError } from "../../../src/domain/errors";
+import type { UnitOfWork } from "../../../src/repositories/interfaces/unit-of-work";
+import {
+  IN_MEMORY_SQLITE_PATH,
+  type SqliteConnection,
+  createSqliteDb,
+  createSqlitePostRepository,
+  createSqliteUnitOfWork,
+  createSqliteUserRepository,
+} from "../../../src/repositories/sqlite";
+
+describe("createSqliteUnitOfWork", () => {
+  let connection: SqliteConnection;
+  let unitOfWork: UnitOfWork;
+
+  const countRows = async () => ({
+    users: (
+      await createSqliteUserRepository(connection.db).findAll({ limit: 10 })
+    )._unsafeUnwrap().total,
+    posts: (
+      await createSqlitePostRepository(connection.db).findAll({ limit: 10 })
+    )._unsafeUnwrap().total,
+  });
+
+  beforeEach(() => {
+    connection = createSqliteDb({ path: IN_MEMORY_SQLITE_PATH });
+    unitOfWork = createSqliteUnitOfWork(connection);
+  });
+
+  afterEach(() => {
+    connection.client.close();
+  });
+
+  it("should commit writes when the work succeeds", async () => {
+    const result = await unitOfWork.run(async (repositories) => {
+      const user = (
+        await repositories.userRepository.create({
+          name: "Committed",
+          email: "committed@example.com",
+        })
+      )._unsafeUnwrap();
+
+      // The post repository opens its own transaction for tags
+      await repositories.postRepository.create({
+        title: "Committed",
+        content: "Kept.",
+        authorId: user.id,
+        status: "published",
+        tags: ["kept"],
+      });
+
+      return ok(user.id);
+    });
+
+    expect(result.isOk()).toBe(true);
+    expect(connection.client.inTransaction).toBe(false);
+    expect(await countRows()).toEqual({ users: 1, posts: 1 });
+  });
+
+  it("should roll back every write when the work returns an error", async () => {
+    const result = await unitOfWork.run(async (repositories) => {
+      const user = (
+        await repositories.userRepository.create({
+          name: "Rolled Back",
+          email: "rolled-back@example.com",
+        })
+      )._unsafeUnwrap();
+
+      await repositories.postRepository.create({
+        title: "Rolled Back",
+        content: "Never committed.",
+        authorId: user.id,
+        status: "published",
+        tags: ["gone"],
+      });
+
+      return err(notFoundError("Thing", "missing"));
+    });
+
+    expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+    expect(connection.client.inTransaction).toBe(false);
+    expect(await countRows()).toEqual({ users: 0, posts: 0 });
+  });
+
+  it("should roll back and report UnexpectedError when the work throws", async () => {
+    const result = await unitOfWork.run<void, never>(async (repositories) => {
+      await repositories.userRepository.create({
+        name: "Thrown",
+        email: "thrown@example.com",
+      });
+      throw new Error("boom");
+    });
+
+    expect(result._unsafeUnwrapErr().type).toBe("UnexpectedError");
+    expect(await countRows()).toEqual({ users: 0, posts: 0 });
+  });
+
+  it("should run units one at a time", async () => {
+    const order: string[] = [];
+
+    await Promise.all([
+      unitOfWork.run(async () => {
+        order.push("first:start");
+        await Promise.resolve();
+        order.push("first:end");
+        return ok(undefined);
+      }),
+      unitOfWork.run(async () => {
+        order.push("second:start");
+        return ok(undefined);
+      }),
+    ]);
+
+    expect(order).toEqual(["first:start", "first:end", "second:start"]);
+  });
+});
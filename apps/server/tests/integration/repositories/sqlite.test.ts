@@ -0,0 +1,76 @@
+/**
+ * Repository contracts against the SQLite adapters.
+ * Uses an in-memory bun:sqlite database, so it always runs.
+ */
+
+import {
+  comments,
+  follows,
+  idempotencyKeys,
+  jobs,
+  postReactions,
+  postRevisions,
+  postTags,
+  posts,
+  tags,
+  users,
+} from "@bun-hono-ddd-template/db/sqlite";
+
+import {
+  IN_MEMORY_SQLITE_PATH,
+  type SqliteConnection,
+  createSqliteCommentRepository,
+  createSqliteDb,
+  createSqliteFollowRepository,
+  createSqliteIdempotencyKeyRepository,
+  createSqliteJobRepository,
+  createSqlitePostRepository,
+  createSqlitePostRevisionRepository,
+  createSqlitePostSearch,
+  createSqliteReactionRepository,
+  createSqliteTagRepository,
+  createSqliteUserRepository,
+  createSqliteUserStatisticsQuery,
+} from "../../../src/repositories/sqlite";
+import { describeRepositoryContracts } from "../../contracts";
+
+let connection: SqliteConnection | undefined;
+
+describeRepositoryContracts({
+  name: "sqlite",
+  async setup() {
+    connection = createSqliteDb({ path: IN_MEMORY_SQLITE_PATH });
+
+    return {
+      userRepository: createSqliteUserRepository(connection.db),
+      postRepository: createSqlitePostRepository(connection.db),
+      postRevisionRepository: createSqlitePostRevisionRepository(connection.db),
+      idempotencyKeyRepository: createSqliteIdempotencyKeyRepository(
+        connection.db,
+      ),
+      jobRepository: createSqliteJobRepository(connection.db),
+      tagRepository: createSqliteTagRepository(connection.db),
+      commentRepository: createSqliteCommentRepository(connection.db),
+      reactionRepository: createSqliteReactionRepository(connection.db),
+      followRepository: createSqliteFollowRepository(connection.db),
+      userStatisticsQuery: createSqliteUserStatisticsQuery(connection.db),
+      postSearch: createSqlitePostSearch(connection.db),
+    };
+  },
+  async reset() {
+    // Dependents first: they reference users
+    await connection?.db.delete(jobs);
+    await connection?.db.delete(idempotencyKeys);
+    await connection?.db.delete(postRevisions);
+    await connection?.db.delete(comments);
+    await connection?.db.delete(postReactions);
+    await connection?.db.delete(follows);
+    await connection?.db.delete(postTags);
+    await connection?.db.delete(tags);
+    await connection?.db.delete(posts);
+    await connection?.db.delete(users);
+  },
+  async teardown() {
+    connection?.client.close();
+  },
+});
@@ -13,6 +13,7 @@ import {
   createInMemoryTestContext,
   type InMemoryTestContext,
 } from "../../helpers/memory";
+import { authHeaders } from "../../helpers/auth";
 
 describe("Post Routes Integration", () => {
   let ctx: InMemoryTestContext;
@@ -24,6 +25,7 @@ describe("Post Routes Integration", () => {
     app = createApp({
       userRepository: ctx.userRepository,
       postRepository: ctx.postRepository,
+      authenticator: ctx.authenticator,
     });
 
     // Create a test user for posts
@@ -48,11 +50,13 @@ describe("Post Routes Integration", () => {
       // CREATE
       const createResponse = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Test Post",
           content: "Test Content",
-          authorId: testUser.id,
         }),
       });
 
@@ -62,6 +66,18 @@ describe("Post Routes Integration", () => {
       const postId = createBody.data.id;
 
       expect(postId).toBeDefined();
+      expect(createBody.data.status).toBe("draft");
+
+      // Drafts are hidden from everyone but the author
+      expect((await app.request(`/posts/${postId}`)).status).toBe(404);
+
+      // PUBLISH
+      const publishResponse = await app.request(`/posts/${postId}/publish`, {
+        method: "POST",
+        headers: authHeaders(testUser.id),
+      });
+
+      expect(publishResponse.status).toBe(200);
 
       // READ (single)
       const getResponse = await app.request(`/posts/${postId}`);
@@ -90,11 +106,13 @@ describe("Post Routes Integration", () => {
       // UPDATE (PUT)
       const putResponse = await app.request(`/posts/${postId}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Updated Title",
           content: "Updated Content",
-          userId: testUser.id,
         }),
       });
 
@@ -108,10 +126,12 @@ describe("Post Routes Integration", () => {
       // UPDATE (PATCH)
       const patchResponse = await app.request(`/posts/${postId}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Patched Title",
-          userId: testUser.id,
         }),
       });
 
@@ -125,7 +145,7 @@ describe("Post Routes Integration", () => {
       // DELETE
       const deleteResponse = await app.request(`/posts/${postId}`, {
         method: "DELETE",
-        headers: { "X-User-Id": testUser.id },
+        headers: authHeaders(testUser.id),
       });
 
       expect(deleteResponse.status).toBe(204);
@@ -162,32 +182,41 @@ describe("Post Routes Integration", () => {
       // Create posts for first author
       await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "First Author Post 1",
           content: "Content",
-          authorId: testUser.id,
+          status: "published",
         }),
       });
 
       await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "First Author Post 2",
           content: "Content",
-          authorId: testUser.id,
+          status: "published",
         }),
       });
 
       // Create post for second author
       await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(secondUser.id),
+        },
         body: JSON.stringify({
           title: "Second Author Post",
           content: "Content",
-          authorId: secondUser.id,
+          status: "published",
         }),
       });
 
@@ -225,11 +254,14 @@ describe("Post Routes Integration", () => {
       for (let i = 1; i <= 5; i++) {
         await app.request("/posts", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            ...authHeaders(testUser.id),
+          },
           body: JSON.stringify({
             title: `Post ${i}`,
             content: `Content ${i}`,
-            authorId: testUser.id,
+            status: "published",
           }),
         });
       }
@@ -267,15 +299,205 @@ describe("Post Routes Integration", () => {
     });
   });
 
+  describe("Cursor pagination", () => {
+    type PageBody = {
+      data: Post[];
+      pagination: {
+        total: number;
+        offset?: number;
+        nextCursor: string | null;
+        prevCursor: string | null;
+      };
+    };
+
+    const getPage = async (query: string): Promise<PageBody> => {
+      const response = await app.request(`/posts?${query}`);
+      expect(response.status).toBe(200);
+      return (await response.json()) as PageBody;
+    };
+
+    beforeEach(async () => {
+      for (let i = 1; i <= 5; i++) {
+        await ctx.postRepository.create({
+          title: `Post ${i}`,
+          content: `Content ${i}`,
+          authorId: testUser.id,
+          status: "published",
+        });
+      }
+    });
+
+    it("should walk forward and backward through every post", async () => {
+      const forward: string[] = [];
+      let page = await getPage("limit=2");
+
+      expect(page.pagination.prevCursor).toBeNull();
+      forward.push(...page.data.map((post) => post.id));
+
+      while (page.pagination.nextCursor) {
+        page = await getPage(`limit=2&cursor=${page.pagination.nextCursor}`);
+        expect(page.pagination.offset).toBeUndefined();
+        expect(page.pagination.total).toBe(5);
+        forward.push(...page.data.map((post) => post.id));
+      }
+
+      expect(forward).toHaveLength(5);
+      expect(new Set(forward).size).toBe(5);
+
+      // The final page links back; walking back visits the same order
+      const backward: string[] = page.data.map((post) => post.id);
+
+      while (page.pagination.prevCursor) {
+        page = await getPage(`limit=2&cursor=${page.pagination.prevCursor}`);
+        backward.unshift(...page.data.map((post) => post.id));
+      }
+
+      expect(backward).toEqual(forward);
+    });
+
+    it("should match offset pages and hand over to cursors", async () => {
+      const offsetPage = await getPage("limit=2&offset=2");
+      const cursorPage = await getPage(
+        `limit=2&cursor=${offsetPage.pagination.nextCursor}`,
+      );
+      const lastOffsetPage = await getPage("limit=2&offset=4");
+
+      expect(offsetPage.pagination.prevCursor).not.toBeNull();
+      expect(cursorPage.data.map((post) => post.id)).toEqual(
+        lastOffsetPage.data.map((post) => post.id),
+      );
+      expect(cursorPage.pagination.nextCursor).toBeNull();
+    });
+
+    it("should not repeat posts created after the first page", async () => {
+      const first = await getPage("limit=3");
+
+      // Ensure a later createdAt than the seeded posts
+      await Bun.sleep(2);
+      await ctx.postRepository.create({
+        title: "Late post",
+        content: "Content",
+        authorId: testUser.id,
+        status: "published",
+      });
+
+      const second = await getPage(
+        `limit=3&cursor=${first.pagination.nextCursor}`,
+      );
+      const seen = [...first.data, ...second.data].map((post) => post.id);
+
+      expect(new Set(seen).size).toBe(6);
+      expect(second.data.at(-1)?.title).toBe("Late post");
+    });
+
+    it("should return 400 for an invalid cursor", async () => {
+      const response = await app.request("/posts?cursor=not-a-cursor");
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 when cursor and offset are combined", async () => {
+      const { pagination } = await getPage("limit=2");
+      const response = await app.request(
+        `/posts?offset=2&cursor=${pagination.nextCursor}`,
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Sorting and filtering", () => {
+    type ListBody = {
+      data: Post[];
+      pagination: { total: number; nextCursor: string | null };
+    };
+
+    const list = async (query: string) => {
+      const response = await app.request(`/posts?${query}`);
+      return { response, body: (await response.json()) as ListBody };
+    };
+
+    const titles = (body: ListBody) => body.data.map((post) => post.title);
+
+    beforeEach(async () => {
+      for (const title of ["Banana 100%", "apple", "Cherry", "banana split"]) {
+        await ctx.postRepository.create({
+          title,
+          content: "Content",
+          authorId: testUser.id,
+          status: "published",
+        });
+      }
+    });
+
+    it("should sort by title with code point ordering", async () => {
+      const { body } = await list("sort=title");
+
+      expect(titles(body)).toEqual([
+        "Banana 100%",
+        "Cherry",
+        "apple",
+        "banana split",
+      ]);
+    });
+
+    it("should walk a mixed-direction sort with cursors", async () => {
+      const seen: string[] = [];
+      let { body } = await list("sort=-updatedAt,title&limit=1");
+      seen.push(...titles(body));
+
+      while (body.pagination.nextCursor) {
+        ({ body } = await list(
+          `sort=-updatedAt,title&limit=1&cursor=${body.pagination.nextCursor}`,
+        ));
+        seen.push(...titles(body));
+      }
+
+      const { body: all } = await list("sort=-updatedAt,title&limit=10");
+
+      expect(seen).toEqual(titles(all));
+      expect(seen).toHaveLength(4);
+    });
+
+    it("should filter by title substring, treating wildcards literally", async () => {
+      const banana = await list("title[contains]=BANANA");
+      const percent = await list(`title[contains]=${encodeURIComponent("%")}`);
+
+      expect(titles(banana.body).sort()).toEqual([
+        "Banana 100%",
+        "banana split",
+      ]);
+      expect(titles(percent.body)).toEqual(["Banana 100%"]);
+    });
+
+    it("should return 400 for an invalid timestamp filter", async () => {
+      const { response } = await list("createdAfter=yesterday");
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for unsupported sort fields and filters", async () => {
+      const sortByContent = await list("sort=content");
+      const duplicateSort = await list("sort=title,-title");
+      const unknownFilter = await list("content[contains]=x");
+
+      expect(sortByContent.response.status).toBe(400);
+      expect(duplicateSort.response.status).toBe(400);
+      expect(unknownFilter.response.status).toBe(400);
+    });
+  });
+
   describe("POST /posts", () => {
     it("should create a post and return 201", async () => {
       const response = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Test Post",
           content: "This is the content of the test post.",
-          authorId: testUser.id,
         }),
       });
 
@@ -295,10 +517,12 @@ describe("Post Routes Integration", () => {
     it("should return 400 for missing title", async () => {
       const response = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           content: "Content without title",
-          authorId: testUser.id,
         }),
       });
 
@@ -316,37 +540,45 @@ describe("Post Routes Integration", () => {
     it("should return 400 for missing content", async () => {
       const response = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Title without content",
-          authorId: testUser.id,
         }),
       });
 
       expect(response.status).toBe(400);
     });
 
-    it("should return 400 for missing authorId", async () => {
+    it("should return 401 without authentication", async () => {
       const response = await app.request("/posts", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           title: "Post Title",
           content: "Post content",
+          authorId: testUser.id,
         }),
       });
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(401);
+
+      const body = (await response.json()) as { type: string };
+      expect(body.type).toBe("urn:app:error:unauthorized");
     });
 
     it("should return 404 for non-existent author", async () => {
       const response = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders("non-existent-user-id"),
+        },
         body: JSON.stringify({
           title: "Post Title",
           content: "Post content",
-          authorId: "non-existent-user-id",
         }),
       });
 
@@ -7,21 +7,26 @@ import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 
 import { createApp } from "../../../src/app";
 import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { authHeaders } from "../../helpers/auth";
 import {
   clearTestContext,
   createInMemoryTestContext,
+  createUserWithRole,
   type InMemoryTestContext,
 } from "../../helpers/memory";
 
 describe("User Routes Integration", () => {
   let ctx: InMemoryTestContext;
   let app: ReturnType<typeof createApp>;
+  let admin: User;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     ctx = createInMemoryTestContext();
+    admin = await createUserWithRole(ctx, "admin");
     app = createApp({
       userRepository: ctx.userRepository,
       postRepository: ctx.postRepository,
+      authenticator: ctx.authenticator,
     });
   });
 
@@ -34,7 +39,10 @@ describe("User Routes Integration", () => {
       // CREATE
       const createResponse = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Test User",
           email: "test@example.com",
@@ -68,13 +76,17 @@ describe("User Routes Integration", () => {
         pagination: { total: number };
       };
 
-      expect(listBody.data).toHaveLength(1);
-      expect(listBody.pagination.total).toBe(1);
+      // Includes the acting admin
+      expect(listBody.data).toHaveLength(2);
+      expect(listBody.pagination.total).toBe(2);
 
       // UPDATE (PUT)
       const putResponse = await app.request(`/users/${userId}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Updated Name",
           email: "updated@example.com",
@@ -91,7 +103,10 @@ describe("User Routes Integration", () => {
       // UPDATE (PATCH)
       const patchResponse = await app.request(`/users/${userId}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Patched Name",
         }),
@@ -107,6 +122,7 @@ describe("User Routes Integration", () => {
       // DELETE
       const deleteResponse = await app.request(`/users/${userId}`, {
         method: "DELETE",
+        headers: authHeaders(admin.id),
       });
 
       expect(deleteResponse.status).toBe(204);
@@ -123,8 +139,9 @@ describe("User Routes Integration", () => {
         pagination: { total: number };
       };
 
-      expect(listAfterDeleteBody.data).toHaveLength(0);
-      expect(listAfterDeleteBody.pagination.total).toBe(0);
+      // Only the acting admin remains
+      expect(listAfterDeleteBody.data).toHaveLength(1);
+      expect(listAfterDeleteBody.pagination.total).toBe(1);
     });
 
     it("should handle pagination correctly with multiple users", async () => {
@@ -132,7 +149,10 @@ describe("User Routes Integration", () => {
       for (let i = 1; i <= 5; i++) {
         await app.request("/users", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            ...authHeaders(admin.id),
+          },
           body: JSON.stringify({
             name: `User ${i}`,
             email: `user${i}@example.com`,
@@ -148,7 +168,8 @@ describe("User Routes Integration", () => {
       };
 
       expect(page1Body.data).toHaveLength(2);
-      expect(page1Body.pagination.total).toBe(5);
+      // 5 created + the acting admin
+      expect(page1Body.pagination.total).toBe(6);
       expect(page1Body.pagination.limit).toBe(2);
       expect(page1Body.pagination.offset).toBe(0);
 
@@ -169,14 +190,17 @@ describe("User Routes Integration", () => {
         pagination: { total: number };
       };
 
-      expect(page3Body.data).toHaveLength(1);
+      expect(page3Body.data).toHaveLength(2);
     });
 
     it("should prevent duplicate email during creation and update", async () => {
       // Create first user
       await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "First User",
           email: "taken@example.com",
@@ -186,7 +210,10 @@ describe("User Routes Integration", () => {
       // Create second user
       const secondUserResponse = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Second User",
           email: "second@example.com",
@@ -201,7 +228,10 @@ describe("User Routes Integration", () => {
       // Try to create with duplicate email
       const duplicateCreateResponse = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Third User",
           email: "taken@example.com",
@@ -215,7 +245,10 @@ describe("User Routes Integration", () => {
         `/users/${secondUserId}`,
         {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            ...authHeaders(admin.id),
+          },
           body: JSON.stringify({
             name: "Second User Updated",
             email: "taken@example.com",
@@ -227,11 +260,128 @@ describe("User Routes Integration", () => {
     });
   });
 
+  describe("Sorting and filtering", () => {
+    type ListBody = {
+      data: User[];
+      pagination: { total: number; nextCursor: string | null };
+    };
+
+    const list = async (query: string, headers = {}) => {
+      const response = await app.request(`/users?${query}`, { headers });
+      return { response, body: (await response.json()) as ListBody };
+    };
+
+    beforeEach(async () => {
+      for (const name of ["Carol", "alice", "Bob"]) {
+        await ctx.userRepository.create({
+          name,
+          email: `${name.toLowerCase()}@example.com`,
+        });
+      }
+    });
+
+    it("should sort by name with code point ordering", async () => {
+      const { body } = await list("sort=name");
+
+      expect(body.data.map((user) => user.name)).toEqual([
+        "Bob",
+        "Carol",
+        "admin user",
+        "alice",
+      ]);
+    });
+
+    it("should sort descending and page with cursors under that sort", async () => {
+      const first = await list("sort=-name&limit=2");
+
+      expect(first.body.data.map((user) => user.name)).toEqual([
+        "alice",
+        "admin user",
+      ]);
+
+      const second = await list(
+        `sort=-name&limit=2&cursor=${first.body.pagination.nextCursor}`,
+      );
+
+      expect(second.body.data.map((user) => user.name)).toEqual([
+        "Carol",
+        "Bob",
+      ]);
+      expect(second.body.pagination.nextCursor).toBeNull();
+    });
+
+    it("should reject a cursor issued for a different sort", async () => {
+      const first = await list("sort=-name&limit=2");
+      const { response } = await list(
+        `limit=2&cursor=${first.body.pagination.nextCursor}`,
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should filter by name substring case-insensitively", async () => {
+      const { body } = await list("name[contains]=AL");
+
+      expect(body.data.map((user) => user.name)).toEqual(["alice"]);
+      expect(body.pagination.total).toBe(1);
+    });
+
+    it("should filter by creation time", async () => {
+      await Bun.sleep(2);
+      const cutoff = new Date().toISOString();
+      await Bun.sleep(2);
+      await ctx.userRepository.create({
+        name: "Dave",
+        email: "dave@example.com",
+      });
+
+      const after = await list(`createdAfter=${cutoff}`);
+      const before = await list(`createdBefore=${cutoff}`);
+
+      expect(after.body.data.map((user) => user.name)).toEqual(["Dave"]);
+      expect(before.body.pagination.total).toBe(4);
+    });
+
+    it("should allow admins to filter by email", async () => {
+      const { response, body } = await list(
+        "email[eq]=bob@example.com",
+        authHeaders(admin.id),
+      );
+
+      expect(response.status).toBe(200);
+      expect(body.data.map((user) => user.name)).toEqual(["Bob"]);
+    });
+
+    it("should forbid the email filter for non-admins", async () => {
+      const member = await createUserWithRole(ctx, "user");
+
+      const anonymous = await list("email[eq]=bob@example.com");
+      const forbidden = await list(
+        "email[eq]=bob@example.com",
+        authHeaders(member.id),
+      );
+
+      expect(anonymous.response.status).toBe(401);
+      expect(forbidden.response.status).toBe(403);
+    });
+
+    it("should return 400 for fields outside the allow-lists", async () => {
+      const sortByEmail = await list("sort=email");
+      const unknownFilter = await list("role[eq]=admin");
+
+      expect(sortByEmail.response.status).toBe(400);
+      expect(unknownFilter.response.status).toBe(400);
+    });
+  });
+
   describe("POST /users", () => {
     it("should create a user and return 201", async () => {
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Test User",
           email: "test@example.com",
@@ -253,7 +403,10 @@ describe("User Routes Integration", () => {
     it("should return 400 for missing name", async () => {
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           email: "test@example.com",
         }),
@@ -273,7 +426,10 @@ describe("User Routes Integration", () => {
     it("should return 400 for invalid email", async () => {
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Test User",
           email: "invalid-email",
@@ -289,7 +445,10 @@ describe("User Routes Integration", () => {
     it("should return 409 for duplicate email", async () => {
       await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "First User",
           email: "duplicate@example.com",
@@ -298,7 +457,10 @@ describe("User Routes Integration", () => {
 
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Second User",
           email: "duplicate@example.com",
@@ -9,6 +9,7 @@ import {
   conflictError,
   forbiddenError,
   notFoundError,
+  preconditionFailedError,
   unauthorizedError,
   unexpectedError,
   validationError,
@@ -85,6 +86,19 @@ describe("Domain Errors", () => {
     });
   });
 
+  describe("preconditionFailedError", () => {
+    it("should create PreconditionFailedError with resource and id", () => {
+      const error = preconditionFailedError("Post", "123");
+
+      expect(error.type).toBe("PreconditionFailedError");
+      expect(error.message).toBe(
+        "Post with id '123' has been modified since it was last read",
+      );
+      expect(error.resource).toBe("Post");
+      expect(error.id).toBe("123");
+    });
+  });
+
   describe("unauthorizedError", () => {
     it("should create UnauthorizedError with default message", () => {
       const error = unauthorizedError();
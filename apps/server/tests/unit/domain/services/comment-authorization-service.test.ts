@@ -0,0 +1,133 @@
+/**
+ * Unit tests for CommentAuthorizationService.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { ok } from "neverthrow";
+
+import { createCommentAuthorizationService } from "../../../../src/domain/services/comment-authorization-service";
+
+describe("CommentAuthorizationService", () => {
+  // Mock data
+  const mockUser = {
+    id: "user-1",
+    role: "user" as const,
+    deletedAt: null,
+  };
+
+  const mockOtherUser = {
+    ...mockUser,
+    id: "user-2",
+  };
+
+  const mockModerator = {
+    ...mockUser,
+    id: "moderator-1",
+    role: "moderator" as const,
+  };
+
+  const mockComment = {
+    id: "comment-1",
+    postId: "post-1",
+    authorId: "user-1",
+    deletedAt: null,
+  };
+
+  const mockDeletedComment = {
+    ...mockComment,
+    id: "comment-2",
+    deletedAt: new Date("2024-01-02"),
+  };
+
+  const users = [mockUser, mockOtherUser, mockModerator];
+  const comments = [mockComment, mockDeletedComment];
+
+  const createService = (options: { postVisible?: boolean } = {}) =>
+    createCommentAuthorizationService({
+      userRepository: {
+        findById: async (id: string) =>
+          ok(users.find((user) => user.id === id) ?? null),
+      },
+      commentRepository: {
+        findById: async (id: string) =>
+          ok(comments.find((comment) => comment.id === id) ?? null),
+      },
+      postAuthorizationService: {
+        canViewPost: async () =>
+          ok({ isAuthorized: options.postVisible ?? true }),
+      },
+    });
+
+  describe("canEditComment", () => {
+    it("should allow author to edit their own comment", async () => {
+      const result = await createService().canEditComment(
+        "user-1",
+        "comment-1",
+      );
+
+      expect(result._unsafeUnwrap().isAuthorized).toBe(true);
+    });
+
+    it("should deny moderators editing someone else's comment", async () => {
+      const result = await createService().canEditComment(
+        "moderator-1",
+        "comment-1",
+      );
+
+      expect(result._unsafeUnwrap()).toMatchObject({
+        isAuthorized: false,
+        requiredPermission: "comments:update:any",
+      });
+    });
+
+    it("should return error when user does not exist", async () => {
+      const result = await createService().canEditComment(
+        "nonexistent-user",
+        "comment-1",
+      );
+
+      expect(result._unsafeUnwrapErr().type).toBe("UnauthorizedError");
+    });
+
+    it("should return error when comment is deleted", async () => {
+      const result = await createService().canEditComment(
+        "user-1",
+        "comment-2",
+      );
+
+      expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+    });
+
+    it("should report comments on hidden posts as missing", async () => {
+      const result = await createService({ postVisible: false }).canEditComment(
+        "user-1",
+        "comment-1",
+      );
+
+      expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+    });
+  });
+
+  describe("canDeleteComment", () => {
+    it("should allow moderators to delete any comment", async () => {
+      const result = await createService().canDeleteComment(
+        "moderator-1",
+        "comment-1",
+      );
+
+      expect(result._unsafeUnwrap().isAuthorized).toBe(true);
+    });
+
+    it("should deny other users", async () => {
+      const result = await createService().canDeleteComment(
+        "user-2",
+        "comment-1",
+      );
+
+      expect(result._unsafeUnwrap()).toMatchObject({
+        isAuthorized: false,
+        requiredPermission: "comments:delete:any",
+      });
+    });
+  });
+});
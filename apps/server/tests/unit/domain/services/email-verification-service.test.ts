@@ -0,0 +1,100 @@
+/**
+ * Email verification service unit tests.
+ */
+
+import { describe, expect, it } from "bun:test";
+
+import { createEmailVerificationService } from "../../../../src/domain/services/email-verification-service";
+import { createInMemoryEmailVerificationTokenRepository } from "../../../../src/repositories/memory";
+import { createInMemoryMailer } from "../../../../src/utils/mailer";
+
+const user = { id: "user-1", email: "alice@example.com" };
+
+const createService = (now: () => Date = () => new Date()) => {
+  const tokenRepository = createInMemoryEmailVerificationTokenRepository();
+  const mailer = createInMemoryMailer();
+  const service = createEmailVerificationService({
+    tokenRepository,
+    mailer,
+    ttlMs: 60_000,
+    now,
+  });
+
+  const sentToken = () => mailer.sent.at(-1)?.text.trim().split("\n").at(-1);
+
+  return { service, mailer, sentToken };
+};
+
+describe("EmailVerificationService", () => {
+  it("should mail a token that can be consumed once", async () => {
+    const { service, mailer, sentToken } = createService();
+
+    const issueResult = await service.issue(user);
+    expect(issueResult.isOk()).toBe(true);
+    expect(mailer.sent).toHaveLength(1);
+    expect(mailer.sent[0]?.to).toBe(user.email);
+
+    const token = sentToken() ?? "";
+
+    const first = await service.consume(token);
+    expect(first._unsafeUnwrap()).toEqual({
+      userId: user.id,
+      email: user.email,
+    });
+
+    const second = await service.consume(token);
+    expect(second._unsafeUnwrap()).toBeNull();
+  });
+
+  it("should reject an expired token", async () => {
+    let current = new Date("2026-01-01T00:00:00Z");
+    const { service, sentToken } = createService(() => current);
+
+    await service.issue(user);
+    current = new Date("2026-01-01T00:01:01Z");
+
+    const result = await service.consume(sentToken() ?? "");
+    expect(result._unsafeUnwrap()).toBeNull();
+  });
+
+  it("should reject an unknown token", async () => {
+    const { service } = createService();
+
+    const result = await service.consume("not-a-token");
+    expect(result._unsafeUnwrap()).toBeNull();
+  });
+
+  it("should store tokens in the repository it is scoped to", async () => {
+    const { service, sentToken } = createService();
+    const scopedRepository = createInMemoryEmailVerificationTokenRepository();
+    const scoped = service.withTokenRepository(scopedRepository);
+
+    await scoped.issue(user);
+
+    expect((await service.consume(sentToken() ?? ""))._unsafeUnwrap()).toBe(
+      null,
+    );
+    expect((await scoped.consume(sentToken() ?? ""))._unsafeUnwrap()).toEqual({
+      userId: user.id,
+      email: user.email,
+    });
+  });
+
+  it("should return UnexpectedError when the mailer fails", async () => {
+    const service = createEmailVerificationService({
+      tokenRepository: createInMemoryEmailVerificationTokenRepository(),
+      mailer: {
+        async send() {
+          throw new Error("SMTP down");
+        },
+      },
+    });
+
+    const result = await service.issue(user);
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.type).toBe("UnexpectedError");
+    }
+  });
+});
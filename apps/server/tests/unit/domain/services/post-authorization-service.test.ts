@@ -14,6 +14,7 @@ describe("PostAuthorizationService", () => {
     name: "Test User",
     email: "test@example.com",
     emailVerified: new Date("2024-01-01"),
+    role: "user" as const,
     image: null,
     createdAt: new Date("2024-01-01"),
     updatedAt: new Date("2024-01-01"),
@@ -26,11 +27,26 @@ describe("PostAuthorizationService", () => {
     email: "other@example.com",
   };
 
+  const mockModerator = {
+    ...mockUser,
+    id: "moderator-1",
+    email: "moderator@example.com",
+    role: "moderator" as const,
+  };
+
+  const mockAdmin = {
+    ...mockUser,
+    id: "admin-1",
+    email: "admin@example.com",
+    role: "admin" as const,
+  };
+
   const mockPost = {
     id: "post-1",
     title: "Test Post",
     content: "Test content",
     authorId: "user-1",
+    status: "published" as const,
     createdAt: new Date("2024-01-01"),
     updatedAt: new Date("2024-01-01"),
     deletedAt: null,
@@ -42,6 +58,12 @@ describe("PostAuthorizationService", () => {
     deletedAt: new Date("2024-01-02"),
   };
 
+  const mockDraftPost = {
+    ...mockPost,
+    id: "post-3",
+    status: "draft" as const,
+  };
+
   describe("canEditPost", () => {
     it("should allow author to edit their own post", async () => {
       const mockUserRepository = {
@@ -104,7 +126,7 @@ describe("PostAuthorizationService", () => {
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
         expect(result.value.isAuthorized).toBe(false);
-        expect(result.value.reason).toContain("Only the author");
+        expect(result.value.requiredPermission).toBe("posts:update:any");
       }
     });
 
@@ -253,11 +275,66 @@ describe("PostAuthorizationService", () => {
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
         expect(result.value.isAuthorized).toBe(false);
-        expect(result.value.reason).toContain("Only the author");
+        expect(result.value.requiredPermission).toBe("posts:delete:any");
       }
     });
   });
 
+  describe("role permissions", () => {
+    const createService = () =>
+      createPostAuthorizationService({
+        userRepository: {
+          findById: async (id: string) =>
+            ok([mockModerator, mockAdmin].find((u) => u.id === id) ?? null),
+        },
+        postRepository: {
+          findById: async (id: string) =>
+            ok(id === mockPost.id ? mockPost : null),
+        },
+      });
+
+    it("should allow a moderator to delete another user's post", async () => {
+      const result = await createService().canDeletePost(
+        "moderator-1",
+        "post-1",
+      );
+
+      expect(result._unsafeUnwrap().isAuthorized).toBe(true);
+    });
+
+    it("should deny a moderator editing another user's post", async () => {
+      const result = await createService().canEditPost("moderator-1", "post-1");
+
+      expect(result._unsafeUnwrap()).toMatchObject({
+        isAuthorized: false,
+        requiredPermission: "posts:update:any",
+      });
+    });
+
+    it("should allow an admin to edit and delete any post", async () => {
+      const service = createService();
+
+      const edit = await service.canEditPost("admin-1", "post-1");
+      const remove = await service.canDeletePost("admin-1", "post-1");
+
+      expect(edit._unsafeUnwrap().isAuthorized).toBe(true);
+      expect(remove._unsafeUnwrap().isAuthorized).toBe(true);
+    });
+
+    it("should only allow admins to restore posts", async () => {
+      const service = createService();
+
+      const moderator = await service.canRestorePosts("moderator-1");
+      const admin = await service.canRestorePosts("admin-1");
+
+      expect(moderator._unsafeUnwrap()).toMatchObject({
+        isAuthorized: false,
+        requiredPermission: "posts:restore",
+      });
+      expect(admin._unsafeUnwrap().isAuthorized).toBe(true);
+    });
+  });
+
   describe("canViewPost", () => {
     it("should allow viewing non-deleted post", async () => {
       const mockUserRepository = {
@@ -334,5 +411,58 @@ describe("PostAuthorizationService", () => {
         expect(result.error.type).toBe("NotFoundError");
       }
     });
+
+    describe("drafts", () => {
+      const service = createPostAuthorizationService({
+        userRepository: {
+          findById: async (id: string) =>
+            ok(
+              [mockUser, mockOtherUser, mockModerator, mockAdmin].find(
+                (user) => user.id === id,
+              ) ?? null,
+            ),
+        },
+        postRepository: {
+          findById: async (id: string) =>
+            ok(id === mockDraftPost.id ? mockDraftPost : null),
+        },
+      });
+
+      it("should allow the author to view their draft", async () => {
+        const result = await service.canViewPost("post-3", "user-1");
+
+        expect(result._unsafeUnwrap().isAuthorized).toBe(true);
+      });
+
+      it("should hide a draft from anonymous viewers", async () => {
+        const result = await service.canViewPost("post-3");
+
+        expect(result._unsafeUnwrap().isAuthorized).toBe(false);
+      });
+
+      it("should hide a draft from other users and moderators", async () => {
+        const other = await service.canViewPost("post-3", "user-2");
+        const moderator = await service.canViewPost("post-3", "moderator-1");
+
+        expect(other._unsafeUnwrap()).toEqual({
+          isAuthorized: false,
+          reason: "This post is a draft",
+          requiredPermission: "posts:update:any",
+        });
+        expect(moderator._unsafeUnwrap().isAuthorized).toBe(false);
+      });
+
+      it("should let admins view any draft", async () => {
+        const result = await service.canViewPost("post-3", "admin-1");
+
+        expect(result._unsafeUnwrap().isAuthorized).toBe(true);
+      });
+
+      it("should treat an unknown viewer as anonymous", async () => {
+        const result = await service.canViewPost("post-3", "ghost");
+
+        expect(result._unsafeUnwrap().isAuthorized).toBe(false);
+      });
+    });
   });
 });
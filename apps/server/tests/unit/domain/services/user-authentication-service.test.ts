@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, it } from "bun:test";
-import { err, ok } from "neverthrow";
+import { ok } from "neverthrow";
 
 import { createUserAuthenticationService } from "../../../../src/domain/services/user-authentication-service";
 
@@ -27,121 +27,6 @@ describe("UserAuthenticationService", () => {
     deletedAt: new Date("2024-01-02"),
   };
 
-  describe("authenticateByEmail", () => {
-    it("should return user when email exists and is verified", async () => {
-      const mockUserRepository = {
-        findByEmail: async (email: string) => {
-          if (email === mockUser.email) {
-            return ok(mockUser);
-          }
-          return ok(null);
-        },
-      };
-
-      const service = createUserAuthenticationService({
-        userRepository: mockUserRepository,
-      });
-
-      const result = await service.authenticateByEmail({
-        email: "test@example.com",
-      });
-
-      expect(result.isOk()).toBe(true);
-      if (result.isOk()) {
-        expect(result.value).not.toBeNull();
-        expect(result.value?.user.email).toBe("test@example.com");
-        expect(result.value?.isEmailVerified).toBe(true);
-      }
-    });
-
-    it("should return null when user does not exist", async () => {
-      const mockUserRepository = {
-        findByEmail: async () => ok(null),
-      };
-
-      const service = createUserAuthenticationService({
-        userRepository: mockUserRepository,
-      });
-
-      const result = await service.authenticateByEmail({
-        email: "nonexistent@example.com",
-      });
-
-      expect(result.isOk()).toBe(true);
-      if (result.isOk()) {
-        expect(result.value).toBeNull();
-      }
-    });
-
-    it("should return null when user is soft-deleted", async () => {
-      const mockUserRepository = {
-        findByEmail: async (email: string) => {
-          if (email === mockDeletedUser.email) {
-            return ok(mockDeletedUser);
-          }
-          return ok(null);
-        },
-      };
-
-      const service = createUserAuthenticationService({
-        userRepository: mockUserRepository,
-      });
-
-      const result = await service.authenticateByEmail({
-        email: "deleted@example.com",
-      });
-
-      expect(result.isOk()).toBe(true);
-      if (result.isOk()) {
-        expect(result.value).toBeNull();
-      }
-    });
-
-    it("should return error when email format is invalid", async () => {
-      const mockUserRepository = {
-        findByEmail: async () => ok(null),
-      };
-
-      const service = createUserAuthenticationService({
-        userRepository: mockUserRepository,
-      });
-
-      const result = await service.authenticateByEmail({
-        email: "invalid-email",
-      });
-
-      expect(result.isErr()).toBe(true);
-      if (result.isErr()) {
-        expect(result.error.type).toBe("ValidationError");
-        expect(result.error.message).toContain("Invalid email format");
-      }
-    });
-
-    it("should return error when repository fails", async () => {
-      const mockUserRepository = {
-        findByEmail: async () =>
-          err({
-            type: "UnexpectedError",
-            message: "Database connection failed",
-          }),
-      };
-
-      const service = createUserAuthenticationService({
-        userRepository: mockUserRepository,
-      });
-
-      const result = await service.authenticateByEmail({
-        email: "test@example.com",
-      });
-
-      expect(result.isErr()).toBe(true);
-      if (result.isErr()) {
-        expect(result.error.type).toBe("ValidationError");
-        expect(result.error.message).toContain("Failed to find user");
-      }
-    });
-  });
-
   describe("isEmailAvailable", () => {
     it("should return true when email is not taken", async () => {
       const mockUserRepository = {
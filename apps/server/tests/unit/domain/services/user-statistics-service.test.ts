@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, it } from "bun:test";
-import { ok } from "neverthrow";
+import { err, ok } from "neverthrow";
 
 import { createUserStatisticsService } from "../../../../src/domain/services/user-statistics-service";
 
@@ -14,6 +14,7 @@ describe("UserStatisticsService", () => {
     name: "Test User",
     email: "test@example.com",
     emailVerified: new Date("2024-01-01"),
+    role: "user" as const,
     image: null,
     createdAt: new Date("2024-01-01"),
     updatedAt: new Date("2024-01-01"),
@@ -26,70 +27,72 @@ describe("UserStatisticsService", () => {
     email: "other@example.com",
   };
 
-  const mockDeletedUser = {
+  const mockModerator = {
     ...mockUser,
-    id: "user-3",
-    email: "deleted@example.com",
-    deletedAt: new Date("2024-01-02"),
+    id: "moderator-1",
+    email: "moderator@example.com",
+    role: "moderator" as const,
   };
 
-  const mockPosts = [
-    {
-      id: "post-1",
-      title: "First Post",
-      content: "This is the first post content",
-      authorId: "user-1",
-      createdAt: new Date("2024-01-01"),
-      updatedAt: new Date("2024-01-01"),
-      deletedAt: null,
-    },
-    {
-      id: "post-2",
-      title: "Second Post",
-      content: "This is the second post content with more text",
-      authorId: "user-1",
-      createdAt: new Date("2024-01-02"),
-      updatedAt: new Date("2024-01-02"),
-      deletedAt: null,
-    },
-    {
-      id: "post-3",
-      title: "Deleted Post",
-      content: "This post was deleted",
-      authorId: "user-1",
-      createdAt: new Date("2024-01-03"),
-      updatedAt: new Date("2024-01-03"),
-      deletedAt: new Date("2024-01-04"),
-    },
-  ];
+  const mockUserRepository = {
+    findById: async (id: string) =>
+      ok(
+        [mockUser, mockOtherUser, mockModerator].find(
+          (user) => user.id === id,
+        ) ?? null,
+      ),
+  };
+
+  const noPosts: {
+    totalPosts: number;
+    activePosts: number;
+    deletedPosts: number;
+    averagePostLength: number;
+    firstPostDate: Date | null;
+    lastPostDate: Date | null;
+  } = {
+    totalPosts: 0,
+    activePosts: 0,
+    deletedPosts: 0,
+    averagePostLength: 0,
+    firstPostDate: null,
+    lastPostDate: null,
+  };
+
+  const emptySite = {
+    totalUsers: 0,
+    activeUsers: 0,
+    deletedUsers: 0,
+    totalPosts: 0,
+    activePosts: 0,
+    deletedPosts: 0,
+  };
+
+  const createService = (
+    aggregates: {
+      posts?: typeof noPosts;
+      site?: typeof emptySite;
+    } = {},
+  ) =>
+    createUserStatisticsService({
+      userRepository: mockUserRepository,
+      userStatisticsQuery: {
+        aggregateAuthorPosts: async () => ok(aggregates.posts ?? noPosts),
+        aggregateSite: async () => ok(aggregates.site ?? emptySite),
+      },
+    });
 
   describe("getUserStatistics", () => {
-    it("should calculate statistics for user with posts", async () => {
-      const mockUserRepository = {
-        findById: async (id: string) => {
-          if (id === mockUser.id) {
-            return ok(mockUser);
-          }
-          return ok(null);
+    it("should report statistics including deleted posts", async () => {
+      const service = createService({
+        posts: {
+          totalPosts: 3,
+          activePosts: 2,
+          deletedPosts: 1,
+          averagePostLength: 38.5,
+          firstPostDate: new Date("2024-01-01"),
+          lastPostDate: new Date("2024-01-03"),
         },
-        findAll: async () => ok({ users: [mockUser], total: 1 }),
-      };
-
-      const mockPostRepository = {
-        findAll: async (options: { authorId?: string }) => {
-          if (options.authorId === "user-1") {
-            return ok({
-              posts: mockPosts,
-              total: mockPosts.length,
-            });
-          }
-          return ok({ posts: [], total: 0 });
-        },
-      };
-
-      const service = createUserStatisticsService({
-        userRepository: mockUserRepository,
-        postRepository: mockPostRepository,
       });
 
       const result = await service.getUserStatistics("user-1");
@@ -108,26 +111,7 @@ describe("UserStatisticsService", () => {
     });
 
     it("should handle user with no posts", async () => {
-      const mockUserRepository = {
-        findById: async (id: string) => {
-          if (id === mockOtherUser.id) {
-            return ok(mockOtherUser);
-          }
-          return ok(null);
-        },
-        findAll: async () => ok({ users: [mockOtherUser], total: 1 }),
-      };
-
-      const mockPostRepository = {
-        findAll: async () => ok({ posts: [], total: 0 }),
-      };
-
-      const service = createUserStatisticsService({
-        userRepository: mockUserRepository,
-        postRepository: mockPostRepository,
-      });
-
-      const result = await service.getUserStatistics("user-2");
+      const result = await createService().getUserStatistics("user-2");
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
@@ -143,21 +127,8 @@ describe("UserStatisticsService", () => {
     });
 
     it("should return error when user does not exist", async () => {
-      const mockUserRepository = {
-        findById: async () => ok(null),
-        findAll: async () => ok({ users: [], total: 0 }),
-      };
-
-      const mockPostRepository = {
-        findAll: async () => ok({ posts: [], total: 0 }),
-      };
-
-      const service = createUserStatisticsService({
-        userRepository: mockUserRepository,
-        postRepository: mockPostRepository,
-      });
-
-      const result = await service.getUserStatistics("nonexistent-user");
+      const result =
+        await createService().getUserStatistics("nonexistent-user");
 
       expect(result.isErr()).toBe(true);
       if (result.isErr()) {
@@ -165,49 +136,14 @@ describe("UserStatisticsService", () => {
       }
     });
 
-    it("should calculate correct average post length", async () => {
-      const postsWithKnownLengths = [
-        {
-          id: "post-1",
-          title: "Post 1",
-          content: "12345", // 5 chars
-          authorId: "user-1",
-          createdAt: new Date("2024-01-01"),
-          updatedAt: new Date("2024-01-01"),
-          deletedAt: null,
-        },
-        {
-          id: "post-2",
-          title: "Post 2",
-          content: "1234567890", // 10 chars
-          authorId: "user-1",
-          createdAt: new Date("2024-01-02"),
-          updatedAt: new Date("2024-01-02"),
-          deletedAt: null,
+    it("should round the average post length", async () => {
+      const service = createService({
+        posts: {
+          ...noPosts,
+          totalPosts: 2,
+          activePosts: 2,
+          averagePostLength: 7.5,
         },
-      ];
-
-      const mockUserRepository = {
-        findById: async (id: string) => {
-          if (id === mockUser.id) {
-            return ok(mockUser);
-          }
-          return ok(null);
-        },
-        findAll: async () => ok({ users: [mockUser], total: 1 }),
-      };
-
-      const mockPostRepository = {
-        findAll: async () =>
-          ok({
-            posts: postsWithKnownLengths,
-            total: postsWithKnownLengths.length,
-          }),
-      };
-
-      const service = createUserStatisticsService({
-        userRepository: mockUserRepository,
-        postRepository: mockPostRepository,
       });
 
       const result = await service.getUserStatistics("user-1");
@@ -218,32 +154,64 @@ describe("UserStatisticsService", () => {
         expect(result.value.averagePostLength).toBe(8);
       }
     });
-  });
 
-  describe("getUsersSummary", () => {
-    it("should calculate summary statistics for all users", async () => {
-      const allUsers = [mockUser, mockOtherUser, mockDeletedUser];
-
-      const mockUserRepository = {
-        findAll: async () =>
-          ok({
-            users: allUsers,
-            total: allUsers.length,
-          }),
-        findById: async () => ok(null),
-      };
-
-      const mockPostRepository = {
-        findAll: async () =>
-          ok({
-            posts: mockPosts,
-            total: mockPosts.length,
-          }),
-      };
+    it("should return error when aggregation fails", async () => {
+      const service = createUserStatisticsService({
+        userRepository: mockUserRepository,
+        userStatisticsQuery: {
+          aggregateAuthorPosts: async () => err({ message: "boom" }),
+          aggregateSite: async () => ok(emptySite),
+        },
+      });
+
+      const result = await service.getUserStatistics("user-1");
+
+      expect(result._unsafeUnwrapErr().type).toBe("UnexpectedError");
+    });
+  });
 
+  describe("unpublished posts", () => {
+    const publishedOnlyFor = async (viewerId?: string) => {
+      let publishedOnly: boolean | undefined;
       const service = createUserStatisticsService({
         userRepository: mockUserRepository,
-        postRepository: mockPostRepository,
+        userStatisticsQuery: {
+          aggregateAuthorPosts: async (_authorId, options) => {
+            publishedOnly = options?.publishedOnly;
+            return ok(noPosts);
+          },
+          aggregateSite: async () => ok(emptySite),
+        },
+      });
+
+      (await service.getUserStatistics("user-1", viewerId))._unsafeUnwrap();
+
+      return publishedOnly;
+    };
+
+    it("should count them for the user and moderators", async () => {
+      expect(await publishedOnlyFor("user-1")).toBe(false);
+      expect(await publishedOnlyFor("moderator-1")).toBe(false);
+    });
+
+    it("should only count published posts for anyone else", async () => {
+      expect(await publishedOnlyFor()).toBe(true);
+      expect(await publishedOnlyFor("user-2")).toBe(true);
+      expect(await publishedOnlyFor("ghost")).toBe(true);
+    });
+  });
+
+  describe("getUsersSummary", () => {
+    it("should calculate summary statistics for all users", async () => {
+      const service = createService({
+        site: {
+          totalUsers: 3,
+          activeUsers: 2,
+          deletedUsers: 1,
+          totalPosts: 3,
+          activePosts: 2,
+          deletedPosts: 1,
+        },
       });
 
       const result = await service.getUsersSummary();
@@ -255,26 +223,13 @@ describe("UserStatisticsService", () => {
         expect(summary.activeUsers).toBe(2);
         expect(summary.deletedUsers).toBe(1);
         expect(summary.totalPosts).toBe(3);
+        expect(summary.deletedPosts).toBe(1);
         expect(summary.averagePostsPerUser).toBeGreaterThan(0);
       }
     });
 
     it("should handle empty database", async () => {
-      const mockUserRepository = {
-        findAll: async () => ok({ users: [], total: 0 }),
-        findById: async () => ok(null),
-      };
-
-      const mockPostRepository = {
-        findAll: async () => ok({ posts: [], total: 0 }),
-      };
-
-      const service = createUserStatisticsService({
-        userRepository: mockUserRepository,
-        postRepository: mockPostRepository,
-      });
-
-      const result = await service.getUsersSummary();
+      const result = await createService().getUsersSummary();
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
@@ -288,35 +243,22 @@ describe("UserStatisticsService", () => {
     });
 
     it("should calculate correct average posts per user", async () => {
-      const users = [mockUser, mockOtherUser]; // 2 active users
-
-      const mockUserRepository = {
-        findAll: async () =>
-          ok({
-            users,
-            total: users.length,
-          }),
-        findById: async () => ok(null),
-      };
-
-      const mockPostRepository = {
-        findAll: async () =>
-          ok({
-            posts: mockPosts.slice(0, 2), // 2 posts
-            total: 2,
-          }),
-      };
-
-      const service = createUserStatisticsService({
-        userRepository: mockUserRepository,
-        postRepository: mockPostRepository,
+      const service = createService({
+        site: {
+          ...emptySite,
+          totalUsers: 2,
+          activeUsers: 2,
+          totalPosts: 3,
+          activePosts: 2,
+          deletedPosts: 1,
+        },
       });
 
       const result = await service.getUsersSummary();
 
       expect(result.isOk()).toBe(true);
       if (result.isOk()) {
-        // 2 posts / 2 active users = 1.0
+        // 2 active posts / 2 active users = 1.0
         expect(result.value.averagePostsPerUser).toBe(1.0);
       }
     });
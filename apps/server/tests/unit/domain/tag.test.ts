@@ -0,0 +1,32 @@
+/**
+ * Tag normalization unit tests.
+ */
+
+import { describe, expect, it } from "bun:test";
+
+import { normalizeTag, normalizeTags } from "../../../src/domain/tag";
+
+describe("normalizeTag", () => {
+  it("should lowercase and dash-separate words", () => {
+    expect(normalizeTag("Type Script")).toBe("type-script");
+    expect(normalizeTag("  C++ / Rust  ")).toBe("c-rust");
+  });
+
+  it("should strip accents", () => {
+    expect(normalizeTag("Café Crème")).toBe("cafe-creme");
+  });
+
+  it("should return an empty string when nothing usable is left", () => {
+    expect(normalizeTag("!!!")).toBe("");
+    expect(normalizeTag("日本語")).toBe("");
+  });
+});
+
+describe("normalizeTags", () => {
+  it("should merge duplicates, drop empty tags and sort", () => {
+    expect(normalizeTags(["Hono", "bun", "hono", "???", "BUN"])).toEqual([
+      "bun",
+      "hono",
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Retention tests.
+ * Schedules purges onto an in-memory queue and runs them through the worker.
+ */
+
+import { beforeEach, describe, expect, it } from "bun:test";
+
+import {
+  createJobWorker,
+  createPurgeDeletedRecordsHandler,
+  createRetentionScheduler,
+} from "../../../src/jobs";
+import {
+  createInMemoryJobRepository,
+  createInMemoryPostRepository,
+  createInMemoryUserRepository,
+} from "../../../src/repositories/memory";
+import { PURGE_DELETED_RECORDS_JOB } from "../../../src/usecases/purge-deleted-records";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("retention purge", () => {
+  const jobRepository = createInMemoryJobRepository();
+  const userRepository = createInMemoryUserRepository();
+  const postRepository = createInMemoryPostRepository();
+  let errors: string[];
+
+  /**
+   * Run the queued jobs as if `days` had passed since now.
+   */
+  const runJobsAfter = async (days: number) => {
+    const later = new Date(Date.now() + days * DAY_MS);
+    const worker = createJobWorker({
+      jobRepository,
+      handlers: {
+        [PURGE_DELETED_RECORDS_JOB]: createPurgeDeletedRecordsHandler({
+          userRepository,
+          postRepository,
+          jobRepository,
+          now: () => later,
+        }),
+      },
+      now: () => later,
+      onError: (message) => errors.push(message),
+    });
+
+    return worker.runDueJobs();
+  };
+
+  const createUser = async (name: string) =>
+    (
+      await userRepository.create({
+        name,
+        email: `${name.toLowerCase()}@example.com`,
+      })
+    )._unsafeUnwrap();
+
+  beforeEach(() => {
+    jobRepository.clear();
+    userRepository.clear();
+    postRepository.clear();
+    errors = [];
+  });
+
+  it("should hard delete records soft-deleted before the retention period", async () => {
+    const gone = await createUser("Gone");
+    const kept = await createUser("Kept");
+    const post = (
+      await postRepository.create({
+        title: "Post",
+        content: "Content",
+        authorId: kept.id,
+      })
+    )._unsafeUnwrap();
+    await userRepository.delete(gone.id);
+    await postRepository.delete(post.id);
+
+    await createRetentionScheduler({
+      jobRepository,
+      retentionDays: 30,
+    }).schedulePurge();
+
+    expect(await runJobsAfter(31)).toBe(1);
+
+    expect(errors).toEqual([]);
+    expect(
+      (await userRepository.findByIdIncludingDeleted(gone.id))._unsafeUnwrap(),
+    ).toBeNull();
+    expect(
+      (await postRepository.findByIdIncludingDeleted(post.id))._unsafeUnwrap(),
+    ).toBeNull();
+    expect((await userRepository.findById(kept.id))._unsafeUnwrap()).not.toBe(
+      null,
+    );
+  });
+
+  it("should keep records deleted within the retention period", async () => {
+    const user = await createUser("Recent");
+    await userRepository.delete(user.id);
+
+    await createRetentionScheduler({
+      jobRepository,
+      retentionDays: 30,
+    }).schedulePurge();
+
+    expect(await runJobsAfter(29)).toBe(1);
+
+    expect(
+      (await userRepository.findByIdIncludingDeleted(user.id))._unsafeUnwrap(),
+    ).not.toBeNull();
+  });
+
+  it("should delete settled jobs older than the retention period", async () => {
+    const enqueuePurge = async () =>
+      (
+        await jobRepository.enqueue({
+          type: PURGE_DELETED_RECORDS_JOB,
+          payload: { retentionDays: 30 },
+          runAt: new Date(),
+        })
+      )._unsafeUnwrap();
+
+    const first = await enqueuePurge();
+    await runJobsAfter(0);
+
+    const second = await enqueuePurge();
+    await runJobsAfter(31);
+
+    expect(errors).toEqual([]);
+    expect((await jobRepository.findById(first.id))._unsafeUnwrap()).toBeNull();
+    expect(
+      (await jobRepository.findById(second.id))._unsafeUnwrap()?.status,
+    ).toBe("completed");
+  });
+
+  it("should fail a job with a malformed payload for good", async () => {
+    const job = (
+      await jobRepository.enqueue({
+        type: PURGE_DELETED_RECORDS_JOB,
+        payload: { retentionDays: 0 },
+        runAt: new Date(),
+      })
+    )._unsafeUnwrap();
+
+    await runJobsAfter(0);
+
+    expect((await jobRepository.findById(job.id))._unsafeUnwrap()?.status).toBe(
+      "failed",
+    );
+  });
+
+  it("should enqueue a purge on start and on every interval", async () => {
+    const scheduler = createRetentionScheduler({
+      jobRepository,
+      retentionDays: 7,
+      intervalMs: 10,
+    });
+
+    scheduler.start();
+    scheduler.start();
+    await Bun.sleep(35);
+    scheduler.stop();
+
+    const claimed = (
+      await jobRepository.claim({
+        now: new Date(Date.now() + 1000),
+        limit: 100,
+        lockedUntil: new Date(Date.now() + 60_000),
+      })
+    )._unsafeUnwrap();
+
+    expect(claimed.length).toBeGreaterThanOrEqual(2);
+    expect(claimed[0]).toMatchObject({
+      type: PURGE_DELETED_RECORDS_JOB,
+      payload: { retentionDays: 7 },
+    });
+  });
+});
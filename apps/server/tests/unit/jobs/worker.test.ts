@@ -0,0 +1,168 @@
+/**
+ * Job worker tests.
+ * Runs jobs from an in-memory queue with a fixed clock.
+ */
+
+import { beforeEach, describe, expect, it } from "bun:test";
+
+import { err, ok } from "neverthrow";
+
+import {
+  type JobHandler,
+  type JobWorkerOptions,
+  computeRetryDelay,
+  createJobWorker,
+} from "../../../src/jobs";
+import { createInMemoryJobRepository } from "../../../src/repositories/memory";
+
+const NOW = new Date("2030-01-01T00:00:00.000Z");
+
+describe("computeRetryDelay", () => {
+  it("should double the delay per attempt", () => {
+    expect(computeRetryDelay(1)).toBe(1000);
+    expect(computeRetryDelay(2)).toBe(2000);
+    expect(computeRetryDelay(4, { baseMs: 100 })).toBe(800);
+  });
+
+  it("should cap the delay", () => {
+    expect(computeRetryDelay(30)).toBe(15 * 60 * 1000);
+    expect(computeRetryDelay(5, { baseMs: 1000, maxMs: 3000 })).toBe(3000);
+  });
+});
+
+describe("createJobWorker", () => {
+  const jobRepository = createInMemoryJobRepository();
+  let errors: string[];
+
+  const createWorker = (
+    handlers: Record<string, JobHandler>,
+    options: Partial<JobWorkerOptions> = {},
+  ) =>
+    createJobWorker({
+      jobRepository,
+      handlers,
+      now: () => NOW,
+      onError: (message) => errors.push(message),
+      ...options,
+    });
+
+  const enqueue = async (type = "test.job", maxAttempts?: number) =>
+    (
+      await jobRepository.enqueue({
+        type,
+        payload: { value: 1 },
+        runAt: NOW,
+        maxAttempts,
+      })
+    )._unsafeUnwrap();
+
+  const statusOf = async (id: string) =>
+    (await jobRepository.findById(id))._unsafeUnwrap();
+
+  beforeEach(() => {
+    jobRepository.clear();
+    errors = [];
+  });
+
+  it("should run due jobs and complete them", async () => {
+    const seen: unknown[] = [];
+    const job = await enqueue();
+    const worker = createWorker({
+      "test.job": async (claimed) => {
+        seen.push(claimed.payload);
+        return ok(undefined);
+      },
+    });
+
+    expect(await worker.runDueJobs()).toBe(1);
+
+    expect(seen).toEqual([{ value: 1 }]);
+    expect((await statusOf(job.id))?.status).toBe("completed");
+    expect(await worker.runDueJobs()).toBe(0);
+  });
+
+  it("should retry a failed job with backoff", async () => {
+    const job = await enqueue();
+    const worker = createWorker(
+      { "test.job": async () => err({ message: "temporarily down" }) },
+      { backoff: { baseMs: 500 } },
+    );
+
+    await worker.runDueJobs();
+
+    const retried = await statusOf(job.id);
+    expect(retried?.status).toBe("pending");
+    expect(retried?.runAt).toEqual(new Date(NOW.getTime() + 500));
+    expect(retried?.lastError).toBe("temporarily down");
+    expect(errors).toEqual(["temporarily down"]);
+  });
+
+  it("should treat a thrown error as a retryable failure", async () => {
+    const job = await enqueue();
+    const worker = createWorker({
+      "test.job": async () => {
+        throw new Error("crashed");
+      },
+    });
+
+    await worker.runDueJobs();
+
+    const retried = await statusOf(job.id);
+    expect(retried?.status).toBe("pending");
+    expect(retried?.lastError).toBe("crashed");
+  });
+
+  it("should fail a job once its attempts are used up", async () => {
+    const job = await enqueue("test.job", 2);
+    let clock = NOW;
+    const worker = createWorker(
+      { "test.job": async () => err({ message: "still down" }) },
+      { now: () => clock },
+    );
+
+    await worker.runDueJobs();
+    clock = new Date(NOW.getTime() + 60 * 1000);
+    await worker.runDueJobs();
+
+    const failed = await statusOf(job.id);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.attempts).toBe(2);
+  });
+
+  it("should fail a permanent failure without retrying", async () => {
+    const job = await enqueue();
+    const worker = createWorker({
+      "test.job": async () => err({ message: "bad payload", permanent: true }),
+    });
+
+    await worker.runDueJobs();
+
+    const failed = await statusOf(job.id);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.attempts).toBe(1);
+  });
+
+  it("should fail jobs of an unknown type", async () => {
+    const job = await enqueue("unknown.job");
+    const worker = createWorker({});
+
+    await worker.runDueJobs();
+
+    expect((await statusOf(job.id))?.status).toBe("failed");
+    expect(errors).toEqual(["No handler for job type 'unknown.job'"]);
+  });
+
+  it("should poll until stopped", async () => {
+    const job = await enqueue();
+    const worker = createWorker(
+      { "test.job": async () => ok(undefined) },
+      { pollIntervalMs: 5 },
+    );
+
+    worker.start();
+    await Bun.sleep(20);
+    await worker.stop();
+
+    expect((await statusOf(job.id))?.status).toBe("completed");
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Authentication middleware and session token tests.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+
+import {
+  type AuthEnv,
+  authenticate,
+  getPrincipal,
+  requireAuthentication,
+} from "../../../src/middleware/authentication";
+import {
+  createSessionTokenAuthenticator,
+  createSessionTokenService,
+} from "../../../src/middleware/session-token";
+
+const SECRET = "test-secret-that-is-at-least-32-characters";
+
+const createTestApp = () => {
+  const sessionTokenService = createSessionTokenService({ secret: SECRET });
+  const app = new Hono<AuthEnv>();
+
+  app.use(
+    "*",
+    authenticate(createSessionTokenAuthenticator(sessionTokenService)),
+  );
+  app.get("/public", (c) => c.json({ principal: c.get("principal") }));
+  app.get("/private", requireAuthentication(), (c) =>
+    c.json({ userId: getPrincipal(c).userId }),
+  );
+
+  return { app, sessionTokenService };
+};
+
+describe("createSessionTokenService", () => {
+  it("should verify a token it issued", async () => {
+    const service = createSessionTokenService({ secret: SECRET });
+
+    const token = await service.issue({ userId: "user-1", sessionVersion: 0 });
+    const result = await service.verify(token);
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.userId).toBe("user-1");
+    }
+  });
+
+  it("should reject a token signed with another secret", async () => {
+    const issuer = createSessionTokenService({
+      secret: "another-secret-that-is-at-least-32-chars",
+    });
+    const verifier = createSessionTokenService({ secret: SECRET });
+
+    const token = await issuer.issue({ userId: "user-1", sessionVersion: 0 });
+    const result = await verifier.verify(token);
+
+    expect(result.isErr()).toBe(true);
+    if (result.isErr()) {
+      expect(result.error.type).toBe("UnauthorizedError");
+    }
+  });
+
+  it("should reject an expired token", async () => {
+    const service = createSessionTokenService({
+      secret: SECRET,
+      ttlSeconds: 60,
+      now: () => new Date(Date.now() - 120_000),
+    });
+
+    const token = await service.issue({ userId: "user-1", sessionVersion: 0 });
+    const result = await service.verify(token);
+
+    expect(result.isErr()).toBe(true);
+  });
+
+  it("should reject a tampered token", async () => {
+    const service = createSessionTokenService({ secret: SECRET });
+
+    const token = await service.issue({ userId: "user-1", sessionVersion: 0 });
+    const [header, , signature] = token.split(".");
+    const forgedPayload = btoa(JSON.stringify({ sub: "admin" }))
+      .replace(/=+$/, "")
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_");
+    const result = await service.verify(
+      `${header}.${forgedPayload}.${signature}`,
+    );
+
+    expect(result.isErr()).toBe(true);
+  });
+});
+
+describe("authentication middleware", () => {
+  it("should leave anonymous requests without a principal", async () => {
+    const { app } = createTestApp();
+
+    const response = await app.request("/public");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ principal: null });
+  });
+
+  it("should expose the principal for a valid bearer token", async () => {
+    const { app, sessionTokenService } = createTestApp();
+    const token = await sessionTokenService.issue({
+      userId: "user-1",
+      sessionVersion: 0,
+    });
+
+    const response = await app.request("/private", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ userId: "user-1" });
+  });
+
+  it("should return 401 for an invalid bearer token", async () => {
+    const { app } = createTestApp();
+
+    const response = await app.request("/public", {
+      headers: { Authorization: "Bearer not-a-token" },
+    });
+
+    expect(response.status).toBe(401);
+
+    const body = (await response.json()) as { type: string };
+    expect(body.type).toBe("urn:app:error:unauthorized");
+  });
+
+  it("should return 401 from requireAuthentication for anonymous requests", async () => {
+    const { app } = createTestApp();
+
+    const response = await app.request("/private");
+
+    expect(response.status).toBe(401);
+  });
+});
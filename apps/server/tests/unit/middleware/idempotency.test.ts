@@ -0,0 +1,213 @@
+/**
+ * Idempotency middleware tests.
+ * Uses a small Hono app with a counting handler, plus POST /posts wired
+ * through createApp.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { Hono } from "hono";
+
+import { createApp } from "../../../src/app";
+import {
+  authenticate,
+  type AuthEnv,
+} from "../../../src/middleware/authentication";
+import { idempotency } from "../../../src/middleware/idempotency";
+import { createInMemoryIdempotencyKeyRepository } from "../../../src/repositories/memory";
+import type { Post } from "../../../src/repositories/interfaces/post-repository";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { authHeaders, createFakeAuthenticator } from "../../helpers/auth";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+const createTestApp = (status = 201) => {
+  const repository = createInMemoryIdempotencyKeyRepository();
+  const app = new Hono<AuthEnv>();
+  let calls = 0;
+
+  app.use("*", authenticate(createFakeAuthenticator()));
+  app.post("/things", idempotency({ repository }), async (c) => {
+    calls++;
+    const body = await c.req.json<{ name: string }>();
+    c.header("ETag", `"${calls}"`);
+
+    return c.json({ name: body.name, calls }, status as 201);
+  });
+
+  return { app, repository, calls: () => calls };
+};
+
+const postThing = (
+  app: Hono<AuthEnv>,
+  name: string,
+  headers: Record<string, string> = {},
+) =>
+  app.request("/things", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders("user-1"),
+      ...headers,
+    },
+    body: JSON.stringify({ name }),
+  });
+
+describe("idempotency middleware", () => {
+  it("should pass requests without a key through", async () => {
+    const { app, calls } = createTestApp();
+
+    await postThing(app, "a");
+    await postThing(app, "a");
+
+    expect(calls()).toBe(2);
+  });
+
+  it("should replay the stored response for a retried key", async () => {
+    const { app, calls } = createTestApp();
+
+    const first = await postThing(app, "a", { "Idempotency-Key": "k1" });
+    const second = await postThing(app, "a", { "Idempotency-Key": "k1" });
+
+    expect(calls()).toBe(1);
+    expect(second.status).toBe(201);
+    expect(await second.json()).toEqual(await first.json());
+    expect(second.headers.get("ETag")).toBe('"1"');
+    expect(second.headers.get("Content-Type")).toContain("application/json");
+    expect(second.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(first.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("should reject a reused key with a different payload with 422", async () => {
+    const { app, calls } = createTestApp();
+
+    await postThing(app, "a", { "Idempotency-Key": "k1" });
+    const response = await postThing(app, "b", { "Idempotency-Key": "k1" });
+
+    expect(calls()).toBe(1);
+    expect(response.status).toBe(422);
+    expect(response.headers.get("Content-Type")).toContain(
+      "application/problem+json",
+    );
+
+    const body = (await response.json()) as { type: string };
+    expect(body.type).toBe("urn:app:error:idempotency-key-reused");
+  });
+
+  it("should keep keys of different users apart", async () => {
+    const { app, calls } = createTestApp();
+
+    await postThing(app, "a", { "Idempotency-Key": "k1" });
+    const response = await postThing(app, "a", {
+      "Idempotency-Key": "k1",
+      ...authHeaders("user-2"),
+    });
+
+    expect(calls()).toBe(2);
+    expect(response.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("should reply 409 while the first request is in progress", async () => {
+    const { app, repository, calls } = createTestApp();
+    const body = JSON.stringify({ name: "a" });
+    const fingerprint = new Bun.CryptoHasher("sha256")
+      .update(`POST /things\n${body}`)
+      .digest("hex");
+
+    await repository.reserve(
+      {
+        userId: "user-1",
+        key: "k1",
+        fingerprint,
+        expiresAt: new Date(Date.now() + 60_000),
+      },
+      new Date(),
+    );
+
+    const response = await postThing(app, "a", { "Idempotency-Key": "k1" });
+
+    expect(calls()).toBe(0);
+    expect(response.status).toBe(409);
+  });
+
+  it("should not store server errors", async () => {
+    const { app, calls } = createTestApp(500);
+
+    await postThing(app, "a", { "Idempotency-Key": "k1" });
+    await postThing(app, "a", { "Idempotency-Key": "k1" });
+
+    expect(calls()).toBe(2);
+  });
+
+  it("should reject a malformed key with 400", async () => {
+    const { app, calls } = createTestApp();
+
+    const response = await postThing(app, "a", {
+      "Idempotency-Key": "x".repeat(256),
+    });
+
+    expect(calls()).toBe(0);
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("POST /posts with Idempotency-Key", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+  let author: User;
+
+  beforeEach(async () => {
+    ctx = createInMemoryTestContext();
+    app = createApp({
+      userRepository: ctx.userRepository,
+      postRepository: ctx.postRepository,
+      idempotencyKeyRepository: ctx.idempotencyKeyRepository,
+      authenticator: ctx.authenticator,
+    });
+
+    author = (
+      await ctx.userRepository.create({
+        name: "Author",
+        email: "author@example.com",
+      })
+    )._unsafeUnwrap();
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  it("should create a single post when a request is retried", async () => {
+    const request = () =>
+      app.request("/posts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": "retry-1",
+          ...authHeaders(author.id),
+        },
+        body: JSON.stringify({ title: "Hello", content: "World" }),
+      });
+
+    const first = await request();
+    const second = await request();
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+
+    const firstBody = (await first.json()) as { data: Post };
+    const secondBody = (await second.json()) as { data: Post };
+    expect(secondBody.data.id).toBe(firstBody.data.id);
+
+    const list = (
+      await ctx.postRepository.findAll({
+        limit: 10,
+        offset: 0,
+        viewerId: author.id,
+      })
+    )._unsafeUnwrap();
+    expect(list.total).toBe(1);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Postgres driver error inspection unit tests.
+ */
+
+import { describe, expect, it } from "bun:test";
+import { DrizzleQueryError } from "drizzle-orm/errors";
+
+import { isUniqueViolation } from "../../../src/repositories/postgres/errors";
+
+describe("isUniqueViolation", () => {
+  const driverError = Object.assign(new Error("duplicate key"), {
+    code: "23505",
+  });
+
+  it("should detect a raw driver error", () => {
+    expect(isUniqueViolation(driverError)).toBe(true);
+  });
+
+  it("should detect a driver error wrapped by drizzle", () => {
+    const wrapped = new DrizzleQueryError("insert ...", [], driverError);
+
+    expect(isUniqueViolation(wrapped)).toBe(true);
+  });
+
+  it("should ignore other errors", () => {
+    const other = Object.assign(new Error("not null"), { code: "23502" });
+
+    expect(isUniqueViolation(new DrizzleQueryError("", [], other))).toBe(false);
+    expect(isUniqueViolation("23505")).toBe(false);
+  });
+});
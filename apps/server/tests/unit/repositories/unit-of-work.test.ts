@@ -0,0 +1,111 @@
+/**
+ * In-memory Unit of Work unit tests.
+ * Verifies commit and rollback across repositories.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { err, ok } from "neverthrow";
+
+import { notFoundError } from "../../../src/domain/errors";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+describe("createInMemoryUnitOfWork", () => {
+  let ctx: InMemoryTestContext;
+
+  beforeEach(() => {
+    ctx = createInMemoryTestContext();
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  it("should keep writes when the work succeeds", async () => {
+    const result = await ctx.unitOfWork.run(async (repositories) => {
+      const user = await repositories.userRepository.create({
+        name: "Committed",
+        email: "committed@example.com",
+      });
+
+      return ok(user._unsafeUnwrap().id);
+    });
+
+    const found = await ctx.userRepository.findById(result._unsafeUnwrap());
+
+    expect(found._unsafeUnwrap()?.name).toBe("Committed");
+  });
+
+  it("should roll back every repository when the work returns an error", async () => {
+    const result = await ctx.unitOfWork.run(async (repositories) => {
+      const user = (
+        await repositories.userRepository.create({
+          name: "Rolled Back",
+          email: "rolled-back@example.com",
+        })
+      )._unsafeUnwrap();
+
+      await repositories.postRepository.create({
+        title: "Rolled Back",
+        content: "Never committed.",
+        authorId: user.id,
+      });
+
+      return err(notFoundError("Thing", "missing"));
+    });
+
+    expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+    expect(
+      (await ctx.userRepository.findAll({ limit: 10 }))._unsafeUnwrap().total,
+    ).toBe(0);
+    expect(
+      (await ctx.postRepository.findAll({ limit: 10 }))._unsafeUnwrap().total,
+    ).toBe(0);
+  });
+
+  it("should roll back and report UnexpectedError when the work throws", async () => {
+    const existing = (
+      await ctx.userRepository.create({
+        name: "Before",
+        email: "before@example.com",
+      })
+    )._unsafeUnwrap();
+
+    const result = await ctx.unitOfWork.run<void, never>(
+      async (repositories) => {
+        await repositories.userRepository.update(existing.id, {
+          name: "After",
+        });
+        throw new Error("boom");
+      },
+    );
+
+    expect(result._unsafeUnwrapErr().type).toBe("UnexpectedError");
+
+    const found = await ctx.userRepository.findById(existing.id);
+
+    expect(found._unsafeUnwrap()?.name).toBe("Before");
+  });
+
+  it("should run units one at a time", async () => {
+    const order: string[] = [];
+
+    await Promise.all([
+      ctx.unitOfWork.run(async () => {
+        order.push("first:start");
+        await Bun.sleep(5);
+        order.push("first:end");
+        return ok(undefined);
+      }),
+      ctx.unitOfWork.run(async () => {
+        order.push("second:start");
+        return ok(undefined);
+      }),
+    ]);
+
+    expect(order).toEqual(["first:start", "first:end", "second:start"]);
+  });
+});
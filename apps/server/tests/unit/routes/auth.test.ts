@@ -0,0 +1,269 @@
+/**
+ * Auth routes unit tests with in-memory repositories.
+ * Uses real session tokens so logout revocation is exercised end to end.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import { combineAuthenticators } from "../../../src/middleware/authentication";
+import { createPersonalAccessTokenAuthenticator } from "../../../src/middleware/personal-access-token";
+import { createSessionTokenAuthenticator } from "../../../src/middleware/session-token";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+type AuthResponse = { data: { user: User; token: string } };
+
+describe("Auth Routes", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+
+  const register = (body: Record<string, unknown>) =>
+    app.request("/auth/register", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  const login = (body: Record<string, unknown>) =>
+    app.request("/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    ctx = createInMemoryTestContext();
+    app = createApp({
+      userRepository: ctx.userRepository,
+      postRepository: ctx.postRepository,
+      credentialRepository: ctx.credentialRepository,
+      personalAccessTokenRepository: ctx.personalAccessTokenRepository,
+      passwordHasher: ctx.passwordHasher,
+      sessionTokenService: ctx.sessionTokenService,
+      authenticator: combineAuthenticators(
+        createPersonalAccessTokenAuthenticator(
+          ctx.personalAccessTokenRepository,
+        ),
+        createSessionTokenAuthenticator(ctx.sessionTokenService, {
+          async isSessionActive(claims) {
+            const result = await ctx.credentialRepository.findByUserId(
+              claims.userId,
+            );
+            return (
+              result.isOk() &&
+              result.value?.sessionVersion === claims.sessionVersion
+            );
+          },
+        }),
+      ),
+    });
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  describe("POST /auth/register", () => {
+    it("should create a user with a hashed password and return a token", async () => {
+      const response = await register({
+        name: "Alice",
+        email: "alice@example.com",
+        password: "correct horse battery",
+      });
+
+      expect(response.status).toBe(201);
+
+      const body = (await response.json()) as AuthResponse;
+
+      expect(body.data.user.email).toBe("alice@example.com");
+      expect(body.data.token).toBeString();
+      expect(JSON.stringify(body)).not.toContain("passwordHash");
+
+      const credential = await ctx.credentialRepository.findByUserId(
+        body.data.user.id,
+      );
+
+      expect(credential.isOk()).toBe(true);
+      if (credential.isOk()) {
+        expect(credential.value?.passwordHash).toStartWith("$argon2id$");
+        expect(credential.value?.passwordHash).not.toContain(
+          "correct horse battery",
+        );
+      }
+    });
+
+    it("should return 400 for a short password", async () => {
+      const response = await register({
+        name: "Alice",
+        email: "alice@example.com",
+        password: "short",
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 409 for an email that is already registered", async () => {
+      await register({
+        name: "Alice",
+        email: "alice@example.com",
+        password: "correct horse battery",
+      });
+
+      const response = await register({
+        name: "Alice Again",
+        email: "alice@example.com",
+        password: "another password",
+      });
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should not keep the user when a later step fails", async () => {
+      app = createApp({
+        userRepository: ctx.userRepository,
+        credentialRepository: ctx.credentialRepository,
+        emailVerificationTokenRepository: ctx.emailVerificationTokenRepository,
+        passwordHasher: ctx.passwordHasher,
+        sessionTokenService: ctx.sessionTokenService,
+        unitOfWork: ctx.unitOfWork,
+        mailer: {
+          async send() {
+            throw new Error("mail server down");
+          },
+        },
+      });
+
+      const response = await register({
+        name: "Alice",
+        email: "alice@example.com",
+        password: "correct horse battery",
+      });
+
+      expect(response.status).toBe(500);
+      expect(
+        (
+          await ctx.userRepository.findByEmail("alice@example.com")
+        )._unsafeUnwrap(),
+      ).toBeNull();
+    });
+  });
+
+  describe("POST /auth/login", () => {
+    beforeEach(async () => {
+      await register({
+        name: "Alice",
+        email: "alice@example.com",
+        password: "correct horse battery",
+      });
+    });
+
+    it("should return a session token for valid credentials", async () => {
+      const response = await login({
+        email: "alice@example.com",
+        password: "correct horse battery",
+      });
+
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as AuthResponse;
+      expect(body.data.user.email).toBe("alice@example.com");
+      expect(body.data.token).toBeString();
+    });
+
+    it("should return 401 for a wrong password", async () => {
+      const response = await login({
+        email: "alice@example.com",
+        password: "wrong password",
+      });
+
+      expect(response.status).toBe(401);
+
+      const body = (await response.json()) as { type: string; detail: string };
+      expect(body.type).toBe("urn:app:error:unauthorized");
+      expect(body.detail).toBe("Invalid email or password");
+    });
+
+    it("should return the same 401 for an unknown email", async () => {
+      const response = await login({
+        email: "nobody@example.com",
+        password: "correct horse battery",
+      });
+
+      expect(response.status).toBe(401);
+
+      const body = (await response.json()) as { detail: string };
+      expect(body.detail).toBe("Invalid email or password");
+    });
+  });
+
+  describe("POST /auth/logout", () => {
+    it("should revoke the session token", async () => {
+      const registerResponse = await register({
+        name: "Alice",
+        email: "alice@example.com",
+        password: "correct horse battery",
+      });
+      const { data } = (await registerResponse.json()) as AuthResponse;
+      const headers = { Authorization: `Bearer ${data.token}` };
+
+      const logoutResponse = await app.request("/auth/logout", {
+        method: "POST",
+        headers,
+      });
+
+      expect(logoutResponse.status).toBe(204);
+
+      const reuseResponse = await app.request("/auth/logout", {
+        method: "POST",
+        headers,
+      });
+
+      expect(reuseResponse.status).toBe(401);
+    });
+
+    it("should refuse access tokens without the users:write scope", async () => {
+      const registerResponse = await register({
+        name: "Alice",
+        email: "alice@example.com",
+        password: "correct horse battery",
+      });
+      const { data } = (await registerResponse.json()) as AuthResponse;
+      const session = { Authorization: `Bearer ${data.token}` };
+      const tokenResponse = await app.request(`/users/${data.user.id}/tokens`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...session },
+        body: JSON.stringify({ name: "reader", scopes: ["posts:read"] }),
+      });
+      const { token } = (
+        (await tokenResponse.json()) as {
+          data: { token: string };
+        }
+      ).data;
+
+      const logoutResponse = await app.request("/auth/logout", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      expect(logoutResponse.status).toBe(403);
+
+      const sessionResponse = await app.request("/auth/logout", {
+        method: "POST",
+        headers: session,
+      });
+
+      expect(sessionResponse.status).toBe(204);
+    });
+
+    it("should return 401 without a session", async () => {
+      const response = await app.request("/auth/logout", { method: "POST" });
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Comment routes unit tests with in-memory repositories.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import type { Comment } from "../../../src/repositories/interfaces/comment-repository";
+import type { Post } from "../../../src/repositories/interfaces/post-repository";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { authHeaders } from "../../helpers/auth";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  createUserWithRole,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+type CommentBody = Omit<Comment, "authorId"> & { authorId: string | null };
+
+type ThreadsResponse = {
+  data: (CommentBody & { replies: CommentBody[] })[];
+  pagination: { total: number; limit: number; offset: number };
+};
+
+describe("Comment Routes", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+  let author: User;
+  let post: Post;
+
+  const comment = async (
+    content: string,
+    options: { userId?: string; parentId?: string; postId?: string } = {},
+  ) =>
+    app.request(`/posts/${options.postId ?? post.id}/comments`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders(options.userId ?? author.id),
+      },
+      body: JSON.stringify({ content, parentId: options.parentId }),
+    });
+
+  const createComment = async (
+    content: string,
+    options: { userId?: string; parentId?: string } = {},
+  ) => {
+    const response = await comment(content, options);
+
+    return ((await response.json()) as { data: Comment }).data;
+  };
+
+  const listThreads = async (
+    query = "",
+    headers: Record<string, string> = {},
+  ) => {
+    const response = await app.request(`/posts/${post.id}/comments${query}`, {
+      headers,
+    });
+    return { response, body: (await response.json()) as ThreadsResponse };
+  };
+
+  beforeEach(async () => {
+    ctx = createInMemoryTestContext();
+    app = createApp(ctx);
+
+    author = await createUserWithRole(ctx, "user");
+    post = (
+      await ctx.postRepository.create({
+        title: "Post",
+        content: "Content",
+        authorId: author.id,
+        status: "published",
+      })
+    )._unsafeUnwrap();
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  describe("POST /posts/:id/comments", () => {
+    it("should create a comment by the authenticated user", async () => {
+      const response = await comment("  Nice post  ");
+
+      expect(response.status).toBe(201);
+      const body = (await response.json()) as { data: Comment };
+      expect(body.data).toMatchObject({
+        postId: post.id,
+        parentId: null,
+        authorId: author.id,
+        content: "Nice post",
+      });
+    });
+
+    it("should attach a reply to a reply to the top-level comment", async () => {
+      const parent = await createComment("Parent");
+      const reply = await createComment("Reply", { parentId: parent.id });
+      const nested = await createComment("Nested", { parentId: reply.id });
+
+      expect(reply.parentId).toBe(parent.id);
+      expect(nested.parentId).toBe(parent.id);
+    });
+
+    it("should return 404 for a parent on another post", async () => {
+      const other = (
+        await ctx.postRepository.create({
+          title: "Other",
+          content: "Content",
+          authorId: author.id,
+          status: "published",
+        })
+      )._unsafeUnwrap();
+      const parent = await createComment("Parent");
+
+      const response = await comment("Reply", {
+        postId: other.id,
+        parentId: parent.id,
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 400 for empty content", async () => {
+      const response = await comment("   ");
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 401 when anonymous", async () => {
+      const response = await app.request(`/posts/${post.id}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: "Hello" }),
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should return 404 for a draft the user cannot view", async () => {
+      const draft = (
+        await ctx.postRepository.create({
+          title: "Draft",
+          content: "Not ready",
+          authorId: author.id,
+        })
+      )._unsafeUnwrap();
+      const reader = await createUserWithRole(ctx, "user");
+
+      const response = await comment("Hello", {
+        postId: draft.id,
+        userId: reader.id,
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /posts/:id/comments", () => {
+    it("should list threads with their replies", async () => {
+      const first = await createComment("First");
+      await createComment("Second");
+      await createComment("Reply", { parentId: first.id });
+
+      const { response, body } = await listThreads();
+
+      expect(response.status).toBe(200);
+      expect(body.pagination.total).toBe(2);
+      expect(
+        body.data.map((thread) => ({
+          content: thread.content,
+          replies: thread.replies.map((reply) => reply.content),
+        })),
+      ).toEqual([
+        { content: "First", replies: ["Reply"] },
+        { content: "Second", replies: [] },
+      ]);
+    });
+
+    it("should page threads by offset", async () => {
+      await createComment("First");
+      await createComment("Second");
+
+      const { body } = await listThreads("?limit=1&offset=1");
+
+      expect(body.data.map((thread) => thread.content)).toEqual(["Second"]);
+      expect(body.pagination).toMatchObject({ total: 2, limit: 1, offset: 1 });
+    });
+
+    it("should show deleted comments as placeholders", async () => {
+      const parent = await createComment("Parent");
+      await createComment("Reply", { parentId: parent.id });
+
+      await app.request(`/comments/${parent.id}`, {
+        method: "DELETE",
+        headers: authHeaders(author.id),
+      });
+
+      const { body } = await listThreads();
+
+      expect(body.data[0]).toMatchObject({
+        id: parent.id,
+        authorId: null,
+        content: "[deleted]",
+      });
+      expect(body.data[0]?.replies[0]?.content).toBe("Reply");
+    });
+
+    it("should follow the post's visibility", async () => {
+      const draft = (
+        await ctx.postRepository.create({
+          title: "Draft",
+          content: "Not ready",
+          authorId: author.id,
+        })
+      )._unsafeUnwrap();
+
+      const anonymous = await app.request(`/posts/${draft.id}/comments`);
+      const own = await app.request(`/posts/${draft.id}/comments`, {
+        headers: authHeaders(author.id),
+      });
+
+      expect(anonymous.status).toBe(404);
+      expect(own.status).toBe(200);
+    });
+  });
+
+  describe("PATCH /comments/:id", () => {
+    const edit = (id: string, userId: string, content = "Edited") =>
+      app.request(`/comments/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(userId),
+        },
+        body: JSON.stringify({ content }),
+      });
+
+    it("should let the author edit their comment", async () => {
+      const created = await createComment("Original");
+
+      const response = await edit(created.id, author.id);
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { data: Comment };
+      expect(body.data.content).toBe("Edited");
+    });
+
+    it("should forbid editing someone else's comment", async () => {
+      const created = await createComment("Original");
+      const other = await createUserWithRole(ctx, "moderator");
+
+      const response = await edit(created.id, other.id);
+
+      expect(response.status).toBe(403);
+      const body = (await response.json()) as { requiredPermission: string };
+      expect(body.requiredPermission).toBe("comments:update:any");
+    });
+
+    it("should return 404 for a deleted comment", async () => {
+      const created = await createComment("Original");
+      await ctx.commentRepository.delete(created.id);
+
+      const response = await edit(created.id, author.id);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /comments/:id", () => {
+    const remove = (id: string, userId: string) =>
+      app.request(`/comments/${id}`, {
+        method: "DELETE",
+        headers: authHeaders(userId),
+      });
+
+    it("should let the author delete their comment", async () => {
+      const created = await createComment("Original");
+
+      const response = await remove(created.id, author.id);
+
+      expect(response.status).toBe(204);
+      expect(
+        (await ctx.commentRepository.findById(created.id))._unsafeUnwrap(),
+      ).toBeNull();
+    });
+
+    it("should let moderators delete any comment", async () => {
+      const created = await createComment("Original");
+      const moderator = await createUserWithRole(ctx, "moderator");
+
+      const response = await remove(created.id, moderator.id);
+
+      expect(response.status).toBe(204);
+    });
+
+    it("should forbid other users", async () => {
+      const created = await createComment("Original");
+      const other = await createUserWithRole(ctx, "user");
+
+      const response = await remove(created.id, other.id);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should hide comments on drafts the user cannot view", async () => {
+      const draft = (
+        await ctx.postRepository.create({
+          title: "Draft",
+          content: "Not ready",
+          authorId: author.id,
+        })
+      )._unsafeUnwrap();
+      const created = (
+        await ctx.commentRepository.create({
+          postId: draft.id,
+          authorId: author.id,
+          content: "Note to self",
+        })
+      )._unsafeUnwrap();
+      const moderator = await createUserWithRole(ctx, "moderator");
+
+      const response = await remove(created.id, moderator.id);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
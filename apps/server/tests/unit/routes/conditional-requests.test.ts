@@ -0,0 +1,220 @@
+/**
+ * Conditional request tests (ETag, If-Match, If-None-Match) with in-memory
+ * repositories.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import type { Post } from "../../../src/repositories/interfaces/post-repository";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+import { authHeaders } from "../../helpers/auth";
+
+describe("Conditional Requests", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+  let author: User;
+  let post: Post;
+
+  beforeEach(async () => {
+    ctx = createInMemoryTestContext();
+    app = createApp({
+      userRepository: ctx.userRepository,
+      postRepository: ctx.postRepository,
+      authenticator: ctx.authenticator,
+    });
+
+    author = (
+      await ctx.userRepository.create({
+        name: "Author",
+        email: "author@example.com",
+      })
+    )._unsafeUnwrap();
+
+    post = (
+      await ctx.postRepository.create({
+        title: "Original",
+        content: "Original content",
+        authorId: author.id,
+        status: "published",
+      })
+    )._unsafeUnwrap();
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  const patchPost = (title: string, headers: Record<string, string> = {}) =>
+    app.request(`/posts/${post.id}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders(author.id),
+        ...headers,
+      },
+      body: JSON.stringify({ title }),
+    });
+
+  describe("ETag", () => {
+    it("should return the version as a strong ETag on GET", async () => {
+      const response = await app.request(`/posts/${post.id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe('"1"');
+
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.version).toBe(1);
+    });
+
+    it("should return the new ETag after an update", async () => {
+      const response = await patchPost("Renamed");
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe('"2"');
+    });
+
+    it("should return an ETag when creating a post", async () => {
+      const response = await app.request("/posts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(author.id),
+        },
+        body: JSON.stringify({ title: "New", content: "New content" }),
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get("ETag")).toBe('"1"');
+    });
+
+    it("should expose the ETag header to cross-origin clients", async () => {
+      const response = await app.request(`/posts/${post.id}`, {
+        headers: { Origin: "https://example.com" },
+      });
+
+      expect(response.headers.get("Access-Control-Expose-Headers")).toContain(
+        "ETag",
+      );
+    });
+  });
+
+  describe("If-None-Match", () => {
+    it("should reply 304 when the ETag is current", async () => {
+      const response = await app.request(`/posts/${post.id}`, {
+        headers: { "If-None-Match": '"1"' },
+      });
+
+      expect(response.status).toBe(304);
+      expect(response.headers.get("ETag")).toBe('"1"');
+      expect(await response.text()).toBe("");
+    });
+
+    it("should match weak and listed ETags", async () => {
+      const response = await app.request(`/posts/${post.id}`, {
+        headers: { "If-None-Match": '"7", W/"1"' },
+      });
+
+      expect(response.status).toBe(304);
+    });
+
+    it("should return the resource once it has changed", async () => {
+      await patchPost("Renamed");
+
+      const response = await app.request(`/posts/${post.id}`, {
+        headers: { "If-None-Match": '"1"' },
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe('"2"');
+    });
+
+    it("should reply 304 for an unchanged user", async () => {
+      const response = await app.request(`/users/${author.id}`, {
+        headers: { "If-None-Match": '"1"' },
+      });
+
+      expect(response.status).toBe(304);
+    });
+  });
+
+  describe("If-Match", () => {
+    it("should apply an update whose ETag is current", async () => {
+      const response = await patchPost("Renamed", { "If-Match": '"1"' });
+
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.title).toBe("Renamed");
+    });
+
+    it("should reject a stale ETag with 412 and keep the other edit", async () => {
+      await patchPost("Theirs", { "If-Match": '"1"' });
+
+      const response = await patchPost("Mine", { "If-Match": '"1"' });
+
+      expect(response.status).toBe(412);
+      expect(response.headers.get("Content-Type")).toContain(
+        "application/problem+json",
+      );
+
+      const body = (await response.json()) as { type: string; status: number };
+      expect(body.type).toBe("urn:app:error:precondition-failed");
+      expect(body.status).toBe(412);
+
+      const current = (
+        await ctx.postRepository.findById(post.id)
+      )._unsafeUnwrap();
+      expect(current?.title).toBe("Theirs");
+    });
+
+    it("should accept * as any current version", async () => {
+      const response = await patchPost("Renamed", { "If-Match": "*" });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject weak or malformed ETags with 400", async () => {
+      for (const ifMatch of ['W/"1"', "1", '"1", "2"']) {
+        const response = await patchPost("Renamed", { "If-Match": ifMatch });
+
+        expect(response.status).toBe(400);
+      }
+    });
+
+    it("should return 404 rather than 412 for a missing post", async () => {
+      const response = await app.request("/posts/missing", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "If-Match": '"1"',
+          ...authHeaders(author.id),
+        },
+        body: JSON.stringify({ title: "Title", content: "Content" }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should reject a stale user update with 412", async () => {
+      await ctx.userRepository.update(author.id, { name: "Renamed" });
+
+      const response = await app.request(`/users/${author.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "If-Match": '"1"',
+          ...authHeaders(author.id),
+        },
+        body: JSON.stringify({ name: "Mine" }),
+      });
+
+      expect(response.status).toBe(412);
+    });
+  });
+});
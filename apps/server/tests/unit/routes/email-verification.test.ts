@@ -0,0 +1,164 @@
+/**
+ * Email verification route unit tests with in-memory repositories.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { authHeaders } from "../../helpers/auth";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  type InMemoryTestContext,
+  lastVerificationToken,
+} from "../../helpers/memory";
+
+type UserResponse = { data: User };
+type AuthResponse = { data: { user: User; token: string } };
+
+describe("Email verification", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+
+  const post = (path: string, body: unknown, headers = {}) =>
+    app.request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const register = async (email = "alice@example.com"): Promise<User> => {
+    const response = await post("/auth/register", {
+      name: "Alice",
+      email,
+      password: "correct horse battery",
+    });
+    const body = (await response.json()) as AuthResponse;
+    return body.data.user;
+  };
+
+  beforeEach(() => {
+    ctx = createInMemoryTestContext();
+    app = createApp({
+      userRepository: ctx.userRepository,
+      credentialRepository: ctx.credentialRepository,
+      passwordHasher: ctx.passwordHasher,
+      sessionTokenService: ctx.sessionTokenService,
+      emailVerificationTokenRepository: ctx.emailVerificationTokenRepository,
+      mailer: ctx.mailer,
+      authenticator: ctx.authenticator,
+    });
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  it("should send a token on registration and verify the email with it", async () => {
+    const user = await register();
+    expect(user.emailVerified).toBeNull();
+
+    const token = lastVerificationToken(ctx, "alice@example.com");
+    expect(token).toBeString();
+
+    const response = await post("/auth/verify-email", { token });
+
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as UserResponse;
+    expect(body.data.emailVerified).not.toBeNull();
+
+    const stored = await ctx.userRepository.findById(user.id);
+    expect(stored._unsafeUnwrap()?.emailVerified).toBeInstanceOf(Date);
+  });
+
+  it("should reject a token that was already used", async () => {
+    await register();
+    const token = lastVerificationToken(ctx, "alice@example.com");
+
+    await post("/auth/verify-email", { token });
+    const response = await post("/auth/verify-email", { token });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject an unknown token", async () => {
+    const response = await post("/auth/verify-email", { token: "nope" });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reset verification and send a new token when the email changes", async () => {
+    const user = await register();
+    await post("/auth/verify-email", {
+      token: lastVerificationToken(ctx, "alice@example.com"),
+    });
+    const staleToken = lastVerificationToken(ctx, "alice@example.com");
+
+    const patchResponse = await app.request(`/users/${user.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...authHeaders(user.id) },
+      body: JSON.stringify({ email: "alice@new.example.com" }),
+    });
+
+    expect(patchResponse.status).toBe(200);
+    const patched = (await patchResponse.json()) as UserResponse;
+    expect(patched.data.emailVerified).toBeNull();
+
+    const newToken = lastVerificationToken(ctx, "alice@new.example.com");
+    expect(newToken).toBeString();
+    expect(newToken).not.toBe(staleToken);
+
+    const response = await post("/auth/verify-email", { token: newToken });
+    expect(response.status).toBe(200);
+  });
+
+  it("should not verify a changed email with a token for the old address", async () => {
+    const user = await register();
+    const oldToken = lastVerificationToken(ctx, "alice@example.com");
+
+    await ctx.userRepository.update(user.id, {
+      email: "alice@new.example.com",
+    });
+
+    const response = await post("/auth/verify-email", { token: oldToken });
+
+    expect(response.status).toBe(400);
+  });
+
+  describe("POST /auth/verify-email/resend", () => {
+    it("should send a new token to an unverified user", async () => {
+      const user = await register();
+
+      const response = await post(
+        "/auth/verify-email/resend",
+        {},
+        authHeaders(user.id),
+      );
+
+      expect(response.status).toBe(202);
+      expect(ctx.mailer.sent).toHaveLength(2);
+    });
+
+    it("should return 409 when the email is already verified", async () => {
+      const user = await register();
+      await post("/auth/verify-email", {
+        token: lastVerificationToken(ctx, "alice@example.com"),
+      });
+
+      const response = await post(
+        "/auth/verify-email/resend",
+        {},
+        authHeaders(user.id),
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should return 401 without authentication", async () => {
+      const response = await post("/auth/verify-email/resend", {});
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
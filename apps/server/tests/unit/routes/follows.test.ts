@@ -0,0 +1,245 @@
+/**
+ * Follow and feed routes unit tests with in-memory repositories.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import type { PostReactions } from "../../../src/domain/reaction";
+import type { Post } from "../../../src/repositories/interfaces/post-repository";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { authHeaders } from "../../helpers/auth";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  createUserWithRole,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+type FollowsResponse = {
+  data: (User & { followedAt: string })[];
+  pagination: { total: number; limit: number; offset: number };
+};
+
+type FeedResponse = {
+  data: (Post & { reactions?: PostReactions })[];
+  pagination: {
+    limit: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  };
+};
+
+describe("Follow Routes", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+  let reader: User;
+  let author: User;
+
+  const follow = (followeeId: string, userId = reader.id) =>
+    app.request(`/users/${followeeId}/followers/me`, {
+      method: "PUT",
+      headers: authHeaders(userId),
+    });
+
+  const unfollow = (followeeId: string, userId = reader.id) =>
+    app.request(`/users/${followeeId}/followers/me`, {
+      method: "DELETE",
+      headers: authHeaders(userId),
+    });
+
+  const list = async (path: string) => {
+    const response = await app.request(path);
+    return { response, body: (await response.json()) as FollowsResponse };
+  };
+
+  const readFeed = async (query = "", userId = reader.id) => {
+    const response = await app.request(`/feed${query}`, {
+      headers: authHeaders(userId),
+    });
+    return { response, body: (await response.json()) as FeedResponse };
+  };
+
+  const createPost = async (
+    title: string,
+    options: { authorId?: string; status?: "draft" | "published" } = {},
+  ) => {
+    const post = (
+      await ctx.postRepository.create({
+        title,
+        content: "Content",
+        authorId: options.authorId ?? author.id,
+        status: options.status ?? "published",
+      })
+    )._unsafeUnwrap();
+    // Let the next post get a later publishedAt (millisecond precision)
+    await Bun.sleep(2);
+
+    return post;
+  };
+
+  beforeEach(async () => {
+    ctx = createInMemoryTestContext();
+    app = createApp(ctx);
+
+    reader = await createUserWithRole(ctx, "user");
+    author = await createUserWithRole(ctx, "user");
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  describe("PUT /users/:id/followers/me", () => {
+    it("should follow the user", async () => {
+      const response = await follow(author.id);
+
+      expect(response.status).toBe(204);
+      const { body } = await list(`/users/${author.id}/followers`);
+      expect(body.data.map((user) => user.id)).toEqual([reader.id]);
+    });
+
+    it("should be idempotent", async () => {
+      await follow(author.id);
+      const response = await follow(author.id);
+
+      expect(response.status).toBe(204);
+      const { body } = await list(`/users/${author.id}/followers`);
+      expect(body.pagination.total).toBe(1);
+    });
+
+    it("should return 400 when following yourself", async () => {
+      const response = await follow(reader.id);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      const response = await follow(crypto.randomUUID());
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 401 when anonymous", async () => {
+      const response = await app.request(`/users/${author.id}/followers/me`, {
+        method: "PUT",
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("DELETE /users/:id/followers/me", () => {
+    it("should unfollow the user", async () => {
+      await follow(author.id);
+
+      const response = await unfollow(author.id);
+
+      expect(response.status).toBe(204);
+      const { body } = await list(`/users/${reader.id}/following`);
+      expect(body.data).toEqual([]);
+    });
+
+    it("should succeed when not following", async () => {
+      const response = await unfollow(author.id);
+
+      expect(response.status).toBe(204);
+    });
+  });
+
+  describe("GET /users/:id/followers and /following", () => {
+    it("should list both sides of a follow with followedAt", async () => {
+      await follow(author.id);
+
+      const followers = await list(`/users/${author.id}/followers`);
+      const following = await list(`/users/${reader.id}/following`);
+
+      expect(followers.response.status).toBe(200);
+      expect(followers.body.data[0]).toMatchObject({ id: reader.id });
+      expect(typeof followers.body.data[0]?.followedAt).toBe("string");
+      expect(following.body.data.map((user) => user.id)).toEqual([author.id]);
+    });
+
+    it("should page by offset, most recent follow first", async () => {
+      const other = await createUserWithRole(ctx, "user");
+      await follow(author.id, reader.id);
+      await Bun.sleep(2);
+      await follow(author.id, other.id);
+
+      const { body } = await list(
+        `/users/${author.id}/followers?limit=1&offset=1`,
+      );
+
+      expect(body.data.map((user) => user.id)).toEqual([reader.id]);
+      expect(body.pagination).toEqual({ total: 2, limit: 1, offset: 1 });
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      const { response } = await list(
+        `/users/${crypto.randomUUID()}/following`,
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /feed", () => {
+    it("should list published posts by followed users, newest first", async () => {
+      const stranger = await createUserWithRole(ctx, "user");
+      const older = await createPost("Older");
+      await createPost("Draft", { status: "draft" });
+      await createPost("Stranger", { authorId: stranger.id });
+      const newer = await createPost("Newer");
+      await follow(author.id);
+
+      const { response, body } = await readFeed();
+
+      expect(response.status).toBe(200);
+      expect(body.data.map((post) => post.id)).toEqual([newer.id, older.id]);
+      expect(body.data[0]?.reactions?.counts).toBeDefined();
+    });
+
+    it("should page by cursor", async () => {
+      const first = await createPost("First");
+      const second = await createPost("Second");
+      const third = await createPost("Third");
+      await follow(author.id);
+
+      const page1 = await readFeed("?limit=2");
+      const page2 = await readFeed(
+        `?limit=2&cursor=${page1.body.pagination.nextCursor}`,
+      );
+      const back = await readFeed(
+        `?limit=2&cursor=${page2.body.pagination.prevCursor}`,
+      );
+
+      expect(page1.body.data.map((post) => post.id)).toEqual([
+        third.id,
+        second.id,
+      ]);
+      expect(page2.body.data.map((post) => post.id)).toEqual([first.id]);
+      expect(page2.body.pagination.nextCursor).toBeNull();
+      expect(back.body.data.map((post) => post.id)).toEqual([
+        third.id,
+        second.id,
+      ]);
+    });
+
+    it("should reject a cursor issued for another listing", async () => {
+      await createPost("First");
+      await createPost("Second");
+      const posts = await app.request("/posts?limit=1&sort=title");
+      const { pagination } = (await posts.json()) as FeedResponse;
+
+      const { response } = await readFeed(`?cursor=${pagination.nextCursor}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 401 when anonymous", async () => {
+      const response = await app.request("/feed");
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -10,6 +10,7 @@ import {
   conflictError,
   forbiddenError,
   notFoundError,
+  preconditionFailedError,
   unauthorizedError,
   unexpectedError,
   validationError,
@@ -54,6 +55,28 @@ describe("toHttpError", () => {
       expect(result.status).toBe(409);
       expect(result.body.type).toBe("urn:app:error:conflict");
       expect(result.body.title).toBe("Conflict");
+      expect(result.body.conflictReason).toBeUndefined();
+    });
+
+    it("should include the conflict reason when known", () => {
+      const error = conflictError("Cannot archive a post that is draft", {
+        conflictReason: "post_not_published",
+      });
+
+      const result = toHttpError(error);
+
+      expect(result.body.conflictReason).toBe("post_not_published");
+    });
+
+    it("should map PreconditionFailedError to 412", () => {
+      const error = preconditionFailedError("Post", "123");
+
+      const result = toHttpError(error);
+
+      expect(result.status).toBe(412);
+      expect(result.body.type).toBe("urn:app:error:precondition-failed");
+      expect(result.body.title).toBe("Precondition Failed");
+      expect(result.body.detail).toContain("modified");
     });
 
     it("should map UnauthorizedError to 401", () => {
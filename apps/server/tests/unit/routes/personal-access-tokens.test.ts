@@ -0,0 +1,260 @@
+/**
+ * Personal access token route unit tests with in-memory repositories.
+ * Combines the fake authenticator (for managing tokens) with the real
+ * personal access token authenticator (for using them).
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import { combineAuthenticators } from "../../../src/middleware/authentication";
+import { createPersonalAccessTokenAuthenticator } from "../../../src/middleware/personal-access-token";
+import type { PersonalAccessToken } from "../../../src/repositories/interfaces/personal-access-token-repository";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { authHeaders, createFakeAuthenticator } from "../../helpers/auth";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  createUserWithRole,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+type CreatedTokenResponse = { data: PersonalAccessToken & { token: string } };
+
+describe("Personal Access Token Routes", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+  let owner: User;
+
+  const createToken = (
+    body: Record<string, unknown>,
+    headers: Record<string, string> = authHeaders(owner.id),
+  ) =>
+    app.request(`/users/${owner.id}/tokens`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+
+  const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  const createPost = (headers: Record<string, string>) =>
+    app.request("/posts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ title: "From CI", content: "Automated post" }),
+    });
+
+  beforeEach(async () => {
+    ctx = createInMemoryTestContext();
+    owner = await createUserWithRole(ctx, "user");
+    app = createApp({
+      userRepository: ctx.userRepository,
+      postRepository: ctx.postRepository,
+      personalAccessTokenRepository: ctx.personalAccessTokenRepository,
+      authenticator: combineAuthenticators(
+        createPersonalAccessTokenAuthenticator(
+          ctx.personalAccessTokenRepository,
+        ),
+        createFakeAuthenticator(),
+      ),
+    });
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  describe("POST /users/:id/tokens", () => {
+    it("should return the plaintext token once and store only its hash", async () => {
+      const response = await createToken({
+        name: "ci",
+        scopes: ["posts:write"],
+      });
+
+      expect(response.status).toBe(201);
+
+      const body = (await response.json()) as CreatedTokenResponse;
+      expect(body.data.token).toStartWith("pat_");
+      expect(body.data.scopes).toEqual(["posts:write"]);
+      expect(body.data.expiresAt).not.toBeNull();
+      expect(JSON.stringify(body)).not.toContain("tokenHash");
+    });
+
+    it("should return 403 when creating a token for another user", async () => {
+      const admin = await createUserWithRole(ctx, "admin");
+
+      const response = await createToken(
+        { name: "impersonation", scopes: ["posts:write"] },
+        authHeaders(admin.id),
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should return 400 for unknown scopes", async () => {
+      const response = await createToken({ name: "ci", scopes: ["root"] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should not let a token mint a token with broader scopes", async () => {
+      const created = (await (
+        await createToken({ name: "limited", scopes: ["users:write"] })
+      ).json()) as CreatedTokenResponse;
+
+      const response = await createToken(
+        { name: "escalated", scopes: ["users:write", "posts:write"] },
+        bearer(created.data.token),
+      );
+
+      expect(response.status).toBe(403);
+
+      const body = (await response.json()) as { requiredPermission: string };
+      expect(body.requiredPermission).toBe("posts:write");
+    });
+  });
+
+  describe("using a token", () => {
+    it("should authenticate requests within its scopes and record use", async () => {
+      const created = (await (
+        await createToken({ name: "ci", scopes: ["posts:write"] })
+      ).json()) as CreatedTokenResponse;
+
+      const response = await createPost(bearer(created.data.token));
+
+      expect(response.status).toBe(201);
+
+      const tokens = await ctx.personalAccessTokenRepository.findAllByUserId(
+        owner.id,
+      );
+      expect(tokens._unsafeUnwrap()[0]?.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it("should return 403 for routes outside its scopes", async () => {
+      const created = (await (
+        await createToken({ name: "reader", scopes: ["users:read"] })
+      ).json()) as CreatedTokenResponse;
+
+      const response = await createPost(bearer(created.data.token));
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should need a read scope where its user would see more than anonymous callers", async () => {
+      const writer = (await (
+        await createToken({ name: "writer", scopes: ["posts:write"] })
+      ).json()) as CreatedTokenResponse;
+      const reader = (await (
+        await createToken({ name: "reader", scopes: ["posts:read"] })
+      ).json()) as CreatedTokenResponse;
+
+      const anonymous = await app.request("/posts");
+      const withoutScope = await app.request("/posts", {
+        headers: bearer(writer.data.token),
+      });
+      const withScope = await app.request("/posts", {
+        headers: bearer(reader.data.token),
+      });
+      const usersWithoutScope = await app.request("/users", {
+        headers: bearer(reader.data.token),
+      });
+
+      expect(anonymous.status).toBe(200);
+      expect(withoutScope.status).toBe(403);
+      expect(withScope.status).toBe(200);
+      expect(usersWithoutScope.status).toBe(403);
+
+      const body = (await withoutScope.json()) as {
+        requiredPermission: string;
+      };
+      expect(body.requiredPermission).toBe("posts:read");
+    });
+
+    it("should return 401 for an unknown token", async () => {
+      const response = await createPost(bearer("pat_unknown"));
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should return 401 for an expired token", async () => {
+      const created = (await (
+        await createToken({ name: "ci", scopes: ["posts:write"] })
+      ).json()) as CreatedTokenResponse;
+
+      const expiredApp = createApp({
+        userRepository: ctx.userRepository,
+        postRepository: ctx.postRepository,
+        authenticator: createPersonalAccessTokenAuthenticator(
+          ctx.personalAccessTokenRepository,
+          { now: () => new Date(Date.now() + 31 * 24 * 60 * 60 * 1000) },
+        ),
+      });
+
+      const response = await expiredApp.request("/posts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...bearer(created.data.token),
+        },
+        body: JSON.stringify({ title: "Late", content: "Too late" }),
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("GET /users/:id/tokens", () => {
+    it("should list the owner's tokens without secrets", async () => {
+      await createToken({ name: "ci", scopes: ["posts:write"] });
+
+      const response = await app.request(`/users/${owner.id}/tokens`, {
+        headers: authHeaders(owner.id),
+      });
+
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as {
+        data: (PersonalAccessToken & { token?: string })[];
+      };
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0]?.name).toBe("ci");
+      expect(body.data[0]?.token).toBeUndefined();
+    });
+
+    it("should return 403 for another regular user", async () => {
+      const other = await createUserWithRole(ctx, "user");
+
+      const response = await app.request(`/users/${owner.id}/tokens`, {
+        headers: authHeaders(other.id),
+      });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("DELETE /users/:id/tokens/:tokenId", () => {
+    it("should revoke the token so it no longer authenticates", async () => {
+      const created = (await (
+        await createToken({ name: "ci", scopes: ["posts:write"] })
+      ).json()) as CreatedTokenResponse;
+
+      const response = await app.request(
+        `/users/${owner.id}/tokens/${created.data.id}`,
+        { method: "DELETE", headers: authHeaders(owner.id) },
+      );
+
+      expect(response.status).toBe(204);
+      expect((await createPost(bearer(created.data.token))).status).toBe(401);
+    });
+
+    it("should return 404 for an unknown token", async () => {
+      const response = await app.request(
+        `/users/${owner.id}/tokens/not-a-token`,
+        { method: "DELETE", headers: authHeaders(owner.id) },
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
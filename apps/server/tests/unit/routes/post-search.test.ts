@@ -0,0 +1,197 @@
+/**
+ * Post search route unit tests with the in-memory search.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import type { Post } from "../../../src/repositories/interfaces/post-repository";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  createUserWithRole,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+type SearchResponse = {
+  data: (Post & { rank: number; snippet: string })[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    nextCursor: string | null;
+    prevCursor: string | null;
+  };
+};
+
+describe("GET /posts/search", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+
+  const search = async (query: string) => {
+    const response = await app.request(`/posts/search?${query}`);
+    return { response, body: (await response.json()) as SearchResponse };
+  };
+
+  const createPost = async (title: string, content: string) => {
+    const author = await createUserWithRole(ctx, "user");
+    const result = await ctx.postRepository.create({
+      title,
+      content,
+      authorId: author.id,
+      status: "published",
+    });
+    return result._unsafeUnwrap();
+  };
+
+  beforeEach(() => {
+    ctx = createInMemoryTestContext();
+    app = createApp(ctx);
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  it("should rank title matches above content matches", async () => {
+    await createPost("Cooking notes", "A short guide to Hono middleware.");
+    await createPost("Hono in production", "Deploying a web framework.");
+    await createPost("Gardening", "Nothing relevant here.");
+
+    const { response, body } = await search("q=hono");
+
+    expect(response.status).toBe(200);
+    expect(body.data.map((post) => post.title)).toEqual([
+      "Hono in production",
+      "Cooking notes",
+    ]);
+    expect(body.data[0]!.rank).toBeGreaterThan(body.data[1]!.rank);
+    expect(body.pagination).toEqual({
+      total: 2,
+      limit: 20,
+      offset: 0,
+      nextCursor: null,
+      prevCursor: null,
+    });
+  });
+
+  it("should require every term to match", async () => {
+    await createPost("Bun and Hono", "Fast servers.");
+    await createPost("Bun only", "Fast scripts.");
+
+    const { body } = await search(`q=${encodeURIComponent("hono bun")}`);
+
+    expect(body.data.map((post) => post.title)).toEqual(["Bun and Hono"]);
+  });
+
+  it("should highlight matches in an HTML-escaped snippet", async () => {
+    await createPost("Markup", "Render <b>bold</b> text with Hono & friends.");
+
+    const { body } = await search("q=hono");
+
+    expect(body.data[0]!.snippet).toBe(
+      "Render &lt;b&gt;bold&lt;/b&gt; text with <mark>Hono</mark> &amp; friends.",
+    );
+  });
+
+  it("should fall back to the title when only the title matches", async () => {
+    await createPost("Release notes for Hono", "Nothing else to say.");
+
+    const { body } = await search("q=hono");
+
+    expect(body.data[0]!.snippet).toBe("Release notes for <mark>Hono</mark>");
+  });
+
+  it("should trim long content around the first match", async () => {
+    const filler = "lorem ipsum dolor sit amet ".repeat(10);
+    await createPost("Long", `${filler}hono ${filler}`);
+
+    const { body } = await search("q=hono");
+    const { snippet } = body.data[0]!;
+
+    expect(snippet.startsWith("… ")).toBe(true);
+    expect(snippet.endsWith(" …")).toBe(true);
+    expect(snippet).toContain("<mark>hono</mark>");
+  });
+
+  it("should exclude soft-deleted posts", async () => {
+    const post = await createPost("Hono", "Deleted soon.");
+    await ctx.postRepository.delete(post.id);
+
+    const { body } = await search("q=hono");
+
+    expect(body.data).toHaveLength(0);
+    expect(body.pagination.total).toBe(0);
+  });
+
+  it("should page with limit and offset", async () => {
+    for (let i = 0; i < 3; i++) {
+      await createPost(`Hono ${i}`, "Content");
+    }
+
+    const { body } = await search("q=hono&limit=2&offset=2");
+
+    expect(body.data).toHaveLength(1);
+    expect(body.pagination.total).toBe(3);
+  });
+
+  it("should follow cursors to the next page and back", async () => {
+    for (let i = 0; i < 3; i++) {
+      await createPost(`Hono ${i}`, "Content");
+    }
+
+    const first = await search("q=hono&limit=1");
+    const second = await search(
+      `q=hono&limit=1&cursor=${first.body.pagination.nextCursor}`,
+    );
+    const back = await search(
+      `q=hono&limit=1&cursor=${second.body.pagination.prevCursor}`,
+    );
+
+    expect(first.body.pagination.prevCursor).toBeNull();
+    expect(second.response.status).toBe(200);
+    expect(second.body.pagination.offset).toBe(1);
+    expect(second.body.data[0]!.id).not.toBe(first.body.data[0]!.id);
+    expect(second.body.pagination.nextCursor).not.toBeNull();
+    expect(back.body.data.map((post) => post.id)).toEqual(
+      first.body.data.map((post) => post.id),
+    );
+  });
+
+  it("should reject list cursors and a cursor with an offset", async () => {
+    await createPost("Hono", "Content");
+    await createPost("Hono again", "Content");
+    const list = (await (await app.request("/posts?limit=1")).json()) as {
+      pagination: { nextCursor: string | null };
+    };
+    const page = await search("q=hono&limit=1");
+    const cursor = page.body.pagination.nextCursor;
+
+    const foreign = await app.request(
+      `/posts/search?q=hono&cursor=${list.pagination.nextCursor}`,
+    );
+    const both = await app.request(
+      `/posts/search?q=hono&offset=1&cursor=${cursor}`,
+    );
+
+    expect(list.pagination.nextCursor).not.toBeNull();
+    expect(foreign.status).toBe(400);
+    expect(both.status).toBe(400);
+  });
+
+  it("should return 400 without a query", async () => {
+    const missing = await search("");
+    const blank = await search("q=%20%20");
+
+    expect(missing.response.status).toBe(400);
+    expect(blank.response.status).toBe(400);
+  });
+
+  it("should not shadow GET /posts/:id", async () => {
+    const post = await createPost("Hono", "Content");
+
+    const response = await app.request(`/posts/${post.id}`);
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -6,13 +6,20 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 
 import { createApp } from "../../../src/app";
+import {
+  createJobWorker,
+  createPublishScheduledPostHandler,
+} from "../../../src/jobs";
 import type { Post } from "../../../src/repositories/interfaces/post-repository";
 import type { User } from "../../../src/repositories/interfaces/user-repository";
 import {
   clearTestContext,
   createInMemoryTestContext,
+  createUserWithRole,
   type InMemoryTestContext,
 } from "../../helpers/memory";
+import { authHeaders } from "../../helpers/auth";
+import { PUBLISH_SCHEDULED_POST_JOB } from "../../../src/usecases/publish-scheduled-post";
 
 describe("Post Routes", () => {
   let ctx: InMemoryTestContext;
@@ -24,6 +31,7 @@ describe("Post Routes", () => {
     app = createApp({
       userRepository: ctx.userRepository,
       postRepository: ctx.postRepository,
+      authenticator: ctx.authenticator,
     });
 
     // Create a test user for posts
@@ -65,16 +73,19 @@ describe("Post Routes", () => {
         title: "Post 1",
         content: "Content 1",
         authorId: testUser.id,
+        status: "published",
       });
       await ctx.postRepository.create({
         title: "Post 2",
         content: "Content 2",
         authorId: testUser.id,
+        status: "published",
       });
       await ctx.postRepository.create({
         title: "Post 3",
         content: "Content 3",
         authorId: testUser.id,
+        status: "published",
       });
 
       const response = await app.request("/posts?limit=2&offset=0");
@@ -107,16 +118,19 @@ describe("Post Routes", () => {
         title: "Post 1",
         content: "Content 1",
         authorId: testUser.id,
+        status: "published",
       });
       await ctx.postRepository.create({
         title: "Post 2",
         content: "Content 2",
         authorId: secondUser.id,
+        status: "published",
       });
       await ctx.postRepository.create({
         title: "Post 3",
         content: "Content 3",
         authorId: testUser.id,
+        status: "published",
       });
 
       const response = await app.request(`/posts?authorId=${testUser.id}`);
@@ -140,16 +154,19 @@ describe("Post Routes", () => {
         title: "Post 1",
         content: "Content 1",
         authorId: testUser.id,
+        status: "published",
       });
       await ctx.postRepository.create({
         title: "Post 2",
         content: "Content 2",
         authorId: testUser.id,
+        status: "published",
       });
       await ctx.postRepository.create({
         title: "Post 3",
         content: "Content 3",
         authorId: testUser.id,
+        status: "published",
       });
 
       const response = await app.request("/posts?limit=10&offset=2");
@@ -178,6 +195,7 @@ describe("Post Routes", () => {
         title: "Test Post",
         content: "Test Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -209,6 +227,7 @@ describe("Post Routes", () => {
         title: "Test Post",
         content: "Test Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -226,11 +245,13 @@ describe("Post Routes", () => {
     it("should create a post and return 201", async () => {
       const response = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Test Post",
           content: "This is the content of the test post.",
-          authorId: testUser.id,
         }),
       });
 
@@ -250,10 +271,12 @@ describe("Post Routes", () => {
     it("should return 400 for missing title", async () => {
       const response = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           content: "Content without title",
-          authorId: testUser.id,
         }),
       });
 
@@ -271,37 +294,72 @@ describe("Post Routes", () => {
     it("should return 400 for missing content", async () => {
       const response = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Title without content",
-          authorId: testUser.id,
         }),
       });
 
       expect(response.status).toBe(400);
     });
 
-    it("should return 400 for missing authorId", async () => {
+    it("should return 401 without authentication", async () => {
       const response = await app.request("/posts", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           title: "Post Title",
           content: "Post content",
+          authorId: testUser.id,
         }),
       });
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(401);
+
+      const body = (await response.json()) as { type: string };
+      expect(body.type).toBe("urn:app:error:unauthorized");
+    });
+
+    it("should author the post as the principal, ignoring body authorId", async () => {
+      const otherUserResult = await ctx.userRepository.create({
+        name: "Other User",
+        email: "other@example.com",
+      });
+
+      if (otherUserResult.isErr()) throw new Error("Failed to create user");
+
+      const response = await app.request("/posts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
+        body: JSON.stringify({
+          title: "Post Title",
+          content: "Post content",
+          authorId: otherUserResult.value.id,
+        }),
+      });
+
+      expect(response.status).toBe(201);
+
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.authorId).toBe(testUser.id);
     });
 
     it("should return 404 for non-existent author", async () => {
       const response = await app.request("/posts", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders("non-existent-user-id"),
+        },
         body: JSON.stringify({
           title: "Post Title",
           content: "Post content",
-          authorId: "non-existent-user-id",
         }),
       });
 
@@ -318,6 +376,7 @@ describe("Post Routes", () => {
         title: "Original Title",
         content: "Original Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -326,11 +385,13 @@ describe("Post Routes", () => {
 
       const response = await app.request(`/posts/${post.id}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Updated Title",
           content: "Updated Content",
-          userId: testUser.id,
         }),
       });
 
@@ -347,6 +408,7 @@ describe("Post Routes", () => {
         title: "Test Post",
         content: "Test Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -355,7 +417,10 @@ describe("Post Routes", () => {
 
       const response = await app.request(`/posts/${post.id}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Updated Title",
           // missing content
@@ -367,6 +432,30 @@ describe("Post Routes", () => {
 
     it("should return 404 for non-existent post", async () => {
       const response = await app.request("/posts/non-existent-id", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
+        body: JSON.stringify({
+          title: "Updated Title",
+          content: "Updated Content",
+        }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+    it("should return 401 without authentication", async () => {
+      const createResult = await ctx.postRepository.create({
+        title: "Original Title",
+        content: "Original Content",
+        authorId: testUser.id,
+        status: "published",
+      });
+
+      if (createResult.isErr()) throw new Error("Failed to create post");
+
+      const response = await app.request(`/posts/${createResult.value.id}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -376,7 +465,40 @@ describe("Post Routes", () => {
         }),
       });
 
-      expect(response.status).toBe(404);
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject updates from a user who is not the author", async () => {
+      const otherUserResult = await ctx.userRepository.create({
+        name: "Other User",
+        email: "other@example.com",
+      });
+
+      if (otherUserResult.isErr()) throw new Error("Failed to create user");
+
+      const createResult = await ctx.postRepository.create({
+        title: "Original Title",
+        content: "Original Content",
+        authorId: testUser.id,
+        status: "published",
+      });
+
+      if (createResult.isErr()) throw new Error("Failed to create post");
+
+      const response = await app.request(`/posts/${createResult.value.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(otherUserResult.value.id),
+        },
+        body: JSON.stringify({
+          title: "Updated Title",
+          content: "Updated Content",
+          userId: testUser.id,
+        }),
+      });
+
+      expect(response.status).toBe(403);
     });
   });
 
@@ -386,6 +508,7 @@ describe("Post Routes", () => {
         title: "Original Title",
         content: "Original Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -394,10 +517,12 @@ describe("Post Routes", () => {
 
       const response = await app.request(`/posts/${post.id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Updated Title",
-          userId: testUser.id,
         }),
       });
 
@@ -414,6 +539,7 @@ describe("Post Routes", () => {
         title: "Original Title",
         content: "Original Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -422,10 +548,12 @@ describe("Post Routes", () => {
 
       const response = await app.request(`/posts/${post.id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           content: "Updated Content",
-          userId: testUser.id,
         }),
       });
 
@@ -442,6 +570,7 @@ describe("Post Routes", () => {
         title: "Test Post",
         content: "Test Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -450,7 +579,10 @@ describe("Post Routes", () => {
 
       const response = await app.request(`/posts/${post.id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({}),
       });
 
@@ -460,10 +592,12 @@ describe("Post Routes", () => {
     it("should return 404 for non-existent post", async () => {
       const response = await app.request("/posts/non-existent-id", {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
         body: JSON.stringify({
           title: "Updated Title",
-          userId: testUser.id,
         }),
       });
 
@@ -477,6 +611,7 @@ describe("Post Routes", () => {
         title: "Test Post",
         content: "Test Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -485,7 +620,7 @@ describe("Post Routes", () => {
 
       const response = await app.request(`/posts/${post.id}`, {
         method: "DELETE",
-        headers: { "X-User-Id": testUser.id },
+        headers: authHeaders(testUser.id),
       });
 
       expect(response.status).toBe(204);
@@ -498,17 +633,81 @@ describe("Post Routes", () => {
     it("should return 404 for non-existent post", async () => {
       const response = await app.request("/posts/non-existent-id", {
         method: "DELETE",
-        headers: { "X-User-Id": testUser.id },
+        headers: authHeaders(testUser.id),
       });
 
       expect(response.status).toBe(404);
     });
 
+    it("should let a moderator remove another user's post", async () => {
+      const moderator = await createUserWithRole(ctx, "moderator");
+      const createResult = await ctx.postRepository.create({
+        title: "Abusive Post",
+        content: "Abusive Content",
+        authorId: testUser.id,
+        status: "published",
+      });
+
+      if (createResult.isErr()) throw new Error("Failed to create post");
+
+      const response = await app.request(`/posts/${createResult.value.id}`, {
+        method: "DELETE",
+        headers: authHeaders(moderator.id),
+      });
+
+      expect(response.status).toBe(204);
+    });
+
+    it("should return 403 with the required permission for a non-author", async () => {
+      const other = await createUserWithRole(ctx, "user");
+      const createResult = await ctx.postRepository.create({
+        title: "Test Post",
+        content: "Test Content",
+        authorId: testUser.id,
+        status: "published",
+      });
+
+      if (createResult.isErr()) throw new Error("Failed to create post");
+
+      const response = await app.request(`/posts/${createResult.value.id}`, {
+        method: "DELETE",
+        headers: authHeaders(other.id),
+      });
+
+      expect(response.status).toBe(403);
+
+      const body = (await response.json()) as {
+        type: string;
+        requiredPermission: string;
+      };
+      expect(body.type).toBe("urn:app:error:forbidden");
+      expect(body.requiredPermission).toBe("posts:delete:any");
+    });
+
+    it("should ignore the legacy X-User-Id header", async () => {
+      const createResult = await ctx.postRepository.create({
+        title: "Test Post",
+        content: "Test Content",
+        authorId: testUser.id,
+        status: "published",
+      });
+
+      if (createResult.isErr()) throw new Error("Failed to create post");
+
+      const response = await app.request(`/posts/${createResult.value.id}`, {
+        method: "DELETE",
+        headers: { "X-User-Id": testUser.id },
+      });
+
+      expect(response.status).toBe(401);
+    });
+
     it("should return 404 for already deleted post", async () => {
       const createResult = await ctx.postRepository.create({
         title: "Test Post",
         content: "Test Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -518,13 +717,13 @@ describe("Post Routes", () => {
       // First delete
       await app.request(`/posts/${post.id}`, {
         method: "DELETE",
-        headers: { "X-User-Id": testUser.id },
+        headers: authHeaders(testUser.id),
       });
 
       // Second delete should fail
       const response = await app.request(`/posts/${post.id}`, {
         method: "DELETE",
-        headers: { "X-User-Id": testUser.id },
+        headers: authHeaders(testUser.id),
       });
 
       expect(response.status).toBe(404);
@@ -535,6 +734,7 @@ describe("Post Routes", () => {
         title: "Test Post",
         content: "Test Content",
         authorId: testUser.id,
+        status: "published",
       });
 
       if (createResult.isErr()) throw new Error("Failed to create post");
@@ -543,7 +743,7 @@ describe("Post Routes", () => {
 
       await app.request(`/posts/${post.id}`, {
         method: "DELETE",
-        headers: { "X-User-Id": testUser.id },
+        headers: authHeaders(testUser.id),
       });
 
       const listResponse = await app.request("/posts");
@@ -556,4 +756,927 @@ describe("Post Routes", () => {
       expect(body.pagination.total).toBe(0);
     });
   });
+
+  describe("POST /posts/:id/restore", () => {
+    let deleted: Post;
+
+    const restorePost = (id: string, actorId: string) =>
+      app.request(`/posts/${id}/restore`, {
+        method: "POST",
+        headers: authHeaders(actorId),
+      });
+
+    beforeEach(async () => {
+      deleted = (
+        await ctx.postRepository.create({
+          title: "Test Post",
+          content: "Test Content",
+          authorId: testUser.id,
+          status: "published",
+        })
+      )._unsafeUnwrap();
+      await ctx.postRepository.delete(deleted.id);
+    });
+
+    it("should restore a deleted post", async () => {
+      const admin = await createUserWithRole(ctx, "admin");
+
+      const response = await restorePost(deleted.id, admin.id);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe(`"${deleted.version + 1}"`);
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.id).toBe(deleted.id);
+      expect(body.data.deletedAt).toBeNull();
+
+      const getResponse = await app.request(`/posts/${deleted.id}`);
+      expect(getResponse.status).toBe(200);
+    });
+
+    it("should return 404 for a post that is not deleted", async () => {
+      const admin = await createUserWithRole(ctx, "admin");
+      const active = (
+        await ctx.postRepository.create({
+          title: "Active",
+          content: "Content",
+          authorId: testUser.id,
+        })
+      )._unsafeUnwrap();
+
+      const response = await restorePost(active.id, admin.id);
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 403 for the author", async () => {
+      const response = await restorePost(deleted.id, testUser.id);
+
+      expect(response.status).toBe(403);
+      const body = (await response.json()) as { requiredPermission: string };
+      expect(body.requiredPermission).toBe("posts:restore");
+    });
+  });
+  describe("Post status workflow", () => {
+    const createDraft = async () =>
+      (
+        await ctx.postRepository.create({
+          title: "Draft",
+          content: "Not ready yet",
+          authorId: testUser.id,
+        })
+      )._unsafeUnwrap();
+
+    const transition = (
+      id: string,
+      action: "publish" | "archive",
+      userId = testUser.id,
+    ) =>
+      app.request(`/posts/${id}/${action}`, {
+        method: "POST",
+        headers: authHeaders(userId),
+      });
+
+    it("should create posts as drafts unless published on creation", async () => {
+      const create = (body: Record<string, unknown>) =>
+        app.request("/posts", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...authHeaders(testUser.id),
+          },
+          body: JSON.stringify({ title: "Title", content: "Content", ...body }),
+        });
+
+      const draft = (await (await create({})).json()) as { data: Post };
+      const published = (await (
+        await create({ status: "published" })
+      ).json()) as { data: Post };
+
+      expect(draft.data.status).toBe("draft");
+      expect(draft.data.publishedAt).toBeNull();
+      expect(published.data.status).toBe("published");
+      expect(published.data.publishedAt).not.toBeNull();
+    });
+
+    it("should show a draft only to its author", async () => {
+      const draft = await createDraft();
+      const other = await createUserWithRole(ctx, "user");
+
+      const anonymous = await app.request(`/posts/${draft.id}`);
+      const otherUser = await app.request(`/posts/${draft.id}`, {
+        headers: authHeaders(other.id),
+      });
+      const author = await app.request(`/posts/${draft.id}`, {
+        headers: authHeaders(testUser.id),
+      });
+
+      expect(anonymous.status).toBe(404);
+      expect(otherUser.status).toBe(404);
+      expect(author.status).toBe(200);
+    });
+
+    it("should list drafts to their author only", async () => {
+      await createDraft();
+
+      const anonymous = (await (await app.request("/posts")).json()) as {
+        data: Post[];
+      };
+      const author = (await (
+        await app.request("/posts?status=draft", {
+          headers: authHeaders(testUser.id),
+        })
+      ).json()) as { data: Post[] };
+
+      expect(anonymous.data).toHaveLength(0);
+      expect(author.data.map((post) => post.status)).toEqual(["draft"]);
+    });
+
+    it("should publish a draft and set publishedAt", async () => {
+      const draft = await createDraft();
+
+      const response = await transition(draft.id, "publish");
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe('"2"');
+
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.status).toBe("published");
+      expect(body.data.publishedAt).not.toBeNull();
+      expect((await app.request(`/posts/${draft.id}`)).status).toBe(200);
+    });
+
+    it("should archive a published post and keep it readable but unlisted", async () => {
+      const draft = await createDraft();
+      await transition(draft.id, "publish");
+
+      const response = await transition(draft.id, "archive");
+      const body = (await response.json()) as { data: Post };
+
+      expect(response.status).toBe(200);
+      expect(body.data.status).toBe("archived");
+      expect((await app.request(`/posts/${draft.id}`)).status).toBe(200);
+
+      const list = (await (await app.request("/posts")).json()) as {
+        data: Post[];
+      };
+      expect(list.data).toHaveLength(0);
+    });
+
+    it("should keep the first publishedAt when republishing", async () => {
+      const draft = await createDraft();
+      const first = (await (await transition(draft.id, "publish")).json()) as {
+        data: Post;
+      };
+      await transition(draft.id, "archive");
+
+      const again = (await (await transition(draft.id, "publish")).json()) as {
+        data: Post;
+      };
+
+      expect(again.data.status).toBe("published");
+      expect(again.data.publishedAt).toBe(first.data.publishedAt);
+    });
+
+    it("should reject invalid transitions with 409 and a reason", async () => {
+      const draft = await createDraft();
+
+      const archiveDraft = await transition(draft.id, "archive");
+      await transition(draft.id, "publish");
+      const publishTwice = await transition(draft.id, "publish");
+
+      expect(archiveDraft.status).toBe(409);
+      expect(publishTwice.status).toBe(409);
+      expect(
+        ((await archiveDraft.json()) as { conflictReason: string })
+          .conflictReason,
+      ).toBe("post_not_published");
+      expect(
+        ((await publishTwice.json()) as { conflictReason: string })
+          .conflictReason,
+      ).toBe("post_already_published");
+    });
+
+    it("should reject a stale If-Match with 412", async () => {
+      const draft = await createDraft();
+
+      const response = await app.request(`/posts/${draft.id}/publish`, {
+        method: "POST",
+        headers: { "If-Match": '"7"', ...authHeaders(testUser.id) },
+      });
+
+      expect(response.status).toBe(412);
+    });
+
+    it("should return 403 when a non-author publishes", async () => {
+      const draft = await createDraft();
+      const other = await createUserWithRole(ctx, "user");
+
+      const response = await transition(draft.id, "publish", other.id);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should return 401 without authentication", async () => {
+      const draft = await createDraft();
+
+      const response = await app.request(`/posts/${draft.id}/publish`, {
+        method: "POST",
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("Scheduled publishing", () => {
+    const HOUR_MS = 60 * 60 * 1000;
+
+    let scheduledApp: ReturnType<typeof createApp>;
+
+    beforeEach(() => {
+      scheduledApp = createApp({
+        userRepository: ctx.userRepository,
+        postRepository: ctx.postRepository,
+        jobRepository: ctx.jobRepository,
+        unitOfWork: ctx.unitOfWork,
+        authenticator: ctx.authenticator,
+      });
+    });
+
+    const createDraft = async () =>
+      (
+        await ctx.postRepository.create({
+          title: "Draft",
+          content: "Not ready yet",
+          authorId: testUser.id,
+        })
+      )._unsafeUnwrap();
+
+    const schedule = (id: string, publishAt: Date) =>
+      scheduledApp.request(`/posts/${id}/schedule`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
+        body: JSON.stringify({ publishAt: publishAt.toISOString() }),
+      });
+
+    /** Run the jobs due at the given time */
+    const runJobsAt = (now: Date) =>
+      createJobWorker({
+        jobRepository: ctx.jobRepository,
+        handlers: {
+          [PUBLISH_SCHEDULED_POST_JOB]: createPublishScheduledPostHandler({
+            postRepository: ctx.postRepository,
+            now: () => now,
+          }),
+        },
+        now: () => now,
+      }).runDueJobs();
+
+    const statusOf = async (id: string) =>
+      (await ctx.postRepository.findById(id))._unsafeUnwrap()?.status;
+
+    it("should publish the post once publishAt arrives", async () => {
+      const draft = await createDraft();
+      const publishAt = new Date(Date.now() + HOUR_MS);
+
+      const response = await schedule(draft.id, publishAt);
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.status).toBe("draft");
+      expect(new Date(body.data.publishAt ?? 0)).toEqual(publishAt);
+      expect(response.headers.get("ETag")).toBe(`"${body.data.version}"`);
+
+      expect(await runJobsAt(new Date())).toBe(0);
+      expect(await statusOf(draft.id)).toBe("draft");
+
+      expect(await runJobsAt(new Date(publishAt.getTime() + 1000))).toBe(1);
+
+      const published = (
+        await ctx.postRepository.findById(draft.id)
+      )._unsafeUnwrap();
+      expect(published?.status).toBe("published");
+      expect(published?.publishAt).toBeNull();
+      expect(published?.publishedAt).toEqual(
+        new Date(publishAt.getTime() + 1000),
+      );
+    });
+
+    it("should replace the previous schedule when rescheduled", async () => {
+      const draft = await createDraft();
+      const first = new Date(Date.now() + HOUR_MS);
+      const second = new Date(Date.now() + 3 * HOUR_MS);
+
+      await schedule(draft.id, first);
+      await schedule(draft.id, second);
+
+      await runJobsAt(new Date(first.getTime() + 1000));
+      expect(await statusOf(draft.id)).toBe("draft");
+
+      await runJobsAt(new Date(second.getTime() + 1000));
+      expect(await statusOf(draft.id)).toBe("published");
+    });
+
+    it("should cancel the schedule on DELETE", async () => {
+      const draft = await createDraft();
+      const publishAt = new Date(Date.now() + HOUR_MS);
+      await schedule(draft.id, publishAt);
+
+      const response = await scheduledApp.request(
+        `/posts/${draft.id}/schedule`,
+        { method: "DELETE", headers: authHeaders(testUser.id) },
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.publishAt).toBeNull();
+
+      await runJobsAt(new Date(publishAt.getTime() + 1000));
+      expect(await statusOf(draft.id)).toBe("draft");
+    });
+
+    it("should return 409 when unscheduling a post without a schedule", async () => {
+      const draft = await createDraft();
+
+      const response = await scheduledApp.request(
+        `/posts/${draft.id}/schedule`,
+        { method: "DELETE", headers: authHeaders(testUser.id) },
+      );
+
+      expect(response.status).toBe(409);
+      const body = (await response.json()) as { conflictReason: string };
+      expect(body.conflictReason).toBe("post_not_scheduled");
+    });
+
+    it("should return 409 when scheduling a published post", async () => {
+      const post = (
+        await ctx.postRepository.create({
+          title: "Live",
+          content: "Already out",
+          authorId: testUser.id,
+          status: "published",
+        })
+      )._unsafeUnwrap();
+
+      const response = await schedule(post.id, new Date(Date.now() + HOUR_MS));
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should return 400 for a publishAt in the past", async () => {
+      const draft = await createDraft();
+
+      const response = await schedule(draft.id, new Date(Date.now() - HOUR_MS));
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 403 when a non-author schedules", async () => {
+      const draft = await createDraft();
+      const other = await createUserWithRole(ctx, "user");
+
+      const response = await scheduledApp.request(
+        `/posts/${draft.id}/schedule`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...authHeaders(other.id),
+          },
+          body: JSON.stringify({
+            publishAt: new Date(Date.now() + HOUR_MS).toISOString(),
+          }),
+        },
+      );
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should not expose scheduling without a job queue", async () => {
+      const draft = await createDraft();
+
+      const response = await app.request(`/posts/${draft.id}/schedule`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
+        body: JSON.stringify({
+          publishAt: new Date(Date.now() + HOUR_MS).toISOString(),
+        }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("Post revisions", () => {
+    let revisionApp: ReturnType<typeof createApp>;
+    let post: Post;
+
+    interface RevisionBody {
+      revision: number;
+      title: string;
+      content: string;
+      editorId: string | null;
+    }
+
+    beforeEach(async () => {
+      revisionApp = createApp({
+        userRepository: ctx.userRepository,
+        postRepository: ctx.postRepository,
+        postRevisionRepository: ctx.postRevisionRepository,
+        unitOfWork: ctx.unitOfWork,
+        authenticator: ctx.authenticator,
+      });
+
+      post = (
+        await ctx.postRepository.create({
+          title: "Original",
+          content: "line one\nline two",
+          authorId: testUser.id,
+          status: "published",
+        })
+      )._unsafeUnwrap();
+    });
+
+    const edit = (
+      data: Record<string, unknown>,
+      userId = testUser.id,
+      headers: Record<string, string> = {},
+    ) =>
+      revisionApp.request(`/posts/${post.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(userId),
+          ...headers,
+        },
+        body: JSON.stringify(data),
+      });
+
+    const restore = (
+      rev: number,
+      userId = testUser.id,
+      headers: Record<string, string> = {},
+    ) =>
+      revisionApp.request(`/posts/${post.id}/revisions/${rev}/restore`, {
+        method: "POST",
+        headers: { ...authHeaders(userId), ...headers },
+      });
+
+    const listRevisions = async () => {
+      const response = await revisionApp.request(`/posts/${post.id}/revisions`);
+      return ((await response.json()) as { data: RevisionBody[] }).data;
+    };
+
+    it("should record the replaced title and content on every edit", async () => {
+      await edit({ title: "Renamed" });
+      await edit({ content: "line one\nline 2" });
+
+      const response = await revisionApp.request(`/posts/${post.id}/revisions`);
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { data: RevisionBody[] };
+      expect(body.data).toMatchObject([
+        {
+          revision: 2,
+          title: "Renamed",
+          content: "line one\nline two",
+          editorId: testUser.id,
+        },
+        {
+          revision: 1,
+          title: "Original",
+          content: "line one\nline two",
+          editorId: testUser.id,
+        },
+      ]);
+    });
+
+    it("should return a revision with a line diff against the current content", async () => {
+      await edit({ content: "line one\nline 2\nline three" });
+
+      const response = await revisionApp.request(
+        `/posts/${post.id}/revisions/1`,
+      );
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as {
+        data: RevisionBody & { diff: { op: string; line: string }[] };
+      };
+      expect(body.data.title).toBe("Original");
+      expect(body.data.diff).toEqual([
+        { op: "unchanged", line: "line one" },
+        { op: "removed", line: "line two" },
+        { op: "added", line: "line 2" },
+        { op: "added", line: "line three" },
+      ]);
+    });
+
+    it("should return 404 for an unknown revision", async () => {
+      const missing = await revisionApp.request(
+        `/posts/${post.id}/revisions/9`,
+      );
+      const invalid = await revisionApp.request(
+        `/posts/${post.id}/revisions/latest`,
+      );
+
+      expect(missing.status).toBe(404);
+      expect(invalid.status).toBe(400);
+    });
+
+    it("should restore a revision as a new edit", async () => {
+      await edit({ title: "Renamed", content: "rewritten" });
+
+      const response = await restore(1);
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.title).toBe("Original");
+      expect(body.data.content).toBe("line one\nline two");
+      expect(body.data.version).toBe(3);
+      expect(response.headers.get("ETag")).toBe('"3"');
+
+      const revisions = await listRevisions();
+      expect(revisions[0]).toMatchObject({
+        revision: 2,
+        title: "Renamed",
+        content: "rewritten",
+      });
+    });
+
+    it("should reject a restore with a stale If-Match", async () => {
+      await edit({ title: "Renamed" });
+
+      const response = await restore(1, testUser.id, { "If-Match": '"1"' });
+
+      expect(response.status).toBe(412);
+      expect(await listRevisions()).toHaveLength(1);
+    });
+
+    it("should require edit rights to restore", async () => {
+      await edit({ title: "Renamed" });
+      const other = await createUserWithRole(ctx, "user");
+
+      const response = await restore(1, other.id);
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should let admins restore any post", async () => {
+      await edit({ title: "Renamed" });
+      const admin = await createUserWithRole(ctx, "admin");
+
+      const response = await restore(1, admin.id);
+
+      expect(response.status).toBe(200);
+      const revisions = await listRevisions();
+      expect(revisions[0]?.editorId).toBe(admin.id);
+    });
+
+    it("should return 401 when restoring anonymously", async () => {
+      const response = await revisionApp.request(
+        `/posts/${post.id}/revisions/1/restore`,
+        { method: "POST" },
+      );
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should not record a revision for a rejected edit", async () => {
+      const response = await edit({ title: "Mine" }, testUser.id, {
+        "If-Match": '"7"',
+      });
+
+      expect(response.status).toBe(412);
+      expect(await listRevisions()).toEqual([]);
+    });
+
+    it("should not record a revision for a tag-only edit", async () => {
+      const response = await edit({ tags: ["bun"] });
+
+      expect(response.status).toBe(200);
+      expect(await listRevisions()).toEqual([]);
+    });
+
+    it("should hide the history of drafts from other users", async () => {
+      const draft = (
+        await ctx.postRepository.create({
+          title: "Draft",
+          content: "Not ready",
+          authorId: testUser.id,
+        })
+      )._unsafeUnwrap();
+
+      const anonymous = await revisionApp.request(
+        `/posts/${draft.id}/revisions`,
+      );
+      const author = await revisionApp.request(`/posts/${draft.id}/revisions`, {
+        headers: authHeaders(testUser.id),
+      });
+
+      expect(anonymous.status).toBe(404);
+      expect(author.status).toBe(200);
+    });
+  });
+
+  describe("Tags", () => {
+    const createTagged = (body: Record<string, unknown>) =>
+      app.request("/posts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
+        body: JSON.stringify({
+          title: "Tagged",
+          content: "Content",
+          authorId: testUser.id,
+          status: "published",
+          ...body,
+        }),
+      });
+
+    const send = (
+      method: "PUT" | "PATCH",
+      id: string,
+      data: Record<string, unknown>,
+    ) =>
+      app.request(`/posts/${id}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(testUser.id),
+        },
+        body: JSON.stringify(data),
+      });
+
+    it("should normalize, dedupe and sort tags on create", async () => {
+      const response = await createTagged({
+        tags: ["TypeScript", "  Hono ", "type script", "typescript", "Café"],
+      });
+
+      expect(response.status).toBe(201);
+      const body = (await response.json()) as { data: Post };
+      expect(body.data.tags).toEqual([
+        "cafe",
+        "hono",
+        "type-script",
+        "typescript",
+      ]);
+    });
+
+    it("should reject unusable or too many tags", async () => {
+      const empty = await createTagged({ tags: ["!!!"] });
+      const long = await createTagged({ tags: ["x".repeat(33)] });
+      const many = await createTagged({
+        tags: Array.from({ length: 11 }, (_, i) => `tag-${i}`),
+      });
+      const duplicates = await createTagged({
+        tags: Array.from({ length: 11 }, () => "same"),
+      });
+
+      expect(empty.status).toBe(400);
+      expect(long.status).toBe(400);
+      expect(many.status).toBe(400);
+      expect(duplicates.status).toBe(201);
+    });
+
+    it("should replace tags on PATCH and keep them on PUT without tags", async () => {
+      const created = (await (
+        await createTagged({ tags: ["bun"] })
+      ).json()) as { data: Post };
+
+      const patched = await send("PATCH", created.data.id, {
+        tags: ["Hono", "DDD"],
+      });
+      expect(((await patched.json()) as { data: Post }).data.tags).toEqual([
+        "ddd",
+        "hono",
+      ]);
+
+      const put = await send("PUT", created.data.id, {
+        title: "Replaced",
+        content: "Replaced",
+      });
+      expect(((await put.json()) as { data: Post }).data.tags).toEqual([
+        "ddd",
+        "hono",
+      ]);
+
+      const cleared = await send("PATCH", created.data.id, { tags: [] });
+      expect(((await cleared.json()) as { data: Post }).data.tags).toEqual([]);
+    });
+
+    it("should filter the list by a normalized tag", async () => {
+      await createTagged({ title: "Bun post", tags: ["bun"] });
+      await createTagged({ title: "Hono post", tags: ["hono", "bun"] });
+      await createTagged({ title: "Untagged" });
+
+      const response = await app.request("/posts?tag=Hono");
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as {
+        data: Post[];
+        pagination: { total: number };
+      };
+      expect(body.data.map((post) => post.title)).toEqual(["Hono post"]);
+      expect(body.pagination.total).toBe(1);
+
+      const invalid = await app.request("/posts?tag=---");
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  describe("Reactions", () => {
+    let reactionApp: ReturnType<typeof createApp>;
+    let post: Post;
+
+    interface ReactionsBody {
+      counts: Record<string, number>;
+      mine: string[];
+    }
+
+    beforeEach(async () => {
+      reactionApp = createApp({
+        userRepository: ctx.userRepository,
+        postRepository: ctx.postRepository,
+        reactionRepository: ctx.reactionRepository,
+        authenticator: ctx.authenticator,
+      });
+
+      post = (
+        await ctx.postRepository.create({
+          title: "Reacted",
+          content: "Content",
+          authorId: testUser.id,
+          status: "published",
+        })
+      )._unsafeUnwrap();
+    });
+
+    const react = (
+      method: "PUT" | "DELETE",
+      kind: string,
+      userId = testUser.id,
+      id = post.id,
+    ) =>
+      reactionApp.request(`/posts/${id}/reactions/${kind}`, {
+        method,
+        headers: authHeaders(userId),
+      });
+
+    it("should add a reaction once and report the counts", async () => {
+      const reader = await createUserWithRole(ctx, "user");
+
+      await react("PUT", "like");
+      await react("PUT", "like", reader.id);
+      const response = await react("PUT", "like", reader.id);
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { data: ReactionsBody };
+      expect(body.data).toEqual({
+        counts: { like: 2, celebrate: 0, insightful: 0 },
+        mine: ["like"],
+      });
+    });
+
+    it("should remove a reaction idempotently", async () => {
+      await react("PUT", "celebrate");
+
+      const first = await react("DELETE", "celebrate");
+      const second = await react("DELETE", "celebrate");
+
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(200);
+      const body = (await second.json()) as { data: ReactionsBody };
+      expect(body.data.counts.celebrate).toBe(0);
+      expect(body.data.mine).toEqual([]);
+    });
+
+    it("should include reactions in GET /posts/:id and GET /posts", async () => {
+      await react("PUT", "insightful");
+
+      const single = (await (
+        await reactionApp.request(`/posts/${post.id}`, {
+          headers: authHeaders(testUser.id),
+        })
+      ).json()) as { data: Post & { reactions: ReactionsBody } };
+      const list = (await (await reactionApp.request("/posts")).json()) as {
+        data: (Post & { reactions: ReactionsBody })[];
+      };
+
+      expect(single.data.reactions).toEqual({
+        counts: { like: 0, celebrate: 0, insightful: 1 },
+        mine: ["insightful"],
+      });
+      expect(list.data[0]?.reactions).toEqual({
+        counts: { like: 0, celebrate: 0, insightful: 1 },
+        mine: [],
+      });
+    });
+
+    it("should reply 304 until the reactions change", async () => {
+      const revalidate = (etag: string) =>
+        reactionApp.request(`/posts/${post.id}`, {
+          headers: { ...authHeaders(testUser.id), "If-None-Match": etag },
+        });
+      const first = await reactionApp.request(`/posts/${post.id}`, {
+        headers: authHeaders(testUser.id),
+      });
+      const etag = first.headers.get("ETag")!;
+
+      const unchanged = await revalidate(etag);
+      await react("PUT", "like");
+      const changed = await revalidate(etag);
+
+      expect(unchanged.status).toBe(304);
+      expect(unchanged.headers.get("Vary")).toBe("Authorization");
+      expect(changed.status).toBe(200);
+      expect(changed.headers.get("ETag")).not.toBe(etag);
+      expect(changed.headers.get("Vary")).toBe("Authorization");
+      const body = (await changed.json()) as {
+        data: Post & { reactions: ReactionsBody };
+      };
+      expect(body.data.reactions.counts.like).toBe(1);
+    });
+
+    it("should give each viewer their own ETag", async () => {
+      const reader = await createUserWithRole(ctx, "user");
+      await react("PUT", "like");
+
+      const own = await reactionApp.request(`/posts/${post.id}`, {
+        headers: authHeaders(testUser.id),
+      });
+      const other = await reactionApp.request(`/posts/${post.id}`, {
+        headers: {
+          ...authHeaders(reader.id),
+          "If-None-Match": own.headers.get("ETag")!,
+        },
+      });
+
+      expect(other.status).toBe(200);
+    });
+
+    it("should accept the reactions ETag in If-Match", async () => {
+      const first = await reactionApp.request(`/posts/${post.id}`, {
+        headers: authHeaders(testUser.id),
+      });
+
+      const response = await reactionApp.request(`/posts/${post.id}`, {
+        method: "PATCH",
+        headers: {
+          ...authHeaders(testUser.id),
+          "Content-Type": "application/json",
+          "If-Match": first.headers.get("ETag")!,
+        },
+        body: JSON.stringify({ title: "Edited" }),
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject unknown kinds and anonymous callers", async () => {
+      const unknown = await react("PUT", "angry");
+      const anonymous = await reactionApp.request(
+        `/posts/${post.id}/reactions/like`,
+        { method: "PUT" },
+      );
+
+      expect(unknown.status).toBe(400);
+      expect(anonymous.status).toBe(401);
+    });
+
+    it("should return 404 for posts the user cannot view", async () => {
+      const draft = (
+        await ctx.postRepository.create({
+          title: "Draft",
+          content: "Content",
+          authorId: testUser.id,
+        })
+      )._unsafeUnwrap();
+      const reader = await createUserWithRole(ctx, "user");
+
+      const response = await react("PUT", "like", reader.id, draft.id);
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should leave reactions out when they are not enabled", async () => {
+      const response = await app.request(`/posts/${post.id}`);
+      const body = (await response.json()) as { data: Post };
+
+      expect(body.data).not.toHaveProperty("reactions");
+      expect(
+        (
+          await app.request(`/posts/${post.id}/reactions/like`, {
+            method: "PUT",
+          })
+        ).status,
+      ).toBe(404);
+    });
+  });
 });
@@ -0,0 +1,188 @@
+/**
+ * Problem Details tests for transport-level failures.
+ * Covers malformed bodies, unknown routes and thrown exceptions.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { HTTPException } from "hono/http-exception";
+
+import { createApp } from "../../../src/app";
+import type { ProblemDetails } from "../../../src/types/http-error";
+import { DEFAULT_MAX_BODY_BYTES } from "../../../src/utils/request-body";
+import { authHeaders } from "../../helpers/auth";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  createUserWithRole,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+describe("Problem Details", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+  let authorId: string;
+
+  const postRaw = (body: string, headers: Record<string, string> = {}) =>
+    app.request("/posts", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders(authorId),
+        ...headers,
+      },
+      body,
+    });
+
+  beforeEach(async () => {
+    ctx = createInMemoryTestContext();
+    app = createApp(ctx);
+    authorId = (await createUserWithRole(ctx, "user")).id;
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  describe("request bodies", () => {
+    it("should return 400 for malformed JSON", async () => {
+      const response = await postRaw('{"title": "Hello",');
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get("Content-Type")).toContain(
+        "application/problem+json",
+      );
+
+      const body = (await response.json()) as ProblemDetails;
+      expect(body.type).toBe("urn:app:error:validation");
+      expect(body.detail).toBe("Malformed JSON in request body");
+      expect(body.instance).toBe("/posts");
+      expect(body.errors?.[0]?.code).toBe("invalid_json");
+    });
+
+    it("should return 400 for a non-JSON content type", async () => {
+      const response = await postRaw("title=Hello", {
+        "Content-Type": "application/x-www-form-urlencoded",
+      });
+
+      expect(response.status).toBe(400);
+
+      const body = (await response.json()) as ProblemDetails;
+      expect(body.detail).toBe("Content-Type must be application/json");
+    });
+
+    it("should accept a +json structured syntax suffix", async () => {
+      const response = await postRaw(
+        JSON.stringify({ title: "Hello", content: "World" }),
+        { "Content-Type": "application/vnd.api+json; charset=utf-8" },
+      );
+
+      expect(response.status).toBe(201);
+    });
+
+    it("should return 400 for a JSON body that is not an object", async () => {
+      const response = await postRaw("[1, 2, 3]");
+
+      expect(response.status).toBe(400);
+
+      const body = (await response.json()) as ProblemDetails;
+      expect(body.detail).toBe("Request body must be a JSON object");
+    });
+
+    it("should return 413 for an oversized body", async () => {
+      const response = await postRaw(
+        JSON.stringify({
+          title: "Hello",
+          content: "x".repeat(DEFAULT_MAX_BODY_BYTES),
+        }),
+      );
+
+      expect(response.status).toBe(413);
+
+      const body = (await response.json()) as ProblemDetails;
+      expect(body.type).toBe("urn:app:error:payload-too-large");
+      expect(body.title).toBe("Payload Too Large");
+    });
+  });
+
+  describe("unknown routes", () => {
+    it("should return 404 Problem Details", async () => {
+      const response = await app.request("/does-not-exist");
+
+      expect(response.status).toBe(404);
+      expect(response.headers.get("Content-Type")).toContain(
+        "application/problem+json",
+      );
+
+      const body = (await response.json()) as ProblemDetails;
+      expect(body.type).toBe("urn:app:error:not-found");
+      expect(body.detail).toBe("Route GET /does-not-exist not found");
+      expect(body.instance).toBe("/does-not-exist");
+    });
+  });
+
+  describe("thrown errors", () => {
+    const createThrowingApp = (error: Error) =>
+      createApp({
+        authenticator: {
+          async authenticate() {
+            throw error;
+          },
+        },
+      });
+
+    it("should return 500 without leaking the error message", async () => {
+      const consoleError = console.error;
+      console.error = () => {};
+
+      try {
+        const response = await createThrowingApp(
+          new Error("database password is hunter2"),
+        ).request("/health");
+
+        expect(response.status).toBe(500);
+
+        const body = (await response.json()) as ProblemDetails;
+        expect(body.type).toBe("urn:app:error:unexpected");
+        expect(body.detail).toBe("An unexpected error occurred");
+      } finally {
+        console.error = consoleError;
+      }
+    });
+
+    it("should keep the status of an HTTPException", async () => {
+      const response = await createThrowingApp(
+        new HTTPException(403, { message: "Blocked" }),
+      ).request("/health");
+
+      expect(response.status).toBe(403);
+
+      const body = (await response.json()) as ProblemDetails;
+      expect(body.type).toBe("urn:app:error:forbidden");
+      expect(body.detail).toBe("Blocked");
+    });
+
+    it("should keep any other client-error status of an HTTPException", async () => {
+      const limited = await createThrowingApp(
+        new HTTPException(429, { message: "Slow down" }),
+      ).request("/health");
+      const unsupported = await createThrowingApp(
+        new HTTPException(415),
+      ).request("/health");
+
+      expect(limited.status).toBe(429);
+      expect(unsupported.status).toBe(415);
+
+      const limitedBody = (await limited.json()) as ProblemDetails;
+      expect(limitedBody).toMatchObject({
+        type: "urn:app:error:client",
+        title: "Too Many Requests",
+        status: 429,
+        detail: "Slow down",
+      });
+
+      const unsupportedBody = (await unsupported.json()) as ProblemDetails;
+      expect(unsupportedBody.title).toBe("Unsupported Media Type");
+      expect(unsupportedBody.detail).toBe("Unsupported Media Type");
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Statistics routes unit tests with in-memory repositories.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import type {
+  UserStatistics,
+  UsersStatisticsSummary,
+} from "../../../src/domain/services";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { authHeaders } from "../../helpers/auth";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  createUserWithRole,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+describe("Statistics Routes", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+  let author: User;
+
+  const createPost = async (content: string) =>
+    (
+      await ctx.postRepository.create({
+        title: "Post",
+        content,
+        authorId: author.id,
+        status: "published",
+      })
+    )._unsafeUnwrap();
+
+  beforeEach(async () => {
+    ctx = createInMemoryTestContext();
+    app = createApp(ctx);
+
+    author = await createUserWithRole(ctx, "user");
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  describe("GET /users/:id/stats", () => {
+    it("should count soft-deleted posts", async () => {
+      await createPost("12345");
+      const deleted = await createPost("1234567890");
+      await ctx.postRepository.delete(deleted.id);
+
+      const response = await app.request(`/users/${author.id}/stats`);
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as {
+        data: Omit<UserStatistics, "firstPostDate"> & {
+          firstPostDate: string | null;
+        };
+      };
+      expect(body.data).toMatchObject({
+        user: { id: author.id },
+        totalPosts: 2,
+        activePosts: 1,
+        deletedPosts: 1,
+        averagePostLength: 5,
+      });
+      expect(typeof body.data.firstPostDate).toBe("string");
+    });
+
+    it("should leave drafts out for anonymous viewers but not for the author", async () => {
+      await createPost("12345");
+      await ctx.postRepository.create({
+        title: "Draft",
+        content: "A draft",
+        authorId: author.id,
+        status: "draft",
+      });
+      const stats = async (headers?: Record<string, string>) =>
+        (
+          (await (
+            await app.request(`/users/${author.id}/stats`, { headers })
+          ).json()) as { data: UserStatistics }
+        ).data.totalPosts;
+
+      expect(await stats()).toBe(1);
+      expect(await stats(authHeaders(author.id))).toBe(2);
+    });
+
+    it("should return 404 for an unknown user", async () => {
+      const response = await app.request(`/users/${crypto.randomUUID()}/stats`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /stats/users", () => {
+    it("should summarize users and posts", async () => {
+      const other = await createUserWithRole(ctx, "user");
+      await createPost("Kept");
+      await createPost("Also kept");
+      await ctx.userRepository.delete(other.id);
+
+      const response = await app.request("/stats/users");
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { data: UsersStatisticsSummary };
+      expect(body.data).toEqual({
+        totalUsers: 2,
+        activeUsers: 1,
+        deletedUsers: 1,
+        totalPosts: 2,
+        activePosts: 2,
+        deletedPosts: 0,
+        averagePostsPerUser: 2,
+      });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tag route unit tests with in-memory repositories.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import { createApp } from "../../../src/app";
+import type { TagUsage } from "../../../src/repositories/interfaces/tag-repository";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  createUserWithRole,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+describe("GET /tags", () => {
+  let ctx: InMemoryTestContext;
+  let app: ReturnType<typeof createApp>;
+
+  const createPost = async (
+    tags: string[],
+    status: "draft" | "published" = "published",
+  ) => {
+    const author = await createUserWithRole(ctx, "user");
+    const result = await ctx.postRepository.create({
+      title: "Post",
+      content: "Content",
+      authorId: author.id,
+      status,
+      tags,
+    });
+    return result._unsafeUnwrap();
+  };
+
+  const listTags = async (query = "") => {
+    const response = await app.request(`/tags${query}`);
+    return { response, body: (await response.json()) as { data: TagUsage[] } };
+  };
+
+  beforeEach(() => {
+    ctx = createInMemoryTestContext();
+    app = createApp(ctx);
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  it("should return tags with usage counts, most used first", async () => {
+    await createPost(["bun", "hono"]);
+    await createPost(["hono"]);
+    await createPost(["drafts"], "draft");
+
+    const { response, body } = await listTags();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual([
+      { name: "hono", count: 2 },
+      { name: "bun", count: 1 },
+    ]);
+  });
+
+  it("should honour the limit", async () => {
+    await createPost(["bun", "hono"]);
+    await createPost(["hono"]);
+
+    const { body } = await listTags("?limit=1");
+
+    expect(body.data).toEqual([{ name: "hono", count: 2 }]);
+  });
+
+  it("should reject an invalid limit", async () => {
+    const { response } = await listTags("?limit=0");
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -7,21 +7,25 @@ import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 
 import { createApp } from "../../../src/app";
 import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { authHeaders } from "../../helpers/auth";
 import {
   clearTestContext,
   createInMemoryTestContext,
+  createUserWithRole,
   type InMemoryTestContext,
 } from "../../helpers/memory";
 
 describe("User Routes", () => {
   let ctx: InMemoryTestContext;
   let app: ReturnType<typeof createApp>;
+  let admin: User;
 
   beforeEach(() => {
     ctx = createInMemoryTestContext();
     app = createApp({
       userRepository: ctx.userRepository,
       postRepository: ctx.postRepository,
+      authenticator: ctx.authenticator,
     });
   });
 
@@ -164,10 +168,17 @@ describe("User Routes", () => {
   });
 
   describe("POST /users", () => {
+    beforeEach(async () => {
+      admin = await createUserWithRole(ctx, "admin");
+    });
+
     it("should create a user and return 201", async () => {
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Test User",
           email: "test@example.com",
@@ -189,7 +200,10 @@ describe("User Routes", () => {
     it("should create a user with image URL", async () => {
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "User With Image",
           email: "image@example.com",
@@ -209,7 +223,10 @@ describe("User Routes", () => {
     it("should return 400 for missing name", async () => {
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           email: "test@example.com",
         }),
@@ -229,7 +246,10 @@ describe("User Routes", () => {
     it("should return 400 for invalid email", async () => {
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Test User",
           email: "invalid-email",
@@ -245,7 +265,10 @@ describe("User Routes", () => {
     it("should return 409 for duplicate email", async () => {
       await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "First User",
           email: "duplicate@example.com",
@@ -254,7 +277,10 @@ describe("User Routes", () => {
 
       const response = await app.request("/users", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Second User",
           email: "duplicate@example.com",
@@ -269,6 +295,10 @@ describe("User Routes", () => {
   });
 
   describe("PUT /users/:id", () => {
+    beforeEach(async () => {
+      admin = await createUserWithRole(ctx, "admin");
+    });
+
     it("should fully update a user", async () => {
       const createResult = await ctx.userRepository.create({
         name: "Original Name",
@@ -281,7 +311,10 @@ describe("User Routes", () => {
 
       const response = await app.request(`/users/${user.id}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Updated Name",
           email: "updated@example.com",
@@ -308,7 +341,10 @@ describe("User Routes", () => {
 
       const response = await app.request(`/users/${user.id}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Updated Name",
           // missing email
@@ -321,7 +357,10 @@ describe("User Routes", () => {
     it("should return 404 for non-existent user", async () => {
       const response = await app.request("/users/non-existent-id", {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Updated Name",
           email: "updated@example.com",
@@ -348,7 +387,10 @@ describe("User Routes", () => {
 
       const response = await app.request(`/users/${user.id}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Updated Name",
           email: "existing@example.com",
@@ -360,6 +402,10 @@ describe("User Routes", () => {
   });
 
   describe("PATCH /users/:id", () => {
+    beforeEach(async () => {
+      admin = await createUserWithRole(ctx, "admin");
+    });
+
     it("should partially update a user (name only)", async () => {
       const createResult = await ctx.userRepository.create({
         name: "Original Name",
@@ -372,7 +418,10 @@ describe("User Routes", () => {
 
       const response = await app.request(`/users/${user.id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Updated Name",
         }),
@@ -398,7 +447,10 @@ describe("User Routes", () => {
 
       const response = await app.request(`/users/${user.id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           email: "updated@example.com",
         }),
@@ -424,7 +476,10 @@ describe("User Routes", () => {
 
       const response = await app.request(`/users/${user.id}`, {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({}),
       });
 
@@ -434,7 +489,10 @@ describe("User Routes", () => {
     it("should return 404 for non-existent user", async () => {
       const response = await app.request("/users/non-existent-id", {
         method: "PATCH",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(admin.id),
+        },
         body: JSON.stringify({
           name: "Updated Name",
         }),
@@ -445,6 +503,10 @@ describe("User Routes", () => {
   });
 
   describe("DELETE /users/:id", () => {
+    beforeEach(async () => {
+      admin = await createUserWithRole(ctx, "admin");
+    });
+
     it("should soft delete a user and return 204", async () => {
       const createResult = await ctx.userRepository.create({
         name: "Test User",
@@ -457,6 +519,7 @@ describe("User Routes", () => {
 
       const response = await app.request(`/users/${user.id}`, {
         method: "DELETE",
+        headers: authHeaders(admin.id),
       });
 
       expect(response.status).toBe(204);
@@ -469,6 +532,7 @@ describe("User Routes", () => {
     it("should return 404 for non-existent user", async () => {
       const response = await app.request("/users/non-existent-id", {
         method: "DELETE",
+        headers: authHeaders(admin.id),
       });
 
       expect(response.status).toBe(404);
@@ -485,11 +549,15 @@ describe("User Routes", () => {
       const user = createResult.value;
 
       // First delete
-      await app.request(`/users/${user.id}`, { method: "DELETE" });
+      await app.request(`/users/${user.id}`, {
+        method: "DELETE",
+        headers: authHeaders(admin.id),
+      });
 
       // Second delete should fail
       const response = await app.request(`/users/${user.id}`, {
         method: "DELETE",
+        headers: authHeaders(admin.id),
       });
 
       expect(response.status).toBe(404);
@@ -505,7 +573,10 @@ describe("User Routes", () => {
 
       const user = createResult.value;
 
-      await app.request(`/users/${user.id}`, { method: "DELETE" });
+      await app.request(`/users/${user.id}`, {
+        method: "DELETE",
+        headers: authHeaders(admin.id),
+      });
 
       const listResponse = await app.request("/users");
       const body = (await listResponse.json()) as {
@@ -513,8 +584,173 @@ describe("User Routes", () => {
         pagination: { total: number };
       };
 
-      expect(body.data).toHaveLength(0);
-      expect(body.pagination.total).toBe(0);
+      // Only the acting admin remains
+      expect(body.data).toHaveLength(1);
+      expect(body.pagination.total).toBe(1);
+    });
+  });
+
+  describe("POST /users/:id/restore", () => {
+    let deleted: User;
+
+    const restoreUser = (id: string, actorId: string) =>
+      app.request(`/users/${id}/restore`, {
+        method: "POST",
+        headers: authHeaders(actorId),
+      });
+
+    beforeEach(async () => {
+      admin = await createUserWithRole(ctx, "admin");
+      deleted = (
+        await ctx.userRepository.create({
+          name: "Test User",
+          email: "test@example.com",
+        })
+      )._unsafeUnwrap();
+      await ctx.userRepository.delete(deleted.id);
+    });
+
+    it("should restore a deleted user", async () => {
+      const response = await restoreUser(deleted.id, admin.id);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe(`"${deleted.version + 1}"`);
+      const body = (await response.json()) as { data: User };
+      expect(body.data.id).toBe(deleted.id);
+      expect(body.data.deletedAt).toBeNull();
+
+      const getResponse = await app.request(`/users/${deleted.id}`);
+      expect(getResponse.status).toBe(200);
+    });
+
+    it("should return 409 when the email was taken since", async () => {
+      await ctx.userRepository.create({
+        name: "Newcomer",
+        email: "test@example.com",
+      });
+
+      const response = await restoreUser(deleted.id, admin.id);
+
+      expect(response.status).toBe(409);
+    });
+
+    it("should return 404 for a user that is not deleted", async () => {
+      const response = await restoreUser(admin.id, admin.id);
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 403 for non-admins", async () => {
+      const moderator = await createUserWithRole(ctx, "moderator");
+
+      const response = await restoreUser(deleted.id, moderator.id);
+
+      expect(response.status).toBe(403);
+      const body = (await response.json()) as { requiredPermission: string };
+      expect(body.requiredPermission).toBe("users:restore");
+    });
+
+    it("should return 401 without authentication", async () => {
+      const response = await app.request(`/users/${deleted.id}/restore`, {
+        method: "POST",
+      });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("role-based access", () => {
+    const patchUser = (id: string, actorId: string, body: unknown) =>
+      app.request(`/users/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(actorId),
+        },
+        body: JSON.stringify(body),
+      });
+
+    it("should return 401 for anonymous writes", async () => {
+      const response = await app.request("/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Anon", email: "anon@example.com" }),
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should return 403 when a regular user creates a user", async () => {
+      const member = await createUserWithRole(ctx, "user");
+
+      const response = await app.request("/users", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(member.id),
+        },
+        body: JSON.stringify({ name: "New", email: "new@example.com" }),
+      });
+
+      expect(response.status).toBe(403);
+
+      const body = (await response.json()) as { requiredPermission: string };
+      expect(body.requiredPermission).toBe("users:manage");
+    });
+
+    it("should let users update their own profile", async () => {
+      const member = await createUserWithRole(ctx, "user");
+
+      const response = await patchUser(member.id, member.id, {
+        name: "Renamed",
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should return 403 when a user updates someone else", async () => {
+      const member = await createUserWithRole(ctx, "user");
+      const other = await createUserWithRole(ctx, "user");
+
+      const response = await patchUser(other.id, member.id, {
+        name: "Hijacked",
+      });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should not let users change their own role", async () => {
+      const member = await createUserWithRole(ctx, "user");
+
+      const response = await patchUser(member.id, member.id, {
+        role: "admin",
+      });
+
+      expect(response.status).toBe(403);
+
+      const stored = await ctx.userRepository.findById(member.id);
+      expect(stored._unsafeUnwrap()?.role).toBe("user");
+    });
+
+    it("should let admins manage other users and assign roles", async () => {
+      const adminUser = await createUserWithRole(ctx, "admin");
+      const member = await createUserWithRole(ctx, "user");
+
+      const response = await patchUser(member.id, adminUser.id, {
+        role: "moderator",
+      });
+
+      expect(response.status).toBe(200);
+
+      const body = (await response.json()) as { data: User };
+      expect(body.data.role).toBe("moderator");
+
+      const deleteResponse = await app.request(`/users/${member.id}`, {
+        method: "DELETE",
+        headers: authHeaders(adminUser.id),
+      });
+
+      expect(deleteResponse.status).toBe(204);
     });
   });
 });
@@ -165,4 +165,50 @@ describe("executeCreatePost", () => {
       }
     });
   });
+
+  describe("with a unit of work", () => {
+    it("should create the post inside the unit of work", async () => {
+      const result = await executeCreatePost(
+        {
+          postRepository: ctx.postRepository,
+          userRepository: ctx.userRepository,
+          unitOfWork: ctx.unitOfWork,
+        },
+        {
+          title: "Atomic Post",
+          content: "Created in a transaction.",
+          authorId: testUser.id,
+        },
+      );
+
+      expect(result.isOk()).toBe(true);
+
+      const found = await ctx.postRepository.findById(
+        result._unsafeUnwrap().post.id,
+      );
+
+      expect(found._unsafeUnwrap()?.title).toBe("Atomic Post");
+    });
+
+    it("should return NotFoundError and write nothing for a missing author", async () => {
+      const result = await executeCreatePost(
+        {
+          postRepository: ctx.postRepository,
+          userRepository: ctx.userRepository,
+          unitOfWork: ctx.unitOfWork,
+        },
+        {
+          title: "Orphan Post",
+          content: "Should not be saved.",
+          authorId: "non-existent-user-id",
+        },
+      );
+
+      expect(result._unsafeUnwrapErr().type).toBe("NotFoundError");
+
+      const all = await ctx.postRepository.findAll({ limit: 10 });
+
+      expect(all._unsafeUnwrap().total).toBe(0);
+    });
+  });
 });
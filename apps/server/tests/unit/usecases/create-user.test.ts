@@ -6,17 +6,21 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
 
 import { executeCreateUser } from "../../../src/usecases/create-user/usecase";
+import type { User } from "../../../src/repositories/interfaces/user-repository";
 import {
   clearTestContext,
   createInMemoryTestContext,
+  createUserWithRole,
   type InMemoryTestContext,
 } from "../../helpers/memory";
 
 describe("executeCreateUser", () => {
   let ctx: InMemoryTestContext;
+  let admin: User;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     ctx = createInMemoryTestContext();
+    admin = await createUserWithRole(ctx, "admin");
   });
 
   afterEach(() => {
@@ -29,8 +33,9 @@ describe("executeCreateUser", () => {
         {
           userRepository: ctx.userRepository,
           userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
         },
-        { name: "Test User", email: "test@example.com" },
+        { actorId: admin.id, name: "Test User", email: "test@example.com" },
       );
 
       expect(result.isOk()).toBe(true);
@@ -48,8 +53,10 @@ describe("executeCreateUser", () => {
         {
           userRepository: ctx.userRepository,
           userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
         },
         {
+          actorId: admin.id,
           name: "User With Image",
           email: "image@example.com",
           image: "https://example.com/avatar.png",
@@ -68,8 +75,13 @@ describe("executeCreateUser", () => {
         {
           userRepository: ctx.userRepository,
           userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
+        },
+        {
+          actorId: admin.id,
+          name: "No Image User",
+          email: "noimage@example.com",
         },
-        { name: "No Image User", email: "noimage@example.com" },
       );
 
       expect(result.isOk()).toBe(true);
@@ -87,8 +99,13 @@ describe("executeCreateUser", () => {
         {
           userRepository: ctx.userRepository,
           userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
+        },
+        {
+          actorId: admin.id,
+          name: "First User",
+          email: "duplicate@example.com",
         },
-        { name: "First User", email: "duplicate@example.com" },
       );
 
       // Try to create another user with the same email
@@ -96,8 +113,13 @@ describe("executeCreateUser", () => {
         {
           userRepository: ctx.userRepository,
           userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
+        },
+        {
+          actorId: admin.id,
+          name: "Second User",
+          email: "duplicate@example.com",
         },
-        { name: "Second User", email: "duplicate@example.com" },
       );
 
       expect(result.isErr()).toBe(true);
@@ -113,16 +135,18 @@ describe("executeCreateUser", () => {
         {
           userRepository: ctx.userRepository,
           userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
         },
-        { name: "User One", email: "user1@example.com" },
+        { actorId: admin.id, name: "User One", email: "user1@example.com" },
       );
 
       const result2 = await executeCreateUser(
         {
           userRepository: ctx.userRepository,
           userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
         },
-        { name: "User Two", email: "user2@example.com" },
+        { actorId: admin.id, name: "User Two", email: "user2@example.com" },
       );
 
       expect(result1.isOk()).toBe(true);
@@ -130,6 +154,29 @@ describe("executeCreateUser", () => {
     });
   });
 
+  describe("authorization", () => {
+    it("should return ForbiddenError when the actor is not an admin", async () => {
+      const member = await createUserWithRole(ctx, "user");
+
+      const result = await executeCreateUser(
+        {
+          userRepository: ctx.userRepository,
+          userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
+        },
+        { actorId: member.id, name: "Sneaky", email: "sneaky@example.com" },
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toMatchObject({
+          type: "ForbiddenError",
+          requiredPermission: "users:manage",
+        });
+      }
+    });
+  });
+
   describe("email verification", () => {
     it("should check email existence before creation", async () => {
       // Create first user
@@ -137,8 +184,9 @@ describe("executeCreateUser", () => {
         {
           userRepository: ctx.userRepository,
           userAuthenticationService: ctx.userAuthenticationService,
+          userAuthorizationService: ctx.userAuthorizationService,
         },
-        { name: "First", email: "check@example.com" },
+        { actorId: admin.id, name: "First", email: "check@example.com" },
       );
 
       expect(firstResult.isOk()).toBe(true);
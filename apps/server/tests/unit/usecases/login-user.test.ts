@@ -0,0 +1,123 @@
+/**
+ * Login User UseCase unit tests.
+ * Tests credential verification with in-memory repositories.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+
+import type { User } from "../../../src/repositories/interfaces/user-repository";
+import { executeLoginUser } from "../../../src/usecases/login-user/usecase";
+import {
+  clearTestContext,
+  createInMemoryTestContext,
+  type InMemoryTestContext,
+} from "../../helpers/memory";
+
+describe("executeLoginUser", () => {
+  let ctx: InMemoryTestContext;
+  let testUser: User;
+
+  beforeEach(async () => {
+    ctx = createInMemoryTestContext();
+
+    const userResult = await ctx.userRepository.create({
+      name: "Test User",
+      email: "test@example.com",
+    });
+
+    if (userResult.isErr()) {
+      throw new Error("Failed to create test user");
+    }
+
+    testUser = userResult.value;
+
+    await ctx.credentialRepository.create({
+      userId: testUser.id,
+      passwordHash: await ctx.passwordHasher.hash("s3cret-password"),
+    });
+  });
+
+  afterEach(() => {
+    clearTestContext(ctx);
+  });
+
+  const login = (email: string, password: string) =>
+    executeLoginUser(
+      {
+        userRepository: ctx.userRepository,
+        credentialRepository: ctx.credentialRepository,
+        passwordHasher: ctx.passwordHasher,
+      },
+      { email, password },
+    );
+
+  it("should return the user and session version for valid credentials", async () => {
+    const result = await login("test@example.com", "s3cret-password");
+
+    expect(result.isOk()).toBe(true);
+
+    if (result.isOk()) {
+      expect(result.value.user.id).toBe(testUser.id);
+      expect(result.value.sessionVersion).toBe(0);
+    }
+  });
+
+  it("should return UnauthorizedError for a wrong password", async () => {
+    const result = await login("test@example.com", "wrong-password");
+
+    expect(result.isErr()).toBe(true);
+
+    if (result.isErr()) {
+      expect(result.error.type).toBe("UnauthorizedError");
+    }
+  });
+
+  it("should return UnauthorizedError for an unknown email", async () => {
+    const result = await login("unknown@example.com", "s3cret-password");
+
+    expect(result.isErr()).toBe(true);
+
+    if (result.isErr()) {
+      expect(result.error.type).toBe("UnauthorizedError");
+    }
+  });
+
+  it("should return UnauthorizedError for a user without a password", async () => {
+    await ctx.userRepository.create({
+      name: "No Password",
+      email: "nopassword@example.com",
+    });
+
+    const result = await login("nopassword@example.com", "anything");
+
+    expect(result.isErr()).toBe(true);
+
+    if (result.isErr()) {
+      expect(result.error.type).toBe("UnauthorizedError");
+    }
+  });
+
+  it("should return UnauthorizedError for a soft-deleted user", async () => {
+    await ctx.userRepository.delete(testUser.id);
+
+    const result = await login("test@example.com", "s3cret-password");
+
+    expect(result.isErr()).toBe(true);
+
+    if (result.isErr()) {
+      expect(result.error.type).toBe("UnauthorizedError");
+    }
+  });
+
+  it("should report the bumped session version after logout", async () => {
+    await ctx.credentialRepository.incrementSessionVersion(testUser.id);
+
+    const result = await login("test@example.com", "s3cret-password");
+
+    expect(result.isOk()).toBe(true);
+
+    if (result.isOk()) {
+      expect(result.value.sessionVersion).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Line diff tests.
+ */
+
+import { describe, expect, it } from "bun:test";
+
+import { diffLines } from "../../../src/utils/line-diff";
+
+describe("diffLines", () => {
+  it("should mark every line unchanged for identical texts", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([
+      { op: "unchanged", line: "a" },
+      { op: "unchanged", line: "b" },
+    ]);
+  });
+
+  it("should report a replaced line as removed then added", () => {
+    expect(diffLines("a\nb\nc", "a\nB\nc")).toEqual([
+      { op: "unchanged", line: "a" },
+      { op: "removed", line: "b" },
+      { op: "added", line: "B" },
+      { op: "unchanged", line: "c" },
+    ]);
+  });
+
+  it("should keep the longest common subsequence", () => {
+    expect(diffLines("a\nb\nc\nd", "b\nx\nd\ne")).toEqual([
+      { op: "removed", line: "a" },
+      { op: "unchanged", line: "b" },
+      { op: "removed", line: "c" },
+      { op: "added", line: "x" },
+      { op: "unchanged", line: "d" },
+      { op: "added", line: "e" },
+    ]);
+  });
+
+  it("should treat an empty text as having no lines", () => {
+    expect(diffLines("", "a")).toEqual([{ op: "added", line: "a" }]);
+    expect(diffLines("a", "")).toEqual([{ op: "removed", line: "a" }]);
+    expect(diffLines("", "")).toEqual([]);
+  });
+
+  it("should ignore the difference between CRLF and LF", () => {
+    expect(diffLines("a\r\nb", "a\nb")).toEqual([
+      { op: "unchanged", line: "a" },
+      { op: "unchanged", line: "b" },
+    ]);
+  });
+});
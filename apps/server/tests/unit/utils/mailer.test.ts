@@ -0,0 +1,45 @@
+/**
+ * HTTP mailer tests.
+ * Delivery goes through an injected fetch, so nothing leaves the process.
+ */
+
+import { describe, expect, it } from "bun:test";
+
+import { createHttpMailer } from "../../../src/utils/mailer";
+
+const message = {
+  to: "alice@example.com",
+  subject: "Verify your email address",
+  text: "Token",
+};
+
+describe("createHttpMailer", () => {
+  it("should post the message as JSON with the bearer token", async () => {
+    const requests: Request[] = [];
+    const mailer = createHttpMailer({
+      url: "https://mail.example.com/send",
+      token: "secret",
+      fetch: async (url, init) => {
+        requests.push(new Request(url, init));
+        return new Response(null, { status: 202 });
+      },
+    });
+
+    await mailer.send(message);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.url).toBe("https://mail.example.com/send");
+    expect(requests[0]!.method).toBe("POST");
+    expect(requests[0]!.headers.get("Authorization")).toBe("Bearer secret");
+    expect(await requests[0]!.json()).toEqual(message);
+  });
+
+  it("should throw when the endpoint rejects the message", async () => {
+    const mailer = createHttpMailer({
+      url: "https://mail.example.com/send",
+      fetch: async () => new Response(null, { status: 503 }),
+    });
+
+    await expect(mailer.send(message)).rejects.toThrow("503");
+  });
+});
@@ -0,0 +1,63 @@
+CREATE TABLE `user` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`email` text NOT NULL,
+	`emailVerified` integer,
+	`role` text DEFAULT 'user' NOT NULL,
+	`image` text,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`deletedAt` integer
+);
+--> statement-breakpoint
+CREATE INDEX `user_createdAt_id_idx` ON `user` (`createdAt`,`id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `user_email_active_idx` ON `user` (`email`) WHERE "user"."deletedAt" IS NULL;--> statement-breakpoint
+CREATE TABLE `post` (
+	`id` text PRIMARY KEY NOT NULL,
+	`title` text NOT NULL,
+	`content` text NOT NULL,
+	`authorId` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`deletedAt` integer,
+	FOREIGN KEY (`authorId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `post_createdAt_id_idx` ON `post` (`createdAt`,`id`);--> statement-breakpoint
+CREATE TABLE `credential` (
+	`userId` text PRIMARY KEY NOT NULL,
+	`passwordHash` text NOT NULL,
+	`sessionVersion` integer DEFAULT 0 NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `email_verification_token` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`email` text NOT NULL,
+	`tokenHash` text NOT NULL,
+	`expiresAt` integer NOT NULL,
+	`consumedAt` integer,
+	`createdAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `email_verification_token_tokenHash_unique` ON `email_verification_token` (`tokenHash`);--> statement-breakpoint
+CREATE INDEX `email_verification_token_userId_idx` ON `email_verification_token` (`userId`);--> statement-breakpoint
+CREATE TABLE `personal_access_token` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`name` text NOT NULL,
+	`tokenHash` text NOT NULL,
+	`scopes` text NOT NULL,
+	`expiresAt` integer,
+	`lastUsedAt` integer,
+	`revokedAt` integer,
+	`createdAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `personal_access_token_tokenHash_unique` ON `personal_access_token` (`tokenHash`);--> statement-breakpoint
+CREATE INDEX `personal_access_token_userId_idx` ON `personal_access_token` (`userId`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `user` ADD `version` integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE `post` ADD `version` integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `idempotency_key` (
+	`userId` text NOT NULL,
+	`key` text NOT NULL,
+	`fingerprint` text NOT NULL,
+	`responseStatus` integer,
+	`responseBody` text,
+	`responseHeaders` text,
+	`createdAt` integer NOT NULL,
+	`expiresAt` integer NOT NULL,
+	PRIMARY KEY(`userId`, `key`),
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `idempotency_key_expiresAt_idx` ON `idempotency_key` (`expiresAt`);
\ No newline at end of file
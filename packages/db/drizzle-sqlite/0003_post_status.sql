@@ -0,0 +1,3 @@
+ALTER TABLE `post` ADD `status` text DEFAULT 'draft' NOT NULL;--> statement-breakpoint
+ALTER TABLE `post` ADD `publishedAt` integer;--> statement-breakpoint
+UPDATE `post` SET `status` = 'published', `publishedAt` = `createdAt`;
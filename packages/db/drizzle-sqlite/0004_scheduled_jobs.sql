@@ -0,0 +1,16 @@
+CREATE TABLE `job` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`payload` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`runAt` integer NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`maxAttempts` integer DEFAULT 5 NOT NULL,
+	`lastError` text,
+	`lockedUntil` integer,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `job_status_runAt_idx` ON `job` (`status`,`runAt`);--> statement-breakpoint
+ALTER TABLE `post` ADD `publishAt` integer;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `post_revision` (
+	`id` text PRIMARY KEY NOT NULL,
+	`postId` text NOT NULL,
+	`revision` integer NOT NULL,
+	`title` text NOT NULL,
+	`content` text NOT NULL,
+	`editorId` text,
+	`createdAt` integer NOT NULL,
+	FOREIGN KEY (`postId`) REFERENCES `post`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`editorId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `post_revision_postId_revision_idx` ON `post_revision` (`postId`,`revision`);--> statement-breakpoint
+CREATE INDEX `post_revision_editorId_idx` ON `post_revision` (`editorId`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `post_tags` (
+	`postId` text NOT NULL,
+	`tagId` text NOT NULL,
+	PRIMARY KEY(`postId`, `tagId`),
+	FOREIGN KEY (`postId`) REFERENCES `post`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tagId`) REFERENCES `tag`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `post_tags_tagId_postId_idx` ON `post_tags` (`tagId`,`postId`);--> statement-breakpoint
+CREATE TABLE `tag` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`createdAt` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tag_name_unique` ON `tag` (`name`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `comment` (
+	`id` text PRIMARY KEY NOT NULL,
+	`postId` text NOT NULL,
+	`parentId` text,
+	`authorId` text NOT NULL,
+	`content` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`deletedAt` integer,
+	FOREIGN KEY (`postId`) REFERENCES `post`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`parentId`) REFERENCES `comment`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`authorId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `comment_postId_createdAt_idx` ON `comment` (`postId`,`createdAt`,`id`);--> statement-breakpoint
+CREATE INDEX `comment_parentId_idx` ON `comment` (`parentId`);--> statement-breakpoint
+CREATE INDEX `comment_authorId_idx` ON `comment` (`authorId`);
\ No newline at end of file
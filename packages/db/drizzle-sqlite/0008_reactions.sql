@@ -0,0 +1,11 @@
+CREATE TABLE `post_reaction` (
+	`postId` text NOT NULL,
+	`userId` text NOT NULL,
+	`kind` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	PRIMARY KEY(`postId`, `userId`, `kind`),
+	FOREIGN KEY (`postId`) REFERENCES `post`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `post_reaction_userId_idx` ON `post_reaction` (`userId`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `follow` (
+	`followerId` text NOT NULL,
+	`followeeId` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	PRIMARY KEY(`followerId`, `followeeId`),
+	FOREIGN KEY (`followerId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`followeeId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `follow_followeeId_createdAt_idx` ON `follow` (`followeeId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `post_feed_idx` ON `post` (`authorId`,`createdAt`,`id`) WHERE "post"."status" = 'published' and "post"."deletedAt" is null;
\ No newline at end of file
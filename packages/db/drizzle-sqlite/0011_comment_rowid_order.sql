@@ -0,0 +1,2 @@
+DROP INDEX `comment_postId_createdAt_idx`;--> statement-breakpoint
+CREATE INDEX `comment_postId_createdAt_idx` ON `comment` (`postId`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- Full-text index over post titles and content, kept in sync with the post table by triggers
+CREATE VIRTUAL TABLE `post_fts` USING fts5(`title`, `content`, content='post', content_rowid='rowid', tokenize='porter unicode61');--> statement-breakpoint
+CREATE TRIGGER `post_fts_insert` AFTER INSERT ON `post` BEGIN
+	INSERT INTO `post_fts` (`rowid`, `title`, `content`) VALUES (new.`rowid`, new.`title`, new.`content`);
+END;--> statement-breakpoint
+CREATE TRIGGER `post_fts_delete` AFTER DELETE ON `post` BEGIN
+	INSERT INTO `post_fts` (`post_fts`, `rowid`, `title`, `content`) VALUES ('delete', old.`rowid`, old.`title`, old.`content`);
+END;--> statement-breakpoint
+CREATE TRIGGER `post_fts_update` AFTER UPDATE OF `title`, `content` ON `post` BEGIN
+	INSERT INTO `post_fts` (`post_fts`, `rowid`, `title`, `content`) VALUES ('delete', old.`rowid`, old.`title`, old.`content`);
+	INSERT INTO `post_fts` (`rowid`, `title`, `content`) VALUES (new.`rowid`, new.`title`, new.`content`);
+END;--> statement-breakpoint
+INSERT INTO `post_fts` (`post_fts`) VALUES ('rebuild');
\ No newline at end of file
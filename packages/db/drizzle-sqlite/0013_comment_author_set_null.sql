@@ -0,0 +1,22 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_comment` (
+	`id` text PRIMARY KEY NOT NULL,
+	`postId` text NOT NULL,
+	`parentId` text,
+	`authorId` text,
+	`content` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`deletedAt` integer,
+	FOREIGN KEY (`postId`) REFERENCES `post`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`parentId`) REFERENCES `comment`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`authorId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+INSERT INTO `__new_comment`("id", "postId", "parentId", "authorId", "content", "createdAt", "updatedAt", "deletedAt") SELECT "id", "postId", "parentId", "authorId", "content", "createdAt", "updatedAt", "deletedAt" FROM `comment` ORDER BY rowid;--> statement-breakpoint
+DROP TABLE `comment`;--> statement-breakpoint
+ALTER TABLE `__new_comment` RENAME TO `comment`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `comment_postId_createdAt_idx` ON `comment` (`postId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `comment_parentId_idx` ON `comment` (`parentId`);--> statement-breakpoint
+CREATE INDEX `comment_authorId_idx` ON `comment` (`authorId`);
\ No newline at end of file
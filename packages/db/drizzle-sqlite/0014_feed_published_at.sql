@@ -0,0 +1,2 @@
+DROP INDEX `post_feed_idx`;--> statement-breakpoint
+CREATE INDEX `post_feed_idx` ON `post` (`authorId`,`publishedAt`,`id`) WHERE "post"."status" = 'published' and "post"."deletedAt" is null;
\ No newline at end of file
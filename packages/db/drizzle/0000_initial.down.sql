@@ -0,0 +1,5 @@
+DROP TABLE "personal_access_token";--> statement-breakpoint
+DROP TABLE "email_verification_token";--> statement-breakpoint
+DROP TABLE "credential";--> statement-breakpoint
+DROP TABLE "post";--> statement-breakpoint
+DROP TABLE "user";
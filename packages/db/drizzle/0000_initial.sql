@@ -0,0 +1,65 @@
+CREATE TABLE "user" (
+	"id" varchar(128) PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"emailVerified" timestamp,
+	"role" varchar(32) DEFAULT 'user' NOT NULL,
+	"image" varchar(255),
+	"createdAt" timestamp (3) DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	"deletedAt" timestamp,
+	CONSTRAINT "user_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+CREATE TABLE "post" (
+	"id" varchar(128) PRIMARY KEY NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"content" text NOT NULL,
+	"authorId" varchar(128) NOT NULL,
+	"createdAt" timestamp (3) DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	"deletedAt" timestamp,
+	"searchVector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', "post"."title"), 'A') || setweight(to_tsvector('english', "post"."content"), 'B')) STORED
+);
+--> statement-breakpoint
+CREATE TABLE "credential" (
+	"userId" varchar(128) PRIMARY KEY NOT NULL,
+	"passwordHash" text NOT NULL,
+	"sessionVersion" integer DEFAULT 0 NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "email_verification_token" (
+	"id" varchar(128) PRIMARY KEY NOT NULL,
+	"userId" varchar(128) NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"tokenHash" varchar(64) NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	"consumedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_verification_token_tokenHash_unique" UNIQUE("tokenHash")
+);
+--> statement-breakpoint
+CREATE TABLE "personal_access_token" (
+	"id" varchar(128) PRIMARY KEY NOT NULL,
+	"userId" varchar(128) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"tokenHash" varchar(64) NOT NULL,
+	"scopes" text[] NOT NULL,
+	"expiresAt" timestamp,
+	"lastUsedAt" timestamp,
+	"revokedAt" timestamp,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "personal_access_token_tokenHash_unique" UNIQUE("tokenHash")
+);
+--> statement-breakpoint
+ALTER TABLE "post" ADD CONSTRAINT "post_authorId_user_id_fk" FOREIGN KEY ("authorId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "credential" ADD CONSTRAINT "credential_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "email_verification_token" ADD CONSTRAINT "email_verification_token_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "personal_access_token" ADD CONSTRAINT "personal_access_token_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_createdAt_id_idx" ON "user" USING btree ("createdAt","id");--> statement-breakpoint
+CREATE INDEX "post_createdAt_id_idx" ON "post" USING btree ("createdAt","id");--> statement-breakpoint
+CREATE INDEX "post_searchVector_idx" ON "post" USING gin ("searchVector");--> statement-breakpoint
+CREATE INDEX "email_verification_token_userId_idx" ON "email_verification_token" USING btree ("userId");--> statement-breakpoint
+CREATE INDEX "personal_access_token_userId_idx" ON "personal_access_token" USING btree ("userId");
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "user_email_active_idx";--> statement-breakpoint
+ALTER TABLE "user" ADD CONSTRAINT "user_email_unique" UNIQUE("email");
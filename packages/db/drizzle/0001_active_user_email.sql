@@ -0,0 +1,2 @@
+ALTER TABLE "user" DROP CONSTRAINT "user_email_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX "user_email_active_idx" ON "user" USING btree ("email") WHERE "user"."deletedAt" IS NULL;
\ No newline at end of file
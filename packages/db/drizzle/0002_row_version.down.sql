@@ -0,0 +1,2 @@
+ALTER TABLE "post" DROP COLUMN "version";--> statement-breakpoint
+ALTER TABLE "user" DROP COLUMN "version";
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "idempotency_key" (
+	"userId" varchar(128) NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"fingerprint" varchar(64) NOT NULL,
+	"responseStatus" integer,
+	"responseBody" text,
+	"responseHeaders" jsonb,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"expiresAt" timestamp NOT NULL,
+	CONSTRAINT "idempotency_key_userId_key_pk" PRIMARY KEY("userId","key")
+);
+--> statement-breakpoint
+ALTER TABLE "idempotency_key" ADD CONSTRAINT "idempotency_key_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idempotency_key_expiresAt_idx" ON "idempotency_key" USING btree ("expiresAt");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "post" DROP COLUMN "publishedAt";--> statement-breakpoint
+ALTER TABLE "post" DROP COLUMN "status";
@@ -0,0 +1,3 @@
+ALTER TABLE "post" ADD COLUMN "status" varchar(32) DEFAULT 'draft' NOT NULL;--> statement-breakpoint
+ALTER TABLE "post" ADD COLUMN "publishedAt" timestamp;--> statement-breakpoint
+UPDATE "post" SET "status" = 'published', "publishedAt" = "createdAt";
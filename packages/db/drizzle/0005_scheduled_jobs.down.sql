@@ -0,0 +1,2 @@
+ALTER TABLE "post" DROP COLUMN "publishAt";--> statement-breakpoint
+DROP TABLE "job";
@@ -0,0 +1,16 @@
+CREATE TABLE "job" (
+	"id" varchar(128) PRIMARY KEY NOT NULL,
+	"type" varchar(64) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" varchar(32) DEFAULT 'pending' NOT NULL,
+	"runAt" timestamp (3) NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"maxAttempts" integer DEFAULT 5 NOT NULL,
+	"lastError" text,
+	"lockedUntil" timestamp (3),
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "post" ADD COLUMN "publishAt" timestamp;--> statement-breakpoint
+CREATE INDEX "job_status_runAt_idx" ON "job" USING btree ("status","runAt");
\ No newline at end of file
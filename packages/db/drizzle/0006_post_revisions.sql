@@ -0,0 +1,14 @@
+CREATE TABLE "post_revision" (
+	"id" varchar(128) PRIMARY KEY NOT NULL,
+	"postId" varchar(128) NOT NULL,
+	"revision" integer NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"content" text NOT NULL,
+	"editorId" varchar(128),
+	"createdAt" timestamp (3) DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "post_revision" ADD CONSTRAINT "post_revision_postId_post_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."post"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_revision" ADD CONSTRAINT "post_revision_editorId_user_id_fk" FOREIGN KEY ("editorId") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "post_revision_postId_revision_idx" ON "post_revision" USING btree ("postId","revision");--> statement-breakpoint
+CREATE INDEX "post_revision_editorId_idx" ON "post_revision" USING btree ("editorId");
\ No newline at end of file
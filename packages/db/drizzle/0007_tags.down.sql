@@ -0,0 +1,2 @@
+DROP TABLE "post_tags";--> statement-breakpoint
+DROP TABLE "tag";
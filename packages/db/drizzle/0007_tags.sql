@@ -0,0 +1,16 @@
+CREATE TABLE "post_tags" (
+	"postId" varchar(128) NOT NULL,
+	"tagId" varchar(128) NOT NULL,
+	CONSTRAINT "post_tags_postId_tagId_pk" PRIMARY KEY("postId","tagId")
+);
+--> statement-breakpoint
+CREATE TABLE "tag" (
+	"id" varchar(128) PRIMARY KEY NOT NULL,
+	"name" varchar(32) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "tag_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "post_tags" ADD CONSTRAINT "post_tags_postId_post_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."post"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_tags" ADD CONSTRAINT "post_tags_tagId_tag_id_fk" FOREIGN KEY ("tagId") REFERENCES "public"."tag"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "post_tags_tagId_postId_idx" ON "post_tags" USING btree ("tagId","postId");
\ No newline at end of file
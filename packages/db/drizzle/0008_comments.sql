@@ -0,0 +1,17 @@
+CREATE TABLE "comment" (
+	"id" varchar(128) PRIMARY KEY NOT NULL,
+	"postId" varchar(128) NOT NULL,
+	"parentId" varchar(128),
+	"authorId" varchar(128) NOT NULL,
+	"content" text NOT NULL,
+	"createdAt" timestamp (3) DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL,
+	"deletedAt" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "comment" ADD CONSTRAINT "comment_postId_post_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."post"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comment" ADD CONSTRAINT "comment_parentId_comment_id_fk" FOREIGN KEY ("parentId") REFERENCES "public"."comment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comment" ADD CONSTRAINT "comment_authorId_user_id_fk" FOREIGN KEY ("authorId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "comment_postId_createdAt_idx" ON "comment" USING btree ("postId","createdAt","id");--> statement-breakpoint
+CREATE INDEX "comment_parentId_idx" ON "comment" USING btree ("parentId");--> statement-breakpoint
+CREATE INDEX "comment_authorId_idx" ON "comment" USING btree ("authorId");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "post_reaction" (
+	"postId" varchar(128) NOT NULL,
+	"userId" varchar(128) NOT NULL,
+	"kind" varchar(32) NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "post_reaction_postId_userId_kind_pk" PRIMARY KEY("postId","userId","kind")
+);
+--> statement-breakpoint
+ALTER TABLE "post_reaction" ADD CONSTRAINT "post_reaction_postId_post_id_fk" FOREIGN KEY ("postId") REFERENCES "public"."post"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_reaction" ADD CONSTRAINT "post_reaction_userId_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "post_reaction_userId_idx" ON "post_reaction" USING btree ("userId");
\ No newline at end of file
@@ -0,0 +1,2 @@
+DROP INDEX "post_feed_idx";--> statement-breakpoint
+DROP TABLE "follow";
@@ -0,0 +1,11 @@
+CREATE TABLE "follow" (
+	"followerId" varchar(128) NOT NULL,
+	"followeeId" varchar(128) NOT NULL,
+	"createdAt" timestamp (3) DEFAULT now() NOT NULL,
+	CONSTRAINT "follow_followerId_followeeId_pk" PRIMARY KEY("followerId","followeeId")
+);
+--> statement-breakpoint
+ALTER TABLE "follow" ADD CONSTRAINT "follow_followerId_user_id_fk" FOREIGN KEY ("followerId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "follow" ADD CONSTRAINT "follow_followeeId_user_id_fk" FOREIGN KEY ("followeeId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "follow_followeeId_createdAt_idx" ON "follow" USING btree ("followeeId","createdAt");--> statement-breakpoint
+CREATE INDEX "post_feed_idx" ON "post" USING btree ("authorId","createdAt" DESC NULLS LAST,"id" DESC NULLS LAST) WHERE "post"."status" = 'published' and "post"."deletedAt" is null;
\ No newline at end of file
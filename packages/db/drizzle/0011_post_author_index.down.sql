@@ -0,0 +1 @@
+DROP INDEX "post_authorId_createdAt_idx";
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "post_authorId_createdAt_idx" ON "post" USING btree ("authorId","createdAt");
\ No newline at end of file
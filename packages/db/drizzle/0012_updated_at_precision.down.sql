@@ -0,0 +1,2 @@
+ALTER TABLE "post" ALTER COLUMN "updatedAt" SET DATA TYPE timestamp;--> statement-breakpoint
+ALTER TABLE "user" ALTER COLUMN "updatedAt" SET DATA TYPE timestamp;
\ No newline at end of file
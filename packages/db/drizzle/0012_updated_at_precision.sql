@@ -0,0 +1,4 @@
+ALTER TABLE "user" ALTER COLUMN "updatedAt" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "user" ALTER COLUMN "updatedAt" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "post" ALTER COLUMN "updatedAt" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "post" ALTER COLUMN "updatedAt" SET DEFAULT now();
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "comment_postId_createdAt_idx";--> statement-breakpoint
+ALTER TABLE "comment" DROP COLUMN "sequence";--> statement-breakpoint
+CREATE INDEX "comment_postId_createdAt_idx" ON "comment" USING btree ("postId","createdAt","id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "comment_postId_createdAt_idx";--> statement-breakpoint
+ALTER TABLE "comment" ADD COLUMN "sequence" bigserial NOT NULL;--> statement-breakpoint
+CREATE INDEX "comment_postId_createdAt_idx" ON "comment" USING btree ("postId","createdAt","sequence");
\ No newline at end of file
@@ -0,0 +1,4 @@
+DELETE FROM "comment" WHERE "authorId" IS NULL;--> statement-breakpoint
+ALTER TABLE "comment" DROP CONSTRAINT "comment_authorId_user_id_fk";--> statement-breakpoint
+ALTER TABLE "comment" ALTER COLUMN "authorId" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "comment" ADD CONSTRAINT "comment_authorId_user_id_fk" FOREIGN KEY ("authorId") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "comment" DROP CONSTRAINT "comment_authorId_user_id_fk";
+--> statement-breakpoint
+ALTER TABLE "comment" ALTER COLUMN "authorId" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "comment" ADD CONSTRAINT "comment_authorId_user_id_fk" FOREIGN KEY ("authorId") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+DROP INDEX "post_feed_idx";--> statement-breakpoint
+ALTER TABLE "post" ALTER COLUMN "publishedAt" SET DATA TYPE timestamp;--> statement-breakpoint
+CREATE INDEX "post_feed_idx" ON "post" USING btree ("authorId","createdAt" DESC NULLS LAST,"id" DESC NULLS LAST) WHERE "post"."status" = 'published' and "post"."deletedAt" is null;
\ No newline at end of file
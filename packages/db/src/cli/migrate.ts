@@ -0,0 +1,129 @@
+/**
+ * Migration command.
+ *
+ * Usage:
+ *   bun run db:migrate status            Show applied and pending migrations
+ *   bun run db:migrate up                Apply all pending migrations
+ *   bun run db:migrate down <version>    Revert to <version> ("base" reverts all)
+ *
+ * Reads DATABASE_URL from the environment (or .env).
+ */
+
+import "dotenv/config";
+import { Pool } from "pg";
+
+import {
+  BASE_VERSION,
+  type MigrationStatus,
+  type Migrator,
+  createMigrator,
+} from "../migrator";
+
+const USAGE = "Usage: db:migrate <status | up | down <version|base>>";
+
+/**
+ * Parse the target of `down`.
+ */
+const parseTargetVersion = (value: string | undefined): number | null => {
+  if (value === "base") return BASE_VERSION;
+  if (value === undefined || !/^\d+$/.test(value)) return null;
+  return Number(value);
+};
+
+/**
+ * Print a status report.
+ */
+const printStatus = (status: MigrationStatus): void => {
+  console.log(
+    `Current version: ${status.currentVersion} (latest ${status.latestVersion})`,
+  );
+
+  for (const row of status.applied) {
+    console.log(`  applied  ${row.tag}  ${row.appliedAt.toISOString()}`);
+  }
+
+  for (const migration of status.pending) {
+    console.log(`  pending  ${migration.tag}`);
+  }
+
+  for (const row of status.modified) {
+    console.warn(`  warning: ${row.tag} was edited after it was applied`);
+  }
+
+  for (const row of status.unknown) {
+    console.warn(`  warning: ${row.tag} is applied but missing on disk`);
+  }
+
+  console.log(
+    status.upToDate ?
+      "Schema is up to date."
+    : `${status.pending.length} migration(s) pending.`,
+  );
+};
+
+/**
+ * Run the requested command.
+ */
+const run = async (migrator: Migrator, args: string[]): Promise<number> => {
+  const [command, target] = args;
+
+  switch (command) {
+    case "status": {
+      printStatus(await migrator.status());
+      return 0;
+    }
+
+    case "up": {
+      const applied = await migrator.up();
+
+      for (const migration of applied) {
+        console.log(`Applied ${migration.tag}`);
+      }
+
+      console.log(
+        applied.length === 0 ?
+          "Nothing to apply."
+        : `Applied ${applied.length} migration(s).`,
+      );
+      return 0;
+    }
+
+    case "down": {
+      const version = parseTargetVersion(target);
+
+      if (version === null) {
+        console.error(USAGE);
+        return 1;
+      }
+
+      const reverted = await migrator.downTo(version);
+
+      for (const migration of reverted) {
+        console.log(`Reverted ${migration.tag}`);
+      }
+
+      console.log(
+        reverted.length === 0 ?
+          "Nothing to revert."
+        : `Reverted ${reverted.length} migration(s).`,
+      );
+      return 0;
+    }
+
+    default: {
+      console.error(USAGE);
+      return 1;
+    }
+  }
+};
+
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+try {
+  process.exitCode = await run(createMigrator({ pool }), process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
@@ -0,0 +1,345 @@
+/**
+ * Programmatic SQL migrator.
+ *
+ * Applies the migrations generated by drizzle-kit (`drizzle/NNNN_name.sql`,
+ * ordered by `drizzle/meta/_journal.json`) and records them in a tracking
+ * table. Each migration may ship a hand-written `NNNN_name.down.sql` so the
+ * schema can be rolled back to an earlier version.
+ *
+ * A migration's version is its journal index (the `NNNN` file prefix).
+ */
+
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Pool, PoolClient } from "pg";
+
+/**
+ * Directory holding the committed migrations of this package.
+ */
+export const DEFAULT_MIGRATIONS_FOLDER = fileURLToPath(
+  new URL("../drizzle", import.meta.url),
+);
+
+/**
+ * Table recording applied migrations.
+ */
+export const MIGRATIONS_TABLE = "__schema_migrations";
+
+/**
+ * Version reported when no migration has been applied.
+ */
+export const BASE_VERSION = -1;
+
+/**
+ * Statement separator emitted by drizzle-kit.
+ */
+const STATEMENT_BREAKPOINT = "--> statement-breakpoint";
+
+/**
+ * Arbitrary key for the advisory lock that serialises concurrent migrators.
+ */
+const ADVISORY_LOCK_KEY = 727_274_011;
+
+/**
+ * A migration loaded from disk.
+ */
+export interface Migration {
+  readonly version: number;
+  /** File name without extension, e.g. `0000_initial` */
+  readonly tag: string;
+  readonly up: readonly string[];
+  /** Null when no `.down.sql` file exists (irreversible) */
+  readonly down: readonly string[] | null;
+  /** SHA-256 of the up script, used to detect edited migrations */
+  readonly checksum: string;
+}
+
+/**
+ * A migration recorded in the tracking table.
+ */
+export interface AppliedMigration {
+  readonly version: number;
+  readonly tag: string;
+  readonly checksum: string;
+  readonly appliedAt: Date;
+}
+
+/**
+ * Comparison of the migrations on disk with the database.
+ */
+export interface MigrationStatus {
+  /** Highest applied version, or BASE_VERSION */
+  readonly currentVersion: number;
+  /** Highest version on disk, or BASE_VERSION */
+  readonly latestVersion: number;
+  readonly applied: readonly AppliedMigration[];
+  /** On disk but not applied, in apply order */
+  readonly pending: readonly Migration[];
+  /** Applied but edited on disk since */
+  readonly modified: readonly AppliedMigration[];
+  /** Applied but missing on disk (database is ahead of the code) */
+  readonly unknown: readonly AppliedMigration[];
+  /** True when nothing is pending */
+  readonly upToDate: boolean;
+}
+
+/**
+ * Runs migrations against one database.
+ */
+export interface Migrator {
+  /** Compare migrations on disk with the database */
+  status(): Promise<MigrationStatus>;
+  /** Apply every pending migration; returns what was applied */
+  up(): Promise<readonly Migration[]>;
+  /**
+   * Revert applied migrations newer than `version` (BASE_VERSION reverts
+   * everything); returns what was reverted, newest first.
+   */
+  downTo(version: number): Promise<readonly Migration[]>;
+}
+
+/**
+ * Options for creating a migrator.
+ */
+export interface CreateMigratorOptions {
+  readonly pool: Pool;
+  readonly migrationsFolder?: string;
+}
+
+/**
+ * Journal written by drizzle-kit.
+ */
+interface Journal {
+  readonly entries: readonly { readonly idx: number; readonly tag: string }[];
+}
+
+/**
+ * Split a script into statements at drizzle-kit breakpoints.
+ */
+const splitStatements = (script: string): string[] =>
+  script
+    .split(STATEMENT_BREAKPOINT)
+    .map((statement) => statement.trim())
+    .filter((statement) => statement.length > 0);
+
+/**
+ * Read a file, or null if it does not exist.
+ */
+const readOptional = async (path: string): Promise<string | null> => {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+/**
+ * Load migrations from a drizzle-kit output folder, in version order.
+ *
+ * @param folder - Folder containing `meta/_journal.json` and SQL files
+ */
+export const loadMigrations = async (
+  folder: string = DEFAULT_MIGRATIONS_FOLDER,
+): Promise<Migration[]> => {
+  const journal = JSON.parse(
+    await readFile(join(folder, "meta", "_journal.json"), "utf8"),
+  ) as Journal;
+
+  const entries = [...journal.entries].sort((a, b) => a.idx - b.idx);
+
+  return Promise.all(
+    entries.map(async ({ idx, tag }) => {
+      const up = await readFile(join(folder, `${tag}.sql`), "utf8");
+      const down = await readOptional(join(folder, `${tag}.down.sql`));
+
+      return {
+        version: idx,
+        tag,
+        up: splitStatements(up),
+        down: down === null ? null : splitStatements(down),
+        checksum: createHash("sha256").update(up).digest("hex"),
+      };
+    }),
+  );
+};
+
+/**
+ * Create the tracking table if it does not exist yet.
+ */
+const ensureMigrationsTable = async (
+  client: Pool | PoolClient,
+): Promise<void> => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS "${MIGRATIONS_TABLE}" (
+      "version" integer PRIMARY KEY,
+      "tag" text NOT NULL,
+      "checksum" varchar(64) NOT NULL,
+      "appliedAt" timestamptz NOT NULL DEFAULT now()
+    )
+  `);
+};
+
+/**
+ * Read applied migrations, oldest first.
+ */
+const readApplied = async (
+  client: Pool | PoolClient,
+): Promise<AppliedMigration[]> => {
+  const result = await client.query<{
+    version: number;
+    tag: string;
+    checksum: string;
+    appliedAt: Date;
+  }>(
+    `SELECT "version", "tag", "checksum", "appliedAt" FROM "${MIGRATIONS_TABLE}" ORDER BY "version"`,
+  );
+
+  return result.rows;
+};
+
+/**
+ * Compute status from migrations on disk and applied rows.
+ */
+const compare = (
+  migrations: readonly Migration[],
+  applied: readonly AppliedMigration[],
+): MigrationStatus => {
+  const appliedByVersion = new Map(applied.map((row) => [row.version, row]));
+  const onDisk = new Map(migrations.map((m) => [m.version, m]));
+  const pending = migrations.filter((m) => !appliedByVersion.has(m.version));
+
+  return {
+    currentVersion: applied.at(-1)?.version ?? BASE_VERSION,
+    latestVersion: migrations.at(-1)?.version ?? BASE_VERSION,
+    applied,
+    pending,
+    modified: applied.filter((row) => {
+      const migration = onDisk.get(row.version);
+      return migration !== undefined && migration.checksum !== row.checksum;
+    }),
+    unknown: applied.filter((row) => !onDisk.has(row.version)),
+    upToDate: pending.length === 0,
+  };
+};
+
+/**
+ * Run a callback on a dedicated connection holding the migration lock.
+ */
+const withLock = async <T>(
+  pool: Pool,
+  callback: (client: PoolClient) => Promise<T>,
+): Promise<T> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [ADVISORY_LOCK_KEY]);
+
+    try {
+      await ensureMigrationsTable(client);
+      return await callback(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [ADVISORY_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Run statements in a single transaction.
+ */
+const runInTransaction = async (
+  client: PoolClient,
+  statements: readonly string[],
+  record: () => Promise<unknown>,
+): Promise<void> => {
+  await client.query("BEGIN");
+
+  try {
+    for (const statement of statements) {
+      await client.query(statement);
+    }
+
+    await record();
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+};
+
+/**
+ * Create a migrator for the given pool.
+ *
+ * @param options - Connection pool and optional migrations folder
+ * @returns Migrator
+ */
+export const createMigrator = (options: CreateMigratorOptions): Migrator => {
+  const { pool, migrationsFolder = DEFAULT_MIGRATIONS_FOLDER } = options;
+
+  return {
+    async status() {
+      const migrations = await loadMigrations(migrationsFolder);
+      await ensureMigrationsTable(pool);
+      return compare(migrations, await readApplied(pool));
+    },
+
+    async up() {
+      const migrations = await loadMigrations(migrationsFolder);
+
+      return withLock(pool, async (client) => {
+        const { pending } = compare(migrations, await readApplied(client));
+
+        // Each migration commits on its own so a failure keeps earlier ones
+        for (const migration of pending) {
+          await runInTransaction(client, migration.up, () =>
+            client.query(
+              `INSERT INTO "${MIGRATIONS_TABLE}" ("version", "tag", "checksum") VALUES ($1, $2, $3)`,
+              [migration.version, migration.tag, migration.checksum],
+            ),
+          );
+        }
+
+        return pending;
+      });
+    },
+
+    async downTo(version) {
+      const migrations = await loadMigrations(migrationsFolder);
+      const onDisk = new Map(migrations.map((m) => [m.version, m]));
+
+      return withLock(pool, async (client) => {
+        const toRevert = (await readApplied(client))
+          .filter((row) => row.version > version)
+          .reverse();
+
+        // Check everything up front so a rollback never stops half way
+        const plan = toRevert.map((row) => {
+          const migration = onDisk.get(row.version);
+
+          if (!migration?.down) {
+            throw new Error(
+              `Cannot revert ${row.tag}: no ${row.tag}.down.sql on disk`,
+            );
+          }
+
+          return { ...migration, down: migration.down };
+        });
+
+        for (const migration of plan) {
+          await runInTransaction(client, migration.down, () =>
+            client.query(
+              `DELETE FROM "${MIGRATIONS_TABLE}" WHERE "version" = $1`,
+              [migration.version],
+            ),
+          );
+        }
+
+        return plan;
+      });
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import {
+  type AnyPgColumn,
+  bigserial,
+  index,
+  pgTable,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { createId } from "@paralleldrive/cuid2";
+import { posts } from "./posts";
+import { users } from "./users";
+
+export const comments = pgTable(
+  "comment",
+  {
+    id: varchar("id", { length: 128 })
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    postId: varchar("postId", { length: 128 })
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    // Top-level comment this one replies to; replies nest one level only.
+    // Comments are only hard-deleted with their post, which takes the replies too
+    parentId: varchar("parentId", { length: 128 }).references(
+      (): AnyPgColumn => comments.id,
+      { onDelete: "cascade" },
+    ),
+    // Cleared when the author is purged, so the thread keeps its replies
+    authorId: varchar("authorId", { length: 128 }).references(() => users.id, {
+      onDelete: "set null",
+    }),
+    content: text("content").notNull(),
+    // Millisecond precision so threads order stably through JS Dates
+    createdAt: timestamp("createdAt", { mode: "date", precision: 3 })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updatedAt", { mode: "date" }).defaultNow().notNull(),
+    // Deleted comments stay in their thread as a placeholder
+    deletedAt: timestamp("deletedAt", { mode: "date" }),
+    // Insertion order; breaks ties between comments created in the same millisecond
+    sequence: bigserial("sequence", { mode: "number" }).notNull(),
+  },
+  (table) => [
+    index("comment_postId_createdAt_idx").on(
+      table.postId,
+      table.createdAt,
+      table.sequence,
+    ),
+    index("comment_parentId_idx").on(table.parentId),
+    index("comment_authorId_idx").on(table.authorId),
+  ],
+);
@@ -0,0 +1,18 @@
+import {
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+export const credentials = pgTable("credential", {
+  userId: varchar("userId", { length: 128 })
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("passwordHash").notNull(),
+  sessionVersion: integer("sessionVersion").default(0).notNull(),
+  createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt", { mode: "date" }).defaultNow().notNull(),
+});
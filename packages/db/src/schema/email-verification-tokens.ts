@@ -0,0 +1,21 @@
+import { index, pgTable, timestamp, varchar } from "drizzle-orm/pg-core";
+import { createId } from "@paralleldrive/cuid2";
+import { users } from "./users";
+
+export const emailVerificationTokens = pgTable(
+  "email_verification_token",
+  {
+    id: varchar("id", { length: 128 })
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: varchar("userId", { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    email: varchar("email", { length: 255 }).notNull(),
+    tokenHash: varchar("tokenHash", { length: 64 }).notNull().unique(),
+    expiresAt: timestamp("expiresAt", { mode: "date" }).notNull(),
+    consumedAt: timestamp("consumedAt", { mode: "date" }),
+    createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [index("email_verification_token_userId_idx").on(table.userId)],
+);
@@ -0,0 +1,31 @@
+import {
+  index,
+  pgTable,
+  primaryKey,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+export const follows = pgTable(
+  "follow",
+  {
+    followerId: varchar("followerId", { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    followeeId: varchar("followeeId", { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("createdAt", { mode: "date", precision: 3 })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Covers "who does this user follow", which the feed joins on
+    primaryKey({ columns: [table.followerId, table.followeeId] }),
+    index("follow_followeeId_createdAt_idx").on(
+      table.followeeId,
+      table.createdAt,
+    ),
+  ],
+);
@@ -0,0 +1,34 @@
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+
+export const idempotencyKeys = pgTable(
+  "idempotency_key",
+  {
+    // Keys are scoped per user so clients cannot replay each other's responses
+    userId: varchar("userId", { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    key: varchar("key", { length: 255 }).notNull(),
+    // SHA-256 of the method, path and body of the original request
+    fingerprint: varchar("fingerprint", { length: 64 }).notNull(),
+    // Null while the original request is still being processed
+    responseStatus: integer("responseStatus"),
+    responseBody: text("responseBody"),
+    responseHeaders: jsonb("responseHeaders").$type<Record<string, string>>(),
+    createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
+    expiresAt: timestamp("expiresAt", { mode: "date" }).notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.key] }),
+    index("idempotency_key_expiresAt_idx").on(table.expiresAt),
+  ],
+);
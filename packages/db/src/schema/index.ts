@@ -1,2 +1,12 @@
 export * from "./users";
 export * from "./posts";
+export * from "./credentials";
+export * from "./email-verification-tokens";
+export * from "./personal-access-tokens";
+export * from "./idempotency-keys";
+export * from "./jobs";
+export * from "./post-revisions";
+export * from "./tags";
+export * from "./comments";
+export * from "./reactions";
+export * from "./follows";
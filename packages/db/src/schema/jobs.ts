@@ -0,0 +1,36 @@
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { createId } from "@paralleldrive/cuid2";
+
+export const jobs = pgTable(
+  "job",
+  {
+    id: varchar("id", { length: 128 })
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    // Selects the handler, e.g. "posts.publish"
+    type: varchar("type", { length: 64 }).notNull(),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    status: varchar("status", { length: 32 })
+      .$type<"pending" | "running" | "completed" | "failed">()
+      .default("pending")
+      .notNull(),
+    // Earliest time the job may run; pushed back on every retry
+    runAt: timestamp("runAt", { mode: "date", precision: 3 }).notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("maxAttempts").default(5).notNull(),
+    lastError: text("lastError"),
+    // A running job whose lease has lapsed is reclaimed (the worker died)
+    lockedUntil: timestamp("lockedUntil", { mode: "date", precision: 3 }),
+    createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [index("job_status_runAt_idx").on(table.status, table.runAt)],
+);
@@ -0,0 +1,23 @@
+import { index, pgTable, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import { createId } from "@paralleldrive/cuid2";
+import { users } from "./users";
+
+export const personalAccessTokens = pgTable(
+  "personal_access_token",
+  {
+    id: varchar("id", { length: 128 })
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: varchar("userId", { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 255 }).notNull(),
+    tokenHash: varchar("tokenHash", { length: 64 }).notNull().unique(),
+    scopes: text("scopes").array().notNull(),
+    expiresAt: timestamp("expiresAt", { mode: "date" }),
+    lastUsedAt: timestamp("lastUsedAt", { mode: "date" }),
+    revokedAt: timestamp("revokedAt", { mode: "date" }),
+    createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [index("personal_access_token_userId_idx").on(table.userId)],
+);
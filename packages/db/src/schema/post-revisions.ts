@@ -0,0 +1,42 @@
+import {
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { createId } from "@paralleldrive/cuid2";
+import { posts } from "./posts";
+import { users } from "./users";
+
+export const postRevisions = pgTable(
+  "post_revision",
+  {
+    id: varchar("id", { length: 128 })
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    postId: varchar("postId", { length: 128 })
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    // The post version whose title and content this row preserves
+    revision: integer("revision").notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    content: text("content").notNull(),
+    // Who replaced this version; kept when the account is removed
+    editorId: varchar("editorId", { length: 128 }).references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("createdAt", { mode: "date", precision: 3 })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("post_revision_postId_revision_idx").on(
+      table.postId,
+      table.revision,
+    ),
+    index("post_revision_editorId_idx").on(table.editorId),
+  ],
+);
@@ -1,17 +1,70 @@
-import { pgTable, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import { type SQL, sql } from "drizzle-orm";
+import {
+  customType,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { createId } from "@paralleldrive/cuid2";
 import { users } from "./users";
 
-export const posts = pgTable("post", {
-  id: varchar("id", { length: 128 })
-    .primaryKey()
-    .$defaultFn(() => createId()),
-  title: varchar("title", { length: 255 }).notNull(),
-  content: text("content").notNull(),
-  authorId: varchar("authorId", { length: 128 })
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade" }),
-  createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
-  updatedAt: timestamp("updatedAt", { mode: "date" }).defaultNow().notNull(),
-  deletedAt: timestamp("deletedAt", { mode: "date" }),
+/**
+ * Postgres full-text search document.
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
 });
+
+export const posts = pgTable(
+  "post",
+  {
+    id: varchar("id", { length: 128 })
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    title: varchar("title", { length: 255 }).notNull(),
+    content: text("content").notNull(),
+    authorId: varchar("authorId", { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Millisecond precision so (createdAt, id) and (updatedAt, id) cursors
+    // round-trip through JS Dates
+    createdAt: timestamp("createdAt", { mode: "date", precision: 3 })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updatedAt", { mode: "date", precision: 3 })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deletedAt", { mode: "date" }),
+    status: varchar("status", { length: 32 })
+      .$type<"draft" | "published" | "archived">()
+      .default("draft")
+      .notNull(),
+    // Set on first publish and kept through archiving. Millisecond precision
+    // so the feed's (publishedAt, id) cursor round-trips through JS Dates
+    publishedAt: timestamp("publishedAt", { mode: "date", precision: 3 }),
+    // When a scheduled job should publish the post; cleared on publish
+    publishAt: timestamp("publishAt", { mode: "date" }),
+    // Bumped on every update; served as the ETag for optimistic concurrency
+    version: integer("version").default(1).notNull(),
+    // Title matches outrank content matches (weights A and B)
+    searchVector: tsvector("searchVector").generatedAlwaysAs(
+      (): SQL =>
+        sql`setweight(to_tsvector('english', ${posts.title}), 'A') || setweight(to_tsvector('english', ${posts.content}), 'B')`,
+    ),
+  },
+  (table) => [
+    index("post_createdAt_id_idx").on(table.createdAt, table.id),
+    // Per-author statistics: counts and first/last post dates
+    index("post_authorId_createdAt_idx").on(table.authorId, table.createdAt),
+    index("post_searchVector_idx").using("gin", table.searchVector),
+    // Feed: per-author seek over published posts, most recently published first
+    index("post_feed_idx")
+      .on(table.authorId, table.publishedAt.desc(), table.id.desc())
+      .where(sql`${table.status} = 'published' and ${table.deletedAt} is null`),
+  ],
+);
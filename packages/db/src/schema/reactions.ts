@@ -0,0 +1,31 @@
+import {
+  index,
+  pgTable,
+  primaryKey,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { posts } from "./posts";
+import { users } from "./users";
+
+// One row per (post, user, kind); counts are aggregated from these rows
+export const postReactions = pgTable(
+  "post_reaction",
+  {
+    postId: varchar("postId", { length: 128 })
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    userId: varchar("userId", { length: 128 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    kind: varchar("kind", { length: 32 })
+      .$type<"like" | "celebrate" | "insightful">()
+      .notNull(),
+    createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
+  },
+  (table) => [
+    // Leading postId serves the per-post counts and the viewer lookup
+    primaryKey({ columns: [table.postId, table.userId, table.kind] }),
+    index("post_reaction_userId_idx").on(table.userId),
+  ],
+);
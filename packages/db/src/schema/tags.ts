@@ -0,0 +1,35 @@
+import {
+  index,
+  pgTable,
+  primaryKey,
+  timestamp,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { createId } from "@paralleldrive/cuid2";
+import { posts } from "./posts";
+
+export const tags = pgTable("tag", {
+  id: varchar("id", { length: 128 })
+    .primaryKey()
+    .$defaultFn(() => createId()),
+  // Normalized slug (lowercase letters, digits and dashes)
+  name: varchar("name", { length: 32 }).notNull().unique(),
+  createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
+});
+
+export const postTags = pgTable(
+  "post_tags",
+  {
+    postId: varchar("postId", { length: 128 })
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    tagId: varchar("tagId", { length: 128 })
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.postId, table.tagId] }),
+    // Tag filters and usage counts look posts up by tag
+    index("post_tags_tagId_postId_idx").on(table.tagId, table.postId),
+  ],
+);
@@ -1,15 +1,45 @@
-import { pgTable, timestamp, varchar } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  pgTable,
+  timestamp,
+  uniqueIndex,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { createId } from "@paralleldrive/cuid2";
 
-export const users = pgTable("user", {
-  id: varchar("id", { length: 128 })
-    .primaryKey()
-    .$defaultFn(() => createId()),
-  name: varchar("name", { length: 255 }).notNull(),
-  email: varchar("email", { length: 255 }).notNull().unique(),
-  emailVerified: timestamp("emailVerified", { mode: "date" }),
-  image: varchar("image", { length: 255 }),
-  createdAt: timestamp("createdAt", { mode: "date" }).defaultNow().notNull(),
-  updatedAt: timestamp("updatedAt", { mode: "date" }).defaultNow().notNull(),
-  deletedAt: timestamp("deletedAt", { mode: "date" }),
-});
+export const users = pgTable(
+  "user",
+  {
+    id: varchar("id", { length: 128 })
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    name: varchar("name", { length: 255 }).notNull(),
+    email: varchar("email", { length: 255 }).notNull(),
+    emailVerified: timestamp("emailVerified", { mode: "date" }),
+    role: varchar("role", { length: 32 })
+      .$type<"user" | "moderator" | "admin">()
+      .default("user")
+      .notNull(),
+    image: varchar("image", { length: 255 }),
+    // Millisecond precision so (createdAt, id) and (updatedAt, id) cursors
+    // round-trip through JS Dates
+    createdAt: timestamp("createdAt", { mode: "date", precision: 3 })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updatedAt", { mode: "date", precision: 3 })
+      .defaultNow()
+      .notNull(),
+    deletedAt: timestamp("deletedAt", { mode: "date" }),
+    // Bumped on every update; served as the ETag for optimistic concurrency
+    version: integer("version").default(1).notNull(),
+  },
+  (table) => [
+    index("user_createdAt_id_idx").on(table.createdAt, table.id),
+    // Soft-deleted users release their address for new accounts
+    uniqueIndex("user_email_active_idx")
+      .on(table.email)
+      .where(sql`${table.deletedAt} IS NULL`),
+  ],
+);
@@ -0,0 +1,11 @@
+// SQLite schema for the embedded backend (mirrors the Postgres schema)
+import { fileURLToPath } from "node:url";
+
+export * from "./schema";
+
+/**
+ * Directory holding the committed SQLite migrations.
+ */
+export const SQLITE_MIGRATIONS_FOLDER = fileURLToPath(
+  new URL("../../drizzle-sqlite", import.meta.url),
+);
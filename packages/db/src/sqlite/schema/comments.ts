@@ -0,0 +1,46 @@
+import {
+  type AnySQLiteColumn,
+  index,
+  integer,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+import { posts } from "./posts";
+import { users } from "./users";
+
+export const comments = sqliteTable(
+  "comment",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    postId: text("postId")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    // Top-level comment this one replies to; replies nest one level only.
+    // Comments are only hard-deleted with their post, which takes the replies too
+    parentId: text("parentId").references((): AnySQLiteColumn => comments.id, {
+      onDelete: "cascade",
+    }),
+    // Cleared when the author is purged, so the thread keeps its replies
+    authorId: text("authorId").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    content: text("content").notNull(),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer("updatedAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    // Deleted comments stay in their thread as a placeholder
+    deletedAt: integer("deletedAt", { mode: "timestamp_ms" }),
+  },
+  (table) => [
+    // SQLite appends the rowid, which breaks createdAt ties in insertion order
+    index("comment_postId_createdAt_idx").on(table.postId, table.createdAt),
+    index("comment_parentId_idx").on(table.parentId),
+    index("comment_authorId_idx").on(table.authorId),
+  ],
+);
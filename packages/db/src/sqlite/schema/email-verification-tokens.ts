@@ -0,0 +1,23 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+import { users } from "./users";
+
+export const emailVerificationTokens = sqliteTable(
+  "email_verification_token",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    email: text("email").notNull(),
+    tokenHash: text("tokenHash").notNull().unique(),
+    expiresAt: integer("expiresAt", { mode: "timestamp_ms" }).notNull(),
+    consumedAt: integer("consumedAt", { mode: "timestamp_ms" }),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("email_verification_token_userId_idx").on(table.userId)],
+);
@@ -0,0 +1,31 @@
+import {
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { users } from "./users";
+
+export const follows = sqliteTable(
+  "follow",
+  {
+    followerId: text("followerId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    followeeId: text("followeeId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    // Covers "who does this user follow", which the feed joins on
+    primaryKey({ columns: [table.followerId, table.followeeId] }),
+    index("follow_followeeId_createdAt_idx").on(
+      table.followeeId,
+      table.createdAt,
+    ),
+  ],
+);
@@ -0,0 +1,35 @@
+import {
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { users } from "./users";
+
+export const idempotencyKeys = sqliteTable(
+  "idempotency_key",
+  {
+    // Keys are scoped per user so clients cannot replay each other's responses
+    userId: text("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    key: text("key").notNull(),
+    // SHA-256 of the method, path and body of the original request
+    fingerprint: text("fingerprint").notNull(),
+    // Null while the original request is still being processed
+    responseStatus: integer("responseStatus"),
+    responseBody: text("responseBody"),
+    responseHeaders: text("responseHeaders", { mode: "json" }).$type<
+      Record<string, string>
+    >(),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    expiresAt: integer("expiresAt", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.userId, table.key] }),
+    index("idempotency_key_expiresAt_idx").on(table.expiresAt),
+  ],
+);
@@ -0,0 +1,34 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+
+export const jobs = sqliteTable(
+  "job",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    // Selects the handler, e.g. "posts.publish"
+    type: text("type").notNull(),
+    payload: text("payload", { mode: "json" })
+      .$type<Record<string, unknown>>()
+      .notNull(),
+    status: text("status")
+      .$type<"pending" | "running" | "completed" | "failed">()
+      .default("pending")
+      .notNull(),
+    // Earliest time the job may run; pushed back on every retry
+    runAt: integer("runAt", { mode: "timestamp_ms" }).notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("maxAttempts").default(5).notNull(),
+    lastError: text("lastError"),
+    // A running job whose lease has lapsed is reclaimed (the worker died)
+    lockedUntil: integer("lockedUntil", { mode: "timestamp_ms" }),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer("updatedAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("job_status_runAt_idx").on(table.status, table.runAt)],
+);
@@ -0,0 +1,26 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+import { users } from "./users";
+
+export const personalAccessTokens = sqliteTable(
+  "personal_access_token",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    userId: text("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    tokenHash: text("tokenHash").notNull().unique(),
+    // SQLite has no array type; stored as a JSON array
+    scopes: text("scopes", { mode: "json" }).$type<string[]>().notNull(),
+    expiresAt: integer("expiresAt", { mode: "timestamp_ms" }),
+    lastUsedAt: integer("lastUsedAt", { mode: "timestamp_ms" }),
+    revokedAt: integer("revokedAt", { mode: "timestamp_ms" }),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [index("personal_access_token_userId_idx").on(table.userId)],
+);
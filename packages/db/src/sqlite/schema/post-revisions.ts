@@ -0,0 +1,40 @@
+import {
+  index,
+  integer,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+import { posts } from "./posts";
+import { users } from "./users";
+
+export const postRevisions = sqliteTable(
+  "post_revision",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    postId: text("postId")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    // The post version whose title and content this row preserves
+    revision: integer("revision").notNull(),
+    title: text("title").notNull(),
+    content: text("content").notNull(),
+    // Who replaced this version; kept when the account is removed
+    editorId: text("editorId").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex("post_revision_postId_revision_idx").on(
+      table.postId,
+      table.revision,
+    ),
+    index("post_revision_editorId_idx").on(table.editorId),
+  ],
+);
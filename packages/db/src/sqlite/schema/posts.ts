@@ -0,0 +1,46 @@
+import { sql } from "drizzle-orm";
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+import { users } from "./users";
+
+// Searched through the post_fts FTS5 table, which triggers from migration
+// 0012_post_search keep in sync with title and content
+export const posts = sqliteTable(
+  "post",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    title: text("title").notNull(),
+    content: text("content").notNull(),
+    authorId: text("authorId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer("updatedAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    deletedAt: integer("deletedAt", { mode: "timestamp_ms" }),
+    status: text("status")
+      .$type<"draft" | "published" | "archived">()
+      .default("draft")
+      .notNull(),
+    // Set on first publish and kept through archiving
+    publishedAt: integer("publishedAt", { mode: "timestamp_ms" }),
+    // When a scheduled job should publish the post; cleared on publish
+    publishAt: integer("publishAt", { mode: "timestamp_ms" }),
+    // Bumped on every update; served as the ETag for optimistic concurrency
+    version: integer("version").default(1).notNull(),
+  },
+  (table) => [
+    index("post_createdAt_id_idx").on(table.createdAt, table.id),
+    // Per-author statistics: counts and first/last post dates
+    index("post_authorId_createdAt_idx").on(table.authorId, table.createdAt),
+    // Feed: per-author seek over published posts, read backwards
+    index("post_feed_idx")
+      .on(table.authorId, table.publishedAt, table.id)
+      .where(sql`${table.status} = 'published' and ${table.deletedAt} is null`),
+  ],
+);
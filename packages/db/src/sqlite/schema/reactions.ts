@@ -0,0 +1,31 @@
+import {
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { posts } from "./posts";
+import { users } from "./users";
+
+// One row per (post, user, kind); counts are aggregated from these rows
+export const postReactions = sqliteTable(
+  "post_reaction",
+  {
+    postId: text("postId")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    userId: text("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    kind: text("kind").$type<"like" | "celebrate" | "insightful">().notNull(),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    // Leading postId serves the per-post counts and the viewer lookup
+    primaryKey({ columns: [table.postId, table.userId, table.kind] }),
+    index("post_reaction_userId_idx").on(table.userId),
+  ],
+);
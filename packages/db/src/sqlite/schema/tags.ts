@@ -0,0 +1,37 @@
+import {
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+import { posts } from "./posts";
+
+export const tags = sqliteTable("tag", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => createId()),
+  // Normalized slug (lowercase letters, digits and dashes)
+  name: text("name").notNull().unique(),
+  createdAt: integer("createdAt", { mode: "timestamp_ms" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+});
+
+export const postTags = sqliteTable(
+  "post_tags",
+  {
+    postId: text("postId")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    tagId: text("tagId")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.postId, table.tagId] }),
+    // Tag filters and usage counts look posts up by tag
+    index("post_tags_tagId_postId_idx").on(table.tagId, table.postId),
+  ],
+);
@@ -0,0 +1,42 @@
+import { sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  sqliteTable,
+  text,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
+import { createId } from "@paralleldrive/cuid2";
+
+export const users = sqliteTable(
+  "user",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => createId()),
+    name: text("name").notNull(),
+    email: text("email").notNull(),
+    emailVerified: integer("emailVerified", { mode: "timestamp_ms" }),
+    role: text("role")
+      .$type<"user" | "moderator" | "admin">()
+      .default("user")
+      .notNull(),
+    image: text("image"),
+    createdAt: integer("createdAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer("updatedAt", { mode: "timestamp_ms" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    deletedAt: integer("deletedAt", { mode: "timestamp_ms" }),
+    // Bumped on every update; served as the ETag for optimistic concurrency
+    version: integer("version").default(1).notNull(),
+  },
+  (table) => [
+    index("user_createdAt_id_idx").on(table.createdAt, table.id),
+    // Soft-deleted users release their address for new accounts
+    uniqueIndex("user_email_active_idx")
+      .on(table.email)
+      .where(sql`${table.deletedAt} IS NULL`),
+  ],
+);